@@ -5,6 +5,8 @@ import {
   DEFAULT_DOUBLE_DOOR_WIDTH,
   DEFAULT_SLIDING_DOOR_WIDTH,
   DEFAULT_DOOR_HEIGHT,
+  DOOR_FRAME_WIDTH,
+  DOOR_LEAF_THICKNESS,
 } from '@/types/bim';
 
 export { DEFAULT_DOOR_WIDTH, DEFAULT_DOOR_HEIGHT };
@@ -213,6 +215,15 @@ export function createDoor(params: CreateDoorParams): BimElement {
   };
 }
 
+/**
+ * Clear passage width of the open door: nominal width minus both jambs and
+ * the leaves standing in the opening (a sliding leaf runs in front of the wall)
+ */
+export function getDoorClearWidth(doorData: DoorData): number {
+  const leaves = doorData.doorType === 'sliding' ? 0 : doorData.doorType === 'double' ? 2 : 1;
+  return doorData.width - 2 * DOOR_FRAME_WIDTH - leaves * DOOR_LEAF_THICKNESS;
+}
+
 /**
  * Creates an Opening object for a wall based on a door
  */
@@ -24,6 +24,7 @@ export type FurnitureCategory =
   | 'shelf'
   | 'cabinet'
   | 'appliance'
+  | 'handwash-basin'
   | 'decoration'
   | 'other';
 
@@ -0,0 +1,162 @@
+import { v4 as uuidv4 } from 'uuid';
+import type { BimElement, PropertySet, SignageArrow, SignageData, SignageKind } from '@/types/bim';
+import {
+  DEFAULT_EXIT_SIGN_HEIGHT,
+  DEFAULT_EXIT_SIGN_RANGE,
+  DEFAULT_EMERGENCY_LIGHT_HEIGHT,
+  DEFAULT_EMERGENCY_LIGHT_RANGE,
+  DEFAULT_EMERGENCY_DURATION,
+} from '@/types/bim';
+import type { Point2D } from '@/types/geometry';
+
+export {
+  DEFAULT_EXIT_SIGN_HEIGHT,
+  DEFAULT_EXIT_SIGN_RANGE,
+  DEFAULT_EMERGENCY_LIGHT_HEIGHT,
+  DEFAULT_EMERGENCY_LIGHT_RANGE,
+  DEFAULT_EMERGENCY_DURATION,
+};
+
+/** Sign panel size (pictogram 10cm, panel with border) */
+export const EXIT_SIGN_WIDTH = 0.4;
+export const EXIT_SIGN_HEIGHT = 0.2;
+export const EXIT_SIGN_DEPTH = 0.05;
+/** Luminaire body diameter */
+export const EMERGENCY_LIGHT_SIZE = 0.2;
+export const EMERGENCY_LIGHT_DEPTH = 0.06;
+
+/** Name of the custom pset with the planner data */
+export const SIGNAGE_PSET = 'CoffeeBIM_Signage';
+
+export interface CreateSignageParams {
+  kind: SignageKind;
+  position: Point2D;
+  storeyId: string;
+  elevation?: number; // Storey elevation (Z position)
+  arrow?: SignageArrow;
+  rotation?: number;
+  mountingHeight?: number;
+  range?: number;
+  duration?: number;
+  autoPlaced?: boolean;
+  hostDoorId?: string;
+  name?: string;
+}
+
+/**
+ * Get signage kind label for display
+ */
+export function getSignageKindLabel(kind: SignageKind): string {
+  switch (kind) {
+    case 'exitSign':
+      return 'Rettungszeichen';
+    case 'emergencyLight':
+      return 'Sicherheitsleuchte';
+    default:
+      return kind;
+  }
+}
+
+/**
+ * Panel outline in local coordinates (x along the sign, y = viewing direction)
+ */
+function createSignageProfile(kind: SignageKind): Point2D[] {
+  const hw = (kind === 'exitSign' ? EXIT_SIGN_WIDTH : EMERGENCY_LIGHT_SIZE) / 2;
+  const hd = (kind === 'exitSign' ? EXIT_SIGN_DEPTH : EMERGENCY_LIGHT_SIZE) / 2;
+  return [
+    { x: -hw, y: -hd },
+    { x: hw, y: -hd },
+    { x: hw, y: hd },
+    { x: -hw, y: hd },
+  ];
+}
+
+/**
+ * Creates a new exit sign or emergency luminaire
+ */
+export function createSignage(params: CreateSignageParams): BimElement {
+  const {
+    kind,
+    position,
+    storeyId,
+    elevation = 0,
+    arrow = 'none',
+    rotation = 0,
+    mountingHeight = kind === 'exitSign' ? DEFAULT_EXIT_SIGN_HEIGHT : DEFAULT_EMERGENCY_LIGHT_HEIGHT,
+    range = kind === 'exitSign' ? DEFAULT_EXIT_SIGN_RANGE : DEFAULT_EMERGENCY_LIGHT_RANGE,
+    duration = DEFAULT_EMERGENCY_DURATION,
+    autoPlaced = false,
+    hostDoorId,
+    name,
+  } = params;
+
+  const signageNumber = Date.now().toString().slice(-4);
+
+  const signageData: SignageData = {
+    kind,
+    arrow: kind === 'exitSign' ? arrow : 'none',
+    mountingHeight,
+    range,
+    rotation,
+    duration,
+    autoPlaced,
+    ...(hostDoorId && { hostDoorId }),
+  };
+
+  return {
+    id: uuidv4(),
+    type: 'signage',
+    name: name || `${getSignageKindLabel(kind)} ${signageNumber}`,
+    geometry: {
+      profile: createSignageProfile(kind),
+      height: kind === 'exitSign' ? EXIT_SIGN_HEIGHT : EMERGENCY_LIGHT_DEPTH,
+      direction: { x: 0, y: 0, z: 1 },
+    },
+    placement: {
+      // Z-up: position is on the storey floor, the mounting height is in signageData
+      position: { x: position.x, y: position.y, z: elevation },
+      rotation: { x: 0, y: 0, z: Math.sin(rotation / 2), w: Math.cos(rotation / 2) },
+    },
+    properties: [],
+    parentId: storeyId,
+    signageData,
+  };
+}
+
+/**
+ * Signage data -> IFC property sets (derived on export, so they never go stale)
+ */
+export function createSignagePropertySets(data: SignageData): PropertySet[] {
+  const escapeDirection: Record<SignageArrow, string | null> = {
+    none: null,
+    straight: 'UPARROW',
+    left: 'LEFTARROW',
+    right: 'RIGHTARROW',
+    down: 'DOWNARROW',
+  };
+
+  return [
+    {
+      name: 'Pset_LightFixtureTypeSecurityLighting',
+      properties: {
+        SecurityLightingType: data.kind === 'exitSign' ? 'EMERGENCYEXITLIGHT' : 'SAFETYLIGHT',
+        FixtureHeight: data.mountingHeight,
+        PictogramEscapeDirection: escapeDirection[data.arrow],
+        BackupSupplySystem: 'LOCALBATTERY',
+      },
+    },
+    {
+      name: SIGNAGE_PSET,
+      properties: {
+        Kind: data.kind,
+        Arrow: data.arrow,
+        MountingHeight: data.mountingHeight,
+        Range: data.range,
+        Rotation: data.rotation,
+        Duration: data.duration,
+        AutoPlaced: data.autoPlaced,
+        HostDoorId: data.hostDoorId ?? null,
+      },
+    },
+  ];
+}
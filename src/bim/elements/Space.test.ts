@@ -0,0 +1,26 @@
+import { describe, expect, it } from 'vitest';
+import { guessGastroCategory } from './Space';
+
+describe('guessGastroCategory', () => {
+  it('matches short keywords only as whole words', () => {
+    expect(guessGastroCategory('Barrierefreier Zugang')).not.toBe('BAR');
+    expect(guessGastroCategory('Bar')).toBe('BAR');
+    expect(guessGastroCategory('Damen-WC')).toBe('SANITAER');
+    expect(guessGastroCategory('Awcx')).not.toBe('SANITAER');
+  });
+
+  it('matches longer keywords inside compounds', () => {
+    expect(guessGastroCategory('Personalküche')).toBe('KUECHE');
+    expect(guessGastroCategory('Weinlager')).toBe('LAGER');
+    expect(guessGastroCategory('plant room 2')).toBe('TECHNIK');
+  });
+
+  it('prefers the first text with a match', () => {
+    expect(guessGastroCategory('Lager', undefined, 'Bar 1')).toBe('LAGER');
+    expect(guessGastroCategory(undefined, 'Raum 1.04', 'Küche')).toBe('KUECHE');
+  });
+
+  it('lets exact category keys win', () => {
+    expect(guessGastroCategory('Abstellraum', 'TECHNIK')).toBe('TECHNIK');
+  });
+});
@@ -228,7 +228,7 @@ export function createSpaceFromPolygon(params: CreateSpaceFromPolygonParams): Bi
  */
 export function updateSpaceProperties(
   space: BimElement,
-  updates: Partial<Pick<SpaceData, 'spaceType' | 'longName' | 'gastroCategory'>>
+  updates: Partial<Pick<SpaceData, 'spaceType' | 'longName' | 'gastroCategory' | 'occupancyData' | 'hygieneZone'>>
 ): BimElement {
   if (!space.spaceData) {
     throw new Error('Element is not a space');
@@ -539,3 +539,66 @@ export function recalculateAllSpacesNetArea(
 ): BimElement[] {
   return spaces.map((space) => updateSpaceNetFloorArea(space, allElements));
 }
+
+// ============================================================================
+// Category Mapping
+// ============================================================================
+
+/**
+ * Keywords (German / English, lower case) per gastro category.
+ * Keywords with a space match as phrase of whole words.
+ */
+const GASTRO_CATEGORY_KEYWORDS: [GastroSpaceCategory, string[]][] = [
+  ['KUECHE', ['küche', 'kueche', 'kitchen', 'zubereitung', 'spül', 'spüle', 'kochen']],
+  ['SANITAER', ['wc', 'toilet', 'toilette', 'sanitär', 'sanitaer', 'dusche', 'wasch', 'restroom', 'bath', 'bathroom']],
+  ['BAR', ['bar', 'theke', 'tresen', 'buffet']],
+  ['LAGER', ['lager', 'storage', 'kühlraum', 'keller', 'vorrat', 'abstell']],
+  ['PERSONAL', ['personal', 'büro', 'buero', 'office', 'staff', 'garderobe', 'umkleide']],
+  ['EINGANG', ['eingang', 'windfang', 'entrance', 'foyer', 'lobby', 'entry']],
+  ['TERRASSE', ['terrasse', 'terrace', 'garten', 'aussen', 'outdoor', 'patio', 'balkon']],
+  ['TECHNIK', ['technik', 'heizung', 'elektro', 'server', 'mechanical', 'plant room', 'lüftung']],
+  ['GASTRAUM', ['gastraum', 'restaurant', 'café', 'cafe', 'dining', 'speise', 'saal', 'lounge', 'gäste']],
+];
+
+/**
+ * Keywords of at least this length also match as part of a German compound
+ * (prefix or suffix, e.g. "Personalküche", "Lagerraum"). Shorter keywords
+ * like "wc" or "bar" only match whole words.
+ */
+const COMPOUND_KEYWORD_MIN_LENGTH = 5;
+
+function tokenize(text: string): string[] {
+  return text.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter((token) => token !== '');
+}
+
+function matchesKeyword(tokens: string[], keyword: string): boolean {
+  if (keyword.includes(' ')) return ` ${tokens.join(' ')} `.includes(` ${keyword} `);
+  return tokens.some(
+    (token) =>
+      token === keyword ||
+      (keyword.length >= COMPOUND_KEYWORD_MIN_LENGTH && (token.startsWith(keyword) || token.endsWith(keyword)))
+  );
+}
+
+/**
+ * Best-effort gastro category from names of foreign models.
+ * Texts are passed by priority (e.g. IfcSpace LongName, ObjectType, Name):
+ * exact category keys win, then the first text with a matching keyword.
+ */
+export function guessGastroCategory(...texts: (string | undefined)[]): GastroSpaceCategory {
+  const candidates = texts.filter((text): text is string => !!text);
+
+  for (const text of candidates) {
+    const exact = GASTRO_CATEGORY_KEYWORDS.find(([category]) => category === text.trim().toUpperCase());
+    if (exact) return exact[0];
+  }
+
+  for (const text of candidates) {
+    const tokens = tokenize(text);
+    for (const [category, keywords] of GASTRO_CATEGORY_KEYWORDS) {
+      if (keywords.some((keyword) => matchesKeyword(tokens, keyword))) return category;
+    }
+  }
+
+  return DEFAULT_GASTRO_CATEGORY;
+}
@@ -63,6 +63,7 @@ export {
   calculateNetFloorArea,
   updateSpaceNetFloorArea,
   recalculateAllSpacesNetArea,
+  guessGastroCategory,
 } from './Space';
 export type { CreateSpaceParams, CreateSpaceFromPolygonParams } from './Space';
 export {
@@ -73,3 +74,10 @@ export {
   getStairOpeningOutline,
 } from './Stair';
 export type { CreateStairParams } from './Stair';
+export {
+  createSignage,
+  createSignagePropertySets,
+  getSignageKindLabel,
+  SIGNAGE_PSET,
+} from './Signage';
+export type { CreateSignageParams } from './Signage';
@@ -2,15 +2,53 @@ import * as WebIFC from 'web-ifc';
 import type { BimElement, ProjectInfo, SiteInfo, BuildingInfo, StoreyInfo } from '@/types/bim';
 import { offsetPath, createCounterPolygon } from '@/lib/geometry/pathOffset';
 import { calculateWallGeometry, getPointOnWall } from '@/lib/geometry';
+import {
+  DEFAULT_IFC_SCHEMA,
+  getDoorOperationType,
+  getWindowPartitioningType,
+  getSpacePredefinedType,
+  getFurniturePredefinedType,
+  type IfcExportOptions,
+  type IfcSchemaVersion,
+} from './schema';
+import { createCounterParameterPset, createStairParameterPset } from './parameterPsets';
+import { calculateSpaceOccupancy, createOccupancyPset, OCCUPANCY_PSET } from '@/bim/spaces/occupancy';
+import { createFireCompartmentPropertySets, type FireCompartment } from '@/bim/spaces/compartments';
+import {
+  calculateLoadBudget,
+  createApplianceLoadPset,
+  createCircuitPset,
+  type CircuitLoad,
+  type ElectricalCircuit,
+  type ElectricalSettings,
+} from '@/lib/electrical';
+import { getWallQuantities } from '@/lib/quantities';
+import { applyModulePropertySets } from '@/lib/modules';
+import { downloadBlob } from '@/lib/utils/download';
+import { uuidToIfcGuid, isIfcGuid } from './guid';
+import {
+  createSignagePropertySets,
+  EXIT_SIGN_WIDTH,
+  EXIT_SIGN_HEIGHT,
+  EXIT_SIGN_DEPTH,
+  EMERGENCY_LIGHT_SIZE,
+  EMERGENCY_LIGHT_DEPTH,
+} from '@/bim/elements/Signage';
+
+/** Max length of an IfcLabel; longer strings are written as IfcText */
+const IFC_LABEL_MAX_LENGTH = 255;
 
 /**
  * IFC Exporter using web-ifc
- * Creates IFC 2x3 files from BIM elements
+ * Creates IFC 2x3, IFC4 or IFC4X3 files from BIM elements.
+ * Entity types and enum attributes are chosen per target schema
+ * (e.g. IfcWallStandardCase vs. IfcWall, IfcDoorStyle vs. IfcDoor.OperationType).
  */
 export class IfcExporter {
   private ifcApi: WebIFC.IfcAPI;
   private modelId: number = 0;
   private expressIdCounter: number = 1;
+  private schema: IfcSchemaVersion = DEFAULT_IFC_SCHEMA;
 
   // Store IFC entity IDs for relationships
   private projectId: number = 0;
@@ -27,6 +65,9 @@ export class IfcExporter {
   private spaceIds: Map<string, number> = new Map();
   private stairIds: Map<string, number> = new Map();
   private slabIds: Map<string, number> = new Map();
+  private signageIds: Map<string, number> = new Map();
+  // IFC2x3 only: shared IfcDoorStyle per operation type
+  private doorStyleIds: Map<string, number> = new Map();
 
   constructor() {
     this.ifcApi = new WebIFC.IfcAPI();
@@ -49,10 +90,15 @@ export class IfcExporter {
     site: SiteInfo,
     building: BuildingInfo,
     storeys: StoreyInfo[],
-    elements: BimElement[]
+    modelElements: BimElement[],
+    options: IfcExportOptions = {}
   ): Promise<Uint8Array> {
+    // Custom module property sets are rebuilt with defaults and the computed fields of the current model
+    const elements = applyModulePropertySets(modelElements, options.customModules ?? []);
+
     // Create new model
-    this.modelId = this.ifcApi.CreateModel({ schema: WebIFC.Schemas.IFC4 });
+    this.schema = options.schema ?? DEFAULT_IFC_SCHEMA;
+    this.modelId = this.ifcApi.CreateModel({ schema: WebIFC.Schemas[this.schema] });
     this.expressIdCounter = 1;
 
     // Reset ID maps
@@ -67,6 +113,8 @@ export class IfcExporter {
     this.spaceIds.clear();
     this.stairIds.clear();
     this.slabIds.clear();
+    this.signageIds.clear();
+    this.doorStyleIds.clear();
 
     // Create IFC hierarchy
     this.createOwnerHistory();
@@ -87,7 +135,7 @@ export class IfcExporter {
     // Export walls first (doors need wall references)
     const walls = elements.filter((e) => e.type === 'wall');
     for (const wall of walls) {
-      this.createWall(wall, storeys);
+      this.createWall(wall, elements, storeys);
     }
 
     // Export doors with openings
@@ -129,7 +177,7 @@ export class IfcExporter {
     // Export spaces (rooms)
     const spaces = elements.filter((e) => e.type === 'space');
     for (const space of spaces) {
-      this.createSpace(space, storeys);
+      this.createSpace(space, elements, storeys);
     }
 
     // Export stairs
@@ -139,6 +187,22 @@ export class IfcExporter {
       this.createStair(stair, storeys);
     }
 
+    // Export exit signs and emergency luminaires
+    const signage = elements.filter((e) => e.type === 'signage');
+    for (const item of signage) {
+      this.createSignage(item, storeys);
+    }
+
+    // Export fire compartments (zones grouping the exported spaces)
+    for (const compartment of options.fireCompartments ?? []) {
+      this.createFireCompartment(compartment, elements);
+    }
+
+    // Export electrical load budget (load pset per appliance, circuits grouping the appliances)
+    if (options.electricalSettings) {
+      this.createElectricalLoads(elements, storeys, options.electricalCircuits ?? [], options.electricalSettings);
+    }
+
     // Get IFC data
     const ifcData = this.ifcApi.SaveModel(this.modelId);
 
@@ -152,6 +216,13 @@ export class IfcExporter {
     return this.expressIdCounter++;
   }
 
+  /**
+   * IFC2x3 lacks PredefinedType on most building elements and uses styles instead
+   */
+  private get isIfc2x3(): boolean {
+    return this.schema === 'IFC2X3';
+  }
+
   private createOwnerHistory(): number {
     const personId = this.getNextId();
     this.ifcApi.WriteLine(this.modelId, {
@@ -328,7 +399,7 @@ export class IfcExporter {
     this.ifcApi.WriteLine(this.modelId, {
       expressID: this.projectId,
       type: WebIFC.IFCPROJECT,
-      GlobalId: { type: 1, value: this.generateGuid() },
+      GlobalId: { type: 1, value: this.getGlobalId(project) },
       OwnerHistory: null,
       Name: { type: 1, value: project.name },
       Description: project.description ? { type: 1, value: project.description } : null,
@@ -347,7 +418,7 @@ export class IfcExporter {
     this.ifcApi.WriteLine(this.modelId, {
       expressID: this.siteId,
       type: WebIFC.IFCSITE,
-      GlobalId: { type: 1, value: this.generateGuid() },
+      GlobalId: { type: 1, value: this.getGlobalId(site) },
       OwnerHistory: null,
       Name: { type: 1, value: site.name },
       Description: null,
@@ -371,7 +442,7 @@ export class IfcExporter {
     this.ifcApi.WriteLine(this.modelId, {
       expressID: this.buildingId,
       type: WebIFC.IFCBUILDING,
-      GlobalId: { type: 1, value: this.generateGuid() },
+      GlobalId: { type: 1, value: this.getGlobalId(building) },
       OwnerHistory: null,
       Name: { type: 1, value: building.name },
       Description: null,
@@ -393,7 +464,7 @@ export class IfcExporter {
     this.ifcApi.WriteLine(this.modelId, {
       expressID: storeyIfcId,
       type: WebIFC.IFCBUILDINGSTOREY,
-      GlobalId: { type: 1, value: this.generateGuid() },
+      GlobalId: { type: 1, value: this.getGlobalId(storey) },
       OwnerHistory: null,
       Name: { type: 1, value: storey.name },
       Description: null,
@@ -456,7 +527,7 @@ export class IfcExporter {
     }
   }
 
-  private createWall(wall: BimElement, storeys: StoreyInfo[]): void {
+  private createWall(wall: BimElement, elements: BimElement[], storeys: StoreyInfo[]): void {
     if (!wall.wallData) return;
 
     const { startPoint, endPoint, thickness, height } = wall.wallData;
@@ -495,8 +566,9 @@ export class IfcExporter {
     const wallIfcId = this.getNextId();
     this.ifcApi.WriteLine(this.modelId, {
       expressID: wallIfcId,
-      type: WebIFC.IFCWALLSTANDARDCASE,
-      GlobalId: { type: 1, value: this.generateGuid() },
+      // IfcWallStandardCase is deprecated in IFC4 and removed in IFC4X3
+      type: this.isIfc2x3 ? WebIFC.IFCWALLSTANDARDCASE : WebIFC.IFCWALL,
+      GlobalId: { type: 1, value: this.getGlobalId(wall) },
       OwnerHistory: null,
       Name: { type: 1, value: wall.name },
       Description: null,
@@ -504,6 +576,7 @@ export class IfcExporter {
       ObjectPlacement: { type: 5, value: placementId },
       Representation: { type: 5, value: productRepId },
       Tag: null,
+      PredefinedType: this.isIfc2x3 ? undefined : { type: 3, value: 'STANDARD' },
     });
 
     this.wallIds.set(wall.id, wallIfcId);
@@ -512,7 +585,7 @@ export class IfcExporter {
     this.createPropertySets(wall, wallIfcId);
 
     // Create quantity sets for wall dimensions
-    this.createWallQuantities(wall, wallIfcId);
+    this.createWallQuantities(wall, wallIfcId, elements);
 
     // Assign to storey
     if (storeyIfcId) {
@@ -521,27 +594,54 @@ export class IfcExporter {
   }
 
   /**
-   * Create quantity sets for wall (Qto_WallBaseQuantities)
-   * Exports: Length, Height, Width, GrossSideArea, NetSideArea, GrossVolume, NetVolume
+   * IFC2x3: link a door to a shared IfcDoorStyle carrying the operation type
    */
-  private createWallQuantities(wall: BimElement, wallIfcId: number): void {
-    if (!wall.wallData) return;
-
-    const { startPoint, endPoint, thickness, height } = wall.wallData;
+  private assignDoorStyle(doorIfcId: number, operationType: string): void {
+    let styleId = this.doorStyleIds.get(operationType);
+    if (styleId === undefined) {
+      styleId = this.getNextId();
+      this.ifcApi.WriteLine(this.modelId, {
+        expressID: styleId,
+        type: WebIFC.IFCDOORSTYLE,
+        GlobalId: { type: 1, value: this.generateGuid() },
+        OwnerHistory: null,
+        Name: { type: 1, value: operationType },
+        Description: null,
+        ApplicableOccurrence: null,
+        HasPropertySets: null,
+        RepresentationMaps: null,
+        Tag: null,
+        OperationType: { type: 3, value: operationType },
+        ConstructionType: { type: 3, value: 'NOTDEFINED' },
+        ParameterTakesPrecedence: { type: 3, value: 'F' },
+        Sizeable: { type: 3, value: 'F' },
+      });
+      this.doorStyleIds.set(operationType, styleId);
+    }
 
-    // Calculate wall length
-    const dx = endPoint.x - startPoint.x;
-    const dy = endPoint.y - startPoint.y;
-    const length = Math.sqrt(dx * dx + dy * dy);
+    const relId = this.getNextId();
+    this.ifcApi.WriteLine(this.modelId, {
+      expressID: relId,
+      type: WebIFC.IFCRELDEFINESBYTYPE,
+      GlobalId: { type: 1, value: this.generateGuid() },
+      OwnerHistory: null,
+      Name: null,
+      Description: null,
+      RelatedObjects: [{ type: 5, value: doorIfcId }],
+      RelatingType: { type: 5, value: styleId },
+    });
+  }
 
-    // Calculate quantities
-    const grossSideArea = length * height; // m²
-    const grossVolume = length * height * thickness; // m³
+  /**
+   * Create quantity sets for wall (Qto_WallBaseQuantities)
+   * Exports: Length, Height, Width, GrossSideArea, NetSideArea, GrossVolume, NetVolume
+   */
+  private createWallQuantities(wall: BimElement, wallIfcId: number, elements: BimElement[]): void {
+    // Net values with the hosted doors and windows deducted (same as the take-off)
+    const wallQuantities = getWallQuantities(wall, elements);
+    if (!wallQuantities) return;
 
-    // For net values, we would need to subtract openings
-    // For now, net = gross (openings not calculated)
-    const netSideArea = grossSideArea;
-    const netVolume = grossVolume;
+    const { length, height, thickness, grossSideArea, netSideArea, grossVolume, netVolume } = wallQuantities;
 
     const quantities: number[] = [];
 
@@ -757,11 +857,12 @@ export class IfcExporter {
       Representations: [{ type: 5, value: doorShapeRepId }],
     });
 
+    const operationType = getDoorOperationType(door.doorData);
     const doorIfcId = this.getNextId();
     this.ifcApi.WriteLine(this.modelId, {
       expressID: doorIfcId,
       type: WebIFC.IFCDOOR,
-      GlobalId: { type: 1, value: this.generateGuid() },
+      GlobalId: { type: 1, value: this.getGlobalId(door) },
       OwnerHistory: null,
       Name: { type: 1, value: door.name },
       Description: null,
@@ -771,10 +872,18 @@ export class IfcExporter {
       Tag: null,
       OverallHeight: { type: 4, value: height },
       OverallWidth: { type: 4, value: width },
+      PredefinedType: this.isIfc2x3 ? undefined : { type: 3, value: 'DOOR' },
+      OperationType: this.isIfc2x3 ? undefined : { type: 3, value: operationType },
+      UserDefinedOperationType: null,
     });
 
     this.doorIds.set(door.id, doorIfcId);
 
+    // IFC2x3: operation type is defined by an IfcDoorStyle
+    if (this.isIfc2x3) {
+      this.assignDoorStyle(doorIfcId, operationType);
+    }
+
     // Create property sets
     this.createPropertySets(door, doorIfcId);
 
@@ -902,7 +1011,7 @@ export class IfcExporter {
     this.ifcApi.WriteLine(this.modelId, {
       expressID: windowIfcId,
       type: WebIFC.IFCWINDOW,
-      GlobalId: { type: 1, value: this.generateGuid() },
+      GlobalId: { type: 1, value: this.getGlobalId(window) },
       OwnerHistory: null,
       Name: { type: 1, value: window.name },
       Description: null,
@@ -912,6 +1021,11 @@ export class IfcExporter {
       Tag: null,
       OverallHeight: { type: 4, value: height },
       OverallWidth: { type: 4, value: width },
+      PredefinedType: this.isIfc2x3 ? undefined : { type: 3, value: 'WINDOW' },
+      PartitioningType: this.isIfc2x3
+        ? undefined
+        : { type: 3, value: getWindowPartitioningType(window.windowData) },
+      UserDefinedPartitioningType: null,
     });
 
     this.windowIds.set(window.id, windowIfcId);
@@ -981,7 +1095,7 @@ export class IfcExporter {
     this.ifcApi.WriteLine(this.modelId, {
       expressID: slabIfcId,
       type: WebIFC.IFCSLAB,
-      GlobalId: { type: 1, value: this.generateGuid() },
+      GlobalId: { type: 1, value: this.getGlobalId(slab) },
       OwnerHistory: null,
       Name: { type: 1, value: slab.name },
       Description: null,
@@ -1122,7 +1236,7 @@ export class IfcExporter {
     this.ifcApi.WriteLine(this.modelId, {
       expressID: columnIfcId,
       type: WebIFC.IFCCOLUMN,
-      GlobalId: { type: 1, value: this.generateGuid() },
+      GlobalId: { type: 1, value: this.getGlobalId(column) },
       OwnerHistory: null,
       Name: { type: 1, value: column.name },
       Description: null,
@@ -1130,6 +1244,7 @@ export class IfcExporter {
       ObjectPlacement: { type: 5, value: placementId },
       Representation: { type: 5, value: productRepId },
       Tag: null,
+      PredefinedType: this.isIfc2x3 ? undefined : { type: 3, value: 'COLUMN' },
     });
 
     this.columnIds.set(column.id, columnIfcId);
@@ -1143,6 +1258,74 @@ export class IfcExporter {
     }
   }
 
+  private createSignage(signage: BimElement, storeys: StoreyInfo[]): void {
+    if (!signage.signageData) return;
+
+    const { kind, mountingHeight, rotation } = signage.signageData;
+    const isExitSign = kind === 'exitSign';
+
+    // Find storey
+    const storey = storeys.find((s) => s.id === signage.parentId);
+    const storeyIfcId = storey ? this.storeyIds.get(storey.id) : null;
+
+    // Body is centered on the mounting height, rotated to the walking direction
+    const bodyHeight = isExitSign ? EXIT_SIGN_HEIGHT : EMERGENCY_LIGHT_DEPTH;
+    const posZ = (storey?.elevation ?? 0) + mountingHeight - bodyHeight / 2;
+    const placementId = this.createLocalPlacement(
+      null,
+      signage.placement.position.x,
+      signage.placement.position.y,
+      posZ,
+      rotation
+    );
+
+    const profileId = isExitSign
+      ? this.createRectangleProfile(EXIT_SIGN_DEPTH, EXIT_SIGN_WIDTH)
+      : this.createCircleProfile(EMERGENCY_LIGHT_SIZE / 2);
+    const solidId = this.createExtrudedSolid(profileId, bodyHeight);
+    const shapeRepId = this.createShapeRepresentation(solidId, 'Body', 'SweptSolid');
+
+    // Create product representation
+    const productRepId = this.getNextId();
+    this.ifcApi.WriteLine(this.modelId, {
+      expressID: productRepId,
+      type: WebIFC.IFCPRODUCTDEFINITIONSHAPE,
+      Name: null,
+      Description: null,
+      Representations: [{ type: 5, value: shapeRepId }],
+    });
+
+    // IfcLightFixture (IFC4+) or the generic flow terminal (IFC2x3)
+    const signageIfcId = this.getNextId();
+    this.ifcApi.WriteLine(this.modelId, {
+      expressID: signageIfcId,
+      type: this.isIfc2x3 ? WebIFC.IFCFLOWTERMINAL : WebIFC.IFCLIGHTFIXTURE,
+      GlobalId: { type: 1, value: this.getGlobalId(signage) },
+      OwnerHistory: null,
+      Name: { type: 1, value: signage.name },
+      Description: { type: 1, value: isExitSign ? 'Rettungszeichen' : 'Sicherheitsleuchte' },
+      ObjectType: { type: 1, value: isExitSign ? 'EXITSIGN' : 'EMERGENCYLIGHT' },
+      ObjectPlacement: { type: 5, value: placementId },
+      Representation: { type: 5, value: productRepId },
+      Tag: null,
+      PredefinedType: this.isIfc2x3 ? undefined : { type: 3, value: 'SECURITYLIGHTING' },
+    });
+
+    this.signageIds.set(signage.id, signageIfcId);
+
+    // Create property sets (user psets + security lighting data)
+    this.createPropertySets(signage, signageIfcId);
+    this.createPropertySets(
+      { name: signage.name, properties: createSignagePropertySets(signage.signageData) },
+      signageIfcId
+    );
+
+    // Assign to storey
+    if (storeyIfcId) {
+      this.createContainedInSpatialStructure(signageIfcId, storeyIfcId);
+    }
+  }
+
   private createCounter(counter: BimElement, storeys: StoreyInfo[]): void {
     if (!counter.counterData) return;
 
@@ -1253,7 +1436,7 @@ export class IfcExporter {
     this.ifcApi.WriteLine(this.modelId, {
       expressID: counterIfcId,
       type: WebIFC.IFCBUILDINGELEMENTPROXY,
-      GlobalId: { type: 1, value: this.generateGuid() },
+      GlobalId: { type: 1, value: this.getGlobalId(counter) },
       OwnerHistory: null,
       Name: { type: 1, value: counter.name },
       Description: { type: 1, value: 'Counter/Theke' },
@@ -1262,6 +1445,7 @@ export class IfcExporter {
       Representation: { type: 5, value: productRepId },
       Tag: null,
       CompositionType: null,
+      PredefinedType: this.isIfc2x3 ? undefined : { type: 3, value: 'ELEMENT' },
     });
 
     this.counterIds.set(counter.id, counterIfcId);
@@ -1269,6 +1453,12 @@ export class IfcExporter {
     // Create property sets
     this.createPropertySets(counter, counterIfcId);
 
+    // Parametric input for re-import (path, depth, kick recess, ...)
+    this.createPropertySets(
+      { name: counter.name, properties: [createCounterParameterPset(counter.counterData)] },
+      counterIfcId
+    );
+
     // Assign to storey
     if (storeyIfcId) {
       this.createContainedInSpatialStructure(counterIfcId, storeyIfcId);
@@ -1346,8 +1536,9 @@ export class IfcExporter {
 
       this.ifcApi.WriteLine(this.modelId, {
         expressID: furnitureIfcId,
-        type: WebIFC.IFCELECTRICAPPLIANCE,
-        GlobalId: { type: 1, value: this.generateGuid() },
+        // IfcElectricAppliance does not exist in IFC2x3 - use the generic flow terminal
+        type: this.isIfc2x3 ? WebIFC.IFCFLOWTERMINAL : WebIFC.IFCELECTRICAPPLIANCE,
+        GlobalId: { type: 1, value: this.getGlobalId(furniture) },
         OwnerHistory: null,
         Name: { type: 1, value: furniture.name },
         Description: furniture.furnitureData.category
@@ -1357,14 +1548,14 @@ export class IfcExporter {
         ObjectPlacement: { type: 5, value: placementId },
         Representation: { type: 5, value: productRepId },
         Tag: null,
-        PredefinedType: { type: 3, value: ifcApplianceType },
+        PredefinedType: this.isIfc2x3 ? undefined : { type: 3, value: ifcApplianceType },
       });
     } else {
-      // Export as IfcFurnishingElement (default for furniture without appliance type)
+      // Export as IfcFurniture (IFC4+) or IfcFurnishingElement (IFC2x3)
       this.ifcApi.WriteLine(this.modelId, {
         expressID: furnitureIfcId,
-        type: WebIFC.IFCFURNISHINGELEMENT,
-        GlobalId: { type: 1, value: this.generateGuid() },
+        type: this.isIfc2x3 ? WebIFC.IFCFURNISHINGELEMENT : WebIFC.IFCFURNITURE,
+        GlobalId: { type: 1, value: this.getGlobalId(furniture) },
         OwnerHistory: null,
         Name: { type: 1, value: furniture.name },
         Description: furniture.furnitureData.category
@@ -1376,6 +1567,9 @@ export class IfcExporter {
         ObjectPlacement: { type: 5, value: placementId },
         Representation: { type: 5, value: productRepId },
         Tag: null,
+        PredefinedType: this.isIfc2x3
+          ? undefined
+          : { type: 3, value: getFurniturePredefinedType(furniture.name) },
       });
     }
 
@@ -1394,7 +1588,7 @@ export class IfcExporter {
    * Create IfcSpace from a space element
    * IfcSpace represents a bounded volume within a building storey
    */
-  private createSpace(space: BimElement, storeys: StoreyInfo[]): void {
+  private createSpace(space: BimElement, elements: BimElement[], storeys: StoreyInfo[]): void {
     if (!space.spaceData) return;
 
     const { boundaryPolygon, spaceType, longName, gastroCategory } = space.spaceData;
@@ -1431,7 +1625,7 @@ export class IfcExporter {
     this.ifcApi.WriteLine(this.modelId, {
       expressID: spaceIfcId,
       type: WebIFC.IFCSPACE,
-      GlobalId: { type: 1, value: this.generateGuid() },
+      GlobalId: { type: 1, value: this.getGlobalId(space) },
       OwnerHistory: null,
       Name: { type: 1, value: space.name },
       Description: longName ? { type: 1, value: longName } : null,
@@ -1440,17 +1634,29 @@ export class IfcExporter {
       Representation: { type: 5, value: productRepId },
       LongName: longName ? { type: 1, value: longName } : null,
       CompositionType: { type: 3, value: 'ELEMENT' },
-      InteriorOrExteriorSpace: {
-        type: 3,
-        value: spaceType === 'EXTERNAL' ? 'EXTERNAL' : 'INTERNAL',
-      },
+      // IFC2x3: InteriorOrExteriorSpace, IFC4+: PredefinedType (IfcSpaceTypeEnum)
+      ...(this.isIfc2x3
+        ? {
+            InteriorOrExteriorSpace: {
+              type: 3,
+              value: spaceType === 'EXTERNAL' ? 'EXTERNAL' : 'INTERNAL',
+            },
+          }
+        : { PredefinedType: { type: 3, value: getSpacePredefinedType(spaceType) } }),
       ElevationWithFlooring: { type: 4, value: storey?.elevation ?? 0 },
     });
 
     this.spaceIds.set(space.id, spaceIfcId);
 
-    // Create property sets
-    this.createPropertySets(space, spaceIfcId);
+    // Create property sets (occupancy is always recalculated from the current model)
+    this.createPropertySets(
+      { name: space.name, properties: space.properties.filter((pset) => pset.name !== OCCUPANCY_PSET) },
+      spaceIfcId
+    );
+    this.createPropertySets(
+      { name: space.name, properties: [createOccupancyPset(calculateSpaceOccupancy(space, elements))] },
+      spaceIfcId
+    );
 
     // Create quantity sets for area/volume
     this.createSpaceQuantities(space, spaceIfcId);
@@ -1461,6 +1667,114 @@ export class IfcExporter {
     }
   }
 
+  /**
+   * Create IfcZone for a fire compartment and assign its spaces to it
+   */
+  private createFireCompartment(compartment: FireCompartment, elements: BimElement[]): void {
+    const spaceIfcIds = compartment.spaceIds
+      .map((id) => this.spaceIds.get(id))
+      .filter((id): id is number => id !== undefined);
+    if (spaceIfcIds.length === 0) return;
+
+    const zoneIfcId = this.getNextId();
+    this.ifcApi.WriteLine(this.modelId, {
+      expressID: zoneIfcId,
+      type: WebIFC.IFCZONE,
+      GlobalId: { type: 1, value: this.getGlobalId(compartment) },
+      OwnerHistory: null,
+      Name: { type: 1, value: compartment.name },
+      Description: { type: 1, value: `Brandabschnitt ${compartment.requiredRating}` },
+      ObjectType: { type: 1, value: 'FireCompartment' },
+      // IFC4+: LongName
+      ...(this.isIfc2x3 ? {} : { LongName: null }),
+    });
+
+    const relAssignsId = this.getNextId();
+    this.ifcApi.WriteLine(this.modelId, {
+      expressID: relAssignsId,
+      type: WebIFC.IFCRELASSIGNSTOGROUP,
+      GlobalId: { type: 1, value: this.generateGuid() },
+      OwnerHistory: null,
+      Name: null,
+      Description: null,
+      RelatedObjects: spaceIfcIds.map((id) => ({ type: 5, value: id })),
+      RelatedObjectsType: null,
+      RelatingGroup: { type: 5, value: zoneIfcId },
+    });
+
+    this.createPropertySets(
+      { name: compartment.name, properties: createFireCompartmentPropertySets(compartment, elements) },
+      zoneIfcId
+    );
+  }
+
+  /**
+   * Create the load pset of every exported appliance and the circuits feeding them
+   */
+  private createElectricalLoads(
+    elements: BimElement[],
+    storeys: StoreyInfo[],
+    circuits: ElectricalCircuit[],
+    settings: ElectricalSettings
+  ): void {
+    const budget = calculateLoadBudget(elements, storeys, circuits, settings);
+    const getApplianceIfcId = (id: string) => this.furnitureIds.get(id) ?? this.counterIds.get(id);
+
+    for (const appliance of budget.appliances) {
+      const applianceIfcId = getApplianceIfcId(appliance.elementId);
+      if (applianceIfcId === undefined) continue;
+
+      const circuit = circuits.find((c) => c.id === appliance.circuitId);
+      this.createPropertySets(
+        { name: appliance.elementName, properties: [createApplianceLoadPset(appliance, circuit?.name ?? null)] },
+        applianceIfcId
+      );
+    }
+
+    for (const load of budget.circuits) {
+      const applianceIfcIds = load.circuit.applianceIds
+        .map(getApplianceIfcId)
+        .filter((id): id is number => id !== undefined);
+      if (applianceIfcIds.length === 0) continue;
+
+      this.createCircuit(load, applianceIfcIds);
+    }
+  }
+
+  /**
+   * Create IfcDistributionCircuit (IFC2x3: IfcElectricalCircuit) and assign its appliances to it
+   */
+  private createCircuit(load: CircuitLoad, applianceIfcIds: number[]): void {
+    const { circuit } = load;
+    const circuitIfcId = this.getNextId();
+    this.ifcApi.WriteLine(this.modelId, {
+      expressID: circuitIfcId,
+      type: this.isIfc2x3 ? WebIFC.IFCELECTRICALCIRCUIT : WebIFC.IFCDISTRIBUTIONCIRCUIT,
+      GlobalId: { type: 1, value: this.getGlobalId(circuit) },
+      OwnerHistory: null,
+      Name: { type: 1, value: circuit.name },
+      Description: { type: 1, value: `${circuit.fuseRating} A, ${circuit.phases === 3 ? '3 × 400 V' : '1 × 230 V'}` },
+      ObjectType: null,
+      // IFC4+: LongName, PredefinedType
+      ...(this.isIfc2x3 ? {} : { LongName: null, PredefinedType: { type: 3, value: 'ELECTRICAL' } }),
+    });
+
+    const relAssignsId = this.getNextId();
+    this.ifcApi.WriteLine(this.modelId, {
+      expressID: relAssignsId,
+      type: WebIFC.IFCRELASSIGNSTOGROUP,
+      GlobalId: { type: 1, value: this.generateGuid() },
+      OwnerHistory: null,
+      Name: null,
+      Description: null,
+      RelatedObjects: applianceIfcIds.map((id) => ({ type: 5, value: id })),
+      RelatedObjectsType: null,
+      RelatingGroup: { type: 5, value: circuitIfcId },
+    });
+
+    this.createPropertySets({ name: circuit.name, properties: [createCircuitPset(load)] }, circuitIfcId);
+  }
+
   /**
    * Create quantity sets for space (area, perimeter, volume)
    */
@@ -1691,7 +2005,7 @@ export class IfcExporter {
     this.ifcApi.WriteLine(this.modelId, {
       expressID: stairIfcId,
       type: WebIFC.IFCSTAIR,
-      GlobalId: { type: 1, value: this.generateGuid() },
+      GlobalId: { type: 1, value: this.getGlobalId(stair) },
       OwnerHistory: null,
       Name: { type: 1, value: stair.name },
       Description: null,
@@ -1699,7 +2013,10 @@ export class IfcExporter {
       ObjectPlacement: { type: 5, value: placementId },
       Representation: { type: 5, value: productRepId },
       Tag: null,
-      PredefinedType: { type: 3, value: 'STRAIGHT_RUN_STAIR' },
+      // IFC2x3 calls the attribute ShapeType
+      ...(this.isIfc2x3
+        ? { ShapeType: { type: 3, value: 'STRAIGHT_RUN_STAIR' } }
+        : { PredefinedType: { type: 3, value: 'STRAIGHT_RUN_STAIR' } }),
     });
 
     this.stairIds.set(stair.id, stairIfcId);
@@ -1707,6 +2024,12 @@ export class IfcExporter {
     // Create property sets
     this.createPropertySets(stair, stairIfcId);
 
+    // Parametric input for re-import (stair type, width, steps, ...)
+    this.createPropertySets(
+      { name: stair.name, properties: [createStairParameterPset(stair.stairData)] },
+      stairIfcId
+    );
+
     // Create quantity sets for stair
     this.createStairQuantities(stair, stairIfcId);
 
@@ -2296,6 +2619,19 @@ export class IfcExporter {
     });
   }
 
+  /**
+   * Stable GlobalId: kept from a previous IFC import, otherwise derived from the internal id,
+   * so repeated exports of the same element share the GlobalId
+   */
+  private getGlobalId(source: { id: string; ifcGlobalId?: string }): string {
+    if (source.ifcGlobalId && isIfcGuid(source.ifcGlobalId)) return source.ifcGlobalId;
+    try {
+      return uuidToIfcGuid(source.id);
+    } catch {
+      return this.generateGuid();
+    }
+  }
+
   private generateGuid(): string {
     // Generate IFC-compatible GUID (22 characters, base64-like)
     const chars = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz_$';
@@ -2319,6 +2655,10 @@ export class IfcExporter {
       const str = value as string;
       // Skip empty strings
       if (str.trim() === '') return null;
+      // e.g. counter paths in the parameter pset
+      if (str.length > IFC_LABEL_MAX_LENGTH) {
+        return this.ifcApi.CreateIfcType(this.modelId, WebIFC.IFCTEXT, str);
+      }
       return this.ifcApi.CreateIfcType(this.modelId, WebIFC.IFCLABEL, str);
     }
 
@@ -2348,7 +2688,7 @@ export class IfcExporter {
    * @param element The BIM element with property sets
    * @param elementIfcId The IFC entity ID of the element
    */
-  private createPropertySets(element: BimElement, elementIfcId: number): void {
+  private createPropertySets(element: Pick<BimElement, 'name' | 'properties'>, elementIfcId: number): void {
     if (!element.properties || element.properties.length === 0) {
       console.log(`[IFC Export] No properties for element ${element.name}`);
       return;
@@ -2374,7 +2714,7 @@ export class IfcExporter {
         const keyStr = String(key).trim();
         if (keyStr === '') continue;
 
-        // Create IFC type value with appropriate type (IFCLABEL, IFCREAL, IFCINTEGER, IFCBOOLEAN)
+        // Create IFC type value with appropriate type (IFCLABEL/IFCTEXT, IFCREAL, IFCINTEGER, IFCBOOLEAN)
         const ifcValue = this.createIfcPropertyValue(value);
         if (ifcValue === null) {
           // Log skipped properties for debugging
@@ -2387,7 +2727,9 @@ export class IfcExporter {
         const valueType = typeof value;
         const valueTypeStr = valueType === 'number'
           ? (Number.isInteger(value as number) ? 'IFCINTEGER' : 'IFCREAL')
-          : valueType === 'boolean' ? 'IFCBOOLEAN' : 'IFCLABEL';
+          : valueType === 'boolean'
+            ? 'IFCBOOLEAN'
+            : (value as string).length > IFC_LABEL_MAX_LENGTH ? 'IFCTEXT' : 'IFCLABEL';
 
         console.log(`[IFC Export] Exporting property "${keyStr}" = ${JSON.stringify(value)} (${valueTypeStr})`);
 
@@ -2471,23 +2813,13 @@ export async function exportToIfc(
   site: SiteInfo,
   building: BuildingInfo,
   storeys: StoreyInfo[],
-  elements: BimElement[]
+  elements: BimElement[],
+  options: IfcExportOptions = {}
 ): Promise<void> {
   const exporter = new IfcExporter();
   await exporter.init();
 
-  const ifcData = await exporter.export(project, site, building, storeys, elements);
-
-  // Create blob and download
-  const blob = new Blob([new Uint8Array(ifcData)], { type: 'application/octet-stream' });
-  const url = URL.createObjectURL(blob);
-
-  const link = document.createElement('a');
-  link.href = url;
-  link.download = `${project.name.replace(/[^a-zA-Z0-9]/g, '_')}.ifc`;
-  document.body.appendChild(link);
-  link.click();
-  document.body.removeChild(link);
+  const ifcData = await exporter.export(project, site, building, storeys, elements, options);
 
-  URL.revokeObjectURL(url);
+  downloadBlob(ifcData, 'application/octet-stream', `${project.name}.ifc`);
 }
@@ -15,6 +15,7 @@ import type {
   FurnitureData,
   MeshData,
   Opening,
+  SpaceType,
 } from '@/types/bim';
 import {
   DEFAULT_WALL_HEIGHT,
@@ -24,9 +25,23 @@ import {
   DEFAULT_WINDOW_HEIGHT,
   DEFAULT_WINDOW_SILL_HEIGHT,
   DEFAULT_STOREY_HEIGHT,
+  DEFAULT_STAIR_WIDTH,
+  DEFAULT_GASTRO_CATEGORY,
 } from '@/types/bim';
 import type { Point2D, Vector3, Quaternion } from '@/types/geometry';
 import { IDENTITY_QUATERNION } from '@/types/geometry';
+import { createCounter } from '@/bim/elements/Counter';
+import { createStair, updateStairDimensions } from '@/bim/elements/Stair';
+import { createSpaceFromPolygon, guessGastroCategory } from '@/bim/elements/Space';
+import { parseOccupancyPset, OCCUPANCY_PSET } from '@/bim/spaces/occupancy';
+import {
+  COUNTER_PARAMETER_PSET,
+  STAIR_PARAMETER_PSET,
+  isParameterPset,
+  parseCounterParameterPset,
+  parseStairParameterPset,
+  type StairParameters,
+} from './parameterPsets';
 
 /**
  * Result of an IFC import operation
@@ -45,6 +60,9 @@ export interface ImportResult {
     columnsImported: number;
     slabsImported: number;
     furnitureImported: number;
+    countersImported: number;
+    stairsImported: number;
+    spacesImported: number;
     elementsSkipped: number;
   };
 }
@@ -70,6 +88,12 @@ export interface ImportOptions {
   importSlabs?: boolean;
   /** Import furniture */
   importFurniture?: boolean;
+  /** Import counters (requires CoffeeBIM parameter pset) */
+  importCounters?: boolean;
+  /** Import stairs */
+  importStairs?: boolean;
+  /** Import spaces (IfcSpace) */
+  importSpaces?: boolean;
   /** Import property sets */
   importPropertySets?: boolean;
   /** Coordinate system of the IFC file (default: z-up) */
@@ -83,6 +107,9 @@ const DEFAULT_OPTIONS: ImportOptions = {
   importColumns: true,
   importSlabs: true,
   importFurniture: true,
+  importCounters: true,
+  importStairs: true,
+  importSpaces: true,
   importPropertySets: true,
   coordinateSystem: 'z-up',
 };
@@ -174,6 +201,9 @@ export class IfcImporter {
         columnsImported: 0,
         slabsImported: 0,
         furnitureImported: 0,
+        countersImported: 0,
+        stairsImported: 0,
+        spacesImported: 0,
         elementsSkipped: 0,
       };
 
@@ -212,6 +242,20 @@ export class IfcImporter {
         stats.slabsImported = slabs.length;
       }
 
+      // Parse counters before furniture (proxies with parameters are no furniture)
+      if (opts.importCounters) {
+        const counters = this.parseCounters(storeys, opts.importPropertySets ?? true);
+        elements.push(...counters);
+        stats.countersImported = counters.length;
+      }
+
+      // Parse stairs
+      if (opts.importStairs) {
+        const stairs = this.parseStairs(storeys, opts.importPropertySets ?? true);
+        elements.push(...stairs);
+        stats.stairsImported = stairs.length;
+      }
+
       // Parse furniture
       if (opts.importFurniture) {
         const furniture = this.parseFurniture(storeys, opts.importPropertySets ?? true);
@@ -219,6 +263,15 @@ export class IfcImporter {
         stats.furnitureImported = furniture.length;
       }
 
+      // Parse spaces
+      if (opts.importSpaces) {
+        const spaces = this.parseSpaces(storeys, opts.importPropertySets ?? true);
+        elements.push(...spaces);
+        stats.spacesImported = spaces.length;
+      }
+
+      this.assignGlobalIds(elements);
+
       return {
         project,
         site,
@@ -333,6 +386,7 @@ export class IfcImporter {
         buildingId,
         elevation: this.getNumberValue(storey.Elevation) || 0,
         height: DEFAULT_STOREY_HEIGHT,
+        ifcGlobalId: this.getStringValue(storey.GlobalId),
       });
     }
 
@@ -1083,6 +1137,9 @@ export class IfcImporter {
     for (let i = 0; i < proxyIds.size(); i++) {
       const expressId = proxyIds.get(i);
 
+      // Already imported as parametric counter
+      if (this.idMapping.elements.has(expressId)) continue;
+
       try {
         const proxy = this.ifcApi.GetLine(this.modelId, expressId);
         const objectType = this.getStringValue(proxy.ObjectType) || '';
@@ -1168,10 +1225,433 @@ export class IfcImporter {
     return element;
   }
 
+  // ============================================
+  // Counter & Stair Parsing
+  // ============================================
+
+  private parseCounters(storeys: StoreyInfo[], importPsets: boolean): BimElement[] {
+    const counters: BimElement[] = [];
+    const proxyIds = this.ifcApi.GetLineIDsWithType(this.modelId, WebIFC.IFCBUILDINGELEMENTPROXY);
+
+    for (let i = 0; i < proxyIds.size(); i++) {
+      const expressId = proxyIds.get(i);
+
+      try {
+        const counter = this.parseCounter(expressId, storeys, importPsets);
+        if (counter) {
+          counters.push(counter);
+          this.idMapping.elements.set(expressId, counter.id);
+        }
+      } catch (err) {
+        this.warnings.push(`Failed to parse counter #${expressId}: ${err}`);
+      }
+    }
+
+    return counters;
+  }
+
+  /**
+   * Rebuild a counter from its parameter pset (null for other proxies)
+   */
+  private parseCounter(expressId: number, storeys: StoreyInfo[], importPsets: boolean): BimElement | null {
+    const psets = this.getPropertySets(expressId);
+    const parameterPset = psets.find((pset) => pset.name === COUNTER_PARAMETER_PSET);
+    const counterData = parameterPset ? parseCounterParameterPset(parameterPset) : null;
+    if (!counterData) return null;
+
+    const ifcCounter = this.ifcApi.GetLine(this.modelId, expressId);
+    const parentId = this.findParentStorey(expressId, storeys);
+    const storey = storeys.find((s) => s.id === parentId);
+
+    // Counter geometry is stored in world coordinates, so only the path is needed
+    const counter = createCounter({
+      ...counterData,
+      storeyId: parentId ?? '',
+      elevation: storey?.elevation ?? 0,
+      name: this.getStringValue(ifcCounter.Name) || `Counter ${expressId}`,
+    });
+
+    return {
+      ...counter,
+      parentId,
+      properties: importPsets ? psets.filter((pset) => !isParameterPset(pset.name)) : [],
+    };
+  }
+
+  private parseStairs(storeys: StoreyInfo[], importPsets: boolean): BimElement[] {
+    const stairs: BimElement[] = [];
+    const stairIds = this.ifcApi.GetLineIDsWithType(this.modelId, WebIFC.IFCSTAIR);
+
+    for (let i = 0; i < stairIds.size(); i++) {
+      const expressId = stairIds.get(i);
+
+      try {
+        const stair = this.parseStair(expressId, storeys, importPsets);
+        if (stair) {
+          stairs.push(stair);
+          this.idMapping.elements.set(expressId, stair.id);
+        }
+      } catch (err) {
+        this.warnings.push(`Failed to parse stair #${expressId}: ${err}`);
+      }
+    }
+
+    return stairs;
+  }
+
+  private parseStair(expressId: number, storeys: StoreyInfo[], importPsets: boolean): BimElement | null {
+    const ifcStair = this.ifcApi.GetLine(this.modelId, expressId);
+    const psets = this.getPropertySets(expressId);
+    const placement = this.getPlacement(ifcStair.ObjectPlacement?.value);
+
+    // CoffeeBIM parameters first, then Pset_StairCommon / Qto_StairBaseQuantities
+    const parameterPset = psets.find((pset) => pset.name === STAIR_PARAMETER_PSET);
+    const params =
+      (parameterPset ? parseStairParameterPset(parameterPset) : null) ??
+      this.getStairParametersFromCommonPsets(expressId, psets, placement.rotation);
+
+    if (!params) {
+      this.warnings.push(`Stair #${expressId} has no step information - skipped`);
+      return null;
+    }
+
+    const bottomStoreyId = this.findParentStorey(expressId, storeys);
+    const bottomStorey = storeys.find((s) => s.id === bottomStoreyId);
+    const bottomElevation = bottomStorey?.elevation ?? placement.position.z;
+
+    // Top storey: the one at bottom elevation + rise (fallback: bottom storey)
+    const topStorey = storeys.find(
+      (s) => Math.abs(s.elevation - (bottomElevation + params.totalRise)) < 0.05
+    );
+
+    const stair = createStair({
+      position: { x: placement.position.x, y: placement.position.y },
+      rotation: params.rotation,
+      width: params.width,
+      totalRise: params.totalRise,
+      bottomStoreyId: bottomStoreyId ?? '',
+      topStoreyId: topStorey?.id ?? bottomStoreyId ?? '',
+      bottomElevation,
+      stairType: params.stairType,
+      createOpening: params.createOpening,
+      name: this.getStringValue(ifcStair.Name) || `Stair ${expressId}`,
+    });
+
+    // Keep the stored steps (may differ from the recalculated ones)
+    const withSteps: BimElement = {
+      ...stair,
+      stairData: stair.stairData && { ...stair.stairData, steps: params.steps },
+    };
+
+    return {
+      ...withSteps,
+      ...updateStairDimensions(withSteps, {}),
+      parentId: bottomStoreyId,
+      properties: importPsets ? psets.filter((pset) => !isParameterPset(pset.name)) : withSteps.properties,
+    };
+  }
+
+  /**
+   * Derive stair parameters from the standard Pset_StairCommon and base quantities
+   */
+  private getStairParametersFromCommonPsets(
+    expressId: number,
+    psets: PropertySet[],
+    rotation: number
+  ): StairParameters | null {
+    const common = psets.find((pset) => pset.name === 'Pset_StairCommon')?.properties ?? {};
+    const quantities = this.getQuantities(expressId);
+
+    const count = this.getNumberValue(common.NumberOfRisers) ?? quantities.NumberOfRiser;
+    const riserHeight = this.getNumberValue(common.RiserHeight) ?? quantities.RiserHeight;
+    const treadDepth = this.getNumberValue(common.TreadLength) ?? quantities.TreadLength;
+    if (!count || !riserHeight || treadDepth === undefined) return null;
+
+    return {
+      stairType: 'straight',
+      width: quantities.Width ?? DEFAULT_STAIR_WIDTH,
+      totalRise: count * riserHeight,
+      rotation,
+      steps: {
+        count,
+        riserHeight,
+        treadDepth,
+        runLength: (count - 1) * treadDepth,
+      },
+      createOpening: false,
+    };
+  }
+
+  // ============================================
+  // Space Parsing
+  // ============================================
+
+  private parseSpaces(storeys: StoreyInfo[], importPsets: boolean): BimElement[] {
+    const spaces: BimElement[] = [];
+    const spaceIds = this.ifcApi.GetLineIDsWithType(this.modelId, WebIFC.IFCSPACE);
+
+    for (let i = 0; i < spaceIds.size(); i++) {
+      const expressId = spaceIds.get(i);
+
+      try {
+        const space = this.parseSpace(expressId, storeys, importPsets);
+        if (space) {
+          spaces.push(space);
+          this.idMapping.elements.set(expressId, space.id);
+        }
+      } catch (err) {
+        this.warnings.push(`Failed to parse space #${expressId}: ${err}`);
+      }
+    }
+
+    return spaces;
+  }
+
+  private parseSpace(expressId: number, storeys: StoreyInfo[], importPsets: boolean): BimElement | null {
+    const ifcSpace = this.ifcApi.GetLine(this.modelId, expressId);
+    const placement = this.getPlacement(ifcSpace.ObjectPlacement?.value);
+
+    const footprint = this.extractSpaceFootprint(expressId, placement);
+    if (!footprint || footprint.polygon.length < 3) {
+      this.warnings.push(`Could not extract footprint for space #${expressId}`);
+      return null;
+    }
+
+    const parentId = this.findParentStorey(expressId, storeys);
+    const storey = storeys.find((s) => s.id === parentId);
+    const psets = this.getPropertySets(expressId);
+    const quantities = this.getQuantities(expressId);
+
+    const name = this.getStringValue(ifcSpace.Name);
+    const longName = this.getStringValue(ifcSpace.LongName) || this.getStringValue(ifcSpace.Description);
+    const objectType = this.getStringValue(ifcSpace.ObjectType);
+    const height = quantities.Height ?? footprint.height ?? storey?.height ?? DEFAULT_STOREY_HEIGHT;
+
+    const space = createSpaceFromPolygon({
+      name: name || `Space ${expressId}`,
+      boundaryPolygon: footprint.polygon,
+      storeyId: parentId ?? '',
+      elevation: storey?.elevation ?? placement.position.z,
+      height,
+      spaceType: this.getSpaceType(ifcSpace, psets),
+      longName,
+      gastroCategory: guessGastroCategory(longName, objectType, name),
+    });
+    if (!space.spaceData) return null;
+
+    // Net height: finished ceiling (IFC4) or NetHeight (older exporters)
+    const netHeight = quantities.FinishCeilingHeight ?? quantities.NetHeight;
+    const floorFinishHeight = quantities.FinishFloorHeight;
+
+    // Occupancy is recalculated on export, only deviations from the default are kept
+    const occupancyPset = psets.find((pset) => pset.name === OCCUPANCY_PSET);
+    const occupancyData = occupancyPset
+      ? parseOccupancyPset(
+          occupancyPset,
+          space.spaceData.gastroCategory ?? DEFAULT_GASTRO_CATEGORY,
+          quantities.NetFloorArea ?? space.spaceData.area
+        )
+      : undefined;
+    const otherPsets = psets.filter((pset) => pset !== occupancyPset);
+
+    // Imported psets replace the generated ones, missing standard psets are kept
+    const importedNames = new Set(otherPsets.map((pset) => pset.name));
+    const properties = importPsets
+      ? [...otherPsets, ...space.properties.filter((pset) => !importedNames.has(pset.name))]
+      : space.properties;
+
+    return {
+      ...space,
+      parentId,
+      properties,
+      spaceData: {
+        ...space.spaceData,
+        netFloorArea: quantities.NetFloorArea,
+        netHeight,
+        floorFinishHeight,
+        occupancyData,
+      },
+    };
+  }
+
+  /**
+   * IfcSpace.PredefinedType (IFC4) / InteriorOrExteriorSpace (IFC2x3) / Pset_SpaceCommon.IsExternal
+   */
+  private getSpaceType(ifcSpace: Record<string, unknown>, psets: PropertySet[]): SpaceType {
+    const value =
+      this.getStringValue(ifcSpace.PredefinedType) ?? this.getStringValue(ifcSpace.InteriorOrExteriorSpace);
+    if (value === 'INTERNAL' || value === 'EXTERNAL') return value;
+
+    const isExternal = psets.find((pset) => pset.name === 'Pset_SpaceCommon')?.properties.IsExternal;
+    if (isExternal === true || isExternal === 'T') return 'EXTERNAL';
+    if (isExternal === false || isExternal === 'F') return 'INTERNAL';
+
+    return 'NOTDEFINED';
+  }
+
+  /**
+   * Extract the floor polygon of a space from its extruded profile.
+   * Falls back to the mesh bounding box for other representations.
+   */
+  private extractSpaceFootprint(
+    expressId: number,
+    placement: { position: Vector3; rotation: number }
+  ): { polygon: Point2D[]; height?: number } | null {
+    try {
+      const ifcSpace = this.ifcApi.GetLine(this.modelId, expressId);
+
+      if (ifcSpace.Representation?.value) {
+        const rep = this.ifcApi.GetLine(this.modelId, ifcSpace.Representation.value);
+
+        for (const repRef of rep.Representations || []) {
+          const shapeRep = this.ifcApi.GetLine(this.modelId, repRef.value);
+
+          for (const itemRef of shapeRep.Items || []) {
+            const item = this.ifcApi.GetLine(this.modelId, itemRef.value);
+            if (item.type !== WebIFC.IFCEXTRUDEDAREASOLID || !item.SweptArea?.value) continue;
+
+            const profile = this.getProfilePoints(item.SweptArea.value);
+            if (!profile || profile.length < 3) continue;
+
+            // Profile -> solid position -> object placement
+            const solidPlacement = this.getAxisPlacement2D(item.Position?.value);
+            const polygon = profile
+              .map((p) => this.transformPoint2D(p, solidPlacement))
+              .map((p) => this.transformPoint2D(p, placement));
+
+            return { polygon, height: this.getNumberValue(item.Depth) };
+          }
+        }
+      }
+    } catch {
+      // Fall through to mesh fallback
+    }
+
+    try {
+      const mesh = this.ifcApi.GetFlatMesh(this.modelId, expressId);
+      if (mesh.geometries.size() === 0) return null;
+
+      const bbox = this.calculateBoundingBox(mesh);
+      return {
+        polygon: [
+          { x: bbox.minX, y: bbox.minY },
+          { x: bbox.maxX, y: bbox.minY },
+          { x: bbox.maxX, y: bbox.maxY },
+          { x: bbox.minX, y: bbox.maxY },
+        ],
+        height: bbox.maxZ - bbox.minZ,
+      };
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Outline points of a profile definition in profile coordinates
+   */
+  private getProfilePoints(profileId: number): Point2D[] | null {
+    const profile = this.ifcApi.GetLine(this.modelId, profileId);
+
+    if (profile.type === WebIFC.IFCRECTANGLEPROFILEDEF) {
+      const halfX = (this.getNumberValue(profile.XDim) || 0) / 2;
+      const halfY = (this.getNumberValue(profile.YDim) || 0) / 2;
+      const position = this.getAxisPlacement2D(profile.Position?.value);
+      return [
+        { x: -halfX, y: -halfY },
+        { x: halfX, y: -halfY },
+        { x: halfX, y: halfY },
+        { x: -halfX, y: halfY },
+      ].map((p) => this.transformPoint2D(p, position));
+    }
+
+    if (
+      (profile.type === WebIFC.IFCARBITRARYCLOSEDPROFILEDEF ||
+        profile.type === WebIFC.IFCARBITRARYPROFILEDEFWITHVOIDS) &&
+      profile.OuterCurve?.value
+    ) {
+      const curve = this.ifcApi.GetLine(this.modelId, profile.OuterCurve.value);
+      let points: Point2D[] = [];
+
+      if (curve.type === WebIFC.IFCPOLYLINE) {
+        points = (curve.Points || []).map((ref: { value: number }) => {
+          const coords = this.ifcApi.GetLine(this.modelId, ref.value).Coordinates || [];
+          return { x: this.getNumberValue(coords[0]) || 0, y: this.getNumberValue(coords[1]) || 0 };
+        });
+      } else if (curve.type === WebIFC.IFCINDEXEDPOLYCURVE && curve.Points?.value) {
+        const pointList = this.ifcApi.GetLine(this.modelId, curve.Points.value);
+        points = (pointList.CoordList || []).map((coords: unknown[]) => ({
+          x: this.getNumberValue(coords[0]) || 0,
+          y: this.getNumberValue(coords[1]) || 0,
+        }));
+      }
+
+      // Closed polylines repeat the first point
+      const first = points[0];
+      const last = points[points.length - 1];
+      if (points.length > 1 && first && last && first.x === last.x && first.y === last.y) {
+        points = points.slice(0, -1);
+      }
+      return points;
+    }
+
+    return null;
+  }
+
+  /**
+   * Location and rotation (around Z) of an IfcAxis2Placement2D/3D
+   */
+  private getAxisPlacement2D(placementId: number | undefined): { position: Vector3; rotation: number } {
+    const result = { position: { x: 0, y: 0, z: 0 }, rotation: 0 };
+    if (!placementId) return result;
+
+    const axisPlacement = this.ifcApi.GetLine(this.modelId, placementId);
+    if (axisPlacement.Location?.value) {
+      const coords = this.ifcApi.GetLine(this.modelId, axisPlacement.Location.value).Coordinates || [];
+      result.position = {
+        x: this.getNumberValue(coords[0]) || 0,
+        y: this.getNumberValue(coords[1]) || 0,
+        z: this.getNumberValue(coords[2]) || 0,
+      };
+    }
+    if (axisPlacement.RefDirection?.value) {
+      const ratios = this.ifcApi.GetLine(this.modelId, axisPlacement.RefDirection.value).DirectionRatios || [];
+      result.rotation = Math.atan2(this.getNumberValue(ratios[1]) ?? 0, this.getNumberValue(ratios[0]) ?? 1);
+    }
+    return result;
+  }
+
+  private transformPoint2D(point: Point2D, placement: { position: Vector3; rotation: number }): Point2D {
+    const cos = Math.cos(placement.rotation);
+    const sin = Math.sin(placement.rotation);
+    return {
+      x: placement.position.x + point.x * cos - point.y * sin,
+      y: placement.position.y + point.x * sin + point.y * cos,
+    };
+  }
+
   // ============================================
   // Helper Methods
   // ============================================
 
+  /**
+   * Store the IFC GlobalId on every imported element (used to match re-imports)
+   */
+  private assignGlobalIds(elements: BimElement[]): void {
+    const elementsById = new Map(elements.map((element) => [element.id, element]));
+
+    for (const [expressId, elementId] of this.idMapping.elements) {
+      const element = elementsById.get(elementId);
+      if (!element) continue;
+
+      try {
+        const line = this.ifcApi.GetLine(this.modelId, expressId);
+        element.ifcGlobalId = this.getStringValue(line.GlobalId);
+      } catch {
+        // Element stays without GlobalId
+      }
+    }
+  }
+
   /**
    * Get world placement by recursively accumulating the placement hierarchy.
    * IFC uses nested IfcLocalPlacement with PlacementRelTo references that
@@ -1459,6 +1939,43 @@ export class IfcImporter {
     return psets;
   }
 
+  /**
+   * Collect all values of the element quantity sets (Qto_*) by quantity name
+   */
+  private getQuantities(expressId: number): Record<string, number> {
+    const quantities: Record<string, number> = {};
+
+    try {
+      const relIds = this.ifcApi.GetLineIDsWithType(this.modelId, WebIFC.IFCRELDEFINESBYPROPERTIES);
+
+      for (let i = 0; i < relIds.size(); i++) {
+        const rel = this.ifcApi.GetLine(this.modelId, relIds.get(i));
+        const isRelated = (rel.RelatedObjects || []).some(
+          (ref: { value: number }) => ref.value === expressId
+        );
+        if (!isRelated || !rel.RelatingPropertyDefinition?.value) continue;
+
+        const qto = this.ifcApi.GetLine(this.modelId, rel.RelatingPropertyDefinition.value);
+        if (qto.type !== WebIFC.IFCELEMENTQUANTITY) continue;
+
+        for (const quantityRef of qto.Quantities || []) {
+          const quantity = this.ifcApi.GetLine(this.modelId, quantityRef.value);
+          const name = this.getStringValue(quantity.Name);
+          const value = this.getNumberValue(
+            quantity.LengthValue ?? quantity.AreaValue ?? quantity.VolumeValue ?? quantity.CountValue
+          );
+          if (name && value !== undefined) {
+            quantities[name] = value;
+          }
+        }
+      }
+    } catch {
+      // Return what was collected so far
+    }
+
+    return quantities;
+  }
+
   private extractMeshData(expressId: number): MeshData | null {
     try {
       const mesh = this.ifcApi.GetFlatMesh(this.modelId, expressId);
@@ -0,0 +1,49 @@
+/**
+ * IFC GlobalId helpers
+ *
+ * IFC stores GUIDs as 22 characters in a custom base64 alphabet
+ * (first character: 2 bits, then 21 × 6 bits = 128 bits).
+ */
+
+const IFC_GUID_CHARS = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz_$';
+
+/**
+ * Encode a number into a fixed count of IFC base64 digits
+ */
+function toBase64Digits(value: number, digits: number): string {
+  let result = '';
+  for (let i = digits - 1; i >= 0; i--) {
+    result += IFC_GUID_CHARS[Math.floor(value / 64 ** i) % 64];
+  }
+  return result;
+}
+
+/**
+ * Compress a UUID (e.g. element.id) into a stable IFC GlobalId.
+ * The same element always gets the same GlobalId, so re-imports can match it.
+ */
+export function uuidToIfcGuid(uuid: string): string {
+  const hex = uuid.replace(/-/g, '').toLowerCase();
+  if (!/^[0-9a-f]{32}$/.test(hex)) {
+    throw new Error(`Invalid UUID: ${uuid}`);
+  }
+
+  const bytes: number[] = [];
+  for (let i = 0; i < 32; i += 2) {
+    bytes.push(parseInt(hex.slice(i, i + 2), 16));
+  }
+
+  // 1 byte -> 2 chars, then 5 × 3 bytes -> 4 chars each
+  let guid = toBase64Digits(bytes[0]!, 2);
+  for (let i = 1; i < 16; i += 3) {
+    guid += toBase64Digits(bytes[i]! * 65536 + bytes[i + 1]! * 256 + bytes[i + 2]!, 4);
+  }
+  return guid;
+}
+
+/**
+ * Check whether a string is a valid IFC GlobalId
+ */
+export function isIfcGuid(value: string): boolean {
+  return /^[0-3][0-9A-Za-z_$]{21}$/.test(value);
+}
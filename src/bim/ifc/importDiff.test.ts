@@ -0,0 +1,233 @@
+import { fileURLToPath } from 'node:url';
+import { describe, expect, it, vi } from 'vitest';
+import { IfcAPI } from 'web-ifc';
+import type { BimElement, StoreyInfo } from '@/types/bim';
+import { createWall } from '@/bim/elements/Wall';
+import { createDoor, createOpeningFromDoor } from '@/bim/elements/Door';
+import { createWindow } from '@/bim/elements/Window';
+import { IfcExporter } from './IfcExporter';
+import type { ImportResult } from './IfcImporter';
+import { applyImportDiff, computeImportDiff } from './importDiff';
+
+const storey: StoreyInfo = { id: 'eg', name: 'EG', buildingId: 'b', elevation: 0, height: 3 };
+
+/** Wall with a hosted door, both with GlobalIds as after an IFC import */
+function createProject(): { wall: BimElement; door: BimElement } {
+  const wall = createWall({
+    startPoint: { x: 0, y: 0 },
+    endPoint: { x: 5, y: 0 },
+    storeyId: storey.id,
+  });
+  const door = {
+    ...createDoor({ hostWallId: wall.id, positionOnWall: 0.5, wallLength: 5, storeyId: storey.id }),
+    ifcGlobalId: 'door-guid',
+  };
+  return {
+    wall: {
+      ...wall,
+      ifcGlobalId: 'wall-guid',
+      wallData: { ...wall.wallData!, openings: [createOpeningFromDoor(door)!] },
+    },
+    door,
+  };
+}
+
+function createResult(elements: BimElement[]): ImportResult {
+  return {
+    project: { id: 'p', name: 'P', description: '' },
+    site: { id: 's', name: 'S', address: '' },
+    building: { id: 'b', name: 'B', siteId: 's' },
+    storeys: [storey],
+    elements,
+    warnings: [],
+    stats: {
+      wallsImported: 0,
+      doorsImported: 0,
+      windowsImported: 0,
+      columnsImported: 0,
+      slabsImported: 0,
+      furnitureImported: 0,
+      countersImported: 0,
+      stairsImported: 0,
+      spacesImported: 0,
+      elementsSkipped: 0,
+    },
+  };
+}
+
+/** Wall with a hosted door as created in the editor (no GlobalIds) */
+function createEditorProject(): BimElement[] {
+  const wall = createWall({
+    startPoint: { x: 0, y: 0 },
+    endPoint: { x: 5, y: 0 },
+    storeyId: storey.id,
+  });
+  const door = createDoor({
+    hostWallId: wall.id,
+    positionOnWall: 0.5,
+    wallLength: 5,
+    storeyId: storey.id,
+  });
+  return [
+    { ...wall, wallData: { ...wall.wallData!, openings: [createOpeningFromDoor(door)!] } },
+    door,
+  ];
+}
+
+/** The exporter loads web-ifc from the app's public folder, in node it comes from the package */
+const WEB_IFC_PATH = fileURLToPath(new URL('../../../node_modules/web-ifc/', import.meta.url));
+
+async function exportIfc(elements: BimElement[]): Promise<string> {
+  const setWasmPath = IfcAPI.prototype.SetWasmPath;
+  const spy = vi.spyOn(IfcAPI.prototype, 'SetWasmPath').mockImplementation(function (this: IfcAPI) {
+    setWasmPath.call(this, WEB_IFC_PATH, true);
+  });
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  try {
+    const exporter = new IfcExporter();
+    await exporter.init();
+    const { project, site, building } = createResult([]);
+    return new TextDecoder().decode(
+      await exporter.export(project, site, building, [storey], elements)
+    );
+  } finally {
+    spy.mockRestore();
+    vi.mocked(console.log).mockRestore();
+  }
+}
+
+describe('computeImportDiff', () => {
+  it('matches editor-created elements re-imported from an own export', async () => {
+    const elements = createEditorProject();
+    const ifc = await exportIfc(elements);
+
+    // GlobalIds as the importer reads them from the file; the importer assigns new ids
+    const globalIdOf = (entity: string) => new RegExp(`=${entity}\\('([^']+)'`).exec(ifc)?.[1];
+    const [wall, door] = elements as [BimElement, BimElement];
+    const reimportedWall = { ...wall, id: 'imported-wall', ifcGlobalId: globalIdOf('IFCWALL') };
+    const reimportedDoor = {
+      ...door,
+      id: 'imported-door',
+      ifcGlobalId: globalIdOf('IFCDOOR'),
+      doorData: { ...door.doorData!, hostWallId: 'imported-wall' },
+    };
+    reimportedWall.wallData = {
+      ...wall.wallData!,
+      openings: [{ ...wall.wallData!.openings[0]!, elementId: 'imported-door' }],
+    };
+
+    const diff = computeImportDiff(
+      elements,
+      [storey],
+      createResult([reimportedWall, reimportedDoor])
+    );
+
+    expect(reimportedWall.ifcGlobalId).toBeDefined();
+    expect(diff.changes).toEqual([]);
+    expect(diff.unchangedCount).toBe(2);
+  });
+
+  it('does not remove elements whose type is missing from the import', () => {
+    const { wall, door } = createProject();
+    // e.g. doors switched off in the import options
+    const diff = computeImportDiff(
+      [wall, door],
+      [storey],
+      createResult([{ ...wall, id: 'imported-wall' }])
+    );
+
+    expect(diff.changes).toEqual([]);
+    expect(diff.unchangedCount).toBe(1);
+  });
+
+  it('marks missing elements of an imported type as removed', () => {
+    const { wall, door } = createProject();
+    const otherDoor = { ...door, id: 'imported-door', ifcGlobalId: 'other-door-guid' };
+    const diff = computeImportDiff([wall, door], [storey], createResult([wall, otherDoor]));
+
+    expect(diff.changes.map((change) => [change.globalId, change.status])).toEqual([
+      ['other-door-guid', 'added'],
+      ['door-guid', 'removed'],
+    ]);
+  });
+});
+
+describe('applyImportDiff', () => {
+  it('removes the opening of a removed door from its host wall', () => {
+    const { wall, door } = createProject();
+    const diff = computeImportDiff(
+      [wall, door],
+      [storey],
+      createResult([wall, { ...door, id: 'imported-door', ifcGlobalId: 'new' }])
+    );
+
+    const elements = applyImportDiff([wall, door], diff, new Set(['door-guid']));
+    const updatedWall = elements.find((element) => element.id === wall.id);
+
+    expect(elements.some((element) => element.id === door.id)).toBe(false);
+    expect(updatedWall?.wallData?.openings).toEqual([]);
+  });
+
+  it('adds the opening of an accepted door to its unchanged host wall', () => {
+    const { wall, door } = createProject();
+    const newDoor = {
+      ...createDoor({
+        hostWallId: wall.id,
+        positionOnWall: 0.2,
+        wallLength: 5,
+        storeyId: storey.id,
+      }),
+      ifcGlobalId: 'new-door-guid',
+    };
+    const diff = computeImportDiff([wall, door], [storey], createResult([wall, door, newDoor]));
+
+    const elements = applyImportDiff([wall, door], diff, new Set(['new-door-guid']));
+    const updatedWall = elements.find((element) => element.id === wall.id);
+
+    expect(updatedWall?.wallData?.openings.map((o) => [o.elementId, o.position])).toEqual([
+      [door.id, 0.5],
+      [newDoor.id, 0.2],
+    ]);
+  });
+
+  it('drops doors and windows hosted by a removed wall', () => {
+    const { wall, door } = createProject();
+    const window = {
+      ...createWindow({
+        hostWallId: wall.id,
+        positionOnWall: 0.8,
+        wallLength: 5,
+        storeyId: storey.id,
+      }),
+      ifcGlobalId: 'window-guid',
+    };
+    const otherWall = {
+      ...wall,
+      id: 'other-wall',
+      ifcGlobalId: 'other-wall-guid',
+      wallData: { ...wall.wallData!, openings: [] },
+    };
+    const diff = computeImportDiff(
+      [wall, door, window, otherWall],
+      [storey],
+      createResult([otherWall])
+    );
+
+    const elements = applyImportDiff([wall, door, window, otherWall], diff, new Set(['wall-guid']));
+
+    expect(elements.map((element) => element.id)).toEqual(['other-wall']);
+  });
+
+  it('keeps rejected removals', () => {
+    const { wall, door } = createProject();
+    const diff = computeImportDiff(
+      [wall, door],
+      [storey],
+      createResult([wall, { ...door, id: 'imported-door', ifcGlobalId: 'new' }])
+    );
+
+    const elements = applyImportDiff([wall, door], diff, new Set());
+
+    expect(elements).toEqual([wall, door]);
+  });
+});
@@ -0,0 +1,307 @@
+/**
+ * Update-Import: Abgleich eines revidierten IFC-Modells mit dem bestehenden Projekt
+ *
+ * Elemente werden über ihre IFC GlobalId zugeordnet. Im Editor erstellte
+ * Elemente haben keine importierte GlobalId; sie werden mit der GlobalId
+ * verglichen, die der Export aus ihrer id erzeugt, damit ein revidiertes IFC
+ * aus dem eigenen Export sie wiedererkennt. Als gelöscht gelten nur Elemente
+ * eines Typs, der im IFC überhaupt vorkommt - ausgeschaltete Kategorien oder
+ * Teilmodelle löschen also nichts.
+ */
+
+import type { BimElement, Opening, StoreyInfo } from '@/types/bim';
+import { createOpeningFromDoor, updateOpeningFromDoor } from '@/bim/elements/Door';
+import { createOpeningFromWindow, updateOpeningFromWindow } from '@/bim/elements/Window';
+import type { ImportResult } from './IfcImporter';
+import { uuidToIfcGuid } from './guid';
+
+export type ImportChangeStatus = 'added' | 'changed' | 'removed';
+
+/**
+ * A single difference between project and revised IFC
+ */
+export interface ImportChange {
+  /** IFC GlobalId (unique key of the change) */
+  globalId: string;
+  status: ImportChangeStatus;
+  /** Element in the project (changed / removed) */
+  existing?: BimElement;
+  /** Element from the IFC, already mapped to project ids (added / changed) */
+  imported?: BimElement;
+}
+
+export interface ImportDiff {
+  changes: ImportChange[];
+  /** Number of matched elements without changes */
+  unchangedCount: number;
+  /** Storeys of the IFC that have no counterpart in the project */
+  newStoreys: StoreyInfo[];
+}
+
+/** Numbers are compared with this precision (0.1 mm) to ignore float noise */
+const COMPARE_PRECISION = 10000;
+
+/**
+ * GlobalId of an element or storey: the imported one, otherwise the one
+ * IfcExporter.getGlobalId derives from the id
+ */
+function getExportedGlobalId(source: { id: string; ifcGlobalId?: string }): string | undefined {
+  if (source.ifcGlobalId) return source.ifcGlobalId;
+  try {
+    return uuidToIfcGuid(source.id);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Match imported storeys to project storeys (GlobalId, then name)
+ */
+function matchStoreys(
+  existing: StoreyInfo[],
+  imported: StoreyInfo[]
+): { storeyIdMap: Map<string, string>; newStoreys: StoreyInfo[] } {
+  const storeyIdMap = new Map<string, string>();
+  const newStoreys: StoreyInfo[] = [];
+
+  for (const storey of imported) {
+    const match =
+      existing.find((s) => storey.ifcGlobalId && getExportedGlobalId(s) === storey.ifcGlobalId) ??
+      existing.find((s) => s.name.trim().toLowerCase() === storey.name.trim().toLowerCase());
+
+    if (match) {
+      storeyIdMap.set(storey.id, match.id);
+    } else {
+      newStoreys.push(storey);
+    }
+  }
+
+  return { storeyIdMap, newStoreys };
+}
+
+/**
+ * Replace the ids of an imported element (and its references) with project ids
+ */
+function remapElement(
+  element: BimElement,
+  elementIdMap: Map<string, string>,
+  storeyIdMap: Map<string, string>
+): BimElement {
+  const mapElement = (id: string) => elementIdMap.get(id) ?? id;
+  const mapStorey = (id: string) => storeyIdMap.get(id) ?? id;
+
+  return {
+    ...element,
+    id: mapElement(element.id),
+    parentId: element.parentId ? mapStorey(element.parentId) : null,
+    wallData: element.wallData && {
+      ...element.wallData,
+      openings: element.wallData.openings.map((o) => ({
+        ...o,
+        elementId: mapElement(o.elementId),
+      })),
+    },
+    doorData: element.doorData && {
+      ...element.doorData,
+      hostWallId: mapElement(element.doorData.hostWallId),
+    },
+    windowData: element.windowData && {
+      ...element.windowData,
+      hostWallId: mapElement(element.windowData.hostWallId),
+    },
+    slabData: element.slabData && {
+      ...element.slabData,
+      openings: element.slabData.openings?.map((o) => ({
+        ...o,
+        elementId: mapElement(o.elementId),
+      })),
+    },
+    stairData: element.stairData && {
+      ...element.stairData,
+      bottomStoreyId: mapStorey(element.stairData.bottomStoreyId),
+      topStoreyId: mapStorey(element.stairData.topStoreyId),
+    },
+  };
+}
+
+/**
+ * The IFC-relevant part of an element (without ids, psets, PRO-mode data and
+ * occupancy overrides, which the editor recalculates on every export)
+ */
+function fingerprint(element: BimElement): string {
+  const spaceData = element.spaceData && {
+    ...element.spaceData,
+    fireSafetyData: undefined,
+    cleaningData: undefined,
+    occupancyData: undefined,
+  };
+
+  return JSON.stringify(
+    {
+      type: element.type,
+      name: element.name,
+      parentId: element.parentId,
+      geometry: element.geometry,
+      placement: element.placement,
+      // Opening ids are regenerated on every import
+      wallData: element.wallData && {
+        ...element.wallData,
+        openings: element.wallData.openings.map((o) => ({ ...o, id: undefined })),
+      },
+      doorData: element.doorData,
+      windowData: element.windowData,
+      columnData: element.columnData,
+      slabData: element.slabData && {
+        ...element.slabData,
+        openings: element.slabData.openings?.map((o) => ({ ...o, id: undefined })),
+      },
+      counterData: element.counterData,
+      stairData: element.stairData && { ...element.stairData, openingId: undefined },
+      spaceData,
+      furnitureData: element.furnitureData && { ...element.furnitureData, meshData: undefined },
+    },
+    (_key, value: unknown) =>
+      typeof value === 'number' ? Math.round(value * COMPARE_PRECISION) / COMPARE_PRECISION : value
+  );
+}
+
+/**
+ * Compare the project with a revised IFC import
+ */
+export function computeImportDiff(
+  existingElements: BimElement[],
+  existingStoreys: StoreyInfo[],
+  result: ImportResult
+): ImportDiff {
+  const { storeyIdMap, newStoreys } = matchStoreys(existingStoreys, result.storeys);
+
+  const existingByGlobalId = new Map<string, BimElement>();
+  for (const element of existingElements) {
+    const globalId = getExportedGlobalId(element);
+    if (globalId) existingByGlobalId.set(globalId, element);
+  }
+
+  // Imported ids -> project ids for all matched elements
+  const elementIdMap = new Map<string, string>();
+  for (const element of result.elements) {
+    const match = element.ifcGlobalId ? existingByGlobalId.get(element.ifcGlobalId) : undefined;
+    if (match) elementIdMap.set(element.id, match.id);
+  }
+
+  const changes: ImportChange[] = [];
+  const importedGlobalIds = new Set<string>();
+  let unchangedCount = 0;
+
+  for (const element of result.elements) {
+    if (!element.ifcGlobalId) continue;
+    importedGlobalIds.add(element.ifcGlobalId);
+
+    const imported = remapElement(element, elementIdMap, storeyIdMap);
+    const existing = existingByGlobalId.get(element.ifcGlobalId);
+
+    if (!existing) {
+      changes.push({ globalId: element.ifcGlobalId, status: 'added', imported });
+    } else if (fingerprint(existing) !== fingerprint(imported)) {
+      changes.push({ globalId: element.ifcGlobalId, status: 'changed', existing, imported });
+    } else {
+      unchangedCount++;
+    }
+  }
+
+  // Missing elements only count as removed if their type was imported at all
+  const importedTypes = new Set(result.elements.map((element) => element.type));
+  for (const [globalId, existing] of existingByGlobalId) {
+    if (!importedGlobalIds.has(globalId) && importedTypes.has(existing.type)) {
+      changes.push({ globalId, status: 'removed', existing });
+    }
+  }
+
+  return { changes, unchangedCount, newStoreys };
+}
+
+/**
+ * Take the IFC version of an element but keep project-only data
+ * (additional psets, PRO-mode data and occupancy overrides of spaces)
+ */
+function mergeChangedElement(existing: BimElement, imported: BimElement): BimElement {
+  const importedPsetNames = new Set(imported.properties.map((pset) => pset.name));
+
+  return {
+    ...imported,
+    id: existing.id,
+    properties: [
+      ...imported.properties,
+      ...existing.properties.filter((pset) => !importedPsetNames.has(pset.name)),
+    ],
+    spaceData: imported.spaceData && {
+      ...imported.spaceData,
+      fireSafetyData: existing.spaceData?.fireSafetyData,
+      cleaningData: existing.spaceData?.cleaningData,
+      occupancyData: existing.spaceData?.occupancyData,
+    },
+  };
+}
+
+/**
+ * Rebuild the links between walls and their hosted doors/windows after the
+ * merge: hosted elements of removed walls are dropped, wall openings follow
+ * their hosted element (added, moved to another wall, resized or removed).
+ */
+function linkHostedOpenings(elements: Map<string, BimElement>): void {
+  const hostedByWall = new Map<string, BimElement[]>();
+  for (const element of Array.from(elements.values())) {
+    const hostWallId = element.doorData?.hostWallId ?? element.windowData?.hostWallId;
+    if (!hostWallId) continue;
+    if (!elements.get(hostWallId)?.wallData) {
+      elements.delete(element.id);
+      continue;
+    }
+    hostedByWall.set(hostWallId, [...(hostedByWall.get(hostWallId) ?? []), element]);
+  }
+
+  for (const wall of Array.from(elements.values())) {
+    if (!wall.wallData) continue;
+    const hosted = hostedByWall.get(wall.id) ?? [];
+    if (hosted.length === 0 && wall.wallData.openings.length === 0) continue;
+
+    const openings = hosted
+      .map((element) => {
+        const opening = wall.wallData!.openings.find((o) => o.elementId === element.id);
+        if (element.doorData)
+          return opening ? updateOpeningFromDoor(opening, element) : createOpeningFromDoor(element);
+        return opening
+          ? updateOpeningFromWindow(opening, element)
+          : createOpeningFromWindow(element);
+      })
+      .filter((opening): opening is Opening => opening !== null);
+    elements.set(wall.id, { ...wall, wallData: { ...wall.wallData, openings } });
+  }
+}
+
+/**
+ * Apply the accepted changes and return the complete new element list.
+ * Rejected changes keep the project state. Wall openings are rebuilt from
+ * the hosted doors and windows afterwards (see linkHostedOpenings).
+ */
+export function applyImportDiff(
+  existingElements: BimElement[],
+  diff: ImportDiff,
+  acceptedGlobalIds: Set<string>
+): BimElement[] {
+  const elements = new Map(existingElements.map((element) => [element.id, element]));
+
+  for (const change of diff.changes) {
+    if (!acceptedGlobalIds.has(change.globalId)) continue;
+
+    if (change.status === 'added' && change.imported) {
+      elements.set(change.imported.id, change.imported);
+    } else if (change.status === 'changed' && change.existing && change.imported) {
+      elements.set(change.existing.id, mergeChangedElement(change.existing, change.imported));
+    } else if (change.status === 'removed' && change.existing) {
+      elements.delete(change.existing.id);
+    }
+  }
+
+  linkHostedOpenings(elements);
+  return Array.from(elements.values());
+}
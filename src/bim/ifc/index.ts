@@ -1,4 +1,8 @@
 export { IfcExporter, exportToIfc } from './IfcExporter';
+export { IFC_SCHEMA_OPTIONS, DEFAULT_IFC_SCHEMA } from './schema';
+export type { IfcSchemaVersion, IfcExportOptions } from './schema';
 export { IfcImporter } from './IfcImporter';
 export type { ImportResult, ImportOptions, CoordinateSystem } from './IfcImporter';
 export { importFromIfc, importFromIfcData, importFromIfcUrl } from './import';
+export { computeImportDiff, applyImportDiff } from './importDiff';
+export type { ImportDiff, ImportChange, ImportChangeStatus } from './importDiff';
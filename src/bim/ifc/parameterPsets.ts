@@ -0,0 +1,175 @@
+import type { CounterData, CounterType, StairData, StairType, StepCalculation, PropertySet } from '@/types/bim';
+import type { Point2D } from '@/types/geometry';
+
+/**
+ * Parameter property sets for lossless IFC round-trips
+ *
+ * Counters and stairs are exported as generic geometry (IfcBuildingElementProxy,
+ * IfcStair). To rebuild editable elements on re-import, the exporter writes the
+ * parametric input into these psets and the importer reads it back.
+ */
+
+export const COUNTER_PARAMETER_PSET = 'CoffeeBIM_CounterParameters';
+export const STAIR_PARAMETER_PSET = 'CoffeeBIM_StairParameters';
+
+const COUNTER_TYPES: CounterType[] = ['standard', 'bar', 'service'];
+const STAIR_TYPES: StairType[] = ['straight', 'l-shape', 'u-shape'];
+
+/**
+ * Path coordinates are stored with mm precision. The encoded path easily
+ * exceeds 255 characters, so the exporter writes it as IfcText.
+ */
+const PATH_PRECISION = 1000;
+
+/**
+ * Check whether a pset is one of the internal parameter psets
+ */
+export function isParameterPset(name: string): boolean {
+  return name === COUNTER_PARAMETER_PSET || name === STAIR_PARAMETER_PSET;
+}
+
+function roundCoordinate(value: number): number {
+  return Math.round(value * PATH_PRECISION) / PATH_PRECISION;
+}
+
+function encodePath(path: Point2D[]): string {
+  return JSON.stringify(path.map((p) => [roundCoordinate(p.x), roundCoordinate(p.y)]));
+}
+
+function decodePath(value: unknown): Point2D[] | null {
+  if (typeof value !== 'string') return null;
+  try {
+    const raw: unknown = JSON.parse(value);
+    if (!Array.isArray(raw)) return null;
+    const path = raw.map((point) =>
+      Array.isArray(point) && typeof point[0] === 'number' && typeof point[1] === 'number'
+        ? { x: point[0], y: point[1] }
+        : null
+    );
+    return path.every((p): p is Point2D => p !== null) ? path : null;
+  } catch {
+    return null;
+  }
+}
+
+function readNumber(value: unknown): number | undefined {
+  return typeof value === 'number' && Number.isFinite(value) ? value : undefined;
+}
+
+/**
+ * IfcBoolean arrives as boolean or as STEP enum ('T' / 'F')
+ */
+function readBoolean(value: unknown): boolean | undefined {
+  if (typeof value === 'boolean') return value;
+  if (typeof value === 'string') {
+    const upper = value.replace(/\./g, '').toUpperCase();
+    if (upper === 'T' || upper === 'TRUE') return true;
+    if (upper === 'F' || upper === 'FALSE') return false;
+  }
+  return undefined;
+}
+
+/**
+ * Counter parameters -> pset
+ */
+export function createCounterParameterPset(data: CounterData): PropertySet {
+  return {
+    name: COUNTER_PARAMETER_PSET,
+    properties: {
+      Path: encodePath(data.path),
+      CounterType: data.counterType,
+      Depth: data.depth,
+      Height: data.height,
+      TopThickness: data.topThickness,
+      Overhang: data.overhang,
+      KickHeight: data.kickHeight,
+      KickRecess: data.kickRecess,
+      HasFootrest: data.hasFootrest,
+      FootrestHeight: data.footrestHeight,
+    },
+  };
+}
+
+/**
+ * Pset -> counter parameters (null if the path is missing or invalid)
+ */
+export function parseCounterParameterPset(pset: PropertySet): CounterData | null {
+  const props = pset.properties;
+  const path = decodePath(props.Path);
+  const depth = readNumber(props.Depth);
+  const height = readNumber(props.Height);
+  if (!path || path.length < 2 || depth === undefined || height === undefined) return null;
+
+  const counterType = COUNTER_TYPES.find((type) => type === props.CounterType) ?? 'standard';
+
+  return {
+    path,
+    depth,
+    height,
+    topThickness: readNumber(props.TopThickness) ?? 0,
+    overhang: readNumber(props.Overhang) ?? 0,
+    kickHeight: readNumber(props.KickHeight) ?? 0,
+    kickRecess: readNumber(props.KickRecess) ?? 0,
+    counterType,
+    hasFootrest: readBoolean(props.HasFootrest) ?? false,
+    footrestHeight: readNumber(props.FootrestHeight) ?? 0,
+  };
+}
+
+/**
+ * Stair parameters -> pset (storey references are restored from the IFC hierarchy)
+ */
+export function createStairParameterPset(data: StairData): PropertySet {
+  return {
+    name: STAIR_PARAMETER_PSET,
+    properties: {
+      StairType: data.stairType,
+      Width: data.width,
+      TotalRise: data.totalRise,
+      Rotation: data.rotation,
+      StepCount: data.steps.count,
+      RiserHeight: data.steps.riserHeight,
+      TreadDepth: data.steps.treadDepth,
+      RunLength: data.steps.runLength,
+      CreateOpening: data.createOpening,
+    },
+  };
+}
+
+/**
+ * Parsed stair parameters, without storey references
+ */
+export type StairParameters = Omit<StairData, 'bottomStoreyId' | 'topStoreyId' | 'openingId'>;
+
+/**
+ * Pset -> stair parameters (null if width or rise are missing)
+ */
+export function parseStairParameterPset(pset: PropertySet): StairParameters | null {
+  const props = pset.properties;
+  const width = readNumber(props.Width);
+  const totalRise = readNumber(props.TotalRise);
+  if (width === undefined || totalRise === undefined || width <= 0 || totalRise <= 0) return null;
+
+  const count = readNumber(props.StepCount);
+  const riserHeight = readNumber(props.RiserHeight);
+  const treadDepth = readNumber(props.TreadDepth);
+  const steps: StepCalculation | null =
+    count !== undefined && count >= 1 && riserHeight !== undefined && treadDepth !== undefined
+      ? {
+          count,
+          riserHeight,
+          treadDepth,
+          runLength: readNumber(props.RunLength) ?? (count - 1) * treadDepth,
+        }
+      : null;
+  if (!steps) return null;
+
+  return {
+    stairType: STAIR_TYPES.find((type) => type === props.StairType) ?? 'straight',
+    width,
+    totalRise,
+    rotation: readNumber(props.Rotation) ?? 0,
+    steps,
+    createOpening: readBoolean(props.CreateOpening) ?? false,
+  };
+}
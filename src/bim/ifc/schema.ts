@@ -0,0 +1,84 @@
+import type { DoorData, WindowData, SpaceType } from '@/types/bim';
+import type { FireCompartment } from '@/bim/spaces/compartments';
+import type { ElectricalCircuit, ElectricalSettings } from '@/lib/electrical';
+import type { CustomModuleDefinition } from '@/types/proMode';
+
+/**
+ * IFC schema versions supported by the exporter
+ */
+export type IfcSchemaVersion = 'IFC2X3' | 'IFC4' | 'IFC4X3';
+
+/**
+ * Options for IFC export
+ */
+export interface IfcExportOptions {
+  /** Target schema (default: IFC4) */
+  schema?: IfcSchemaVersion;
+  /** Fire compartments, exported as IfcZone grouping their spaces */
+  fireCompartments?: FireCompartment[];
+  /** Electrical circuits, exported as IfcDistributionCircuit (IFC2x3: IfcElectricalCircuit) */
+  electricalCircuits?: ElectricalCircuit[];
+  /** Load budget settings; appliance loads are only exported when given */
+  electricalSettings?: ElectricalSettings;
+  /** User-defined modules, exported as property sets with defaults and computed fields */
+  customModules?: CustomModuleDefinition[];
+}
+
+export const DEFAULT_IFC_SCHEMA: IfcSchemaVersion = 'IFC4';
+
+/**
+ * Schema options for UI selection
+ */
+export const IFC_SCHEMA_OPTIONS: { value: IfcSchemaVersion; label: string }[] = [
+  { value: 'IFC2X3', label: 'IFC 2x3 TC1' },
+  { value: 'IFC4', label: 'IFC 4 ADD2 TC1' },
+  { value: 'IFC4X3', label: 'IFC 4.3 ADD2' },
+];
+
+/**
+ * IfcDoor.OperationType (IFC4+) / IfcDoorStyle.OperationType (IFC2x3)
+ */
+export function getDoorOperationType(doorData: DoorData): string {
+  switch (doorData.doorType) {
+    case 'double':
+      return 'DOUBLE_DOOR_SINGLE_SWING';
+    case 'sliding':
+      return doorData.swingDirection === 'left' ? 'SLIDING_TO_LEFT' : 'SLIDING_TO_RIGHT';
+    default:
+      return doorData.swingDirection === 'left' ? 'SINGLE_SWING_LEFT' : 'SINGLE_SWING_RIGHT';
+  }
+}
+
+/**
+ * IfcWindow.PartitioningType (IFC4+)
+ */
+export function getWindowPartitioningType(windowData: WindowData): string {
+  return windowData.windowType === 'double' ? 'DOUBLE_PANEL_VERTICAL' : 'SINGLE_PANEL';
+}
+
+/**
+ * IfcSpace.PredefinedType (IFC4+) - IfcSpaceTypeEnum
+ */
+export function getSpacePredefinedType(spaceType: SpaceType): string {
+  switch (spaceType) {
+    case 'INTERNAL':
+      return 'INTERNAL';
+    case 'EXTERNAL':
+      return 'EXTERNAL';
+    default:
+      return 'NOTDEFINED';
+  }
+}
+
+/**
+ * IfcFurniture.PredefinedType (IFC4+) - derived from the element name
+ */
+export function getFurniturePredefinedType(name: string): string {
+  const lower = name.toLowerCase();
+  if (/(chair|stuhl|hocker|stool)/.test(lower)) return 'CHAIR';
+  if (/(table|tisch)/.test(lower)) return 'TABLE';
+  if (/(sofa|couch|bank|bench)/.test(lower)) return 'SOFA';
+  if (/(shelf|regal)/.test(lower)) return 'SHELF';
+  if (/(desk|pult)/.test(lower)) return 'DESK';
+  return 'NOTDEFINED';
+}
@@ -0,0 +1,159 @@
+import { describe, expect, it } from 'vitest';
+import type { BimElement, FireRating, StoreyInfo } from '@/types/bim';
+import { createWall } from '@/bim/elements/Wall';
+import { createDoor } from '@/bim/elements/Door';
+import { createSpaceFromPolygon } from '@/bim/elements/Space';
+import {
+  checkFireCompartments,
+  createFireCompartment,
+  findCompartmentBoundaries,
+  getCompartmentArea,
+  getCompartmentMaxArea,
+  getSpaceCompartmentMap,
+  type FireCompartment,
+} from './compartments';
+
+const storey: StoreyInfo = { id: 'eg', name: 'EG', buildingId: 'b', elevation: 0, height: 3 };
+
+function createRoom(name: string, x0: number, x1: number, hasSprinklers = false): BimElement {
+  const space = createSpaceFromPolygon({
+    name,
+    boundaryPolygon: [
+      { x: x0, y: 0 },
+      { x: x1, y: 0 },
+      { x: x1, y: 6 },
+      { x: x0, y: 6 },
+    ],
+    storeyId: storey.id,
+  });
+  return { ...space, spaceData: { ...space.spaceData!, fireSafetyData: { hasSprinklers } } };
+}
+
+function createCompartment(
+  name: string,
+  spaces: BimElement[],
+  overrides: Partial<FireCompartment> = {}
+): FireCompartment {
+  return { ...createFireCompartment(name), spaceIds: spaces.map((s) => s.id), ...overrides };
+}
+
+/** 60 m² guest room and 36 m² kitchen, separated by a wall with a door */
+const gastraum = createRoom('Gastraum', 0, 10);
+const kueche = createRoom('Küche', 10, 16);
+const partition = createWall({
+  startPoint: { x: 10, y: 0 },
+  endPoint: { x: 10, y: 6 },
+  storeyId: storey.id,
+});
+const door = createDoor({
+  hostWallId: partition.id,
+  positionOnWall: 0.5,
+  wallLength: 6,
+  storeyId: storey.id,
+});
+const facade = createWall({
+  startPoint: { x: 0, y: 0 },
+  endPoint: { x: 10, y: 0 },
+  storeyId: storey.id,
+});
+
+function withWallRating(wall: BimElement, fireRating: FireRating): BimElement {
+  return { ...wall, wallData: { ...wall.wallData!, fireRating } };
+}
+
+function createModel(partitionWall: BimElement = partition): BimElement[] {
+  return [gastraum, kueche, partitionWall, door, facade];
+}
+
+describe('compartment assignment', () => {
+  it('keeps a space in the first compartment that lists it', () => {
+    const first = createCompartment('BA 1', [gastraum]);
+    const second = createCompartment('BA 2', [gastraum, kueche]);
+
+    const map = getSpaceCompartmentMap([first, second]);
+
+    expect(map.get(gastraum.id)).toBe(first);
+    expect(map.get(kueche.id)).toBe(second);
+  });
+
+  it('ignores deleted spaces and warns about empty compartments', () => {
+    const compartment = createCompartment('BA 1', [gastraum], {
+      spaceIds: [gastraum.id, 'deleted'],
+    });
+    const empty = createCompartment('BA 2', [], { spaceIds: ['deleted'] });
+
+    expect(getCompartmentArea(compartment, createModel())).toBeCloseTo(60, 6);
+    const findings = checkFireCompartments(createModel(), [storey], [compartment, empty]);
+
+    expect(findings.filter((f) => f.compartmentId === empty.id)).toMatchObject([
+      { rule: 'emptyCompartment', severity: 'warning' },
+    ]);
+  });
+});
+
+describe('compartment area', () => {
+  it('reports a compartment above its area limit', () => {
+    const compartment = createCompartment('BA 1', [gastraum, kueche], { maxArea: 90 });
+
+    const findings = checkFireCompartments(createModel(), [storey], [compartment]);
+
+    expect(findings).toHaveLength(1);
+    expect(findings[0]).toMatchObject({
+      rule: 'areaLimit',
+      severity: 'error',
+      storeyId: 'eg',
+      limit: 90,
+    });
+    expect(findings[0]?.value).toBeCloseTo(96, 6);
+  });
+
+  it('doubles the guideline area only when every space has sprinklers', () => {
+    const sprinklered = createRoom('Lager', 16, 20, true);
+
+    expect(getCompartmentMaxArea(createCompartment('BA', [sprinklered]), [sprinklered])).toBe(3200);
+    expect(
+      getCompartmentMaxArea(createCompartment('BA', [sprinklered, kueche]), [sprinklered, kueche])
+    ).toBe(1600);
+  });
+});
+
+describe('compartment boundaries', () => {
+  const strict = createCompartment('BA Gastraum', [gastraum], { requiredRating: 'REI90' });
+  const standard = createCompartment('BA Küche', [kueche], { requiredRating: 'REI60' });
+
+  it('requires the strictest rating on walls and doors between compartments', () => {
+    const boundaries = findCompartmentBoundaries(createModel(), [strict, standard]);
+
+    // The facade has no space outside, so it is no compartment boundary
+    expect(Array.from(boundaries.keys()).sort()).toEqual([partition.id, door.id].sort());
+    expect(boundaries.get(partition.id)).toMatchObject({
+      governingCompartmentId: strict.id,
+      requiredRating: 'REI90',
+    });
+  });
+
+  it('reports boundary walls and doors below the required rating', () => {
+    const underrated = checkFireCompartments(
+      createModel(withWallRating(partition, 'REI60')),
+      [storey],
+      [strict, standard]
+    );
+    const rated = checkFireCompartments(
+      createModel(withWallRating(partition, 'REI90')),
+      [storey],
+      [strict, standard]
+    );
+
+    expect(underrated.map((f) => [f.rule, f.elementId, f.value, f.limit])).toEqual([
+      ['wallRating', partition.id, 60, 90],
+      ['doorRating', door.id, 0, 90],
+    ]);
+    expect(rated.map((f) => f.rule)).toEqual(['doorRating']);
+  });
+
+  it('has no boundaries between spaces of the same compartment', () => {
+    const compartment = createCompartment('BA 1', [gastraum, kueche]);
+
+    expect(findCompartmentBoundaries(createModel(), [compartment]).size).toBe(0);
+  });
+});
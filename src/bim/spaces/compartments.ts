@@ -0,0 +1,357 @@
+/**
+ * Fire Compartments (Brandabschnitte)
+ *
+ * A compartment groups spaces that burn as one unit. Walls and doors on the
+ * compartment boundary must reach the compartment's fire resistance class,
+ * and the floor area of a compartment is limited. Limits are guideline
+ * values and must be verified per project.
+ * Compartments are stored with the project (see useProjectStore).
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import type { BimElement, FireRating, PropertySet, StoreyInfo } from '@/types/bim';
+import type { Point2D } from '@/types/geometry';
+import { isPointInPolygon } from './detection';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface FireCompartment {
+  id: string;
+  name: string;
+  /** Spaces inside the compartment (a space belongs to at most one compartment) */
+  spaceIds: string[];
+  /** Fire resistance class required for walls and doors on the boundary */
+  requiredRating: FireRating;
+  /** Max. floor area (m²), null = guideline value */
+  maxArea: number | null;
+  /** Zone colour in the floor plan */
+  color: string;
+}
+
+export type FireCompartmentRuleId = 'wallRating' | 'doorRating' | 'areaLimit' | 'emptyCompartment';
+
+export type FireCompartmentSeverity = 'error' | 'warning';
+
+export interface FireCompartmentFinding {
+  id: string;
+  rule: FireCompartmentRuleId;
+  severity: FireCompartmentSeverity;
+  /** Offending wall or door, null for compartment-wide findings */
+  elementId: string | null;
+  elementName: string;
+  storeyId: string | null;
+  compartmentId: string;
+  /** Measured value (rating in minutes or area in m²) */
+  value?: number;
+  /** Required value (rating in minutes or area in m²) */
+  limit?: number;
+}
+
+/**
+ * Wall or door separating two compartments (or a compartment from unassigned spaces)
+ */
+export interface CompartmentBoundary {
+  elementId: string;
+  /** Compartments adjacent to the element */
+  compartmentIds: string[];
+  /** Compartment with the strictest rating (decides the requirement) */
+  governingCompartmentId: string;
+  requiredRating: FireRating;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Name of the custom pset with the compartment data */
+export const FIRE_COMPARTMENT_PSET = 'CoffeeBIM_FireCompartment';
+
+export const DEFAULT_COMPARTMENT_RATING: FireRating = 'REI60';
+
+/** Guideline max. compartment area without sprinklers (m²) */
+export const DEFAULT_COMPARTMENT_MAX_AREA = 1600;
+
+/** The guideline area may be doubled when every space is sprinkler-protected */
+export const SPRINKLER_AREA_FACTOR = 2;
+
+export const COMPARTMENT_COLORS: readonly string[] = ['#e53935', '#fb8c00', '#8e24aa', '#3949ab', '#00897b', '#6d4c41'];
+
+/** Probe distance beyond the wall thickness to find the space on each side (m) */
+const BOUNDARY_PROBE_MARGIN = 0.1;
+
+/** Positions along the wall (0-1) that are probed for adjacent spaces */
+const BOUNDARY_SAMPLES = [0.1, 0.3, 0.5, 0.7, 0.9];
+
+// ============================================================================
+// Compartments
+// ============================================================================
+
+export function createFireCompartment(name: string, index = 0): FireCompartment {
+  return {
+    id: uuidv4(),
+    name,
+    spaceIds: [],
+    requiredRating: DEFAULT_COMPARTMENT_RATING,
+    maxArea: null,
+    color: COMPARTMENT_COLORS[index % COMPARTMENT_COLORS.length] ?? '#e53935',
+  };
+}
+
+/**
+ * Fire resistance in minutes (REI90 -> 90, none -> 0)
+ */
+export function getFireRatingMinutes(rating: FireRating | undefined): number {
+  return rating ? parseInt(rating.slice(3), 10) : 0;
+}
+
+/**
+ * Map space id -> compartment
+ */
+export function getSpaceCompartmentMap(compartments: FireCompartment[]): Map<string, FireCompartment> {
+  const map = new Map<string, FireCompartment>();
+  for (const compartment of compartments) {
+    for (const spaceId of compartment.spaceIds) {
+      if (!map.has(spaceId)) map.set(spaceId, compartment);
+    }
+  }
+  return map;
+}
+
+/**
+ * Spaces of a compartment that still exist in the model
+ */
+export function getCompartmentSpaces(compartment: FireCompartment, elements: BimElement[]): BimElement[] {
+  const ids = new Set(compartment.spaceIds);
+  return elements.filter((e) => e.type === 'space' && e.spaceData && ids.has(e.id));
+}
+
+/**
+ * Gross floor area of a compartment (m²)
+ */
+export function getCompartmentArea(compartment: FireCompartment, elements: BimElement[]): number {
+  return getCompartmentSpaces(compartment, elements).reduce((sum, space) => sum + (space.spaceData?.area ?? 0), 0);
+}
+
+/**
+ * Effective area limit: explicit value, otherwise the guideline value
+ * (doubled when all spaces are sprinkler-protected)
+ */
+export function getCompartmentMaxArea(compartment: FireCompartment, elements: BimElement[]): number {
+  if (compartment.maxArea !== null) return compartment.maxArea;
+
+  const spaces = getCompartmentSpaces(compartment, elements);
+  const sprinklered = spaces.length > 0 && spaces.every((s) => s.spaceData?.fireSafetyData?.hasSprinklers);
+  return DEFAULT_COMPARTMENT_MAX_AREA * (sprinklered ? SPRINKLER_AREA_FACTOR : 1);
+}
+
+// ============================================================================
+// Boundaries
+// ============================================================================
+
+/**
+ * Compartments on both sides of a wall at the given point.
+ * Returns null where the point does not separate two different compartments
+ * (same compartment, both unassigned, or exterior side without a space).
+ */
+function getSeparatedCompartments(
+  point: Point2D,
+  normal: Point2D,
+  offset: number,
+  spaces: BimElement[],
+  spaceCompartments: Map<string, FireCompartment>
+): FireCompartment[] | null {
+  const findSpace = (side: number) => {
+    const probe = { x: point.x + normal.x * offset * side, y: point.y + normal.y * offset * side };
+    return spaces.find((s) => s.spaceData && isPointInPolygon(probe, s.spaceData.boundaryPolygon));
+  };
+
+  const left = findSpace(1);
+  const right = findSpace(-1);
+  if (!left || !right) return null;
+
+  const leftCompartment = spaceCompartments.get(left.id);
+  const rightCompartment = spaceCompartments.get(right.id);
+  if (leftCompartment === rightCompartment) return null;
+
+  return [leftCompartment, rightCompartment].filter((c): c is FireCompartment => c !== undefined);
+}
+
+function createBoundary(elementId: string, compartments: FireCompartment[]): CompartmentBoundary {
+  const strictest = compartments.reduce((max, c) =>
+    getFireRatingMinutes(c.requiredRating) > getFireRatingMinutes(max.requiredRating) ? c : max
+  );
+  return {
+    elementId,
+    compartmentIds: compartments.map((c) => c.id),
+    governingCompartmentId: strictest.id,
+    requiredRating: strictest.requiredRating,
+  };
+}
+
+/**
+ * Walls and doors on compartment boundaries with their required rating.
+ * Exterior walls are not compartment boundaries.
+ */
+export function findCompartmentBoundaries(
+  elements: BimElement[],
+  compartments: FireCompartment[]
+): Map<string, CompartmentBoundary> {
+  const boundaries = new Map<string, CompartmentBoundary>();
+  if (compartments.length === 0) return boundaries;
+
+  const spaceCompartments = getSpaceCompartmentMap(compartments);
+  const spaces = elements.filter((e) => e.type === 'space' && e.spaceData);
+  const walls = elements.filter((e) => e.type === 'wall' && e.wallData);
+  const doors = elements.filter((e) => e.type === 'door' && e.doorData);
+
+  for (const wall of walls) {
+    const { startPoint, endPoint, thickness } = wall.wallData!;
+    const length = Math.hypot(endPoint.x - startPoint.x, endPoint.y - startPoint.y);
+    if (length === 0) continue;
+
+    const normal = { x: -(endPoint.y - startPoint.y) / length, y: (endPoint.x - startPoint.x) / length };
+    // The reference line can be either edge, so probe beyond the full thickness
+    const offset = thickness + BOUNDARY_PROBE_MARGIN;
+    const storeySpaces = spaces.filter((s) => s.parentId === wall.parentId);
+    const pointAt = (t: number) => ({
+      x: startPoint.x + (endPoint.x - startPoint.x) * t,
+      y: startPoint.y + (endPoint.y - startPoint.y) * t,
+    });
+
+    const adjacent = new Map<string, FireCompartment>();
+    for (const t of BOUNDARY_SAMPLES) {
+      const separated = getSeparatedCompartments(pointAt(t), normal, offset, storeySpaces, spaceCompartments);
+      separated?.forEach((c) => adjacent.set(c.id, c));
+    }
+    if (adjacent.size > 0) {
+      boundaries.set(wall.id, createBoundary(wall.id, Array.from(adjacent.values())));
+    }
+
+    // Doors are probed at their own position (a long wall may be a boundary only in part)
+    for (const door of doors.filter((d) => d.doorData!.hostWallId === wall.id)) {
+      const separated = getSeparatedCompartments(
+        pointAt(door.doorData!.positionOnWall),
+        normal,
+        offset,
+        storeySpaces,
+        spaceCompartments
+      );
+      if (separated && separated.length > 0) {
+        boundaries.set(door.id, createBoundary(door.id, separated));
+      }
+    }
+  }
+
+  return boundaries;
+}
+
+// ============================================================================
+// Validation
+// ============================================================================
+
+/**
+ * Check boundary ratings and compartment areas
+ */
+export function checkFireCompartments(
+  elements: BimElement[],
+  storeys: StoreyInfo[],
+  compartments: FireCompartment[]
+): FireCompartmentFinding[] {
+  const findings: FireCompartmentFinding[] = [];
+  const storeyIds = new Set(storeys.map((s) => s.id));
+
+  for (const compartment of compartments) {
+    const spaces = getCompartmentSpaces(compartment, elements);
+    if (spaces.length === 0) {
+      findings.push({
+        id: `emptyCompartment-${compartment.id}`,
+        rule: 'emptyCompartment',
+        severity: 'warning',
+        elementId: null,
+        elementName: compartment.name,
+        storeyId: null,
+        compartmentId: compartment.id,
+      });
+      continue;
+    }
+
+    const area = getCompartmentArea(compartment, elements);
+    const maxArea = getCompartmentMaxArea(compartment, elements);
+    if (area > maxArea) {
+      const storeyId = spaces[0]?.parentId ?? null;
+      findings.push({
+        id: `areaLimit-${compartment.id}`,
+        rule: 'areaLimit',
+        severity: 'error',
+        elementId: null,
+        elementName: compartment.name,
+        storeyId: storeyId && storeyIds.has(storeyId) ? storeyId : null,
+        compartmentId: compartment.id,
+        value: area,
+        limit: maxArea,
+      });
+    }
+  }
+
+  const boundaries = findCompartmentBoundaries(elements, compartments);
+  for (const boundary of boundaries.values()) {
+    const element = elements.find((e) => e.id === boundary.elementId);
+    if (!element) continue;
+
+    const isDoor = element.type === 'door';
+    const rating = isDoor ? element.doorData?.fireRating : element.wallData?.fireRating;
+    const value = getFireRatingMinutes(rating);
+    const limit = getFireRatingMinutes(boundary.requiredRating);
+    if (value >= limit) continue;
+
+    const rule: FireCompartmentRuleId = isDoor ? 'doorRating' : 'wallRating';
+    findings.push({
+      id: `${rule}-${element.id}`,
+      rule,
+      severity: 'error',
+      elementId: element.id,
+      elementName: element.name,
+      storeyId: element.parentId && storeyIds.has(element.parentId) ? element.parentId : null,
+      compartmentId: boundary.governingCompartmentId,
+      value,
+      limit,
+    });
+  }
+
+  return findings;
+}
+
+// ============================================================================
+// IFC
+// ============================================================================
+
+/**
+ * Compartment -> IfcZone property sets (derived on export, so they never go stale)
+ */
+export function createFireCompartmentPropertySets(
+  compartment: FireCompartment,
+  elements: BimElement[]
+): PropertySet[] {
+  const area = getCompartmentArea(compartment, elements);
+
+  return [
+    {
+      name: 'Pset_ZoneCommon',
+      properties: {
+        Category: 'FireCompartment',
+        GrossAreaPlanned: Math.round(area * 100) / 100,
+      },
+    },
+    {
+      name: FIRE_COMPARTMENT_PSET,
+      properties: {
+        FireRating: compartment.requiredRating,
+        Area: Math.round(area * 100) / 100,
+        MaxArea: getCompartmentMaxArea(compartment, elements),
+        MaxAreaIsGuideline: compartment.maxArea === null,
+      },
+    },
+  ];
+}
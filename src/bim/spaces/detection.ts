@@ -780,6 +780,34 @@ export function isPointInPolygon(point: Point2D, polygon: Point2D[]): boolean {
   return inside;
 }
 
+/**
+ * Plan position of an element for space lookups (counters are placed at the
+ * origin and carry their world coordinates in the front line path)
+ */
+export function getElementPlanPosition(element: BimElement): Point2D {
+  const path = element.counterData?.path;
+  if (path && path.length > 0) {
+    return {
+      x: path.reduce((sum, p) => sum + p.x, 0) / path.length,
+      y: path.reduce((sum, p) => sum + p.y, 0) / path.length,
+    };
+  }
+  return element.placement.position;
+}
+
+/**
+ * Space on the storey of the element that contains its plan position
+ */
+export function findContainingSpace(element: BimElement, spaces: BimElement[]): BimElement | undefined {
+  const position = getElementPlanPosition(element);
+  return spaces.find(
+    (space) =>
+      space.parentId === element.parentId &&
+      space.spaceData &&
+      isPointInPolygon(position, space.spaceData.boundaryPolygon)
+  );
+}
+
 /**
  * Ensure polygon points are in counter-clockwise order
  * (Standard for IFC space boundaries)
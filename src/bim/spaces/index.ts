@@ -1,7 +1,8 @@
 /**
  * Space Detection and Management
  *
- * Provides room detection from wall configurations and space management.
+ * Provides room detection from wall configurations, space management,
+ * occupant-load calculation and fire compartments.
  */
 
 export {
@@ -11,6 +12,44 @@ export {
   calculatePerimeter,
   calculateCentroid,
   isPointInPolygon,
+  getElementPlanPosition,
+  findContainingSpace,
   ensureCounterClockwise,
   type DetectedSpace,
 } from './detection';
+
+export {
+  calculateSpaceOccupancy,
+  calculateOccupancy,
+  getStoreyOccupancy,
+  getOccupantLoadFactor,
+  getFurnitureSeatCount,
+  countSpaceSeats,
+  createOccupancyPset,
+  parseOccupancyPset,
+  OCCUPANCY_PSET,
+  type SpaceOccupancy,
+  type OccupancySource,
+} from './occupancy';
+
+export {
+  createFireCompartment,
+  getFireRatingMinutes,
+  getSpaceCompartmentMap,
+  getCompartmentSpaces,
+  getCompartmentArea,
+  getCompartmentMaxArea,
+  findCompartmentBoundaries,
+  checkFireCompartments,
+  createFireCompartmentPropertySets,
+  FIRE_COMPARTMENT_PSET,
+  DEFAULT_COMPARTMENT_RATING,
+  DEFAULT_COMPARTMENT_MAX_AREA,
+  SPRINKLER_AREA_FACTOR,
+  COMPARTMENT_COLORS,
+  type FireCompartment,
+  type FireCompartmentFinding,
+  type FireCompartmentRuleId,
+  type FireCompartmentSeverity,
+  type CompartmentBoundary,
+} from './compartments';
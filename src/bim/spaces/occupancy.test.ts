@@ -0,0 +1,133 @@
+import { describe, expect, it } from 'vitest';
+import type { BimElement, GastroSpaceCategory, OccupancyData } from '@/types/bim';
+import type { Point2D } from '@/types/geometry';
+import { createSpaceFromPolygon } from '@/bim/elements/Space';
+import { createFurniture } from '@/bim/elements/Furniture';
+import {
+  calculateOccupancy,
+  calculateSpaceOccupancy,
+  createOccupancyPset,
+  getStoreyOccupancy,
+  parseOccupancyPset,
+} from './occupancy';
+
+function rectangle(x: number, y: number, width: number, depth: number): Point2D[] {
+  return [
+    { x, y },
+    { x: x + width, y },
+    { x: x + width, y: y + depth },
+    { x, y: y + depth },
+  ];
+}
+
+function createRoom(
+  polygon: Point2D[],
+  gastroCategory: GastroSpaceCategory,
+  occupancyData?: OccupancyData,
+  storeyId = 'eg'
+): BimElement {
+  const space = createSpaceFromPolygon({
+    name: gastroCategory,
+    boundaryPolygon: polygon,
+    storeyId,
+    gastroCategory,
+  });
+  return { ...space, spaceData: { ...space.spaceData!, occupancyData } };
+}
+
+function createSeat(name: string, x: number, y: number, width = 0.5): BimElement {
+  return createFurniture({
+    name,
+    category: 'seating',
+    modelUrl: '',
+    modelFormat: 'glb',
+    originalFileName: '',
+    position: { x, y, z: 0 },
+    width,
+    storeyId: 'eg',
+  });
+}
+
+describe('calculateSpaceOccupancy', () => {
+  it('scales occupancy with area and category density', () => {
+    const guestRoom = createRoom(rectangle(0, 0, 10, 12), 'GASTRAUM');
+    const storage = createRoom(rectangle(20, 0, 2, 2), 'LAGER');
+
+    expect(calculateSpaceOccupancy(guestRoom, [])).toMatchObject({
+      occupancy: 120,
+      source: 'area',
+    });
+    // 4 m² × 0.02 is rounded up to one person
+    expect(calculateSpaceOccupancy(storage, [])).toMatchObject({ occupancy: 1, source: 'area' });
+  });
+
+  it('applies a persons/m² override', () => {
+    const bar = createRoom(rectangle(0, 0, 5, 4), 'BAR', { personsPerM2: 0.5 });
+
+    expect(calculateSpaceOccupancy(bar, [])).toMatchObject({ personsPerM2: 0.5, occupancy: 10 });
+  });
+
+  it('counts seats inside the space when enabled', () => {
+    const room = createRoom(rectangle(0, 0, 6, 6), 'GASTRAUM', { useSeatCount: true });
+    const furniture = [
+      createSeat('Stuhl', 1, 1),
+      createSeat('Stuhl', 2, 1),
+      createSeat('Sitzbank', 3, 3, 1.8),
+      // outside the room
+      createSeat('Stuhl', 10, 10),
+    ];
+
+    expect(calculateSpaceOccupancy(room, furniture)).toMatchObject({
+      seatCount: 5,
+      occupancy: 5,
+      source: 'seats',
+    });
+  });
+
+  it('prefers a fixed occupancy over seats and area', () => {
+    const room = createRoom(rectangle(0, 0, 6, 6), 'GASTRAUM', {
+      fixedOccupancy: 12,
+      useSeatCount: true,
+    });
+
+    expect(calculateSpaceOccupancy(room, [createSeat('Stuhl', 1, 1)])).toMatchObject({
+      occupancy: 12,
+      source: 'fixed',
+    });
+  });
+});
+
+describe('getStoreyOccupancy', () => {
+  it('sums occupancy per storey', () => {
+    const elements = [
+      createRoom(rectangle(0, 0, 10, 10), 'GASTRAUM'),
+      createRoom(rectangle(10, 0, 5, 10), 'KUECHE'),
+      createRoom(rectangle(0, 0, 5, 5), 'TERRASSE', undefined, 'og'),
+    ];
+
+    const totals = getStoreyOccupancy(calculateOccupancy(elements));
+
+    expect(Object.fromEntries(totals)).toEqual({ eg: 105, og: 25 });
+  });
+});
+
+describe('occupancy pset', () => {
+  it('keeps only occupancy numbers that differ from the category default', () => {
+    const room = createRoom(rectangle(0, 0, 10, 5), 'GASTRAUM');
+    const pset = createOccupancyPset(calculateSpaceOccupancy(room, []));
+
+    expect(pset.properties).toEqual({
+      OccupancyType: 'GASTRAUM',
+      OccupancyNumber: 50,
+      AreaPerOccupant: 1,
+    });
+    expect(parseOccupancyPset(pset, 'GASTRAUM', 50)).toBeUndefined();
+    expect(
+      parseOccupancyPset(
+        { ...pset, properties: { ...pset.properties, OccupancyNumber: 30 } },
+        'GASTRAUM',
+        50
+      )
+    ).toEqual({ fixedOccupancy: 30 });
+  });
+});
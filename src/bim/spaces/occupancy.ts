@@ -0,0 +1,198 @@
+/**
+ * Occupant Load (Personenbelegung)
+ *
+ * Design occupancy per space from the gastro category density (persons/m²),
+ * overridable per space or derived from the seats placed in the room.
+ * Drives the evacuation spawn count and Pset_SpaceOccupancyRequirements.
+ */
+
+import type { BimElement, GastroSpaceCategory, OccupancyData, PropertySet } from '@/types/bim';
+import { OCCUPANT_LOAD_FACTORS, DEFAULT_GASTRO_CATEGORY } from '@/types/bim';
+import { isPointInPolygon } from './detection';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Where the design occupancy of a space comes from
+ */
+export type OccupancySource = 'fixed' | 'seats' | 'area';
+
+/**
+ * Calculated occupancy of a single space
+ */
+export interface SpaceOccupancy {
+  spaceId: string;
+  storeyId: string | null;
+  category: GastroSpaceCategory;
+  /** Area used for the density calculation (net if available) */
+  area: number;
+  /** Effective persons per m² (override or category default) */
+  personsPerM2: number;
+  /** Seats counted from furniture inside the space */
+  seatCount: number;
+  /** Design occupancy (persons) */
+  occupancy: number;
+  source: OccupancySource;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+export const OCCUPANCY_PSET = 'Pset_SpaceOccupancyRequirements';
+
+/** Seat width on sofas and benches (m) */
+const SEAT_WIDTH = 0.6;
+
+/** Keywords (lower case) in furniture name/category for single seats */
+const SINGLE_SEAT_KEYWORDS = ['stuhl', 'chair', 'hocker', 'stool', 'sessel', 'armchair'];
+
+/** Keywords for multi-seat furniture, seats are derived from the width */
+const MULTI_SEAT_KEYWORDS = ['sofa', 'couch', 'bank', 'bench'];
+
+/** Floating-point tolerance before rounding area × density up */
+const FACTOR_TOLERANCE = 1e-3;
+
+// ============================================================================
+// Calculation
+// ============================================================================
+
+/**
+ * Persons from area × density, rounded up (a 4 m² storage room still counts one person)
+ */
+function getAreaOccupancy(area: number, personsPerM2: number): number {
+  return Math.max(0, Math.ceil(area * personsPerM2 - FACTOR_TOLERANCE));
+}
+
+/**
+ * Effective persons/m² of a space (override or category default)
+ */
+export function getOccupantLoadFactor(space: BimElement): number {
+  const category = space.spaceData?.gastroCategory ?? DEFAULT_GASTRO_CATEGORY;
+  return space.spaceData?.occupancyData?.personsPerM2 ?? OCCUPANT_LOAD_FACTORS[category];
+}
+
+/**
+ * Number of seats a furniture element provides (0 if it is not a seat)
+ */
+export function getFurnitureSeatCount(furniture: BimElement): number {
+  if (!furniture.furnitureData) return 0;
+
+  const text = `${furniture.name} ${furniture.furnitureData.category}`.toLowerCase();
+  if (MULTI_SEAT_KEYWORDS.some((keyword) => text.includes(keyword))) {
+    return Math.max(2, Math.floor(furniture.furnitureData.width / SEAT_WIDTH));
+  }
+  return SINGLE_SEAT_KEYWORDS.some((keyword) => text.includes(keyword)) ? 1 : 0;
+}
+
+/**
+ * Count seats of all furniture placed inside the space (same storey)
+ */
+export function countSpaceSeats(space: BimElement, elements: BimElement[]): number {
+  if (!space.spaceData) return 0;
+
+  const polygon = space.spaceData.boundaryPolygon;
+  let seats = 0;
+
+  for (const element of elements) {
+    if (element.type !== 'furniture' || element.parentId !== space.parentId) continue;
+
+    const { x, y } = element.placement.position;
+    if (isPointInPolygon({ x, y }, polygon)) {
+      seats += getFurnitureSeatCount(element);
+    }
+  }
+
+  return seats;
+}
+
+/**
+ * Design occupancy of a space
+ * Priority: fixed override > counted seats (if enabled) > area × persons/m²
+ *
+ * @param space - The space element
+ * @param elements - Elements to count seats from (furniture of any storey)
+ */
+export function calculateSpaceOccupancy(space: BimElement, elements: BimElement[]): SpaceOccupancy {
+  const spaceData = space.spaceData;
+  const overrides: OccupancyData = spaceData?.occupancyData ?? {};
+  const area = spaceData ? (spaceData.netFloorArea ?? spaceData.area) : 0;
+  const personsPerM2 = getOccupantLoadFactor(space);
+  const seatCount = countSpaceSeats(space, elements);
+
+  const base = {
+    spaceId: space.id,
+    storeyId: space.parentId,
+    category: spaceData?.gastroCategory ?? DEFAULT_GASTRO_CATEGORY,
+    area,
+    personsPerM2,
+    seatCount,
+  };
+
+  if (overrides.fixedOccupancy !== undefined) {
+    return { ...base, occupancy: Math.max(0, Math.round(overrides.fixedOccupancy)), source: 'fixed' };
+  }
+  if (overrides.useSeatCount) {
+    return { ...base, occupancy: seatCount, source: 'seats' };
+  }
+
+  return { ...base, occupancy: getAreaOccupancy(area, personsPerM2), source: 'area' };
+}
+
+/**
+ * Design occupancy of all spaces
+ */
+export function calculateOccupancy(elements: BimElement[]): SpaceOccupancy[] {
+  return elements
+    .filter((element) => element.type === 'space' && element.spaceData)
+    .map((space) => calculateSpaceOccupancy(space, elements));
+}
+
+/**
+ * Sum of design occupancy per storey
+ */
+export function getStoreyOccupancy(occupancies: SpaceOccupancy[]): Map<string, number> {
+  const totals = new Map<string, number>();
+  for (const entry of occupancies) {
+    if (!entry.storeyId) continue;
+    totals.set(entry.storeyId, (totals.get(entry.storeyId) ?? 0) + entry.occupancy);
+  }
+  return totals;
+}
+
+// ============================================================================
+// IFC Property Set
+// ============================================================================
+
+/**
+ * Occupancy -> Pset_SpaceOccupancyRequirements (IFC standard pset)
+ */
+export function createOccupancyPset(occupancy: SpaceOccupancy): PropertySet {
+  return {
+    name: OCCUPANCY_PSET,
+    properties: {
+      OccupancyType: occupancy.category,
+      OccupancyNumber: occupancy.occupancy,
+      AreaPerOccupant:
+        occupancy.occupancy > 0 ? Math.round((occupancy.area / occupancy.occupancy) * 100) / 100 : null,
+    },
+  };
+}
+
+/**
+ * Pset_SpaceOccupancyRequirements -> overrides
+ * Numbers that differ from what the category default yields become a fixed occupancy.
+ */
+export function parseOccupancyPset(
+  pset: PropertySet,
+  category: GastroSpaceCategory,
+  area: number
+): OccupancyData | undefined {
+  const number = pset.properties.OccupancyNumber;
+  if (typeof number !== 'number' || !Number.isFinite(number) || number < 0) return undefined;
+
+  const defaultOccupancy = getAreaOccupancy(area, OCCUPANT_LOAD_FACTORS[category]);
+  return Math.round(number) === defaultOccupancy ? undefined : { fixedOccupancy: Math.round(number) };
+}
@@ -1,9 +1,10 @@
 import { useRef, useEffect, useCallback, useState, useMemo } from 'react';
-import { Stage, Layer, Line, Rect, Circle, Arc, Text, Group } from 'react-konva';
+import { Stage, Layer, Line, Rect, Circle, Arc, Arrow, Text, Group } from 'react-konva';
 import type { Stage as StageType } from 'konva/lib/Stage';
 import type { KonvaEventObject } from 'konva/lib/Node';
-import { useElementStore, useViewStore, useSelectionStore, useProjectStore, useToolStore } from '@/store';
+import { useElementStore, useViewStore, useSelectionStore, useProjectStore, useToolStore, useDxfUnderlayStore } from '@/store';
 import { useEvacuationStore } from '@/store/useEvacuationStore';
+import { computeDensityGrid, getDensityColor } from '@/lib/evacuation/results';
 import type { BimElement } from '@/types/bim';
 import { DEFAULT_WALL_THICKNESS, DEFAULT_WALL_HEIGHT, DEFAULT_WALL_ALIGNMENT, DEFAULT_COUNTER_DEPTH, DEFAULT_COUNTER_HEIGHT } from '@/types/bim';
 import { createColumn } from '@/bim/elements/Column';
@@ -18,9 +19,11 @@ import { createWindow, createOpeningFromWindow } from '@/bim/elements/Window';
 import { getPositionOnWall, calculateWallLength } from '@/bim/elements/Wall';
 import { createFurniture } from '@/bim/elements';
 import { createSpace } from '@/bim/elements/Space';
-import { detectSpaceAtPoint } from '@/bim/spaces';
+import { detectSpaceAtPoint, getSpaceCompartmentMap } from '@/bim/spaces';
 import { getAssetById, getAssetCategoryForItem, mapAssetCategoryToFurnitureCategory } from '@/lib/assets';
-import type { Point2D } from '@/types/geometry';
+import type { Point2D, LineSegment } from '@/types/geometry';
+import { getDxfBounds, getDxfSnapGeometry } from '@/lib/dxf';
+import { DxfUnderlayPanel } from '@/components/panels/DxfUnderlayPanel';
 import { GASTRO_SPACE_COLORS, GASTRO_SPACE_LABELS } from '@/types/bim';
 import type { GastroSpaceCategory } from '@/types/bim';
 import { calculatePolygonArea } from '@/lib/geometry/dimensions';
@@ -51,6 +54,7 @@ const STAIR_FILL = '#f5f5f5';
 const STAIR_ARROW_COLOR = '#444444';
 const SPACE_COLOR = '#666666';
 const SPACE_COLOR_SELECTED = '#FF6600';
+const SIGNAGE_COLOR = '#00a651'; // ISO 7010 safety green
 const SPACE_OPACITY = 0.35; // Transparency for space fills
 
 /**
@@ -86,6 +90,7 @@ function getSpaceFillColor(gastroCategory: GastroSpaceCategory | undefined, spac
 }
 const GRID_COLOR = '#e0e0e0';
 const GRID_COLOR_MAJOR = '#cccccc';
+const DXF_COLOR_SELECTED = '#ff6600';
 
 interface Canvas2DProps {
   width?: number;
@@ -98,7 +103,7 @@ export function Canvas2D({ width: propWidth, height: propHeight }: Canvas2DProps
   const [dimensions, setDimensions] = useState({ width: propWidth ?? 800, height: propHeight ?? 600 });
 
   // Store hooks
-  const { cad2dZoom, cad2dPanX, cad2dPanY, setCad2dZoom, setCad2dPan, showGrid, gridSize, showDimensions, dimensionSettings, snapSettings, zoomToExtentsTrigger, showSpaces, showSpaceLabels } = useViewStore();
+  const { cad2dZoom, cad2dPanX, cad2dPanY, setCad2dZoom, setCad2dPan, showGrid, gridSize, showDimensions, dimensionSettings, snapSettings, zoomToExtentsTrigger, showSpaces, showSpaceLabels, showFireCompartments } = useViewStore();
   const { getAllElements, getElementsByStorey, addElement, updateElement, getWallsForStorey } = useElementStore();
   const {
     selectedIds,
@@ -114,7 +119,7 @@ export function Canvas2D({ width: propWidth, height: propHeight }: Canvas2DProps
     finishBoxSelect,
     getBoxSelectBounds,
   } = useSelectionStore();
-  const { activeStoreyId, storeys } = useProjectStore();
+  const { activeStoreyId, storeys, fireCompartments } = useProjectStore();
   const {
     activeTool,
     wallPlacement,
@@ -161,14 +166,37 @@ export function Canvas2D({ width: propWidth, height: propHeight }: Canvas2DProps
   } = useToolStore();
 
   // Evacuation store for green route visualization
-  const { evacuationRoutes, isRunning: isEvacuationRunning } = useEvacuationStore();
+  const {
+    evacuationRoutes,
+    isRunning: isEvacuationRunning,
+    results: evacuationResults,
+    showDensityHeatmap,
+  } = useEvacuationStore();
 
   // Local state for cursor position in world coordinates
   const [cursorWorldPos, setCursorWorldPos] = useState<Point2D | null>(null);
 
+  // DXF underlay (vector plan for tracing)
+  const {
+    document: dxfDocument,
+    isVisible: isDxfVisible,
+    opacity: dxfOpacity,
+    hiddenLayers: dxfHiddenLayers,
+    selectedEntityIds: dxfSelectedIds,
+    selectEntities: selectDxfEntities,
+    toggleEntity: toggleDxfEntity,
+    clearSelection: clearDxfSelection,
+  } = useDxfUnderlayStore();
+
   // Get elements for current storey
   const elements = activeStoreyId ? getElementsByStorey(activeStoreyId) : getAllElements();
 
+  // Snap geometry of the visible DXF underlay
+  const dxfSnapGeometry = useMemo(
+    () => (dxfDocument && isDxfVisible ? getDxfSnapGeometry(dxfDocument, dxfHiddenLayers) : null),
+    [dxfDocument, isDxfVisible, dxfHiddenLayers]
+  );
+
   // Handle resize
   useEffect(() => {
     const updateDimensions = () => {
@@ -194,7 +222,9 @@ export function Canvas2D({ width: propWidth, height: propHeight }: Canvas2DProps
     if (zoomToExtentsTrigger === 0 || zoomToExtentsTrigger === lastZoomTrigger.current) return;
     lastZoomTrigger.current = zoomToExtentsTrigger;
 
-    if (elements.length === 0) {
+    const dxfBounds = dxfDocument && isDxfVisible ? getDxfBounds(dxfDocument.entities) : null;
+
+    if (elements.length === 0 && !dxfBounds) {
       // No elements, reset to default view
       setCad2dZoom(50);
       setCad2dPan(0, 0);
@@ -243,6 +273,14 @@ export function Canvas2D({ width: propWidth, height: propHeight }: Canvas2DProps
       }
     }
 
+    // Include the DXF underlay
+    if (dxfBounds) {
+      minX = Math.min(minX, dxfBounds.minX);
+      maxX = Math.max(maxX, dxfBounds.maxX);
+      minY = Math.min(minY, dxfBounds.minY);
+      maxY = Math.max(maxY, dxfBounds.maxY);
+    }
+
     // Add padding (20%)
     const padding = 0.2;
     const boundsWidth = maxX - minX;
@@ -271,7 +309,7 @@ export function Canvas2D({ width: propWidth, height: propHeight }: Canvas2DProps
 
     setCad2dZoom(newZoom);
     setCad2dPan(newPanX, newPanY);
-  }, [zoomToExtentsTrigger, elements, dimensions, setCad2dZoom, setCad2dPan]);
+  }, [zoomToExtentsTrigger, elements, dxfDocument, isDxfVisible, dimensions, setCad2dZoom, setCad2dPan]);
 
   // World to screen coordinates
   const worldToScreen = useCallback(
@@ -381,40 +419,36 @@ export function Canvas2D({ width: propWidth, height: propHeight }: Canvas2DProps
       let bestPoint = workingPoint;
       let bestDistance = Infinity;
 
-      // Collect all walls
-      const walls = elements.filter((e) => e.type === 'wall' && e.wallData);
+      // Collect wall axes and underlay lines
+      const segments: LineSegment[] = [];
+      for (const element of elements) {
+        if (element.type === 'wall' && element.wallData) {
+          segments.push({ start: element.wallData.startPoint, end: element.wallData.endPoint });
+        }
+      }
+      const endpoints = segments.flatMap((segment) => [segment.start, segment.end]);
+      if (dxfSnapGeometry) {
+        segments.push(...dxfSnapGeometry.segments);
+        endpoints.push(...dxfSnapGeometry.points);
+      }
 
       // Check endpoint snapping
       if (snapSettings.endpoint) {
-        for (const wall of walls) {
-          if (!wall.wallData) continue;
-          const { startPoint, endPoint } = wall.wallData;
-
-          // Check start point
-          const distStart = distance2D(workingPoint, startPoint);
-          if (distStart < SNAP_TOLERANCE && distStart < bestDistance) {
-            bestDistance = distStart;
-            bestPoint = { ...startPoint };
-          }
-
-          // Check end point
-          const distEnd = distance2D(workingPoint, endPoint);
-          if (distEnd < SNAP_TOLERANCE && distEnd < bestDistance) {
-            bestDistance = distEnd;
-            bestPoint = { ...endPoint };
+        for (const endpoint of endpoints) {
+          const dist = distance2D(workingPoint, endpoint);
+          if (dist < SNAP_TOLERANCE && dist < bestDistance) {
+            bestDistance = dist;
+            bestPoint = { ...endpoint };
           }
         }
       }
 
       // Check midpoint snapping
       if (snapSettings.midpoint) {
-        for (const wall of walls) {
-          if (!wall.wallData) continue;
-          const { startPoint, endPoint } = wall.wallData;
-
+        for (const { start, end } of segments) {
           const midPoint = {
-            x: (startPoint.x + endPoint.x) / 2,
-            y: (startPoint.y + endPoint.y) / 2,
+            x: (start.x + end.x) / 2,
+            y: (start.y + end.y) / 2,
           };
 
           const distMid = distance2D(workingPoint, midPoint);
@@ -428,14 +462,11 @@ export function Canvas2D({ width: propWidth, height: propHeight }: Canvas2DProps
       // Check perpendicular snapping (Lot auf Linie)
       // Finds the point on a wall where a line from refPoint would be perpendicular
       if (snapSettings.perpendicular && refPoint) {
-        for (const wall of walls) {
-          if (!wall.wallData) continue;
-          const { startPoint, endPoint } = wall.wallData;
-
-          // Get the perpendicular foot point from refPoint to the wall line
-          const { point: perpPoint, isOnSegment } = getPerpendicularPoint(refPoint, startPoint, endPoint);
+        for (const { start, end } of segments) {
+          // Get the perpendicular foot point from refPoint to the line
+          const { point: perpPoint, isOnSegment } = getPerpendicularPoint(refPoint, start, end);
 
-          // Only consider if the perpendicular foot is actually on the wall segment
+          // Only consider if the perpendicular foot is actually on the segment
           if (isOnSegment) {
             // Check if cursor is close to this perpendicular point
             const distPerp = distance2D(workingPoint, perpPoint);
@@ -457,7 +488,7 @@ export function Canvas2D({ width: propWidth, height: propHeight }: Canvas2DProps
 
       return bestPoint;
     },
-    [snapSettings, gridSize, elements, applyOrthoConstraint, getPerpendicularPoint]
+    [snapSettings, gridSize, elements, dxfSnapGeometry, applyOrthoConstraint, getPerpendicularPoint]
   );
 
   // CAD Navigation: Zoom with mouse wheel
@@ -715,6 +746,15 @@ export function Canvas2D({ width: propWidth, height: propHeight }: Canvas2DProps
       };
     }
 
+    if (element.type === 'signage' && element.signageData) {
+      const pos = element.placement.position;
+      const half = 0.25;
+      return {
+        min: { x: pos.x - half, y: pos.y - half },
+        max: { x: pos.x + half, y: pos.y + half },
+      };
+    }
+
     if (element.type === 'stair' && element.stairData) {
       const { width, steps } = element.stairData;
       const pos = element.placement.position;
@@ -773,6 +813,26 @@ export function Canvas2D({ width: propWidth, height: propHeight }: Canvas2DProps
             const isShift = e.evt.shiftKey;
             const isCtrl = e.evt.ctrlKey;
 
+            // Underlay lines lying completely inside the box
+            if (dxfDocument && isDxfVisible) {
+              const isInside = (p: Point2D) =>
+                p.x >= bounds.min.x && p.x <= bounds.max.x && p.y >= bounds.min.y && p.y <= bounds.max.y;
+              const underlayIds = dxfDocument.entities
+                .filter((entity) => !dxfHiddenLayers.has(entity.layer))
+                .filter((entity) =>
+                  entity.type === 'line'
+                    ? isInside(entity.start) && isInside(entity.end)
+                    : entity.type === 'polyline' && entity.points.every(isInside)
+                )
+                .map((entity) => entity.id);
+
+              if (isCtrl) {
+                selectDxfEntities([...dxfSelectedIds].filter((id) => !underlayIds.includes(id)));
+              } else {
+                selectDxfEntities(underlayIds, isShift);
+              }
+            }
+
             if (isCtrl && intersectingIds.length > 0) {
               // Ctrl+Box: Remove from selection
               const currentIds = Array.from(selectedIds);
@@ -792,6 +852,7 @@ export function Canvas2D({ width: propWidth, height: propHeight }: Canvas2DProps
             // Small box (click) - clear selection if no modifiers
             if (!e.evt.shiftKey && !e.evt.ctrlKey) {
               clearSelection();
+              clearDxfSelection();
             }
           }
         }
@@ -811,6 +872,12 @@ export function Canvas2D({ width: propWidth, height: propHeight }: Canvas2DProps
       addToSelection,
       clearSelection,
       finishBoxSelect,
+      dxfDocument,
+      isDxfVisible,
+      dxfHiddenLayers,
+      dxfSelectedIds,
+      selectDxfEntities,
+      clearDxfSelection,
     ]
   );
 
@@ -844,6 +911,23 @@ export function Canvas2D({ width: propWidth, height: propHeight }: Canvas2DProps
     [activeTool, select, toggleSelection, removeFromSelection]
   );
 
+  // Handle underlay line click (selection for wall conversion)
+  // Runs after handleMouseUp, which already cleared the selection on a plain click
+  const handleDxfEntityClick = useCallback(
+    (entityId: string, e: KonvaEventObject<MouseEvent>) => {
+      if (activeTool !== 'select') return;
+
+      e.cancelBubble = true; // Prevent stage click
+
+      if (e.evt.shiftKey || e.evt.ctrlKey) {
+        toggleDxfEntity(entityId);
+      } else {
+        selectDxfEntities([entityId]);
+      }
+    },
+    [activeTool, toggleDxfEntity, selectDxfEntities]
+  );
+
   // Check if point is close to first point (for closing polygon)
   const isCloseToFirstPoint = useCallback(
     (point: Point2D, points: Point2D[]): boolean => {
@@ -2067,6 +2151,74 @@ export function Canvas2D({ width: propWidth, height: propHeight }: Canvas2DProps
     );
   };
 
+  // Render an exit sign (green panel with escape arrow) or emergency luminaire (circle with cross)
+  const renderSignage = (element: BimElement) => {
+    if (!element.signageData) return null;
+
+    const { kind, arrow, rotation } = element.signageData;
+    const { position } = element.placement;
+    const isSelected = selectedIds.has(element.id);
+    const stroke = isSelected ? WALL_COLOR_SELECTED : SIGNAGE_COLOR;
+
+    const screenPos = worldToScreen(position.x, position.y);
+
+    if (kind === 'emergencyLight') {
+      const radius = Math.max(6, 0.1 * cad2dZoom);
+      const d = radius * Math.SQRT1_2;
+      return (
+        <Group key={element.id} x={screenPos.x} y={screenPos.y} onClick={(e) => handleElementClick(element.id, e)}>
+          <Circle radius={radius} fill="#ffffff" stroke={stroke} strokeWidth={isSelected ? 2 : 1.5} />
+          <Line points={[-d, -d, d, d]} stroke={stroke} strokeWidth={1} />
+          <Line points={[-d, d, d, -d]} stroke={stroke} strokeWidth={1} />
+        </Group>
+      );
+    }
+
+    // Local x = walking direction (screen y is flipped), panel lies across it
+    const panelWidth = Math.max(14, 0.4 * cad2dZoom);
+    const panelDepth = Math.max(5, 0.05 * cad2dZoom);
+    const arrowLength = panelWidth * 0.6;
+    const arrowPoints: Record<typeof arrow, number[] | null> = {
+      none: null,
+      straight: [0, 0, arrowLength, 0],
+      down: [0, 0, arrowLength, 0],
+      left: [0, 0, 0, -arrowLength],
+      right: [0, 0, 0, arrowLength],
+    };
+    const points = arrowPoints[arrow];
+
+    return (
+      <Group
+        key={element.id}
+        x={screenPos.x}
+        y={screenPos.y}
+        rotation={(-rotation * 180) / Math.PI}
+        onClick={(e) => handleElementClick(element.id, e)}
+      >
+        <Rect
+          x={-panelDepth / 2}
+          y={-panelWidth / 2}
+          width={panelDepth}
+          height={panelWidth}
+          fill={SIGNAGE_COLOR}
+          stroke={stroke}
+          strokeWidth={isSelected ? 2 : 1}
+        />
+        {points && (
+          <Arrow
+            points={points}
+            stroke={SIGNAGE_COLOR}
+            fill={SIGNAGE_COLOR}
+            strokeWidth={1.5}
+            pointerLength={4}
+            pointerWidth={4}
+            dash={arrow === 'down' ? [3, 2] : undefined}
+          />
+        )}
+      </Group>
+    );
+  };
+
   // Render a slab (floor/ceiling) as filled polygon
   const renderSlab = (element: BimElement) => {
     if (!element.slabData) return null;
@@ -2132,6 +2284,33 @@ export function Canvas2D({ width: propWidth, height: propHeight }: Canvas2DProps
     );
   };
 
+  // Fire compartment of each space (zones drawn over the space fills)
+  const spaceCompartments = useMemo(() => getSpaceCompartmentMap(fireCompartments), [fireCompartments]);
+
+  const renderFireCompartmentZone = (element: BimElement) => {
+    const compartment = spaceCompartments.get(element.id);
+    const boundaryPolygon = element.spaceData?.boundaryPolygon;
+    if (!compartment || !boundaryPolygon || boundaryPolygon.length < 3) return null;
+
+    const screenPoints = boundaryPolygon.flatMap((p) => {
+      const screen = worldToScreen(p.x, p.y);
+      return [screen.x, screen.y];
+    });
+
+    return (
+      <Line
+        key={`compartment-${element.id}`}
+        points={screenPoints}
+        closed
+        fill={compartment.color}
+        opacity={0.25}
+        stroke={compartment.color}
+        strokeWidth={2}
+        listening={false}
+      />
+    );
+  };
+
   // Render space labels only (rendered on top of all other elements)
   const renderSpaceLabel = (element: BimElement) => {
     if (!element.spaceData) return null;
@@ -2595,7 +2774,126 @@ export function Canvas2D({ width: propWidth, height: propHeight }: Canvas2DProps
     return <>{dimensionElements}</>;
   };
 
+  // Render DXF underlay (lines and polylines are clickable for wall conversion)
+  const renderDxfUnderlay = () => {
+    if (!dxfDocument || !isDxfVisible) return null;
+
+    const layerColors = new Map(dxfDocument.layers.map((layer) => [layer.name, layer.color]));
+    const nodes: JSX.Element[] = [];
+
+    for (const entity of dxfDocument.entities) {
+      if (dxfHiddenLayers.has(entity.layer)) continue;
+
+      const isSelected = dxfSelectedIds.has(entity.id);
+      const color = isSelected ? DXF_COLOR_SELECTED : (layerColors.get(entity.layer) ?? '#808080');
+
+      switch (entity.type) {
+        case 'line':
+        case 'polyline': {
+          const points = entity.type === 'line' ? [entity.start, entity.end] : entity.points;
+          nodes.push(
+            <Line
+              key={entity.id}
+              points={points.flatMap((p) => {
+                const screen = worldToScreen(p.x, p.y);
+                return [screen.x, screen.y];
+              })}
+              closed={entity.type === 'polyline' && entity.closed}
+              stroke={color}
+              strokeWidth={isSelected ? 2 : 1}
+              hitStrokeWidth={8}
+              onClick={(e) => handleDxfEntityClick(entity.id, e)}
+            />
+          );
+          break;
+        }
+
+        case 'arc':
+        case 'circle': {
+          const center = worldToScreen(entity.center.x, entity.center.y);
+          const radius = entity.radius * cad2dZoom;
+          if (entity.type === 'circle') {
+            nodes.push(
+              <Circle key={entity.id} x={center.x} y={center.y} radius={radius} stroke={color} strokeWidth={1} listening={false} />
+            );
+            break;
+          }
+          // Screen Y is flipped: counter-clockwise world arcs become clockwise from -endAngle
+          let sweep = entity.endAngle - entity.startAngle;
+          if (sweep <= 0) sweep += 360;
+          nodes.push(
+            <Arc
+              key={entity.id}
+              x={center.x}
+              y={center.y}
+              innerRadius={radius}
+              outerRadius={radius}
+              angle={sweep}
+              rotation={-entity.endAngle}
+              stroke={color}
+              strokeWidth={1}
+              listening={false}
+            />
+          );
+          break;
+        }
+
+        case 'text': {
+          const fontSize = entity.height * cad2dZoom;
+          if (fontSize < 3) break; // Unreadable at this zoom level
+          const position = worldToScreen(entity.position.x, entity.position.y);
+          nodes.push(
+            <Text
+              key={entity.id}
+              x={position.x}
+              y={position.y}
+              text={entity.text}
+              fontSize={fontSize}
+              offsetY={fontSize}
+              rotation={-entity.rotation}
+              fill={color}
+              listening={false}
+            />
+          );
+          break;
+        }
+      }
+    }
+
+    return <>{nodes}</>;
+  };
+
   // Render evacuation routes (green lines from farthest corner to exit)
+  // Peak density per cell of the last evacuation run (computed once the run stopped)
+  const densityGrid = useMemo(
+    () =>
+      showDensityHeatmap && evacuationResults && activeStoreyId && !isEvacuationRunning
+        ? computeDensityGrid(evacuationResults, activeStoreyId)
+        : null,
+    [showDensityHeatmap, evacuationResults, activeStoreyId, isEvacuationRunning]
+  );
+
+  const renderDensityHeatmap = () => {
+    if (!densityGrid) return null;
+
+    const size = densityGrid.cellSize * cad2dZoom;
+    return densityGrid.cells.map((cell) => {
+      // Upper-left screen corner (Y is flipped)
+      const corner = worldToScreen(cell.x, cell.y + densityGrid.cellSize);
+      return (
+        <Rect
+          key={`density-${cell.x}-${cell.y}`}
+          x={corner.x}
+          y={corner.y}
+          width={size}
+          height={size}
+          fill={getDensityColor(cell.density)}
+          opacity={0.5}
+        />
+      );
+    });
+  };
+
   const renderEvacuationRoutes = () => {
     if (!evacuationRoutes || evacuationRoutes.size === 0) return null;
 
@@ -2707,6 +3005,16 @@ export function Canvas2D({ width: propWidth, height: propHeight }: Canvas2DProps
         });
     }
 
+    // Fire compartment zones on top of the space fills
+    if (showFireCompartments && spaceCompartments.size > 0) {
+      elements
+        .filter((e) => e.type === 'space')
+        .forEach((element) => {
+          const zone = renderFireCompartmentZone(element);
+          if (zone) rendered.push(zone);
+        });
+    }
+
     // 1. Render slabs (above spaces)
     elements
       .filter((e) => e.type === 'slab')
@@ -2770,7 +3078,15 @@ export function Canvas2D({ width: propWidth, height: propHeight }: Canvas2DProps
         if (furniture) rendered.push(furniture);
       });
 
-    // 8. Render space labels last (top layer - above slabs and other elements)
+    // 8. Render exit signs and emergency luminaires
+    elements
+      .filter((e) => e.type === 'signage')
+      .forEach((element) => {
+        const signage = renderSignage(element);
+        if (signage) rendered.push(signage);
+      });
+
+    // 9. Render space labels last (top layer - above slabs and other elements)
     if (showSpaceLabels) {
       elements
         .filter((e) => e.type === 'space')
@@ -3735,7 +4051,7 @@ export function Canvas2D({ width: propWidth, height: propHeight }: Canvas2DProps
   };
 
   return (
-    <div ref={containerRef} className="w-full h-full bg-[#fafafa]" onContextMenu={(e) => e.preventDefault()}>
+    <div ref={containerRef} className="relative w-full h-full bg-[#fafafa]" onContextMenu={(e) => e.preventDefault()}>
       <Stage
         ref={stageRef}
         width={dimensions.width}
@@ -3752,9 +4068,17 @@ export function Canvas2D({ width: propWidth, height: propHeight }: Canvas2DProps
         {/* Grid Layer */}
         <Layer listening={false}>{renderGrid()}</Layer>
 
+        {/* DXF Underlay Layer - vector plan for tracing */}
+        <Layer listening={activeTool === 'select'} opacity={dxfOpacity}>
+          {renderDxfUnderlay()}
+        </Layer>
+
         {/* Elements Layer */}
         <Layer>{renderElements()}</Layer>
 
+        {/* Density Heatmap Layer - peak persons/m² of the last simulation run */}
+        <Layer listening={false}>{renderDensityHeatmap()}</Layer>
+
         {/* Evacuation Routes Layer - green lines from farthest corner to exit */}
         <Layer listening={false}>{renderEvacuationRoutes()}</Layer>
 
@@ -3783,6 +4107,9 @@ export function Canvas2D({ width: propWidth, height: propHeight }: Canvas2DProps
         </Layer>
       </Stage>
 
+      {/* DXF underlay layers and wall conversion */}
+      {dxfDocument && <DxfUnderlayPanel />}
+
       {/* Zoom indicator */}
       <div className="absolute bottom-2 right-2 bg-background/80 px-2 py-1 rounded text-xs">
         Zoom: {Math.round(cad2dZoom)}x | Pan: MMB
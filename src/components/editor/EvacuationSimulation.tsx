@@ -10,6 +10,7 @@ import { useFrame } from '@react-three/fiber';
 import * as THREE from 'three';
 import { OBJLoader } from 'three/examples/jsm/loaders/OBJLoader.js';
 import { useEvacuationStore, type EvacuationAgent } from '@/store/useEvacuationStore';
+import { AGENT_PROFILE_COLORS } from '@/lib/evacuation/profiles';
 
 // ============================================================================
 // Constants
@@ -49,6 +50,8 @@ function AgentMesh({ agent, geometry }: AgentMeshProps) {
   // Don't render if agent has exited
   if (agent.hasExited) return null;
 
+  const color = AGENT_PROFILE_COLORS[agent.profile.id];
+
   // Fallback to capsule if geometry not loaded
   if (!geometry) {
     return (
@@ -58,8 +61,8 @@ function AgentMesh({ agent, geometry }: AgentMeshProps) {
       >
         {/* Capsule standing upright (Z-up) */}
         <mesh position={[0, 0, 0.9]} rotation={[Math.PI / 2, 0, 0]}>
-          <capsuleGeometry args={[0.2, 0.6, 4, 8]} />
-          <meshStandardMaterial color="#3b82f6" transparent opacity={0.8} />
+          <capsuleGeometry args={[agent.profile.radius * 0.8, 0.6, 4, 8]} />
+          <meshStandardMaterial color={color} transparent opacity={0.8} />
         </mesh>
       </group>
     );
@@ -70,7 +73,7 @@ function AgentMesh({ agent, geometry }: AgentMeshProps) {
       {/* Inner group: rotate Y-up model to Z-up and scale */}
       <group rotation={[Math.PI / 2, 0, 0]} scale={[PERSON_SCALE, PERSON_SCALE, PERSON_SCALE]}>
         <mesh geometry={geometry}>
-          <meshStandardMaterial color="#3b82f6" />
+          <meshStandardMaterial color={color} />
         </mesh>
       </group>
     </group>
@@ -206,8 +209,6 @@ export function EvacuationControlPanel() {
     isRunning,
     stopSimulation,
     reset,
-    agentsPerSpace,
-    setAgentsPerSpace,
     agentSpeed,
     setAgentSpeed,
     stats,
@@ -220,20 +221,7 @@ export function EvacuationControlPanel() {
     <div className="flex flex-col gap-2 p-2 border rounded-lg shadow-lg bg-background">
       <div className="text-sm font-semibold">Fluchtsimulation</div>
 
-      {/* Settings */}
-      <div className="flex items-center gap-2 text-xs">
-        <label>Personen/Raum:</label>
-        <input
-          type="number"
-          min={1}
-          max={50}
-          value={agentsPerSpace}
-          onChange={(e) => setAgentsPerSpace(parseInt(e.target.value) || 1)}
-          className="w-16 px-1 py-0.5 border rounded"
-          disabled={isRunning}
-        />
-      </div>
-
+      {/* Settings (persons per room come from the space occupancy) */}
       <div className="flex items-center gap-2 text-xs">
         <label>Geschwindigkeit (m/s):</label>
         <input
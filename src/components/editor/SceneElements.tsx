@@ -1,6 +1,6 @@
 import { useMemo } from 'react';
 import { useElementStore, useProjectStore, useSelectionStore, useViewStore, useMeasurementStore } from '@/store';
-import { WallMesh, SlabMesh, DoorMesh, WindowMesh, ColumnMesh, CounterMesh, FurnitureMesh, SpaceMesh, StairMesh, DimensionLabel, DimensionLine3D, MeasurementMesh, PreviewMeasurement } from './meshes';
+import { WallMesh, SlabMesh, DoorMesh, WindowMesh, ColumnMesh, CounterMesh, FurnitureMesh, SpaceMesh, StairMesh, SignageMesh, DimensionLabel, DimensionLine3D, MeasurementMesh, PreviewMeasurement } from './meshes';
 import type { BimElement } from '@/types/bim';
 import { generateElementDimensions } from '@/lib/geometry';
 
@@ -163,6 +163,8 @@ function ElementMesh({ element, selected, isGhost = false, ghostOpacity = 0.25,
       return <SpaceMesh element={element} selected={isGhost ? false : selected} visible={!isGhost && showSpaces} showLabel={showSpaceLabels} />;
     case 'stair':
       return <StairMesh {...meshProps} />;
+    case 'signage':
+      return <SignageMesh {...meshProps} />;
     default:
       console.warn(`Unknown element type: ${element.type}`);
       return null;
@@ -1,19 +1,32 @@
-import { useState, useEffect, useCallback } from 'react';
-import { Trash2, Settings, Sparkles } from 'lucide-react';
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { Trash2, Settings, Sparkles, Library } from 'lucide-react';
 import { useTranslation } from 'react-i18next';
 import { useSelectionStore, useElementStore, useProjectStore, useSettingsStore } from '@/store';
-import { exportToIfc } from '@/bim/ifc';
+import { exportToIfc, type IfcSchemaVersion } from '@/bim/ifc';
 import { clearDatabase } from '@/lib/storage/indexedDBStorage';
+import {
+  downloadProjectFile,
+  openProjectFile,
+  ProjectFileError,
+  PROJECT_FILE_EXTENSION,
+} from '@/lib/project';
 import { PdfCalibrationDialog } from '@/components/panels/PdfCalibrationDialog';
 import { ImportModelDialog } from '@/components/panels/ImportModelDialog';
 import { ImportIfcDialog } from '@/components/panels/ImportIfcDialog';
+import { ExportIfcDialog } from '@/components/panels/ExportIfcDialog';
+import { ExportDxfDialog } from '@/components/panels/ExportDxfDialog';
+import { ImportDxfDialog } from '@/components/panels/ImportDxfDialog';
+import { ExportPdfDialog } from '@/components/panels/ExportPdfDialog';
+import { ExportAssetRegisterDialog } from '@/components/panels/ExportAssetRegisterDialog';
 import { SettingsDialog } from '@/components/panels/SettingsDialog';
 import { VisualizationDialog } from '@/components/panels/VisualizationDialog';
+import { ProjectBrowserDialog } from '@/components/panels/ProjectBrowserDialog';
 import {
   ToolSelectionGroup,
   ViewControlsGroup,
   SnapControlsGroup,
   PdfUnderlayGroup,
+  DxfUnderlayGroup,
   EditActionsGroup,
   SpaceActionsGroup,
   ImportExportGroup,
@@ -26,15 +39,32 @@ export function Toolbar() {
   const { t } = useTranslation();
   const { getSelectedIds } = useSelectionStore();
   const { getAllElements } = useElementStore();
-  const { project, site, building, storeys } = useProjectStore();
+  const {
+    project,
+    site,
+    building,
+    storeys,
+    fireCompartments,
+    electricalCircuits,
+    electricalSettings,
+    customModules,
+  } = useProjectStore();
   const { geminiApiKey, isKeyValidated } = useSettingsStore();
 
   const [isExporting, setIsExporting] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const projectFileInputRef = useRef<HTMLInputElement>(null);
   const [showPdfDialog, setShowPdfDialog] = useState(false);
   const [showImportDialog, setShowImportDialog] = useState(false);
   const [showIfcImportDialog, setShowIfcImportDialog] = useState(false);
+  const [showIfcExportDialog, setShowIfcExportDialog] = useState(false);
+  const [showDxfExportDialog, setShowDxfExportDialog] = useState(false);
+  const [showDxfImportDialog, setShowDxfImportDialog] = useState(false);
+  const [showPdfExportDialog, setShowPdfExportDialog] = useState(false);
+  const [showAssetRegisterDialog, setShowAssetRegisterDialog] = useState(false);
   const [showSettingsDialog, setShowSettingsDialog] = useState(false);
   const [showVisualizationDialog, setShowVisualizationDialog] = useState(false);
+  const [showProjectBrowser, setShowProjectBrowser] = useState(false);
 
   // Check if AI visualization is available
   const canVisualize = geminiApiKey && isKeyValidated;
@@ -42,20 +72,77 @@ export function Toolbar() {
   const selectedIds = getSelectedIds();
   const hasSelection = selectedIds.length > 0;
 
-  const handleExport = useCallback(async () => {
+  const handleExport = useCallback(async (schema: IfcSchemaVersion) => {
     if (isExporting) return;
 
     setIsExporting(true);
     try {
       const elements = getAllElements();
-      await exportToIfc(project, site, building, storeys, elements);
+      await exportToIfc(project, site, building, storeys, elements, {
+        schema,
+        fireCompartments,
+        electricalCircuits,
+        electricalSettings,
+        customModules,
+      });
+      setShowIfcExportDialog(false);
     } catch (error) {
       console.error('IFC Export failed:', error);
       alert(t('dialogs.exportFailed'));
     } finally {
       setIsExporting(false);
     }
-  }, [isExporting, getAllElements, project, site, building, storeys, t]);
+  }, [
+    isExporting,
+    getAllElements,
+    project,
+    site,
+    building,
+    storeys,
+    fireCompartments,
+    electricalCircuits,
+    electricalSettings,
+    customModules,
+    t,
+  ]);
+
+  const handleSaveProject = useCallback(async () => {
+    if (isSaving) return;
+
+    setIsSaving(true);
+    try {
+      await downloadProjectFile();
+    } catch (error) {
+      console.error('Project save failed:', error);
+      alert(t('projectFile.saveFailed'));
+    } finally {
+      setIsSaving(false);
+    }
+  }, [isSaving, t]);
+
+  const handleOpenProject = useCallback(() => {
+    projectFileInputRef.current?.click();
+  }, []);
+
+  const handleProjectFileSelected = useCallback(
+    async (event: React.ChangeEvent<HTMLInputElement>) => {
+      const file = event.target.files?.[0];
+      // Reset so the same file can be opened again
+      event.target.value = '';
+      if (!file) return;
+
+      if (!window.confirm(t('projectFile.confirmOpen'))) return;
+
+      try {
+        await openProjectFile(file);
+      } catch (error) {
+        console.error('Project open failed:', error);
+        const detail = error instanceof ProjectFileError ? `\n\n${error.message}` : '';
+        alert(`${t('projectFile.openFailed')}${detail}`);
+      }
+    },
+    [t]
+  );
 
   const handleClearProject = useCallback(async () => {
     const confirmed = window.confirm(t('dialogs.confirmDelete'));
@@ -83,19 +170,45 @@ export function Toolbar() {
         return;
       }
 
+      // Ctrl+S - Save project file
+      if (ctrl && !shift && event.key.toLowerCase() === 's') {
+        event.preventDefault();
+        handleSaveProject();
+        return;
+      }
+
+      // Ctrl+O - Open project file
+      if (ctrl && !shift && event.key.toLowerCase() === 'o') {
+        event.preventDefault();
+        handleOpenProject();
+        return;
+      }
+
+      // Ctrl+P - PDF plan export (instead of printing the editor UI)
+      if (ctrl && !shift && event.key.toLowerCase() === 'p') {
+        event.preventDefault();
+        setShowPdfExportDialog(true);
+        return;
+      }
+
+      // Ctrl+Shift+E - DXF Export
+      if (ctrl && shift && event.key.toLowerCase() === 'e') {
+        event.preventDefault();
+        setShowDxfExportDialog(true);
+        return;
+      }
+
       // Ctrl+E - IFC Export
       if (ctrl && !shift && event.key.toLowerCase() === 'e') {
         event.preventDefault();
-        if (!isExporting) {
-          handleExport();
-        }
+        setShowIfcExportDialog(true);
         return;
       }
     };
 
     window.addEventListener('keydown', handleKeyDown);
     return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [isExporting, handleExport]);
+  }, [handleSaveProject, handleOpenProject]);
 
   return (
     <div className="flex items-center gap-1 p-2 bg-background border-b overflow-x-auto scrollbar-hide">
@@ -105,12 +218,19 @@ export function Toolbar() {
         <ViewControlsGroup />
         <SnapControlsGroup />
         <PdfUnderlayGroup onOpenPdfDialog={() => setShowPdfDialog(true)} />
+        <DxfUnderlayGroup onOpenDxfDialog={() => setShowDxfImportDialog(true)} />
         <EditActionsGroup />
         <SpaceActionsGroup />
         <ProModeGroup />
         <ImportExportGroup
           isExporting={isExporting}
-          onExport={handleExport}
+          isSaving={isSaving}
+          onSaveProject={handleSaveProject}
+          onOpenProject={handleOpenProject}
+          onExport={() => setShowIfcExportDialog(true)}
+          onExportDxf={() => setShowDxfExportDialog(true)}
+          onExportPdf={() => setShowPdfExportDialog(true)}
+          onExportAssetRegister={() => setShowAssetRegisterDialog(true)}
           onOpenImportDialog={() => setShowImportDialog(true)}
           onOpenIfcImportDialog={() => setShowIfcImportDialog(true)}
         />
@@ -144,6 +264,11 @@ export function Toolbar() {
 
       {/* Project Actions */}
       <div className="flex items-center gap-1 border-l pl-2 ml-2 shrink-0">
+        <ActionButton
+          icon={<Library size={20} />}
+          label={t('projectLibrary.title')}
+          onClick={() => setShowProjectBrowser(true)}
+        />
         <ActionButton
           icon={<Trash2 size={20} className="text-destructive" />}
           label={t('toolbar.clearProject')}
@@ -151,6 +276,15 @@ export function Toolbar() {
         />
       </div>
 
+      {/* Hidden file input for opening project files */}
+      <input
+        ref={projectFileInputRef}
+        type="file"
+        accept={`${PROJECT_FILE_EXTENSION},application/json`}
+        onChange={handleProjectFileSelected}
+        className="hidden"
+      />
+
       {/* Dialogs */}
       <PdfCalibrationDialog
         open={showPdfDialog}
@@ -164,6 +298,28 @@ export function Toolbar() {
         open={showIfcImportDialog}
         onClose={() => setShowIfcImportDialog(false)}
       />
+      <ExportIfcDialog
+        open={showIfcExportDialog}
+        onClose={() => setShowIfcExportDialog(false)}
+        isExporting={isExporting}
+        onExport={handleExport}
+      />
+      <ExportDxfDialog
+        open={showDxfExportDialog}
+        onClose={() => setShowDxfExportDialog(false)}
+      />
+      <ExportPdfDialog
+        open={showPdfExportDialog}
+        onClose={() => setShowPdfExportDialog(false)}
+      />
+      <ExportAssetRegisterDialog
+        open={showAssetRegisterDialog}
+        onClose={() => setShowAssetRegisterDialog(false)}
+      />
+      <ImportDxfDialog
+        open={showDxfImportDialog}
+        onClose={() => setShowDxfImportDialog(false)}
+      />
       <SettingsDialog
         open={showSettingsDialog}
         onClose={() => setShowSettingsDialog(false)}
@@ -172,6 +328,10 @@ export function Toolbar() {
         open={showVisualizationDialog}
         onClose={() => setShowVisualizationDialog(false)}
       />
+      <ProjectBrowserDialog
+        open={showProjectBrowser}
+        onClose={() => setShowProjectBrowser(false)}
+      />
     </div>
   );
 }
@@ -2,6 +2,7 @@ import { useMemo, useRef, useEffect } from 'react';
 import { BoxGeometry, MeshStandardMaterial, Group, Euler, Mesh } from 'three';
 import { useElementStore } from '@/store';
 import type { BimElement } from '@/types/bim';
+import { DOOR_FRAME_WIDTH, DOOR_LEAF_THICKNESS } from '@/types/bim';
 import { DoorSwingArc } from './DoorSwingArc';
 import { useDragElement } from '../TransformGizmo';
 
@@ -18,9 +19,9 @@ const PANEL_COLOR = '#A0522D'; // Sienna (wood panel)
 const FRAME_COLOR_SELECTED = '#90caf9';
 const GHOST_COLOR = '#9e9e9e';
 
-const FRAME_WIDTH = 0.05; // Frame thickness
+const FRAME_WIDTH = DOOR_FRAME_WIDTH; // Frame thickness
 const FRAME_DEPTH = 0.04; // Frame depth
-const PANEL_THICKNESS = 0.04; // Door panel thickness
+const PANEL_THICKNESS = DOOR_LEAF_THICKNESS; // Door panel thickness
 
 export function DoorMesh({ element, selected, isGhost = false, ghostOpacity = 0.25 }: DoorMeshProps) {
   const groupRef = useRef<Group>(null);
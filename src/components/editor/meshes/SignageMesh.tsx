@@ -0,0 +1,86 @@
+import { useMemo, useRef, useEffect } from 'react';
+import { Mesh, BoxGeometry, CylinderGeometry, MeshStandardMaterial } from 'three';
+import type { BimElement } from '@/types/bim';
+import {
+  EXIT_SIGN_WIDTH,
+  EXIT_SIGN_HEIGHT,
+  EXIT_SIGN_DEPTH,
+  EMERGENCY_LIGHT_SIZE,
+  EMERGENCY_LIGHT_DEPTH,
+} from '@/bim/elements/Signage';
+import { useDragElement } from '../TransformGizmo';
+
+interface SignageMeshProps {
+  element: BimElement;
+  selected: boolean;
+  isGhost?: boolean;
+  ghostOpacity?: number;
+}
+
+// Material colors
+const EXIT_SIGN_COLOR = '#00a651';
+const EMERGENCY_LIGHT_COLOR = '#f5f5f5';
+const SIGNAGE_COLOR_SELECTED = '#90caf9';
+const GHOST_COLOR = '#9e9e9e';
+
+export function SignageMesh({ element, selected, isGhost = false, ghostOpacity = 0.25 }: SignageMeshProps) {
+  const meshRef = useRef<Mesh>(null);
+  const { handlers } = useDragElement(element);
+  const effectiveHandlers = isGhost ? {} : handlers;
+
+  // Disable raycasting for ghost elements so they don't block clicks on active storey
+  useEffect(() => {
+    if (meshRef.current && isGhost) {
+      meshRef.current.raycast = () => {};
+    }
+  }, [isGhost]);
+
+  const { signageData, placement } = element;
+  const kind = signageData?.kind;
+
+  // Exit sign: panel across the walking direction (local x), luminaire: flat disc on the ceiling
+  const geometry = useMemo(() => {
+    if (!kind) return null;
+
+    if (kind === 'emergencyLight') {
+      const geo = new CylinderGeometry(EMERGENCY_LIGHT_SIZE / 2, EMERGENCY_LIGHT_SIZE / 2, EMERGENCY_LIGHT_DEPTH, 16);
+      geo.rotateX(Math.PI / 2); // Rotate so the disc lies in the XY plane
+      return geo;
+    }
+    return new BoxGeometry(EXIT_SIGN_DEPTH, EXIT_SIGN_WIDTH, EXIT_SIGN_HEIGHT);
+  }, [kind]);
+
+  const material = useMemo(() => {
+    if (isGhost) {
+      return new MeshStandardMaterial({
+        color: GHOST_COLOR,
+        transparent: true,
+        opacity: ghostOpacity,
+        depthWrite: false,
+      });
+    }
+    const color = kind === 'exitSign' ? EXIT_SIGN_COLOR : EMERGENCY_LIGHT_COLOR;
+    return new MeshStandardMaterial({
+      color: selected ? SIGNAGE_COLOR_SELECTED : color,
+      // Self-luminous, readable in dark scenes
+      emissive: color,
+      emissiveIntensity: selected ? 0.2 : 0.5,
+      roughness: 0.5,
+    });
+  }, [kind, selected, isGhost, ghostOpacity]);
+
+  if (!geometry || !signageData) return null;
+
+  return (
+    <mesh
+      ref={meshRef}
+      geometry={geometry}
+      material={material}
+      position={[placement.position.x, placement.position.y, placement.position.z + signageData.mountingHeight]}
+      rotation={[0, 0, signageData.rotation]}
+      {...effectiveHandlers}
+      castShadow={false}
+      renderOrder={isGhost ? -1 : 0}
+    />
+  );
+}
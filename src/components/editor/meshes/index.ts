@@ -8,5 +8,6 @@ export { CounterMesh } from './CounterMesh';
 export { FurnitureMesh } from './FurnitureMesh';
 export { SpaceMesh, SpaceLabel } from './SpaceMesh';
 export { StairMesh, StairPreviewMesh } from './StairMesh';
+export { SignageMesh } from './SignageMesh';
 export { DimensionLabel, DimensionLine3D } from './DimensionLabel';
 export { MeasurementMesh, PreviewMeasurement } from './MeasurementMesh';
@@ -0,0 +1,45 @@
+import { PenTool, Eye, EyeOff } from 'lucide-react';
+import { useTranslation } from 'react-i18next';
+import { useDxfUnderlayStore } from '@/store';
+import { cn } from '@/lib/utils';
+
+interface DxfUnderlayGroupProps {
+  onOpenDxfDialog: () => void;
+}
+
+export function DxfUnderlayGroup({ onOpenDxfDialog }: DxfUnderlayGroupProps) {
+  const { t } = useTranslation();
+  const { document, isVisible: dxfVisible, toggleVisible: toggleDxfVisible } = useDxfUnderlayStore();
+  const hasDxf = document !== null;
+
+  return (
+    <div className="flex items-center gap-1 border-r pr-2 mr-2">
+      <button
+        onClick={onOpenDxfDialog}
+        className={cn(
+          'flex flex-col items-center justify-center p-2 rounded-md transition-colors',
+          'hover:bg-accent hover:text-accent-foreground',
+          hasDxf && 'bg-accent'
+        )}
+        title={t('dxf.loadDxf')}
+      >
+        <PenTool size={20} />
+        <span className="text-xs mt-1">DXF</span>
+      </button>
+      {hasDxf && (
+        <button
+          onClick={toggleDxfVisible}
+          className={cn(
+            'flex flex-col items-center justify-center p-2 rounded-md transition-colors',
+            'hover:bg-accent hover:text-accent-foreground',
+            dxfVisible && 'bg-accent'
+          )}
+          title={t('dxf.toggleDxf')}
+        >
+          {dxfVisible ? <Eye size={20} /> : <EyeOff size={20} />}
+          <span className="text-xs mt-1">{dxfVisible ? t('pdf.on') : t('pdf.off')}</span>
+        </button>
+      )}
+    </div>
+  );
+}
@@ -1,7 +1,10 @@
-import { Undo, Redo, Trash2 } from 'lucide-react';
+import { useState } from 'react';
+import { Undo, Redo, Trash2, History } from 'lucide-react';
 import { useTranslation } from 'react-i18next';
 import { useSelectionStore, useElementStore } from '@/store';
 import { useHistory } from '@/hooks';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/Popover';
+import { HistoryPanel } from '@/components/panels/HistoryPanel';
 import { ActionButton } from './ToolbarButtons';
 
 export function EditActionsGroup() {
@@ -9,6 +12,7 @@ export function EditActionsGroup() {
   const { getSelectedIds, clearSelection } = useSelectionStore();
   const { removeElements } = useElementStore();
   const { undo, redo, canUndo, canRedo } = useHistory();
+  const [showHistory, setShowHistory] = useState(false);
 
   const selectedIds = getSelectedIds();
   const hasSelection = selectedIds.length > 0;
@@ -36,6 +40,20 @@ export function EditActionsGroup() {
         disabled={!canRedo}
         shortcut="Ctrl+Y"
       />
+      <Popover open={showHistory} onOpenChange={setShowHistory}>
+        <PopoverTrigger asChild>
+          <button
+            className="flex flex-col items-center justify-center p-2 rounded-md transition-colors hover:bg-accent hover:text-accent-foreground"
+            title={t('history.title')}
+          >
+            <History size={20} />
+            <span className="text-xs mt-1">{t('history.title')}</span>
+          </button>
+        </PopoverTrigger>
+        <PopoverContent className="w-72" align="start">
+          <HistoryPanel />
+        </PopoverContent>
+      </Popover>
       <ActionButton
         icon={<Trash2 size={20} />}
         label={t('edit.delete')}
@@ -5,9 +5,15 @@
  */
 
 import { useState } from 'react';
-import { Users, Play, Square, RotateCcw, Settings } from 'lucide-react';
+import { Users, Play, Square, RotateCcw, Settings, BarChart3 } from 'lucide-react';
 import { useTranslation } from 'react-i18next';
 import { ActionButton } from './ToolbarButtons';
+import { Button } from '@/components/ui/Button';
+import { OccupancySummary } from './OccupancySummary';
+import { EvacuationReportDialog } from '@/components/panels/EvacuationReportDialog';
+import { AgentProfilesDialog } from '@/components/panels/AgentProfilesDialog';
+import { EvacuationScenariosDialog } from '@/components/panels/EvacuationScenariosDialog';
+import { SignagePlannerDialog } from '@/components/panels/SignagePlannerDialog';
 import { useEvacuationStore } from '@/store/useEvacuationStore';
 import { useElementStore } from '@/store/useElementStore';
 import { useProjectStore } from '@/store/useProjectStore';
@@ -20,14 +26,16 @@ import {
 export function EvacuationGroup() {
   const { t } = useTranslation();
   const [showSettings, setShowSettings] = useState(false);
+  const [showReport, setShowReport] = useState(false);
+  const [showProfiles, setShowProfiles] = useState(false);
+  const [showScenarios, setShowScenarios] = useState(false);
+  const [showSignage, setShowSignage] = useState(false);
 
   const {
     isRunning,
     startSimulation,
     stopSimulation,
     reset,
-    agentsPerSpace,
-    setAgentsPerSpace,
     agentSpeed,
     setAgentSpeed,
     stats,
@@ -100,22 +108,8 @@ export function EvacuationGroup() {
               {t('evacuation.title')}
             </div>
 
-            {/* Agents per space */}
-            <div className="flex flex-col gap-1">
-              <label className="text-xs text-muted-foreground">
-                {t('evacuation.agentsPerSpace')}
-              </label>
-              <input
-                type="range"
-                min={1}
-                max={20}
-                value={agentsPerSpace}
-                onChange={(e) => setAgentsPerSpace(parseInt(e.target.value))}
-                disabled={isRunning}
-                className="w-full"
-              />
-              <div className="text-xs text-right">{agentsPerSpace}</div>
-            </div>
+            {/* Design occupancy (spawn count) */}
+            <OccupancySummary />
 
             {/* Agent speed */}
             <div className="flex flex-col gap-1">
@@ -135,6 +129,37 @@ export function EvacuationGroup() {
               <div className="text-xs text-right">{agentSpeed.toFixed(1)} m/s</div>
             </div>
 
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => {
+                setShowSettings(false);
+                setShowProfiles(true);
+              }}
+            >
+              {t('agentProfiles.title')}
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => {
+                setShowSettings(false);
+                setShowScenarios(true);
+              }}
+            >
+              {t('evacuationScenarios.title')}
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => {
+                setShowSettings(false);
+                setShowSignage(true);
+              }}
+            >
+              {t('signage.title')}
+            </Button>
+
             {/* Stats */}
             {stats.totalAgents > 0 && (
               <div className="border-t pt-2 mt-2">
@@ -144,6 +169,18 @@ export function EvacuationGroup() {
                     <span>{t('evacuation.evacuated')}</span>
                     <span>{stats.exitedAgents} / {stats.totalAgents}</span>
                   </div>
+                  {stats.trappedAgents > 0 && (
+                    <div className="flex justify-between text-red-600">
+                      <span>{t('evacuationScenarios.trapped')}</span>
+                      <span>{stats.trappedAgents}</span>
+                    </div>
+                  )}
+                  {stats.refugeAgents > 0 && (
+                    <div className="flex justify-between">
+                      <span>{t('agentProfiles.atRefuge')}</span>
+                      <span>{stats.refugeAgents}</span>
+                    </div>
+                  )}
                   <div className="flex justify-between">
                     <span>{t('evacuation.time')}</span>
                     <span>{stats.elapsedTime.toFixed(1)}s</span>
@@ -167,6 +204,17 @@ export function EvacuationGroup() {
         </PopoverContent>
       </Popover>
 
+      {/* Simulation Results Report */}
+      <ActionButton
+        icon={<BarChart3 size={20} />}
+        label={t('evacuationReport.title')}
+        onClick={() => setShowReport(true)}
+      />
+      <EvacuationReportDialog open={showReport} onClose={() => setShowReport(false)} />
+      <AgentProfilesDialog open={showProfiles} onClose={() => setShowProfiles(false)} />
+      <EvacuationScenariosDialog open={showScenarios} onClose={() => setShowScenarios(false)} />
+      <SignagePlannerDialog open={showSignage} onClose={() => setShowSignage(false)} />
+
       {/* Live Stats Display */}
       {stats.totalAgents > 0 && (
         <div className="flex items-center gap-2 ml-2 px-2 py-1 bg-muted rounded text-xs">
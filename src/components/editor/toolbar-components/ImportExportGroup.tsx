@@ -1,17 +1,29 @@
-import { Upload, FileUp, Download, Loader2 } from 'lucide-react';
+import { Upload, FileUp, Download, Loader2, Save, FolderOpen, FileOutput, Printer, FileSpreadsheet } from 'lucide-react';
 import { useTranslation } from 'react-i18next';
 import { ActionButton } from './ToolbarButtons';
 
 interface ImportExportGroupProps {
   isExporting: boolean;
+  isSaving: boolean;
+  onSaveProject: () => void;
+  onOpenProject: () => void;
   onExport: () => void;
+  onExportDxf: () => void;
+  onExportPdf: () => void;
+  onExportAssetRegister: () => void;
   onOpenImportDialog: () => void;
   onOpenIfcImportDialog: () => void;
 }
 
 export function ImportExportGroup({
   isExporting,
+  isSaving,
+  onSaveProject,
+  onOpenProject,
   onExport,
+  onExportDxf,
+  onExportPdf,
+  onExportAssetRegister,
   onOpenImportDialog,
   onOpenIfcImportDialog,
 }: ImportExportGroupProps) {
@@ -19,6 +31,19 @@ export function ImportExportGroup({
 
   return (
     <div className="flex items-center gap-1">
+      <ActionButton
+        icon={<FolderOpen size={20} />}
+        label={t('projectFile.open')}
+        onClick={onOpenProject}
+        shortcut="Ctrl+O"
+      />
+      <ActionButton
+        icon={isSaving ? <Loader2 size={20} className="animate-spin" /> : <Save size={20} />}
+        label={isSaving ? t('projectFile.saving') : t('projectFile.save')}
+        onClick={onSaveProject}
+        disabled={isSaving}
+        shortcut="Ctrl+S"
+      />
       <ActionButton
         icon={<Upload size={20} />}
         label={t('import.model')}
@@ -38,6 +63,23 @@ export function ImportExportGroup({
         disabled={isExporting}
         shortcut="Ctrl+E"
       />
+      <ActionButton
+        icon={<FileOutput size={20} />}
+        label={t('export.dxf')}
+        onClick={onExportDxf}
+        shortcut="Ctrl+Shift+E"
+      />
+      <ActionButton
+        icon={<Printer size={20} />}
+        label={t('export.pdf')}
+        onClick={onExportPdf}
+        shortcut="Ctrl+P"
+      />
+      <ActionButton
+        icon={<FileSpreadsheet size={20} />}
+        label={t('export.assetRegister')}
+        onClick={onExportAssetRegister}
+      />
     </div>
   );
 }
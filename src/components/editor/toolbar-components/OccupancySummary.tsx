@@ -0,0 +1,42 @@
+/**
+ * Design occupancy per storey, shown in the evacuation settings
+ */
+
+import { useMemo } from 'react';
+import { useTranslation } from 'react-i18next';
+import { useElementStore, useProjectStore } from '@/store';
+import { calculateOccupancy, getStoreyOccupancy } from '@/bim/spaces';
+
+export function OccupancySummary() {
+  const { t } = useTranslation();
+  const elements = useElementStore((state) => state.elements);
+  const storeys = useProjectStore((state) => state.storeys);
+
+  const byStorey = useMemo(
+    () => getStoreyOccupancy(calculateOccupancy(Array.from(elements.values()))),
+    [elements]
+  );
+  const total = Array.from(byStorey.values()).reduce((sum, count) => sum + count, 0);
+
+  return (
+    <div className="flex flex-col gap-1">
+      <label className="text-xs text-muted-foreground">{t('evacuation.designOccupancy')}</label>
+      <div className="text-xs space-y-0.5">
+        {[...storeys]
+          .sort((a, b) => a.elevation - b.elevation)
+          .filter((storey) => byStorey.has(storey.id))
+          .map((storey) => (
+            <div key={storey.id} className="flex justify-between">
+              <span className="truncate">{storey.name}</span>
+              <span>{t('evacuation.persons', { count: byStorey.get(storey.id) })}</span>
+            </div>
+          ))}
+        <div className="flex justify-between font-medium border-t pt-0.5">
+          <span>{t('evacuation.total')}</span>
+          <span>{t('evacuation.persons', { count: total })}</span>
+        </div>
+      </div>
+      <p className="text-xs text-muted-foreground">{t('evacuation.occupancyHint')}</p>
+    </div>
+  );
+}
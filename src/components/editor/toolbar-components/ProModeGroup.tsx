@@ -3,9 +3,10 @@
  *
  * Controls for activating PRO mode and toggling modules.
  * Includes evacuation simulation when fire-safety module is active.
+ * User-defined modules are managed in the module registry.
  */
 
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import { useTranslation } from 'react-i18next';
 import { Button } from '@/components/ui/Button';
 import {
@@ -18,8 +19,36 @@ import {
   Users,
   Brush,
   ClipboardList,
+  ListChecks,
+  BarChart3,
+  BrickWall,
+  Wrench,
+  CalendarClock,
+  Zap,
+  Gauge,
+  Calculator,
+  Receipt,
+  CalendarRange,
+  ShieldPlus,
+  Route,
+  Blocks,
+  Table,
 } from 'lucide-react';
 import { CleaningPlanOverview } from '@/components/panels/CleaningPlanOverview';
+import { CleaningScheduleDialog } from '@/components/panels/CleaningScheduleDialog';
+import { EgressCheckPanel } from '@/components/panels/EgressCheckPanel';
+import { EvacuationReportDialog } from '@/components/panels/EvacuationReportDialog';
+import { AgentProfilesDialog } from '@/components/panels/AgentProfilesDialog';
+import { EvacuationScenariosDialog } from '@/components/panels/EvacuationScenariosDialog';
+import { SignagePlannerDialog } from '@/components/panels/SignagePlannerDialog';
+import { FireCompartmentsDialog } from '@/components/panels/FireCompartmentsDialog';
+import { MaintenanceScheduleDialog } from '@/components/panels/MaintenanceScheduleDialog';
+import { ElectricalLoadDialog } from '@/components/panels/ElectricalLoadDialog';
+import { QuantityTakeoffDialog } from '@/components/panels/QuantityTakeoffDialog';
+import { HygieneCheckDialog } from '@/components/panels/HygieneCheckDialog';
+import { ModuleRegistryDialog } from '@/components/panels/ModuleRegistryDialog';
+import { CustomModuleOverviewDialog } from '@/components/panels/CustomModuleOverviewDialog';
+import { CustomModuleIcon } from '@/components/panels/CustomModuleIcon';
 import { useProModeStore, useElementStore, useProjectStore } from '@/store';
 import { useEvacuationStore } from '@/store/useEvacuationStore';
 import { cn } from '@/lib/utils';
@@ -29,11 +58,25 @@ import {
   PopoverTrigger,
 } from '@/components/ui/Popover';
 import { ActionButton } from './ToolbarButtons';
+import { OccupancySummary } from './OccupancySummary';
 
 export const ProModeGroup: React.FC = () => {
   const { t } = useTranslation();
   const [showSettings, setShowSettings] = useState(false);
   const [showCleaningPlan, setShowCleaningPlan] = useState(false);
+  const [showCleaningSchedule, setShowCleaningSchedule] = useState(false);
+  const [showEgressCheck, setShowEgressCheck] = useState(false);
+  const [showReport, setShowReport] = useState(false);
+  const [showProfiles, setShowProfiles] = useState(false);
+  const [showScenarios, setShowScenarios] = useState(false);
+  const [showSignage, setShowSignage] = useState(false);
+  const [showCompartments, setShowCompartments] = useState(false);
+  const [showMaintenance, setShowMaintenance] = useState(false);
+  const [showElectrical, setShowElectrical] = useState(false);
+  const [showTakeoff, setShowTakeoff] = useState(false);
+  const [showHygiene, setShowHygiene] = useState(false);
+  const [showRegistry, setShowRegistry] = useState(false);
+  const [showCustomOverview, setShowCustomOverview] = useState(false);
 
   // PRO Mode state
   const isProMode = useProModeStore((state) => state.isProMode);
@@ -44,6 +87,7 @@ export const ProModeGroup: React.FC = () => {
   const toggleModule = useProModeStore((state) => state.toggleModule);
   const setActiveModule = useProModeStore((state) => state.setActiveModule);
   const isModuleEnabled = useProModeStore((state) => state.isModuleEnabled);
+  const syncCustomModules = useProModeStore((state) => state.syncCustomModules);
 
   // Evacuation state
   const {
@@ -51,15 +95,18 @@ export const ProModeGroup: React.FC = () => {
     startSimulation,
     stopSimulation,
     reset,
-    agentsPerSpace,
-    setAgentsPerSpace,
     agentSpeed,
     setAgentSpeed,
     stats,
   } = useEvacuationStore();
 
   const { getElementsByType } = useElementStore();
-  const { storeys } = useProjectStore();
+  const { storeys, customModules } = useProjectStore();
+
+  // Keep the module list in sync with the user-defined modules of the project
+  useEffect(() => {
+    syncCustomModules(customModules);
+  }, [customModules, syncCustomModules]);
 
   const handleStartSimulation = () => {
     const spaces = getElementsByType('space');
@@ -89,13 +136,29 @@ export const ProModeGroup: React.FC = () => {
         return <Flame className="w-4 h-4" />;
       case 'Brush':
         return <Brush className="w-4 h-4" />;
+      case 'Wrench':
+        return <Wrench className="w-4 h-4" />;
+      case 'Zap':
+        return <Zap className="w-4 h-4" />;
+      case 'Calculator':
+        return <Calculator className="w-4 h-4" />;
+      case 'ShieldPlus':
+        return <ShieldPlus className="w-4 h-4" />;
       default:
-        return null;
+        return <CustomModuleIcon name={iconName} className="w-4 h-4" />;
     }
   };
 
   const isFireSafetyActive = isModuleEnabled('fire-safety') && activeModule === 'fire-safety';
   const isCleaningActive = isModuleEnabled('cleaning') && activeModule === 'cleaning';
+  const isMaintenanceActive = isModuleEnabled('maintenance') && activeModule === 'maintenance';
+  const isElectricalActive = isModuleEnabled('electrical') && activeModule === 'electrical';
+  const isQuantitiesActive = isModuleEnabled('quantities') && activeModule === 'quantities';
+  const isHygieneActive = isModuleEnabled('hygiene') && activeModule === 'hygiene';
+  const activeCustomModule =
+    activeModule?.startsWith('custom:') && isModuleEnabled(activeModule)
+      ? customModules.find((module) => module.id === activeModule)
+      : undefined;
 
   return (
     <div className="flex items-center gap-2 border-l pl-2 ml-2">
@@ -137,7 +200,12 @@ export const ProModeGroup: React.FC = () => {
               'flex items-center gap-2 transition-all',
               activeModule === module.id && 'ring-2 ring-offset-2',
               module.id === 'fire-safety' && activeModule === module.id && 'ring-orange-500',
-              module.id === 'cleaning' && activeModule === module.id && 'ring-blue-500'
+              module.id === 'cleaning' && activeModule === module.id && 'ring-blue-500',
+              module.id === 'maintenance' && activeModule === module.id && 'ring-emerald-500',
+              module.id === 'electrical' && activeModule === module.id && 'ring-yellow-500',
+              module.id === 'quantities' && activeModule === module.id && 'ring-violet-500',
+              module.id === 'hygiene' && activeModule === module.id && 'ring-teal-500',
+              module.id.startsWith('custom:') && activeModule === module.id && 'ring-slate-500'
             )}
             title={module.description}
           >
@@ -146,6 +214,20 @@ export const ProModeGroup: React.FC = () => {
           </Button>
         ))}
 
+      {/* Module Registry */}
+      {isProMode && (
+        <>
+          <button
+            className="p-2 rounded hover:bg-accent transition-colors"
+            title={t('customModules.manage')}
+            onClick={() => setShowRegistry(true)}
+          >
+            <Blocks size={20} />
+          </button>
+          <ModuleRegistryDialog open={showRegistry} onClose={() => setShowRegistry(false)} />
+        </>
+      )}
+
       {/* Evacuation Simulation Controls - only visible when fire-safety is active */}
       {isFireSafetyActive && (
         <>
@@ -189,21 +271,7 @@ export const ProModeGroup: React.FC = () => {
                     {t('evacuation.title')}
                   </div>
 
-                  <div className="flex flex-col gap-1">
-                    <label className="text-xs text-muted-foreground">
-                      {t('evacuation.agentsPerSpace')}
-                    </label>
-                    <input
-                      type="range"
-                      min={1}
-                      max={20}
-                      value={agentsPerSpace}
-                      onChange={(e) => setAgentsPerSpace(parseInt(e.target.value))}
-                      disabled={isRunning}
-                      className="w-full"
-                    />
-                    <div className="text-xs text-right">{agentsPerSpace}</div>
-                  </div>
+                  <OccupancySummary />
 
                   <div className="flex flex-col gap-1">
                     <label className="text-xs text-muted-foreground">
@@ -222,6 +290,37 @@ export const ProModeGroup: React.FC = () => {
                     <div className="text-xs text-right">{agentSpeed.toFixed(1)} m/s</div>
                   </div>
 
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => {
+                      setShowSettings(false);
+                      setShowProfiles(true);
+                    }}
+                  >
+                    {t('agentProfiles.title')}
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => {
+                      setShowSettings(false);
+                      setShowScenarios(true);
+                    }}
+                  >
+                    {t('evacuationScenarios.title')}
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => {
+                      setShowSettings(false);
+                      setShowSignage(true);
+                    }}
+                  >
+                    {t('signage.title')}
+                  </Button>
+
                   {stats.totalAgents > 0 && (
                     <div className="border-t pt-2 mt-2">
                       <div className="text-xs font-medium mb-1">{t('evacuation.statistics')}</div>
@@ -230,6 +329,18 @@ export const ProModeGroup: React.FC = () => {
                           <span>{t('evacuation.evacuated')}</span>
                           <span>{stats.exitedAgents} / {stats.totalAgents}</span>
                         </div>
+                        {stats.trappedAgents > 0 && (
+                          <div className="flex justify-between text-red-600">
+                            <span>{t('evacuationScenarios.trapped')}</span>
+                            <span>{stats.trappedAgents}</span>
+                          </div>
+                        )}
+                        {stats.refugeAgents > 0 && (
+                          <div className="flex justify-between">
+                            <span>{t('agentProfiles.atRefuge')}</span>
+                            <span>{stats.refugeAgents}</span>
+                          </div>
+                        )}
                         <div className="flex justify-between">
                           <span>{t('evacuation.time')}</span>
                           <span>{stats.elapsedTime.toFixed(1)}s</span>
@@ -251,6 +362,44 @@ export const ProModeGroup: React.FC = () => {
                 </div>
               </PopoverContent>
             </Popover>
+
+            {/* Egress Code Check */}
+            <Popover open={showEgressCheck} onOpenChange={setShowEgressCheck}>
+              <PopoverTrigger asChild>
+                <button
+                  className="p-2 rounded hover:bg-accent transition-colors"
+                  title={t('egress.title')}
+                >
+                  <ListChecks size={20} />
+                </button>
+              </PopoverTrigger>
+              <PopoverContent className="w-80" align="end">
+                <div className="font-semibold text-sm flex items-center gap-2 mb-3">
+                  <ListChecks size={16} />
+                  {t('egress.title')}
+                </div>
+                <EgressCheckPanel />
+              </PopoverContent>
+            </Popover>
+
+            {/* Fire Compartments */}
+            <ActionButton
+              icon={<BrickWall size={20} />}
+              label={t('fireCompartments.title')}
+              onClick={() => setShowCompartments(true)}
+            />
+            <FireCompartmentsDialog open={showCompartments} onClose={() => setShowCompartments(false)} />
+
+            {/* Simulation Results Report */}
+            <ActionButton
+              icon={<BarChart3 size={20} />}
+              label={t('evacuationReport.title')}
+              onClick={() => setShowReport(true)}
+            />
+            <EvacuationReportDialog open={showReport} onClose={() => setShowReport(false)} />
+            <AgentProfilesDialog open={showProfiles} onClose={() => setShowProfiles(false)} />
+            <EvacuationScenariosDialog open={showScenarios} onClose={() => setShowScenarios(false)} />
+            <SignagePlannerDialog open={showSignage} onClose={() => setShowSignage(false)} />
           </div>
 
           {/* Live Stats Display */}
@@ -294,6 +443,100 @@ export const ProModeGroup: React.FC = () => {
               </div>
             </PopoverContent>
           </Popover>
+          <Button
+            variant="outline"
+            size="sm"
+            className="flex items-center gap-2"
+            onClick={() => setShowCleaningSchedule(true)}
+          >
+            <CalendarRange size={16} />
+            {t('cleaningSchedule.title')}
+          </Button>
+          <CleaningScheduleDialog open={showCleaningSchedule} onClose={() => setShowCleaningSchedule(false)} />
+        </div>
+      )}
+
+      {/* Maintenance & Service Module Controls */}
+      {isMaintenanceActive && (
+        <div className="border-l pl-2 ml-1 flex items-center gap-1">
+          <Button
+            variant="outline"
+            size="sm"
+            className="flex items-center gap-2"
+            onClick={() => setShowMaintenance(true)}
+          >
+            <CalendarClock size={16} />
+            {t('maintenance.title')}
+          </Button>
+          <MaintenanceScheduleDialog open={showMaintenance} onClose={() => setShowMaintenance(false)} />
+        </div>
+      )}
+
+      {/* Electrical & Energy Module Controls */}
+      {isElectricalActive && (
+        <div className="border-l pl-2 ml-1 flex items-center gap-1">
+          <Button
+            variant="outline"
+            size="sm"
+            className="flex items-center gap-2"
+            onClick={() => setShowElectrical(true)}
+          >
+            <Gauge size={16} />
+            {t('electrical.title')}
+          </Button>
+          <ElectricalLoadDialog open={showElectrical} onClose={() => setShowElectrical(false)} />
+        </div>
+      )}
+
+      {/* Quantities & Costs Module Controls */}
+      {isQuantitiesActive && (
+        <div className="border-l pl-2 ml-1 flex items-center gap-1">
+          <Button
+            variant="outline"
+            size="sm"
+            className="flex items-center gap-2"
+            onClick={() => setShowTakeoff(true)}
+          >
+            <Receipt size={16} />
+            {t('quantities.title')}
+          </Button>
+          <QuantityTakeoffDialog open={showTakeoff} onClose={() => setShowTakeoff(false)} />
+        </div>
+      )}
+
+      {/* Hygiene (HACCP) Module Controls */}
+      {isHygieneActive && (
+        <div className="border-l pl-2 ml-1 flex items-center gap-1">
+          <Button
+            variant="outline"
+            size="sm"
+            className="flex items-center gap-2"
+            onClick={() => setShowHygiene(true)}
+          >
+            <Route size={16} />
+            {t('hygiene.title')}
+          </Button>
+          <HygieneCheckDialog open={showHygiene} onClose={() => setShowHygiene(false)} />
+        </div>
+      )}
+
+      {/* User-defined Module Controls */}
+      {activeCustomModule && (
+        <div className="border-l pl-2 ml-1 flex items-center gap-1">
+          <Button
+            variant="outline"
+            size="sm"
+            className="flex items-center gap-2"
+            onClick={() => setShowCustomOverview(true)}
+          >
+            <Table size={16} />
+            {t('customModules.overview')}
+          </Button>
+          <CustomModuleOverviewDialog
+            definition={activeCustomModule}
+            open={showCustomOverview}
+            onClose={() => setShowCustomOverview(false)}
+          />
         </div>
       )}
     </div>
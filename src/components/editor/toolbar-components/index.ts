@@ -3,6 +3,7 @@ export { ToolSelectionGroup } from './ToolSelectionGroup';
 export { ViewControlsGroup } from './ViewControlsGroup';
 export { SnapControlsGroup } from './SnapControlsGroup';
 export { PdfUnderlayGroup } from './PdfUnderlayGroup';
+export { DxfUnderlayGroup } from './DxfUnderlayGroup';
 export { EditActionsGroup } from './EditActionsGroup';
 export { SpaceActionsGroup } from './SpaceActionsGroup';
 export { ImportExportGroup } from './ImportExportGroup';
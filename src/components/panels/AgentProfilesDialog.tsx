@@ -0,0 +1,150 @@
+import { useTranslation } from 'react-i18next';
+import {
+  Dialog,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogContent,
+  DialogFooter,
+} from '@/components/ui/Dialog';
+import { Button } from '@/components/ui/Button';
+import { useEvacuationStore } from '@/store/useEvacuationStore';
+import { AGENT_PROFILE_IDS, AGENT_PROFILE_COLORS, type AgentProfile } from '@/lib/evacuation/profiles';
+import { GASTRO_SPACE_LABELS, type GastroSpaceCategory } from '@/types/bim';
+
+interface AgentProfilesDialogProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+const PROFILE_VALUES: { key: keyof Pick<AgentProfile, 'speedFactor' | 'radius' | 'stairSpeedFactor'>; step: number }[] = [
+  { key: 'speedFactor', step: 0.05 },
+  { key: 'radius', step: 0.05 },
+  { key: 'stairSpeedFactor', step: 0.05 },
+];
+
+/**
+ * Agent profiles (speed, size, stair behaviour) and their mix per space category
+ */
+export function AgentProfilesDialog({ open, onClose }: AgentProfilesDialogProps) {
+  const { t } = useTranslation();
+  const { agentProfiles, agentMix, isRunning, updateAgentProfile, setAgentMixShare, resetAgentProfiles } =
+    useEvacuationStore();
+
+  const categories = Object.keys(GASTRO_SPACE_LABELS) as GastroSpaceCategory[];
+
+  return (
+    <Dialog open={open} onClose={onClose} size="lg">
+      <DialogHeader>
+        <DialogTitle>{t('agentProfiles.title')}</DialogTitle>
+        <DialogDescription>{t('agentProfiles.description')}</DialogDescription>
+      </DialogHeader>
+
+      <DialogContent>
+        <div className="space-y-4 max-h-[60vh] overflow-y-auto text-sm">
+          <div className="border rounded-lg p-4 space-y-2">
+            <h3 className="text-sm font-medium text-gray-700">{t('agentProfiles.profiles')}</h3>
+            <table className="w-full text-xs">
+              <thead className="text-muted-foreground">
+                <tr>
+                  <th className="text-left font-normal" />
+                  {PROFILE_VALUES.map(({ key }) => (
+                    <th key={key} className="text-right font-normal">
+                      {t(`agentProfiles.values.${key}`)}
+                    </th>
+                  ))}
+                  <th className="text-center font-normal">{t('agentProfiles.values.refusesStairs')}</th>
+                </tr>
+              </thead>
+              <tbody>
+                {AGENT_PROFILE_IDS.map((id) => {
+                  const profile = agentProfiles[id];
+                  return (
+                    <tr key={id}>
+                      <td className="py-0.5">
+                        <span className="inline-flex items-center gap-2">
+                          <span className="w-2.5 h-2.5 rounded-full" style={{ background: AGENT_PROFILE_COLORS[id] }} />
+                          {t(`agentProfiles.profile.${id}`)}
+                        </span>
+                      </td>
+                      {PROFILE_VALUES.map(({ key, step }) => (
+                        <td key={key} className="text-right">
+                          <input
+                            type="number"
+                            min={0}
+                            step={step}
+                            value={profile[key]}
+                            onChange={(e) => updateAgentProfile(id, { [key]: Math.max(0, parseFloat(e.target.value) || 0) })}
+                            disabled={isRunning}
+                            className="w-16 border rounded px-1 py-0.5 text-right"
+                          />
+                        </td>
+                      ))}
+                      <td className="text-center">
+                        <input
+                          type="checkbox"
+                          checked={profile.refusesStairs}
+                          onChange={(e) => updateAgentProfile(id, { refusesStairs: e.target.checked })}
+                          disabled={isRunning}
+                          className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                        />
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+            <p className="text-xs text-muted-foreground">{t('agentProfiles.refugeHint')}</p>
+          </div>
+
+          <div className="border rounded-lg p-4 space-y-2">
+            <h3 className="text-sm font-medium text-gray-700">{t('agentProfiles.mix')}</h3>
+            <table className="w-full text-xs">
+              <thead className="text-muted-foreground">
+                <tr>
+                  <th className="text-left font-normal" />
+                  {AGENT_PROFILE_IDS.map((id) => (
+                    <th key={id} className="text-right font-normal">
+                      {t(`agentProfiles.profile.${id}`)}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {categories.map((category) => (
+                  <tr key={category}>
+                    <td className="py-0.5">{GASTRO_SPACE_LABELS[category]}</td>
+                    {AGENT_PROFILE_IDS.map((id) => (
+                      <td key={id} className="text-right">
+                        <input
+                          type="number"
+                          min={0}
+                          max={100}
+                          step={1}
+                          value={Math.round((agentMix[category][id] ?? 0) * 100)}
+                          onChange={(e) => setAgentMixShare(category, id, (parseFloat(e.target.value) || 0) / 100)}
+                          disabled={isRunning}
+                          className="w-14 border rounded px-1 py-0.5 text-right"
+                        />
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            <p className="text-xs text-muted-foreground">{t('agentProfiles.mixHint')}</p>
+          </div>
+        </div>
+      </DialogContent>
+
+      <DialogFooter>
+        <Button variant="ghost" onClick={resetAgentProfiles} disabled={isRunning}>
+          {t('agentProfiles.reset')}
+        </Button>
+        <Button variant="primary" onClick={onClose}>
+          {t('dialogs.close')}
+        </Button>
+      </DialogFooter>
+    </Dialog>
+  );
+}
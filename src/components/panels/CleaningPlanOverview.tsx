@@ -53,7 +53,7 @@ export const CleaningPlanOverview: React.FC = () => {
 
   // Collect all spaces with cleaning data
   const spacesInfo = useMemo((): SpaceCleaningInfo[] => {
-    return Object.values(elements)
+    return Array.from(elements.values())
       .filter((el): el is BimElement & { spaceData: NonNullable<BimElement['spaceData']> } =>
         el.type === 'space' && el.spaceData != null
       )
@@ -0,0 +1,328 @@
+import { useMemo, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Download, Plus, Trash2 } from 'lucide-react';
+import {
+  Dialog,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogContent,
+  DialogFooter,
+} from '@/components/ui/Dialog';
+import { Button } from '@/components/ui/Button';
+import { useElementStore, useProjectStore } from '@/store';
+import {
+  generateCleaningSchedule,
+  getZoneChecklists,
+  getCleaningSpaces,
+  getCleaningZones,
+  createCleaningShift,
+  createCleaningChecklistPdf,
+  cleaningScheduleToIcs,
+  downloadCleaningSchedule,
+  WEEKDAYS,
+  UNASSIGNED_ZONE,
+  type CleaningShift,
+  type CleaningChecklistLabels,
+  type ShiftAssignmentTextLookup,
+} from '@/lib/cleaning';
+
+interface CleaningScheduleDialogProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+type ScheduleTab = 'week' | 'shifts';
+
+const TABS: ScheduleTab[] = ['week', 'shifts'];
+
+/**
+ * Weekly cleaning roster: cleaning zones per staff shift, load per shift
+ * and day, printable zone checklists and calendar export
+ */
+export function CleaningScheduleDialog({ open, onClose }: CleaningScheduleDialogProps) {
+  const { t } = useTranslation();
+  const { elements } = useElementStore();
+  const { project, storeys, cleaningShifts, addCleaningShift, updateCleaningShift, removeCleaningShift } =
+    useProjectStore();
+  const [tab, setTab] = useState<ScheduleTab>('week');
+
+  // Only computed while the dialog is open
+  const spaces = useMemo(() => (open ? getCleaningSpaces(Array.from(elements.values())) : []), [open, elements]);
+  const zones = useMemo(() => getCleaningZones(spaces), [spaces]);
+  const schedule = useMemo(() => generateCleaningSchedule(spaces, cleaningShifts), [spaces, cleaningShifts]);
+
+  const getZoneName = (zone: string) => (zone === UNASSIGNED_ZONE ? t('cleaningSchedule.noZone') : zone);
+  const getShiftName = (shift: CleaningShift | undefined) =>
+    !shift ? '' : shift.staffName ? `${shift.name} – ${shift.staffName}` : shift.name;
+  const getStoreyName = (id: string | null) => storeys.find((storey) => storey.id === id)?.name ?? '';
+
+  const formatTime = (minutes: number): string => {
+    const hours = Math.floor(minutes / 60);
+    const mins = Math.round(minutes % 60);
+    if (hours === 0) return `${mins} Min`;
+    return `${hours}h ${mins}m`;
+  };
+
+  const toggle = <T,>(values: T[], value: T) =>
+    values.includes(value) ? values.filter((v) => v !== value) : [...values, value];
+
+  const getText: ShiftAssignmentTextLookup = (assignment, shift) => ({
+    summary: `${t('cleaningSchedule.title')}: ${getShiftName(shift)}`,
+    description: assignment.tasks
+      .map((task) => `${getZoneName(task.zone)}: ${task.spaceName} (${formatTime(task.minutes)})`)
+      .join('\n'),
+  });
+
+  const handleExport = (format: 'pdf' | 'ics') => {
+    const fileName = `${project.name}_Reinigung`;
+    if (format === 'ics') {
+      const calendarName = `${project.name} – ${t('cleaningSchedule.title')}`;
+      downloadCleaningSchedule(cleaningScheduleToIcs(schedule, cleaningShifts, getText, calendarName), 'ics', fileName);
+      return;
+    }
+
+    const labels: CleaningChecklistLabels = {
+      title: t('cleaningSchedule.checklist.title'),
+      projectName: project.name,
+      weekday: (weekday) => t(`cleaningSchedule.weekday.${weekday}`),
+      zone: getZoneName,
+      shift: (id) => getShiftName(cleaningShifts.find((shift) => shift.id === id)),
+      storey: getStoreyName,
+      columns: {
+        space: t('cleaningSchedule.checklist.space'),
+        storey: t('cleaningSchedule.checklist.storey'),
+        frequency: t('cleaningSchedule.checklist.frequency'),
+        minutes: t('cleaningSchedule.checklist.minutes'),
+        rounds: t('cleaningSchedule.checklist.rounds'),
+        initials: t('cleaningSchedule.checklist.initials'),
+      },
+      monthly: t('cleaningSchedule.monthly'),
+      date: t('cleaningSchedule.checklist.date'),
+      correctiveActions: t('cleaningSchedule.checklist.correctiveActions'),
+      checkedBy: t('cleaningSchedule.checklist.checkedBy'),
+      signature: t('cleaningSchedule.checklist.signature'),
+      page: (page, count) => t('cleaningSchedule.checklist.page', { page, count }),
+    };
+    downloadCleaningSchedule(createCleaningChecklistPdf(getZoneChecklists(schedule), labels), 'pdf', fileName);
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} size="xl">
+      <DialogHeader>
+        <DialogTitle>{t('cleaningSchedule.title')}</DialogTitle>
+        <DialogDescription>{t('cleaningSchedule.description')}</DialogDescription>
+      </DialogHeader>
+
+      <DialogContent>
+        <div className="space-y-4 text-sm">
+          <div className="flex items-center justify-between border-b">
+            <div className="flex gap-1">
+              {TABS.map((id) => (
+                <button
+                  key={id}
+                  onClick={() => setTab(id)}
+                  className={`px-3 py-1 text-xs rounded-t border-b-2 ${
+                    id === tab ? 'border-blue-600 font-medium' : 'border-transparent text-muted-foreground hover:text-foreground'
+                  }`}
+                >
+                  {t(`cleaningSchedule.tab.${id}`)}
+                </button>
+              ))}
+            </div>
+            <span className="text-xs text-muted-foreground">
+              {t('cleaningSchedule.weeklyTotal')}: {formatTime(schedule.totalMinutes)}
+            </span>
+          </div>
+
+          <div className="max-h-[60vh] overflow-y-auto space-y-4">
+            {spaces.length === 0 && <p className="text-xs text-muted-foreground">{t('cleaningSchedule.noSpaces')}</p>}
+
+            {tab === 'week' && spaces.length > 0 && (
+              <>
+                {cleaningShifts.length === 0 && (
+                  <p className="text-xs text-muted-foreground">{t('cleaningSchedule.noShifts')}</p>
+                )}
+
+                {schedule.unassigned.length > 0 && (
+                  <div className="p-3 bg-amber-50 dark:bg-amber-950/30 rounded-lg text-xs space-y-1">
+                    <div className="font-medium text-amber-800 dark:text-amber-300">
+                      {t('cleaningSchedule.unassigned', { count: schedule.unassigned.length })}
+                    </div>
+                    <div className="text-muted-foreground">
+                      {schedule.unassigned
+                        .map((space) => `${space.element.name} (${getZoneName(space.zone)})`)
+                        .join(', ')}
+                    </div>
+                  </div>
+                )}
+
+                {WEEKDAYS.map((weekday) => {
+                  const assignments = schedule.assignments.filter((assignment) => assignment.weekday === weekday);
+                  if (assignments.length === 0) return null;
+                  return (
+                    <div key={weekday} className="border rounded-lg p-3 space-y-2">
+                      <h3 className="text-sm font-medium text-gray-700">{t(`cleaningSchedule.weekday.${weekday}`)}</h3>
+                      {assignments.map((assignment) => {
+                        const shift = cleaningShifts.find((s) => s.id === assignment.shiftId);
+                        const usage = Math.min(1, assignment.totalMinutes / assignment.capacityMinutes);
+                        const assignmentZones = Array.from(new Set(assignment.tasks.map((task) => task.zone)));
+                        return (
+                          <div key={assignment.shiftId} className="space-y-1">
+                            <div className="flex items-center justify-between text-xs">
+                              <span className="font-medium">
+                                {getShiftName(shift)} · {shift?.startTime}
+                              </span>
+                              <span className={assignment.overloaded ? 'text-red-600 font-medium' : 'text-muted-foreground'}>
+                                {formatTime(assignment.totalMinutes)} / {formatTime(assignment.capacityMinutes)}
+                                {assignment.overloaded && ` · ${t('cleaningSchedule.overloaded')}`}
+                              </span>
+                            </div>
+                            <div className="h-1.5 bg-muted rounded">
+                              <div
+                                className={`h-1.5 rounded ${assignment.overloaded ? 'bg-red-500' : 'bg-blue-500'}`}
+                                style={{ width: `${usage * 100}%` }}
+                              />
+                            </div>
+                            {assignmentZones.map((zone) => (
+                              <div key={zone} className="text-xs text-muted-foreground">
+                                <span className="font-medium text-foreground">{getZoneName(zone)}:</span>{' '}
+                                {assignment.tasks
+                                  .filter((task) => task.zone === zone)
+                                  .map(
+                                    (task) =>
+                                      `${task.spaceName}${task.repetitions > 1 ? ` ×${task.repetitions}` : ''}` +
+                                      (task.monthly ? ` (${t('cleaningSchedule.monthly')})` : '')
+                                  )
+                                  .join(', ')}
+                              </div>
+                            ))}
+                          </div>
+                        );
+                      })}
+                    </div>
+                  );
+                })}
+              </>
+            )}
+
+            {tab === 'shifts' && (
+              <div className="space-y-3">
+                {zones.every((zone) => zone === UNASSIGNED_ZONE) && spaces.length > 0 && (
+                  <p className="text-xs text-muted-foreground">{t('cleaningSchedule.zoneHint')}</p>
+                )}
+
+                {cleaningShifts.map((shift) => (
+                  <div key={shift.id} className="border rounded-lg p-3 space-y-2">
+                    <div className="flex items-center gap-2">
+                      <input
+                        value={shift.name}
+                        onChange={(e) => updateCleaningShift(shift.id, { name: e.target.value })}
+                        className="border rounded px-2 py-1 text-sm font-medium flex-1"
+                        aria-label={t('cleaningSchedule.shiftName')}
+                      />
+                      <input
+                        value={shift.staffName}
+                        placeholder={t('cleaningSchedule.staffName')}
+                        onChange={(e) => updateCleaningShift(shift.id, { staffName: e.target.value })}
+                        className="border rounded px-2 py-1 text-sm flex-1"
+                      />
+                      <button
+                        onClick={() => removeCleaningShift(shift.id)}
+                        className="p-1 text-muted-foreground hover:text-red-600"
+                        title={t('cleaningSchedule.removeShift')}
+                      >
+                        <Trash2 size={14} />
+                      </button>
+                    </div>
+
+                    <div className="flex items-center gap-3 text-xs">
+                      <div className="flex gap-1">
+                        {WEEKDAYS.map((weekday) => (
+                          <button
+                            key={weekday}
+                            onClick={() => updateCleaningShift(shift.id, { weekdays: toggle(shift.weekdays, weekday) })}
+                            className={`w-7 py-0.5 rounded border ${
+                              shift.weekdays.includes(weekday) ? 'bg-blue-600 text-white border-blue-600' : 'text-muted-foreground'
+                            }`}
+                          >
+                            {t(`cleaningSchedule.weekdayShort.${weekday}`)}
+                          </button>
+                        ))}
+                      </div>
+                      <label className="flex items-center gap-1">
+                        {t('cleaningSchedule.startTime')}
+                        <input
+                          type="time"
+                          value={shift.startTime}
+                          onChange={(e) => updateCleaningShift(shift.id, { startTime: e.target.value || '00:00' })}
+                          className="border rounded px-1 py-0.5"
+                        />
+                      </label>
+                      <label className="flex items-center gap-1">
+                        {t('cleaningSchedule.duration')}
+                        <input
+                          type="number"
+                          min={15}
+                          step={15}
+                          value={shift.durationMinutes}
+                          onChange={(e) =>
+                            updateCleaningShift(shift.id, { durationMinutes: Math.max(15, parseInt(e.target.value) || 15) })
+                          }
+                          className="border rounded px-1 py-0.5 w-16 text-right"
+                        />
+                        Min
+                      </label>
+                    </div>
+
+                    <div className="flex flex-wrap items-center gap-1 text-xs">
+                      <span className="text-muted-foreground mr-1">{t('cleaningSchedule.zones')}:</span>
+                      {zones.map((zone) => (
+                        <button
+                          key={zone}
+                          onClick={() => updateCleaningShift(shift.id, { zones: toggle(shift.zones, zone) })}
+                          className={`px-2 py-0.5 rounded-full border ${
+                            shift.zones.includes(zone) ? 'bg-blue-100 border-blue-400 text-blue-800' : 'text-muted-foreground'
+                          }`}
+                        >
+                          {getZoneName(zone)}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                ))}
+
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() =>
+                    addCleaningShift(
+                      createCleaningShift(t('cleaningSchedule.defaultShiftName', { number: cleaningShifts.length + 1 }))
+                    )
+                  }
+                >
+                  <Plus size={14} className="mr-1" />
+                  {t('cleaningSchedule.addShift')}
+                </Button>
+              </div>
+            )}
+          </div>
+        </div>
+      </DialogContent>
+
+      <DialogFooter>
+        <Button variant="ghost" onClick={() => handleExport('pdf')} disabled={schedule.assignments.length === 0}>
+          <Download size={14} className="mr-1" />
+          {t('cleaningSchedule.exportPdf')}
+        </Button>
+        <Button variant="ghost" onClick={() => handleExport('ics')} disabled={schedule.assignments.length === 0}>
+          <Download size={14} className="mr-1" />
+          {t('cleaningSchedule.exportIcs')}
+        </Button>
+        <Button variant="primary" onClick={onClose}>
+          {t('dialogs.close')}
+        </Button>
+      </DialogFooter>
+    </Dialog>
+  );
+}
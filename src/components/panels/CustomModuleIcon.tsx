@@ -0,0 +1,41 @@
+import {
+  Accessibility,
+  Droplets,
+  Leaf,
+  Lightbulb,
+  Puzzle,
+  Ruler,
+  Sun,
+  Thermometer,
+  Volume2,
+  Wind,
+  type LucideIcon,
+} from 'lucide-react';
+import type { CustomModuleIconName } from '@/lib/modules';
+
+const ICONS: Record<CustomModuleIconName, LucideIcon> = {
+  Puzzle,
+  Volume2,
+  Thermometer,
+  Droplets,
+  Wind,
+  Sun,
+  Lightbulb,
+  Leaf,
+  Accessibility,
+  Ruler,
+};
+
+interface CustomModuleIconProps {
+  name: string;
+  size?: number;
+  className?: string;
+}
+
+/**
+ * Icon of a user-defined module, Puzzle for unknown names
+ */
+export function CustomModuleIcon({ name, size = 16, className }: CustomModuleIconProps) {
+  const Icon = ICONS[name as CustomModuleIconName] ?? Puzzle;
+  return <Icon size={size} className={className} />;
+}
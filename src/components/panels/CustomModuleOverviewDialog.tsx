@@ -0,0 +1,172 @@
+import { useMemo } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Download } from 'lucide-react';
+import {
+  Dialog,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogContent,
+  DialogFooter,
+} from '@/components/ui/Dialog';
+import { Button } from '@/components/ui/Button';
+import { useElementStore, useProjectStore, useSelectionStore } from '@/store';
+import type { CustomModuleDefinition, ModulePropertyValue } from '@/types/proMode';
+import { downloadModuleFile, getModuleOverview, moduleOverviewToCsv, type ModuleOverviewRow } from '@/lib/modules';
+
+interface CustomModuleOverviewDialogProps {
+  definition: CustomModuleDefinition;
+  open: boolean;
+  onClose: () => void;
+}
+
+/**
+ * Table of all elements of a user-defined module with their values,
+ * computed fields and totals; clicking a row selects the element
+ */
+export function CustomModuleOverviewDialog({ definition, open, onClose }: CustomModuleOverviewDialogProps) {
+  const { t } = useTranslation();
+  const { elements } = useElementStore();
+  const { project, storeys, setActiveStorey } = useProjectStore();
+  const { select } = useSelectionStore();
+
+  // Only computed while the dialog is open
+  const overview = useMemo(
+    () =>
+      open
+        ? getModuleOverview(
+            definition,
+            Array.from(elements.values()),
+            storeys.map((storey) => storey.id)
+          )
+        : { rows: [], totals: {} },
+    [open, definition, elements, storeys]
+  );
+
+  const getStoreyName = (id: string | null) => storeys.find((storey) => storey.id === id)?.name ?? '';
+
+  const formatValue = (value: ModulePropertyValue | undefined, decimals?: number): string => {
+    if (value === null || value === undefined || value === '') return '–';
+    if (typeof value === 'boolean') return value ? t('customModules.yes') : t('customModules.no');
+    if (typeof value === 'number') return value.toLocaleString(undefined, { maximumFractionDigits: decimals ?? 3 });
+    return value;
+  };
+
+  const handleRowClick = (row: ModuleOverviewRow) => {
+    if (row.storeyId && storeys.some((storey) => storey.id === row.storeyId)) setActiveStorey(row.storeyId);
+    select(row.elementId);
+    onClose();
+  };
+
+  const handleExport = () => {
+    const csv = moduleOverviewToCsv(definition, overview, getStoreyName);
+    downloadModuleFile(csv, 'csv', `${project.name}_${definition.name}`);
+  };
+
+  const columns = [
+    ...definition.properties.map((property) => ({
+      name: property.name,
+      label: property.label,
+      unit: property.unit,
+      total: property.type === 'number' ? property.total : undefined,
+      decimals: undefined as number | undefined,
+      computed: false,
+    })),
+    ...definition.computedFields.map((field) => ({
+      name: field.name,
+      label: field.label,
+      unit: field.unit,
+      total: field.total,
+      decimals: field.decimals,
+      computed: true,
+    })),
+  ];
+  const hasTotals = columns.some((column) => overview.totals[column.name] !== undefined);
+
+  return (
+    <Dialog open={open} onClose={onClose} size="xl">
+      <DialogHeader>
+        <DialogTitle>{definition.name}</DialogTitle>
+        <DialogDescription>{definition.description || t('customModules.overviewDescription')}</DialogDescription>
+      </DialogHeader>
+
+      <DialogContent>
+        <div className="max-h-[60vh] overflow-auto text-sm">
+          {overview.rows.length === 0 ? (
+            <p className="text-xs text-muted-foreground">{t('customModules.noElements')}</p>
+          ) : (
+            <table className="w-full text-xs">
+              <thead className="sticky top-0 bg-background">
+                <tr className="text-left text-muted-foreground">
+                  <th className="py-1 pr-2 font-medium">{t('customModules.element')}</th>
+                  <th className="py-1 pr-2 font-medium">{t('customModules.storey')}</th>
+                  {columns.map((column) => (
+                    <th
+                      key={column.name}
+                      className={`py-1 pr-2 font-medium text-right ${column.computed ? 'italic' : ''}`}
+                      title={column.name}
+                    >
+                      {column.label}
+                      {column.unit && <span className="ml-1">({column.unit})</span>}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {overview.rows.map((row) => (
+                  <tr
+                    key={row.elementId}
+                    onClick={() => handleRowClick(row)}
+                    className="border-t cursor-pointer hover:bg-accent"
+                  >
+                    <td className="py-1 pr-2">{row.elementName}</td>
+                    <td className="py-1 pr-2 text-muted-foreground">{getStoreyName(row.storeyId)}</td>
+                    {columns.map((column) => (
+                      <td key={column.name} className="py-1 pr-2 text-right">
+                        {formatValue(
+                          column.computed ? row.computed[column.name] : row.values[column.name],
+                          column.decimals
+                        )}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+              {hasTotals && (
+                <tfoot>
+                  <tr className="border-t-2 font-medium">
+                    <td className="py-1 pr-2" colSpan={2}>
+                      {t('customModules.totals', { count: overview.rows.length })}
+                    </td>
+                    {columns.map((column) => (
+                      <td key={column.name} className="py-1 pr-2 text-right">
+                        {overview.totals[column.name] !== undefined && (
+                          <>
+                            {formatValue(overview.totals[column.name], column.decimals)}
+                            {column.total === 'average' && (
+                              <span className="ml-1 text-muted-foreground font-normal">Ø</span>
+                            )}
+                          </>
+                        )}
+                      </td>
+                    ))}
+                  </tr>
+                </tfoot>
+              )}
+            </table>
+          )}
+        </div>
+      </DialogContent>
+
+      <DialogFooter>
+        <Button variant="ghost" onClick={handleExport} disabled={overview.rows.length === 0}>
+          <Download size={14} className="mr-1" />
+          {t('customModules.exportCsv')}
+        </Button>
+        <Button variant="primary" onClick={onClose}>
+          {t('dialogs.close')}
+        </Button>
+      </DialogFooter>
+    </Dialog>
+  );
+}
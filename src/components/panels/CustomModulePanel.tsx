@@ -0,0 +1,174 @@
+import { useMemo } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Switch } from '@/components/ui/Switch';
+import { useElementStore } from '@/store';
+import type { BimElement } from '@/types/bim';
+import type { CustomModuleDefinition, ModulePropertyDefinition, ModulePropertyValue } from '@/types/proMode';
+import { getComputedValues, getModuleValues, isModuleApplicable, setModuleValues } from '@/lib/modules';
+import { CustomModuleIcon } from './CustomModuleIcon';
+
+interface CustomModulePanelProps {
+  definition: CustomModuleDefinition;
+  /** Selected elements; with several, edits apply to all of them */
+  elements: BimElement[];
+}
+
+/** Common value of all elements, undefined if they differ */
+function getCommonValue<T>(values: T[]): T | undefined {
+  return values.every((value) => value === values[0]) ? values[0] : undefined;
+}
+
+/**
+ * Property panel of a user-defined module, rendered from its definition.
+ * Supports single and multi selection (mixed values stay empty).
+ */
+export function CustomModulePanel({ definition, elements }: CustomModulePanelProps) {
+  const { t } = useTranslation();
+  const { elements: allElements, updateElement } = useElementStore();
+
+  const applicable = useMemo(
+    () => elements.filter((element) => isModuleApplicable(definition, element)),
+    [elements, definition]
+  );
+
+  // Values and computed fields per selected element
+  const rows = useMemo(() => {
+    const model = Array.from(allElements.values());
+    return applicable.map((element) => {
+      const values = getModuleValues(element, definition);
+      return { values, computed: getComputedValues(element, definition, model, values) };
+    });
+  }, [applicable, allElements, definition]);
+
+  const handleChange = (property: ModulePropertyDefinition, value: ModulePropertyValue) => {
+    for (const element of applicable) {
+      updateElement(element.id, setModuleValues(element, definition, { [property.name]: value }));
+    }
+  };
+
+  const parseNumber = (property: ModulePropertyDefinition, text: string): number | null => {
+    if (text === '') return null;
+    const value = parseFloat(text);
+    if (!Number.isFinite(value)) return null;
+    return Math.min(property.max ?? Infinity, Math.max(property.min ?? -Infinity, value));
+  };
+
+  const renderInput = (property: ModulePropertyDefinition) => {
+    const value = getCommonValue(rows.map((row) => row.values[property.name]));
+    const isMixed = value === undefined;
+    const placeholder = isMixed ? t('customModules.mixed') : undefined;
+    const id = `custom-${property.name}`;
+
+    switch (property.type) {
+      case 'boolean':
+        return (
+          <div className="flex items-center justify-between">
+            <label htmlFor={id} className="text-xs text-muted-foreground">
+              {property.label}
+              {isMixed && <span className="ml-1 italic">({t('customModules.mixed')})</span>}
+            </label>
+            <Switch id={id} checked={value === true} onCheckedChange={(checked) => handleChange(property, checked)} />
+          </div>
+        );
+      case 'enum':
+        return (
+          <select
+            id={id}
+            value={isMixed ? '' : String(value ?? '')}
+            onChange={(e) => handleChange(property, e.target.value)}
+            className="w-full px-2 py-1.5 text-sm border rounded bg-background"
+          >
+            <option value="">{isMixed ? t('customModules.mixed') : '–'}</option>
+            {(property.options ?? []).map((option) => (
+              <option key={option} value={option}>
+                {option}
+              </option>
+            ))}
+          </select>
+        );
+      case 'number':
+        return (
+          <input
+            id={id}
+            type="number"
+            value={typeof value === 'number' ? value : ''}
+            placeholder={placeholder}
+            min={property.min}
+            max={property.max}
+            step="any"
+            onChange={(e) => handleChange(property, parseNumber(property, e.target.value))}
+            className="w-full px-2 py-1.5 text-sm border rounded bg-background"
+          />
+        );
+      default:
+        return (
+          <input
+            id={id}
+            type={property.type === 'date' ? 'date' : 'text'}
+            value={typeof value === 'string' ? value : ''}
+            placeholder={placeholder}
+            onChange={(e) => handleChange(property, e.target.value)}
+            className="w-full px-2 py-1.5 text-sm border rounded bg-background"
+          />
+        );
+    }
+  };
+
+  return (
+    <div className="space-y-3 p-4 border rounded-lg bg-muted/30">
+      <h3 className="font-semibold flex items-center gap-2">
+        <CustomModuleIcon name={definition.icon} />
+        {definition.name}
+      </h3>
+
+      {applicable.length === 0 ? (
+        <p className="text-xs text-muted-foreground">{t('customModules.notApplicable')}</p>
+      ) : (
+        <>
+          {elements.length > 1 && (
+            <p className="text-xs text-muted-foreground">
+              {t('customModules.appliesTo', { count: applicable.length, total: elements.length })}
+            </p>
+          )}
+
+          {definition.properties.length === 0 && (
+            <p className="text-xs text-muted-foreground">{t('customModules.noProperties')}</p>
+          )}
+
+          {definition.properties.map((property) => (
+            <div key={property.name}>
+              {property.type !== 'boolean' && (
+                <label htmlFor={`custom-${property.name}`} className="text-xs text-muted-foreground block mb-1">
+                  {property.label}
+                  {property.unit && <span className="ml-1">({property.unit})</span>}
+                </label>
+              )}
+              {renderInput(property)}
+            </div>
+          ))}
+
+          {definition.computedFields.length > 0 && (
+            <div className="pt-2 border-t space-y-1">
+              <div className="text-xs font-medium">{t('customModules.computed')}</div>
+              {definition.computedFields.map((field) => {
+                const value = getCommonValue(rows.map((row) => row.computed[field.name]));
+                return (
+                  <div key={field.name} className="flex justify-between text-xs">
+                    <span className="text-muted-foreground">{field.label}</span>
+                    <span className="font-medium">
+                      {value === undefined
+                        ? t('customModules.mixed')
+                        : value === null
+                          ? '–'
+                          : `${value.toLocaleString(undefined, { maximumFractionDigits: field.decimals })}${field.unit ? ` ${field.unit}` : ''}`}
+                    </span>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,161 @@
+import { useState, useCallback } from 'react';
+import { useTranslation } from 'react-i18next';
+import { X } from 'lucide-react';
+import { useDxfUnderlayStore, useElementStore, useProjectStore, useHistoryStore, describeElements } from '@/store';
+import { createWall } from '@/bim/elements/Wall';
+import { DEFAULT_WALL_THICKNESS } from '@/types/bim';
+import { getDxfSegments, traceWallsFromSegments } from '@/lib/dxf';
+import { Button } from '@/components/ui/Button';
+
+/**
+ * Floating panel in the 2D view: DXF layers, opacity and
+ * conversion of selected underlay lines into walls
+ */
+export function DxfUnderlayPanel() {
+  const { t } = useTranslation();
+  const {
+    document,
+    hiddenLayers,
+    opacity,
+    selectedEntityIds,
+    toggleLayer,
+    setAllLayersVisible,
+    setOpacity,
+    clearSelection,
+    clearDocument,
+  } = useDxfUnderlayStore();
+  const { addElements } = useElementStore();
+  const { storeys, activeStoreyId } = useProjectStore();
+
+  const [thickness, setThickness] = useState(DEFAULT_WALL_THICKNESS);
+  const [isCollapsed, setIsCollapsed] = useState(false);
+
+  const handleConvert = useCallback(() => {
+    if (!document || !activeStoreyId) return;
+
+    const elevation = storeys.find((s) => s.id === activeStoreyId)?.elevation ?? 0;
+    const selected = document.entities.filter((entity) => selectedEntityIds.has(entity.id));
+    const traced = traceWallsFromSegments(getDxfSegments(selected), { defaultThickness: thickness });
+
+    const walls = traced.flatMap((wall) => {
+      try {
+        return [
+          createWall({
+            startPoint: wall.startPoint,
+            endPoint: wall.endPoint,
+            thickness: wall.thickness,
+            storeyId: activeStoreyId,
+            elevation,
+            alignmentSide: 'center',
+          }),
+        ];
+      } catch (error) {
+        // Segment might be too short for a wall, skip it
+        console.warn('Could not create wall from DXF line:', error);
+        return [];
+      }
+    });
+    if (walls.length === 0) return;
+
+    useHistoryStore.getState().transaction(t('history.added', { what: describeElements(walls) }), () => {
+      addElements(walls);
+    });
+    clearSelection();
+  }, [document, activeStoreyId, storeys, selectedEntityIds, thickness, addElements, clearSelection, t]);
+
+  if (!document) return null;
+
+  const allVisible = hiddenLayers.size === 0;
+
+  return (
+    <div className="absolute top-2 right-2 w-64 bg-background/95 border rounded-md shadow-sm text-xs">
+      <div className="flex items-center justify-between px-2 py-1.5 border-b">
+        <button
+          onClick={() => setIsCollapsed(!isCollapsed)}
+          className="font-medium truncate text-left"
+          title={document.fileName}
+        >
+          {t('dxf.panelTitle')}: {document.fileName}
+        </button>
+        <button onClick={clearDocument} className="p-0.5 rounded hover:bg-accent" title={t('dxf.remove')}>
+          <X size={14} />
+        </button>
+      </div>
+
+      {!isCollapsed && (
+        <div className="p-2 space-y-3">
+          {/* Layers */}
+          <div>
+            <div className="flex items-center justify-between mb-1">
+              <span className="font-medium">{t('dxf.layers')}</span>
+              <button onClick={() => setAllLayersVisible(!allVisible)} className="text-blue-600 hover:underline">
+                {allVisible ? t('dxf.hideAll') : t('dxf.showAll')}
+              </button>
+            </div>
+            <div className="max-h-40 overflow-y-auto space-y-0.5">
+              {document.layers.map((layer) => (
+                <label key={layer.name} className="flex items-center gap-2 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={!hiddenLayers.has(layer.name)}
+                    onChange={() => toggleLayer(layer.name)}
+                    className="rounded border-gray-300"
+                  />
+                  <span className="w-3 h-3 rounded-sm border shrink-0" style={{ backgroundColor: layer.color }} />
+                  <span className="truncate flex-1" title={layer.name}>
+                    {layer.name}
+                  </span>
+                  <span className="text-muted-foreground">{layer.entityCount}</span>
+                </label>
+              ))}
+            </div>
+          </div>
+
+          {/* Opacity */}
+          <label className="flex items-center gap-2">
+            <span>{t('dxf.opacity')}</span>
+            <input
+              type="range"
+              min={0.1}
+              max={1}
+              step={0.05}
+              value={opacity}
+              onChange={(e) => setOpacity(parseFloat(e.target.value))}
+              className="flex-1"
+            />
+          </label>
+
+          {/* Wall conversion */}
+          <div className="border-t pt-2 space-y-2">
+            <p className="text-muted-foreground">
+              {selectedEntityIds.size > 0
+                ? t('dxf.selectedLines', { count: selectedEntityIds.size })
+                : t('dxf.selectHint')}
+            </p>
+            <label className="flex items-center justify-between gap-2">
+              <span>{t('dxf.defaultThickness')}</span>
+              <input
+                type="number"
+                min={0.05}
+                max={1}
+                step={0.01}
+                value={thickness}
+                onChange={(e) => setThickness(Math.max(0.05, parseFloat(e.target.value) || DEFAULT_WALL_THICKNESS))}
+                className="w-20 border rounded px-1 py-0.5 text-right"
+              />
+            </label>
+            <Button
+              variant="primary"
+              size="sm"
+              onClick={handleConvert}
+              disabled={selectedEntityIds.size === 0 || !activeStoreyId}
+              className="w-full"
+            >
+              {t('dxf.convertToWalls')}
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
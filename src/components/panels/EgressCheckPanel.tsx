@@ -0,0 +1,145 @@
+import { useTranslation } from 'react-i18next';
+import { AlertCircle, AlertTriangle, CheckCircle2 } from 'lucide-react';
+import { useEgressCheckStore, useElementStore, useProjectStore, useSelectionStore } from '@/store';
+import {
+  EGRESS_RULE_PROFILES,
+  type EgressFinding,
+  type EgressProfileId,
+  type EgressRuleValues,
+} from '@/lib/evacuation/egressRules';
+import { Button } from '@/components/ui/Button';
+
+const RULE_VALUE_KEYS: { key: keyof EgressRuleValues; step: number }[] = [
+  { key: 'maxTravelDistance', step: 1 },
+  { key: 'maxTravelDistanceMultipleExits', step: 1 },
+  { key: 'minDoorWidth', step: 0.05 },
+  { key: 'widthPerPerson', step: 0.001 },
+  { key: 'secondExitFromOccupancy', step: 1 },
+  { key: 'swingInEscapeDirectionFromOccupancy', step: 1 },
+];
+
+/**
+ * Format measured value and limit of a finding for the message
+ */
+function formatFinding(finding: EgressFinding): { value: string; limit: string } {
+  const digits = finding.rule === 'doorWidth' ? 2 : finding.rule === 'travelDistance' ? 1 : 0;
+  return {
+    value: finding.value?.toFixed(digits) ?? '',
+    limit: finding.limit?.toFixed(digits) ?? '',
+  };
+}
+
+/**
+ * Egress checker: rule profile, limits and findings list.
+ * Clicking a finding selects the offending space or door.
+ */
+export function EgressCheckPanel() {
+  const { t } = useTranslation();
+  const { profileId, overrides, findings, checkedAt, setProfile, setRuleValue, resetOverrides, getRules, runCheck } =
+    useEgressCheckStore();
+  const { getAllElements } = useElementStore();
+  const { storeys, setActiveStorey } = useProjectStore();
+  const { select } = useSelectionStore();
+
+  const rules = getRules();
+  const errorCount = findings.filter((f) => f.severity === 'error').length;
+  const warningCount = findings.length - errorCount;
+
+  const handleFindingClick = (finding: EgressFinding) => {
+    if (finding.storeyId) setActiveStorey(finding.storeyId);
+    if (finding.elementId) select(finding.elementId);
+  };
+
+  return (
+    <div className="flex flex-col gap-3 text-xs">
+      <label className="flex flex-col gap-1">
+        <span className="text-muted-foreground">{t('egress.profile')}</span>
+        <select
+          value={profileId}
+          onChange={(e) => setProfile(e.target.value as EgressProfileId)}
+          className="border rounded px-2 py-1 bg-background"
+        >
+          {Object.values(EGRESS_RULE_PROFILES).map((profile) => (
+            <option key={profile.id} value={profile.id}>
+              {profile.name}
+            </option>
+          ))}
+        </select>
+        <span className="text-muted-foreground">{EGRESS_RULE_PROFILES[profileId].description}</span>
+      </label>
+
+      <details>
+        <summary className="cursor-pointer text-muted-foreground hover:text-foreground">{t('egress.limits')}</summary>
+        <div className="mt-2 space-y-1">
+          {RULE_VALUE_KEYS.map(({ key, step }) => (
+            <label key={key} className="flex items-center justify-between gap-2">
+              <span className={overrides[key] !== undefined ? 'font-medium' : undefined}>
+                {t(`egress.values.${key}`)}
+              </span>
+              <input
+                type="number"
+                min={0}
+                step={step}
+                value={rules[key]}
+                onChange={(e) => setRuleValue(key, parseFloat(e.target.value) || 0)}
+                className="w-20 border rounded px-1 py-0.5 text-right bg-background"
+              />
+            </label>
+          ))}
+          {Object.keys(overrides).length > 0 && (
+            <button onClick={resetOverrides} className="text-blue-600 hover:underline">
+              {t('egress.resetLimits')}
+            </button>
+          )}
+        </div>
+      </details>
+
+      <Button variant="primary" size="sm" onClick={() => runCheck(getAllElements(), storeys)}>
+        {t('egress.runCheck')}
+      </Button>
+
+      {checkedAt !== null && (
+        <div className="border-t pt-2 space-y-2">
+          {findings.length === 0 ? (
+            <div className="flex items-center gap-2 text-green-600">
+              <CheckCircle2 size={14} />
+              {t('egress.noFindings')}
+            </div>
+          ) : (
+            <>
+              <div className="text-muted-foreground">
+                {t('egress.summary', { errors: errorCount, warnings: warningCount })}
+              </div>
+              <ul className="max-h-64 overflow-y-auto space-y-1">
+                {findings.map((finding) => {
+                  const storey = storeys.find((s) => s.id === finding.storeyId);
+                  return (
+                    <li key={finding.id}>
+                      <button
+                        onClick={() => handleFindingClick(finding)}
+                        disabled={!finding.elementId}
+                        className="w-full flex items-start gap-2 p-1.5 rounded text-left hover:bg-accent disabled:hover:bg-transparent"
+                      >
+                        {finding.severity === 'error' ? (
+                          <AlertCircle size={14} className="text-red-600 shrink-0 mt-0.5" />
+                        ) : (
+                          <AlertTriangle size={14} className="text-amber-500 shrink-0 mt-0.5" />
+                        )}
+                        <span className="flex-1">
+                          {t(`egress.rule.${finding.rule}`, { name: finding.elementName, ...formatFinding(finding) })}
+                          {storey && <span className="block text-muted-foreground">{storey.name}</span>}
+                        </span>
+                      </button>
+                    </li>
+                  );
+                })}
+              </ul>
+            </>
+          )}
+        </div>
+      )}
+
+      <p className="text-muted-foreground">{t('egress.disclaimer')}</p>
+    </div>
+  );
+}
@@ -0,0 +1,359 @@
+import { useMemo } from 'react';
+import { useTranslation } from 'react-i18next';
+import { AlertTriangle, Plus, Trash2 } from 'lucide-react';
+import {
+  Dialog,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogContent,
+  DialogFooter,
+} from '@/components/ui/Dialog';
+import { Button } from '@/components/ui/Button';
+import { useElementStore, useProjectStore, useSelectionStore } from '@/store';
+import {
+  calculateLoadBudget,
+  createElectricalCircuit,
+  DEFAULT_SIMULTANEITY_FACTORS,
+  FUSE_RATINGS,
+  type CircuitPhases,
+  type LoadSummary,
+} from '@/lib/electrical';
+import { IFC_ELECTRIC_APPLIANCE_LABELS, type IfcElectricApplianceTypeEnum } from '@/types/bim';
+
+interface ElectricalLoadDialogProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+/**
+ * Electrical load budget: circuits with fuse check, appliance assignment,
+ * load per space and storey and the annual energy estimate
+ */
+export function ElectricalLoadDialog({ open, onClose }: ElectricalLoadDialogProps) {
+  const { t, i18n } = useTranslation();
+  const { elements } = useElementStore();
+  const {
+    storeys,
+    electricalCircuits,
+    electricalSettings,
+    addElectricalCircuit,
+    updateElectricalCircuit,
+    removeElectricalCircuit,
+    assignApplianceToCircuit,
+    updateElectricalSettings,
+    setActiveStorey,
+  } = useProjectStore();
+  const { select } = useSelectionStore();
+
+  const allElements = useMemo(() => Array.from(elements.values()), [elements]);
+
+  // Only computed while the dialog is open
+  const budget = useMemo(
+    () => (open ? calculateLoadBudget(allElements, storeys, electricalCircuits, electricalSettings) : null),
+    [open, allElements, storeys, electricalCircuits, electricalSettings]
+  );
+
+  const formatNumber = (value: number, digits = 1) =>
+    value.toLocaleString(i18n.language, { minimumFractionDigits: digits, maximumFractionDigits: digits });
+  const formatKw = (watts: number) => `${formatNumber(watts / 1000, 2)} kW`;
+
+  const getName = (id: string) => elements.get(id)?.name ?? id;
+  const getStoreyName = (id: string) => storeys.find((storey) => storey.id === id)?.name ?? id;
+
+  const applianceTypes = Array.from(new Set(budget?.appliances.map((a) => a.applianceType) ?? []));
+
+  const handleAddCircuit = () => {
+    addElectricalCircuit(createElectricalCircuit(t('electrical.circuitName', { index: electricalCircuits.length + 1 })));
+  };
+
+  const handleSelect = (elementId: string, storeyId: string | null) => {
+    if (storeyId) setActiveStorey(storeyId);
+    select(elementId);
+    onClose();
+  };
+
+  const handleFactorChange = (type: IfcElectricApplianceTypeEnum, value: string) => {
+    const overrides = { ...electricalSettings.simultaneityOverrides };
+    const factor = parseFloat(value);
+    if (value === '' || !Number.isFinite(factor)) {
+      delete overrides[type];
+    } else {
+      overrides[type] = Math.min(1, Math.max(0, factor));
+    }
+    updateElectricalSettings({ simultaneityOverrides: overrides });
+  };
+
+  const renderSummaryTable = (title: string, rows: [string, LoadSummary][]) => (
+    <div className="border rounded-lg p-3 space-y-1">
+      <h3 className="text-sm font-medium text-gray-700">{title}</h3>
+      <table className="w-full text-xs">
+        <thead className="text-muted-foreground">
+          <tr>
+            <th className="text-left font-normal" />
+            <th className="text-right font-normal">{t('electrical.connectedLoad')}</th>
+            <th className="text-right font-normal">{t('electrical.demandLoad')}</th>
+            <th className="text-right font-normal">{t('electrical.annualEnergy')}</th>
+            <th className="text-right font-normal">{t('electrical.annualCost')}</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map(([name, summary]) => (
+            <tr key={name}>
+              <td className="py-0.5 truncate">{name}</td>
+              <td className="text-right">{formatKw(summary.connectedLoad)}</td>
+              <td className="text-right">{formatKw(summary.demandLoad)}</td>
+              <td className="text-right">{formatNumber(summary.annualEnergy, 0)} kWh</td>
+              <td className="text-right">{formatNumber(summary.annualCost, 0)} CHF</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+
+  return (
+    <Dialog open={open} onClose={onClose} size="xl">
+      <DialogHeader>
+        <DialogTitle>{t('electrical.title')}</DialogTitle>
+        <DialogDescription>{t('electrical.description')}</DialogDescription>
+      </DialogHeader>
+
+      <DialogContent>
+        {!budget || budget.appliances.length === 0 ? (
+          <p className="text-sm text-muted-foreground">{t('electrical.noAppliances')}</p>
+        ) : (
+          <div className="space-y-4 max-h-[65vh] overflow-y-auto text-sm">
+            {/* Operating assumptions */}
+            <div className="grid grid-cols-3 gap-3">
+              <label className="flex flex-col gap-1">
+                <span className="text-xs text-muted-foreground">{t('electrical.hoursPerDay')}</span>
+                <input
+                  type="number"
+                  min={0}
+                  max={24}
+                  step={0.5}
+                  value={electricalSettings.openingHoursPerDay}
+                  onChange={(e) =>
+                    updateElectricalSettings({ openingHoursPerDay: Math.min(24, Math.max(0, parseFloat(e.target.value) || 0)) })
+                  }
+                  className="border rounded px-2 py-1"
+                />
+              </label>
+              <label className="flex flex-col gap-1">
+                <span className="text-xs text-muted-foreground">{t('electrical.daysPerWeek')}</span>
+                <input
+                  type="number"
+                  min={0}
+                  max={7}
+                  step={1}
+                  value={electricalSettings.openingDaysPerWeek}
+                  onChange={(e) =>
+                    updateElectricalSettings({ openingDaysPerWeek: Math.min(7, Math.max(0, parseInt(e.target.value) || 0)) })
+                  }
+                  className="border rounded px-2 py-1"
+                />
+              </label>
+              <label className="flex flex-col gap-1">
+                <span className="text-xs text-muted-foreground">{t('electrical.pricePerKWh')}</span>
+                <input
+                  type="number"
+                  min={0}
+                  step={0.01}
+                  value={electricalSettings.pricePerKWh}
+                  onChange={(e) => updateElectricalSettings({ pricePerKWh: Math.max(0, parseFloat(e.target.value) || 0) })}
+                  className="border rounded px-2 py-1"
+                />
+              </label>
+            </div>
+
+            {renderSummaryTable(t('electrical.total'), [[t('electrical.project'), budget.total]])}
+
+            {/* Circuits */}
+            <div className="border rounded-lg p-3 space-y-2">
+              <div className="flex items-center justify-between">
+                <h3 className="text-sm font-medium text-gray-700">{t('electrical.circuits')}</h3>
+                <Button variant="ghost" size="sm" onClick={handleAddCircuit}>
+                  <Plus size={14} className="mr-1" />
+                  {t('electrical.addCircuit')}
+                </Button>
+              </div>
+              {budget.circuits.length === 0 ? (
+                <p className="text-xs text-muted-foreground">{t('electrical.noCircuits')}</p>
+              ) : (
+                <table className="w-full text-xs">
+                  <thead className="text-muted-foreground">
+                    <tr>
+                      <th className="text-left font-normal">{t('electrical.name')}</th>
+                      <th className="text-left font-normal">{t('electrical.fuse')}</th>
+                      <th className="text-left font-normal">{t('electrical.phases')}</th>
+                      <th className="text-right font-normal">{t('electrical.appliances')}</th>
+                      <th className="text-right font-normal">{t('electrical.demandLoad')}</th>
+                      <th className="text-right font-normal">{t('electrical.current')}</th>
+                      <th />
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {budget.circuits.map((load) => (
+                      <tr key={load.circuit.id} className={load.overloaded ? 'text-red-600' : ''}>
+                        <td className="py-0.5 pr-2">
+                          <input
+                            type="text"
+                            value={load.circuit.name}
+                            onChange={(e) => updateElectricalCircuit(load.circuit.id, { name: e.target.value })}
+                            className="border rounded px-1 py-0.5 w-full"
+                          />
+                        </td>
+                        <td>
+                          <select
+                            value={load.circuit.fuseRating}
+                            onChange={(e) => updateElectricalCircuit(load.circuit.id, { fuseRating: parseInt(e.target.value) })}
+                            className="border rounded px-1 py-0.5 bg-background"
+                          >
+                            {FUSE_RATINGS.map((rating) => (
+                              <option key={rating} value={rating}>
+                                {rating} A
+                              </option>
+                            ))}
+                          </select>
+                        </td>
+                        <td>
+                          <select
+                            value={load.circuit.phases}
+                            onChange={(e) =>
+                              updateElectricalCircuit(load.circuit.id, { phases: parseInt(e.target.value) as CircuitPhases })
+                            }
+                            className="border rounded px-1 py-0.5 bg-background"
+                          >
+                            <option value={1}>{t('electrical.singlePhase')}</option>
+                            <option value={3}>{t('electrical.threePhase')}</option>
+                          </select>
+                        </td>
+                        <td className="text-right">{load.applianceCount}</td>
+                        <td className="text-right">{formatKw(load.demandLoad)}</td>
+                        <td className="text-right whitespace-nowrap">
+                          {load.overloaded && <AlertTriangle size={12} className="inline mr-1" />}
+                          {formatNumber(load.current)} / {load.circuit.fuseRating} A
+                        </td>
+                        <td className="text-right">
+                          <button
+                            onClick={() => removeElectricalCircuit(load.circuit.id)}
+                            className="p-1 text-muted-foreground hover:text-red-600"
+                            title={t('electrical.removeCircuit')}
+                          >
+                            <Trash2 size={12} />
+                          </button>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+              {budget.unassigned.applianceCount > 0 && budget.circuits.length > 0 && (
+                <p className="text-xs text-amber-600">
+                  {t('electrical.unassigned', { count: budget.unassigned.applianceCount })}
+                </p>
+              )}
+            </div>
+
+            {/* Appliances */}
+            <div className="border rounded-lg p-3 space-y-1">
+              <h3 className="text-sm font-medium text-gray-700">{t('electrical.appliances')}</h3>
+              <table className="w-full text-xs">
+                <thead className="text-muted-foreground">
+                  <tr>
+                    <th className="text-left font-normal">{t('electrical.name')}</th>
+                    <th className="text-left font-normal">{t('electrical.space')}</th>
+                    <th className="text-right font-normal">{t('electrical.connectedLoad')}</th>
+                    <th className="text-right font-normal">{t('electrical.factor')}</th>
+                    <th className="text-right font-normal">{t('electrical.demandLoad')}</th>
+                    <th className="text-left font-normal pl-2">{t('electrical.circuit')}</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {budget.appliances.map((appliance) => (
+                    <tr key={appliance.elementId} className="hover:bg-accent">
+                      <td className="py-0.5">
+                        <button
+                          onClick={() => handleSelect(appliance.elementId, appliance.storeyId)}
+                          className="text-left hover:underline"
+                          title={IFC_ELECTRIC_APPLIANCE_LABELS[appliance.applianceType]}
+                        >
+                          {appliance.elementName}
+                        </button>
+                      </td>
+                      <td className="text-muted-foreground">{appliance.spaceId ? getName(appliance.spaceId) : '–'}</td>
+                      <td className="text-right">{formatNumber(appliance.connectedLoad, 0)} W</td>
+                      <td className="text-right">{formatNumber(appliance.simultaneityFactor, 2)}</td>
+                      <td className="text-right">{formatNumber(appliance.demandLoad, 0)} W</td>
+                      <td className="pl-2">
+                        <select
+                          value={appliance.circuitId ?? ''}
+                          onChange={(e) => assignApplianceToCircuit(appliance.elementId, e.target.value || null)}
+                          className="border rounded px-1 py-0.5 bg-background"
+                        >
+                          <option value="">–</option>
+                          {electricalCircuits.map((circuit) => (
+                            <option key={circuit.id} value={circuit.id}>
+                              {circuit.name}
+                            </option>
+                          ))}
+                        </select>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            {budget.bySpace.size > 0 &&
+              renderSummaryTable(
+                t('electrical.bySpace'),
+                Array.from(budget.bySpace.entries()).map(([id, summary]) => [getName(id), summary])
+              )}
+
+            {storeys.length > 1 &&
+              renderSummaryTable(
+                t('electrical.byStorey'),
+                Array.from(budget.byStorey.entries()).map(([id, summary]) => [getStoreyName(id), summary])
+              )}
+
+            <details className="text-xs">
+              <summary className="cursor-pointer text-muted-foreground hover:text-foreground">
+                {t('electrical.simultaneityFactors')}
+              </summary>
+              <table className="w-full mt-2">
+                <tbody>
+                  {applianceTypes.map((type) => (
+                    <tr key={type}>
+                      <td className="py-0.5 pr-4 whitespace-nowrap">{IFC_ELECTRIC_APPLIANCE_LABELS[type]}</td>
+                      <td className="text-right">
+                        <input
+                          type="number"
+                          min={0}
+                          max={1}
+                          step={0.05}
+                          value={electricalSettings.simultaneityOverrides[type] ?? ''}
+                          placeholder={String(DEFAULT_SIMULTANEITY_FACTORS[type])}
+                          onChange={(e) => handleFactorChange(type, e.target.value)}
+                          className="border rounded px-1 py-0.5 w-20"
+                        />
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              <p className="mt-2 text-muted-foreground">{t('electrical.factorsHint')}</p>
+            </details>
+          </div>
+        )}
+      </DialogContent>
+
+      <DialogFooter>
+        <Button variant="primary" onClick={onClose}>
+          {t('dialogs.close')}
+        </Button>
+      </DialogFooter>
+    </Dialog>
+  );
+}
@@ -0,0 +1,414 @@
+import { useMemo, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import {
+  Dialog,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogContent,
+  DialogFooter,
+} from '@/components/ui/Dialog';
+import { Button } from '@/components/ui/Button';
+import { useElementStore, useProjectStore } from '@/store';
+import { useEvacuationStore } from '@/store/useEvacuationStore';
+import {
+  computeExitCurve,
+  computeDoorThroughput,
+  computeSpaceClearance,
+  computeProfileSummary,
+  downloadEvacuationResults,
+  getDensityColor,
+  DENSITY_CRITICAL,
+  type ExitCurvePoint,
+} from '@/lib/evacuation/results';
+import { getSimulationModel } from '@/lib/evacuation/simulation';
+import { AGENT_PROFILE_COLORS } from '@/lib/evacuation/profiles';
+import type { BatchStatistics } from '@/lib/evacuation/batch';
+
+interface EvacuationReportDialogProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+const CHART_WIDTH = 520;
+const CHART_HEIGHT = 160;
+const CHART_PADDING = 28;
+
+const DEFAULT_BATCH_RUNS = 10;
+const MAX_BATCH_RUNS = 100;
+
+const BATCH_FIGURES: (keyof Pick<BatchStatistics, 'mean' | 'p50' | 'p90' | 'p95' | 'min' | 'max'>)[] = [
+  'mean',
+  'p50',
+  'p90',
+  'p95',
+  'min',
+  'max',
+];
+
+function formatTime(time: number | null): string {
+  return time === null ? '–' : `${time.toFixed(1)} s`;
+}
+
+/**
+ * Cumulative exit curve as SVG line chart
+ */
+function ExitCurveChart({ points, total }: { points: ExitCurvePoint[]; total: number }) {
+  const maxTime = Math.max(1, points[points.length - 1]?.time ?? 1);
+  const maxCount = Math.max(1, total);
+  const plotWidth = CHART_WIDTH - CHART_PADDING * 2;
+  const plotHeight = CHART_HEIGHT - CHART_PADDING * 2;
+
+  const toX = (time: number) => CHART_PADDING + (time / maxTime) * plotWidth;
+  const toY = (count: number) => CHART_HEIGHT - CHART_PADDING - (count / maxCount) * plotHeight;
+
+  // Step line: hold the count until the next sample
+  const path = points
+    .map((point, i) => {
+      const previous = points[i - 1];
+      const x = toX(point.time);
+      const step = previous ? `L${x},${toY(previous.exited)} ` : `M${x},${toY(point.exited)} `;
+      return `${step}L${x},${toY(point.exited)}`;
+    })
+    .join(' ');
+
+  return (
+    <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} className="w-full h-auto text-xs">
+      <line
+        x1={CHART_PADDING}
+        y1={CHART_HEIGHT - CHART_PADDING}
+        x2={CHART_WIDTH - CHART_PADDING}
+        y2={CHART_HEIGHT - CHART_PADDING}
+        stroke="currentColor"
+        strokeOpacity={0.4}
+      />
+      <line
+        x1={CHART_PADDING}
+        y1={CHART_PADDING}
+        x2={CHART_PADDING}
+        y2={CHART_HEIGHT - CHART_PADDING}
+        stroke="currentColor"
+        strokeOpacity={0.4}
+      />
+      <line
+        x1={CHART_PADDING}
+        y1={toY(maxCount)}
+        x2={CHART_WIDTH - CHART_PADDING}
+        y2={toY(maxCount)}
+        stroke="currentColor"
+        strokeOpacity={0.2}
+        strokeDasharray="4 4"
+      />
+      <path d={path} fill="none" stroke="#16a34a" strokeWidth={2} />
+      <text x={CHART_PADDING - 4} y={toY(maxCount) + 4} textAnchor="end" fill="currentColor">
+        {maxCount}
+      </text>
+      <text x={CHART_PADDING - 4} y={CHART_HEIGHT - CHART_PADDING + 4} textAnchor="end" fill="currentColor">
+        0
+      </text>
+      <text x={CHART_WIDTH - CHART_PADDING} y={CHART_HEIGHT - 8} textAnchor="end" fill="currentColor">
+        {maxTime.toFixed(0)} s
+      </text>
+    </svg>
+  );
+}
+
+/**
+ * Evacuation times of a batch over several seeds
+ */
+function BatchSection() {
+  const { t } = useTranslation();
+  const { batch, batchProgress, isRunning, runBatch, cancelBatch } = useEvacuationStore();
+  const { getAllElements } = useElementStore();
+  const { storeys } = useProjectStore();
+  const [runs, setRuns] = useState(DEFAULT_BATCH_RUNS);
+
+  const handleRun = () => {
+    void runBatch(getSimulationModel(getAllElements(), storeys), runs);
+  };
+
+  return (
+    <div className="border rounded-lg p-4 space-y-2">
+      <h3 className="text-sm font-medium text-gray-700">{t('evacuationReport.batch')}</h3>
+      <div className="flex items-center gap-2">
+        <label className="flex items-center gap-2">
+          {t('evacuationReport.batchRuns')}
+          <input
+            type="number"
+            min={1}
+            max={MAX_BATCH_RUNS}
+            value={runs}
+            onChange={(e) => setRuns(Math.max(1, Math.min(MAX_BATCH_RUNS, parseInt(e.target.value) || 1)))}
+            disabled={batchProgress !== null}
+            className="w-16 border rounded px-1 py-0.5 text-right"
+          />
+        </label>
+        {batchProgress === null ? (
+          <Button variant="outline" size="sm" onClick={handleRun} disabled={isRunning}>
+            {t('evacuationReport.runBatch')}
+          </Button>
+        ) : (
+          <>
+            <span className="text-xs text-muted-foreground">
+              {t('evacuationReport.batchProgress', { completed: batchProgress, total: runs })}
+            </span>
+            <Button variant="ghost" size="sm" onClick={cancelBatch}>
+              {t('dialogs.cancel')}
+            </Button>
+          </>
+        )}
+      </div>
+      {batch && (
+        <>
+          <table className="w-full text-xs">
+            <thead className="text-muted-foreground">
+              <tr>
+                {BATCH_FIGURES.map((figure) => (
+                  <th key={figure} className="text-right font-normal">
+                    {t(`evacuationReport.batchFigure.${figure}`)}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              <tr>
+                {BATCH_FIGURES.map((figure) => (
+                  <td key={figure} className="text-right">
+                    {formatTime(batch[figure])}
+                  </td>
+                ))}
+              </tr>
+            </tbody>
+          </table>
+          <p className="text-xs text-muted-foreground">
+            {t('evacuationReport.batchCompleted', { completed: batch.completedRuns, total: batch.runs.length })}
+          </p>
+        </>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Report of the last evacuation run: exit curve, door throughput,
+ * space clearance times, density heatmap toggle and CSV/JSON export.
+ */
+export function EvacuationReportDialog({ open, onClose }: EvacuationReportDialogProps) {
+  const { t } = useTranslation();
+  const { results, stats, isRunning, showDensityHeatmap, setShowDensityHeatmap } = useEvacuationStore();
+  const { elements } = useElementStore();
+  const { project, storeys } = useProjectStore();
+
+  const getName = (id: string) =>
+    elements.get(id)?.name || storeys.find((storey) => storey.id === id)?.name || id;
+
+  // Re-evaluated while the dialog is open and the run progresses
+  const report = useMemo(
+    () =>
+      open && results
+        ? {
+            exitCurve: computeExitCurve(results),
+            doors: computeDoorThroughput(results),
+            spaces: computeSpaceClearance(results),
+            profiles: computeProfileSummary(results),
+          }
+        : null,
+    [open, results]
+  );
+
+  const handleDownload = (format: 'csv' | 'json') => {
+    if (!results) return;
+    downloadEvacuationResults(results, format, `${project.name}_Evakuierung`, getName);
+  };
+
+  const evacuationTime = results?.agents.reduce((max, agent) => Math.max(max, agent.exitTime ?? 0), 0) ?? 0;
+
+  return (
+    <Dialog open={open} onClose={onClose} size="lg">
+      <DialogHeader>
+        <DialogTitle>{t('evacuationReport.title')}</DialogTitle>
+        <DialogDescription>{t('evacuationReport.description')}</DialogDescription>
+      </DialogHeader>
+
+      <DialogContent>
+        <div className="space-y-4 max-h-[60vh] overflow-y-auto text-sm">
+          {!results || !report ? (
+            <p className="text-sm text-muted-foreground">{t('evacuationReport.noResults')}</p>
+          ) : (
+            <>
+              <div className="grid grid-cols-3 gap-3">
+                <div className="border rounded-lg p-3">
+                  <div className="text-xs text-muted-foreground">{t('evacuationReport.evacuated')}</div>
+                  <div className="font-medium">
+                    {stats.exitedAgents} / {results.agents.length}
+                  </div>
+                  {stats.refugeAgents > 0 && (
+                    <div className="text-xs text-muted-foreground">
+                      {t('agentProfiles.atRefuge')}: {stats.refugeAgents}
+                    </div>
+                  )}
+                  {stats.trappedAgents > 0 && (
+                    <div className="text-xs text-red-600">
+                      {t('evacuationScenarios.trapped')}: {stats.trappedAgents}
+                    </div>
+                  )}
+                </div>
+                <div className="border rounded-lg p-3">
+                  <div className="text-xs text-muted-foreground">{t('evacuationReport.evacuationTime')}</div>
+                  <div className="font-medium">{evacuationTime.toFixed(1)} s</div>
+                </div>
+                <div className="border rounded-lg p-3">
+                  <div className="text-xs text-muted-foreground">{t('evacuationReport.duration')}</div>
+                  <div className="font-medium">
+                    {results.duration.toFixed(1)} s{isRunning && ` (${t('evacuationReport.running')})`}
+                  </div>
+                  <div className="text-xs text-muted-foreground">{t('evacuationReport.seed', { seed: results.seed })}</div>
+                  {results.scenario && (
+                    <div className="text-xs text-muted-foreground truncate">
+                      {t('evacuationScenarios.scenario')}: {results.scenario.name}
+                    </div>
+                  )}
+                </div>
+              </div>
+
+              <div className="border rounded-lg p-4 space-y-2">
+                <h3 className="text-sm font-medium text-gray-700">{t('evacuationReport.exitCurve')}</h3>
+                <ExitCurveChart points={report.exitCurve} total={results.agents.length} />
+              </div>
+
+              <div className="border rounded-lg p-4 space-y-2">
+                <h3 className="text-sm font-medium text-gray-700">{t('evacuationReport.doors')}</h3>
+                <table className="w-full text-xs">
+                  <thead className="text-muted-foreground">
+                    <tr>
+                      <th className="text-left font-normal">{t('evacuationReport.door')}</th>
+                      <th className="text-right font-normal">{t('evacuationReport.persons')}</th>
+                      <th className="text-right font-normal">{t('evacuationReport.meanFlow')}</th>
+                      <th className="text-right font-normal">{t('evacuationReport.peakFlow')}</th>
+                      <th className="text-right font-normal">{t('evacuationReport.lastPassage')}</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {report.doors.map((door) => (
+                      <tr key={door.doorId}>
+                        <td className="truncate max-w-[180px]">{getName(door.doorId)}</td>
+                        <td className="text-right">{door.count}</td>
+                        <td className="text-right">{door.meanFlow.toFixed(2)}</td>
+                        <td className="text-right">{door.peakFlow.toFixed(2)}</td>
+                        <td className="text-right">{door.lastPassage.toFixed(1)} s</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+
+              <div className="border rounded-lg p-4 space-y-2">
+                <h3 className="text-sm font-medium text-gray-700">{t('agentProfiles.profiles')}</h3>
+                <table className="w-full text-xs">
+                  <thead className="text-muted-foreground">
+                    <tr>
+                      <th className="text-left font-normal">{t('agentProfiles.profile.label')}</th>
+                      <th className="text-right font-normal">{t('evacuationReport.persons')}</th>
+                      <th className="text-right font-normal">{t('evacuationReport.evacuated')}</th>
+                      <th className="text-right font-normal">{t('agentProfiles.atRefuge')}</th>
+                      <th className="text-right font-normal">{t('agentProfiles.meanExitTime')}</th>
+                      <th className="text-right font-normal">{t('agentProfiles.maxExitTime')}</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {report.profiles.map((profile) => (
+                      <tr key={profile.profileId}>
+                        <td>
+                          <span className="inline-flex items-center gap-2">
+                            <span
+                              className="w-2.5 h-2.5 rounded-full"
+                              style={{ background: AGENT_PROFILE_COLORS[profile.profileId] }}
+                            />
+                            {t(`agentProfiles.profile.${profile.profileId}`)}
+                          </span>
+                        </td>
+                        <td className="text-right">{profile.agents}</td>
+                        <td className="text-right">{profile.evacuated}</td>
+                        <td className="text-right">{profile.atRefuge}</td>
+                        <td className="text-right">
+                          {profile.meanExitTime === null ? '–' : `${profile.meanExitTime.toFixed(1)} s`}
+                        </td>
+                        <td className="text-right">
+                          {profile.maxExitTime === null ? '–' : `${profile.maxExitTime.toFixed(1)} s`}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+
+              <div className="border rounded-lg p-4 space-y-2">
+                <h3 className="text-sm font-medium text-gray-700">{t('evacuationReport.spaces')}</h3>
+                <table className="w-full text-xs">
+                  <thead className="text-muted-foreground">
+                    <tr>
+                      <th className="text-left font-normal">{t('evacuationReport.space')}</th>
+                      <th className="text-left font-normal">{t('evacuationReport.storey')}</th>
+                      <th className="text-right font-normal">{t('evacuationReport.persons')}</th>
+                      <th className="text-right font-normal">{t('evacuationReport.clearance')}</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {report.spaces.map((space) => (
+                      <tr key={space.spaceId}>
+                        <td className="truncate max-w-[180px]">{getName(space.spaceId)}</td>
+                        <td>{getName(space.storeyId)}</td>
+                        <td className="text-right">{space.agents}</td>
+                        <td className="text-right">
+                          {space.clearanceTime === null
+                            ? t('evacuationReport.notCleared')
+                            : `${space.clearanceTime.toFixed(1)} s`}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+
+              <div className="border rounded-lg p-4 space-y-2">
+                <label className="flex items-center gap-2 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={showDensityHeatmap}
+                    onChange={(e) => setShowDensityHeatmap(e.target.checked)}
+                    className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                  />
+                  {t('evacuationReport.heatmap')}
+                </label>
+                <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                  <span>0</span>
+                  <div
+                    className="h-2 flex-1 rounded"
+                    style={{
+                      background: `linear-gradient(to right, ${getDensityColor(0)}, ${getDensityColor(DENSITY_CRITICAL / 2)}, ${getDensityColor(DENSITY_CRITICAL)})`,
+                    }}
+                  />
+                  <span>≥ {DENSITY_CRITICAL} P/m²</span>
+                </div>
+                <p className="text-xs text-muted-foreground">{t('evacuationReport.heatmapHint')}</p>
+              </div>
+            </>
+          )}
+          <BatchSection />
+        </div>
+      </DialogContent>
+
+      <DialogFooter>
+        <Button variant="ghost" onClick={onClose}>
+          {t('dialogs.close')}
+        </Button>
+        <Button variant="outline" onClick={() => handleDownload('json')} disabled={!results}>
+          {t('evacuationReport.exportJson')}
+        </Button>
+        <Button variant="primary" onClick={() => handleDownload('csv')} disabled={!results}>
+          {t('evacuationReport.exportCsv')}
+        </Button>
+      </DialogFooter>
+    </Dialog>
+  );
+}
@@ -0,0 +1,379 @@
+import { useMemo, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Plus, Trash2 } from 'lucide-react';
+import {
+  Dialog,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogContent,
+  DialogFooter,
+} from '@/components/ui/Dialog';
+import { Button } from '@/components/ui/Button';
+import { useElementStore, useProjectStore } from '@/store';
+import { useEvacuationStore } from '@/store/useEvacuationStore';
+import { findExitDoors } from '@/lib/evacuation/routes';
+import { getSimulationModel } from '@/lib/evacuation/simulation';
+import {
+  createEvacuationScenario,
+  getDefaultPreMovement,
+  DEFAULT_FIRE_DELAY,
+  PRE_MOVEMENT_TYPES,
+  type EvacuationScenario,
+  type PreMovementDistribution,
+  type PreMovementType,
+} from '@/lib/evacuation/scenarios';
+
+interface EvacuationScenariosDialogProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+type PreMovementParameter = 'min' | 'max' | 'mean' | 'stdDev';
+
+/** Editable parameters per distribution type */
+const PRE_MOVEMENT_PARAMETERS: Record<PreMovementType, PreMovementParameter[]> = {
+  none: [],
+  uniform: ['min', 'max'],
+  normal: ['mean', 'stdDev'],
+  lognormal: ['mean', 'stdDev'],
+};
+
+const DEFAULT_COMPARISON_RUNS = 5;
+const MAX_COMPARISON_RUNS = 50;
+
+function formatTime(time: number | null): string {
+  return time === null ? '–' : `${time.toFixed(1)} s`;
+}
+
+/**
+ * Editor for the blocked doors, fire origin and pre-movement time of one scenario
+ */
+function ScenarioEditor({ scenario, disabled }: { scenario: EvacuationScenario; disabled: boolean }) {
+  const { t } = useTranslation();
+  const { updateEvacuationScenario, storeys } = useProjectStore();
+  const { elements } = useElementStore();
+  const { fireOrigin } = scenario;
+
+  const { spaces, doors, exitDoorIds } = useMemo(() => {
+    const model = getSimulationModel(Array.from(elements.values()), storeys);
+    const exits = findExitDoors(model.doors, model.walls, model.spaces, storeys);
+    return { spaces: model.spaces, doors: model.doors, exitDoorIds: new Set(exits.map((exit) => exit.id)) };
+  }, [elements, storeys]);
+
+  const update = (updates: Partial<Omit<EvacuationScenario, 'id'>>) => updateEvacuationScenario(scenario.id, updates);
+
+  const toggleDoor = (doorId: string, blocked: boolean) =>
+    update({
+      blockedDoorIds: blocked
+        ? [...scenario.blockedDoorIds, doorId]
+        : scenario.blockedDoorIds.filter((id) => id !== doorId),
+    });
+
+  const preMovementValues = scenario.preMovement as Partial<Record<PreMovementParameter, number>>;
+  const updatePreMovement = (key: PreMovementParameter, value: number) =>
+    update({ preMovement: { ...scenario.preMovement, [key]: Math.max(0, value) } as PreMovementDistribution });
+
+  const getStoreyName = (id: string | null | undefined) => storeys.find((storey) => storey.id === id)?.name ?? '';
+
+  // Exits first, then interior doors
+  const sortedDoors = [...doors].sort((a, b) => Number(exitDoorIds.has(b.id)) - Number(exitDoorIds.has(a.id)));
+
+  return (
+    <div className="space-y-4">
+      <label className="flex flex-col gap-1">
+        <span className="text-xs text-muted-foreground">{t('evacuationScenarios.name')}</span>
+        <input
+          type="text"
+          value={scenario.name}
+          onChange={(e) => update({ name: e.target.value })}
+          disabled={disabled}
+          className="border rounded px-2 py-1"
+        />
+      </label>
+
+      <div className="border rounded-lg p-4 space-y-2">
+        <h3 className="text-sm font-medium text-gray-700">{t('evacuationScenarios.blockedDoors')}</h3>
+        {sortedDoors.length === 0 ? (
+          <p className="text-xs text-muted-foreground">{t('evacuationScenarios.noDoors')}</p>
+        ) : (
+          <div className="max-h-40 overflow-y-auto space-y-1 text-xs">
+            {sortedDoors.map((door) => (
+              <label key={door.id} className="flex items-center gap-2 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={scenario.blockedDoorIds.includes(door.id)}
+                  onChange={(e) => toggleDoor(door.id, e.target.checked)}
+                  disabled={disabled}
+                  className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                />
+                <span className="truncate">{door.name || door.id}</span>
+                <span className="text-muted-foreground">{getStoreyName(door.parentId)}</span>
+                {exitDoorIds.has(door.id) && (
+                  <span className="ml-auto text-green-700">{t('evacuationScenarios.exit')}</span>
+                )}
+              </label>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div className="border rounded-lg p-4 space-y-2">
+        <h3 className="text-sm font-medium text-gray-700">{t('evacuationScenarios.fireOrigin')}</h3>
+        <div className="flex items-center gap-2 text-xs">
+          <select
+            value={fireOrigin?.spaceId ?? ''}
+            onChange={(e) =>
+              update({
+                fireOrigin: e.target.value
+                  ? { spaceId: e.target.value, delay: fireOrigin?.delay ?? DEFAULT_FIRE_DELAY }
+                  : null,
+              })
+            }
+            disabled={disabled}
+            className="flex-1 border rounded px-2 py-1"
+          >
+            <option value="">{t('evacuationScenarios.noFire')}</option>
+            {spaces.map((space) => (
+              <option key={space.id} value={space.id}>
+                {space.name || space.id} ({getStoreyName(space.parentId)})
+              </option>
+            ))}
+          </select>
+          {fireOrigin && (
+            <label className="flex items-center gap-1">
+              {t('evacuationScenarios.fireDelay')}
+              <input
+                type="number"
+                min={0}
+                step={5}
+                value={fireOrigin.delay}
+                onChange={(e) =>
+                  update({ fireOrigin: { ...fireOrigin, delay: Math.max(0, parseFloat(e.target.value) || 0) } })
+                }
+                disabled={disabled}
+                className="w-16 border rounded px-1 py-0.5 text-right"
+              />
+              s
+            </label>
+          )}
+        </div>
+        <p className="text-xs text-muted-foreground">{t('evacuationScenarios.fireHint')}</p>
+      </div>
+
+      <div className="border rounded-lg p-4 space-y-2">
+        <h3 className="text-sm font-medium text-gray-700">{t('evacuationScenarios.preMovement')}</h3>
+        <div className="flex items-center gap-2 text-xs flex-wrap">
+          <select
+            value={scenario.preMovement.type}
+            onChange={(e) => update({ preMovement: getDefaultPreMovement(e.target.value as PreMovementType) })}
+            disabled={disabled}
+            className="border rounded px-2 py-1"
+          >
+            {PRE_MOVEMENT_TYPES.map((type) => (
+              <option key={type} value={type}>
+                {t(`evacuationScenarios.distribution.${type}`)}
+              </option>
+            ))}
+          </select>
+          {PRE_MOVEMENT_PARAMETERS[scenario.preMovement.type].map((key) => (
+            <label key={key} className="flex items-center gap-1">
+              {t(`evacuationScenarios.parameter.${key}`)}
+              <input
+                type="number"
+                min={0}
+                step={1}
+                value={preMovementValues[key] ?? 0}
+                onChange={(e) => updatePreMovement(key, parseFloat(e.target.value) || 0)}
+                disabled={disabled}
+                className="w-14 border rounded px-1 py-0.5 text-right"
+              />
+              s
+            </label>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Reference case and all scenarios run on the same seeds, side by side
+ */
+function ComparisonSection() {
+  const { t } = useTranslation();
+  const { comparison, comparisonProgress, isRunning, runComparison, cancelBatch } = useEvacuationStore();
+  const { getAllElements } = useElementStore();
+  const { storeys, evacuationScenarios } = useProjectStore();
+  const [runs, setRuns] = useState(DEFAULT_COMPARISON_RUNS);
+
+  const handleRun = () => {
+    void runComparison(getSimulationModel(getAllElements(), storeys), runs);
+  };
+
+  return (
+    <div className="border rounded-lg p-4 space-y-2">
+      <h3 className="text-sm font-medium text-gray-700">{t('evacuationScenarios.comparison')}</h3>
+      <div className="flex items-center gap-2">
+        <label className="flex items-center gap-2">
+          {t('evacuationReport.batchRuns')}
+          <input
+            type="number"
+            min={1}
+            max={MAX_COMPARISON_RUNS}
+            value={runs}
+            onChange={(e) => setRuns(Math.max(1, Math.min(MAX_COMPARISON_RUNS, parseInt(e.target.value) || 1)))}
+            disabled={comparisonProgress !== null}
+            className="w-16 border rounded px-1 py-0.5 text-right"
+          />
+        </label>
+        {comparisonProgress === null ? (
+          <Button variant="outline" size="sm" onClick={handleRun} disabled={isRunning}>
+            {t('evacuationScenarios.runComparison')}
+          </Button>
+        ) : (
+          <>
+            <span className="text-xs text-muted-foreground">
+              {t('evacuationReport.batchProgress', {
+                completed: comparisonProgress,
+                total: runs * (evacuationScenarios.length + 1),
+              })}
+            </span>
+            <Button variant="ghost" size="sm" onClick={cancelBatch}>
+              {t('dialogs.cancel')}
+            </Button>
+          </>
+        )}
+      </div>
+      {comparison && (
+        <table className="w-full text-xs">
+          <thead className="text-muted-foreground">
+            <tr>
+              <th className="text-left font-normal">{t('evacuationScenarios.scenario')}</th>
+              <th className="text-right font-normal">{t('evacuationReport.batchFigure.mean')}</th>
+              <th className="text-right font-normal">{t('evacuationReport.batchFigure.p90')}</th>
+              <th className="text-right font-normal">{t('evacuationReport.batchFigure.max')}</th>
+              <th className="text-right font-normal">{t('evacuationScenarios.completedRuns')}</th>
+              <th className="text-right font-normal">{t('evacuationScenarios.trapped')}</th>
+            </tr>
+          </thead>
+          <tbody>
+            {comparison.map(({ scenario, statistics }) => (
+              <tr key={scenario?.id ?? 'reference'} className={statistics.maxTrapped > 0 ? 'text-red-600' : ''}>
+                <td className="truncate max-w-[180px]">{scenario?.name ?? t('evacuationScenarios.reference')}</td>
+                <td className="text-right">{formatTime(statistics.mean)}</td>
+                <td className="text-right">{formatTime(statistics.p90)}</td>
+                <td className="text-right">{formatTime(statistics.max)}</td>
+                <td className="text-right">
+                  {statistics.completedRuns} / {statistics.runs.length}
+                </td>
+                <td className="text-right">{statistics.maxTrapped}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+      <p className="text-xs text-muted-foreground">{t('evacuationScenarios.comparisonHint')}</p>
+    </div>
+  );
+}
+
+/**
+ * Evacuation scenarios of the project: definition, selection for the
+ * interactive run and side-by-side comparison
+ */
+export function EvacuationScenariosDialog({ open, onClose }: EvacuationScenariosDialogProps) {
+  const { t } = useTranslation();
+  const { evacuationScenarios, addEvacuationScenario, removeEvacuationScenario } = useProjectStore();
+  const { activeScenarioId, setActiveScenario, isRunning } = useEvacuationStore();
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  const selected = evacuationScenarios.find((scenario) => scenario.id === selectedId) ?? evacuationScenarios[0];
+
+  const handleAdd = () => {
+    const scenario = createEvacuationScenario(
+      t('evacuationScenarios.defaultName', { number: evacuationScenarios.length + 1 })
+    );
+    addEvacuationScenario(scenario);
+    setSelectedId(scenario.id);
+  };
+
+  const handleRemove = (id: string) => {
+    removeEvacuationScenario(id);
+    if (activeScenarioId === id) setActiveScenario(null);
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} size="xl">
+      <DialogHeader>
+        <DialogTitle>{t('evacuationScenarios.title')}</DialogTitle>
+        <DialogDescription>{t('evacuationScenarios.description')}</DialogDescription>
+      </DialogHeader>
+
+      <DialogContent>
+        <div className="space-y-4 max-h-[65vh] overflow-y-auto text-sm">
+          <div className="grid grid-cols-[200px_1fr] gap-4">
+            <div className="space-y-1">
+              <label className="flex items-center gap-2 px-2 py-1 text-xs cursor-pointer">
+                <input
+                  type="radio"
+                  checked={activeScenarioId === null}
+                  onChange={() => setActiveScenario(null)}
+                  disabled={isRunning}
+                />
+                {t('evacuationScenarios.reference')}
+              </label>
+              {evacuationScenarios.map((scenario) => (
+                <div
+                  key={scenario.id}
+                  className={`flex items-center gap-2 px-2 py-1 rounded text-xs cursor-pointer ${
+                    scenario.id === selected?.id ? 'bg-blue-50' : 'hover:bg-gray-50'
+                  }`}
+                  onClick={() => setSelectedId(scenario.id)}
+                >
+                  <input
+                    type="radio"
+                    checked={activeScenarioId === scenario.id}
+                    onChange={() => setActiveScenario(scenario.id)}
+                    disabled={isRunning}
+                    title={t('evacuationScenarios.activeHint')}
+                  />
+                  <span className="flex-1 truncate">{scenario.name}</span>
+                  <button
+                    className="text-muted-foreground hover:text-red-600"
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      handleRemove(scenario.id);
+                    }}
+                    title={t('evacuationScenarios.delete')}
+                  >
+                    <Trash2 size={12} />
+                  </button>
+                </div>
+              ))}
+              <Button variant="ghost" size="sm" onClick={handleAdd}>
+                <Plus size={14} className="mr-1" />
+                {t('evacuationScenarios.add')}
+              </Button>
+              <p className="px-2 text-xs text-muted-foreground">{t('evacuationScenarios.activeHint')}</p>
+            </div>
+
+            {selected ? (
+              <ScenarioEditor scenario={selected} disabled={isRunning} />
+            ) : (
+              <p className="text-xs text-muted-foreground">{t('evacuationScenarios.empty')}</p>
+            )}
+          </div>
+
+          <ComparisonSection />
+        </div>
+      </DialogContent>
+
+      <DialogFooter>
+        <Button variant="primary" onClick={onClose}>
+          {t('dialogs.close')}
+        </Button>
+      </DialogFooter>
+    </Dialog>
+  );
+}
@@ -0,0 +1,157 @@
+import { useMemo, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import {
+  Dialog,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogContent,
+  DialogFooter,
+} from '@/components/ui/Dialog';
+import { Button } from '@/components/ui/Button';
+import { useProjectStore, useElementStore } from '@/store';
+import {
+  createAssetRegister,
+  assetRegisterToXlsx,
+  assetRegisterSheetToCsv,
+  downloadAssetRegister,
+  type AssetRegisterSheetName,
+} from '@/lib/cobie';
+
+interface ExportAssetRegisterDialogProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+/** Rows shown in the preview table */
+const PREVIEW_ROWS = 50;
+
+/**
+ * Asset register (COBie-style workbook) of the furniture and equipment
+ */
+export function ExportAssetRegisterDialog({ open, onClose }: ExportAssetRegisterDialogProps) {
+  const { t } = useTranslation();
+  const { project, site, building, storeys } = useProjectStore();
+  const { elements } = useElementStore();
+
+  const [createdBy, setCreatedBy] = useState('');
+  const [activeSheet, setActiveSheet] = useState<AssetRegisterSheetName>('Component');
+
+  // Only computed while the dialog is open
+  const sheets = useMemo(
+    () =>
+      open
+        ? createAssetRegister(
+            { project, site, building, storeys, elements: Array.from(elements.values()) },
+            { createdBy }
+          )
+        : [],
+    [open, project, site, building, storeys, elements, createdBy]
+  );
+
+  const sheet = sheets.find((s) => s.name === activeSheet);
+  const componentCount = sheets.find((s) => s.name === 'Component')?.rows.length ?? 0;
+  const typeCount = sheets.find((s) => s.name === 'Type')?.rows.length ?? 0;
+
+  const handleExport = (format: 'xlsx' | 'csv') => {
+    try {
+      if (format === 'xlsx') {
+        downloadAssetRegister(assetRegisterToXlsx(sheets), 'xlsx', `${project.name}_Anlagenliste`);
+      } else if (sheet) {
+        downloadAssetRegister(assetRegisterSheetToCsv(sheet), 'csv', `${project.name}_Anlagenliste_${sheet.name}`);
+      }
+    } catch (error) {
+      console.error('Asset register export failed:', error);
+      alert(t('dialogs.exportFailed'));
+    }
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} size="xl">
+      <DialogHeader>
+        <DialogTitle>{t('export.assetRegisterDialogTitle')}</DialogTitle>
+        <DialogDescription>{t('export.assetRegisterDialogDescription')}</DialogDescription>
+      </DialogHeader>
+
+      <DialogContent>
+        <div className="space-y-4 text-sm">
+          <div className="flex items-end justify-between gap-4">
+            <label className="flex flex-col gap-1">
+              <span className="text-xs text-muted-foreground">{t('export.assetRegisterCreatedBy')}</span>
+              <input
+                type="email"
+                value={createdBy}
+                placeholder="facility@example.ch"
+                onChange={(e) => setCreatedBy(e.target.value)}
+                className="border rounded px-2 py-1 w-64"
+              />
+            </label>
+            <span className="text-xs text-muted-foreground">
+              {t('export.assetRegisterSummary', { components: componentCount, types: typeCount })}
+            </span>
+          </div>
+
+          {componentCount === 0 && <p className="text-xs text-amber-600">{t('export.assetRegisterNoAssets')}</p>}
+
+          <div className="flex gap-1 border-b">
+            {sheets.map((s) => (
+              <button
+                key={s.name}
+                onClick={() => setActiveSheet(s.name)}
+                className={`px-3 py-1 text-xs rounded-t border-b-2 ${
+                  s.name === activeSheet ? 'border-blue-600 font-medium' : 'border-transparent text-muted-foreground hover:text-foreground'
+                }`}
+              >
+                {s.name} ({s.rows.length})
+              </button>
+            ))}
+          </div>
+
+          {sheet && (
+            <div className="max-h-[45vh] overflow-auto border rounded">
+              <table className="text-xs whitespace-nowrap">
+                <thead className="bg-muted sticky top-0">
+                  <tr>
+                    {sheet.columns.map((column) => (
+                      <th key={column} className="text-left font-medium px-2 py-1">
+                        {column}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {sheet.rows.slice(0, PREVIEW_ROWS).map((row, i) => (
+                    <tr key={i} className="border-t">
+                      {row.map((cell, j) => (
+                        <td key={j} className="px-2 py-0.5">
+                          {String(cell ?? '')}
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              {sheet.rows.length > PREVIEW_ROWS && (
+                <p className="px-2 py-1 text-xs text-muted-foreground">
+                  {t('export.assetRegisterMoreRows', { count: sheet.rows.length - PREVIEW_ROWS })}
+                </p>
+              )}
+            </div>
+          )}
+        </div>
+      </DialogContent>
+
+      <DialogFooter>
+        <Button variant="ghost" onClick={onClose}>
+          {t('dialogs.cancel')}
+        </Button>
+        <Button variant="ghost" onClick={() => handleExport('csv')} disabled={!sheet}>
+          {t('export.assetRegisterCsv', { sheet: activeSheet })}
+        </Button>
+        <Button variant="primary" onClick={() => handleExport('xlsx')}>
+          {t('export.assetRegisterXlsx')}
+        </Button>
+      </DialogFooter>
+    </Dialog>
+  );
+}
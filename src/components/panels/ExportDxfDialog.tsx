@@ -0,0 +1,108 @@
+import { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import {
+  Dialog,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogContent,
+  DialogFooter,
+} from '@/components/ui/Dialog';
+import { Button } from '@/components/ui/Button';
+import { useProjectStore, useElementStore, useViewStore } from '@/store';
+import { downloadFloorPlanDxf, type DxfExportScope } from '@/lib/dxf';
+
+interface ExportDxfDialogProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+const SCOPE_OPTIONS: DxfExportScope[] = ['active', 'all'];
+
+export function ExportDxfDialog({ open, onClose }: ExportDxfDialogProps) {
+  const { t } = useTranslation();
+  const { project, storeys, activeStoreyId } = useProjectStore();
+  const { getAllElements } = useElementStore();
+  const { dimensionSettings } = useViewStore();
+
+  const [scope, setScope] = useState<DxfExportScope>('active');
+  const [includeDimensions, setIncludeDimensions] = useState(true);
+
+  const canExport = scope === 'all' ? storeys.length > 0 : activeStoreyId !== null;
+
+  const handleExport = () => {
+    try {
+      downloadFloorPlanDxf(project.name, storeys, getAllElements(), {
+        scope,
+        activeStoreyId,
+        includeDimensions,
+        dimensionSettings,
+      });
+      onClose();
+    } catch (error) {
+      console.error('DXF Export failed:', error);
+      alert(t('dialogs.exportFailed'));
+    }
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} size="md">
+      <DialogHeader>
+        <DialogTitle>{t('export.dxfDialogTitle')}</DialogTitle>
+        <DialogDescription>{t('export.dxfDialogDescription')}</DialogDescription>
+      </DialogHeader>
+
+      <DialogContent>
+        <div className="space-y-4">
+          <div className="border rounded-lg p-4 space-y-3">
+            <h3 className="text-sm font-medium text-gray-700">{t('export.dxfScope')}</h3>
+            <div className="space-y-2">
+              {SCOPE_OPTIONS.map((option) => (
+                <label key={option} className="flex items-start gap-3 cursor-pointer">
+                  <input
+                    type="radio"
+                    name="dxfScope"
+                    value={option}
+                    checked={scope === option}
+                    onChange={() => setScope(option)}
+                    className="mt-1 text-blue-600 focus:ring-blue-500"
+                  />
+                  <div>
+                    <div className="font-medium text-sm">
+                      {t(option === 'active' ? 'export.dxfScopeActive' : 'export.dxfScopeAll')}
+                    </div>
+                    <div className="text-xs text-gray-500">
+                      {t(option === 'active' ? 'export.dxfScopeActiveHint' : 'export.dxfScopeAllHint')}
+                    </div>
+                  </div>
+                </label>
+              ))}
+            </div>
+            {scope === 'active' && !activeStoreyId && (
+              <p className="text-xs text-red-600">{t('export.dxfNoStorey')}</p>
+            )}
+          </div>
+
+          <label className="flex items-center gap-2 text-sm cursor-pointer">
+            <input
+              type="checkbox"
+              checked={includeDimensions}
+              onChange={(e) => setIncludeDimensions(e.target.checked)}
+              className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+            />
+            {t('export.dxfDimensions')}
+          </label>
+        </div>
+      </DialogContent>
+
+      <DialogFooter>
+        <Button variant="ghost" onClick={onClose}>
+          {t('dialogs.cancel')}
+        </Button>
+        <Button variant="primary" onClick={handleExport} disabled={!canExport}>
+          {t('export.dxf')}
+        </Button>
+      </DialogFooter>
+    </Dialog>
+  );
+}
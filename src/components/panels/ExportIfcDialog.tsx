@@ -0,0 +1,66 @@
+import { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import {
+  Dialog,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogContent,
+  DialogFooter,
+} from '@/components/ui/Dialog';
+import { Button } from '@/components/ui/Button';
+import { IFC_SCHEMA_OPTIONS, DEFAULT_IFC_SCHEMA, type IfcSchemaVersion } from '@/bim/ifc';
+
+interface ExportIfcDialogProps {
+  open: boolean;
+  onClose: () => void;
+  isExporting: boolean;
+  onExport: (schema: IfcSchemaVersion) => void;
+}
+
+export function ExportIfcDialog({ open, onClose, isExporting, onExport }: ExportIfcDialogProps) {
+  const { t } = useTranslation();
+  const [schema, setSchema] = useState<IfcSchemaVersion>(DEFAULT_IFC_SCHEMA);
+
+  return (
+    <Dialog open={open} onClose={onClose} size="md">
+      <DialogHeader>
+        <DialogTitle>{t('export.dialogTitle')}</DialogTitle>
+        <DialogDescription>{t('export.dialogDescription')}</DialogDescription>
+      </DialogHeader>
+
+      <DialogContent>
+        <div className="border rounded-lg p-4 space-y-3">
+          <h3 className="text-sm font-medium text-gray-700">{t('export.schema')}</h3>
+          <div className="space-y-2">
+            {IFC_SCHEMA_OPTIONS.map((option) => (
+              <label key={option.value} className="flex items-start gap-3 cursor-pointer">
+                <input
+                  type="radio"
+                  name="ifcSchema"
+                  value={option.value}
+                  checked={schema === option.value}
+                  onChange={() => setSchema(option.value)}
+                  className="mt-1 text-blue-600 focus:ring-blue-500"
+                />
+                <div>
+                  <div className="font-medium text-sm">{option.label}</div>
+                  <div className="text-xs text-gray-500">{t(`export.schemaHint.${option.value}`)}</div>
+                </div>
+              </label>
+            ))}
+          </div>
+        </div>
+      </DialogContent>
+
+      <DialogFooter>
+        <Button variant="ghost" onClick={onClose}>
+          {t('dialogs.cancel')}
+        </Button>
+        <Button variant="primary" onClick={() => onExport(schema)} disabled={isExporting}>
+          {isExporting ? t('export.exporting') : t('export.ifc')}
+        </Button>
+      </DialogFooter>
+    </Dialog>
+  );
+}
@@ -0,0 +1,208 @@
+import { useState, useMemo } from 'react';
+import { useTranslation } from 'react-i18next';
+import {
+  Dialog,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogContent,
+  DialogFooter,
+} from '@/components/ui/Dialog';
+import { Button } from '@/components/ui/Button';
+import { useProjectStore, useElementStore, useViewStore } from '@/store';
+import {
+  PAPER_SIZES,
+  PLAN_SCALES,
+  calculatePlanFit,
+  suggestPlanScale,
+  downloadFloorPlanPdf,
+  type PaperSize,
+  type PaperOrientation,
+  type PlanScale,
+  type PlanPdfLayers,
+} from '@/lib/pdf';
+
+interface ExportPdfDialogProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+type PlanScope = 'active' | 'all';
+
+const SCOPE_OPTIONS: PlanScope[] = ['active', 'all'];
+const ORIENTATION_OPTIONS: PaperOrientation[] = ['landscape', 'portrait'];
+const LAYER_OPTIONS: (keyof PlanPdfLayers)[] = ['dimensions', 'furniture', 'fireSafety'];
+
+export function ExportPdfDialog({ open, onClose }: ExportPdfDialogProps) {
+  const { t } = useTranslation();
+  const { project, site, building, storeys, activeStoreyId } = useProjectStore();
+  const { getAllElements } = useElementStore();
+  const { dimensionSettings } = useViewStore();
+
+  const [scope, setScope] = useState<PlanScope>('active');
+  const [paperSize, setPaperSize] = useState<PaperSize>('A3');
+  const [orientation, setOrientation] = useState<PaperOrientation>('landscape');
+  const [scale, setScale] = useState<PlanScale>(100);
+  const [layers, setLayers] = useState<PlanPdfLayers>({ dimensions: true, furniture: true, fireSafety: false });
+
+  const storeyIds = useMemo(
+    () =>
+      scope === 'all'
+        ? [...storeys].sort((a, b) => a.elevation - b.elevation).map((storey) => storey.id)
+        : activeStoreyId
+          ? [activeStoreyId]
+          : [],
+    [scope, storeys, activeStoreyId]
+  );
+
+  // Storeys that do not fit on the paper at the chosen scale
+  const { overflowing, suggestedScale } = useMemo(() => {
+    if (!open) return { overflowing: [], suggestedScale: scale };
+    const elements = getAllElements();
+    const paper = { paperSize, orientation, layers, dimensionSettings };
+    const byStorey = storeyIds.map((id) => elements.filter((e) => e.parentId === id));
+
+    return {
+      overflowing: storeyIds.filter(
+        (_id, i) => !calculatePlanFit(byStorey[i]!, { ...paper, scale }).fits
+      ),
+      suggestedScale: Math.max(
+        PLAN_SCALES[0],
+        ...byStorey.map((storeyElements) => suggestPlanScale(storeyElements, paper))
+      ) as PlanScale,
+    };
+  }, [open, getAllElements, storeyIds, paperSize, orientation, scale, layers, dimensionSettings]);
+
+  const toggleLayer = (layer: keyof PlanPdfLayers) => {
+    setLayers((prev) => ({ ...prev, [layer]: !prev[layer] }));
+  };
+
+  const handleExport = () => {
+    try {
+      downloadFloorPlanPdf(
+        { project, site, building, storeys, elements: getAllElements() },
+        { paperSize, orientation, scale, storeyIds, layers, dimensionSettings }
+      );
+      onClose();
+    } catch (error) {
+      console.error('PDF Export failed:', error);
+      alert(t('dialogs.exportFailed'));
+    }
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} size="md">
+      <DialogHeader>
+        <DialogTitle>{t('export.pdfDialogTitle')}</DialogTitle>
+        <DialogDescription>{t('export.pdfDialogDescription')}</DialogDescription>
+      </DialogHeader>
+
+      <DialogContent>
+        <div className="space-y-4">
+          <div className="border rounded-lg p-4 space-y-3">
+            <h3 className="text-sm font-medium text-gray-700">{t('export.pdfScope')}</h3>
+            <div className="flex gap-4">
+              {SCOPE_OPTIONS.map((option) => (
+                <label key={option} className="flex items-center gap-2 text-sm cursor-pointer">
+                  <input
+                    type="radio"
+                    name="pdfScope"
+                    value={option}
+                    checked={scope === option}
+                    onChange={() => setScope(option)}
+                    className="text-blue-600 focus:ring-blue-500"
+                  />
+                  {t(option === 'active' ? 'export.dxfScopeActive' : 'export.dxfScopeAll')}
+                </label>
+              ))}
+            </div>
+            {storeyIds.length === 0 && <p className="text-xs text-red-600">{t('export.dxfNoStorey')}</p>}
+          </div>
+
+          <div className="border rounded-lg p-4 space-y-3">
+            <h3 className="text-sm font-medium text-gray-700">{t('export.pdfPaper')}</h3>
+            <div className="grid grid-cols-2 gap-3">
+              <label className="text-sm space-y-1">
+                <span className="block text-gray-600">{t('export.pdfPaperSize')}</span>
+                <select
+                  value={paperSize}
+                  onChange={(e) => setPaperSize(e.target.value as PaperSize)}
+                  className="w-full border rounded px-2 py-1 text-sm"
+                >
+                  {(Object.keys(PAPER_SIZES) as PaperSize[]).map((size) => (
+                    <option key={size} value={size}>
+                      {size}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <label className="text-sm space-y-1">
+                <span className="block text-gray-600">{t('export.pdfScale')}</span>
+                <select
+                  value={scale}
+                  onChange={(e) => setScale(Number(e.target.value) as PlanScale)}
+                  className="w-full border rounded px-2 py-1 text-sm"
+                >
+                  {PLAN_SCALES.map((option) => (
+                    <option key={option} value={option}>
+                      1:{option}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            </div>
+            <div className="flex gap-4">
+              {ORIENTATION_OPTIONS.map((option) => (
+                <label key={option} className="flex items-center gap-2 text-sm cursor-pointer">
+                  <input
+                    type="radio"
+                    name="pdfOrientation"
+                    value={option}
+                    checked={orientation === option}
+                    onChange={() => setOrientation(option)}
+                    className="text-blue-600 focus:ring-blue-500"
+                  />
+                  {t(option === 'landscape' ? 'export.pdfLandscape' : 'export.pdfPortrait')}
+                </label>
+              ))}
+            </div>
+            {overflowing.length > 0 && (
+              <p className="text-xs text-amber-700">
+                {t('export.pdfDoesNotFit')}{' '}
+                {suggestedScale !== scale && (
+                  <button onClick={() => setScale(suggestedScale)} className="underline">
+                    {t('export.pdfUseScale', { scale: `1:${suggestedScale}` })}
+                  </button>
+                )}
+              </p>
+            )}
+          </div>
+
+          <div className="border rounded-lg p-4 space-y-2">
+            <h3 className="text-sm font-medium text-gray-700">{t('export.pdfLayers')}</h3>
+            {LAYER_OPTIONS.map((layer) => (
+              <label key={layer} className="flex items-center gap-2 text-sm cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={layers[layer]}
+                  onChange={() => toggleLayer(layer)}
+                  className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                />
+                {t(`export.pdfLayer.${layer}`)}
+              </label>
+            ))}
+          </div>
+        </div>
+      </DialogContent>
+
+      <DialogFooter>
+        <Button variant="ghost" onClick={onClose}>
+          {t('dialogs.cancel')}
+        </Button>
+        <Button variant="primary" onClick={handleExport} disabled={storeyIds.length === 0}>
+          {t('export.pdf')}
+        </Button>
+      </DialogFooter>
+    </Dialog>
+  );
+}
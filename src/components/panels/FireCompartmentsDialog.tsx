@@ -0,0 +1,320 @@
+import { useMemo, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { AlertCircle, AlertTriangle, CheckCircle2, Plus, Trash2 } from 'lucide-react';
+import {
+  Dialog,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogContent,
+  DialogFooter,
+} from '@/components/ui/Dialog';
+import { Button } from '@/components/ui/Button';
+import { useElementStore, useProjectStore, useSelectionStore, useViewStore } from '@/store';
+import {
+  createFireCompartment,
+  checkFireCompartments,
+  getCompartmentArea,
+  getCompartmentMaxArea,
+  getSpaceCompartmentMap,
+  type FireCompartment,
+  type FireCompartmentFinding,
+} from '@/bim/spaces';
+import { FIRE_RATINGS, type FireRating } from '@/types/bim';
+
+interface FireCompartmentsDialogProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+/**
+ * Format measured value and limit of a finding for the message
+ */
+function formatFinding(finding: FireCompartmentFinding, noRating: string): { value: string; limit: string } {
+  if (finding.rule === 'areaLimit') {
+    return { value: finding.value?.toFixed(1) ?? '', limit: finding.limit?.toFixed(0) ?? '' };
+  }
+  const formatRating = (minutes: number | undefined) => (minutes ? `REI${minutes}` : noRating);
+  return { value: formatRating(finding.value), limit: formatRating(finding.limit) };
+}
+
+/**
+ * Editor for name, rating, area limit and spaces of one compartment
+ */
+function CompartmentEditor({ compartment }: { compartment: FireCompartment }) {
+  const { t } = useTranslation();
+  const { fireCompartments, storeys, updateFireCompartment, assignSpaceToCompartment } = useProjectStore();
+  const { elements } = useElementStore();
+
+  const allElements = useMemo(() => Array.from(elements.values()), [elements]);
+  const spaces = allElements.filter((e) => e.type === 'space' && e.spaceData);
+  const spaceCompartments = getSpaceCompartmentMap(fireCompartments);
+
+  const area = getCompartmentArea(compartment, allElements);
+  const maxArea = getCompartmentMaxArea(compartment, allElements);
+
+  const update = (updates: Partial<Omit<FireCompartment, 'id'>>) => updateFireCompartment(compartment.id, updates);
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-[1fr_auto] gap-3">
+        <label className="flex flex-col gap-1">
+          <span className="text-xs text-muted-foreground">{t('fireCompartments.name')}</span>
+          <input
+            type="text"
+            value={compartment.name}
+            onChange={(e) => update({ name: e.target.value })}
+            className="border rounded px-2 py-1"
+          />
+        </label>
+        <label className="flex flex-col gap-1">
+          <span className="text-xs text-muted-foreground">{t('fireCompartments.color')}</span>
+          <input
+            type="color"
+            value={compartment.color}
+            onChange={(e) => update({ color: e.target.value })}
+            className="h-8 w-12 border rounded"
+          />
+        </label>
+      </div>
+
+      <div className="grid grid-cols-2 gap-3">
+        <label className="flex flex-col gap-1">
+          <span className="text-xs text-muted-foreground">{t('fireCompartments.requiredRating')}</span>
+          <select
+            value={compartment.requiredRating}
+            onChange={(e) => update({ requiredRating: e.target.value as FireRating })}
+            className="border rounded px-2 py-1 bg-background"
+          >
+            {FIRE_RATINGS.map((rating) => (
+              <option key={rating} value={rating}>
+                {rating}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="flex flex-col gap-1">
+          <span className="text-xs text-muted-foreground">{t('fireCompartments.maxArea')}</span>
+          <input
+            type="number"
+            min={0}
+            step={100}
+            value={compartment.maxArea ?? ''}
+            placeholder={maxArea.toFixed(0)}
+            onChange={(e) => update({ maxArea: e.target.value === '' ? null : Math.max(0, parseFloat(e.target.value) || 0) })}
+            className="border rounded px-2 py-1"
+          />
+        </label>
+      </div>
+      <p className={`text-xs ${area > maxArea ? 'text-red-600' : 'text-muted-foreground'}`}>
+        {t('fireCompartments.areaSummary', { area: area.toFixed(1), limit: maxArea.toFixed(0) })}
+        {compartment.maxArea === null && ` · ${t('fireCompartments.guidelineHint')}`}
+      </p>
+
+      <div className="border rounded-lg p-4 space-y-2">
+        <h3 className="text-sm font-medium text-gray-700">{t('fireCompartments.spaces')}</h3>
+        {spaces.length === 0 ? (
+          <p className="text-xs text-muted-foreground">{t('fireCompartments.noSpaces')}</p>
+        ) : (
+          <div className="max-h-48 overflow-y-auto space-y-1">
+            {spaces.map((space) => {
+              const assigned = spaceCompartments.get(space.id);
+              const storey = storeys.find((s) => s.id === space.parentId);
+              return (
+                <label key={space.id} className="flex items-center gap-2 text-xs">
+                  <input
+                    type="checkbox"
+                    checked={assigned?.id === compartment.id}
+                    onChange={(e) => assignSpaceToCompartment(space.id, e.target.checked ? compartment.id : null)}
+                    className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                  />
+                  <span className="flex-1 truncate">{space.name}</span>
+                  {storey && storeys.length > 1 && <span className="text-muted-foreground">{storey.name}</span>}
+                  {assigned && assigned.id !== compartment.id && (
+                    <span className="flex items-center gap-1 text-muted-foreground">
+                      <span className="inline-block w-2 h-2 rounded-full" style={{ backgroundColor: assigned.color }} />
+                      {assigned.name}
+                    </span>
+                  )}
+                </label>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Boundary rating and area check; clicking a finding selects the wall or door
+ */
+function CompartmentCheck({ onSelect }: { onSelect: () => void }) {
+  const { t } = useTranslation();
+  const { fireCompartments, storeys, setActiveStorey } = useProjectStore();
+  const { getAllElements } = useElementStore();
+  const { select } = useSelectionStore();
+  const [findings, setFindings] = useState<FireCompartmentFinding[] | null>(null);
+
+  const errorCount = findings?.filter((f) => f.severity === 'error').length ?? 0;
+  const warningCount = (findings?.length ?? 0) - errorCount;
+
+  const handleFindingClick = (finding: FireCompartmentFinding) => {
+    if (finding.storeyId) setActiveStorey(finding.storeyId);
+    if (finding.elementId) {
+      select(finding.elementId);
+      onSelect();
+    }
+  };
+
+  return (
+    <div className="border rounded-lg p-4 space-y-2">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-medium text-gray-700">{t('fireCompartments.check')}</h3>
+        <Button
+          variant="primary"
+          size="sm"
+          onClick={() => setFindings(checkFireCompartments(getAllElements(), storeys, fireCompartments))}
+          disabled={fireCompartments.length === 0}
+        >
+          {t('fireCompartments.runCheck')}
+        </Button>
+      </div>
+
+      {findings !== null &&
+        (findings.length === 0 ? (
+          <div className="flex items-center gap-2 text-xs text-green-600">
+            <CheckCircle2 size={14} />
+            {t('fireCompartments.noFindings')}
+          </div>
+        ) : (
+          <>
+            <div className="text-xs text-muted-foreground">
+              {t('egress.summary', { errors: errorCount, warnings: warningCount })}
+            </div>
+            <ul className="max-h-48 overflow-y-auto space-y-1 text-xs">
+              {findings.map((finding) => {
+                const storey = storeys.find((s) => s.id === finding.storeyId);
+                const compartment = fireCompartments.find((c) => c.id === finding.compartmentId);
+                return (
+                  <li key={finding.id}>
+                    <button
+                      onClick={() => handleFindingClick(finding)}
+                      disabled={!finding.elementId}
+                      className="w-full flex items-start gap-2 p-1.5 rounded text-left hover:bg-accent disabled:hover:bg-transparent"
+                    >
+                      {finding.severity === 'error' ? (
+                        <AlertCircle size={14} className="text-red-600 shrink-0 mt-0.5" />
+                      ) : (
+                        <AlertTriangle size={14} className="text-amber-500 shrink-0 mt-0.5" />
+                      )}
+                      <span className="flex-1">
+                        {t(`fireCompartments.rule.${finding.rule}`, {
+                          name: finding.elementName,
+                          compartment: compartment?.name ?? '',
+                          ...formatFinding(finding, t('fireCompartments.noRating')),
+                        })}
+                        {storey && <span className="block text-muted-foreground">{storey.name}</span>}
+                      </span>
+                    </button>
+                  </li>
+                );
+              })}
+            </ul>
+          </>
+        ))}
+
+      <p className="text-xs text-muted-foreground">{t('fireCompartments.disclaimer')}</p>
+    </div>
+  );
+}
+
+/**
+ * Fire compartments of the project: spaces, required rating and area limit
+ * per compartment, plus the boundary check
+ */
+export function FireCompartmentsDialog({ open, onClose }: FireCompartmentsDialogProps) {
+  const { t } = useTranslation();
+  const { fireCompartments, addFireCompartment, removeFireCompartment } = useProjectStore();
+  const { showFireCompartments, setShowFireCompartments } = useViewStore();
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  const selected = fireCompartments.find((compartment) => compartment.id === selectedId) ?? fireCompartments[0];
+
+  const handleAdd = () => {
+    const compartment = createFireCompartment(
+      t('fireCompartments.defaultName', { number: fireCompartments.length + 1 }),
+      fireCompartments.length
+    );
+    addFireCompartment(compartment);
+    setSelectedId(compartment.id);
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} size="xl">
+      <DialogHeader>
+        <DialogTitle>{t('fireCompartments.title')}</DialogTitle>
+        <DialogDescription>{t('fireCompartments.description')}</DialogDescription>
+      </DialogHeader>
+
+      <DialogContent>
+        <div className="space-y-4 max-h-[65vh] overflow-y-auto text-sm">
+          <div className="grid grid-cols-[200px_1fr] gap-4">
+            <div className="space-y-1">
+              {fireCompartments.map((compartment) => (
+                <div
+                  key={compartment.id}
+                  className={`flex items-center gap-2 px-2 py-1 rounded text-xs cursor-pointer ${
+                    compartment.id === selected?.id ? 'bg-blue-50' : 'hover:bg-gray-50'
+                  }`}
+                  onClick={() => setSelectedId(compartment.id)}
+                >
+                  <span className="inline-block w-3 h-3 rounded-sm" style={{ backgroundColor: compartment.color }} />
+                  <span className="flex-1 truncate">{compartment.name}</span>
+                  <span className="text-muted-foreground">{compartment.requiredRating}</span>
+                  <button
+                    className="text-muted-foreground hover:text-red-600"
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      removeFireCompartment(compartment.id);
+                    }}
+                    title={t('fireCompartments.delete')}
+                  >
+                    <Trash2 size={12} />
+                  </button>
+                </div>
+              ))}
+              <Button variant="ghost" size="sm" onClick={handleAdd}>
+                <Plus size={14} className="mr-1" />
+                {t('fireCompartments.add')}
+              </Button>
+              <label className="flex items-center gap-2 px-2 pt-2 text-xs">
+                <input
+                  type="checkbox"
+                  checked={showFireCompartments}
+                  onChange={(e) => setShowFireCompartments(e.target.checked)}
+                  className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                />
+                {t('fireCompartments.showZones')}
+              </label>
+            </div>
+
+            {selected ? (
+              <CompartmentEditor compartment={selected} />
+            ) : (
+              <p className="text-xs text-muted-foreground">{t('fireCompartments.empty')}</p>
+            )}
+          </div>
+
+          <CompartmentCheck onSelect={onClose} />
+        </div>
+      </DialogContent>
+
+      <DialogFooter>
+        <Button variant="primary" onClick={onClose}>
+          {t('dialogs.close')}
+        </Button>
+      </DialogFooter>
+    </Dialog>
+  );
+}
@@ -15,10 +15,8 @@ import {
 } from '@/components/ui/Select';
 import { Switch } from '@/components/ui/Switch';
 import { useSelectionStore, useElementStore } from '@/store';
-import type { FireSafetyData } from '@/types/bim';
-
-const FIRE_RATINGS = ['REI30', 'REI60', 'REI90', 'REI120', 'REI180', 'REI240'] as const;
-type FireRating = (typeof FIRE_RATINGS)[number];
+import { FIRE_RATINGS } from '@/types/bim';
+import type { FireSafetyData, FireRating } from '@/types/bim';
 
 type RiskFactor = 'Low' | 'Medium' | 'High';
 
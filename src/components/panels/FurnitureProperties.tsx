@@ -19,6 +19,7 @@ const CATEGORY_LABELS: Record<FurnitureCategory, string> = {
   shelf: 'Regal',
   cabinet: 'Schrank',
   appliance: 'Gerät',
+  'handwash-basin': 'Handwaschbecken',
   decoration: 'Dekoration',
   other: 'Sonstiges',
 };
@@ -34,6 +35,7 @@ const CATEGORY_OPTIONS: FurnitureCategory[] = [
   'shelf',
   'cabinet',
   'appliance',
+  'handwash-basin',
   'decoration',
   'other',
 ];
@@ -1,7 +1,7 @@
 import { ChevronDown, ChevronRight, Building2, Layers, Box, Plus, Trash2, MapPin, LayoutGrid, DoorOpen, Columns, Square, Armchair, Pencil, Eye, EyeOff, ArrowUp, ArrowDown } from 'lucide-react';
 import { useState, useRef, useEffect, useMemo } from 'react';
 import { useTranslation } from 'react-i18next';
-import { useProjectStore, useElementStore, useSelectionStore, useViewStore } from '@/store';
+import { useProjectStore, useElementStore, useSelectionStore, useViewStore, useHistoryStore } from '@/store';
 import { cn } from '@/lib/utils';
 import type { BimElement } from '@/types/bim';
 import { DEFAULT_STOREY_HEIGHT } from '@/types/bim';
@@ -150,7 +150,8 @@ export function HierarchyPanel() {
     setActiveStorey, addStorey, removeStorey, updateStorey,
     setProjectName, setSiteName, setBuildingName
   } = useProjectStore();
-  const { getElementsByStorey } = useElementStore();
+  const { getElementsByStorey, clearStorey } = useElementStore();
+  const transaction = useHistoryStore((state) => state.transaction);
   const { select, isSelected } = useSelectionStore();
   const { focusOnPosition, showStoreyAbove, showStoreyBelow, toggleStoreyAbove, toggleStoreyBelow } = useViewStore();
 
@@ -207,7 +208,12 @@ export function HierarchyPanel() {
       return;
     }
     if (confirm(t('hierarchy.confirmDeleteStorey'))) {
-      removeStorey(storeyId);
+      const storeyName = storeys.find((s) => s.id === storeyId)?.name ?? '';
+      // Geschoss und Elemente als ein Schritt, damit Undo beides wiederherstellt
+      transaction(t('history.removeStorey', { name: storeyName }), () => {
+        clearStorey(storeyId);
+        removeStorey(storeyId);
+      });
     }
   };
 
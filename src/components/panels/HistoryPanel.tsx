@@ -0,0 +1,56 @@
+/**
+ * History Panel - Verlauf aller Änderungen
+ *
+ * Zeigt die benannten Einträge des useHistoryStore. Ein Klick auf einen
+ * Eintrag stellt den Zustand nach diesem Schritt wieder her; spätere
+ * Einträge bleiben als Redo-Schritte erhalten (ausgegraut).
+ */
+
+import { useTranslation } from 'react-i18next';
+import { useHistory } from '@/hooks';
+import { cn } from '@/lib/utils';
+
+export function HistoryPanel() {
+  const { t, i18n } = useTranslation();
+  const { entries, currentIndex, jumpTo } = useHistory();
+
+  if (entries.length === 0) {
+    return <div className="text-sm text-muted-foreground">{t('history.empty')}</div>;
+  }
+
+  return (
+    <div className="flex flex-col gap-1">
+      <div className="font-semibold text-sm mb-1">{t('history.title')}</div>
+      <ul className="max-h-80 overflow-y-auto flex flex-col-reverse gap-0.5">
+        {entries.map((entry, index) => {
+          const isCurrent = index === currentIndex;
+          const isFuture = index > currentIndex;
+
+          return (
+            <li key={entry.id}>
+              <button
+                type="button"
+                onClick={() => jumpTo(index)}
+                className={cn(
+                  'w-full flex items-center justify-between gap-2 px-2 py-1 rounded text-left text-xs',
+                  'hover:bg-accent hover:text-accent-foreground',
+                  isCurrent && 'bg-primary text-primary-foreground',
+                  isFuture && 'text-muted-foreground italic'
+                )}
+              >
+                <span className="truncate">{entry.label}</span>
+                <span className="shrink-0 opacity-70">
+                  {new Date(entry.timestamp).toLocaleTimeString(i18n.language, {
+                    hour: '2-digit',
+                    minute: '2-digit',
+                    second: '2-digit',
+                  })}
+                </span>
+              </button>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
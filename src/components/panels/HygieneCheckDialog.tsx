@@ -0,0 +1,178 @@
+import { useMemo } from 'react';
+import { useTranslation } from 'react-i18next';
+import { AlertCircle, AlertTriangle, CheckCircle2 } from 'lucide-react';
+import {
+  Dialog,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogContent,
+  DialogFooter,
+} from '@/components/ui/Dialog';
+import { Button } from '@/components/ui/Button';
+import { useElementStore, useProjectStore, useSelectionStore } from '@/store';
+import { updateSpaceProperties } from '@/bim/elements';
+import { checkHygiene, HYGIENE_ZONE_COLORS, HYGIENE_ZONE_FLOW, type HygieneFinding } from '@/lib/hygiene';
+import { GASTRO_SPACE_LABELS, HYGIENE_ZONES, type BimElement, type HygieneZone } from '@/types/bim';
+
+interface HygieneCheckDialogProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+/**
+ * HACCP zoning of the spaces and the hygiene check (flows, handwash
+ * basins, toilets); clicking a finding selects the door or space
+ */
+export function HygieneCheckDialog({ open, onClose }: HygieneCheckDialogProps) {
+  const { t } = useTranslation();
+  const { elements, updateElement } = useElementStore();
+  const { storeys, setActiveStorey } = useProjectStore();
+  const { select } = useSelectionStore();
+
+  const allElements = useMemo(() => Array.from(elements.values()), [elements]);
+  const spaces = useMemo(
+    () =>
+      allElements
+        .filter((e) => e.type === 'space' && e.spaceData)
+        .sort(
+          (a, b) =>
+            storeys.findIndex((s) => s.id === a.parentId) - storeys.findIndex((s) => s.id === b.parentId) ||
+            a.name.localeCompare(b.name)
+        ),
+    [allElements, storeys]
+  );
+
+  // Only computed while the dialog is open
+  const findings = useMemo(() => (open ? checkHygiene(allElements, storeys) : []), [open, allElements, storeys]);
+  const errorCount = findings.filter((f) => f.severity === 'error').length;
+  const warningCount = findings.length - errorCount;
+  const isZoned = spaces.some((space) => space.spaceData?.hygieneZone);
+
+  const getSpaceName = (id: string | undefined) => (id ? elements.get(id)?.name ?? '' : '');
+
+  const handleZoneChange = (space: BimElement, zone: HygieneZone | '') => {
+    updateElement(space.id, updateSpaceProperties(space, { hygieneZone: zone || undefined }));
+  };
+
+  const handleFindingClick = (finding: HygieneFinding) => {
+    if (finding.storeyId) setActiveStorey(finding.storeyId);
+    select(finding.elementId);
+    onClose();
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} size="xl">
+      <DialogHeader>
+        <DialogTitle>{t('hygiene.title')}</DialogTitle>
+        <DialogDescription>{t('hygiene.description')}</DialogDescription>
+      </DialogHeader>
+
+      <DialogContent>
+        <div className="space-y-4 max-h-[65vh] overflow-y-auto text-sm">
+          <div className="border rounded-lg p-4 space-y-2">
+            <h3 className="text-sm font-medium text-gray-700">{t('hygiene.zoning')}</h3>
+            {spaces.length === 0 ? (
+              <p className="text-xs text-muted-foreground">{t('hygiene.noSpaces')}</p>
+            ) : (
+              <table className="w-full text-xs">
+                <tbody>
+                  {spaces.map((space) => {
+                    const zone = space.spaceData?.hygieneZone;
+                    const category = space.spaceData?.gastroCategory;
+                    return (
+                      <tr key={space.id} className="border-t">
+                        <td className="py-1">
+                          <span
+                            className="inline-block w-3 h-3 rounded-sm mr-2 align-middle"
+                            style={{ backgroundColor: zone ? HYGIENE_ZONE_COLORS[zone] : 'transparent' }}
+                          />
+                          {space.name}
+                        </td>
+                        <td className="text-muted-foreground">
+                          {storeys.find((s) => s.id === space.parentId)?.name}
+                        </td>
+                        <td className="text-muted-foreground">{category ? GASTRO_SPACE_LABELS[category] : ''}</td>
+                        <td className="text-right">
+                          <select
+                            value={zone ?? ''}
+                            onChange={(e) => handleZoneChange(space, e.target.value as HygieneZone | '')}
+                            className="border rounded px-1 py-0.5"
+                          >
+                            <option value="">{t('hygiene.noZone')}</option>
+                            {HYGIENE_ZONES.map((id) => (
+                              <option key={id} value={id}>
+                                {t(`hygiene.zone.${id}`)} ({t(`hygiene.flow.${HYGIENE_ZONE_FLOW[id]}`)})
+                              </option>
+                            ))}
+                          </select>
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            )}
+          </div>
+
+          <div className="border rounded-lg p-4 space-y-2">
+            <h3 className="text-sm font-medium text-gray-700">{t('hygiene.findings')}</h3>
+            {!isZoned ? (
+              <p className="text-xs text-muted-foreground">{t('hygiene.notZoned')}</p>
+            ) : findings.length === 0 ? (
+              <div className="flex items-center gap-2 text-xs text-green-600">
+                <CheckCircle2 size={14} />
+                {t('hygiene.noFindings')}
+              </div>
+            ) : (
+              <>
+                <div className="text-xs text-muted-foreground">
+                  {t('egress.summary', { errors: errorCount, warnings: warningCount })}
+                </div>
+                <ul className="space-y-1 text-xs">
+                  {findings.map((finding) => {
+                    const storey = storeys.find((s) => s.id === finding.storeyId);
+                    const [first, second, third] = finding.spaceIds;
+                    return (
+                      <li key={finding.id}>
+                        <button
+                          onClick={() => handleFindingClick(finding)}
+                          className="w-full flex items-start gap-2 p-1.5 rounded text-left hover:bg-accent"
+                        >
+                          {finding.severity === 'error' ? (
+                            <AlertCircle size={14} className="text-red-600 shrink-0 mt-0.5" />
+                          ) : (
+                            <AlertTriangle size={14} className="text-amber-500 shrink-0 mt-0.5" />
+                          )}
+                          <span className="flex-1">
+                            {t(`hygiene.rule.${finding.rule}`, {
+                              name: finding.elementName,
+                              first: getSpaceName(first),
+                              second: getSpaceName(second),
+                              third: getSpaceName(third),
+                            })}
+                            {storey && <span className="block text-muted-foreground">{storey.name}</span>}
+                          </span>
+                        </button>
+                      </li>
+                    );
+                  })}
+                </ul>
+                {findings.some((f) => f.rule === 'handwashMissing') && (
+                  <p className="text-xs text-muted-foreground">{t('hygiene.handwashHint')}</p>
+                )}
+              </>
+            )}
+            <p className="text-xs text-muted-foreground">{t('hygiene.disclaimer')}</p>
+          </div>
+        </div>
+      </DialogContent>
+
+      <DialogFooter>
+        <Button variant="primary" onClick={onClose}>
+          {t('dialogs.close')}
+        </Button>
+      </DialogFooter>
+    </Dialog>
+  );
+}
@@ -0,0 +1,99 @@
+/**
+ * Änderungsliste für den IFC Update-Import
+ *
+ * Zeigt neue, geänderte und entfernte Elemente des revidierten IFC-Modells.
+ * Jede Änderung kann einzeln übernommen oder verworfen werden.
+ */
+
+import type { ImportDiff, ImportChangeStatus } from '@/bim/ifc';
+import { describeElements } from '@/store';
+import { cn } from '@/lib/utils';
+
+interface IfcUpdateDiffProps {
+  diff: ImportDiff;
+  /** GlobalIds of the accepted changes */
+  accepted: Set<string>;
+  onToggle: (globalId: string) => void;
+  onSetAll: (accept: boolean) => void;
+}
+
+const STATUS_LABELS: Record<ImportChangeStatus, string> = {
+  added: 'Neu',
+  changed: 'Geändert',
+  removed: 'Entfernt',
+};
+
+const STATUS_CLASSES: Record<ImportChangeStatus, string> = {
+  added: 'bg-green-100 text-green-700',
+  changed: 'bg-blue-100 text-blue-700',
+  removed: 'bg-red-100 text-red-700',
+};
+
+export function IfcUpdateDiff({ diff, accepted, onToggle, onSetAll }: IfcUpdateDiffProps) {
+  const counts = {
+    added: diff.changes.filter((c) => c.status === 'added').length,
+    changed: diff.changes.filter((c) => c.status === 'changed').length,
+    removed: diff.changes.filter((c) => c.status === 'removed').length,
+  };
+
+  return (
+    <div className="border rounded-lg p-4 space-y-3">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-medium text-gray-700">Änderungen</h3>
+        {diff.changes.length > 0 && (
+          <div className="flex gap-2 text-xs">
+            <button type="button" className="text-blue-600 hover:underline" onClick={() => onSetAll(true)}>
+              Alle übernehmen
+            </button>
+            <button type="button" className="text-blue-600 hover:underline" onClick={() => onSetAll(false)}>
+              Keine
+            </button>
+          </div>
+        )}
+      </div>
+
+      <div className="flex flex-wrap gap-3 text-xs text-gray-600">
+        <span>{counts.added} neu</span>
+        <span>{counts.changed} geändert</span>
+        <span>{counts.removed} entfernt</span>
+        <span>{diff.unchangedCount} unverändert</span>
+        {diff.newStoreys.length > 0 && <span>{diff.newStoreys.length} neue Stockwerke</span>}
+      </div>
+
+      {diff.changes.length === 0 ? (
+        <p className="text-sm text-gray-500">Das IFC-Modell enthält keine Änderungen.</p>
+      ) : (
+        <ul className="max-h-60 overflow-y-auto divide-y text-sm">
+          {diff.changes.map((change) => {
+            const element = change.imported ?? change.existing;
+            if (!element) return null;
+
+            return (
+              <li key={change.globalId}>
+                <label className="flex items-center gap-3 py-1.5 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={accepted.has(change.globalId)}
+                    onChange={() => onToggle(change.globalId)}
+                    className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                  />
+                  <span
+                    className={cn('shrink-0 rounded px-1.5 py-0.5 text-xs font-medium', STATUS_CLASSES[change.status])}
+                  >
+                    {STATUS_LABELS[change.status]}
+                  </span>
+                  <span className="truncate">{element.name}</span>
+                  <span className="ml-auto shrink-0 text-xs text-gray-500">{describeElements([element])}</span>
+                </label>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      <p className="text-xs text-gray-500">
+        Eigene Elemente ohne IFC-Herkunft (z.B. Möbel, Theken) bleiben immer erhalten.
+      </p>
+    </div>
+  );
+}
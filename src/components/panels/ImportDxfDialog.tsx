@@ -0,0 +1,148 @@
+import { useState, useRef, useCallback, type ChangeEvent } from 'react';
+import { useTranslation } from 'react-i18next';
+import {
+  Dialog,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogContent,
+  DialogFooter,
+} from '@/components/ui/Dialog';
+import { Button } from '@/components/ui/Button';
+import { useDxfUnderlayStore, useViewStore } from '@/store';
+import { parseDxf, guessDxfUnit, createDxfUnderlay, DxfParseError } from '@/lib/dxf';
+import type { DxfDrawing, DxfUnit } from '@/types/dxf';
+
+interface ImportDxfDialogProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+const UNIT_OPTIONS: DxfUnit[] = ['mm', 'cm', 'm', 'in', 'ft'];
+
+export function ImportDxfDialog({ open, onClose }: ImportDxfDialogProps) {
+  const { t } = useTranslation();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const { loadDocument } = useDxfUnderlayStore();
+  const { triggerZoomToExtents } = useViewStore();
+
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [drawing, setDrawing] = useState<DxfDrawing | null>(null);
+  const [unit, setUnit] = useState<DxfUnit>('mm');
+  const [moveToOrigin, setMoveToOrigin] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleFileChange = useCallback(
+    async (e: ChangeEvent<HTMLInputElement>) => {
+      const file = e.target.files?.[0];
+      if (fileInputRef.current) {
+        fileInputRef.current.value = '';
+      }
+      if (!file) return;
+
+      try {
+        const parsed = parseDxf(await file.text());
+        setDrawing(parsed);
+        setUnit(guessDxfUnit(parsed));
+        setFileName(file.name);
+        setError(null);
+      } catch (err) {
+        console.error('DXF import failed:', err);
+        setDrawing(null);
+        setFileName(null);
+        setError(err instanceof DxfParseError ? err.message : t('dxf.readError'));
+      }
+    },
+    [t]
+  );
+
+  const handleClose = useCallback(() => {
+    setDrawing(null);
+    setFileName(null);
+    setError(null);
+    onClose();
+  }, [onClose]);
+
+  const handleImport = useCallback(() => {
+    if (!drawing || !fileName) return;
+    loadDocument(createDxfUnderlay(drawing, { fileName, unit, moveToOrigin }));
+    triggerZoomToExtents();
+    handleClose();
+  }, [drawing, fileName, unit, moveToOrigin, loadDocument, triggerZoomToExtents, handleClose]);
+
+  return (
+    <Dialog open={open} onClose={handleClose} size="md">
+      <DialogHeader>
+        <DialogTitle>{t('dxf.importTitle')}</DialogTitle>
+        <DialogDescription>{t('dxf.importDescription')}</DialogDescription>
+      </DialogHeader>
+
+      <DialogContent>
+        <div className="space-y-4">
+          <div>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".dxf"
+              onChange={handleFileChange}
+              className="hidden"
+              id="dxf-upload"
+            />
+            <label
+              htmlFor="dxf-upload"
+              className="block border-2 border-dashed border-gray-300 hover:border-gray-400 rounded-lg p-6 text-center cursor-pointer text-sm text-gray-600"
+            >
+              {fileName ?? t('dxf.selectFile')}
+            </label>
+            {error && <p className="text-xs text-red-600 mt-2">{error}</p>}
+          </div>
+
+          {drawing && (
+            <div className="border rounded-lg p-4 space-y-3">
+              <p className="text-sm text-gray-600">
+                {t('dxf.summary', { entities: drawing.entities.length, layers: drawing.layers.length })}
+              </p>
+
+              <label className="flex items-center justify-between gap-2 text-sm">
+                <span>
+                  {t('dxf.unit')}
+                  {!drawing.unit && <span className="text-xs text-gray-500"> ({t('dxf.unitGuessed')})</span>}
+                </span>
+                <select
+                  value={unit}
+                  onChange={(e) => setUnit(e.target.value as DxfUnit)}
+                  className="border rounded px-2 py-1 text-sm"
+                >
+                  {UNIT_OPTIONS.map((option) => (
+                    <option key={option} value={option}>
+                      {option}
+                    </option>
+                  ))}
+                </select>
+              </label>
+
+              <label className="flex items-center gap-2 text-sm cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={moveToOrigin}
+                  onChange={(e) => setMoveToOrigin(e.target.checked)}
+                  className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                />
+                {t('dxf.moveToOrigin')}
+              </label>
+            </div>
+          )}
+        </div>
+      </DialogContent>
+
+      <DialogFooter>
+        <Button variant="ghost" onClick={handleClose}>
+          {t('dialogs.cancel')}
+        </Button>
+        <Button variant="primary" onClick={handleImport} disabled={!drawing}>
+          {t('dxf.load')}
+        </Button>
+      </DialogFooter>
+    </Dialog>
+  );
+}
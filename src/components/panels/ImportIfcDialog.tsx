@@ -1,4 +1,5 @@
-import { useState, useRef, useCallback, type ChangeEvent, type DragEvent } from 'react';
+import { useState, useRef, useCallback, useMemo, useEffect, type ChangeEvent, type DragEvent } from 'react';
+import i18n from 'i18next';
 import {
   Dialog,
   DialogHeader,
@@ -8,15 +9,22 @@ import {
   DialogFooter,
 } from '@/components/ui/Dialog';
 import { Button } from '@/components/ui/Button';
-import { useElementStore, useProjectStore } from '@/store';
-import { importFromIfc, type ImportResult, type ImportOptions } from '@/bim/ifc';
+import { useElementStore, useProjectStore, useHistoryStore } from '@/store';
+import {
+  importFromIfc,
+  computeImportDiff,
+  applyImportDiff,
+  type ImportResult,
+  type ImportOptions,
+} from '@/bim/ifc';
+import { IfcUpdateDiff } from './IfcUpdateDiff';
 
 interface ImportIfcDialogProps {
   open: boolean;
   onClose: () => void;
 }
 
-type ImportMode = 'replace' | 'merge';
+type ImportMode = 'replace' | 'merge' | 'update';
 
 interface ImportState {
   status: 'idle' | 'loading' | 'preview' | 'error';
@@ -41,13 +49,52 @@ export function ImportIfcDialog({ open, onClose }: ImportIfcDialogProps) {
     importColumns: true,
     importSlabs: true,
     importFurniture: true,
+    importCounters: true,
+    importStairs: true,
+    importSpaces: true,
     importPropertySets: true,
     coordinateSystem: 'z-up',
   });
   const [isDragging, setIsDragging] = useState(false);
 
-  const { importElements } = useElementStore();
-  const { importProject } = useProjectStore();
+  const { importElements, getAllElements } = useElementStore();
+  const { importProject, importStoreys, storeys: projectStoreys } = useProjectStore();
+  const elementCount = useElementStore((state) => state.elements.size);
+
+  // Update mode: diff against the current project, matched by IFC GlobalId
+  const updateDiff = useMemo(
+    () =>
+      importMode === 'update' && importState.result
+        ? computeImportDiff(getAllElements(), projectStoreys, importState.result)
+        : null,
+    [importMode, importState.result, getAllElements, projectStoreys]
+  );
+  const [acceptedChanges, setAcceptedChanges] = useState<Set<string>>(new Set());
+
+  // Added and changed elements are accepted by default, removals must be confirmed
+  useEffect(() => {
+    setAcceptedChanges(
+      new Set(
+        updateDiff?.changes.filter((change) => change.status !== 'removed').map((change) => change.globalId) ?? []
+      )
+    );
+  }, [updateDiff]);
+
+  const toggleChange = useCallback((globalId: string) => {
+    setAcceptedChanges((prev) => {
+      const next = new Set(prev);
+      if (next.has(globalId)) next.delete(globalId);
+      else next.add(globalId);
+      return next;
+    });
+  }, []);
+
+  const setAllChanges = useCallback(
+    (accept: boolean) => {
+      setAcceptedChanges(new Set(accept ? updateDiff?.changes.map((change) => change.globalId) : []));
+    },
+    [updateDiff]
+  );
 
   // Handle file selection
   const handleFile = useCallback(async (file: File) => {
@@ -130,6 +177,18 @@ export function ImportIfcDialog({ open, onClose }: ImportIfcDialogProps) {
 
     const { project, site, building, storeys, elements } = importState.result;
 
+    if (importMode === 'update' && updateDiff) {
+      // Keep project hierarchy, only add missing storeys and accepted changes
+      useHistoryStore.getState().transaction(i18n.t('history.ifcUpdate'), () => {
+        if (updateDiff.newStoreys.length > 0) {
+          importStoreys(updateDiff.newStoreys);
+        }
+        importElements(applyImportDiff(getAllElements(), updateDiff, acceptedChanges), true);
+      });
+      handleClose();
+      return;
+    }
+
     // Import project hierarchy
     importProject(project, site, building, storeys);
 
@@ -138,7 +197,16 @@ export function ImportIfcDialog({ open, onClose }: ImportIfcDialogProps) {
 
     // Close dialog
     handleClose();
-  }, [importState.result, importMode, importProject, importElements]);
+  }, [
+    importState.result,
+    importMode,
+    updateDiff,
+    acceptedChanges,
+    importProject,
+    importStoreys,
+    importElements,
+    getAllElements,
+  ]);
 
   // Reset and close
   const handleClose = useCallback(() => {
@@ -232,6 +300,9 @@ export function ImportIfcDialog({ open, onClose }: ImportIfcDialogProps) {
                   ['importColumns', 'Säulen'],
                   ['importSlabs', 'Böden/Decken'],
                   ['importFurniture', 'Möbel'],
+                  ['importCounters', 'Theken'],
+                  ['importStairs', 'Treppen'],
+                  ['importSpaces', 'Räume'],
                   ['importPropertySets', 'Attribute'],
                 ] as const).map(([key, label]) => (
                   <label key={key} className="flex items-center gap-2 text-sm">
@@ -353,6 +424,24 @@ export function ImportIfcDialog({ open, onClose }: ImportIfcDialogProps) {
                   </span>
                   <span className="text-gray-600">Möbel</span>
                 </div>
+                <div className="flex items-center gap-2">
+                  <span className="text-2xl font-bold text-blue-600">
+                    {importState.result.stats.countersImported}
+                  </span>
+                  <span className="text-gray-600">Theken</span>
+                </div>
+                <div className="flex items-center gap-2">
+                  <span className="text-2xl font-bold text-blue-600">
+                    {importState.result.stats.stairsImported}
+                  </span>
+                  <span className="text-gray-600">Treppen</span>
+                </div>
+                <div className="flex items-center gap-2">
+                  <span className="text-2xl font-bold text-blue-600">
+                    {importState.result.stats.spacesImported}
+                  </span>
+                  <span className="text-gray-600">Räume</span>
+                </div>
               </div>
 
               {importState.result.stats.elementsSkipped > 0 && (
@@ -418,9 +507,36 @@ export function ImportIfcDialog({ open, onClose }: ImportIfcDialogProps) {
                     </div>
                   </div>
                 </label>
+                <label className="flex items-start gap-3 cursor-pointer">
+                  <input
+                    type="radio"
+                    name="importMode"
+                    value="update"
+                    checked={importMode === 'update'}
+                    onChange={() => setImportMode('update')}
+                    disabled={elementCount === 0}
+                    className="mt-1 text-blue-600 focus:ring-blue-500"
+                  />
+                  <div>
+                    <div className="font-medium text-sm">Aktualisieren</div>
+                    <div className="text-xs text-gray-500">
+                      Revidiertes Modell über die IFC GlobalId abgleichen und Änderungen einzeln übernehmen
+                    </div>
+                  </div>
+                </label>
               </div>
             </div>
 
+            {/* Update Diff */}
+            {updateDiff && (
+              <IfcUpdateDiff
+                diff={updateDiff}
+                accepted={acceptedChanges}
+                onToggle={toggleChange}
+                onSetAll={setAllChanges}
+              />
+            )}
+
             {/* Warnings */}
             {importState.result.warnings.length > 0 && (
               <div className="bg-amber-50 border border-amber-200 rounded-lg p-3">
@@ -39,6 +39,7 @@ const CATEGORY_OPTIONS: { value: FurnitureCategory; label: string }[] = [
   { value: 'shelf', label: 'Regal' },
   { value: 'cabinet', label: 'Schrank' },
   { value: 'appliance', label: 'Gerät' },
+  { value: 'handwash-basin', label: 'Handwaschbecken' },
   { value: 'decoration', label: 'Dekoration' },
   { value: 'other', label: 'Sonstiges' },
 ];
@@ -0,0 +1,229 @@
+import { useMemo, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { CalendarDays, Check, Download } from 'lucide-react';
+import {
+  Dialog,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogContent,
+  DialogFooter,
+} from '@/components/ui/Dialog';
+import { Button } from '@/components/ui/Button';
+import { useElementStore, useProjectStore, useSelectionStore } from '@/store';
+import {
+  generateMaintenanceSchedule,
+  getMaintenanceAssets,
+  markMaintenanceDone,
+  scheduleToIcs,
+  scheduleToCsv,
+  downloadMaintenanceSchedule,
+  MAINTENANCE_INTERVALS,
+  DEFAULT_MAINTENANCE_HORIZON,
+  type MaintenanceEntry,
+  type MaintenanceEntryText,
+} from '@/lib/maintenance';
+import { COFFEE_EQUIPMENT_LABELS, type CoffeeEquipmentType } from '@/types/bim';
+
+interface MaintenanceScheduleDialogProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+const HORIZON_OPTIONS = [3, 6, 12, 24];
+
+/**
+ * Upcoming service tasks and warranty expiries of the coffee equipment,
+ * with calendar (.ics) and CSV export
+ */
+export function MaintenanceScheduleDialog({ open, onClose }: MaintenanceScheduleDialogProps) {
+  const { t, i18n } = useTranslation();
+  const { elements, updateElement } = useElementStore();
+  const { project, storeys, setActiveStorey } = useProjectStore();
+  const { select } = useSelectionStore();
+  const [horizonMonths, setHorizonMonths] = useState(DEFAULT_MAINTENANCE_HORIZON);
+
+  const allElements = useMemo(() => Array.from(elements.values()), [elements]);
+  const assets = useMemo(() => getMaintenanceAssets(allElements), [allElements]);
+
+  // Only computed while the dialog is open
+  const entries = useMemo(
+    () => (open ? generateMaintenanceSchedule(allElements, { horizonMonths }) : []),
+    [open, allElements, horizonMonths]
+  );
+
+  // Group by month of the due date
+  const months = useMemo(() => {
+    const groups = new Map<string, MaintenanceEntry[]>();
+    for (const entry of entries) {
+      const key = entry.overdue ? 'overdue' : entry.dueDate.slice(0, 7);
+      groups.set(key, [...(groups.get(key) ?? []), entry]);
+    }
+    return Array.from(groups.entries());
+  }, [entries]);
+
+  const overdueCount = entries.filter((entry) => entry.overdue).length;
+  const equipmentTypes = Array.from(new Set(assets.map((asset) => asset.equipmentType)));
+
+  const formatDate = (isoDate: string, format: Intl.DateTimeFormatOptions) =>
+    new Date(`${isoDate}T00:00:00Z`).toLocaleDateString(i18n.language, { ...format, timeZone: 'UTC' });
+
+  const getStoreyName = (id: string | null) => storeys.find((storey) => storey.id === id)?.name ?? '';
+
+  const getText = (entry: MaintenanceEntry): MaintenanceEntryText => {
+    const asset = assets.find((a) => a.element.id === entry.elementId);
+    const details = [
+      COFFEE_EQUIPMENT_LABELS[entry.equipmentType],
+      [asset?.manufacturer, asset?.model].filter(Boolean).join(' '),
+      asset?.serialNumber ? `${t('maintenance.serialNumber')}: ${asset.serialNumber}` : '',
+      entry.intervalMonths ? t('maintenance.interval', { count: entry.intervalMonths }) : '',
+      getStoreyName(entry.storeyId),
+    ];
+    return {
+      summary: `${t(`maintenance.kind.${entry.kind}`)}: ${entry.elementName}`,
+      description: details.filter(Boolean).join('\n'),
+    };
+  };
+
+  const handleDone = (entry: MaintenanceEntry) => {
+    const element = elements.get(entry.elementId);
+    if (!element || entry.kind === 'warrantyExpiry') return;
+    updateElement(element.id, { properties: markMaintenanceDone(element, entry.kind, new Date()) });
+  };
+
+  const handleSelect = (entry: MaintenanceEntry) => {
+    if (entry.storeyId) setActiveStorey(entry.storeyId);
+    select(entry.elementId);
+    onClose();
+  };
+
+  const handleExport = (format: 'ics' | 'csv') => {
+    const fileName = `${project.name}_Wartung`;
+    const content =
+      format === 'ics'
+        ? scheduleToIcs(entries, getText, `${project.name} – ${t('maintenance.title')}`)
+        : scheduleToCsv(entries, getText, getStoreyName);
+    downloadMaintenanceSchedule(content, format, fileName);
+  };
+
+  const getTaskList = (type: CoffeeEquipmentType) =>
+    MAINTENANCE_INTERVALS[type]
+      .map(({ task, months }) => `${t(`maintenance.kind.${task}`)} (${t('maintenance.interval', { count: months })})`)
+      .join(', ') || t('maintenance.noTasks');
+
+  return (
+    <Dialog open={open} onClose={onClose} size="xl">
+      <DialogHeader>
+        <DialogTitle>{t('maintenance.title')}</DialogTitle>
+        <DialogDescription>{t('maintenance.description')}</DialogDescription>
+      </DialogHeader>
+
+      <DialogContent>
+        {assets.length === 0 ? (
+          <p className="text-sm text-muted-foreground">{t('maintenance.noAssets')}</p>
+        ) : (
+          <div className="space-y-4 max-h-[65vh] overflow-y-auto text-sm">
+            <div className="flex items-center justify-between gap-4">
+              <label className="flex items-center gap-2 text-xs">
+                <span className="text-muted-foreground">{t('maintenance.horizon')}</span>
+                <select
+                  value={horizonMonths}
+                  onChange={(e) => setHorizonMonths(parseInt(e.target.value))}
+                  className="border rounded px-2 py-1 bg-background"
+                >
+                  {HORIZON_OPTIONS.map((months) => (
+                    <option key={months} value={months}>
+                      {t('maintenance.interval', { count: months })}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <span className="text-xs text-muted-foreground">
+                {t('maintenance.summary', { assets: assets.length, entries: entries.length })}
+                {overdueCount > 0 && (
+                  <span className="text-red-600"> · {t('maintenance.overdueCount', { count: overdueCount })}</span>
+                )}
+              </span>
+            </div>
+
+            {entries.length === 0 ? (
+              <p className="text-xs text-muted-foreground">{t('maintenance.noEntries')}</p>
+            ) : (
+              months.map(([month, monthEntries]) => (
+                <div key={month} className="border rounded-lg p-3 space-y-1">
+                  <h3 className={`text-sm font-medium flex items-center gap-2 ${month === 'overdue' ? 'text-red-600' : 'text-gray-700'}`}>
+                    <CalendarDays size={14} />
+                    {month === 'overdue'
+                      ? t('maintenance.overdue')
+                      : formatDate(`${month}-01`, { month: 'long', year: 'numeric' })}
+                  </h3>
+                  <table className="w-full text-xs">
+                    <tbody>
+                      {monthEntries.map((entry) => (
+                        <tr key={entry.id} className="hover:bg-accent">
+                          <td className="py-0.5 w-24">{formatDate(entry.dueDate, { day: '2-digit', month: '2-digit', year: 'numeric' })}</td>
+                          <td>
+                            <button onClick={() => handleSelect(entry)} className="text-left hover:underline">
+                              {entry.elementName}
+                            </button>
+                          </td>
+                          <td>{t(`maintenance.kind.${entry.kind}`)}</td>
+                          <td className="text-muted-foreground">
+                            {entry.assumed && t('maintenance.assumed')}
+                          </td>
+                          <td className="text-right w-24">
+                            {entry.kind !== 'warrantyExpiry' && (
+                              <button
+                                onClick={() => handleDone(entry)}
+                                className="inline-flex items-center gap-1 text-blue-600 hover:underline"
+                                title={t('maintenance.markDoneHint')}
+                              >
+                                <Check size={12} />
+                                {t('maintenance.markDone')}
+                              </button>
+                            )}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              ))
+            )}
+
+            <details className="text-xs">
+              <summary className="cursor-pointer text-muted-foreground hover:text-foreground">
+                {t('maintenance.intervals')}
+              </summary>
+              <table className="w-full mt-2">
+                <tbody>
+                  {equipmentTypes.map((type) => (
+                    <tr key={type}>
+                      <td className="py-0.5 pr-4 whitespace-nowrap">{COFFEE_EQUIPMENT_LABELS[type]}</td>
+                      <td className="text-muted-foreground">{getTaskList(type)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              <p className="mt-2 text-muted-foreground">{t('maintenance.intervalsHint')}</p>
+            </details>
+          </div>
+        )}
+      </DialogContent>
+
+      <DialogFooter>
+        <Button variant="ghost" onClick={() => handleExport('csv')} disabled={entries.length === 0}>
+          <Download size={14} className="mr-1" />
+          CSV
+        </Button>
+        <Button variant="ghost" onClick={() => handleExport('ics')} disabled={entries.length === 0}>
+          <Download size={14} className="mr-1" />
+          {t('maintenance.exportIcs')}
+        </Button>
+        <Button variant="primary" onClick={onClose}>
+          {t('dialogs.close')}
+        </Button>
+      </DialogFooter>
+    </Dialog>
+  );
+}
@@ -0,0 +1,552 @@
+import { useMemo, useRef, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { AlertTriangle, Download, Plus, Trash2, Upload } from 'lucide-react';
+import {
+  Dialog,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogContent,
+  DialogFooter,
+} from '@/components/ui/Dialog';
+import { Button } from '@/components/ui/Button';
+import { useProjectStore } from '@/store';
+import type {
+  CustomModuleDefinition,
+  ModuleComputedField,
+  ModulePropertyDefinition,
+  ModulePropertyType,
+  ModuleTotal,
+} from '@/types/proMode';
+import {
+  createAcousticsModule,
+  createComputedField,
+  createCustomModule,
+  createModuleProperty,
+  downloadModuleFile,
+  getEmptyValue,
+  moduleDefinitionsToJson,
+  parseModuleDefinitions,
+  validateModuleDefinition,
+  CUSTOM_MODULE_ICONS,
+  ELEMENT_QUANTITIES,
+  EXPRESSION_FUNCTIONS,
+  MODULE_ELEMENT_TYPES,
+  MODULE_PROPERTY_TYPES,
+  ModuleDefinitionError,
+  type ModuleDefinitionIssue,
+} from '@/lib/modules';
+import { CustomModuleIcon } from './CustomModuleIcon';
+
+interface ModuleRegistryDialogProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+const INPUT = 'border rounded px-1.5 py-0.5 bg-background';
+
+function toggle<T>(list: T[], value: T): T[] {
+  return list.includes(value) ? list.filter((v) => v !== value) : [...list, value];
+}
+
+/**
+ * Editor of the user-defined PRO modules: property schema, computed fields,
+ * applicable element types and the JSON exchange of definitions
+ */
+export function ModuleRegistryDialog({ open, onClose }: ModuleRegistryDialogProps) {
+  const { t } = useTranslation();
+  const { project, customModules, addCustomModule, updateCustomModule, removeCustomModule } = useProjectStore();
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [importError, setImportError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const selected = customModules.find((module) => module.id === selectedId) ?? customModules[0];
+  const issues = useMemo(() => (selected ? validateModuleDefinition(selected) : []), [selected]);
+
+  const handleAdd = (module: CustomModuleDefinition) => {
+    addCustomModule(module);
+    setSelectedId(module.id);
+  };
+
+  const handleRemove = (module: CustomModuleDefinition) => {
+    if (!window.confirm(t('customModules.confirmRemove', { name: module.name }))) return;
+    removeCustomModule(module.id);
+    setSelectedId(null);
+  };
+
+  const handleImport = async (file: File) => {
+    setImportError(null);
+    try {
+      const modules = parseModuleDefinitions(
+        await file.text(),
+        customModules.map((module) => module.id)
+      );
+      modules.forEach(addCustomModule);
+      if (modules[0]) setSelectedId(modules[0].id);
+    } catch (error) {
+      if (!(error instanceof ModuleDefinitionError)) throw error;
+      setImportError(error.message);
+    }
+  };
+
+  const handleExport = () => {
+    downloadModuleFile(moduleDefinitionsToJson(customModules), 'json', `${project.name}_Module`);
+  };
+
+  const formatIssue = (issue: ModuleDefinitionIssue) =>
+    t(`customModules.issue.${issue.code}`, {
+      field: issue.field,
+      detail: issue.expressionError ? t(`customModules.expressionError.${issue.expressionError}`, { token: issue.detail }) : issue.detail,
+    });
+
+  return (
+    <Dialog open={open} onClose={onClose} size="xl">
+      <DialogHeader>
+        <DialogTitle>{t('customModules.registryTitle')}</DialogTitle>
+        <DialogDescription>{t('customModules.registryDescription')}</DialogDescription>
+      </DialogHeader>
+
+      <DialogContent>
+        <div className="flex gap-4 text-sm">
+          {/* Module list */}
+          <div className="w-48 shrink-0 space-y-2">
+            <ul className="space-y-1">
+              {customModules.map((module) => (
+                <li key={module.id}>
+                  <button
+                    onClick={() => setSelectedId(module.id)}
+                    className={`w-full flex items-center gap-2 px-2 py-1.5 rounded text-left text-xs ${
+                      module.id === selected?.id ? 'bg-accent font-medium' : 'hover:bg-accent/50'
+                    }`}
+                  >
+                    <CustomModuleIcon name={module.icon} size={14} />
+                    <span className="truncate">{module.name || t('customModules.unnamed')}</span>
+                  </button>
+                </li>
+              ))}
+            </ul>
+            {customModules.length === 0 && (
+              <p className="text-xs text-muted-foreground">{t('customModules.noModules')}</p>
+            )}
+            <div className="flex flex-col gap-1 pt-2 border-t">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => handleAdd(createCustomModule(t('customModules.defaultName')))}
+              >
+                <Plus size={14} className="mr-1" />
+                {t('customModules.addModule')}
+              </Button>
+              <Button variant="outline" size="sm" onClick={() => handleAdd(createAcousticsModule())}>
+                <Plus size={14} className="mr-1" />
+                {t('customModules.addAcoustics')}
+              </Button>
+              <Button variant="ghost" size="sm" onClick={() => fileInputRef.current?.click()}>
+                <Upload size={14} className="mr-1" />
+                {t('customModules.importJson')}
+              </Button>
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept=".json,application/json"
+                className="hidden"
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  e.target.value = '';
+                  if (file) void handleImport(file);
+                }}
+              />
+              {importError && <p className="text-xs text-red-600">{importError}</p>}
+            </div>
+          </div>
+
+          {/* Definition editor */}
+          <div className="flex-1 min-w-0 max-h-[60vh] overflow-y-auto space-y-4 pr-1">
+            {!selected ? (
+              <p className="text-xs text-muted-foreground">{t('customModules.selectHint')}</p>
+            ) : (
+              <ModuleEditor
+                key={selected.id}
+                module={selected}
+                issues={issues}
+                formatIssue={formatIssue}
+                onChange={(updates) => updateCustomModule(selected.id, updates)}
+                onRemove={() => handleRemove(selected)}
+              />
+            )}
+          </div>
+        </div>
+      </DialogContent>
+
+      <DialogFooter>
+        <Button variant="ghost" onClick={handleExport} disabled={customModules.length === 0}>
+          <Download size={14} className="mr-1" />
+          {t('customModules.exportJson')}
+        </Button>
+        <Button variant="primary" onClick={onClose}>
+          {t('dialogs.close')}
+        </Button>
+      </DialogFooter>
+    </Dialog>
+  );
+}
+
+interface ModuleEditorProps {
+  module: CustomModuleDefinition;
+  issues: ModuleDefinitionIssue[];
+  formatIssue: (issue: ModuleDefinitionIssue) => string;
+  onChange: (updates: Partial<Omit<CustomModuleDefinition, 'id'>>) => void;
+  onRemove: () => void;
+}
+
+function ModuleEditor({ module, issues, formatIssue, onChange, onRemove }: ModuleEditorProps) {
+  const { t } = useTranslation();
+
+  const updateProperty = (index: number, updates: Partial<ModulePropertyDefinition>) =>
+    onChange({ properties: module.properties.map((p, i) => (i === index ? { ...p, ...updates } : p)) });
+  const updateField = (index: number, updates: Partial<ModuleComputedField>) =>
+    onChange({ computedFields: module.computedFields.map((f, i) => (i === index ? { ...f, ...updates } : f)) });
+
+  const changeType = (index: number, type: ModulePropertyType) =>
+    updateProperty(index, {
+      type,
+      defaultValue: getEmptyValue(type),
+      options: type === 'enum' ? (module.properties[index]?.options ?? []) : undefined,
+      total: undefined,
+    });
+
+  // Variables offered in the expression hint
+  const variables = [
+    ...ELEMENT_QUANTITIES,
+    ...module.properties.filter((p) => p.type === 'number' || p.type === 'boolean').map((p) => p.name),
+  ];
+
+  const renderTotalSelect = (value: ModuleTotal | undefined, onSelect: (total: ModuleTotal | undefined) => void) => (
+    <select
+      value={value ?? ''}
+      onChange={(e) => onSelect((e.target.value || undefined) as ModuleTotal | undefined)}
+      className={INPUT}
+      title={t('customModules.total')}
+    >
+      <option value="">{t('customModules.totalNone')}</option>
+      <option value="sum">{t('customModules.totalSum')}</option>
+      <option value="average">{t('customModules.totalAverage')}</option>
+    </select>
+  );
+
+  const renderDefaultInput = (property: ModulePropertyDefinition, index: number) => {
+    const value = property.defaultValue;
+    switch (property.type) {
+      case 'boolean':
+        return (
+          <input
+            type="checkbox"
+            checked={value === true}
+            onChange={(e) => updateProperty(index, { defaultValue: e.target.checked })}
+          />
+        );
+      case 'enum':
+        return (
+          <select
+            value={typeof value === 'string' ? value : ''}
+            onChange={(e) => updateProperty(index, { defaultValue: e.target.value })}
+            className={INPUT}
+          >
+            <option value="">–</option>
+            {(property.options ?? []).map((option) => (
+              <option key={option} value={option}>
+                {option}
+              </option>
+            ))}
+          </select>
+        );
+      case 'number':
+        return (
+          <input
+            type="number"
+            step="any"
+            value={typeof value === 'number' ? value : ''}
+            onChange={(e) =>
+              updateProperty(index, { defaultValue: e.target.value === '' ? null : parseFloat(e.target.value) })
+            }
+            className={`${INPUT} w-20 text-right`}
+          />
+        );
+      default:
+        return (
+          <input
+            type={property.type === 'date' ? 'date' : 'text'}
+            value={typeof value === 'string' ? value : ''}
+            onChange={(e) => updateProperty(index, { defaultValue: e.target.value })}
+            className={`${INPUT} w-32`}
+          />
+        );
+    }
+  };
+
+  return (
+    <>
+      {/* General */}
+      <div className="border rounded-lg p-3 space-y-2">
+        <div className="flex items-center gap-2">
+          <select
+            value={module.icon}
+            onChange={(e) => onChange({ icon: e.target.value })}
+            className={INPUT}
+            aria-label={t('customModules.icon')}
+          >
+            {CUSTOM_MODULE_ICONS.map((icon) => (
+              <option key={icon} value={icon}>
+                {icon}
+              </option>
+            ))}
+          </select>
+          <CustomModuleIcon name={module.icon} />
+          <input
+            value={module.name}
+            onChange={(e) => onChange({ name: e.target.value })}
+            placeholder={t('customModules.name')}
+            className="border rounded px-2 py-1 text-sm font-medium flex-1"
+          />
+          <button
+            onClick={onRemove}
+            className="p-1 text-muted-foreground hover:text-red-600"
+            title={t('customModules.removeModule')}
+          >
+            <Trash2 size={14} />
+          </button>
+        </div>
+        <input
+          value={module.description}
+          onChange={(e) => onChange({ description: e.target.value })}
+          placeholder={t('customModules.descriptionPlaceholder')}
+          className="border rounded px-2 py-1 text-xs w-full"
+        />
+        <label className="flex items-center gap-2 text-xs">
+          <span className="text-muted-foreground w-24">{t('customModules.psetName')}</span>
+          <input
+            value={module.psetName}
+            onChange={(e) => onChange({ psetName: e.target.value })}
+            className={`${INPUT} font-mono flex-1`}
+          />
+        </label>
+        <div className="flex flex-wrap items-center gap-1 text-xs">
+          <span className="text-muted-foreground w-24">{t('customModules.elementTypes')}</span>
+          {MODULE_ELEMENT_TYPES.map((type) => (
+            <button
+              key={type}
+              onClick={() => onChange({ elementTypes: toggle(module.elementTypes, type) })}
+              className={`px-2 py-0.5 rounded-full border ${
+                module.elementTypes.includes(type) ? 'bg-blue-100 border-blue-400 text-blue-800' : 'text-muted-foreground'
+              }`}
+            >
+              {t(`customModules.elementType.${type}`)}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {/* Properties */}
+      <div className="border rounded-lg p-3 space-y-2">
+        <h3 className="text-sm font-medium text-gray-700">{t('customModules.properties')}</h3>
+        {module.properties.map((property, index) => (
+          <div key={index} className="flex flex-wrap items-center gap-1 text-xs border-t pt-2">
+            <input
+              value={property.name}
+              onChange={(e) => updateProperty(index, { name: e.target.value })}
+              placeholder={t('customModules.propertyName')}
+              className={`${INPUT} font-mono w-40`}
+            />
+            <input
+              value={property.label}
+              onChange={(e) => updateProperty(index, { label: e.target.value })}
+              placeholder={t('customModules.label')}
+              className={`${INPUT} flex-1 min-w-32`}
+            />
+            <select
+              value={property.type}
+              onChange={(e) => changeType(index, e.target.value as ModulePropertyType)}
+              className={INPUT}
+            >
+              {MODULE_PROPERTY_TYPES.map((type) => (
+                <option key={type} value={type}>
+                  {t(`customModules.type.${type}`)}
+                </option>
+              ))}
+            </select>
+            <button
+              onClick={() => onChange({ properties: module.properties.filter((_, i) => i !== index) })}
+              className="p-1 text-muted-foreground hover:text-red-600"
+              title={t('customModules.removeProperty')}
+            >
+              <Trash2 size={14} />
+            </button>
+
+            <div className="w-full flex flex-wrap items-center gap-2 pl-1">
+              {property.type === 'enum' && (
+                <label className="flex items-center gap-1 flex-1 min-w-48">
+                  {t('customModules.options')}
+                  {/* Committed on blur, so commas can be typed */}
+                  <input
+                    key={(property.options ?? []).join('|')}
+                    defaultValue={(property.options ?? []).join(', ')}
+                    onBlur={(e) =>
+                      updateProperty(index, {
+                        options: e.target.value
+                          .split(',')
+                          .map((option) => option.trim())
+                          .filter((option) => option !== ''),
+                      })
+                    }
+                    placeholder="A, B, C"
+                    className={`${INPUT} flex-1`}
+                  />
+                </label>
+              )}
+              {property.type === 'number' && (
+                <>
+                  <label className="flex items-center gap-1">
+                    {t('customModules.unit')}
+                    <input
+                      value={property.unit ?? ''}
+                      onChange={(e) => updateProperty(index, { unit: e.target.value || undefined })}
+                      className={`${INPUT} w-14`}
+                    />
+                  </label>
+                  <label className="flex items-center gap-1">
+                    {t('customModules.min')}
+                    <input
+                      type="number"
+                      step="any"
+                      value={property.min ?? ''}
+                      onChange={(e) =>
+                        updateProperty(index, { min: e.target.value === '' ? undefined : parseFloat(e.target.value) })
+                      }
+                      className={`${INPUT} w-16 text-right`}
+                    />
+                  </label>
+                  <label className="flex items-center gap-1">
+                    {t('customModules.max')}
+                    <input
+                      type="number"
+                      step="any"
+                      value={property.max ?? ''}
+                      onChange={(e) =>
+                        updateProperty(index, { max: e.target.value === '' ? undefined : parseFloat(e.target.value) })
+                      }
+                      className={`${INPUT} w-16 text-right`}
+                    />
+                  </label>
+                  {renderTotalSelect(property.total, (total) => updateProperty(index, { total }))}
+                </>
+              )}
+              <label className="flex items-center gap-1">
+                {t('customModules.default')}
+                {renderDefaultInput(property, index)}
+              </label>
+            </div>
+          </div>
+        ))}
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() =>
+            onChange({ properties: [...module.properties, createModuleProperty(`Property${module.properties.length + 1}`)] })
+          }
+        >
+          <Plus size={14} className="mr-1" />
+          {t('customModules.addProperty')}
+        </Button>
+        <p className="text-xs text-muted-foreground">{t('customModules.renameHint')}</p>
+      </div>
+
+      {/* Computed fields */}
+      <div className="border rounded-lg p-3 space-y-2">
+        <h3 className="text-sm font-medium text-gray-700">{t('customModules.computed')}</h3>
+        {module.computedFields.map((field, index) => (
+          <div key={index} className="flex flex-wrap items-center gap-1 text-xs border-t pt-2">
+            <input
+              value={field.name}
+              onChange={(e) => updateField(index, { name: e.target.value })}
+              placeholder={t('customModules.propertyName')}
+              className={`${INPUT} font-mono w-40`}
+            />
+            <input
+              value={field.label}
+              onChange={(e) => updateField(index, { label: e.target.value })}
+              placeholder={t('customModules.label')}
+              className={`${INPUT} flex-1 min-w-32`}
+            />
+            <button
+              onClick={() => onChange({ computedFields: module.computedFields.filter((_, i) => i !== index) })}
+              className="p-1 text-muted-foreground hover:text-red-600"
+              title={t('customModules.removeProperty')}
+            >
+              <Trash2 size={14} />
+            </button>
+            <div className="w-full flex flex-wrap items-center gap-2 pl-1">
+              <input
+                value={field.expression}
+                onChange={(e) => updateField(index, { expression: e.target.value })}
+                placeholder={t('customModules.expression')}
+                className={`${INPUT} font-mono flex-1 min-w-48`}
+              />
+              <label className="flex items-center gap-1">
+                {t('customModules.unit')}
+                <input
+                  value={field.unit ?? ''}
+                  onChange={(e) => updateField(index, { unit: e.target.value || undefined })}
+                  className={`${INPUT} w-14`}
+                />
+              </label>
+              <label className="flex items-center gap-1">
+                {t('customModules.decimals')}
+                <input
+                  type="number"
+                  min={0}
+                  max={6}
+                  value={field.decimals}
+                  onChange={(e) =>
+                    updateField(index, { decimals: Math.max(0, Math.min(6, parseInt(e.target.value) || 0)) })
+                  }
+                  className={`${INPUT} w-12 text-right`}
+                />
+              </label>
+              {renderTotalSelect(field.total, (total) => updateField(index, { total }))}
+            </div>
+          </div>
+        ))}
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() =>
+            onChange({
+              computedFields: [...module.computedFields, createComputedField(`Computed${module.computedFields.length + 1}`)],
+            })
+          }
+        >
+          <Plus size={14} className="mr-1" />
+          {t('customModules.addComputed')}
+        </Button>
+        <p className="text-xs text-muted-foreground">
+          {t('customModules.variablesHint', {
+            variables: variables.join(', '),
+            functions: EXPRESSION_FUNCTIONS.join(', '),
+          })}
+        </p>
+      </div>
+
+      {/* Validation */}
+      {issues.length > 0 && (
+        <ul className="space-y-1 text-xs">
+          {issues.map((issue, index) => (
+            <li key={index} className="flex items-start gap-2 text-amber-700">
+              <AlertTriangle size={14} className="shrink-0 mt-0.5" />
+              {formatIssue(issue)}
+            </li>
+          ))}
+        </ul>
+      )}
+    </>
+  );
+}
@@ -21,6 +21,7 @@ const ELEMENT_TYPE_LABELS: Record<ElementType, string> = {
   counter: 'Theke',
   space: 'Raum',
   stair: 'Treppe',
+  signage: 'Kennzeichnung',
 };
 
 /**
@@ -0,0 +1,225 @@
+/**
+ * Project Browser Dialog - Projekt-Bibliothek
+ *
+ * Listet alle lokal gespeicherten Projekte mit Thumbnail und erlaubt
+ * Erstellen, Öffnen, Duplizieren, Umbenennen und Löschen.
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Plus, Copy, Pencil, Trash2, Check, X, Loader2, ImageOff } from 'lucide-react';
+import {
+  Dialog,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogContent,
+  DialogFooter,
+} from '@/components/ui/Dialog';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { useProjectLibraryStore } from '@/store';
+import type { ProjectLibraryEntry } from '@/lib/project';
+
+interface ProjectBrowserDialogProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+export function ProjectBrowserDialog({ open, onClose }: ProjectBrowserDialogProps) {
+  const { t, i18n } = useTranslation();
+  const { projects, activeProjectId, isBusy, error, refresh, switchTo, create, duplicate, rename, remove } =
+    useProjectLibraryStore();
+
+  const [newName, setNewName] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editName, setEditName] = useState('');
+
+  // Refresh index (and thumbnail of the active project) when the dialog opens
+  useEffect(() => {
+    if (open) {
+      refresh();
+      setEditingId(null);
+      setNewName('');
+    }
+  }, [open, refresh]);
+
+  const handleCreate = useCallback(async () => {
+    const name = newName.trim() || t('projectLibrary.defaultName');
+    await create(name);
+    setNewName('');
+    onClose();
+  }, [newName, create, onClose, t]);
+
+  const handleOpen = useCallback(
+    async (entry: ProjectLibraryEntry) => {
+      if (entry.id !== activeProjectId) {
+        await switchTo(entry.id);
+      }
+      onClose();
+    },
+    [activeProjectId, switchTo, onClose]
+  );
+
+  const handleDuplicate = useCallback(
+    (entry: ProjectLibraryEntry) => {
+      duplicate(entry.id, t('projectLibrary.copyName', { name: entry.name }));
+    },
+    [duplicate, t]
+  );
+
+  const handleStartRename = useCallback((entry: ProjectLibraryEntry) => {
+    setEditingId(entry.id);
+    setEditName(entry.name);
+  }, []);
+
+  const handleConfirmRename = useCallback(async () => {
+    if (!editingId || !editName.trim()) return;
+    await rename(editingId, editName.trim());
+    setEditingId(null);
+  }, [editingId, editName, rename]);
+
+  const handleDelete = useCallback(
+    (entry: ProjectLibraryEntry) => {
+      if (window.confirm(t('projectLibrary.confirmDelete', { name: entry.name }))) {
+        remove(entry.id);
+      }
+    },
+    [remove, t]
+  );
+
+  const formatDate = (timestamp: number) =>
+    new Date(timestamp).toLocaleString(i18n.language, { dateStyle: 'short', timeStyle: 'short' });
+
+  return (
+    <Dialog open={open} onClose={onClose} size="xl">
+      <DialogHeader>
+        <DialogTitle>{t('projectLibrary.title')}</DialogTitle>
+        <DialogDescription>{t('projectLibrary.description')}</DialogDescription>
+      </DialogHeader>
+
+      <DialogContent>
+        {/* New project */}
+        <div className="flex gap-2 mb-4">
+          <Input
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleCreate()}
+            placeholder={t('projectLibrary.defaultName')}
+          />
+          <Button onClick={handleCreate} disabled={isBusy} className="shrink-0 gap-1">
+            <Plus size={16} />
+            {t('projectLibrary.create')}
+          </Button>
+        </div>
+
+        {error && (
+          <div className="mb-4 p-2 text-sm text-red-600 bg-red-50 rounded">{error}</div>
+        )}
+
+        {/* Project grid */}
+        <div className="grid grid-cols-2 md:grid-cols-3 gap-3 max-h-[60vh] overflow-y-auto">
+          {projects.map((entry) => {
+            const isActive = entry.id === activeProjectId;
+            const isEditing = entry.id === editingId;
+
+            return (
+              <div
+                key={entry.id}
+                className={`border rounded-lg overflow-hidden flex flex-col ${
+                  isActive ? 'ring-2 ring-primary' : ''
+                }`}
+              >
+                <button
+                  type="button"
+                  onClick={() => handleOpen(entry)}
+                  disabled={isBusy}
+                  className="aspect-video bg-muted flex items-center justify-center hover:opacity-80"
+                  title={t('projectLibrary.open')}
+                >
+                  {entry.thumbnail ? (
+                    <img src={entry.thumbnail} alt={entry.name} className="w-full h-full object-cover" />
+                  ) : (
+                    <ImageOff size={24} className="text-muted-foreground" />
+                  )}
+                </button>
+
+                <div className="p-2 space-y-1">
+                  {isEditing ? (
+                    <div className="flex items-center gap-1">
+                      <Input
+                        value={editName}
+                        onChange={(e) => setEditName(e.target.value)}
+                        onKeyDown={(e) => e.key === 'Enter' && handleConfirmRename()}
+                        className="h-7 text-xs"
+                        autoFocus
+                      />
+                      <Button variant="ghost" size="sm" onClick={handleConfirmRename} className="px-1">
+                        <Check size={14} />
+                      </Button>
+                      <Button variant="ghost" size="sm" onClick={() => setEditingId(null)} className="px-1">
+                        <X size={14} />
+                      </Button>
+                    </div>
+                  ) : (
+                    <div className="text-sm font-medium truncate" title={entry.name}>
+                      {entry.name}
+                      {isActive && (
+                        <span className="ml-1 text-xs text-primary">({t('projectLibrary.active')})</span>
+                      )}
+                    </div>
+                  )}
+
+                  <div className="text-xs text-muted-foreground">
+                    {t('projectLibrary.elementCount', { count: entry.elementCount })} ·{' '}
+                    {formatDate(entry.updatedAt)}
+                  </div>
+
+                  <div className="flex justify-end gap-1">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleStartRename(entry)}
+                      disabled={isBusy}
+                      title={t('projectLibrary.rename')}
+                      className="px-1"
+                    >
+                      <Pencil size={14} />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleDuplicate(entry)}
+                      disabled={isBusy}
+                      title={t('projectLibrary.duplicate')}
+                      className="px-1"
+                    >
+                      <Copy size={14} />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleDelete(entry)}
+                      disabled={isBusy || isActive}
+                      title={isActive ? t('projectLibrary.cannotDeleteActive') : t('projectLibrary.delete')}
+                      className="px-1"
+                    >
+                      <Trash2 size={14} className="text-destructive" />
+                    </Button>
+                  </div>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </DialogContent>
+
+      <DialogFooter>
+        {isBusy && <Loader2 size={20} className="animate-spin text-muted-foreground mr-auto" />}
+        <Button variant="outline" onClick={onClose}>
+          {t('dialogs.close')}
+        </Button>
+      </DialogFooter>
+    </Dialog>
+  );
+}
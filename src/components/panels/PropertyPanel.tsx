@@ -1,5 +1,5 @@
 import { useMemo } from 'react';
-import { useSelectionStore, useElementStore, useProModeStore } from '@/store';
+import { useSelectionStore, useElementStore, useProModeStore, useProjectStore } from '@/store';
 import { DoorProperties } from './DoorProperties';
 import { WindowProperties } from './WindowProperties';
 import { ColumnProperties } from './ColumnProperties';
@@ -9,15 +9,24 @@ import { FurnitureProperties } from './FurnitureProperties';
 import { CounterProperties } from './CounterProperties';
 import { SpaceProperties } from './SpaceProperties';
 import { StairProperties } from './StairProperties';
+import { SignageProperties } from './SignageProperties';
 import { MultiEditPanel } from './MultiEditPanel';
 import { FireSafetyPanel } from './FireSafetyPanel';
 import { CleaningPanel } from './CleaningPanel';
+import { CustomModulePanel } from './CustomModulePanel';
 
 export function PropertyPanel() {
   const { getSelectedIds } = useSelectionStore();
   const { getElement } = useElementStore();
   const activeModule = useProModeStore((state) => state.activeModule);
   const isModuleEnabled = useProModeStore((state) => state.isModuleEnabled);
+  const customModules = useProjectStore((state) => state.customModules);
+
+  // PRO Mode: active user-defined module
+  const customModule =
+    activeModule && isModuleEnabled(activeModule)
+      ? customModules.find((module) => module.id === activeModule)
+      : undefined;
 
   const selectedIds = getSelectedIds();
 
@@ -44,6 +53,12 @@ export function PropertyPanel() {
       <div className="p-4">
         <h2 className="text-lg font-semibold mb-4">Mehrfachbearbeitung</h2>
         <MultiEditPanel selectedElements={selectedElements} />
+
+        {customModule && (
+          <div className="mt-4 pt-4 border-t">
+            <CustomModulePanel definition={customModule} elements={selectedElements} />
+          </div>
+        )}
       </div>
     );
   }
@@ -149,6 +164,13 @@ export function PropertyPanel() {
         </div>
       )}
 
+      {/* Signage-specific properties */}
+      {element.type === 'signage' && element.signageData && (
+        <div className="mt-4 pt-4 border-t">
+          <SignageProperties element={element} />
+        </div>
+      )}
+
       {/* PRO Mode: Fire Safety Module */}
       {activeModule === 'fire-safety' && isModuleEnabled('fire-safety') && (
         <div className="mt-4 pt-4 border-t">
@@ -162,6 +184,13 @@ export function PropertyPanel() {
           <CleaningPanel />
         </div>
       )}
+
+      {/* PRO Mode: User-defined Module */}
+      {customModule && (
+        <div className="mt-4 pt-4 border-t">
+          <CustomModulePanel definition={customModule} elements={[element]} />
+        </div>
+      )}
     </div>
   );
 }
@@ -0,0 +1,260 @@
+import { useMemo, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Download, RotateCcw } from 'lucide-react';
+import {
+  Dialog,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogContent,
+  DialogFooter,
+} from '@/components/ui/Dialog';
+import { Button } from '@/components/ui/Button';
+import { useElementStore, useProjectStore } from '@/store';
+import {
+  calculateTakeoff,
+  calculateCostEstimate,
+  takeoffToXlsx,
+  costEstimateToCsv,
+  downloadTakeoff,
+  TAKEOFF_ITEMS,
+  TRADES,
+  type TakeoffDetailKey,
+  type TakeoffLabels,
+  type TakeoffRow,
+} from '@/lib/quantities';
+
+interface QuantityTakeoffDialogProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+type TakeoffTab = 'takeoff' | 'costs' | 'prices';
+
+const TABS: TakeoffTab[] = ['takeoff', 'costs', 'prices'];
+
+/**
+ * Quantity take-off of the model with unit price catalogue and cost
+ * estimate per storey and trade
+ */
+export function QuantityTakeoffDialog({ open, onClose }: QuantityTakeoffDialogProps) {
+  const { t, i18n } = useTranslation();
+  const { elements } = useElementStore();
+  const { project, storeys, unitPrices, updateUnitPrice, resetUnitPrices } = useProjectStore();
+  const [tab, setTab] = useState<TakeoffTab>('costs');
+
+  // Only computed while the dialog is open
+  const rows = useMemo(() => (open ? calculateTakeoff(Array.from(elements.values())) : []), [open, elements]);
+  const estimate = useMemo(() => calculateCostEstimate(rows, unitPrices), [rows, unitPrices]);
+
+  const rowsByItem = useMemo(() => {
+    const groups = new Map<string, TakeoffRow[]>();
+    for (const row of rows) groups.set(row.item, [...(groups.get(row.item) ?? []), row]);
+    return groups;
+  }, [rows]);
+
+  const formatNumber = (value: number, digits = 2) =>
+    value.toLocaleString(i18n.language, { minimumFractionDigits: digits, maximumFractionDigits: digits });
+  const formatChf = (value: number) => `CHF ${formatNumber(value, 0)}`;
+
+  const getStoreyName = (id: string | null) =>
+    storeys.find((storey) => storey.id === id)?.name ?? t('quantities.noStorey');
+
+  const labels: TakeoffLabels = {
+    item: (key) => t(`quantities.item.${key}`),
+    trade: (trade) => t(`quantities.trade.${trade}`),
+    storey: getStoreyName,
+    detail: (key) => t(`quantities.detail.${key}`),
+    columns: {
+      trade: t('quantities.column.trade'),
+      item: t('quantities.column.item'),
+      element: t('quantities.column.element'),
+      storey: t('quantities.column.storey'),
+      count: t('quantities.column.count'),
+      quantity: t('quantities.column.quantity'),
+      unit: t('quantities.column.unit'),
+      unitPrice: t('quantities.column.unitPrice'),
+      total: t('quantities.column.total'),
+      details: t('quantities.column.details'),
+    },
+    sheets: {
+      quantities: t('quantities.tab.takeoff'),
+      costs: t('quantities.tab.costs'),
+      summary: t('quantities.summary'),
+    },
+    totalLabel: t('quantities.total'),
+  };
+
+  const handleExport = (format: 'xlsx' | 'csv') => {
+    const fileName = `${project.name}_Kostenschaetzung`;
+    downloadTakeoff(
+      format === 'xlsx' ? takeoffToXlsx(rows, estimate, labels) : costEstimateToCsv(estimate, labels),
+      fileName
+    );
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} size="xl">
+      <DialogHeader>
+        <DialogTitle>{t('quantities.title')}</DialogTitle>
+        <DialogDescription>{t('quantities.description')}</DialogDescription>
+      </DialogHeader>
+
+      <DialogContent>
+        <div className="space-y-4 text-sm">
+          <div className="flex items-center justify-between border-b">
+            <div className="flex gap-1">
+              {TABS.map((id) => (
+                <button
+                  key={id}
+                  onClick={() => setTab(id)}
+                  className={`px-3 py-1 text-xs rounded-t border-b-2 ${
+                    id === tab ? 'border-blue-600 font-medium' : 'border-transparent text-muted-foreground hover:text-foreground'
+                  }`}
+                >
+                  {t(`quantities.tab.${id}`)}
+                </button>
+              ))}
+            </div>
+            <span className="text-sm font-medium">
+              {t('quantities.total')}: {formatChf(estimate.total)}
+            </span>
+          </div>
+
+          <div className="max-h-[60vh] overflow-y-auto space-y-4">
+            {tab === 'takeoff' &&
+              (rows.length === 0 ? (
+                <p className="text-xs text-muted-foreground">{t('quantities.noElements')}</p>
+              ) : (
+                TAKEOFF_ITEMS.filter((item) => rowsByItem.has(item.key)).map((item) => {
+                  const itemRows = rowsByItem.get(item.key) ?? [];
+                  const sum = itemRows.reduce((total, row) => total + row.quantity, 0);
+                  return (
+                    <details key={item.key} className="border rounded-lg p-3">
+                      <summary className="cursor-pointer flex justify-between text-sm font-medium text-gray-700">
+                        <span>{t(`quantities.item.${item.key}`)}</span>
+                        <span>
+                          {formatNumber(sum, item.unit === 'Stk' ? 0 : 2)} {item.unit}
+                        </span>
+                      </summary>
+                      <table className="w-full text-xs mt-2">
+                        <tbody>
+                          {itemRows.map((row) => (
+                            <tr key={`${row.item}-${row.elementId}`}>
+                              <td className="py-0.5">{row.elementName}</td>
+                              <td className="text-muted-foreground">{getStoreyName(row.storeyId)}</td>
+                              <td className="text-muted-foreground">
+                                {(Object.entries(row.details) as [TakeoffDetailKey, number][])
+                                  .map(([key, value]) => `${t(`quantities.detail.${key}`)} ${formatNumber(value)}`)
+                                  .join(' · ')}
+                              </td>
+                              <td className="text-right whitespace-nowrap">
+                                {formatNumber(row.quantity, item.unit === 'Stk' ? 0 : 2)} {item.unit}
+                              </td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </details>
+                  );
+                })
+              ))}
+
+            {tab === 'costs' &&
+              (estimate.lines.length === 0 ? (
+                <p className="text-xs text-muted-foreground">{t('quantities.noElements')}</p>
+              ) : (
+                <>
+                  {TRADES.filter((trade) => estimate.byTrade.has(trade)).map((trade) => (
+                    <div key={trade} className="border rounded-lg p-3 space-y-1">
+                      <h3 className="text-sm font-medium text-gray-700 flex justify-between">
+                        <span>{t(`quantities.trade.${trade}`)}</span>
+                        <span>{formatChf(estimate.byTrade.get(trade) ?? 0)}</span>
+                      </h3>
+                      <table className="w-full text-xs">
+                        <tbody>
+                          {estimate.lines
+                            .filter((line) => line.trade === trade)
+                            .map((line) => (
+                              <tr key={`${line.item}-${line.storeyId}`}>
+                                <td className="py-0.5">{t(`quantities.item.${line.item}`)}</td>
+                                <td className="text-muted-foreground">{getStoreyName(line.storeyId)}</td>
+                                <td className="text-right">
+                                  {formatNumber(line.quantity, line.unit === 'Stk' ? 0 : 2)} {line.unit}
+                                </td>
+                                <td className="text-right text-muted-foreground">
+                                  × {formatNumber(line.unitPrice, 2)}
+                                </td>
+                                <td className="text-right w-28">{formatChf(line.total)}</td>
+                              </tr>
+                            ))}
+                        </tbody>
+                      </table>
+                    </div>
+                  ))}
+
+                  <div className="border rounded-lg p-3 space-y-1">
+                    <h3 className="text-sm font-medium text-gray-700">{t('quantities.byStorey')}</h3>
+                    <table className="w-full text-xs">
+                      <tbody>
+                        {Array.from(estimate.byStorey.entries()).map(([storeyId, total]) => (
+                          <tr key={storeyId}>
+                            <td className="py-0.5">{getStoreyName(storeyId || null)}</td>
+                            <td className="text-right w-28">{formatChf(total)}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                  <p className="text-xs text-muted-foreground">{t('quantities.disclaimer')}</p>
+                </>
+              ))}
+
+            {tab === 'prices' && (
+              <div className="space-y-4">
+                {TRADES.map((trade) => (
+                  <div key={trade} className="border rounded-lg p-3 space-y-1">
+                    <h3 className="text-sm font-medium text-gray-700">{t(`quantities.trade.${trade}`)}</h3>
+                    {TAKEOFF_ITEMS.filter((item) => item.trade === trade).map((item) => (
+                      <label key={item.key} className="flex items-center gap-2 text-xs">
+                        <span className="flex-1">{t(`quantities.item.${item.key}`)}</span>
+                        <span className="text-muted-foreground">CHF /</span>
+                        <span className="w-8 text-muted-foreground">{item.unit}</span>
+                        <input
+                          type="number"
+                          min={0}
+                          step={5}
+                          value={unitPrices[item.key]}
+                          onChange={(e) => updateUnitPrice(item.key, Math.max(0, parseFloat(e.target.value) || 0))}
+                          className="border rounded px-2 py-0.5 w-24 text-right"
+                        />
+                      </label>
+                    ))}
+                  </div>
+                ))}
+                <Button variant="ghost" size="sm" onClick={resetUnitPrices}>
+                  <RotateCcw size={14} className="mr-1" />
+                  {t('quantities.resetPrices')}
+                </Button>
+              </div>
+            )}
+          </div>
+        </div>
+      </DialogContent>
+
+      <DialogFooter>
+        <Button variant="ghost" onClick={() => handleExport('csv')} disabled={estimate.lines.length === 0}>
+          <Download size={14} className="mr-1" />
+          CSV
+        </Button>
+        <Button variant="ghost" onClick={() => handleExport('xlsx')} disabled={rows.length === 0}>
+          <Download size={14} className="mr-1" />
+          XLSX
+        </Button>
+        <Button variant="primary" onClick={onClose}>
+          {t('dialogs.close')}
+        </Button>
+      </DialogFooter>
+    </Dialog>
+  );
+}
@@ -0,0 +1,213 @@
+import { useMemo, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import {
+  Dialog,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogContent,
+  DialogFooter,
+} from '@/components/ui/Dialog';
+import { Button } from '@/components/ui/Button';
+import { useElementStore, useProjectStore, useHistoryStore, describeElements } from '@/store';
+import { createSignage } from '@/bim/elements/Signage';
+import {
+  planSignage,
+  checkSignageVisibility,
+  SIGNAGE_KINDS,
+  type SignageReason,
+  type SignageVisibility,
+} from '@/lib/evacuation/signage';
+import type { SignageKind } from '@/types/bim';
+
+interface SignagePlannerDialogProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+const SIGNAGE_REASONS: SignageReason[] = ['exit', 'door', 'stair', 'turn', 'visibility'];
+
+/**
+ * Coverage per kind and the spaces whose routes have gaps
+ */
+function VisibilitySummary({ visibility }: { visibility: SignageVisibility }) {
+  const { t } = useTranslation();
+
+  const gapsBySpace = useMemo(() => {
+    const spaces = new Map<string, { name: string; counts: Record<SignageKind, number> }>();
+    for (const gap of visibility.gaps) {
+      const entry = spaces.get(gap.spaceId) ?? { name: gap.spaceName, counts: { exitSign: 0, emergencyLight: 0 } };
+      entry.counts[gap.kind]++;
+      spaces.set(gap.spaceId, entry);
+    }
+    return Array.from(spaces.values());
+  }, [visibility]);
+
+  return (
+    <div className="space-y-2">
+      <table className="w-full text-xs">
+        <tbody>
+          {SIGNAGE_KINDS.map((kind) => (
+            <tr key={kind}>
+              <td className="py-0.5">{t(`signage.kindPlural.${kind}`)}</td>
+              <td className={`text-right ${visibility.covered[kind] < visibility.samples ? 'text-red-600' : ''}`}>
+                {t('signage.coveredPoints', { covered: visibility.covered[kind], total: visibility.samples })}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      {gapsBySpace.length === 0 ? (
+        <p className="text-xs text-green-700">{t('signage.noGaps')}</p>
+      ) : (
+        <div className="text-xs">
+          <div className="text-muted-foreground mb-1">{t('signage.gaps')}</div>
+          {gapsBySpace.map((space) => (
+            <div key={space.name} className="flex justify-between">
+              <span>{space.name}</span>
+              <span className="text-muted-foreground">
+                {SIGNAGE_KINDS.filter((kind) => space.counts[kind] > 0)
+                  .map((kind) => `${t(`signage.kindPlural.${kind}`)}: ${space.counts[kind]}`)
+                  .join(', ')}
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Visibility check of the placed signage and auto-placement along the evacuation routes
+ */
+export function SignagePlannerDialog({ open, onClose }: SignagePlannerDialogProps) {
+  const { t } = useTranslation();
+  const { elements, addElements, removeElements } = useElementStore();
+  const { storeys } = useProjectStore();
+  const [kinds, setKinds] = useState<SignageKind[]>(SIGNAGE_KINDS);
+
+  const allElements = useMemo(() => Array.from(elements.values()), [elements]);
+  const signage = allElements.filter((e) => e.type === 'signage');
+  const autoPlaced = signage.filter((e) => e.signageData?.autoPlaced);
+
+  // Only computed while the dialog is open (route calculation is not free)
+  const visibility = useMemo(
+    () => (open ? checkSignageVisibility(allElements, storeys) : null),
+    [open, allElements, storeys]
+  );
+  const plan = useMemo(
+    () => (open ? planSignage(allElements, storeys, { kinds }) : null),
+    [open, allElements, storeys, kinds]
+  );
+
+  const toggleKind = (kind: SignageKind, checked: boolean) =>
+    setKinds((current) => (checked ? [...current, kind] : current.filter((k) => k !== kind)));
+
+  const handlePlace = () => {
+    if (!plan) return;
+
+    const created = plan.proposals.map((proposal, index) =>
+      createSignage({
+        kind: proposal.kind,
+        position: proposal.position,
+        storeyId: proposal.storeyId,
+        elevation: storeys.find((storey) => storey.id === proposal.storeyId)?.elevation ?? 0,
+        arrow: proposal.arrow,
+        rotation: proposal.rotation,
+        hostDoorId: proposal.hostDoorId,
+        autoPlaced: true,
+        name: `${t(`signage.kind.${proposal.kind}`)} ${index + 1}`,
+      })
+    );
+
+    useHistoryStore.getState().transaction(t('history.added', { what: describeElements(created) }), () => {
+      if (autoPlaced.length > 0) removeElements(autoPlaced.map((e) => e.id));
+      if (created.length > 0) addElements(created);
+    });
+  };
+
+  const countByKind = (kind: SignageKind) => signage.filter((e) => e.signageData?.kind === kind).length;
+
+  return (
+    <Dialog open={open} onClose={onClose} size="lg">
+      <DialogHeader>
+        <DialogTitle>{t('signage.title')}</DialogTitle>
+        <DialogDescription>{t('signage.description')}</DialogDescription>
+      </DialogHeader>
+
+      <DialogContent>
+        {!visibility || !plan ? (
+          <p className="text-sm text-muted-foreground">{t('signage.noRoutes')}</p>
+        ) : (
+          <div className="space-y-4 max-h-[60vh] overflow-y-auto text-sm">
+            <div className="border rounded-lg p-4 space-y-2">
+              <h3 className="text-sm font-medium text-gray-700">{t('signage.current')}</h3>
+              <p className="text-xs text-muted-foreground">
+                {SIGNAGE_KINDS.map((kind) => `${t(`signage.kindPlural.${kind}`)}: ${countByKind(kind)}`).join(' · ')}
+              </p>
+              <VisibilitySummary visibility={visibility} />
+            </div>
+
+            <div className="border rounded-lg p-4 space-y-2">
+              <h3 className="text-sm font-medium text-gray-700">{t('signage.proposal')}</h3>
+              <div className="flex gap-4 text-xs">
+                {SIGNAGE_KINDS.map((kind) => (
+                  <label key={kind} className="flex items-center gap-1.5">
+                    <input
+                      type="checkbox"
+                      checked={kinds.includes(kind)}
+                      onChange={(e) => toggleKind(kind, e.target.checked)}
+                      className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                    />
+                    {t(`signage.kindPlural.${kind}`)}
+                  </label>
+                ))}
+              </div>
+
+              <table className="w-full text-xs">
+                <thead className="text-muted-foreground">
+                  <tr>
+                    <th className="text-left font-normal" />
+                    {SIGNAGE_KINDS.map((kind) => (
+                      <th key={kind} className="text-right font-normal">
+                        {t(`signage.kindPlural.${kind}`)}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {SIGNAGE_REASONS.map((reason) => (
+                    <tr key={reason}>
+                      <td className="py-0.5">{t(`signage.reason.${reason}`)}</td>
+                      {SIGNAGE_KINDS.map((kind) => (
+                        <td key={kind} className="text-right">
+                          {plan.proposals.filter((p) => p.reason === reason && p.kind === kind).length}
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+
+              <VisibilitySummary visibility={plan.visibility} />
+              <p className="text-xs text-muted-foreground">
+                {t('signage.replaceHint', { count: autoPlaced.length })}
+              </p>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+
+      <DialogFooter>
+        <Button variant="ghost" onClick={onClose}>
+          {t('dialogs.close')}
+        </Button>
+        <Button variant="primary" onClick={handlePlace} disabled={!plan || plan.proposals.length === 0}>
+          {t('signage.place', { count: plan?.proposals.length ?? 0 })}
+        </Button>
+      </DialogFooter>
+    </Dialog>
+  );
+}
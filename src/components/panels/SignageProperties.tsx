@@ -0,0 +1,120 @@
+import { useCallback } from 'react';
+import { useTranslation } from 'react-i18next';
+import type { BimElement, SignageArrow, SignageData } from '@/types/bim';
+import { useElementStore } from '@/store';
+
+interface SignagePropertiesProps {
+  element: BimElement;
+}
+
+const ARROWS: SignageArrow[] = ['none', 'straight', 'left', 'right', 'down'];
+
+/**
+ * Exit sign / emergency luminaire properties editor
+ */
+export function SignageProperties({ element }: SignagePropertiesProps) {
+  const { t } = useTranslation();
+  const { updateElement } = useElementStore();
+
+  const signageData = element.signageData;
+
+  // Any manual edit takes the element out of the planner's hands
+  const handleChange = useCallback(
+    (updates: Partial<SignageData>) => {
+      if (!signageData) return;
+      updateElement(element.id, { signageData: { ...signageData, ...updates, autoPlaced: false } });
+    },
+    [signageData, element.id, updateElement]
+  );
+
+  if (!signageData) {
+    return <div className="text-sm text-muted-foreground">{t('signage.dataNotAvailable')}</div>;
+  }
+
+  const isExitSign = signageData.kind === 'exitSign';
+
+  return (
+    <div className="space-y-4">
+      <h3 className="text-sm font-semibold">{t(`signage.kind.${signageData.kind}`)}</h3>
+
+      {/* Arrow direction (exit signs only) */}
+      {isExitSign && (
+        <div>
+          <label className="text-xs text-muted-foreground block mb-1.5">{t('signage.arrow')}</label>
+          <div className="grid grid-cols-3 gap-1">
+            {ARROWS.map((arrow) => (
+              <button
+                key={arrow}
+                onClick={() => handleChange({ arrow })}
+                className={`px-2 py-1.5 text-xs rounded border transition-colors ${
+                  signageData.arrow === arrow
+                    ? 'bg-primary text-primary-foreground border-primary'
+                    : 'bg-muted border-border hover:bg-accent'
+                }`}
+              >
+                {t(`signage.arrows.${arrow}`)}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <div className="space-y-3">
+        <div>
+          <label className="text-xs text-muted-foreground">{t('signage.mountingHeight')}</label>
+          <input
+            type="number"
+            value={signageData.mountingHeight}
+            onChange={(e) => handleChange({ mountingHeight: Math.max(0, parseFloat(e.target.value) || 0) })}
+            step={0.1}
+            min={0}
+            max={10}
+            className="w-full mt-1 px-2 py-1.5 text-sm border rounded bg-background"
+          />
+        </div>
+
+        <div>
+          <label className="text-xs text-muted-foreground">
+            {isExitSign ? t('signage.recognitionDistance') : t('signage.coverageRadius')}
+          </label>
+          <input
+            type="number"
+            value={signageData.range}
+            onChange={(e) => handleChange({ range: Math.max(0.5, parseFloat(e.target.value) || 0) })}
+            step={0.5}
+            min={0.5}
+            max={60}
+            className="w-full mt-1 px-2 py-1.5 text-sm border rounded bg-background"
+          />
+        </div>
+
+        <div>
+          <label className="text-xs text-muted-foreground">{t('signage.direction')}</label>
+          <input
+            type="number"
+            value={Math.round((signageData.rotation * 180) / Math.PI)}
+            onChange={(e) => handleChange({ rotation: ((parseFloat(e.target.value) || 0) * Math.PI) / 180 })}
+            step={15}
+            className="w-full mt-1 px-2 py-1.5 text-sm border rounded bg-background"
+          />
+        </div>
+
+        <div>
+          <label className="text-xs text-muted-foreground">{t('signage.duration')}</label>
+          <input
+            type="number"
+            value={signageData.duration}
+            onChange={(e) => handleChange({ duration: Math.max(0, parseInt(e.target.value) || 0) })}
+            step={30}
+            min={0}
+            className="w-full mt-1 px-2 py-1.5 text-sm border rounded bg-background"
+          />
+        </div>
+      </div>
+
+      {signageData.autoPlaced && (
+        <div className="pt-2 border-t text-xs text-muted-foreground">{t('signage.autoPlacedHint')}</div>
+      )}
+    </div>
+  );
+}
@@ -1,6 +1,6 @@
 import { useCallback } from 'react';
-import type { BimElement, SpaceType, GastroSpaceCategory } from '@/types/bim';
-import { GASTRO_SPACE_LABELS, GASTRO_SPACE_COLORS } from '@/types/bim';
+import type { BimElement, SpaceType, GastroSpaceCategory, OccupancyData } from '@/types/bim';
+import { GASTRO_SPACE_LABELS, GASTRO_SPACE_COLORS, OCCUPANT_LOAD_FACTORS, DEFAULT_GASTRO_CATEGORY } from '@/types/bim';
 import { useElementStore } from '@/store';
 import {
   updateSpaceProperties,
@@ -9,6 +9,7 @@ import {
   getSpaceNetVolume,
   updateSpaceNetFloorArea,
 } from '@/bim/elements';
+import { calculateSpaceOccupancy, type OccupancySource } from '@/bim/spaces';
 
 interface SpacePropertiesProps {
   element: BimElement;
@@ -33,6 +34,12 @@ const GASTRO_CATEGORIES: { value: GastroSpaceCategory; label: string }[] = [
   { value: 'SONSTIGES', label: GASTRO_SPACE_LABELS.SONSTIGES },
 ];
 
+const OCCUPANCY_SOURCE_LABELS: Record<OccupancySource, string> = {
+  area: 'aus Fläche',
+  seats: 'aus Sitzplätzen',
+  fixed: 'feste Vorgabe',
+};
+
 /**
  * Space-specific properties editor
  * Shows room area, perimeter, volume and allows editing type
@@ -75,6 +82,21 @@ export function SpaceProperties({ element }: SpacePropertiesProps) {
     [spaceData, element, updateElement]
   );
 
+  // Update occupant-load overrides (empty overrides are removed)
+  const handleOccupancyChange = useCallback(
+    (updates: Partial<OccupancyData>) => {
+      if (!spaceData) return;
+
+      const merged: OccupancyData = { ...spaceData.occupancyData, ...updates };
+      const occupancyData = Object.values(merged).some((value) => value !== undefined && value !== false)
+        ? merged
+        : undefined;
+      const updated = updateSpaceProperties(element, { occupancyData });
+      updateElement(element.id, updated);
+    },
+    [spaceData, element, updateElement]
+  );
+
   // Rename space
   const handleNameChange = useCallback(
     (name: string) => {
@@ -103,6 +125,8 @@ export function SpaceProperties({ element }: SpacePropertiesProps) {
   const netVolume = getSpaceNetVolume(element);
   const netArea = spaceData.netFloorArea;
   const hasNetArea = netArea !== undefined;
+  const occupancy = calculateSpaceOccupancy(element, getAllElements());
+  const defaultLoadFactor = OCCUPANT_LOAD_FACTORS[spaceData.gastroCategory ?? DEFAULT_GASTRO_CATEGORY];
 
   return (
     <div className="space-y-4">
@@ -239,6 +263,59 @@ export function SpaceProperties({ element }: SpacePropertiesProps) {
         </button>
       </div>
 
+      {/* Occupant Load (Personenbelegung) */}
+      <div className="p-3 border rounded-md space-y-2">
+        <div className="flex justify-between items-center">
+          <span className="text-xs text-muted-foreground">Personenbelegung</span>
+          <span className="text-sm font-semibold font-mono">{occupancy.occupancy} Pers.</span>
+        </div>
+        <div className="text-xs text-muted-foreground text-right">{OCCUPANCY_SOURCE_LABELS[occupancy.source]}</div>
+
+        <div className="flex justify-between items-center gap-2">
+          <label className="text-xs text-muted-foreground">Personen / m²</label>
+          <input
+            type="number"
+            min={0}
+            step={0.05}
+            value={spaceData.occupancyData?.personsPerM2 ?? ''}
+            placeholder={defaultLoadFactor.toString()}
+            onChange={(e) =>
+              handleOccupancyChange({
+                personsPerM2: e.target.value === '' ? undefined : Math.max(0, parseFloat(e.target.value) || 0),
+              })
+            }
+            className="w-20 px-2 py-1 text-sm border rounded bg-background text-right"
+          />
+        </div>
+
+        <label className="flex items-center gap-2 text-xs cursor-pointer">
+          <input
+            type="checkbox"
+            checked={spaceData.occupancyData?.useSeatCount ?? false}
+            onChange={(e) => handleOccupancyChange({ useSeatCount: e.target.checked || undefined })}
+            className="rounded border-gray-300"
+          />
+          Aus Sitzplätzen ableiten ({occupancy.seatCount} gezählt)
+        </label>
+
+        <div className="flex justify-between items-center gap-2">
+          <label className="text-xs text-muted-foreground">Feste Belegung</label>
+          <input
+            type="number"
+            min={0}
+            step={1}
+            value={spaceData.occupancyData?.fixedOccupancy ?? ''}
+            placeholder="auto"
+            onChange={(e) =>
+              handleOccupancyChange({
+                fixedOccupancy: e.target.value === '' ? undefined : Math.max(0, parseInt(e.target.value) || 0),
+              })
+            }
+            className="w-20 px-2 py-1 text-sm border rounded bg-background text-right"
+          />
+        </div>
+      </div>
+
       {/* Bounding Walls Info */}
       <div>
         <label className="text-xs text-muted-foreground">Begrenzende Wände</label>
@@ -10,6 +10,28 @@ export { CounterProperties } from './CounterProperties';
 export { StairProperties } from './StairProperties';
 export { PdfCalibrationDialog } from './PdfCalibrationDialog';
 export { ImportModelDialog } from './ImportModelDialog';
+export { IfcUpdateDiff } from './IfcUpdateDiff';
+export { ExportIfcDialog } from './ExportIfcDialog';
+export { ExportDxfDialog } from './ExportDxfDialog';
+export { ExportPdfDialog } from './ExportPdfDialog';
+export { EvacuationReportDialog } from './EvacuationReportDialog';
+export { AgentProfilesDialog } from './AgentProfilesDialog';
+export { EvacuationScenariosDialog } from './EvacuationScenariosDialog';
+export { SignagePlannerDialog } from './SignagePlannerDialog';
+export { FireCompartmentsDialog } from './FireCompartmentsDialog';
+export { MaintenanceScheduleDialog } from './MaintenanceScheduleDialog';
+export { ElectricalLoadDialog } from './ElectricalLoadDialog';
+export { ExportAssetRegisterDialog } from './ExportAssetRegisterDialog';
+export { QuantityTakeoffDialog } from './QuantityTakeoffDialog';
+export { CleaningScheduleDialog } from './CleaningScheduleDialog';
+export { HygieneCheckDialog } from './HygieneCheckDialog';
+export { CustomModulePanel } from './CustomModulePanel';
+export { CustomModuleOverviewDialog } from './CustomModuleOverviewDialog';
+export { ModuleRegistryDialog } from './ModuleRegistryDialog';
+export { ImportDxfDialog } from './ImportDxfDialog';
+export { DxfUnderlayPanel } from './DxfUnderlayPanel';
 export { FurnitureProperties } from './FurnitureProperties';
 export { SpaceProperties } from './SpaceProperties';
 export { AssetPropertySets } from './AssetPropertySets';
+export { ProjectBrowserDialog } from './ProjectBrowserDialog';
+export { HistoryPanel } from './HistoryPanel';
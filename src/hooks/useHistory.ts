@@ -1,71 +1,45 @@
-import { useElementStore } from '@/store/useElementStore';
-import { useCallback, useRef, useSyncExternalStore } from 'react';
-
-// Cached snapshot to avoid infinite loops with useSyncExternalStore
-// The snapshot must be referentially stable when values don't change
-interface HistorySnapshot {
-  pastLength: number;
-  futureLength: number;
-}
+import { useHistoryStore } from '@/store/useHistoryStore';
 
 /**
- * Hook to access undo/redo functionality for element history
+ * Hook to access undo/redo functionality
  *
- * Uses the temporal middleware from zundo which attaches a temporal
- * store to the main store.
+ * Backed by useHistoryStore, which records project, storey, element
+ * and measurement changes as named entries.
  */
 export function useHistory() {
-  const temporalStore = useElementStore.temporal;
-  const snapshotRef = useRef<HistorySnapshot>({ pastLength: 0, futureLength: 0 });
-
-  // Subscribe to temporal store to get reactive updates
-  const subscribe = useCallback(
-    (callback: () => void) => temporalStore.subscribe(callback),
-    [temporalStore]
-  );
-
-  const getSnapshot = useCallback((): HistorySnapshot => {
-    const pastLength = temporalStore.getState().pastStates.length;
-    const futureLength = temporalStore.getState().futureStates.length;
-
-    // Only return a new object if values actually changed
-    if (
-      snapshotRef.current.pastLength !== pastLength ||
-      snapshotRef.current.futureLength !== futureLength
-    ) {
-      snapshotRef.current = { pastLength, futureLength };
-    }
-
-    return snapshotRef.current;
-  }, [temporalStore]);
-
-  const { pastLength, futureLength } = useSyncExternalStore(subscribe, getSnapshot);
-
-  const undo = useCallback(() => {
-    temporalStore.getState().undo();
-  }, [temporalStore]);
-
-  const redo = useCallback(() => {
-    temporalStore.getState().redo();
-  }, [temporalStore]);
+  const entries = useHistoryStore((state) => state.entries);
+  const currentIndex = useHistoryStore((state) => state.currentIndex);
+  const undo = useHistoryStore((state) => state.undo);
+  const redo = useHistoryStore((state) => state.redo);
+  const jumpTo = useHistoryStore((state) => state.jumpTo);
+  const clearHistory = useHistoryStore((state) => state.clear);
 
-  const clearHistory = useCallback(() => {
-    temporalStore.getState().clear();
-  }, [temporalStore]);
+  const undoCount = Math.max(0, currentIndex);
+  const redoCount = Math.max(0, entries.length - currentIndex - 1);
 
   return {
-    /** Undo the last element change */
+    /** Undo the last change */
     undo,
     /** Redo the last undone change */
     redo,
+    /** Restore the state of any history entry */
+    jumpTo,
     /** Check if undo is available */
-    canUndo: pastLength > 0,
+    canUndo: undoCount > 0,
     /** Check if redo is available */
-    canRedo: futureLength > 0,
+    canRedo: redoCount > 0,
     /** Number of steps that can be undone */
-    undoCount: pastLength,
+    undoCount,
     /** Number of steps that can be redone */
-    redoCount: futureLength,
+    redoCount,
+    /** All history entries (oldest first) */
+    entries,
+    /** Index of the entry matching the current state */
+    currentIndex,
+    /** Label of the step that would be undone */
+    undoLabel: undoCount > 0 ? entries[currentIndex]?.label : undefined,
+    /** Label of the step that would be redone */
+    redoLabel: redoCount > 0 ? entries[currentIndex + 1]?.label : undefined,
     /** Clear all history */
     clearHistory,
   };
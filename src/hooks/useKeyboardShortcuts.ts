@@ -1,5 +1,6 @@
 import { useEffect } from 'react';
-import { useToolStore, useSelectionStore, useElementStore, useViewStore, usePdfUnderlayStore, useMeasurementStore, useProjectStore } from '@/store';
+import { useTranslation } from 'react-i18next';
+import { useToolStore, useSelectionStore, useElementStore, useViewStore, usePdfUnderlayStore, useMeasurementStore, useProjectStore, useHistoryStore, describeElements } from '@/store';
 import type { ToolType } from '@/types/tools';
 import { useHistory } from './useHistory';
 
@@ -9,7 +10,9 @@ import { useHistory } from './useHistory';
 export function useKeyboardShortcuts() {
   const { setActiveTool, cancelCurrentOperation } = useToolStore();
   const { getSelectedIds, clearSelection, selectMultiple, cancelBoxSelect } = useSelectionStore();
-  const { removeElements, moveElements, getElementsByStorey } = useElementStore();
+  const { t } = useTranslation();
+  const { removeElements, moveElements, getElementsByStorey, getElement } = useElementStore();
+  const transaction = useHistoryStore((state) => state.transaction);
   const { activeStoreyId } = useProjectStore();
   const { toggleGrid, cycleViewMode, toggleSnapOrthogonal, toggleDimensions, snapSize, triggerZoomToExtents } = useViewStore();
   const { isLoaded: hasPdf, toggleVisible: togglePdfVisible } = usePdfUnderlayStore();
@@ -188,7 +191,12 @@ export function useKeyboardShortcuts() {
               break;
           }
 
-          moveElements(selectedIds, delta);
+          const moved = selectedIds
+            .map((id) => getElement(id))
+            .filter((e): e is NonNullable<typeof e> => !!e);
+          transaction(t('history.moved', { what: describeElements(moved) }), () =>
+            moveElements(selectedIds, delta)
+          );
           return;
         }
       }
@@ -229,6 +237,9 @@ export function useKeyboardShortcuts() {
     removeElements,
     moveElements,
     getElementsByStorey,
+    getElement,
+    transaction,
+    t,
     activeStoreyId,
     toggleGrid,
     cycleViewMode,
@@ -1,12 +1,13 @@
 import { useCallback, useMemo } from 'react';
 import { ThreeEvent } from '@react-three/fiber';
-import { useElementStore, useViewStore } from '@/store';
+import { useElementStore, useViewStore, useDxfUnderlayStore } from '@/store';
 import {
   snapPointAdvanced,
   getSnapCandidates,
 } from '@/lib/geometry/math';
 import type { Point2D, LineSegment, SnapType } from '@/types/geometry';
 import type { SnapCandidate } from '@/lib/geometry';
+import { getDxfSnapGeometry } from '@/lib/dxf';
 
 /** Snap tolerance for all snap types in meters */
 export const SNAP_TOLERANCE = 0.3;
@@ -25,6 +26,15 @@ export interface SnapResult {
 export function useSnap() {
   const { elements } = useElementStore();
   const { snapToGrid: snapEnabled, snapSize, snapSettings } = useViewStore();
+  const { document: dxfDocument, isVisible: isDxfVisible, hiddenLayers: dxfHiddenLayers } = useDxfUnderlayStore();
+
+  /**
+   * Snap geometry of the visible DXF underlay
+   */
+  const dxfSnapGeometry = useMemo(
+    () => (dxfDocument && isDxfVisible ? getDxfSnapGeometry(dxfDocument, dxfHiddenLayers) : null),
+    [dxfDocument, isDxfVisible, dxfHiddenLayers]
+  );
 
   /**
    * Get all snappable endpoints from existing elements
@@ -56,8 +66,13 @@ export function useSnap() {
       }
     });
 
+    // DXF underlay line endpoints, arc endpoints and centers
+    if (dxfSnapGeometry) {
+      points.push(...dxfSnapGeometry.points);
+    }
+
     return points;
-  }, [elements]);
+  }, [elements, dxfSnapGeometry]);
 
   /**
    * Get all wall segments for extended snapping (midpoint, perpendicular, nearest)
@@ -74,8 +89,13 @@ export function useSnap() {
       }
     });
 
+    // DXF underlay lines
+    if (dxfSnapGeometry) {
+      segments.push(...dxfSnapGeometry.segments);
+    }
+
     return segments;
-  }, [elements]);
+  }, [elements, dxfSnapGeometry]);
 
   /**
    * Snap a 2D point using all enabled snap modes
@@ -0,0 +1,93 @@
+/**
+ * Cleaning Schedule Calendar Export
+ *
+ * One weekly recurring event per shift and weekday (iCalendar, local time).
+ */
+
+import { escapeIcsText, foldIcsLine, formatIcsTimestamp } from '@/lib/ics';
+import { downloadBlob } from '@/lib/utils/download';
+import { WEEKDAYS, type CleaningShift, type CleaningWeekSchedule, type ShiftAssignment } from './schedule';
+
+export interface ShiftAssignmentText {
+  summary: string;
+  description: string;
+}
+
+export type ShiftAssignmentTextLookup = (assignment: ShiftAssignment, shift: CleaningShift) => ShiftAssignmentText;
+
+/**
+ * Monday of the week of the given date (local calendar day)
+ */
+export function getWeekStart(date: Date): Date {
+  const offset = (date.getDay() + 6) % 7;
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate() - offset);
+}
+
+/** Local date-time without time zone ("floating", RFC 5545 §3.3.5) */
+function formatIcsLocalDateTime(date: Date): string {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return (
+    `${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(date.getDate())}` +
+    `T${pad(date.getHours())}${pad(date.getMinutes())}00`
+  );
+}
+
+/**
+ * Schedule as iCalendar file content, recurring weekly from the given week
+ */
+export function cleaningScheduleToIcs(
+  schedule: CleaningWeekSchedule,
+  shifts: CleaningShift[],
+  getText: ShiftAssignmentTextLookup,
+  calendarName: string,
+  weekStart: Date = getWeekStart(new Date())
+): string {
+  const stamp = formatIcsTimestamp(new Date());
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//CoffeeBIM//Cleaning Schedule//DE',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeIcsText(calendarName)}`,
+  ];
+
+  for (const assignment of schedule.assignments) {
+    const shift = shifts.find((s) => s.id === assignment.shiftId);
+    if (!shift) continue;
+
+    const [hours = 0, minutes = 0] = shift.startTime.split(':').map(Number);
+    const start = new Date(
+      weekStart.getFullYear(),
+      weekStart.getMonth(),
+      weekStart.getDate() + WEEKDAYS.indexOf(assignment.weekday),
+      hours,
+      minutes
+    );
+    const { summary, description } = getText(assignment, shift);
+
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:${shift.id}-${assignment.weekday}@coffeebim`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART:${formatIcsLocalDateTime(start)}`,
+      `DURATION:PT${Math.round(Math.max(assignment.totalMinutes, shift.durationMinutes))}M`,
+      `RRULE:FREQ=WEEKLY;BYDAY=${assignment.weekday}`,
+      `SUMMARY:${escapeIcsText(summary)}`,
+      `DESCRIPTION:${escapeIcsText(description)}`,
+      'CATEGORIES:Reinigung',
+      'END:VEVENT'
+    );
+  }
+
+  lines.push('END:VCALENDAR');
+  return lines.map(foldIcsLine).join('\r\n') + '\r\n';
+}
+
+/**
+ * Trigger the browser download of the checklists (PDF) or the calendar
+ */
+export function downloadCleaningSchedule(content: Uint8Array | string, format: 'pdf' | 'ics', fileName: string): void {
+  const type = typeof content === 'string' ? 'text/calendar;charset=utf-8' : 'application/pdf';
+  downloadBlob(content, type, `${fileName}.${format}`);
+}
@@ -0,0 +1,183 @@
+/**
+ * Cleaning Checklists (PDF)
+ *
+ * One printable A4 checklist per zone and day in the style of a HACCP
+ * cleaning record: a tick box per cleaning round, initials per space and a
+ * sign-off block for the check and corrective actions. Texts are resolved
+ * by the caller.
+ */
+
+import { PdfWriter, measurePdfText, type PdfPage } from '@/lib/pdf/pdfWriter';
+import type { Weekday, ZoneChecklist } from './schedule';
+
+export interface CleaningChecklistLabels {
+  title: string;
+  projectName: string;
+  weekday: (weekday: Weekday) => string;
+  zone: (zone: string) => string;
+  shift: (shiftId: string) => string;
+  storey: (id: string | null) => string;
+  columns: {
+    space: string;
+    storey: string;
+    frequency: string;
+    minutes: string;
+    rounds: string;
+    initials: string;
+  };
+  /** Note for cleanings in the first week of the month only */
+  monthly: string;
+  date: string;
+  correctiveActions: string;
+  checkedBy: string;
+  signature: string;
+  page: (page: number, count: number) => string;
+}
+
+const PAGE_WIDTH = 210;
+const PAGE_HEIGHT = 297;
+const MARGIN = 15;
+const TABLE_TOP = 252;
+const HEADER_HEIGHT = 8;
+const ROW_HEIGHT = 10;
+/** Top of the sign-off block */
+const SIGN_OFF_TOP = 58;
+const ROWS_PER_PAGE = Math.floor((TABLE_TOP - HEADER_HEIGHT - SIGN_OFF_TOP - 4) / ROW_HEIGHT);
+
+const GRID = { color: '#9ca3af', width: 0.2 };
+
+/** Column widths (mm), 180 mm in total */
+const COLUMNS = [
+  { key: 'space', width: 62 },
+  { key: 'storey', width: 28 },
+  { key: 'frequency', width: 26 },
+  { key: 'minutes', width: 14 },
+  { key: 'rounds', width: 30 },
+  { key: 'initials', width: 20 },
+] as const;
+
+/**
+ * Shorten a text with an ellipsis to fit the width
+ */
+function fitText(text: string, size: number, maxWidth: number, bold = false): string {
+  if (measurePdfText(text, size, bold) <= maxWidth) return text;
+  let result = text;
+  while (result.length > 1 && measurePdfText(`${result}…`, size, bold) > maxWidth) {
+    result = result.slice(0, -1);
+  }
+  return `${result}…`;
+}
+
+function drawHeader(page: PdfPage, checklist: ZoneChecklist, labels: CleaningChecklistLabels): void {
+  const top = PAGE_HEIGHT - MARGIN;
+  page.text({ x: MARGIN, y: top - 6 }, `${labels.title} – ${labels.zone(checklist.zone)}`, { size: 6, bold: true });
+  page.text(
+    { x: MARGIN, y: top - 13 },
+    `${labels.weekday(checklist.weekday)} · ${labels.shift(checklist.shiftId)}`,
+    { size: 4 }
+  );
+  page.text({ x: PAGE_WIDTH - MARGIN, y: top - 6 }, labels.projectName, { size: 3.5, align: 'right', color: '#4b5563' });
+  page.text({ x: PAGE_WIDTH - MARGIN - 45, y: top - 13 }, `${labels.date}:`, { size: 3.5, align: 'right' });
+  page.line({ x: PAGE_WIDTH - MARGIN - 43, y: top - 13.5 }, { x: PAGE_WIDTH - MARGIN, y: top - 13.5 }, GRID);
+
+  // Column headings
+  page.rect(MARGIN, TABLE_TOP - HEADER_HEIGHT, PAGE_WIDTH - 2 * MARGIN, HEADER_HEIGHT, { fill: '#e5e7eb', stroke: GRID });
+  let x = MARGIN;
+  for (const column of COLUMNS) {
+    page.text({ x: x + 1.5, y: TABLE_TOP - HEADER_HEIGHT / 2 }, labels.columns[column.key], {
+      size: 3,
+      bold: true,
+      baseline: 'middle',
+    });
+    x += column.width;
+  }
+}
+
+function drawRows(page: PdfPage, checklist: ZoneChecklist, start: number, labels: CleaningChecklistLabels): void {
+  const tasks = checklist.tasks.slice(start, start + ROWS_PER_PAGE);
+  tasks.forEach((task, i) => {
+    const top = TABLE_TOP - HEADER_HEIGHT - i * ROW_HEIGHT;
+    page.rect(MARGIN, top - ROW_HEIGHT, PAGE_WIDTH - 2 * MARGIN, ROW_HEIGHT, { stroke: GRID });
+
+    let x = MARGIN;
+    const cells: Record<(typeof COLUMNS)[number]['key'], () => void> = {
+      space: () => {
+        page.text({ x: x + 1.5, y: top - 4 }, fitText(task.spaceName, 3.5, COLUMNS[0].width - 3, true), {
+          size: 3.5,
+          bold: true,
+        });
+        if (task.specialRequirements) {
+          const note = task.specialRequirements.replace(/\s*\n\s*/g, ' · ');
+          page.text({ x: x + 1.5, y: top - 8 }, fitText(note, 2.6, COLUMNS[0].width - 3), { size: 2.6, color: '#4b5563' });
+        }
+      },
+      storey: () =>
+        page.text({ x: x + 1.5, y: top - 4 }, fitText(labels.storey(task.storeyId), 3, COLUMNS[1].width - 3), { size: 3 }),
+      frequency: () => {
+        page.text({ x: x + 1.5, y: top - 4 }, task.frequency, { size: 3 });
+        if (task.monthly) page.text({ x: x + 1.5, y: top - 8 }, labels.monthly, { size: 2.6, color: '#4b5563' });
+      },
+      minutes: () =>
+        page.text({ x: x + COLUMNS[3].width - 1.5, y: top - 4 }, String(Math.round(task.minutes)), {
+          size: 3,
+          align: 'right',
+        }),
+      rounds: () => {
+        for (let round = 0; round < task.repetitions; round++) {
+          page.rect(x + 2 + round * 8, top - ROW_HEIGHT / 2 - 2.5, 5, 5, { stroke: { width: 0.3 } });
+        }
+      },
+      initials: () => undefined,
+    };
+
+    for (const column of COLUMNS) {
+      cells[column.key]();
+      x += column.width;
+      page.line({ x, y: top }, { x, y: top - ROW_HEIGHT }, GRID);
+    }
+  });
+}
+
+function drawSignOff(page: PdfPage, labels: CleaningChecklistLabels): void {
+  const right = PAGE_WIDTH - MARGIN;
+  page.text({ x: MARGIN, y: SIGN_OFF_TOP - 4 }, `${labels.correctiveActions}:`, { size: 3.5, bold: true });
+  for (const y of [SIGN_OFF_TOP - 12, SIGN_OFF_TOP - 20]) {
+    page.line({ x: MARGIN, y }, { x: right, y }, GRID);
+  }
+
+  const fields = [labels.checkedBy, labels.date, labels.signature];
+  const fieldWidth = (right - MARGIN) / fields.length;
+  fields.forEach((label, i) => {
+    const x = MARGIN + i * fieldWidth;
+    page.text({ x, y: SIGN_OFF_TOP - 32 }, `${label}:`, { size: 3.5 });
+    page.line({ x, y: SIGN_OFF_TOP - 40 }, { x: x + fieldWidth - 6, y: SIGN_OFF_TOP - 40 }, GRID);
+  });
+}
+
+/**
+ * Checklists as PDF, long zones continue on further pages
+ */
+export function createCleaningChecklistPdf(checklists: ZoneChecklist[], labels: CleaningChecklistLabels): Uint8Array {
+  const writer = new PdfWriter({ title: labels.title, subject: labels.projectName });
+
+  const pages: { checklist: ZoneChecklist; start: number }[] = [];
+  for (const checklist of checklists) {
+    for (let start = 0; start < Math.max(checklist.tasks.length, 1); start += ROWS_PER_PAGE) {
+      pages.push({ checklist, start });
+    }
+  }
+
+  pages.forEach(({ checklist, start }, i) => {
+    const page = writer.addPage(PAGE_WIDTH, PAGE_HEIGHT);
+    drawHeader(page, checklist, labels);
+    drawRows(page, checklist, start, labels);
+    drawSignOff(page, labels);
+    page.text({ x: PAGE_WIDTH - MARGIN, y: 8 }, labels.page(i + 1, pages.length), {
+      size: 2.8,
+      align: 'right',
+      color: '#6b7280',
+    });
+  });
+
+  return writer.toBytes();
+}
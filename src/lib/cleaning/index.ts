@@ -0,0 +1,34 @@
+/**
+ * Cleaning Schedule (PRO module)
+ *
+ * Weekly plan of the cleaning zones per staff shift, printable zone
+ * checklists and calendar export.
+ */
+
+export {
+  generateCleaningSchedule,
+  getZoneChecklists,
+  getCleaningSpaces,
+  getCleaningData,
+  getCleaningZones,
+  createCleaningShift,
+  WEEKDAYS,
+  UNASSIGNED_ZONE,
+  type Weekday,
+  type CleaningShift,
+  type CleaningSpace,
+  type CleaningTask,
+  type ShiftAssignment,
+  type CleaningWeekSchedule,
+  type ZoneChecklist,
+} from './schedule';
+
+export { createCleaningChecklistPdf, type CleaningChecklistLabels } from './checklistPdf';
+
+export {
+  cleaningScheduleToIcs,
+  downloadCleaningSchedule,
+  getWeekStart,
+  type ShiftAssignmentText,
+  type ShiftAssignmentTextLookup,
+} from './calendar';
@@ -0,0 +1,294 @@
+/**
+ * Cleaning Schedule (Reinigungs-Dienstplan)
+ *
+ * Turns the cleaning requirements of the spaces into a weekly plan: the
+ * cleaning zones are assigned to staff shifts, every zone is cleaned by one
+ * shift per day and the weekly/monthly cleanings are put on the day with the
+ * most spare shift time.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import type { BimElement, CleaningClassification, CleaningData, CleaningFrequency } from '@/types/bim';
+import { calculateCleaningDuration } from '@/types/bim';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** Weekday as iCalendar code (RFC 5545 BYDAY) */
+export type Weekday = 'MO' | 'TU' | 'WE' | 'TH' | 'FR' | 'SA' | 'SU';
+
+/**
+ * Staff shift that cleans the assigned zones on its weekdays
+ */
+export interface CleaningShift {
+  id: string;
+  name: string;
+  staffName: string;
+  weekdays: Weekday[];
+  /** Start time (HH:MM) */
+  startTime: string;
+  /** Shift length (minutes) */
+  durationMinutes: number;
+  /** Assigned cleaning zones (UNASSIGNED_ZONE = spaces without zone) */
+  zones: string[];
+}
+
+/**
+ * Space with its effective cleaning data (defaults if none are set)
+ */
+export interface CleaningSpace {
+  element: BimElement;
+  zone: string;
+  cleaning: CleaningData;
+}
+
+/**
+ * Cleaning of one space on one day
+ */
+export interface CleaningTask {
+  spaceId: string;
+  spaceName: string;
+  storeyId: string | null;
+  zone: string;
+  classification: CleaningClassification;
+  frequency: CleaningFrequency;
+  /** Cleanings on the day */
+  repetitions: number;
+  /** Duration of all repetitions (minutes) */
+  minutes: number;
+  /** Only in the first week of the month */
+  monthly: boolean;
+  specialRequirements?: string;
+}
+
+/**
+ * Tasks of one shift on one weekday
+ */
+export interface ShiftAssignment {
+  shiftId: string;
+  weekday: Weekday;
+  tasks: CleaningTask[];
+  totalMinutes: number;
+  capacityMinutes: number;
+  overloaded: boolean;
+}
+
+export interface CleaningWeekSchedule {
+  /** Sorted by weekday, then in shift order */
+  assignments: ShiftAssignment[];
+  /** Spaces whose zone no shift covers */
+  unassigned: CleaningSpace[];
+  /** Weekly minutes incl. the monthly cleanings (first week of the month) */
+  totalMinutes: number;
+}
+
+/**
+ * Tasks of one zone on one day (one printed checklist)
+ */
+export interface ZoneChecklist {
+  zone: string;
+  weekday: Weekday;
+  shiftId: string;
+  tasks: CleaningTask[];
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+export const WEEKDAYS: Weekday[] = ['MO', 'TU', 'WE', 'TH', 'FR', 'SA', 'SU'];
+
+/** Zone key of spaces without cleaning zone */
+export const UNASSIGNED_ZONE = '';
+
+/** Cleanings per day of the daily frequencies */
+const DAILY_REPETITIONS: Partial<Record<CleaningFrequency, number>> = {
+  'Mehrmals täglich': 3,
+  'Täglich': 1,
+};
+
+export function createCleaningShift(name: string): CleaningShift {
+  return {
+    id: uuidv4(),
+    name,
+    staffName: '',
+    weekdays: ['MO', 'TU', 'WE', 'TH', 'FR'],
+    startTime: '06:00',
+    durationMinutes: 120,
+    zones: [],
+  };
+}
+
+// ============================================================================
+// Spaces
+// ============================================================================
+
+/**
+ * Cleaning data of a space, same defaults as the cleaning panel
+ */
+export function getCleaningData(space: BimElement): CleaningData {
+  return (
+    space.spaceData?.cleaningData ?? {
+      classification: 'Medium',
+      frequency: 'Täglich',
+      durationMinutes: calculateCleaningDuration(space.spaceData?.area ?? 0, 'Medium'),
+    }
+  );
+}
+
+export function getCleaningSpaces(elements: BimElement[]): CleaningSpace[] {
+  return elements
+    .filter((element) => element.type === 'space' && element.spaceData)
+    .map((element) => {
+      const cleaning = getCleaningData(element);
+      return { element, zone: cleaning.cleaningZone?.trim() ?? UNASSIGNED_ZONE, cleaning };
+    });
+}
+
+/**
+ * Zones of the spaces, sorted; spaces without zone last
+ */
+export function getCleaningZones(spaces: CleaningSpace[]): string[] {
+  const zones = Array.from(new Set(spaces.map((space) => space.zone)));
+  return zones.sort((a, b) => (a === UNASSIGNED_ZONE ? 1 : b === UNASSIGNED_ZONE ? -1 : a.localeCompare(b)));
+}
+
+function createTask(space: CleaningSpace, repetitions: number, monthly: boolean): CleaningTask {
+  const { element, zone, cleaning } = space;
+  return {
+    spaceId: element.id,
+    spaceName: element.name,
+    storeyId: element.parentId ?? null,
+    zone,
+    classification: cleaning.classification,
+    frequency: cleaning.frequency,
+    repetitions,
+    minutes: cleaning.durationMinutes * repetitions,
+    monthly,
+    specialRequirements: cleaning.specialRequirements || undefined,
+  };
+}
+
+// ============================================================================
+// Schedule
+// ============================================================================
+
+/**
+ * Weekly cleaning plan. The daily cleanings of a zone go to the least loaded
+ * shift that covers the zone on that day; weekly and monthly cleanings are
+ * placed on the zone's day with the most remaining shift time.
+ */
+export function generateCleaningSchedule(spaces: CleaningSpace[], shifts: CleaningShift[]): CleaningWeekSchedule {
+  const assignments = new Map<string, ShiftAssignment>();
+  const getAssignment = (shift: CleaningShift, weekday: Weekday) => {
+    const key = `${shift.id}|${weekday}`;
+    let assignment = assignments.get(key);
+    if (!assignment) {
+      assignment = {
+        shiftId: shift.id,
+        weekday,
+        tasks: [],
+        totalMinutes: 0,
+        capacityMinutes: shift.durationMinutes,
+        overloaded: false,
+      };
+      assignments.set(key, assignment);
+    }
+    return assignment;
+  };
+  const load = (shift: CleaningShift, weekday: Weekday) =>
+    assignments.get(`${shift.id}|${weekday}`)?.totalMinutes ?? 0;
+  const getCandidates = (zone: string, weekday: Weekday) =>
+    shifts.filter((shift) => shift.zones.includes(zone) && shift.weekdays.includes(weekday));
+
+  // Shift that cleans a zone on a day, so every checklist has one owner
+  const zoneShift = new Map<string, CleaningShift>();
+  const pickShift = (zone: string, weekday: Weekday): CleaningShift | undefined => {
+    const assigned = zoneShift.get(`${zone}|${weekday}`);
+    if (assigned) return assigned;
+    const candidates = getCandidates(zone, weekday);
+    return candidates.reduce<CleaningShift | undefined>(
+      (best, shift) =>
+        !best || load(shift, weekday) / shift.durationMinutes < load(best, weekday) / best.durationMinutes
+          ? shift
+          : best,
+      undefined
+    );
+  };
+  const assign = (shift: CleaningShift, weekday: Weekday, tasks: CleaningTask[]) => {
+    zoneShift.set(`${tasks[0]?.zone}|${weekday}`, shift);
+    const assignment = getAssignment(shift, weekday);
+    assignment.tasks.push(...tasks);
+    assignment.totalMinutes += tasks.reduce((sum, task) => sum + task.minutes, 0);
+  };
+
+  const covered = spaces.filter((space) => shifts.some((shift) => shift.zones.includes(space.zone)));
+  const unassigned = spaces.filter((space) => !covered.includes(space));
+
+  // Daily cleanings, largest zone bundle first
+  for (const weekday of WEEKDAYS) {
+    const bundles = new Map<string, CleaningTask[]>();
+    for (const space of covered) {
+      const repetitions = DAILY_REPETITIONS[space.cleaning.frequency];
+      if (!repetitions || getCandidates(space.zone, weekday).length === 0) continue;
+      bundles.set(space.zone, [...(bundles.get(space.zone) ?? []), createTask(space, repetitions, false)]);
+    }
+    const sorted = Array.from(bundles.values()).sort(
+      (a, b) => b.reduce((sum, task) => sum + task.minutes, 0) - a.reduce((sum, task) => sum + task.minutes, 0)
+    );
+    for (const tasks of sorted) {
+      const shift = pickShift(tasks[0]!.zone, weekday);
+      if (shift) assign(shift, weekday, tasks);
+    }
+  }
+
+  // Weekly and monthly cleanings on the day with the most spare time
+  const periodic = covered
+    .filter((space) => !DAILY_REPETITIONS[space.cleaning.frequency])
+    .sort((a, b) => b.cleaning.durationMinutes - a.cleaning.durationMinutes);
+  for (const space of periodic) {
+    let best: { shift: CleaningShift; weekday: Weekday; spare: number } | null = null;
+    for (const weekday of WEEKDAYS) {
+      const shift = pickShift(space.zone, weekday);
+      if (!shift) continue;
+      const spare = shift.durationMinutes - load(shift, weekday);
+      if (!best || spare > best.spare) best = { shift, weekday, spare };
+    }
+    if (best) assign(best.shift, best.weekday, [createTask(space, 1, space.cleaning.frequency === 'Monatlich')]);
+  }
+
+  const shiftOrder = shifts.map((shift) => shift.id);
+  const sorted = Array.from(assignments.values())
+    .map((assignment) => ({ ...assignment, overloaded: assignment.totalMinutes > assignment.capacityMinutes }))
+    .sort(
+      (a, b) =>
+        WEEKDAYS.indexOf(a.weekday) - WEEKDAYS.indexOf(b.weekday) ||
+        shiftOrder.indexOf(a.shiftId) - shiftOrder.indexOf(b.shiftId)
+    );
+
+  return {
+    assignments: sorted,
+    unassigned,
+    totalMinutes: sorted.reduce((sum, assignment) => sum + assignment.totalMinutes, 0),
+  };
+}
+
+/**
+ * One checklist per zone and day, in schedule order
+ */
+export function getZoneChecklists(schedule: CleaningWeekSchedule): ZoneChecklist[] {
+  const checklists: ZoneChecklist[] = [];
+  for (const assignment of schedule.assignments) {
+    const zones = Array.from(new Set(assignment.tasks.map((task) => task.zone)));
+    for (const zone of zones) {
+      checklists.push({
+        zone,
+        weekday: assignment.weekday,
+        shiftId: assignment.shiftId,
+        tasks: assignment.tasks.filter((task) => task.zone === zone),
+      });
+    }
+  }
+  return checklists;
+}
@@ -0,0 +1,143 @@
+import { describe, expect, it } from 'vitest';
+import type { BimElement, StoreyInfo } from '@/types/bim';
+import { createFurniture } from '@/bim/elements/Furniture';
+import { createSpaceFromPolygon } from '@/bim/elements/Space';
+import { uuidToIfcGuid } from '@/bim/ifc/guid';
+import {
+  ASSET_REGISTER_SHEETS,
+  assetRegisterSheetToCsv,
+  createAssetRegister,
+  type AssetRegisterInput,
+  type AssetRegisterSheet,
+  type AssetRegisterSheetName,
+} from './assetRegister';
+
+const storey: StoreyInfo = { id: 'eg', name: 'EG', buildingId: 'b', elevation: 0, height: 3 };
+
+/** 5 × 4 m bar at the origin */
+const bar = createSpaceFromPolygon({
+  name: 'Bar',
+  boundaryPolygon: [
+    { x: 0, y: 0 },
+    { x: 5, y: 0 },
+    { x: 5, y: 4 },
+    { x: 0, y: 4 },
+  ],
+  storeyId: storey.id,
+  gastroCategory: 'GASTRAUM',
+});
+
+function createAsset(name: string, x: number, grunddaten: Record<string, string> = {}): BimElement {
+  const element = createFurniture({
+    name,
+    category: 'equipment',
+    modelUrl: '',
+    modelFormat: 'glb',
+    originalFileName: '',
+    position: { x, y: 2, z: 0 },
+    storeyId: storey.id,
+  });
+  return {
+    ...element,
+    properties: [
+      { name: 'Pset_Grunddaten', properties: grunddaten },
+      {
+        name: 'Pset_KaufdatenGarantie',
+        properties: { Kaufdatum: '2026-01-15', GarantieBis: '2028-01-15', Kaufpreis: 12500 },
+      },
+      { name: 'Pset_Elektro', properties: { Stromverbrauch: 3200, Anschluss: '400 V' } },
+    ],
+  };
+}
+
+function createInput(elements: BimElement[]): AssetRegisterInput {
+  return {
+    project: { id: 'p', name: 'Café Müller', description: '' },
+    site: { id: 's', name: 'Zürich', address: 'Bahnhofstrasse 1' },
+    building: { id: 'b', name: 'Gebäude', siteId: 's' },
+    storeys: [storey],
+    elements,
+  };
+}
+
+/** Rows of a sheet as objects keyed by column name */
+function getRows(sheets: AssetRegisterSheet[], name: AssetRegisterSheetName) {
+  const sheet = sheets.find((s) => s.name === name)!;
+  return sheet.rows.map((row) =>
+    Object.fromEntries(sheet.columns.map((column, i) => [column, row[i]]))
+  );
+}
+
+const machine = {
+  Hersteller: 'La Marzocco',
+  Typ: 'Linea PB',
+  CoffeeEquipmentType: 'ESPRESSOMACHINE',
+};
+
+describe('createAssetRegister', () => {
+  it('creates all sheets with one value per column', () => {
+    const sheets = createAssetRegister(createInput([bar, createAsset('Siebträger', 1, machine)]));
+
+    expect(sheets.map((sheet) => sheet.name)).toEqual(ASSET_REGISTER_SHEETS);
+    for (const sheet of sheets) {
+      expect(sheet.columns.slice(0, 3)).toEqual(['Name', 'CreatedBy', 'CreatedOn']);
+      for (const row of sheet.rows) expect(row).toHaveLength(sheet.columns.length);
+    }
+  });
+
+  it('groups components of the same manufacturer and model into one type', () => {
+    const first = createAsset('Siebträger', 1, machine);
+    const second = createAsset('Siebträger', 3, machine);
+    const outside = createAsset('Mühle', 8, { Hersteller: 'Mahlkönig', Typ: 'E65S' });
+    const sheets = createAssetRegister(createInput([bar, first, second, outside]), {
+      createdBy: 'planung@example.ch',
+      createdOn: new Date('2026-03-01T08:00:00Z'),
+    });
+
+    expect(getRows(sheets, 'Type')).toMatchObject([
+      {
+        Name: 'La Marzocco Linea PB',
+        CreatedBy: 'planung@example.ch',
+        CreatedOn: '2026-03-01T08:00:00',
+        Category: 'Espressomaschine',
+        Manufacturer: 'La Marzocco',
+        ModelNumber: 'Linea PB',
+        WarrantyDurationParts: 24,
+        ReplacementCost: 12500,
+      },
+      { Name: 'Mahlkönig E65S', Manufacturer: 'Mahlkönig' },
+    ]);
+    expect(getRows(sheets, 'Component')).toMatchObject([
+      {
+        Name: 'Siebträger',
+        TypeName: 'La Marzocco Linea PB',
+        Space: 'Bar',
+        ExtIdentifier: uuidToIfcGuid(first.id),
+      },
+      { Name: 'Siebträger (2)', TypeName: 'La Marzocco Linea PB', Space: 'Bar' },
+      { Name: 'Mühle', TypeName: 'Mahlkönig E65S', Space: 'n/a' },
+    ]);
+  });
+
+  it('lists only unmapped properties as attributes', () => {
+    const sheets = createAssetRegister(createInput([createAsset('Siebträger', 1, machine)]));
+
+    expect(getRows(sheets, 'Attribute')).toMatchObject([
+      { Name: 'CoffeeEquipmentType', Value: 'ESPRESSOMACHINE', ExtObject: 'Pset_Grunddaten' },
+      { Name: 'Stromverbrauch', Value: 3200, Unit: 'W', ExtObject: 'Pset_Elektro' },
+      { Name: 'Anschluss', Value: '400 V', Unit: 'n/a' },
+    ]);
+  });
+});
+
+describe('assetRegisterSheetToCsv', () => {
+  it('quotes every cell and doubles quotes', () => {
+    const sheet: AssetRegisterSheet = {
+      name: 'Component',
+      columns: ['Name', 'Space'],
+      rows: [['Theke "Bar"', null]],
+    };
+
+    expect(assetRegisterSheetToCsv(sheet)).toBe('"Name";"Space"\n"Theke ""Bar""";""');
+  });
+});
@@ -0,0 +1,353 @@
+/**
+ * Asset Register (COBie-style)
+ *
+ * Builds the Facility, Floor, Space, Type, Component and Attribute sheets of
+ * a COBie-like workbook from the project structure and every furniture and
+ * counter element. Components are grouped into types by category,
+ * manufacturer and model; the containing space is resolved from the plan
+ * position. External identifiers are the IFC GlobalIds used by the IFC
+ * export, so both deliverables can be linked.
+ */
+
+import type {
+  BimElement,
+  BuildingInfo,
+  ProjectInfo,
+  PropertySet,
+  SiteInfo,
+  StoreyInfo,
+} from '@/types/bim';
+import { COFFEE_EQUIPMENT_LABELS, IFC_ELECTRIC_APPLIANCE_LABELS } from '@/types/bim';
+import { findContainingSpace } from '@/bim/spaces';
+import { uuidToIfcGuid, isIfcGuid } from '@/bim/ifc/guid';
+import { downloadBlob } from '@/lib/utils/download';
+import { createXlsx, XLSX_MIME_TYPE, type XlsxCell } from './xlsxWriter';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type AssetRegisterSheetName = 'Facility' | 'Floor' | 'Space' | 'Type' | 'Component' | 'Attribute';
+
+export interface AssetRegisterSheet {
+  name: AssetRegisterSheetName;
+  columns: string[];
+  rows: XlsxCell[][];
+}
+
+export interface AssetRegisterInput {
+  project: ProjectInfo;
+  site: SiteInfo;
+  building: BuildingInfo;
+  storeys: StoreyInfo[];
+  elements: BimElement[];
+}
+
+export interface AssetRegisterOptions {
+  /** Contact (e-mail) written to CreatedBy */
+  createdBy?: string;
+  /** Timestamp written to CreatedOn (default: now) */
+  createdOn?: Date;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+export const ASSET_REGISTER_SHEETS: AssetRegisterSheetName[] = [
+  'Facility',
+  'Floor',
+  'Space',
+  'Type',
+  'Component',
+  'Attribute',
+];
+
+/** Placeholder for unknown required values (COBie convention) */
+const NOT_AVAILABLE = 'n/a';
+
+const EXTERNAL_SYSTEM = 'CoffeeBIM';
+
+/** Psets whose values are mapped to Type/Component columns (not repeated as attributes) */
+const MAPPED_PROPERTIES: Record<string, string[]> = {
+  Pset_Grunddaten: ['Hersteller', 'Typ', 'Seriennummer', 'Kategorie', 'Beschreibung'],
+  Pset_KaufdatenGarantie: ['Kaufdatum', 'Kaufpreis', 'GarantieBis'],
+  Pset_Dimensionen: ['Breite', 'Tiefe', 'Hoehe'],
+};
+
+/** Units of known properties for the Attribute sheet */
+const PROPERTY_UNITS: Record<string, string> = {
+  Stromverbrauch: 'W',
+  Gewicht: 'kg',
+};
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function getGlobalId(source: { id: string; ifcGlobalId?: string }): string {
+  if (source.ifcGlobalId && isIfcGuid(source.ifcGlobalId)) return source.ifcGlobalId;
+  try {
+    return uuidToIfcGuid(source.id);
+  } catch {
+    return source.id;
+  }
+}
+
+function getProperties(element: BimElement, psetName: string): PropertySet['properties'] {
+  return element.properties?.find((pset) => pset.name === psetName)?.properties ?? {};
+}
+
+function text(value: unknown): string {
+  return value === null || value === undefined ? '' : String(value).trim();
+}
+
+function numberOrNull(value: unknown): number | null {
+  const number = typeof value === 'number' ? value : parseFloat(String(value ?? ''));
+  return Number.isFinite(number) ? number : null;
+}
+
+/** Whole months between two ISO dates, null if one is missing */
+function monthsBetween(from: string, to: string): number | null {
+  const start = new Date(`${from}T00:00:00Z`);
+  const end = new Date(`${to}T00:00:00Z`);
+  if (isNaN(start.getTime()) || isNaN(end.getTime()) || end <= start) return null;
+  return (end.getUTCFullYear() - start.getUTCFullYear()) * 12 + end.getUTCMonth() - start.getUTCMonth();
+}
+
+/**
+ * Name made unique within its sheet ("Stuhl", "Stuhl (2)", …)
+ */
+function createUniqueNamer(): (name: string) => string {
+  const used = new Map<string, number>();
+  return (name) => {
+    const base = name.trim() || NOT_AVAILABLE;
+    const count = (used.get(base.toLowerCase()) ?? 0) + 1;
+    used.set(base.toLowerCase(), count);
+    return count === 1 ? base : `${base} (${count})`;
+  };
+}
+
+/**
+ * Category of an asset: coffee equipment type, appliance type or catalog category
+ */
+function getAssetCategory(element: BimElement): string {
+  const grunddaten = getProperties(element, 'Pset_Grunddaten');
+  const equipmentType = text(grunddaten.CoffeeEquipmentType);
+  if (equipmentType in COFFEE_EQUIPMENT_LABELS) {
+    return COFFEE_EQUIPMENT_LABELS[equipmentType as keyof typeof COFFEE_EQUIPMENT_LABELS];
+  }
+  const applianceType = text(grunddaten.IfcElectricApplianceType);
+  if (applianceType in IFC_ELECTRIC_APPLIANCE_LABELS && applianceType !== 'NOTDEFINED') {
+    return IFC_ELECTRIC_APPLIANCE_LABELS[applianceType as keyof typeof IFC_ELECTRIC_APPLIANCE_LABELS];
+  }
+  return (
+    text(grunddaten.Kategorie) ||
+    text(element.furnitureData?.category) ||
+    (element.type === 'counter' ? 'Theke' : NOT_AVAILABLE)
+  );
+}
+
+export function isAssetElement(element: BimElement): boolean {
+  return element.type === 'furniture' || element.type === 'counter';
+}
+
+// ============================================================================
+// Register
+// ============================================================================
+
+/**
+ * All sheets of the asset register
+ */
+export function createAssetRegister(
+  input: AssetRegisterInput,
+  options: AssetRegisterOptions = {}
+): AssetRegisterSheet[] {
+  const { project, site, building, storeys, elements } = input;
+  const createdBy = options.createdBy?.trim() || NOT_AVAILABLE;
+  const createdOn = (options.createdOn ?? new Date()).toISOString().slice(0, 19);
+
+  const spaces = elements.filter((e) => e.type === 'space' && e.spaceData);
+  const assets = elements.filter(isAssetElement);
+  const storeyNames = new Map(storeys.map((storey) => [storey.id, storey.name]));
+
+  // Facility
+  const facility: AssetRegisterSheet = {
+    name: 'Facility',
+    columns: [
+      'Name', 'CreatedBy', 'CreatedOn', 'Category', 'ProjectName', 'SiteName', 'LinearUnits', 'AreaUnits',
+      'VolumeUnits', 'CurrencyUnit', 'AreaMeasurement', 'ExternalSystem', 'ExternalProjectObject',
+      'ExternalProjectIdentifier', 'ExternalSiteObject', 'ExternalSiteIdentifier', 'ExternalFacilityObject',
+      'ExternalFacilityIdentifier', 'Description', 'ProjectDescription', 'SiteDescription',
+    ],
+    rows: [
+      [
+        building.name, createdBy, createdOn, NOT_AVAILABLE, project.name, site.name, 'meters', 'squaremeters',
+        'cubicmeters', 'CHF', 'SIA 416', EXTERNAL_SYSTEM, 'IfcProject', getGlobalId(project), 'IfcSite',
+        getGlobalId(site), 'IfcBuilding', getGlobalId(building), building.name,
+        project.description || NOT_AVAILABLE, site.address || NOT_AVAILABLE,
+      ],
+    ],
+  };
+
+  // Floor
+  const floor: AssetRegisterSheet = {
+    name: 'Floor',
+    columns: [
+      'Name', 'CreatedBy', 'CreatedOn', 'Category', 'ExtSystem', 'ExtObject', 'ExtIdentifier', 'Description',
+      'Elevation', 'Height',
+    ],
+    rows: storeys.map((storey) => [
+      storey.name, createdBy, createdOn, 'Floor', EXTERNAL_SYSTEM, 'IfcBuildingStorey', getGlobalId(storey),
+      storey.name, storey.elevation, storey.height,
+    ]),
+  };
+
+  // Space
+  const spaceNamer = createUniqueNamer();
+  const spaceNames = new Map(spaces.map((space) => [space.id, spaceNamer(space.name)]));
+  const space: AssetRegisterSheet = {
+    name: 'Space',
+    columns: [
+      'Name', 'CreatedBy', 'CreatedOn', 'Category', 'FloorName', 'Description', 'ExtSystem', 'ExtObject',
+      'ExtIdentifier', 'RoomTag', 'UsableHeight', 'GrossArea', 'NetArea',
+    ],
+    rows: spaces.map((s) => {
+      const data = s.spaceData!;
+      return [
+        spaceNames.get(s.id), createdBy, createdOn, data.gastroCategory ?? data.spaceType,
+        storeyNames.get(s.parentId ?? '') ?? NOT_AVAILABLE, data.longName || s.name, EXTERNAL_SYSTEM, 'IfcSpace',
+        getGlobalId(s), NOT_AVAILABLE, data.netHeight ?? s.geometry.height, Math.round(data.area * 100) / 100,
+        Math.round((data.netFloorArea ?? data.area) * 100) / 100,
+      ];
+    }),
+  };
+
+  // Type: one per category / manufacturer / model
+  const typeNamer = createUniqueNamer();
+  const typeByKey = new Map<string, { name: string; element: BimElement; category: string }>();
+  const typeNameByAsset = new Map<string, string>();
+  for (const asset of assets) {
+    const grunddaten = getProperties(asset, 'Pset_Grunddaten');
+    const manufacturer = text(grunddaten.Hersteller);
+    const model = text(grunddaten.Typ);
+    const category = getAssetCategory(asset);
+    // Without manufacturer and model, equally named elements share a type
+    const key = [asset.type, category, manufacturer, model, manufacturer || model ? '' : asset.name].join('|');
+
+    let type = typeByKey.get(key);
+    if (!type) {
+      const label = [manufacturer, model].filter(Boolean).join(' ') || asset.name;
+      type = { name: typeNamer(label), element: asset, category };
+      typeByKey.set(key, type);
+    }
+    typeNameByAsset.set(asset.id, type.name);
+  }
+
+  const typeSheet: AssetRegisterSheet = {
+    name: 'Type',
+    columns: [
+      'Name', 'CreatedBy', 'CreatedOn', 'Category', 'Description', 'AssetType', 'Manufacturer', 'ModelNumber',
+      'WarrantyGuarantorParts', 'WarrantyDurationParts', 'WarrantyDurationUnit', 'ExtSystem', 'ExtObject',
+      'ExtIdentifier', 'ReplacementCost', 'NominalLength', 'NominalWidth', 'NominalHeight',
+    ],
+    rows: Array.from(typeByKey.values()).map(({ name, element, category }) => {
+      const grunddaten = getProperties(element, 'Pset_Grunddaten');
+      const kaufdaten = getProperties(element, 'Pset_KaufdatenGarantie');
+      const dimensionen = getProperties(element, 'Pset_Dimensionen');
+      const warrantyMonths = monthsBetween(text(kaufdaten.Kaufdatum), text(kaufdaten.GarantieBis));
+      return [
+        name, createdBy, createdOn, category, text(grunddaten.Beschreibung) || name,
+        element.type === 'counter' ? 'Fixed' : 'Moveable', text(grunddaten.Hersteller) || NOT_AVAILABLE,
+        text(grunddaten.Typ) || NOT_AVAILABLE, text(kaufdaten.Lieferant) || NOT_AVAILABLE, warrantyMonths ?? NOT_AVAILABLE,
+        'month', EXTERNAL_SYSTEM, element.type === 'counter' ? 'IfcBuildingElementProxyType' : 'IfcFurnitureType',
+        NOT_AVAILABLE, numberOrNull(kaufdaten.Kaufpreis) ?? NOT_AVAILABLE,
+        numberOrNull(dimensionen.Breite) ?? NOT_AVAILABLE, numberOrNull(dimensionen.Tiefe) ?? NOT_AVAILABLE,
+        numberOrNull(dimensionen.Hoehe) ?? NOT_AVAILABLE,
+      ];
+    }),
+  };
+
+  // Component
+  const componentNamer = createUniqueNamer();
+  const componentNames = new Map(assets.map((asset) => [asset.id, componentNamer(asset.name)]));
+  const component: AssetRegisterSheet = {
+    name: 'Component',
+    columns: [
+      'Name', 'CreatedBy', 'CreatedOn', 'TypeName', 'Space', 'Description', 'ExtSystem', 'ExtObject',
+      'ExtIdentifier', 'SerialNumber', 'InstallationDate', 'WarrantyStartDate', 'TagNumber', 'BarCode',
+      'AssetIdentifier',
+    ],
+    rows: assets.map((asset) => {
+      const grunddaten = getProperties(asset, 'Pset_Grunddaten');
+      const kaufdaten = getProperties(asset, 'Pset_KaufdatenGarantie');
+      const containingSpace = findContainingSpace(asset, spaces);
+      const purchaseDate = text(kaufdaten.Kaufdatum);
+      return [
+        componentNames.get(asset.id), createdBy, createdOn, typeNameByAsset.get(asset.id),
+        containingSpace ? spaceNames.get(containingSpace.id) : NOT_AVAILABLE,
+        text(grunddaten.Beschreibung) || asset.name, EXTERNAL_SYSTEM,
+        asset.type === 'counter' ? 'IfcBuildingElementProxy' : 'IfcFurniture', getGlobalId(asset),
+        text(grunddaten.Seriennummer) || NOT_AVAILABLE, purchaseDate || NOT_AVAILABLE, purchaseDate || NOT_AVAILABLE,
+        NOT_AVAILABLE, NOT_AVAILABLE, NOT_AVAILABLE,
+      ];
+    }),
+  };
+
+  // Attribute: remaining pset values of the components
+  const attribute: AssetRegisterSheet = {
+    name: 'Attribute',
+    columns: [
+      'Name', 'CreatedBy', 'CreatedOn', 'Category', 'SheetName', 'RowName', 'Value', 'Unit', 'ExtSystem',
+      'ExtObject', 'ExtIdentifier',
+    ],
+    rows: assets.flatMap((asset) =>
+      (asset.properties ?? []).flatMap((pset) =>
+        Object.entries(pset.properties)
+          .filter(([key, value]) => text(value) !== '' && !MAPPED_PROPERTIES[pset.name]?.includes(key))
+          .map(([key, value]): XlsxCell[] => [
+            key, createdBy, createdOn, 'Submitted', 'Component', componentNames.get(asset.id),
+            typeof value === 'number' || typeof value === 'boolean' ? value : text(value),
+            PROPERTY_UNITS[key] ?? NOT_AVAILABLE, EXTERNAL_SYSTEM, pset.name, getGlobalId(asset),
+          ])
+      )
+    ),
+  };
+
+  return [facility, floor, space, typeSheet, component, attribute];
+}
+
+// ============================================================================
+// Export
+// ============================================================================
+
+/**
+ * Register as .xlsx workbook (one worksheet per sheet)
+ */
+export function assetRegisterToXlsx(sheets: AssetRegisterSheet[]): Uint8Array {
+  return createXlsx(
+    sheets.map((sheet) => ({
+      name: sheet.name,
+      rows: [sheet.columns, ...sheet.rows],
+      header: true,
+      columnWidths: sheet.columns.map((column) => Math.max(12, column.length + 2)),
+    }))
+  );
+}
+
+/**
+ * One sheet of the register as CSV (semicolon separated)
+ */
+export function assetRegisterSheetToCsv(sheet: AssetRegisterSheet): string {
+  const row = (cells: XlsxCell[]) =>
+    cells.map((cell) => `"${String(cell ?? '').replace(/"/g, '""')}"`).join(';');
+  return [row(sheet.columns), ...sheet.rows.map(row)].join('\n');
+}
+
+/**
+ * Trigger the browser download of the workbook or a single CSV sheet
+ */
+export function downloadAssetRegister(content: Uint8Array | string, format: 'xlsx' | 'csv', fileName: string): void {
+  const type = typeof content === 'string' ? 'text/csv;charset=utf-8' : XLSX_MIME_TYPE;
+  downloadBlob(content, type, `${fileName}.${format}`);
+}
@@ -0,0 +1,21 @@
+/**
+ * Asset Register (COBie-style)
+ *
+ * Facility, floor, space, type and component sheets of the furniture and
+ * equipment, exported as XLSX or CSV.
+ */
+
+export {
+  createAssetRegister,
+  assetRegisterToXlsx,
+  assetRegisterSheetToCsv,
+  downloadAssetRegister,
+  isAssetElement,
+  ASSET_REGISTER_SHEETS,
+  type AssetRegisterSheetName,
+  type AssetRegisterSheet,
+  type AssetRegisterInput,
+  type AssetRegisterOptions,
+} from './assetRegister';
+
+export { createXlsx, getColumnName, XLSX_MIME_TYPE, type XlsxCell, type XlsxSheet } from './xlsxWriter';
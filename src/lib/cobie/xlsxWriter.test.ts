@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import { createXlsx, getColumnName } from './xlsxWriter';
+
+/** Entries are stored uncompressed, so the XML parts can be read from the bytes */
+function readXlsx(sheets: Parameters<typeof createXlsx>[0]): string {
+  return new TextDecoder().decode(createXlsx(sheets, new Date(2026, 0, 2)));
+}
+
+describe('getColumnName', () => {
+  it('continues with two and three letters after Z', () => {
+    expect([0, 25, 26, 51, 701, 702].map(getColumnName)).toEqual([
+      'A',
+      'Z',
+      'AA',
+      'AZ',
+      'ZZ',
+      'AAA',
+    ]);
+  });
+});
+
+describe('createXlsx', () => {
+  it('escapes XML characters and drops control characters in text cells', () => {
+    const xml = readXlsx([{ name: 'Daten', rows: [['Kaffee & "Kuchen" <Theke>\u0007']] }]);
+
+    expect(xml).toContain(
+      '<c r="A1" t="inlineStr"><is><t xml:space="preserve">Kaffee &amp; &quot;Kuchen&quot; &lt;Theke&gt;</t></is></c>'
+    );
+  });
+
+  it('writes numbers and booleans as values and skips empty cells', () => {
+    const xml = readXlsx([{ name: 'Daten', rows: [[1.5, true, null, '', NaN, 'x']] }]);
+
+    expect(xml).toContain(
+      '<row r="1"><c r="A1"><v>1.5</v></c><c r="B1" t="b"><v>1</v></c><c r="F1" t="inlineStr">'
+    );
+  });
+
+  it('makes sheet names valid and unique', () => {
+    const xml = readXlsx([
+      { name: 'Küche/Bar', rows: [] },
+      { name: 'Küche Bar', rows: [] },
+      { name: 'Ein sehr langer Tabellenname mit Überlänge', rows: [] },
+    ]);
+
+    expect(xml).toContain('<sheet name="Küche Bar" sheetId="1"');
+    expect(xml).toContain('<sheet name="Küche Bar 2" sheetId="2"');
+    // Cut to 31 characters
+    expect(xml).toContain('<sheet name="Ein sehr langer Tabellenname mi" sheetId="3"');
+  });
+
+  it('marks the header row bold and adds an auto filter', () => {
+    const xml = readXlsx([
+      {
+        name: 'Daten',
+        header: true,
+        rows: [
+          ['Name', 'Anzahl'],
+          ['Tasse', 12],
+        ],
+      },
+    ]);
+
+    expect(xml).toContain('<c r="A1" s="1" t="inlineStr">');
+    expect(xml).toContain('<autoFilter ref="A1:B2"/>');
+  });
+});
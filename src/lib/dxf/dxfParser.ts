@@ -0,0 +1,561 @@
+/**
+ * DXF-Parser für Vektor-Unterlagen
+ *
+ * Liest ASCII-DXF (R12 bis aktuelle Versionen): Layer, Linien, Polylinien
+ * (inkl. Bögen über Bulge), Bögen, Kreise, Ellipsen, Splines und Texte.
+ * Blockreferenzen (INSERT) und Bemassungsblöcke werden aufgelöst.
+ * Koordinaten bleiben in Zeichnungseinheiten.
+ */
+
+import type { Point2D } from '@/types/geometry';
+import type { DxfDrawing, DxfUnderlayEntity, DxfUnderlayLayer, DxfUnit } from '@/types/dxf';
+
+/**
+ * Error for files that cannot be read as DXF
+ */
+export class DxfParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DxfParseError';
+  }
+}
+
+/** Upper limit for entities after block expansion */
+const MAX_ENTITIES = 200000;
+
+/** Max nesting depth of block references */
+const MAX_BLOCK_DEPTH = 8;
+
+/** Segment angle for tessellated curves (radians) */
+const CURVE_STEP = Math.PI / 16;
+
+/** $INSUNITS codes -> units */
+const INSUNITS: Record<number, DxfUnit> = {
+  1: 'in',
+  2: 'ft',
+  4: 'mm',
+  5: 'cm',
+  6: 'm',
+};
+
+/** AutoCAD color index -> display color (other indices are shown gray) */
+const ACI_COLORS: Record<number, string> = {
+  1: '#ff0000',
+  2: '#d4b000',
+  3: '#00a000',
+  4: '#00a0a0',
+  5: '#0000ff',
+  6: '#c000c0',
+  7: '#000000',
+  8: '#808080',
+  9: '#a0a0a0',
+};
+
+interface GroupPair {
+  code: number;
+  value: string;
+}
+
+/**
+ * One DXF object: type (group code 0) and its group pairs
+ */
+interface DxfRecord {
+  type: string;
+  pairs: GroupPair[];
+}
+
+interface BlockDefinition {
+  base: Point2D;
+  records: DxfRecord[];
+}
+
+/**
+ * Affine 2D transform: x' = a·x + c·y + e, y' = b·x + d·y + f
+ */
+interface Transform {
+  a: number;
+  b: number;
+  c: number;
+  d: number;
+  e: number;
+  f: number;
+}
+
+const IDENTITY: Transform = { a: 1, b: 0, c: 0, d: 1, e: 0, f: 0 };
+
+function applyTransform(t: Transform, p: Point2D): Point2D {
+  return { x: t.a * p.x + t.c * p.y + t.e, y: t.b * p.x + t.d * p.y + t.f };
+}
+
+/**
+ * Combine transforms: result applies `inner` first, then `outer`
+ */
+function multiply(outer: Transform, inner: Transform): Transform {
+  return {
+    a: outer.a * inner.a + outer.c * inner.b,
+    b: outer.b * inner.a + outer.d * inner.b,
+    c: outer.a * inner.c + outer.c * inner.d,
+    d: outer.b * inner.c + outer.d * inner.d,
+    e: outer.a * inner.e + outer.c * inner.f + outer.e,
+    f: outer.b * inner.e + outer.d * inner.f + outer.f,
+  };
+}
+
+/**
+ * Uniform scale + rotation (no mirroring): arcs stay arcs
+ */
+function isSimilarity(t: Transform): boolean {
+  const tolerance = 1e-9 * Math.max(1, Math.abs(t.a), Math.abs(t.b));
+  return Math.abs(t.a - t.d) < tolerance && Math.abs(t.b + t.c) < tolerance;
+}
+
+function readPairs(content: string): GroupPair[] {
+  if (content.startsWith('AutoCAD Binary DXF')) {
+    throw new DxfParseError('Binary DXF files are not supported. Please save as ASCII DXF.');
+  }
+
+  const lines = content.split(/\r?\n/);
+  const pairs: GroupPair[] = [];
+  for (let i = 0; i + 1 < lines.length; i += 2) {
+    const code = parseInt(lines[i]!.trim(), 10);
+    if (Number.isNaN(code)) {
+      throw new DxfParseError(`Invalid group code in line ${i + 1}`);
+    }
+    pairs.push({ code, value: lines[i + 1]!.trim() });
+  }
+  return pairs;
+}
+
+/**
+ * Split the file into sections, each a list of records
+ */
+function readSections(pairs: GroupPair[]): Map<string, DxfRecord[]> {
+  const sections = new Map<string, DxfRecord[]>();
+  let records: DxfRecord[] | null = null;
+  let current: DxfRecord | null = null;
+
+  for (let i = 0; i < pairs.length; i++) {
+    const pair = pairs[i]!;
+
+    if (pair.code === 0 && pair.value === 'SECTION') {
+      const name = pairs[i + 1]?.code === 2 ? pairs[i + 1]!.value : '';
+      records = [];
+      sections.set(name, records);
+      current = null;
+      i++;
+      continue;
+    }
+
+    if (pair.code === 0 && (pair.value === 'ENDSEC' || pair.value === 'EOF')) {
+      records = null;
+      current = null;
+      continue;
+    }
+
+    if (!records) continue;
+
+    if (pair.code === 0) {
+      current = { type: pair.value, pairs: [] };
+      records.push(current);
+    } else if (current) {
+      current.pairs.push(pair);
+    } else {
+      // HEADER variables are not introduced by a code 0
+      current = { type: '', pairs: [pair] };
+      records.push(current);
+    }
+  }
+
+  if (sections.size === 0) {
+    throw new DxfParseError('No DXF sections found');
+  }
+  return sections;
+}
+
+function getString(record: DxfRecord, code: number): string | undefined {
+  return record.pairs.find((p) => p.code === code)?.value;
+}
+
+function getNumber(record: DxfRecord, code: number, fallback: number): number {
+  const value = getString(record, code);
+  const parsed = value === undefined ? NaN : parseFloat(value);
+  return Number.isFinite(parsed) ? parsed : fallback;
+}
+
+function getPoint(record: DxfRecord, code: number): Point2D {
+  return { x: getNumber(record, code, 0), y: getNumber(record, code + 10, 0) };
+}
+
+function readUnit(header: DxfRecord[] | undefined): DxfUnit | null {
+  const pairs = header?.flatMap((record) => record.pairs) ?? [];
+  const index = pairs.findIndex((p) => p.code === 9 && p.value === '$INSUNITS');
+  if (index < 0) return null;
+  return INSUNITS[parseInt(pairs[index + 1]?.value ?? '', 10)] ?? null;
+}
+
+function readLayers(tables: DxfRecord[] | undefined): Map<string, string> {
+  const colors = new Map<string, string>();
+  for (const record of tables ?? []) {
+    if (record.type !== 'LAYER') continue;
+    const name = getString(record, 2);
+    if (!name) continue;
+    colors.set(name, ACI_COLORS[Math.abs(getNumber(record, 62, 7))] ?? '#808080');
+  }
+  return colors;
+}
+
+function readBlocks(blocks: DxfRecord[] | undefined): Map<string, BlockDefinition> {
+  const definitions = new Map<string, BlockDefinition>();
+  let current: BlockDefinition | null = null;
+
+  for (const record of blocks ?? []) {
+    if (record.type === 'BLOCK') {
+      current = { base: getPoint(record, 10), records: [] };
+      definitions.set(getString(record, 2) ?? '', current);
+    } else if (record.type === 'ENDBLK') {
+      current = null;
+    } else if (current) {
+      current.records.push(record);
+    }
+  }
+  return definitions;
+}
+
+/**
+ * Decode special characters and strip MTEXT formatting
+ */
+function decodeText(text: string): string {
+  return text
+    .replace(/\\U\+([0-9A-Fa-f]{4})/g, (_match, hex: string) => String.fromCharCode(parseInt(hex, 16)))
+    .replace(/%%[cC]/g, 'Ø')
+    .replace(/%%[dD]/g, '°')
+    .replace(/%%[pP]/g, '±')
+    .replace(/\\P/g, ' ')
+    .replace(/\\[A-Za-z][^;\\{}]*;/g, '')
+    .replace(/[{}]/g, '')
+    .trim();
+}
+
+/**
+ * Points along an arc (angles in radians, counter-clockwise sweep)
+ */
+function arcPoints(center: Point2D, radius: number, startAngle: number, sweep: number): Point2D[] {
+  const segments = Math.max(2, Math.ceil(Math.abs(sweep) / CURVE_STEP));
+  const points: Point2D[] = [];
+  for (let i = 0; i <= segments; i++) {
+    const angle = startAngle + (sweep * i) / segments;
+    points.push({ x: center.x + Math.cos(angle) * radius, y: center.y + Math.sin(angle) * radius });
+  }
+  return points;
+}
+
+/**
+ * Vertices of a polyline with bulges (arc segments) as straight segments
+ */
+function expandBulges(vertices: { point: Point2D; bulge: number }[], closed: boolean): Point2D[] {
+  const points: Point2D[] = [];
+  const count = vertices.length;
+
+  for (let i = 0; i < count; i++) {
+    const { point, bulge } = vertices[i]!;
+    points.push(point);
+
+    const next = vertices[i + 1] ?? (closed ? vertices[0] : undefined);
+    if (!next || Math.abs(bulge) < 1e-9) continue;
+
+    const dx = next.point.x - point.x;
+    const dy = next.point.y - point.y;
+    const chord = Math.sqrt(dx * dx + dy * dy);
+    if (chord === 0) continue;
+
+    // Bulge = tan(sweep / 4); positive bulges run counter-clockwise
+    const sweep = 4 * Math.atan(bulge);
+    const radius = chord / (2 * Math.sin(sweep / 2));
+    const centerDistance = radius * Math.cos(sweep / 2);
+    const center = {
+      x: (point.x + next.point.x) / 2 - (dy / chord) * centerDistance,
+      y: (point.y + next.point.y) / 2 + (dx / chord) * centerDistance,
+    };
+    const startAngle = Math.atan2(point.y - center.y, point.x - center.x);
+
+    // Intermediate points only (start and end are vertices)
+    points.push(...arcPoints(center, Math.abs(radius), startAngle, sweep).slice(1, -1));
+  }
+
+  return points;
+}
+
+function readLwPolylineVertices(record: DxfRecord): { point: Point2D; bulge: number }[] {
+  const vertices: { point: Point2D; bulge: number }[] = [];
+  for (const pair of record.pairs) {
+    const value = parseFloat(pair.value);
+    if (pair.code === 10) {
+      vertices.push({ point: { x: value, y: 0 }, bulge: 0 });
+    } else if (pair.code === 20 && vertices.length > 0) {
+      vertices[vertices.length - 1]!.point.y = value;
+    } else if (pair.code === 42 && vertices.length > 0) {
+      vertices[vertices.length - 1]!.bulge = value;
+    }
+  }
+  return vertices;
+}
+
+/**
+ * Converts DXF records into underlay entities, resolving block references
+ */
+class EntityReader {
+  readonly entities: DxfUnderlayEntity[] = [];
+  private nextId = 1;
+
+  constructor(private blocks: Map<string, BlockDefinition>) {}
+
+  private push(entity: DxfUnderlayEntity): void {
+    if (this.entities.length < MAX_ENTITIES) {
+      this.entities.push(entity);
+    }
+  }
+
+  private id(): string {
+    return `dxf-${this.nextId++}`;
+  }
+
+  readRecords(records: DxfRecord[], transform: Transform, parentLayer: string | null, depth: number): void {
+    for (let i = 0; i < records.length; i++) {
+      const record = records[i]!;
+      // Entities on layer 0 inside blocks take the layer of the block reference
+      const ownLayer = getString(record, 8) ?? '0';
+      const layer = ownLayer === '0' && parentLayer ? parentLayer : ownLayer;
+
+      if (record.type === 'POLYLINE') {
+        // Old-style polyline: VERTEX records until SEQEND
+        const vertices: { point: Point2D; bulge: number }[] = [];
+        while (records[i + 1] && records[i + 1]!.type === 'VERTEX') {
+          const vertex = records[++i]!;
+          vertices.push({ point: getPoint(vertex, 10), bulge: getNumber(vertex, 42, 0) });
+        }
+        if (records[i + 1]?.type === 'SEQEND') i++;
+
+        const flags = getNumber(record, 70, 0);
+        // Skip 3D meshes and polyface meshes
+        if (flags & (16 | 64)) continue;
+        this.addPolyline(layer, expandBulges(vertices, (flags & 1) === 1), (flags & 1) === 1, transform);
+        continue;
+      }
+
+      this.readRecord(record, layer, transform, depth);
+    }
+  }
+
+  private readRecord(record: DxfRecord, layer: string, transform: Transform, depth: number): void {
+    switch (record.type) {
+      case 'LINE':
+        this.push({
+          id: this.id(),
+          type: 'line',
+          layer,
+          start: applyTransform(transform, getPoint(record, 10)),
+          end: applyTransform(transform, getPoint(record, 11)),
+        });
+        break;
+
+      case 'LWPOLYLINE': {
+        const closed = (getNumber(record, 70, 0) & 1) === 1;
+        this.addPolyline(layer, expandBulges(readLwPolylineVertices(record), closed), closed, transform);
+        break;
+      }
+
+      case 'ARC':
+      case 'CIRCLE': {
+        const center = getPoint(record, 10);
+        const radius = getNumber(record, 40, 0);
+        if (radius <= 0) break;
+        const isCircle = record.type === 'CIRCLE';
+        const startAngle = isCircle ? 0 : getNumber(record, 50, 0);
+        const endAngle = isCircle ? 360 : getNumber(record, 51, 360);
+        this.addArc(layer, center, radius, startAngle, endAngle, isCircle, transform);
+        break;
+      }
+
+      case 'ELLIPSE': {
+        const center = getPoint(record, 10);
+        const major = getPoint(record, 11);
+        const ratio = getNumber(record, 40, 1);
+        const start = getNumber(record, 41, 0);
+        let end = getNumber(record, 42, Math.PI * 2);
+        if (end <= start) end += Math.PI * 2;
+
+        const minor = { x: -major.y * ratio, y: major.x * ratio };
+        const segments = Math.max(8, Math.ceil((end - start) / CURVE_STEP));
+        const points: Point2D[] = [];
+        for (let i = 0; i <= segments; i++) {
+          const t = start + ((end - start) * i) / segments;
+          points.push({
+            x: center.x + major.x * Math.cos(t) + minor.x * Math.sin(t),
+            y: center.y + major.y * Math.cos(t) + minor.y * Math.sin(t),
+          });
+        }
+        this.addPolyline(layer, points, false, transform);
+        break;
+      }
+
+      case 'SPLINE': {
+        // Approximation: fit points if present, otherwise the control polygon
+        const codes = record.pairs.some((p) => p.code === 11) ? [11, 21] : [10, 20];
+        const points: Point2D[] = [];
+        for (const pair of record.pairs) {
+          if (pair.code === codes[0]) points.push({ x: parseFloat(pair.value), y: 0 });
+          if (pair.code === codes[1] && points.length > 0) points[points.length - 1]!.y = parseFloat(pair.value);
+        }
+        this.addPolyline(layer, points, (getNumber(record, 70, 0) & 1) === 1, transform);
+        break;
+      }
+
+      case 'TEXT':
+      case 'MTEXT': {
+        const isMText = record.type === 'MTEXT';
+        const raw = isMText
+          ? record.pairs
+              .filter((p) => p.code === 3 || p.code === 1)
+              .map((p) => p.value)
+              .join('')
+          : (getString(record, 1) ?? '');
+        const text = decodeText(raw);
+        if (!text) break;
+
+        const height = getNumber(record, 40, 1);
+        let rotation = getNumber(record, 50, 0);
+        if (isMText && record.pairs.some((p) => p.code === 11)) {
+          const direction = getPoint(record, 11);
+          rotation = (Math.atan2(direction.y, direction.x) * 180) / Math.PI;
+        }
+        // MTEXT is anchored top-left: move to the baseline of the first line
+        const anchor = getPoint(record, 10);
+        const rad = (rotation * Math.PI) / 180;
+        const position = isMText
+          ? { x: anchor.x + Math.sin(rad) * height, y: anchor.y - Math.cos(rad) * height }
+          : anchor;
+
+        const origin = applyTransform(transform, position);
+        const direction = applyTransform({ ...transform, e: 0, f: 0 }, { x: Math.cos(rad), y: Math.sin(rad) });
+        const scale = Math.sqrt(Math.abs(transform.a * transform.d - transform.b * transform.c));
+
+        this.push({
+          id: this.id(),
+          type: 'text',
+          layer,
+          position: origin,
+          height: height * scale,
+          text,
+          rotation: (Math.atan2(direction.y, direction.x) * 180) / Math.PI,
+        });
+        break;
+      }
+
+      case 'INSERT':
+      case 'DIMENSION': {
+        const block = this.blocks.get(getString(record, 2) ?? '');
+        if (!block || depth >= MAX_BLOCK_DEPTH) break;
+
+        // Dimension blocks are already in world coordinates
+        let blockTransform = IDENTITY;
+        if (record.type === 'INSERT') {
+          const insertion = getPoint(record, 10);
+          const scaleX = getNumber(record, 41, 1);
+          const scaleY = getNumber(record, 42, 1);
+          const rotation = (getNumber(record, 50, 0) * Math.PI) / 180;
+          const cos = Math.cos(rotation);
+          const sin = Math.sin(rotation);
+
+          blockTransform = {
+            a: cos * scaleX,
+            b: sin * scaleX,
+            c: -sin * scaleY,
+            d: cos * scaleY,
+            e: 0,
+            f: 0,
+          };
+          const base = applyTransform(blockTransform, block.base);
+          blockTransform = { ...blockTransform, e: insertion.x - base.x, f: insertion.y - base.y };
+        }
+
+        this.readRecords(block.records, multiply(transform, blockTransform), layer, depth + 1);
+        break;
+      }
+    }
+  }
+
+  private addPolyline(layer: string, points: Point2D[], closed: boolean, transform: Transform): void {
+    if (points.length < 2) return;
+    this.push({
+      id: this.id(),
+      type: 'polyline',
+      layer,
+      points: points.map((p) => applyTransform(transform, p)),
+      closed,
+    });
+  }
+
+  private addArc(
+    layer: string,
+    center: Point2D,
+    radius: number,
+    startAngle: number,
+    endAngle: number,
+    isCircle: boolean,
+    transform: Transform
+  ): void {
+    if (isSimilarity(transform)) {
+      const scale = Math.sqrt(transform.a * transform.a + transform.b * transform.b);
+      const rotation = (Math.atan2(transform.b, transform.a) * 180) / Math.PI;
+      const worldCenter = applyTransform(transform, center);
+
+      if (isCircle) {
+        this.push({ id: this.id(), type: 'circle', layer, center: worldCenter, radius: radius * scale });
+      } else {
+        this.push({
+          id: this.id(),
+          type: 'arc',
+          layer,
+          center: worldCenter,
+          radius: radius * scale,
+          startAngle: startAngle + rotation,
+          endAngle: endAngle + rotation,
+        });
+      }
+      return;
+    }
+
+    // Mirrored or non-uniformly scaled blocks: tessellate
+    let sweep = endAngle - startAngle;
+    if (sweep <= 0) sweep += 360;
+    const points = arcPoints(center, radius, (startAngle * Math.PI) / 180, (sweep * Math.PI) / 180);
+    this.addPolyline(layer, isCircle ? points.slice(0, -1) : points, isCircle, transform);
+  }
+}
+
+/**
+ * Parse the content of an ASCII DXF file
+ */
+export function parseDxf(content: string): DxfDrawing {
+  const sections = readSections(readPairs(content));
+  const entitiesSection = sections.get('ENTITIES');
+  if (!entitiesSection) {
+    throw new DxfParseError('The DXF file has no ENTITIES section');
+  }
+
+  const layerColors = readLayers(sections.get('TABLES'));
+  const reader = new EntityReader(readBlocks(sections.get('BLOCKS')));
+  reader.readRecords(entitiesSection, IDENTITY, null, 0);
+
+  // Layers in table order, plus layers only referenced by entities
+  const counts = new Map<string, number>();
+  for (const entity of reader.entities) {
+    counts.set(entity.layer, (counts.get(entity.layer) ?? 0) + 1);
+  }
+  const layerNames = [...new Set([...layerColors.keys(), ...counts.keys()])];
+  const layers: DxfUnderlayLayer[] = layerNames
+    .filter((name) => counts.has(name))
+    .map((name) => ({ name, color: layerColors.get(name) ?? '#808080', entityCount: counts.get(name)! }));
+
+  return { unit: readUnit(sections.get('HEADER')), layers, entities: reader.entities };
+}
@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest';
+import { DxfDocument } from './dxfWriter';
+import { parseDxf } from './dxfParser';
+
+function createDocument(): DxfDocument {
+  const doc = new DxfDocument();
+  doc.addLayer('WALLS', 1);
+  doc.addLayer('TEXT', 7);
+  doc.modelSpace.push(
+    { type: 'line', layer: 'WALLS', start: { x: 0, y: 0 }, end: { x: 5, y: 0 } },
+    {
+      type: 'polyline',
+      layer: 'WALLS',
+      points: [
+        { x: 0, y: 0 },
+        { x: 4, y: 0 },
+        { x: 4, y: 3 },
+      ],
+      closed: true,
+    },
+    { type: 'circle', layer: 'WALLS', center: { x: 1, y: 1 }, radius: 0.5 },
+    {
+      type: 'arc',
+      layer: 'WALLS',
+      center: { x: 1, y: 1 },
+      radius: 0.9,
+      startAngle: 0,
+      endAngle: 90,
+    },
+    {
+      type: 'text',
+      layer: 'TEXT',
+      position: { x: 2, y: 1 },
+      height: 0.2,
+      text: 'Küche 1',
+      align: 'left',
+    }
+  );
+  return doc;
+}
+
+describe('DXF writer/parser round trip', () => {
+  it('reads back unit, layers and geometry', () => {
+    const drawing = parseDxf(createDocument().toString());
+
+    expect(drawing.unit).toBe('m');
+    expect(drawing.layers).toEqual([
+      { name: 'WALLS', color: '#ff0000', entityCount: 4 },
+      { name: 'TEXT', color: '#000000', entityCount: 1 },
+    ]);
+    expect(drawing.entities).toMatchObject([
+      { type: 'line', start: { x: 0, y: 0 }, end: { x: 5, y: 0 } },
+      {
+        type: 'polyline',
+        points: [
+          { x: 0, y: 0 },
+          { x: 4, y: 0 },
+          { x: 4, y: 3 },
+        ],
+        closed: true,
+      },
+      { type: 'circle', center: { x: 1, y: 1 }, radius: 0.5 },
+      { type: 'arc', center: { x: 1, y: 1 }, radius: 0.9, startAngle: 0, endAngle: 90 },
+      { type: 'text', layer: 'TEXT', position: { x: 2, y: 1 }, height: 0.2, rotation: 0 },
+    ]);
+  });
+
+  it('decodes non-ASCII text', () => {
+    const drawing = parseDxf(createDocument().toString());
+
+    expect(drawing.entities.find((entity) => entity.type === 'text')).toMatchObject({
+      text: 'Küche 1',
+    });
+  });
+
+  it('resolves dimension blocks into lines and the measured text', () => {
+    const doc = new DxfDocument();
+    doc.addLayer('DIM', 3);
+    doc.modelSpace.push({
+      type: 'alignedDimension',
+      layer: 'DIM',
+      start: { x: 0, y: 0 },
+      end: { x: 5, y: 0 },
+      offset: 0.5,
+    });
+
+    const { entities } = parseDxf(doc.toString());
+
+    expect(entities).toContainEqual(
+      expect.objectContaining({ type: 'line', start: { x: 0, y: 0.5 }, end: { x: 5, y: 0.5 } })
+    );
+    expect(entities).toContainEqual(expect.objectContaining({ type: 'text', text: '5.00' }));
+  });
+});
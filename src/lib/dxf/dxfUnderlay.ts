@@ -0,0 +1,157 @@
+/**
+ * DXF-Unterlage: Skalierung in Meter und Fanggeometrie
+ */
+
+import type { LineSegment, Point2D } from '@/types/geometry';
+import type { DxfDrawing, DxfUnderlayDocument, DxfUnderlayEntity, DxfUnit } from '@/types/dxf';
+import { DXF_UNIT_SCALE } from '@/types/dxf';
+
+export interface DxfUnderlayOptions {
+  fileName: string;
+  unit: DxfUnit;
+  /** Move the lower-left corner of the drawing to the world origin */
+  moveToOrigin: boolean;
+}
+
+export interface DxfSnapGeometry {
+  points: Point2D[];
+  segments: LineSegment[];
+}
+
+export interface DxfBounds {
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+}
+
+function entityPoints(entity: DxfUnderlayEntity): Point2D[] {
+  switch (entity.type) {
+    case 'line':
+      return [entity.start, entity.end];
+    case 'polyline':
+      return entity.points;
+    case 'arc':
+    case 'circle':
+      return [
+        { x: entity.center.x - entity.radius, y: entity.center.y - entity.radius },
+        { x: entity.center.x + entity.radius, y: entity.center.y + entity.radius },
+      ];
+    case 'text':
+      return [entity.position];
+  }
+}
+
+/**
+ * Bounding box of all entities (null for an empty drawing)
+ */
+export function getDxfBounds(entities: DxfUnderlayEntity[]): DxfBounds | null {
+  let bounds: DxfBounds | null = null;
+  for (const entity of entities) {
+    for (const p of entityPoints(entity)) {
+      if (!bounds) {
+        bounds = { minX: p.x, minY: p.y, maxX: p.x, maxY: p.y };
+        continue;
+      }
+      bounds.minX = Math.min(bounds.minX, p.x);
+      bounds.minY = Math.min(bounds.minY, p.y);
+      bounds.maxX = Math.max(bounds.maxX, p.x);
+      bounds.maxY = Math.max(bounds.maxY, p.y);
+    }
+  }
+  return bounds;
+}
+
+/**
+ * Unit from the file header, otherwise guessed from the drawing size
+ * (floor plans larger than 1000 units are usually drawn in mm)
+ */
+export function guessDxfUnit(drawing: DxfDrawing): DxfUnit {
+  if (drawing.unit) return drawing.unit;
+
+  const bounds = getDxfBounds(drawing.entities);
+  if (!bounds) return 'm';
+  const size = Math.max(bounds.maxX - bounds.minX, bounds.maxY - bounds.minY);
+  if (size > 1000) return 'mm';
+  if (size > 300) return 'cm';
+  return 'm';
+}
+
+/**
+ * Place a parsed drawing in world coordinates (meters)
+ */
+export function createDxfUnderlay(drawing: DxfDrawing, options: DxfUnderlayOptions): DxfUnderlayDocument {
+  const scale = DXF_UNIT_SCALE[options.unit];
+  const bounds = options.moveToOrigin ? getDxfBounds(drawing.entities) : null;
+  const offsetX = bounds?.minX ?? 0;
+  const offsetY = bounds?.minY ?? 0;
+
+  const map = (p: Point2D): Point2D => ({ x: (p.x - offsetX) * scale, y: (p.y - offsetY) * scale });
+
+  const entities = drawing.entities.map((entity): DxfUnderlayEntity => {
+    switch (entity.type) {
+      case 'line':
+        return { ...entity, start: map(entity.start), end: map(entity.end) };
+      case 'polyline':
+        return { ...entity, points: entity.points.map(map) };
+      case 'arc':
+      case 'circle':
+        return { ...entity, center: map(entity.center), radius: entity.radius * scale };
+      case 'text':
+        return { ...entity, position: map(entity.position), height: entity.height * scale };
+    }
+  });
+
+  return { fileName: options.fileName, unit: options.unit, layers: drawing.layers, entities };
+}
+
+/**
+ * Straight segments of lines and polylines
+ */
+export function getDxfSegments(entities: DxfUnderlayEntity[]): LineSegment[] {
+  const segments: LineSegment[] = [];
+  for (const entity of entities) {
+    if (entity.type === 'line') {
+      segments.push({ start: entity.start, end: entity.end });
+    } else if (entity.type === 'polyline') {
+      const count = entity.closed ? entity.points.length : entity.points.length - 1;
+      for (let i = 0; i < count; i++) {
+        segments.push({ start: entity.points[i]!, end: entity.points[(i + 1) % entity.points.length]! });
+      }
+    }
+  }
+  return segments;
+}
+
+/**
+ * Snap geometry of the visible layers: segments for line snaps,
+ * points for arc endpoints and circle/arc centers
+ */
+export function getDxfSnapGeometry(
+  document: DxfUnderlayDocument,
+  hiddenLayers: ReadonlySet<string>
+): DxfSnapGeometry {
+  const visible = document.entities.filter((entity) => !hiddenLayers.has(entity.layer));
+  const points: Point2D[] = [];
+
+  for (const entity of visible) {
+    if (entity.type === 'arc') {
+      const start = (entity.startAngle * Math.PI) / 180;
+      const end = (entity.endAngle * Math.PI) / 180;
+      points.push(
+        entity.center,
+        { x: entity.center.x + Math.cos(start) * entity.radius, y: entity.center.y + Math.sin(start) * entity.radius },
+        { x: entity.center.x + Math.cos(end) * entity.radius, y: entity.center.y + Math.sin(end) * entity.radius }
+      );
+    } else if (entity.type === 'circle') {
+      points.push(entity.center);
+    }
+  }
+
+  const segments = getDxfSegments(visible);
+  for (const segment of segments) {
+    points.push(segment.start, segment.end);
+  }
+
+  return { points, segments };
+}
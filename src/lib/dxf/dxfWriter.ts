@@ -0,0 +1,710 @@
+/**
+ * Minimaler DXF-Writer (AutoCAD 2000, AC1015)
+ *
+ * Schreibt 2D-Geometrie in Modell- oder Papierbereich (Layouts) inklusive
+ * Layer-Tabelle und ausgerichteten Bemassungen. Einheiten: Meter.
+ */
+
+import type { Point2D } from '@/types/geometry';
+import { normalizeTextRotation } from '@/lib/geometry/dimensions';
+
+/**
+ * 2D entities supported by the writer (coordinates in meters)
+ */
+export type DxfEntity =
+  | { type: 'line'; layer: string; start: Point2D; end: Point2D }
+  | { type: 'polyline'; layer: string; points: Point2D[]; closed: boolean }
+  | { type: 'circle'; layer: string; center: Point2D; radius: number }
+  /** Arc from startAngle to endAngle, counter-clockwise, angles in degrees */
+  | { type: 'arc'; layer: string; center: Point2D; radius: number; startAngle: number; endAngle: number }
+  | {
+      type: 'text';
+      layer: string;
+      position: Point2D;
+      height: number;
+      text: string;
+      /** Rotation in degrees */
+      rotation?: number;
+      /** Text is centered on position (default) or starts at position */
+      align?: 'center' | 'left';
+    }
+  | {
+      type: 'alignedDimension';
+      layer: string;
+      start: Point2D;
+      end: Point2D;
+      /** Distance of the dimension line from the measured points (positive = left of start→end) */
+      offset: number;
+      /** Displayed text (measured value if omitted) */
+      text?: string;
+    };
+
+/**
+ * Layer definition (color = AutoCAD color index 1-255)
+ */
+export interface DxfLayer {
+  name: string;
+  color: number;
+}
+
+/**
+ * Paper space layout with its own entities
+ */
+export interface DxfLayout {
+  name: string;
+  entities: DxfEntity[];
+}
+
+// Dimension style (meters)
+const DIM_TEXT_HEIGHT = 0.15;
+const DIM_TEXT_GAP = 0.05;
+const DIM_TICK_SIZE = 0.08;
+const DIM_EXT_OFFSET = 0.05;
+const DIM_EXT_EXTENSION = 0.1;
+
+/** Characters not allowed in layer, block and layout names */
+const INVALID_NAME_CHARS = /[<>/\\":;?*|=`,]/g;
+
+/**
+ * Make a string usable as DXF symbol name (layer, layout)
+ */
+export function sanitizeDxfName(name: string): string {
+  const sanitized = name.replace(INVALID_NAME_CHARS, '_').trim();
+  return sanitized || 'Unnamed';
+}
+
+/**
+ * Encode text for DXF: non-ASCII characters as \U+XXXX, no line breaks
+ */
+function encodeText(text: string): string {
+  let result = '';
+  for (const char of text.replace(/[\r\n]+/g, ' ')) {
+    const code = char.codePointAt(0) ?? 0;
+    result += code > 126 ? `\\U+${code.toString(16).toUpperCase().padStart(4, '0')}` : char;
+  }
+  return result;
+}
+
+function formatNumber(value: number): string {
+  const rounded = Math.round(value * 1e6) / 1e6;
+  return Object.is(rounded, -0) ? '0' : String(rounded);
+}
+
+/**
+ * DXF document: layers, model space entities and paper space layouts
+ */
+export class DxfDocument {
+  private layers: DxfLayer[] = [];
+  readonly modelSpace: DxfEntity[] = [];
+  readonly layouts: DxfLayout[] = [];
+
+  addLayer(name: string, color: number): void {
+    if (!this.layers.some((layer) => layer.name === name)) {
+      this.layers.push({ name, color });
+    }
+  }
+
+  /**
+   * Add a paper space layout and return its entity list
+   */
+  addLayout(name: string): DxfEntity[] {
+    let layoutName = sanitizeDxfName(name);
+    let suffix = 2;
+    while (layoutName === 'Model' || this.layouts.some((layout) => layout.name === layoutName)) {
+      layoutName = `${sanitizeDxfName(name)} (${suffix++})`;
+    }
+
+    const layout: DxfLayout = { name: layoutName, entities: [] };
+    this.layouts.push(layout);
+    return layout.entities;
+  }
+
+  toString(): string {
+    return new DxfSerializer(this.layers, this.modelSpace, this.layouts).serialize();
+  }
+}
+
+/**
+ * Block with its owner block record
+ */
+interface BlockDefinition {
+  name: string;
+  recordHandle: string;
+  layoutHandle: string;
+  /** Anonymous dimension block */
+  anonymous: boolean;
+  paperSpace: boolean;
+  /** Entities written inside the BLOCKS section */
+  entities: DxfEntity[];
+}
+
+/**
+ * Serializes a DxfDocument into DXF group code / value pairs
+ */
+class DxfSerializer {
+  private output: string[] = [];
+  private nextHandle = 1;
+  private dimensionBlocks = new Map<DxfEntity, BlockDefinition>();
+
+  constructor(
+    private layers: DxfLayer[],
+    private modelSpace: DxfEntity[],
+    private layouts: DxfLayout[]
+  ) {}
+
+  private handle(): string {
+    return (this.nextHandle++).toString(16).toUpperCase();
+  }
+
+  private pair(code: number, value: string | number): void {
+    this.output.push(String(code), typeof value === 'number' ? formatNumber(value) : value);
+  }
+
+  private point(code: number, point: Point2D): void {
+    this.pair(code, point.x);
+    this.pair(code + 10, point.y);
+    this.pair(code + 20, 0);
+  }
+
+  serialize(): string {
+    // Every DXF needs at least one paper space layout
+    const layouts = this.layouts.length > 0 ? this.layouts : [{ name: 'Layout1', entities: [] }];
+
+    const tableHandles = {
+      vport: this.handle(),
+      ltype: this.handle(),
+      layer: this.handle(),
+      style: this.handle(),
+      view: this.handle(),
+      ucs: this.handle(),
+      appid: this.handle(),
+      dimstyle: this.handle(),
+      blockRecord: this.handle(),
+    };
+    const styleHandle = this.handle();
+    const rootDictHandle = this.handle();
+    const groupDictHandle = this.handle();
+    const layoutDictHandle = this.handle();
+
+    // Block records: model space, one paper space per layout, one block per dimension
+    const modelBlock: BlockDefinition = {
+      name: '*Model_Space',
+      recordHandle: this.handle(),
+      layoutHandle: this.handle(),
+      anonymous: false,
+      paperSpace: false,
+      entities: [],
+    };
+    const paperBlocks: BlockDefinition[] = layouts.map((layout, index) => ({
+      name: index === 0 ? '*Paper_Space' : `*Paper_Space${index - 1}`,
+      recordHandle: this.handle(),
+      layoutHandle: this.handle(),
+      anonymous: false,
+      paperSpace: true,
+      // The active layout (*Paper_Space) lives in the ENTITIES section
+      entities: index === 0 ? [] : layout.entities,
+    }));
+
+    let dimensionIndex = 1;
+    for (const entity of [...this.modelSpace, ...layouts.flatMap((layout) => layout.entities)]) {
+      if (entity.type !== 'alignedDimension') continue;
+      this.dimensionBlocks.set(entity, {
+        name: `*D${dimensionIndex++}`,
+        recordHandle: this.handle(),
+        layoutHandle: '0',
+        anonymous: true,
+        paperSpace: false,
+        entities: expandDimension(entity),
+      });
+    }
+    const blocks = [modelBlock, ...paperBlocks, ...this.dimensionBlocks.values()];
+
+    this.section('CLASSES', () => {});
+    this.section('TABLES', () => {
+      this.writeTables(tableHandles, styleHandle, blocks);
+    });
+    this.section('BLOCKS', () => {
+      for (const block of blocks) this.writeBlock(block);
+    });
+    this.section('ENTITIES', () => {
+      for (const entity of this.modelSpace) this.writeEntity(entity, modelBlock.recordHandle, false);
+      for (const entity of layouts[0]!.entities) {
+        this.writeEntity(entity, paperBlocks[0]!.recordHandle, true);
+      }
+    });
+    this.section('OBJECTS', () => {
+      this.writeObjects(rootDictHandle, groupDictHandle, layoutDictHandle, modelBlock, paperBlocks, layouts);
+    });
+    this.pair(0, 'EOF');
+
+    const body = this.output;
+    this.output = [];
+    this.section('HEADER', () => this.writeHeader());
+
+    return [...this.output, ...body].join('\n') + '\n';
+  }
+
+  private section(name: string, write: () => void): void {
+    this.pair(0, 'SECTION');
+    this.pair(2, name);
+    write();
+    this.pair(0, 'ENDSEC');
+  }
+
+  private writeHeader(): void {
+    const extents = calculateExtents(this.modelSpace);
+
+    this.pair(9, '$ACADVER');
+    this.pair(1, 'AC1015');
+    this.pair(9, '$DWGCODEPAGE');
+    this.pair(3, 'ANSI_1252');
+    this.pair(9, '$HANDSEED');
+    this.pair(5, this.handle());
+    this.pair(9, '$INSUNITS');
+    this.pair(70, 6); // Meters
+    this.pair(9, '$MEASUREMENT');
+    this.pair(70, 1); // Metric
+    this.pair(9, '$LUNITS');
+    this.pair(70, 2); // Decimal
+    this.pair(9, '$EXTMIN');
+    this.point(10, extents.min);
+    this.pair(9, '$EXTMAX');
+    this.point(10, extents.max);
+  }
+
+  private tableHeader(name: string, handle: string, count: number): void {
+    this.pair(0, 'TABLE');
+    this.pair(2, name);
+    this.pair(5, handle);
+    this.pair(330, '0');
+    this.pair(100, 'AcDbSymbolTable');
+    this.pair(70, count);
+  }
+
+  private recordHeader(type: string, tableHandle: string, subclass: string, name: string): void {
+    this.pair(0, type);
+    this.pair(type === 'DIMSTYLE' ? 105 : 5, this.handle());
+    this.pair(330, tableHandle);
+    this.pair(100, 'AcDbSymbolTableRecord');
+    this.pair(100, subclass);
+    this.pair(2, name);
+    this.pair(70, 0);
+  }
+
+  private writeTables(
+    handles: Record<'vport' | 'ltype' | 'layer' | 'style' | 'view' | 'ucs' | 'appid' | 'dimstyle' | 'blockRecord', string>,
+    styleHandle: string,
+    blocks: BlockDefinition[]
+  ): void {
+    // Viewport: zoom to model space extents
+    const extents = calculateExtents(this.modelSpace);
+    const width = extents.max.x - extents.min.x;
+    const height = extents.max.y - extents.min.y;
+    this.tableHeader('VPORT', handles.vport, 1);
+    this.recordHeader('VPORT', handles.vport, 'AcDbViewportTableRecord', '*Active');
+    this.point(10, { x: 0, y: 0 });
+    this.point(11, { x: 1, y: 1 });
+    this.pair(12, (extents.min.x + extents.max.x) / 2);
+    this.pair(22, (extents.min.y + extents.max.y) / 2);
+    this.pair(40, Math.max(height, width / 1.5, 1) * 1.1);
+    this.pair(41, 1.5);
+    this.pair(0, 'ENDTAB');
+
+    // Line types
+    this.tableHeader('LTYPE', handles.ltype, 3);
+    for (const [name, description] of [
+      ['ByBlock', ''],
+      ['ByLayer', ''],
+      ['Continuous', 'Solid line'],
+    ] as const) {
+      this.recordHeader('LTYPE', handles.ltype, 'AcDbLinetypeTableRecord', name);
+      this.pair(3, description);
+      this.pair(72, 65);
+      this.pair(73, 0);
+      this.pair(40, 0);
+    }
+    this.pair(0, 'ENDTAB');
+
+    // Layers (layer 0 is mandatory)
+    const layers = [{ name: '0', color: 7 }, ...this.layers.filter((layer) => layer.name !== '0')];
+    this.tableHeader('LAYER', handles.layer, layers.length);
+    for (const layer of layers) {
+      this.recordHeader('LAYER', handles.layer, 'AcDbLayerTableRecord', layer.name);
+      this.pair(62, layer.color);
+      this.pair(6, 'Continuous');
+      this.pair(370, -3); // Default line weight
+    }
+    this.pair(0, 'ENDTAB');
+
+    // Text style
+    this.tableHeader('STYLE', handles.style, 1);
+    this.pair(0, 'STYLE');
+    this.pair(5, styleHandle);
+    this.pair(330, handles.style);
+    this.pair(100, 'AcDbSymbolTableRecord');
+    this.pair(100, 'AcDbTextStyleTableRecord');
+    this.pair(2, 'Standard');
+    this.pair(70, 0);
+    this.pair(40, 0);
+    this.pair(41, 1);
+    this.pair(50, 0);
+    this.pair(71, 0);
+    this.pair(42, DIM_TEXT_HEIGHT);
+    this.pair(3, 'arial.ttf');
+    this.pair(4, '');
+    this.pair(0, 'ENDTAB');
+
+    this.tableHeader('VIEW', handles.view, 0);
+    this.pair(0, 'ENDTAB');
+    this.tableHeader('UCS', handles.ucs, 0);
+    this.pair(0, 'ENDTAB');
+
+    this.tableHeader('APPID', handles.appid, 1);
+    this.recordHeader('APPID', handles.appid, 'AcDbRegAppTableRecord', 'ACAD');
+    this.pair(0, 'ENDTAB');
+
+    // Dimension style with architectural ticks
+    this.tableHeader('DIMSTYLE', handles.dimstyle, 1);
+    this.pair(100, 'AcDbDimStyleTable');
+    this.pair(71, 0);
+    this.recordHeader('DIMSTYLE', handles.dimstyle, 'AcDbDimStyleTableRecord', 'Standard');
+    this.pair(41, DIM_TICK_SIZE); // DIMASZ
+    this.pair(42, DIM_EXT_OFFSET); // DIMEXO
+    this.pair(44, DIM_EXT_EXTENSION); // DIMEXE
+    this.pair(140, DIM_TEXT_HEIGHT); // DIMTXT
+    this.pair(142, DIM_TICK_SIZE); // DIMTSZ
+    this.pair(147, DIM_TEXT_GAP); // DIMGAP
+    this.pair(77, 1); // DIMTAD: text above line
+    this.pair(271, 2); // DIMDEC
+    this.pair(340, styleHandle); // DIMTXSTY
+    this.pair(0, 'ENDTAB');
+
+    this.tableHeader('BLOCK_RECORD', handles.blockRecord, blocks.length);
+    for (const block of blocks) {
+      this.pair(0, 'BLOCK_RECORD');
+      this.pair(5, block.recordHandle);
+      this.pair(330, handles.blockRecord);
+      this.pair(100, 'AcDbSymbolTableRecord');
+      this.pair(100, 'AcDbBlockTableRecord');
+      this.pair(2, block.name);
+      this.pair(340, block.layoutHandle);
+    }
+    this.pair(0, 'ENDTAB');
+  }
+
+  private writeBlock(block: BlockDefinition): void {
+    this.pair(0, 'BLOCK');
+    this.pair(5, this.handle());
+    this.pair(330, block.recordHandle);
+    this.pair(100, 'AcDbEntity');
+    if (block.paperSpace) this.pair(67, 1);
+    this.pair(8, '0');
+    this.pair(100, 'AcDbBlockBegin');
+    this.pair(2, block.name);
+    this.pair(70, block.anonymous ? 1 : 0);
+    this.point(10, { x: 0, y: 0 });
+    this.pair(3, block.name);
+    this.pair(1, '');
+
+    for (const entity of block.entities) {
+      this.writeEntity(entity, block.recordHandle, block.paperSpace);
+    }
+
+    this.pair(0, 'ENDBLK');
+    this.pair(5, this.handle());
+    this.pair(330, block.recordHandle);
+    this.pair(100, 'AcDbEntity');
+    if (block.paperSpace) this.pair(67, 1);
+    this.pair(8, '0');
+    this.pair(100, 'AcDbBlockEnd');
+  }
+
+  private entityHeader(type: string, layer: string, owner: string, paperSpace: boolean): void {
+    this.pair(0, type);
+    this.pair(5, this.handle());
+    this.pair(330, owner);
+    this.pair(100, 'AcDbEntity');
+    if (paperSpace) this.pair(67, 1);
+    this.pair(8, layer);
+  }
+
+  private writeEntity(entity: DxfEntity, owner: string, paperSpace: boolean): void {
+    switch (entity.type) {
+      case 'line':
+        this.entityHeader('LINE', entity.layer, owner, paperSpace);
+        this.pair(100, 'AcDbLine');
+        this.point(10, entity.start);
+        this.point(11, entity.end);
+        break;
+
+      case 'polyline':
+        this.entityHeader('LWPOLYLINE', entity.layer, owner, paperSpace);
+        this.pair(100, 'AcDbPolyline');
+        this.pair(90, entity.points.length);
+        this.pair(70, entity.closed ? 1 : 0);
+        this.pair(43, 0);
+        for (const p of entity.points) {
+          this.pair(10, p.x);
+          this.pair(20, p.y);
+        }
+        break;
+
+      case 'circle':
+        this.entityHeader('CIRCLE', entity.layer, owner, paperSpace);
+        this.pair(100, 'AcDbCircle');
+        this.point(10, entity.center);
+        this.pair(40, entity.radius);
+        break;
+
+      case 'arc':
+        this.entityHeader('ARC', entity.layer, owner, paperSpace);
+        this.pair(100, 'AcDbCircle');
+        this.point(10, entity.center);
+        this.pair(40, entity.radius);
+        this.pair(100, 'AcDbArc');
+        this.pair(50, entity.startAngle);
+        this.pair(51, entity.endAngle);
+        break;
+
+      case 'text': {
+        const centered = entity.align !== 'left';
+        this.entityHeader('TEXT', entity.layer, owner, paperSpace);
+        this.pair(100, 'AcDbText');
+        this.point(10, entity.position);
+        this.pair(40, entity.height);
+        this.pair(1, encodeText(entity.text));
+        if (entity.rotation) this.pair(50, entity.rotation);
+        this.pair(7, 'Standard');
+        if (centered) {
+          this.pair(72, 1);
+          this.point(11, entity.position);
+        }
+        this.pair(100, 'AcDbText');
+        if (centered) this.pair(73, 2);
+        break;
+      }
+
+      case 'alignedDimension': {
+        const block = this.dimensionBlocks.get(entity);
+        if (!block) break;
+        const geometry = getDimensionGeometry(entity);
+
+        this.entityHeader('DIMENSION', entity.layer, owner, paperSpace);
+        this.pair(100, 'AcDbDimension');
+        this.pair(2, block.name);
+        this.point(10, geometry.lineEnd);
+        this.point(11, geometry.textPosition);
+        this.pair(70, 1 | 32); // Aligned, block referenced by this dimension only
+        this.pair(1, entity.text ? encodeText(entity.text) : '');
+        this.pair(3, 'Standard');
+        this.pair(100, 'AcDbAlignedDimension');
+        this.point(13, entity.start);
+        this.point(14, entity.end);
+        break;
+      }
+    }
+  }
+
+  private writeObjects(
+    rootDictHandle: string,
+    groupDictHandle: string,
+    layoutDictHandle: string,
+    modelBlock: BlockDefinition,
+    paperBlocks: BlockDefinition[],
+    layouts: DxfLayout[]
+  ): void {
+    this.pair(0, 'DICTIONARY');
+    this.pair(5, rootDictHandle);
+    this.pair(330, '0');
+    this.pair(100, 'AcDbDictionary');
+    this.pair(281, 1);
+    this.pair(3, 'ACAD_GROUP');
+    this.pair(350, groupDictHandle);
+    this.pair(3, 'ACAD_LAYOUT');
+    this.pair(350, layoutDictHandle);
+
+    this.pair(0, 'DICTIONARY');
+    this.pair(5, groupDictHandle);
+    this.pair(330, rootDictHandle);
+    this.pair(100, 'AcDbDictionary');
+    this.pair(281, 1);
+
+    this.pair(0, 'DICTIONARY');
+    this.pair(5, layoutDictHandle);
+    this.pair(330, rootDictHandle);
+    this.pair(100, 'AcDbDictionary');
+    this.pair(281, 1);
+    this.pair(3, 'Model');
+    this.pair(350, modelBlock.layoutHandle);
+    layouts.forEach((layout, index) => {
+      this.pair(3, layout.name);
+      this.pair(350, paperBlocks[index]!.layoutHandle);
+    });
+
+    this.writeLayout('Model', 0, modelBlock, layoutDictHandle, []);
+    layouts.forEach((layout, index) => {
+      this.writeLayout(layout.name, index + 1, paperBlocks[index]!, layoutDictHandle, layout.entities);
+    });
+  }
+
+  private writeLayout(
+    name: string,
+    tabOrder: number,
+    block: BlockDefinition,
+    layoutDictHandle: string,
+    entities: DxfEntity[]
+  ): void {
+    const isModel = !block.paperSpace;
+    const extents = calculateExtents(entities);
+
+    this.pair(0, 'LAYOUT');
+    this.pair(5, block.layoutHandle);
+    this.pair(102, '{ACAD_REACTORS');
+    this.pair(330, layoutDictHandle);
+    this.pair(102, '}');
+    this.pair(330, layoutDictHandle);
+
+    // Plot settings: 1:1, paper units in mm
+    this.pair(100, 'AcDbPlotSettings');
+    this.pair(1, '');
+    this.pair(2, 'none_device');
+    this.pair(4, '');
+    this.pair(6, '');
+    for (const code of [40, 41, 42, 43, 44, 45, 46, 47, 48, 49, 140, 141]) this.pair(code, 0);
+    this.pair(142, 1);
+    this.pair(143, 1);
+    this.pair(70, isModel ? 1712 : 688);
+    this.pair(72, 1);
+    this.pair(73, 0);
+    this.pair(74, 5);
+    this.pair(7, '');
+    this.pair(75, 16);
+    this.pair(147, 1);
+    this.pair(76, 0);
+    this.pair(77, 2);
+    this.pair(78, 300);
+    this.pair(148, 0);
+    this.pair(149, 0);
+
+    this.pair(100, 'AcDbLayout');
+    this.pair(1, name);
+    this.pair(70, 1);
+    this.pair(71, tabOrder);
+    this.pair(10, extents.min.x);
+    this.pair(20, extents.min.y);
+    this.pair(11, extents.max.x);
+    this.pair(21, extents.max.y);
+    this.point(12, { x: 0, y: 0 });
+    this.point(14, extents.min);
+    this.point(15, extents.max);
+    this.pair(146, 0);
+    this.point(13, { x: 0, y: 0 });
+    this.point(16, { x: 1, y: 0 });
+    this.point(17, { x: 0, y: 1 });
+    this.pair(76, 0);
+    this.pair(330, block.recordHandle);
+  }
+}
+
+/**
+ * Dimension line, extension lines and text position of an aligned dimension
+ */
+function getDimensionGeometry(dimension: Extract<DxfEntity, { type: 'alignedDimension' }>) {
+  const { start, end, offset } = dimension;
+  const dx = end.x - start.x;
+  const dy = end.y - start.y;
+  const length = Math.sqrt(dx * dx + dy * dy) || 1;
+  const dir = { x: dx / length, y: dy / length };
+  const normal = { x: -dir.y, y: dir.x };
+  // Side of the dimension line relative to the measured points
+  const side = offset < 0 ? -1 : 1;
+
+  const shift = (p: Point2D, distance: number) => ({ x: p.x + normal.x * distance, y: p.y + normal.y * distance });
+  const lineStart = shift(start, offset);
+  const lineEnd = shift(end, offset);
+  const middle = { x: (lineStart.x + lineEnd.x) / 2, y: (lineStart.y + lineEnd.y) / 2 };
+
+  return {
+    dir,
+    lineStart,
+    lineEnd,
+    extensionStart: [shift(start, side * DIM_EXT_OFFSET), shift(lineStart, side * DIM_EXT_EXTENSION)] as const,
+    extensionEnd: [shift(end, side * DIM_EXT_OFFSET), shift(lineEnd, side * DIM_EXT_EXTENSION)] as const,
+    textPosition: shift(middle, side * (DIM_TEXT_GAP + DIM_TEXT_HEIGHT / 2)),
+    textRotation: normalizeTextRotation((Math.atan2(dy, dx) * 180) / Math.PI),
+    length: Math.sqrt(dx * dx + dy * dy),
+  };
+}
+
+/**
+ * Graphical representation of a dimension (content of its anonymous block)
+ */
+function expandDimension(dimension: Extract<DxfEntity, { type: 'alignedDimension' }>): DxfEntity[] {
+  const geometry = getDimensionGeometry(dimension);
+  const { layer } = dimension;
+
+  // Architectural tick: 45° stroke through the dimension line end
+  const tickAngle = Math.atan2(geometry.dir.y, geometry.dir.x) + Math.PI / 4;
+  const tick = (p: Point2D): DxfEntity => ({
+    type: 'line',
+    layer,
+    start: { x: p.x - (Math.cos(tickAngle) * DIM_TICK_SIZE) / 2, y: p.y - (Math.sin(tickAngle) * DIM_TICK_SIZE) / 2 },
+    end: { x: p.x + (Math.cos(tickAngle) * DIM_TICK_SIZE) / 2, y: p.y + (Math.sin(tickAngle) * DIM_TICK_SIZE) / 2 },
+  });
+
+  return [
+    { type: 'line', layer, start: geometry.lineStart, end: geometry.lineEnd },
+    { type: 'line', layer, start: geometry.extensionStart[0], end: geometry.extensionStart[1] },
+    { type: 'line', layer, start: geometry.extensionEnd[0], end: geometry.extensionEnd[1] },
+    tick(geometry.lineStart),
+    tick(geometry.lineEnd),
+    {
+      type: 'text',
+      layer,
+      position: geometry.textPosition,
+      height: DIM_TEXT_HEIGHT,
+      text: dimension.text ?? geometry.length.toFixed(2),
+      rotation: geometry.textRotation,
+    },
+  ];
+}
+
+/**
+ * Bounding box of all entity points (unit square if empty)
+ */
+function calculateExtents(entities: DxfEntity[]): { min: Point2D; max: Point2D } {
+  const points: Point2D[] = [];
+  for (const entity of entities) {
+    switch (entity.type) {
+      case 'line':
+      case 'alignedDimension':
+        points.push(entity.start, entity.end);
+        break;
+      case 'polyline':
+        points.push(...entity.points);
+        break;
+      case 'circle':
+      case 'arc':
+        points.push(
+          { x: entity.center.x - entity.radius, y: entity.center.y - entity.radius },
+          { x: entity.center.x + entity.radius, y: entity.center.y + entity.radius }
+        );
+        break;
+      case 'text':
+        points.push(entity.position);
+        break;
+    }
+  }
+
+  if (points.length === 0) return { min: { x: 0, y: 0 }, max: { x: 1, y: 1 } };
+
+  const min = { x: Infinity, y: Infinity };
+  const max = { x: -Infinity, y: -Infinity };
+  for (const p of points) {
+    min.x = Math.min(min.x, p.x);
+    min.y = Math.min(min.y, p.y);
+    max.x = Math.max(max.x, p.x);
+    max.y = Math.max(max.y, p.y);
+  }
+  return { min, max };
+}
@@ -0,0 +1,451 @@
+/**
+ * DXF-Export des 2D-Grundrisses
+ *
+ * Überträgt die Canvas2D-Darstellung (Wände mit Gehrungen, Türen mit
+ * Schwenkbogen, Fenster, Räume mit Flächentext, Theken, Treppen, Möbel und
+ * Bemassungen) in eine DXF-Datei mit einem Layer pro Elementtyp.
+ */
+
+import type { BimElement, StoreyInfo } from '@/types/bim';
+import type { Point2D, Quaternion } from '@/types/geometry';
+import type { DimensionSettings } from '@/types/dimensions';
+import { DEFAULT_DIMENSION_SETTINGS } from '@/types/dimensions';
+import { GASTRO_SPACE_LABELS } from '@/types/bim';
+import { calculateWallCornerVertices, getEdgeOffsets } from '@/lib/geometry/wallCorners';
+import { generateAllDimensions, calculatePolygonCentroid } from '@/lib/geometry/dimensions';
+import { offsetPath, createCounterPolygon } from '@/lib/geometry/pathOffset';
+import { downloadBlob } from '@/lib/utils/download';
+import { DxfDocument, type DxfEntity } from './dxfWriter';
+
+/**
+ * Which storeys are exported
+ * - active: the active storey in model space
+ * - all: every storey as its own paper space layout
+ */
+export type DxfExportScope = 'active' | 'all';
+
+export interface FloorPlanDxfOptions {
+  scope: DxfExportScope;
+  /** Storey exported with scope 'active' */
+  activeStoreyId: string | null;
+  /** Include wall length dimensions (default: true) */
+  includeDimensions?: boolean;
+  dimensionSettings?: DimensionSettings;
+}
+
+/**
+ * Layers per element type (AIA naming, AutoCAD color index)
+ */
+export const DXF_LAYERS = {
+  walls: { name: 'A-WALL', color: 7 },
+  doors: { name: 'A-DOOR', color: 3 },
+  windows: { name: 'A-GLAZ', color: 4 },
+  columns: { name: 'A-COLS', color: 7 },
+  spaces: { name: 'A-AREA', color: 5 },
+  spaceLabels: { name: 'A-AREA-IDEN', color: 5 },
+  counters: { name: 'A-EQPM', color: 30 },
+  stairs: { name: 'A-FLOR-STRS', color: 2 },
+  furniture: { name: 'A-FURN', color: 6 },
+  dimensions: { name: 'A-ANNO-DIMS', color: 1 },
+} as const;
+
+const SPACE_NAME_HEIGHT = 0.25;
+const SPACE_TEXT_HEIGHT = 0.18;
+
+/**
+ * Rotation around Z from a placement quaternion (radians)
+ */
+function getZRotation(rotation: Quaternion): number {
+  return Math.atan2(
+    2 * (rotation.w * rotation.z + rotation.x * rotation.y),
+    1 - 2 * (rotation.y * rotation.y + rotation.z * rotation.z)
+  );
+}
+
+/**
+ * Rectangle around a center point, rotated by angle (radians)
+ */
+function rotatedRectangle(center: Point2D, width: number, depth: number, angle: number): Point2D[] {
+  const cos = Math.cos(angle);
+  const sin = Math.sin(angle);
+  return [
+    [-width / 2, -depth / 2],
+    [width / 2, -depth / 2],
+    [width / 2, depth / 2],
+    [-width / 2, depth / 2],
+  ].map(([lx, ly]) => ({
+    x: center.x + lx! * cos - ly! * sin,
+    y: center.y + lx! * sin + ly! * cos,
+  }));
+}
+
+/**
+ * Wall outline with mitered corners (same as Canvas2D)
+ */
+function wallEntities(wall: BimElement, allWalls: BimElement[]): DxfEntity[] {
+  const corners = calculateWallCornerVertices(wall, allWalls);
+  if (!corners) return [];
+
+  return [
+    {
+      type: 'polyline',
+      layer: DXF_LAYERS.walls.name,
+      points: [corners.startLeft, corners.endLeft, corners.endRight, corners.startRight],
+      closed: true,
+    },
+  ];
+}
+
+/**
+ * Position of an opening (door / window) in its host wall
+ */
+function getOpeningFrame(hostWall: BimElement, positionOnWall: number, width: number) {
+  if (!hostWall.wallData) return null;
+
+  const { startPoint, endPoint, thickness, alignmentSide } = hostWall.wallData;
+  const dx = endPoint.x - startPoint.x;
+  const dy = endPoint.y - startPoint.y;
+  const length = Math.sqrt(dx * dx + dy * dy);
+  if (length === 0) return null;
+
+  const dir = { x: dx / length, y: dy / length };
+  const normal = { x: -dir.y, y: dir.x };
+  const offsets = getEdgeOffsets(alignmentSide || 'center', thickness);
+  const center = { x: startPoint.x + dx * positionOnWall, y: startPoint.y + dy * positionOnWall };
+
+  const along = (p: Point2D, distance: number) => ({ x: p.x + dir.x * distance, y: p.y + dir.y * distance });
+  const across = (p: Point2D, distance: number) => ({ x: p.x + normal.x * distance, y: p.y + normal.y * distance });
+
+  const start = along(center, -width / 2);
+  const end = along(center, width / 2);
+
+  return {
+    start,
+    end,
+    angle: Math.atan2(dy, dx),
+    offsets,
+    across,
+    // Jamb lines through the full wall thickness
+    jambs: [start, end].map((p) => ({ start: across(p, offsets.left), end: across(p, offsets.right) })),
+  };
+}
+
+/**
+ * Door symbol: jambs, leaf in open position and swing arc (see DoorSwingArc)
+ */
+function doorEntities(door: BimElement, walls: Map<string, BimElement>): DxfEntity[] {
+  if (!door.doorData) return [];
+  const { width, doorType, swingDirection, swingSide, hostWallId } = door.doorData;
+  const hostWall = walls.get(hostWallId);
+  const frame = hostWall && getOpeningFrame(hostWall, door.doorData.positionOnWall, width);
+  if (!frame) return [];
+
+  const layer = DXF_LAYERS.doors.name;
+  const entities: DxfEntity[] = frame.jambs.map((jamb) => ({ type: 'line', layer, ...jamb }));
+
+  const wallAngle = (frame.angle * 180) / Math.PI;
+  // Inward swings to the left of the wall direction, outward to the right
+  const openAngle = swingSide === 'outward' ? wallAngle - 90 : wallAngle + 90;
+
+  const addLeaf = (hinge: Point2D, closedAngle: number, radius: number) => {
+    const openRad = (openAngle * Math.PI) / 180;
+    entities.push({
+      type: 'line',
+      layer,
+      start: hinge,
+      end: { x: hinge.x + Math.cos(openRad) * radius, y: hinge.y + Math.sin(openRad) * radius },
+    });
+
+    let sweep = openAngle - closedAngle;
+    while (sweep > 180) sweep -= 360;
+    while (sweep < -180) sweep += 360;
+    entities.push({
+      type: 'arc',
+      layer,
+      center: hinge,
+      radius,
+      startAngle: sweep >= 0 ? closedAngle : openAngle,
+      endAngle: sweep >= 0 ? openAngle : closedAngle,
+    });
+  };
+
+  if (doorType === 'sliding') {
+    // Sliding leaf runs along the wall face on the swing side
+    const face = openAngle > wallAngle ? frame.offsets.left : frame.offsets.right;
+    entities.push({
+      type: 'line',
+      layer,
+      start: frame.across(frame.start, face),
+      end: frame.across(frame.end, face),
+    });
+  } else if (doorType === 'double') {
+    addLeaf(frame.start, wallAngle, width / 2);
+    addLeaf(frame.end, wallAngle + 180, width / 2);
+  } else if (swingDirection === 'right') {
+    addLeaf(frame.start, wallAngle, width);
+  } else {
+    addLeaf(frame.end, wallAngle + 180, width);
+  }
+
+  return entities;
+}
+
+/**
+ * Window symbol: jambs and two glass lines around the wall center
+ */
+function windowEntities(windowElement: BimElement, walls: Map<string, BimElement>): DxfEntity[] {
+  if (!windowElement.windowData) return [];
+  const { width, hostWallId, positionOnWall } = windowElement.windowData;
+  const hostWall = walls.get(hostWallId);
+  const frame = hostWall && getOpeningFrame(hostWall, positionOnWall, width);
+  if (!frame) return [];
+
+  const layer = DXF_LAYERS.windows.name;
+  const wallCenter = (frame.offsets.left + frame.offsets.right) / 2;
+  const glassOffset = (frame.offsets.left - frame.offsets.right) * 0.1;
+
+  return [
+    ...frame.jambs.map((jamb): DxfEntity => ({ type: 'line', layer, ...jamb })),
+    ...[wallCenter - glassOffset, wallCenter + glassOffset].map(
+      (offset): DxfEntity => ({
+        type: 'line',
+        layer,
+        start: frame.across(frame.start, offset),
+        end: frame.across(frame.end, offset),
+      })
+    ),
+  ];
+}
+
+function columnEntities(column: BimElement): DxfEntity[] {
+  if (!column.columnData) return [];
+  const { width, depth, profileType } = column.columnData;
+  const { position, rotation } = column.placement;
+  const layer = DXF_LAYERS.columns.name;
+
+  if (profileType === 'circular') {
+    return [{ type: 'circle', layer, center: position, radius: width / 2 }];
+  }
+  return [
+    { type: 'polyline', layer, points: rotatedRectangle(position, width, depth, getZRotation(rotation)), closed: true },
+  ];
+}
+
+/**
+ * Space polygon with name, category and area stamp
+ */
+function spaceEntities(space: BimElement): DxfEntity[] {
+  if (!space.spaceData || space.spaceData.boundaryPolygon.length < 3) return [];
+  const { boundaryPolygon, area, gastroCategory } = space.spaceData;
+  const centroid = calculatePolygonCentroid(boundaryPolygon);
+  const layer = DXF_LAYERS.spaceLabels.name;
+
+  const lines: { text: string; height: number }[] = [{ text: space.name, height: SPACE_NAME_HEIGHT }];
+  if (gastroCategory && gastroCategory !== 'SONSTIGES') {
+    lines.push({ text: GASTRO_SPACE_LABELS[gastroCategory], height: SPACE_TEXT_HEIGHT });
+  }
+  lines.push({ text: `${area.toFixed(1)} m²`, height: SPACE_TEXT_HEIGHT });
+
+  // Stack the lines vertically around the centroid
+  const totalHeight = lines.reduce((sum, line) => sum + line.height * 1.5, 0);
+  let y = centroid.y + totalHeight / 2;
+
+  return [
+    { type: 'polyline', layer: DXF_LAYERS.spaces.name, points: boundaryPolygon, closed: true },
+    ...lines.map((line): DxfEntity => {
+      y -= line.height * 1.5;
+      return { type: 'text', layer, position: { x: centroid.x, y: y + line.height * 0.75 }, ...line };
+    }),
+  ];
+}
+
+/**
+ * Counter body and emphasized front line (customer side)
+ */
+function counterEntities(counter: BimElement): DxfEntity[] {
+  if (!counter.counterData || counter.counterData.path.length < 2) return [];
+  const { path, depth } = counter.counterData;
+  const polygon = createCounterPolygon(path, offsetPath(path, depth));
+  const layer = DXF_LAYERS.counters.name;
+
+  return [
+    { type: 'polyline', layer, points: polygon, closed: true },
+    { type: 'polyline', layer, points: path, closed: false },
+  ];
+}
+
+/**
+ * Stair outline, step lines and walking direction arrow
+ */
+function stairEntities(stair: BimElement): DxfEntity[] {
+  if (!stair.stairData) return [];
+  const { width, steps, rotation } = stair.stairData;
+  const { position } = stair.placement;
+  const { runLength, count, treadDepth } = steps;
+  const halfWidth = width / 2;
+  const layer = DXF_LAYERS.stairs.name;
+
+  const cos = Math.cos(rotation);
+  const sin = Math.sin(rotation);
+  const localToWorld = (lx: number, ly: number): Point2D => ({
+    x: position.x + lx * cos - ly * sin,
+    y: position.y + lx * sin + ly * cos,
+  });
+
+  const entities: DxfEntity[] = [
+    {
+      type: 'polyline',
+      layer,
+      points: [
+        localToWorld(0, -halfWidth),
+        localToWorld(runLength, -halfWidth),
+        localToWorld(runLength, halfWidth),
+        localToWorld(0, halfWidth),
+      ],
+      closed: true,
+    },
+  ];
+
+  for (let i = 1; i < count; i++) {
+    entities.push({
+      type: 'line',
+      layer,
+      start: localToWorld(i * treadDepth, -halfWidth),
+      end: localToWorld(i * treadDepth, halfWidth),
+    });
+  }
+
+  const arrowTipX = runLength * 0.7;
+  entities.push(
+    { type: 'line', layer, start: localToWorld(runLength * 0.3, 0), end: localToWorld(arrowTipX, 0) },
+    {
+      type: 'polyline',
+      layer,
+      points: [
+        localToWorld(arrowTipX - width * 0.15, -width * 0.12),
+        localToWorld(arrowTipX, 0),
+        localToWorld(arrowTipX - width * 0.15, width * 0.12),
+      ],
+      closed: false,
+    }
+  );
+
+  return entities;
+}
+
+function furnitureEntities(furniture: BimElement): DxfEntity[] {
+  if (!furniture.furnitureData) return [];
+  const { width, depth } = furniture.furnitureData;
+  const { position, rotation } = furniture.placement;
+
+  return [
+    {
+      type: 'polyline',
+      layer: DXF_LAYERS.furniture.name,
+      points: rotatedRectangle(position, width, depth, getZRotation(rotation)),
+      closed: true,
+    },
+  ];
+}
+
+/**
+ * All plan entities of one storey
+ */
+export function createStoreyDxfEntities(
+  elements: BimElement[],
+  options: Pick<FloorPlanDxfOptions, 'includeDimensions' | 'dimensionSettings'> = {}
+): DxfEntity[] {
+  const walls = elements.filter((e) => e.type === 'wall');
+  const wallsById = new Map(walls.map((wall) => [wall.id, wall]));
+  const entities: DxfEntity[] = [];
+
+  for (const element of elements) {
+    switch (element.type) {
+      case 'wall':
+        entities.push(...wallEntities(element, walls));
+        break;
+      case 'door':
+        entities.push(...doorEntities(element, wallsById));
+        break;
+      case 'window':
+        entities.push(...windowEntities(element, wallsById));
+        break;
+      case 'column':
+        entities.push(...columnEntities(element));
+        break;
+      case 'space':
+        entities.push(...spaceEntities(element));
+        break;
+      case 'counter':
+        entities.push(...counterEntities(element));
+        break;
+      case 'stair':
+        entities.push(...stairEntities(element));
+        break;
+      case 'furniture':
+        entities.push(...furnitureEntities(element));
+        break;
+    }
+  }
+
+  if (options.includeDimensions ?? true) {
+    const settings = options.dimensionSettings ?? DEFAULT_DIMENSION_SETTINGS;
+    for (const dimension of generateAllDimensions(walls, settings)) {
+      if (!dimension.measureLine) continue;
+      entities.push({
+        type: 'alignedDimension',
+        layer: DXF_LAYERS.dimensions.name,
+        start: dimension.measureLine.start,
+        end: dimension.measureLine.end,
+        offset: dimension.position2D.offset,
+        text: dimension.displayText,
+      });
+    }
+  }
+
+  return entities;
+}
+
+/**
+ * Create the DXF file content for the floor plan
+ */
+export function createFloorPlanDxf(
+  storeys: StoreyInfo[],
+  elements: BimElement[],
+  options: FloorPlanDxfOptions
+): string {
+  const dxf = new DxfDocument();
+  for (const layer of Object.values(DXF_LAYERS)) {
+    dxf.addLayer(layer.name, layer.color);
+  }
+
+  if (options.scope === 'all') {
+    const sortedStoreys = [...storeys].sort((a, b) => a.elevation - b.elevation);
+    for (const storey of sortedStoreys) {
+      const storeyElements = elements.filter((e) => e.parentId === storey.id);
+      dxf.addLayout(storey.name).push(...createStoreyDxfEntities(storeyElements, options));
+    }
+  } else {
+    const storeyElements = elements.filter((e) => e.parentId === options.activeStoreyId);
+    dxf.modelSpace.push(...createStoreyDxfEntities(storeyElements, options));
+  }
+
+  return dxf.toString();
+}
+
+/**
+ * Export the floor plan and trigger the download
+ */
+export function downloadFloorPlanDxf(
+  projectName: string,
+  storeys: StoreyInfo[],
+  elements: BimElement[],
+  options: FloorPlanDxfOptions
+): void {
+  const content = createFloorPlanDxf(storeys, elements, options);
+
+  const storeyName = storeys.find((s) => s.id === options.activeStoreyId)?.name;
+  const suffix = options.scope === 'active' && storeyName ? `_${storeyName}` : '';
+
+  downloadBlob(content, 'application/dxf', `${projectName}${suffix}.dxf`);
+}
@@ -0,0 +1,20 @@
+export { DxfDocument, sanitizeDxfName } from './dxfWriter';
+export type { DxfEntity, DxfLayer, DxfLayout } from './dxfWriter';
+export {
+  DXF_LAYERS,
+  createStoreyDxfEntities,
+  createFloorPlanDxf,
+  downloadFloorPlanDxf,
+} from './floorPlanDxf';
+export type { DxfExportScope, FloorPlanDxfOptions } from './floorPlanDxf';
+export { parseDxf, DxfParseError } from './dxfParser';
+export {
+  getDxfBounds,
+  guessDxfUnit,
+  createDxfUnderlay,
+  getDxfSegments,
+  getDxfSnapGeometry,
+} from './dxfUnderlay';
+export type { DxfUnderlayOptions, DxfSnapGeometry, DxfBounds } from './dxfUnderlay';
+export { traceWallsFromSegments } from './traceWalls';
+export type { TraceWallsOptions, TracedWall } from './traceWalls';
@@ -0,0 +1,120 @@
+/**
+ * Wände aus Unterlagen-Linien ableiten
+ *
+ * Parallele Linienpaare im Abstand einer Wandstärke werden zu einer Wand
+ * auf der Mittellinie zusammengefasst. Einzelne Linien werden zu Wänden
+ * mit Standardstärke.
+ */
+
+import type { LineSegment, Point2D } from '@/types/geometry';
+
+export interface TraceWallsOptions {
+  /** Thickness for lines without a parallel partner (meters) */
+  defaultThickness: number;
+  /** Smallest distance between two lines that counts as a wall (meters) */
+  minThickness?: number;
+  /** Largest distance between two lines that counts as a wall (meters) */
+  maxThickness?: number;
+}
+
+export interface TracedWall {
+  startPoint: Point2D;
+  endPoint: Point2D;
+  thickness: number;
+}
+
+/** Max angle between two lines that are treated as parallel (radians) */
+const PARALLEL_TOLERANCE = (2 * Math.PI) / 180;
+
+/** Minimum overlap of a pair relative to the shorter line */
+const MIN_OVERLAP = 0.5;
+
+/** Segments shorter than this are ignored (meters) */
+const MIN_LENGTH = 0.01;
+
+interface Candidate {
+  start: Point2D;
+  end: Point2D;
+  length: number;
+  /** Unit direction */
+  dir: Point2D;
+}
+
+function toCandidate(segment: LineSegment): Candidate | null {
+  const dx = segment.end.x - segment.start.x;
+  const dy = segment.end.y - segment.start.y;
+  const length = Math.sqrt(dx * dx + dy * dy);
+  if (length < MIN_LENGTH) return null;
+  return { start: segment.start, end: segment.end, length, dir: { x: dx / length, y: dy / length } };
+}
+
+/**
+ * Centerline wall for two parallel lines, or null if they do not form a wall
+ */
+function pairWall(a: Candidate, b: Candidate, minThickness: number, maxThickness: number): TracedWall | null {
+  const cross = a.dir.x * b.dir.y - a.dir.y * b.dir.x;
+  if (Math.abs(cross) > Math.sin(PARALLEL_TOLERANCE)) return null;
+
+  // Distance of b's midpoint from the infinite line through a
+  const mid = { x: (b.start.x + b.end.x) / 2, y: (b.start.y + b.end.y) / 2 };
+  const offset = (mid.x - a.start.x) * -a.dir.y + (mid.y - a.start.y) * a.dir.x;
+  const thickness = Math.abs(offset);
+  if (thickness < minThickness || thickness > maxThickness) return null;
+
+  // Overlap along a's direction
+  const project = (p: Point2D) => (p.x - a.start.x) * a.dir.x + (p.y - a.start.y) * a.dir.y;
+  const bStart = project(b.start);
+  const bEnd = project(b.end);
+  const from = Math.max(0, Math.min(bStart, bEnd));
+  const to = Math.min(a.length, Math.max(bStart, bEnd));
+  if (to - from < MIN_OVERLAP * Math.min(a.length, b.length)) return null;
+
+  // Centerline: halfway between the lines
+  const normal = { x: (-a.dir.y * offset) / 2, y: (a.dir.x * offset) / 2 };
+  const at = (t: number): Point2D => ({
+    x: a.start.x + a.dir.x * t + normal.x,
+    y: a.start.y + a.dir.y * t + normal.y,
+  });
+
+  return { startPoint: at(from), endPoint: at(to), thickness };
+}
+
+/**
+ * Derive walls from line segments
+ */
+export function traceWallsFromSegments(segments: LineSegment[], options: TraceWallsOptions): TracedWall[] {
+  const minThickness = options.minThickness ?? 0.05;
+  const maxThickness = options.maxThickness ?? 0.6;
+
+  const candidates = segments.map(toCandidate).filter((c): c is Candidate => c !== null);
+  // Longer lines first so that they pick their partner before short pieces do
+  candidates.sort((a, b) => b.length - a.length);
+
+  const used = new Set<number>();
+  const walls: TracedWall[] = [];
+
+  for (let i = 0; i < candidates.length; i++) {
+    if (used.has(i)) continue;
+    const a = candidates[i]!;
+
+    // Closest parallel partner wins
+    let best: { index: number; wall: TracedWall } | null = null;
+    for (let j = i + 1; j < candidates.length; j++) {
+      if (used.has(j)) continue;
+      const wall = pairWall(a, candidates[j]!, minThickness, maxThickness);
+      if (wall && (!best || wall.thickness < best.wall.thickness)) {
+        best = { index: j, wall };
+      }
+    }
+
+    used.add(i);
+    if (best) {
+      used.add(best.index);
+      walls.push(best.wall);
+    } else {
+      walls.push({ startPoint: { ...a.start }, endPoint: { ...a.end }, thickness: options.defaultThickness });
+    }
+  }
+
+  return walls;
+}
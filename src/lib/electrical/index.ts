@@ -0,0 +1,32 @@
+/**
+ * Electrical (PRO module)
+ *
+ * Connected and demand load per space, storey and circuit, fuse check and
+ * annual energy estimate.
+ */
+
+export {
+  calculateLoadBudget,
+  createElectricalCircuit,
+  getApplianceData,
+  getCircuitCurrent,
+  getSimultaneityFactor,
+  getOperatingHours,
+  createApplianceLoadPset,
+  createCircuitPset,
+  ELECTRICAL_LOAD_PSET,
+  CIRCUIT_PSET,
+  PHASE_VOLTAGE,
+  LINE_VOLTAGE,
+  FUSE_RATINGS,
+  DEFAULT_FUSE_RATING,
+  DEFAULT_ELECTRICAL_SETTINGS,
+  DEFAULT_SIMULTANEITY_FACTORS,
+  type CircuitPhases,
+  type ElectricalCircuit,
+  type ElectricalSettings,
+  type ApplianceLoad,
+  type LoadSummary,
+  type CircuitLoad,
+  type LoadBudget,
+} from './loadBudget';
@@ -0,0 +1,115 @@
+import { describe, expect, it } from 'vitest';
+import type { BimElement, StoreyInfo } from '@/types/bim';
+import { createFurniture } from '@/bim/elements/Furniture';
+import { createSpaceFromPolygon } from '@/bim/elements/Space';
+import {
+  DEFAULT_ELECTRICAL_SETTINGS,
+  calculateLoadBudget,
+  createElectricalCircuit,
+  getCircuitCurrent,
+  type ElectricalCircuit,
+} from './loadBudget';
+
+const storey: StoreyInfo = { id: 'eg', name: 'EG', buildingId: 'b', elevation: 0, height: 3 };
+
+/** 10 × 10 m kitchen at the origin */
+const kitchen = createSpaceFromPolygon({
+  name: 'Küche',
+  boundaryPolygon: [
+    { x: 0, y: 0 },
+    { x: 10, y: 0 },
+    { x: 10, y: 10 },
+    { x: 0, y: 10 },
+  ],
+  storeyId: storey.id,
+  gastroCategory: 'KUECHE',
+});
+
+function createAppliance(id: string, load: number | null, type: string | null, x = 5): BimElement {
+  const element = createFurniture({
+    name: id,
+    category: 'equipment',
+    modelUrl: '',
+    modelFormat: 'glb',
+    originalFileName: '',
+    position: { x, y: 5, z: 0 },
+    storeyId: storey.id,
+  });
+  return {
+    ...element,
+    id,
+    properties: [
+      { name: 'Pset_TechnischeDaten', properties: { Stromverbrauch: load } },
+      { name: 'Pset_Grunddaten', properties: { IfcElectricApplianceType: type } },
+    ],
+  };
+}
+
+const elements = [
+  kitchen,
+  createAppliance('espresso', 3000, 'USERDEFINED'),
+  createAppliance('fridge', 200, 'REFRIGERATOR'),
+  // outside the kitchen, unknown type
+  createAppliance('heater', 1000, null, 20),
+  // no load: not part of the budget
+  createAppliance('table', null, null),
+];
+
+function createCircuit(
+  applianceIds: string[],
+  overrides: Partial<ElectricalCircuit> = {}
+): ElectricalCircuit {
+  return { ...createElectricalCircuit('Küche'), applianceIds, ...overrides };
+}
+
+describe('calculateLoadBudget', () => {
+  it('applies simultaneity factors and operating hours per appliance', () => {
+    const budget = calculateLoadBudget(elements, [storey], [], DEFAULT_ELECTRICAL_SETTINGS);
+
+    expect(budget.appliances).toMatchObject([
+      // 2.1 kW × 10 h × 6 d × 52 weeks
+      { elementId: 'espresso', demandLoad: 2100, continuous: false, annualEnergy: 6552 },
+      // 0.1 kW around the clock
+      { elementId: 'fridge', demandLoad: 100, continuous: true, annualEnergy: 876 },
+      { elementId: 'heater', applianceType: 'NOTDEFINED', simultaneityFactor: 1, demandLoad: 1000 },
+    ]);
+  });
+
+  it('sums the load per space, storey and project', () => {
+    const budget = calculateLoadBudget(elements, [storey], [], DEFAULT_ELECTRICAL_SETTINGS);
+
+    expect(budget.bySpace.get(kitchen.id)).toMatchObject({
+      applianceCount: 2,
+      connectedLoad: 3200,
+      demandLoad: 2200,
+    });
+    expect(budget.byStorey.get(storey.id)).toMatchObject({
+      applianceCount: 3,
+      connectedLoad: 4200,
+    });
+    expect(budget.total.annualCost).toBeCloseTo(budget.total.annualEnergy * 0.27, 6);
+    expect(budget.unassigned.applianceCount).toBe(3);
+  });
+
+  it('flags circuits whose current exceeds the fuse rating', () => {
+    const settings = { ...DEFAULT_ELECTRICAL_SETTINGS, simultaneityOverrides: { USERDEFINED: 1 } };
+    const circuits = [
+      createCircuit(['espresso'], { fuseRating: 10 }),
+      createCircuit(['fridge', 'heater'], { fuseRating: 10 }),
+    ];
+
+    const budget = calculateLoadBudget(elements, [storey], circuits, settings);
+
+    // 3000 W / 230 V = 13 A
+    expect(budget.circuits.map((c) => c.overloaded)).toEqual([true, false]);
+    expect(budget.circuits[0]!.current).toBeCloseTo(3000 / 230, 6);
+    expect(budget.unassigned.applianceCount).toBe(0);
+  });
+});
+
+describe('getCircuitCurrent', () => {
+  it('divides three-phase loads by √3 × 400 V', () => {
+    expect(getCircuitCurrent(2300, 1)).toBeCloseTo(10, 6);
+    expect(getCircuitCurrent(6928.2, 3)).toBeCloseTo(10, 3);
+  });
+});
@@ -0,0 +1,347 @@
+/**
+ * Electrical Load Budget (Leistungsbilanz)
+ *
+ * Sums the connected load (Pset_TechnischeDaten.Stromverbrauch) of the
+ * appliances per space, storey and circuit, reduces it to the demand load
+ * with a simultaneity factor per appliance type, checks the circuit current
+ * against the fuse rating and estimates the annual energy and cost.
+ * Factors are guideline values and must be verified by the electrician.
+ * Circuits and settings are stored with the project (see useProjectStore).
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import type { BimElement, IfcElectricApplianceTypeEnum, PropertySet, StoreyInfo } from '@/types/bim';
+import { findContainingSpace } from '@/bim/spaces';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type CircuitPhases = 1 | 3;
+
+export interface ElectricalCircuit {
+  id: string;
+  name: string;
+  /** Rated current of the fuse / circuit breaker (A) */
+  fuseRating: number;
+  phases: CircuitPhases;
+  /** Appliances fed by the circuit (an appliance belongs to at most one circuit) */
+  applianceIds: string[];
+}
+
+export interface ElectricalSettings {
+  /** Opening hours per day (h) */
+  openingHoursPerDay: number;
+  /** Opening days per week */
+  openingDaysPerWeek: number;
+  /** Energy price (CHF/kWh) */
+  pricePerKWh: number;
+  /** Simultaneity factors changed by the user on top of the defaults */
+  simultaneityOverrides: Partial<Record<IfcElectricApplianceTypeEnum, number>>;
+}
+
+/**
+ * Appliance with its connected and demand load
+ */
+export interface ApplianceLoad {
+  elementId: string;
+  elementName: string;
+  storeyId: string | null;
+  spaceId: string | null;
+  circuitId: string | null;
+  applianceType: IfcElectricApplianceTypeEnum;
+  /** Connected load (W) */
+  connectedLoad: number;
+  simultaneityFactor: number;
+  /** Connected load × simultaneity factor (W) */
+  demandLoad: number;
+  /** Appliance runs around the clock (cooling) instead of during opening hours */
+  continuous: boolean;
+  /** Estimated energy per year (kWh) */
+  annualEnergy: number;
+}
+
+/**
+ * Sum over a group of appliances (space, storey, circuit or the whole project)
+ */
+export interface LoadSummary {
+  applianceCount: number;
+  /** W */
+  connectedLoad: number;
+  /** W */
+  demandLoad: number;
+  /** kWh/a */
+  annualEnergy: number;
+  /** CHF/a */
+  annualCost: number;
+}
+
+export interface CircuitLoad extends LoadSummary {
+  circuit: ElectricalCircuit;
+  /** Demand current per phase (A) */
+  current: number;
+  overloaded: boolean;
+}
+
+export interface LoadBudget {
+  appliances: ApplianceLoad[];
+  bySpace: Map<string, LoadSummary>;
+  byStorey: Map<string, LoadSummary>;
+  circuits: CircuitLoad[];
+  /** Appliances with a load that are not assigned to a circuit */
+  unassigned: LoadSummary;
+  total: LoadSummary;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Name of the custom pset with the load of an appliance */
+export const ELECTRICAL_LOAD_PSET = 'CoffeeBIM_ElectricalLoad';
+
+/** Name of the custom pset with the load of a circuit */
+export const CIRCUIT_PSET = 'CoffeeBIM_Circuit';
+
+/** Phase voltage (V) */
+export const PHASE_VOLTAGE = 230;
+
+/** Line voltage for three-phase circuits (V) */
+export const LINE_VOLTAGE = 400;
+
+export const FUSE_RATINGS = [10, 13, 16, 20, 25, 32, 40, 50, 63];
+
+export const DEFAULT_FUSE_RATING = 16;
+
+export const DEFAULT_ELECTRICAL_SETTINGS: ElectricalSettings = {
+  openingHoursPerDay: 10,
+  openingDaysPerWeek: 6,
+  pricePerKWh: 0.27,
+  simultaneityOverrides: {},
+};
+
+/**
+ * Default simultaneity factors per appliance type (guideline values).
+ * Heating appliances (boilers, cookers) cycle their elements, cooling runs
+ * with a compressor duty cycle, office devices are mostly on standby.
+ */
+export const DEFAULT_SIMULTANEITY_FACTORS: Record<IfcElectricApplianceTypeEnum, number> = {
+  COMPUTER: 0.7,
+  DIRECTWATERHEATER: 0.5,
+  DISHWASHER: 0.7,
+  ELECTRICCOOKER: 0.6,
+  ELECTRICHEATER: 0.8,
+  FACSIMILE: 0.1,
+  FREESTANDINGFAN: 0.5,
+  FREEZER: 0.5,
+  FRIDGE_FREEZER: 0.5,
+  HANDDRYER: 0.1,
+  INDIRECTWATERHEATER: 0.5,
+  MICROWAVE: 0.3,
+  PHOTOCOPIER: 0.3,
+  PRINTER: 0.2,
+  RADIANTHEATER: 0.8,
+  REFRIGERATOR: 0.5,
+  SCANNER: 0.1,
+  TELEPHONE: 1,
+  TUMBLEDRYER: 0.5,
+  TV: 1,
+  VENDINGMACHINE: 0.5,
+  WASHINGMACHINE: 0.5,
+  WATERCOOLER: 0.5,
+  WATERHEATER: 0.5,
+  USERDEFINED: 0.7, // Coffee equipment: boiler heating cycles
+  NOTDEFINED: 1, // Unknown: on the safe side
+};
+
+/** Appliance types that run around the clock */
+const CONTINUOUS_APPLIANCE_TYPES: IfcElectricApplianceTypeEnum[] = [
+  'FREEZER',
+  'FRIDGE_FREEZER',
+  'REFRIGERATOR',
+  'VENDINGMACHINE',
+  'WATERCOOLER',
+];
+
+const HOURS_PER_YEAR = 8760;
+const WEEKS_PER_YEAR = 52;
+
+// ============================================================================
+// Circuits
+// ============================================================================
+
+export function createElectricalCircuit(name: string): ElectricalCircuit {
+  return {
+    id: uuidv4(),
+    name,
+    fuseRating: DEFAULT_FUSE_RATING,
+    phases: 1,
+    applianceIds: [],
+  };
+}
+
+/**
+ * Demand current per phase (A), cos φ = 1
+ */
+export function getCircuitCurrent(demandLoad: number, phases: CircuitPhases): number {
+  return phases === 3 ? demandLoad / (Math.sqrt(3) * LINE_VOLTAGE) : demandLoad / PHASE_VOLTAGE;
+}
+
+export function getSimultaneityFactor(type: IfcElectricApplianceTypeEnum, settings: ElectricalSettings): number {
+  return settings.simultaneityOverrides[type] ?? DEFAULT_SIMULTANEITY_FACTORS[type];
+}
+
+// ============================================================================
+// Load Budget
+// ============================================================================
+
+function isApplianceType(value: unknown): value is IfcElectricApplianceTypeEnum {
+  return typeof value === 'string' && value in DEFAULT_SIMULTANEITY_FACTORS;
+}
+
+/**
+ * Connected load (W) and appliance type of an element, null without a load
+ */
+export function getApplianceData(
+  element: BimElement
+): { connectedLoad: number; applianceType: IfcElectricApplianceTypeEnum } | null {
+  const findPset = (name: string) => element.properties?.find((pset) => pset.name === name)?.properties;
+
+  const load = Number(findPset('Pset_TechnischeDaten')?.Stromverbrauch);
+  if (!Number.isFinite(load) || load <= 0) return null;
+
+  const type = findPset('Pset_Grunddaten')?.IfcElectricApplianceType;
+  return { connectedLoad: load, applianceType: isApplianceType(type) ? type : 'NOTDEFINED' };
+}
+
+/**
+ * Hours per year an appliance is switched on
+ */
+export function getOperatingHours(continuous: boolean, settings: ElectricalSettings): number {
+  return continuous ? HOURS_PER_YEAR : settings.openingHoursPerDay * settings.openingDaysPerWeek * WEEKS_PER_YEAR;
+}
+
+function summarize(appliances: ApplianceLoad[], settings: ElectricalSettings): LoadSummary {
+  const annualEnergy = appliances.reduce((sum, a) => sum + a.annualEnergy, 0);
+  return {
+    applianceCount: appliances.length,
+    connectedLoad: appliances.reduce((sum, a) => sum + a.connectedLoad, 0),
+    demandLoad: appliances.reduce((sum, a) => sum + a.demandLoad, 0),
+    annualEnergy,
+    annualCost: annualEnergy * settings.pricePerKWh,
+  };
+}
+
+function groupBy(appliances: ApplianceLoad[], key: (a: ApplianceLoad) => string | null): Map<string, ApplianceLoad[]> {
+  const groups = new Map<string, ApplianceLoad[]>();
+  for (const appliance of appliances) {
+    const id = key(appliance);
+    if (id) groups.set(id, [...(groups.get(id) ?? []), appliance]);
+  }
+  return groups;
+}
+
+/**
+ * Load budget of all appliances with a connected load
+ */
+export function calculateLoadBudget(
+  elements: BimElement[],
+  storeys: StoreyInfo[],
+  circuits: ElectricalCircuit[],
+  settings: ElectricalSettings
+): LoadBudget {
+  const storeyIds = new Set(storeys.map((s) => s.id));
+  const spaces = elements.filter((e) => e.type === 'space' && e.spaceData);
+
+  const circuitByAppliance = new Map<string, string>();
+  for (const circuit of circuits) {
+    for (const id of circuit.applianceIds) {
+      if (!circuitByAppliance.has(id)) circuitByAppliance.set(id, circuit.id);
+    }
+  }
+
+  const appliances: ApplianceLoad[] = [];
+  for (const element of elements) {
+    const data = getApplianceData(element);
+    if (!data) continue;
+
+    const space = findContainingSpace(element, spaces);
+
+    const factor = getSimultaneityFactor(data.applianceType, settings);
+    const continuous = CONTINUOUS_APPLIANCE_TYPES.includes(data.applianceType);
+    const demandLoad = data.connectedLoad * factor;
+
+    appliances.push({
+      elementId: element.id,
+      elementName: element.name,
+      storeyId: element.parentId && storeyIds.has(element.parentId) ? element.parentId : null,
+      spaceId: space?.id ?? null,
+      circuitId: circuitByAppliance.get(element.id) ?? null,
+      applianceType: data.applianceType,
+      connectedLoad: data.connectedLoad,
+      simultaneityFactor: factor,
+      demandLoad,
+      continuous,
+      annualEnergy: (demandLoad / 1000) * getOperatingHours(continuous, settings),
+    });
+  }
+
+  const bySpace = new Map<string, LoadSummary>();
+  groupBy(appliances, (a) => a.spaceId).forEach((group, id) => bySpace.set(id, summarize(group, settings)));
+
+  const byStorey = new Map<string, LoadSummary>();
+  groupBy(appliances, (a) => a.storeyId).forEach((group, id) => byStorey.set(id, summarize(group, settings)));
+
+  const byCircuit = groupBy(appliances, (a) => a.circuitId);
+  const circuitLoads = circuits.map((circuit): CircuitLoad => {
+    const summary = summarize(byCircuit.get(circuit.id) ?? [], settings);
+    const current = getCircuitCurrent(summary.demandLoad, circuit.phases);
+    return { ...summary, circuit, current, overloaded: current > circuit.fuseRating };
+  });
+
+  return {
+    appliances,
+    bySpace,
+    byStorey,
+    circuits: circuitLoads,
+    unassigned: summarize(appliances.filter((a) => a.circuitId === null), settings),
+    total: summarize(appliances, settings),
+  };
+}
+
+// ============================================================================
+// IFC
+// ============================================================================
+
+/**
+ * Appliance load -> property set (derived on export, so it never goes stale)
+ */
+export function createApplianceLoadPset(appliance: ApplianceLoad, circuitName: string | null): PropertySet {
+  return {
+    name: ELECTRICAL_LOAD_PSET,
+    properties: {
+      ConnectedLoad: appliance.connectedLoad,
+      SimultaneityFactor: appliance.simultaneityFactor,
+      DemandLoad: Math.round(appliance.demandLoad * 10) / 10,
+      AnnualEnergy: Math.round(appliance.annualEnergy * 10) / 10,
+      Circuit: circuitName,
+    },
+  };
+}
+
+/**
+ * Circuit load -> property set of the IfcDistributionCircuit / IfcElectricalCircuit
+ */
+export function createCircuitPset(load: CircuitLoad): PropertySet {
+  return {
+    name: CIRCUIT_PSET,
+    properties: {
+      FuseRating: load.circuit.fuseRating,
+      Phases: load.circuit.phases,
+      ConnectedLoad: Math.round(load.connectedLoad * 10) / 10,
+      DemandLoad: Math.round(load.demandLoad * 10) / 10,
+      Current: Math.round(load.current * 100) / 100,
+      Overloaded: load.overloaded,
+    },
+  };
+}
@@ -0,0 +1,182 @@
+/**
+ * Evacuation Batch Runs
+ *
+ * Runs the headless simulation for several seeds and reports the spread
+ * of the evacuation times (mean and percentiles). Scenarios are compared
+ * on the same seeds, so differences come from the scenario only.
+ */
+
+import type { EvacuationResults } from './results';
+import type { EvacuationScenario } from './scenarios';
+import {
+  runSimulation,
+  DEFAULT_MAX_DURATION,
+  type SimulationModel,
+  type SimulationOptions,
+} from './simulation';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Key figures of a single run
+ */
+export interface BatchRunSummary {
+  seed: number;
+  totalAgents: number;
+  evacuated: number;
+  /** Persons waiting at a refuge area */
+  atRefuge: number;
+  /** Persons without a route to an exit */
+  trapped: number;
+  /** Time the last agent left or reached a refuge (null = not everybody within the limit) */
+  evacuationTime: number | null;
+}
+
+export interface BatchStatistics {
+  runs: BatchRunSummary[];
+  /** Runs in which every agent got out or reached a refuge area */
+  completedRuns: number;
+  /** Most persons trapped in a single run */
+  maxTrapped: number;
+  /** Evacuation time statistics over the completed runs (s) */
+  mean: number | null;
+  min: number | null;
+  max: number | null;
+  p50: number | null;
+  p90: number | null;
+  p95: number | null;
+}
+
+export interface BatchOptions extends Omit<SimulationOptions, 'seed'> {
+  /** Number of runs */
+  runs: number;
+  /** Seed of the first run, the following runs use consecutive seeds */
+  firstSeed?: number;
+  maxDuration?: number;
+  onProgress?: (completed: number, total: number) => void;
+  signal?: AbortSignal;
+}
+
+/**
+ * Batch statistics of one scenario
+ */
+export interface ScenarioComparison {
+  /** null = reference run with all exits available */
+  scenario: EvacuationScenario | null;
+  statistics: BatchStatistics;
+}
+
+// ============================================================================
+// Statistics
+// ============================================================================
+
+/**
+ * Percentile of ascending sorted values (linear interpolation)
+ *
+ * @param p - Percentile between 0 and 100
+ */
+export function percentile(sorted: number[], p: number): number | null {
+  if (sorted.length === 0) return null;
+
+  const rank = (p / 100) * (sorted.length - 1);
+  const lower = Math.floor(rank);
+  const upper = Math.ceil(rank);
+  return sorted[lower]! + (sorted[upper]! - sorted[lower]!) * (rank - lower);
+}
+
+export function summarizeRun(results: EvacuationResults): BatchRunSummary {
+  const doneTimes = results.agents
+    .map((agent) => agent.exitTime ?? agent.refugeTime)
+    .filter((time): time is number => time !== null);
+
+  return {
+    seed: results.seed,
+    totalAgents: results.agents.length,
+    evacuated: results.agents.filter((agent) => agent.exitTime !== null).length,
+    atRefuge: results.agents.filter((agent) => agent.refugeTime !== null).length,
+    trapped: results.agents.filter((agent) => agent.trappedTime !== null).length,
+    evacuationTime: doneTimes.length === results.agents.length ? Math.max(0, ...doneTimes) : null,
+  };
+}
+
+export function summarizeBatch(runs: BatchRunSummary[]): BatchStatistics {
+  const times = runs
+    .map((run) => run.evacuationTime)
+    .filter((time): time is number => time !== null)
+    .sort((a, b) => a - b);
+
+  return {
+    runs,
+    completedRuns: times.length,
+    maxTrapped: Math.max(0, ...runs.map((run) => run.trapped)),
+    mean: times.length > 0 ? times.reduce((sum, time) => sum + time, 0) / times.length : null,
+    min: times[0] ?? null,
+    max: times[times.length - 1] ?? null,
+    p50: percentile(times, 50),
+    p90: percentile(times, 90),
+    p95: percentile(times, 95),
+  };
+}
+
+// ============================================================================
+// Runner
+// ============================================================================
+
+/**
+ * Run the simulation once per seed. Yields to the event loop between runs
+ * so the UI stays responsive; stops early when the signal is aborted.
+ *
+ * @returns Statistics of all finished runs, null if the model has no exit
+ */
+export async function runSimulationBatch(
+  model: SimulationModel,
+  options: BatchOptions
+): Promise<BatchStatistics | null> {
+  const { runs, firstSeed = 1, maxDuration = DEFAULT_MAX_DURATION, onProgress, signal, ...simulationOptions } = options;
+  const summaries: BatchRunSummary[] = [];
+
+  for (let i = 0; i < runs; i++) {
+    if (signal?.aborted) break;
+
+    const results = runSimulation(model, { ...simulationOptions, seed: firstSeed + i }, maxDuration);
+    if (!results) return null;
+
+    summaries.push(summarizeRun(results));
+    onProgress?.(i + 1, runs);
+    await new Promise((resolve) => setTimeout(resolve, 0));
+  }
+
+  return summarizeBatch(summaries);
+}
+
+/**
+ * Run a batch for the reference case and every scenario with the same seeds
+ *
+ * @returns One entry per scenario (reference first), null if the model has no exit
+ */
+export async function runScenarioComparison(
+  model: SimulationModel,
+  scenarios: EvacuationScenario[],
+  options: Omit<BatchOptions, 'scenario'>
+): Promise<ScenarioComparison[] | null> {
+  const { runs, onProgress, signal } = options;
+  const cases = [null, ...scenarios];
+  const comparison: ScenarioComparison[] = [];
+
+  for (const [index, scenario] of cases.entries()) {
+    if (signal?.aborted) break;
+
+    const statistics = await runSimulationBatch(model, {
+      ...options,
+      scenario,
+      onProgress: (completed) => onProgress?.(index * runs + completed, cases.length * runs),
+    });
+    if (!statistics) return null;
+
+    comparison.push({ scenario, statistics });
+  }
+
+  return comparison;
+}
@@ -0,0 +1,131 @@
+import { describe, expect, it } from 'vitest';
+import type { BimElement, GastroSpaceCategory, StoreyInfo } from '@/types/bim';
+import type { Point2D } from '@/types/geometry';
+import { createWall } from '@/bim/elements/Wall';
+import { createDoor } from '@/bim/elements/Door';
+import { createSpaceFromPolygon } from '@/bim/elements/Space';
+import { EGRESS_RULE_PROFILES, checkEgress } from './egressRules';
+
+const storey: StoreyInfo = { id: 'eg', name: 'EG', buildingId: 'b', elevation: 0, height: 3 };
+const rules = EGRESS_RULE_PROFILES.vkf;
+
+function createRoom(
+  name: string,
+  polygon: Point2D[],
+  gastroCategory: GastroSpaceCategory
+): BimElement {
+  return createSpaceFromPolygon({
+    name,
+    boundaryPolygon: polygon,
+    storeyId: storey.id,
+    gastroCategory,
+  });
+}
+
+function createWallWithDoor(
+  start: Point2D,
+  end: Point2D,
+  positionOnWall = 0.5,
+  width?: number
+): BimElement[] {
+  const wall = createWall({ startPoint: start, endPoint: end, storeyId: storey.id });
+  const door = createDoor({
+    hostWallId: wall.id,
+    positionOnWall,
+    wallLength: Math.hypot(end.x - start.x, end.y - start.y),
+    storeyId: storey.id,
+    width,
+  });
+  return [wall, door];
+}
+
+/**
+ * 60 m² guest room with an exit door and a door into a 9 m² storeroom
+ */
+function createModel(): BimElement[] {
+  return [
+    createRoom(
+      'Gastraum',
+      [
+        { x: 0, y: 0 },
+        { x: 10, y: 0 },
+        { x: 10, y: 6 },
+        { x: 0, y: 6 },
+      ],
+      'GASTRAUM'
+    ),
+    createRoom(
+      'Lager',
+      [
+        { x: 10, y: 0 },
+        { x: 13, y: 0 },
+        { x: 13, y: 3 },
+        { x: 10, y: 3 },
+      ],
+      'LAGER'
+    ),
+    ...createWallWithDoor({ x: 0, y: 0 }, { x: 10, y: 0 }, 0.3),
+    ...createWallWithDoor({ x: 10, y: 0 }, { x: 10, y: 6 }, 0.25),
+  ];
+}
+
+describe('checkEgress', () => {
+  it('does not count a door into a dead-end room as second exit', () => {
+    const findings = checkEgress(createModel(), [storey], rules);
+
+    expect(findings.filter((f) => f.rule === 'exitCount')).toMatchObject([
+      { elementName: 'Gastraum', value: 1, limit: 2 },
+    ]);
+  });
+
+  it('counts a door through a room that has its own exit', () => {
+    const elements = [...createModel(), ...createWallWithDoor({ x: 13, y: 0 }, { x: 13, y: 3 })];
+
+    const findings = checkEgress(elements, [storey], rules);
+
+    expect(findings.filter((f) => f.rule === 'exitCount')).toEqual([]);
+  });
+
+  it('reports a model without exits', () => {
+    const room = createRoom(
+      'Gastraum',
+      [
+        { x: 0, y: 0 },
+        { x: 4, y: 0 },
+        { x: 4, y: 4 },
+        { x: 0, y: 4 },
+      ],
+      'GASTRAUM'
+    );
+
+    expect(checkEgress([room], [storey], rules)).toMatchObject([
+      { rule: 'noExit', severity: 'error' },
+    ]);
+  });
+
+  it('checks the clear width of a door (without jambs and leaf)', () => {
+    // Clear width 0.9 m = 1.04 m - 2 × 0.05 m jambs - 0.04 m leaf
+    const findDoorWidth = (width: number) =>
+      checkEgress(
+        [
+          createRoom(
+            'Gastraum',
+            [
+              { x: 0, y: 0 },
+              { x: 4, y: 0 },
+              { x: 4, y: 4 },
+              { x: 0, y: 4 },
+            ],
+            'GASTRAUM'
+          ),
+          ...createWallWithDoor({ x: 0, y: 0 }, { x: 4, y: 0 }, 0.5, width),
+        ],
+        [storey],
+        rules
+      ).filter((f) => f.rule === 'doorWidth');
+
+    expect(findDoorWidth(1.04)).toEqual([]);
+    expect(findDoorWidth(1.03)).toMatchObject([{ limit: 0.9 }]);
+    expect(findDoorWidth(1.03)[0]?.value).toBeCloseTo(0.89, 6);
+  });
+});
@@ -0,0 +1,310 @@
+/**
+ * Egress Checker (Fluchtwegprüfung)
+ *
+ * Checks travel distances, exit widths, number of exits and door swing
+ * direction of the computed evacuation routes against a rule profile.
+ * Profile values are guideline values and must be verified per project.
+ */
+
+import type { BimElement, StoreyInfo } from '@/types/bim';
+import { getDoorClearWidth } from '@/bim/elements/Door';
+import { calculateOccupancy } from '@/bim/spaces';
+import {
+  getDoorPosition,
+  isPointInPolygon,
+  findExitDoors,
+  buildRoomGraph,
+  findPathToExit,
+  createWallSegments,
+  createSegmentsFromCounters,
+  calculateAllEvacuationRoutes,
+  type RoomNode,
+} from './routes';
+
+// ============================================================================
+// Rule Profiles
+// ============================================================================
+
+export type EgressProfileId = 'vkf' | 'mvstaettv';
+
+/**
+ * Limits of a rule profile
+ */
+export interface EgressRuleValues {
+  /** Max. travel distance to the exit with a single exit (m) */
+  maxTravelDistance: number;
+  /** Max. travel distance when the space has two or more exits (m) */
+  maxTravelDistanceMultipleExits: number;
+  /** Min. clear width of a door on an escape route (m) */
+  minDoorWidth: number;
+  /** Required clear width per person passing the door (m) */
+  widthPerPerson: number;
+  /** Occupancy from which a space needs a second exit */
+  secondExitFromOccupancy: number;
+  /** Load from which doors must open in escape direction (fire exits always) */
+  swingInEscapeDirectionFromOccupancy: number;
+}
+
+export interface EgressRuleProfile extends EgressRuleValues {
+  id: EgressProfileId;
+  name: string;
+  description: string;
+}
+
+export const EGRESS_RULE_PROFILES: Record<EgressProfileId, EgressRuleProfile> = {
+  vkf: {
+    id: 'vkf',
+    name: 'VKF (CH)',
+    description: 'VKF-Brandschutzrichtlinie 16-15 Flucht- und Rettungswege',
+    maxTravelDistance: 35,
+    maxTravelDistanceMultipleExits: 50,
+    minDoorWidth: 0.9,
+    widthPerPerson: 0.006, // 0.6 m pro 100 Personen
+    secondExitFromOccupancy: 51,
+    swingInEscapeDirectionFromOccupancy: 51,
+  },
+  mvstaettv: {
+    id: 'mvstaettv',
+    name: 'MVStättV (DE)',
+    description: 'Muster-Versammlungsstättenverordnung §§ 6, 7, 9',
+    maxTravelDistance: 30,
+    maxTravelDistanceMultipleExits: 30,
+    minDoorWidth: 1.2,
+    widthPerPerson: 0.006, // 1.20 m pro 200 Personen
+    secondExitFromOccupancy: 101,
+    swingInEscapeDirectionFromOccupancy: 1,
+  },
+};
+
+export const DEFAULT_EGRESS_PROFILE: EgressProfileId = 'vkf';
+
+// ============================================================================
+// Findings
+// ============================================================================
+
+export type EgressRuleId = 'noExit' | 'noEscapeRoute' | 'travelDistance' | 'exitCount' | 'doorWidth' | 'doorSwing';
+
+export type EgressSeverity = 'error' | 'warning';
+
+export interface EgressFinding {
+  id: string;
+  rule: EgressRuleId;
+  severity: EgressSeverity;
+  /** Offending element (space or door), null for model-wide findings */
+  elementId: string | null;
+  elementName: string;
+  storeyId: string | null;
+  /** Measured value (m, persons or exits) */
+  value?: number;
+  /** Limit of the rule profile */
+  limit?: number;
+}
+
+/** Distance from the door center to probe which side the leaf opens to (m) */
+const SWING_PROBE_DISTANCE = 0.5;
+
+// ============================================================================
+// Checks
+// ============================================================================
+
+/**
+ * Required clear width of a door passed by `persons` people
+ */
+export function getRequiredDoorWidth(persons: number, rules: EgressRuleValues): number {
+  return Math.max(rules.minDoorWidth, persons * rules.widthPerPerson);
+}
+
+/**
+ * Whether a door leaf opens into the given space (i.e. against the escape
+ * direction when leaving that space). Sliding doors never do.
+ */
+export function doorOpensInto(door: BimElement, space: BimElement, walls: BimElement[]): boolean {
+  if (!door.doorData || !space.spaceData || door.doorData.doorType === 'sliding') return false;
+
+  const hostWall = walls.find((w) => w.id === door.doorData?.hostWallId);
+  const position = getDoorPosition(door, walls);
+  if (!hostWall?.wallData || !position) return false;
+
+  const { startPoint, endPoint } = hostWall.wallData;
+  const length = Math.hypot(endPoint.x - startPoint.x, endPoint.y - startPoint.y);
+  if (length === 0) return false;
+
+  // 'outward' opens to the right of the wall direction, 'inward' to the left (see Canvas2D renderDoor)
+  const dirX = (endPoint.x - startPoint.x) / length;
+  const dirY = (endPoint.y - startPoint.y) / length;
+  const normal = door.doorData.swingSide === 'outward' ? { x: dirY, y: -dirX } : { x: -dirY, y: dirX };
+
+  const probe = {
+    x: position.x + normal.x * SWING_PROBE_DISTANCE,
+    y: position.y + normal.y * SWING_PROBE_DISTANCE,
+  };
+  return isPointInPolygon(probe, space.spaceData.boundaryPolygon);
+}
+
+/**
+ * Space reached through a door or stair of a room node (null = outside)
+ */
+function getNextSpaceId(node: RoomNode, waypointId: string): string | null {
+  const door = node.doors.find((d) => d.doorId === waypointId);
+  if (door) return door.connectsTo;
+  return node.stairs.find((s) => s.stairId === waypointId)?.connectsToSpace ?? null;
+}
+
+/**
+ * Exits of a space: exit doors plus doors and descending stairs from which an
+ * exit is reachable without passing back through the space. Doors into
+ * dead-end rooms (store, WC) do not count.
+ */
+function countEscapeExits(node: RoomNode, roomGraph: Map<string, RoomNode>): number {
+  const graphWithoutSpace = new Map(roomGraph);
+  graphWithoutSpace.delete(node.spaceId);
+
+  const leadsToExit = (spaceId: string | null) =>
+    spaceId !== null && spaceId !== node.spaceId && findPathToExit(spaceId, graphWithoutSpace).length > 0;
+
+  const doorExits = node.doors.filter((d) => d.isExit || leadsToExit(d.connectsTo)).length;
+  const stairExits = node.stairs.filter((s) => s.isDescending && leadsToExit(s.connectsToSpace)).length;
+  return doorExits + stairExits;
+}
+
+/**
+ * Run all egress rules over the model
+ */
+export function checkEgress(
+  elements: BimElement[],
+  storeys: StoreyInfo[],
+  rules: EgressRuleValues
+): EgressFinding[] {
+  const spaces = elements.filter((e) => e.type === 'space' && e.spaceData);
+  const doors = elements.filter((e) => e.type === 'door' && e.doorData);
+  const walls = elements.filter((e) => e.type === 'wall');
+  const columns = elements.filter((e) => e.type === 'column');
+  const counters = elements.filter((e) => e.type === 'counter');
+  const stairs = elements.filter((e) => e.type === 'stair');
+
+  const findings: EgressFinding[] = [];
+  const addFinding = (finding: Omit<EgressFinding, 'id'>) => {
+    findings.push({ ...finding, id: `${finding.rule}-${finding.elementId ?? 'model'}-${findings.length}` });
+  };
+
+  if (spaces.length === 0) return findings;
+
+  const exitDoors = findExitDoors(doors, walls, spaces, storeys);
+  if (exitDoors.length === 0) {
+    addFinding({ rule: 'noExit', severity: 'error', elementId: null, elementName: '', storeyId: null });
+    return findings;
+  }
+
+  const roomGraph = buildRoomGraph(spaces, doors, walls, stairs, exitDoors, storeys);
+  const wallSegments = createWallSegments(walls, doors);
+  createSegmentsFromCounters(counters, wallSegments);
+  const routes = calculateAllEvacuationRoutes(spaces, roomGraph, columns, wallSegments);
+
+  const occupancies = new Map(calculateOccupancy(elements).map((o) => [o.spaceId, o.occupancy]));
+  const spaceById = new Map(spaces.map((s) => [s.id, s]));
+  const doorById = new Map(doors.map((d) => [d.id, d]));
+
+  // Persons passing each door and the spaces they leave through it
+  const doorLoads = new Map<string, number>();
+  const doorDepartures = new Map<string, Map<string, number>>();
+
+  for (const space of spaces) {
+    const occupancy = occupancies.get(space.id) ?? 0;
+    const node = roomGraph.get(space.id);
+    const path = findPathToExit(space.id, roomGraph);
+
+    if (path.length === 0) {
+      if (occupancy > 0) {
+        addFinding({
+          rule: 'noEscapeRoute',
+          severity: 'error',
+          elementId: space.id,
+          elementName: space.name,
+          storeyId: space.parentId,
+        });
+      }
+      continue;
+    }
+
+    const exitCount = node ? countEscapeExits(node, roomGraph) : 0;
+    if (occupancy >= rules.secondExitFromOccupancy && exitCount < 2) {
+      addFinding({
+        rule: 'exitCount',
+        severity: 'error',
+        elementId: space.id,
+        elementName: space.name,
+        storeyId: space.parentId,
+        value: exitCount,
+        limit: 2,
+      });
+    }
+
+    const route = routes.get(space.id);
+    const maxDistance = exitCount >= 2 ? rules.maxTravelDistanceMultipleExits : rules.maxTravelDistance;
+    if (route && occupancy > 0 && route.totalDistance > maxDistance) {
+      addFinding({
+        rule: 'travelDistance',
+        severity: 'error',
+        elementId: space.id,
+        elementName: space.name,
+        storeyId: space.parentId,
+        value: route.totalDistance,
+        limit: maxDistance,
+      });
+    }
+
+    // Walk the route and collect the load per door
+    let currentSpaceId: string | null = space.id;
+    for (const waypoint of path) {
+      const currentNode: RoomNode | undefined = currentSpaceId ? roomGraph.get(currentSpaceId) : undefined;
+
+      if (doorById.has(waypoint.doorId) && currentSpaceId) {
+        doorLoads.set(waypoint.doorId, (doorLoads.get(waypoint.doorId) ?? 0) + occupancy);
+        const departures = doorDepartures.get(waypoint.doorId) ?? new Map<string, number>();
+        departures.set(currentSpaceId, (departures.get(currentSpaceId) ?? 0) + occupancy);
+        doorDepartures.set(waypoint.doorId, departures);
+      }
+
+      currentSpaceId = currentNode ? getNextSpaceId(currentNode, waypoint.doorId) : null;
+    }
+  }
+
+  for (const [doorId, load] of doorLoads) {
+    const door = doorById.get(doorId);
+    if (!door?.doorData) continue;
+
+    const requiredWidth = getRequiredDoorWidth(load, rules);
+    const clearWidth = getDoorClearWidth(door.doorData);
+    if (load > 0 && clearWidth < requiredWidth) {
+      addFinding({
+        rule: 'doorWidth',
+        severity: 'error',
+        elementId: door.id,
+        elementName: door.name,
+        storeyId: door.parentId,
+        value: clearWidth,
+        limit: requiredWidth,
+      });
+    }
+
+    const isFireExit = door.doorData.isFireExit === true;
+    if (!isFireExit && load < rules.swingInEscapeDirectionFromOccupancy) continue;
+
+    const opensAgainstEscape = Array.from(doorDepartures.get(doorId)?.keys() ?? []).some((spaceId) => {
+      const fromSpace = spaceById.get(spaceId);
+      return fromSpace ? doorOpensInto(door, fromSpace, walls) : false;
+    });
+    if (opensAgainstEscape) {
+      addFinding({
+        rule: 'doorSwing',
+        severity: isFireExit ? 'error' : 'warning',
+        elementId: door.id,
+        elementName: door.name,
+        storeyId: door.parentId,
+        value: load,
+      });
+    }
+  }
+
+  return findings;
+}
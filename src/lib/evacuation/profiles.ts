@@ -0,0 +1,112 @@
+/**
+ * Agent Profiles (Personenprofile)
+ *
+ * Walking characteristics of different occupant groups and their mix per
+ * gastro space category. Profiles that refuse stairs use a step-free route
+ * or wait at the stair landing (refuge area) for assisted rescue.
+ */
+
+import type { GastroSpaceCategory } from '@/types/bim';
+import type { RandomSource } from './simulation';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type AgentProfileId = 'staff' | 'guest' | 'elderly' | 'wheelchair' | 'stroller';
+
+export interface AgentProfile {
+  id: AgentProfileId;
+  /** Factor on the mean walking speed of the simulation */
+  speedFactor: number;
+  /** Body radius incl. aid (m) */
+  radius: number;
+  /** Factor on the own walking speed while on stairs */
+  stairSpeedFactor: number;
+  /** Does not use stairs, waits at the refuge area instead */
+  refusesStairs: boolean;
+}
+
+/**
+ * Share per profile (0..1), missing profiles count as 0
+ */
+export type AgentMix = Partial<Record<AgentProfileId, number>>;
+
+// ============================================================================
+// Defaults
+// ============================================================================
+
+export const AGENT_PROFILE_IDS: AgentProfileId[] = ['staff', 'guest', 'elderly', 'wheelchair', 'stroller'];
+
+/** Radius the collision margins were tuned for (m) */
+export const DEFAULT_AGENT_RADIUS = 0.25;
+
+export const DEFAULT_AGENT_PROFILES: Record<AgentProfileId, AgentProfile> = {
+  staff: { id: 'staff', speedFactor: 1.1, radius: 0.25, stairSpeedFactor: 0.6, refusesStairs: false },
+  guest: { id: 'guest', speedFactor: 1, radius: 0.25, stairSpeedFactor: 0.5, refusesStairs: false },
+  elderly: { id: 'elderly', speedFactor: 0.6, radius: 0.3, stairSpeedFactor: 0.3, refusesStairs: false },
+  wheelchair: { id: 'wheelchair', speedFactor: 0.6, radius: 0.45, stairSpeedFactor: 0, refusesStairs: true },
+  stroller: { id: 'stroller', speedFactor: 0.7, radius: 0.45, stairSpeedFactor: 0.25, refusesStairs: true },
+};
+
+/** Staff only in back-of-house rooms */
+const STAFF_MIX: AgentMix = { staff: 1 };
+
+export const DEFAULT_AGENT_MIX: Record<GastroSpaceCategory, AgentMix> = {
+  GASTRAUM: { guest: 0.85, elderly: 0.1, wheelchair: 0.03, stroller: 0.02 },
+  BAR: { staff: 0.1, guest: 0.85, elderly: 0.05 },
+  KUECHE: STAFF_MIX,
+  LAGER: STAFF_MIX,
+  SANITAER: { guest: 0.9, elderly: 0.07, wheelchair: 0.03 },
+  PERSONAL: STAFF_MIX,
+  EINGANG: { guest: 0.85, elderly: 0.1, stroller: 0.05 },
+  TERRASSE: { guest: 0.8, elderly: 0.1, wheelchair: 0.05, stroller: 0.05 },
+  TECHNIK: STAFF_MIX,
+  SONSTIGES: { guest: 1 },
+};
+
+/** Display colors (2D/3D) */
+export const AGENT_PROFILE_COLORS: Record<AgentProfileId, string> = {
+  staff: '#6b7280',
+  guest: '#3b82f6',
+  elderly: '#a855f7',
+  wheelchair: '#f59e0b',
+  stroller: '#ec4899',
+};
+
+// ============================================================================
+// Allocation
+// ============================================================================
+
+/**
+ * Profiles for `count` persons according to the mix. Counts follow the
+ * shares exactly (largest remainder), the order is shuffled with `random`.
+ */
+export function allocateProfiles(count: number, mix: AgentMix, random: RandomSource): AgentProfileId[] {
+  const entries = AGENT_PROFILE_IDS.map((id) => ({ id, share: Math.max(0, mix[id] ?? 0) }));
+  const totalShare = entries.reduce((sum, entry) => sum + entry.share, 0);
+  if (count <= 0) return [];
+  if (totalShare === 0) return new Array<AgentProfileId>(count).fill('guest');
+
+  const quotas = entries.map((entry) => {
+    const exact = (entry.share / totalShare) * count;
+    return { id: entry.id, count: Math.floor(exact), remainder: exact - Math.floor(exact) };
+  });
+
+  let missing = count - quotas.reduce((sum, quota) => sum + quota.count, 0);
+  for (const quota of [...quotas].sort((a, b) => b.remainder - a.remainder)) {
+    if (missing === 0) break;
+    quota.count++;
+    missing--;
+  }
+
+  const profiles = quotas.flatMap((quota) => new Array<AgentProfileId>(quota.count).fill(quota.id));
+
+  // Fisher-Yates shuffle
+  for (let i = profiles.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [profiles[i], profiles[j]] = [profiles[j]!, profiles[i]!];
+  }
+
+  return profiles;
+}
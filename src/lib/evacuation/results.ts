@@ -0,0 +1,458 @@
+/**
+ * Evacuation Results (Auswertung)
+ *
+ * Recorded data of a simulation run (trajectories, door passages, exit
+ * times) and the analyses derived from it: exit curve, door throughput,
+ * space clearance times and density grid. Exportable as CSV and JSON.
+ */
+
+import { downloadBlob } from '@/lib/utils/download';
+import type { AgentProfileId } from './profiles';
+import type { EvacuationScenario } from './scenarios';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Outcome of a single agent
+ */
+export interface AgentResult {
+  agentId: string;
+  profileId: AgentProfileId;
+  sourceSpaceId: string;
+  sourceStoreyId: string;
+  /** Reaction time before the agent started walking (s) */
+  preMovementTime: number;
+  /** Exit door the agent left the building through (null = not evacuated) */
+  exitDoorId: string | null;
+  /** Simulation time the agent reached the exit (s) */
+  exitTime: number | null;
+  /** Simulation time the agent reached a refuge area instead of an exit (s) */
+  refugeTime: number | null;
+  /** Simulation time the agent was left without a route to an exit (s) */
+  trappedTime: number | null;
+  /** Simulation time the agent left its source space (s) */
+  leftSourceAt: number | null;
+}
+
+/**
+ * Agent position at a sample time
+ */
+export interface TrajectorySample {
+  agentId: string;
+  time: number;
+  x: number;
+  y: number;
+  storeyId: string;
+}
+
+/**
+ * Agent passing a door (or the exit) on its route
+ */
+export interface DoorPassage {
+  doorId: string;
+  agentId: string;
+  time: number;
+}
+
+/**
+ * Everything recorded during one simulation run
+ */
+export interface EvacuationResults {
+  /** Wall-clock start of the run (ISO 8601) */
+  startedAt: string;
+  /** Seed of the random source, reproduces the run */
+  seed: number;
+  /** Scenario the run was based on (null = all exits available) */
+  scenario: EvacuationScenario | null;
+  /** Simulated time when recording stopped (s) */
+  duration: number;
+  /** Interval between trajectory samples (s) */
+  sampleInterval: number;
+  agents: AgentResult[];
+  samples: TrajectorySample[];
+  doorPassages: DoorPassage[];
+}
+
+export interface ExitCurvePoint {
+  time: number;
+  exited: number;
+}
+
+export interface DoorThroughput {
+  doorId: string;
+  /** Persons passing the door */
+  count: number;
+  firstPassage: number;
+  lastPassage: number;
+  /** Mean flow between first and last passage (persons/s) */
+  meanFlow: number;
+  /** Highest flow within a FLOW_WINDOW (persons/s) */
+  peakFlow: number;
+}
+
+export interface SpaceClearance {
+  spaceId: string;
+  storeyId: string;
+  agents: number;
+  /** Time the last occupant left the space (null = not cleared) */
+  clearanceTime: number | null;
+}
+
+export interface ProfileSummary {
+  profileId: AgentProfileId;
+  agents: number;
+  evacuated: number;
+  atRefuge: number;
+  /** Mean / latest exit time of the evacuated persons (s) */
+  meanExitTime: number | null;
+  maxExitTime: number | null;
+}
+
+export interface DensityCell {
+  /** Lower-left corner of the cell (m) */
+  x: number;
+  y: number;
+  /** Highest density observed in the cell (persons/m²) */
+  density: number;
+}
+
+export interface DensityGrid {
+  storeyId: string;
+  cellSize: number;
+  cells: DensityCell[];
+  maxDensity: number;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Default interval between trajectory samples (s) */
+export const RESULTS_SAMPLE_INTERVAL = 0.5;
+
+/** Sliding window for the peak door flow (s) */
+const FLOW_WINDOW = 10;
+
+/** Default cell size of the density grid (m) */
+export const DENSITY_CELL_SIZE = 1;
+
+/** Density shown in full red on the heatmap (persons/m², onset of congestion) */
+export const DENSITY_CRITICAL = 4;
+
+// ============================================================================
+// Recording
+// ============================================================================
+
+/**
+ * Empty results for a new run
+ */
+export function createEvacuationResults(
+  seed: number,
+  scenario: EvacuationScenario | null = null,
+  sampleInterval = RESULTS_SAMPLE_INTERVAL
+): EvacuationResults {
+  return {
+    startedAt: new Date().toISOString(),
+    seed,
+    scenario,
+    duration: 0,
+    sampleInterval,
+    agents: [],
+    samples: [],
+    doorPassages: [],
+  };
+}
+
+// ============================================================================
+// Analysis
+// ============================================================================
+
+/**
+ * Cumulative number of evacuated persons over time
+ *
+ * @param step - Time step of the curve (s)
+ */
+export function computeExitCurve(results: EvacuationResults, step = 1): ExitCurvePoint[] {
+  const exitTimes = results.agents
+    .map((agent) => agent.exitTime)
+    .filter((time): time is number => time !== null)
+    .sort((a, b) => a - b);
+
+  const points: ExitCurvePoint[] = [];
+  const end = Math.max(results.duration, exitTimes[exitTimes.length - 1] ?? 0);
+  let index = 0;
+
+  for (let time = 0; time <= end + step; time += step) {
+    while (index < exitTimes.length && exitTimes[index]! <= time) index++;
+    points.push({ time, exited: index });
+    if (index === exitTimes.length && time >= end) break;
+  }
+
+  return points;
+}
+
+/**
+ * Persons and flow rates per door, busiest door first
+ */
+export function computeDoorThroughput(results: EvacuationResults): DoorThroughput[] {
+  const byDoor = new Map<string, number[]>();
+  for (const passage of results.doorPassages) {
+    const times = byDoor.get(passage.doorId) ?? [];
+    times.push(passage.time);
+    byDoor.set(passage.doorId, times);
+  }
+
+  const throughput: DoorThroughput[] = [];
+  for (const [doorId, times] of byDoor) {
+    times.sort((a, b) => a - b);
+    const firstPassage = times[0]!;
+    const lastPassage = times[times.length - 1]!;
+    const span = lastPassage - firstPassage;
+
+    // Max. passages within any window starting at a passage
+    let peak = 0;
+    let windowEnd = 0;
+    for (let i = 0; i < times.length; i++) {
+      while (windowEnd < times.length && times[windowEnd]! < times[i]! + FLOW_WINDOW) windowEnd++;
+      peak = Math.max(peak, windowEnd - i);
+    }
+
+    throughput.push({
+      doorId,
+      count: times.length,
+      firstPassage,
+      lastPassage,
+      meanFlow: span > 0 ? (times.length - 1) / span : 0,
+      peakFlow: peak / FLOW_WINDOW,
+    });
+  }
+
+  return throughput.sort((a, b) => b.count - a.count);
+}
+
+/**
+ * Time until each source space was left by all its occupants, slowest first
+ */
+export function computeSpaceClearance(results: EvacuationResults): SpaceClearance[] {
+  const bySpace = new Map<string, SpaceClearance>();
+
+  for (const agent of results.agents) {
+    const entry = bySpace.get(agent.sourceSpaceId) ?? {
+      spaceId: agent.sourceSpaceId,
+      storeyId: agent.sourceStoreyId,
+      agents: 0,
+      clearanceTime: 0,
+    };
+    entry.agents++;
+    entry.clearanceTime =
+      entry.clearanceTime === null || agent.leftSourceAt === null
+        ? null
+        : Math.max(entry.clearanceTime, agent.leftSourceAt);
+    bySpace.set(agent.sourceSpaceId, entry);
+  }
+
+  return Array.from(bySpace.values()).sort(
+    (a, b) => (b.clearanceTime ?? Infinity) - (a.clearanceTime ?? Infinity)
+  );
+}
+
+/**
+ * Outcome per agent profile
+ */
+export function computeProfileSummary(results: EvacuationResults): ProfileSummary[] {
+  const byProfile = new Map<AgentProfileId, AgentResult[]>();
+  for (const agent of results.agents) {
+    byProfile.set(agent.profileId, [...(byProfile.get(agent.profileId) ?? []), agent]);
+  }
+
+  return Array.from(byProfile, ([profileId, agents]) => {
+    const exitTimes = agents
+      .map((agent) => agent.exitTime)
+      .filter((time): time is number => time !== null);
+
+    return {
+      profileId,
+      agents: agents.length,
+      evacuated: exitTimes.length,
+      atRefuge: agents.filter((agent) => agent.refugeTime !== null).length,
+      meanExitTime: exitTimes.length > 0 ? exitTimes.reduce((sum, time) => sum + time, 0) / exitTimes.length : null,
+      maxExitTime: exitTimes.length > 0 ? Math.max(...exitTimes) : null,
+    };
+  });
+}
+
+/**
+ * Highest density per grid cell of a storey over the whole run
+ */
+export function computeDensityGrid(
+  results: EvacuationResults,
+  storeyId: string,
+  cellSize = DENSITY_CELL_SIZE
+): DensityGrid {
+  const cellArea = cellSize * cellSize;
+  const peakCounts = new Map<string, number>();
+  const frameCounts = new Map<string, number>();
+  let frameTime: number | null = null;
+
+  const flushFrame = () => {
+    for (const [key, count] of frameCounts) {
+      peakCounts.set(key, Math.max(peakCounts.get(key) ?? 0, count));
+    }
+    frameCounts.clear();
+  };
+
+  // Samples are recorded frame by frame, so equal times are contiguous
+  for (const sample of results.samples) {
+    if (sample.storeyId !== storeyId) continue;
+    if (sample.time !== frameTime) {
+      flushFrame();
+      frameTime = sample.time;
+    }
+    const key = `${Math.floor(sample.x / cellSize)},${Math.floor(sample.y / cellSize)}`;
+    frameCounts.set(key, (frameCounts.get(key) ?? 0) + 1);
+  }
+  flushFrame();
+
+  let maxDensity = 0;
+  const cells: DensityCell[] = [];
+  for (const [key, count] of peakCounts) {
+    const [col, row] = key.split(',').map(Number);
+    const density = count / cellArea;
+    maxDensity = Math.max(maxDensity, density);
+    cells.push({ x: col! * cellSize, y: row! * cellSize, density });
+  }
+
+  return { storeyId, cellSize, cells, maxDensity };
+}
+
+/**
+ * Heatmap color of a density: green (free flow) to red (DENSITY_CRITICAL and above)
+ */
+export function getDensityColor(density: number): string {
+  const ratio = Math.min(1, density / DENSITY_CRITICAL);
+  return `hsl(${Math.round(120 * (1 - ratio))}, 90%, 50%)`;
+}
+
+// ============================================================================
+// Export
+// ============================================================================
+
+/**
+ * Display names of spaces, doors and storeys for the exports
+ */
+export type ResultsNameLookup = (id: string) => string;
+
+function csvRow(cells: (string | number | null)[]): string {
+  return cells.map((cell) => `"${String(cell ?? '').replace(/"/g, '""')}"`).join(';');
+}
+
+function formatSeconds(time: number | null): string {
+  return time === null ? '' : time.toFixed(1);
+}
+
+/**
+ * Results as CSV (semicolon separated) with one section per analysis
+ */
+export function resultsToCsv(results: EvacuationResults, getName: ResultsNameLookup = (id) => id): string {
+  const lines: string[] = [];
+
+  if (results.scenario) {
+    lines.push(csvRow(['scenario', results.scenario.name]), '');
+  }
+
+  lines.push(csvRow(['exit_curve']));
+  lines.push(csvRow(['time_s', 'exited']));
+  for (const point of computeExitCurve(results)) {
+    lines.push(csvRow([point.time.toFixed(0), point.exited]));
+  }
+
+  lines.push('', csvRow(['doors']));
+  lines.push(csvRow(['door', 'persons', 'first_s', 'last_s', 'mean_flow_p_per_s', 'peak_flow_p_per_s']));
+  for (const door of computeDoorThroughput(results)) {
+    lines.push(
+      csvRow([
+        getName(door.doorId),
+        door.count,
+        formatSeconds(door.firstPassage),
+        formatSeconds(door.lastPassage),
+        door.meanFlow.toFixed(2),
+        door.peakFlow.toFixed(2),
+      ])
+    );
+  }
+
+  lines.push('', csvRow(['spaces']));
+  lines.push(csvRow(['space', 'storey', 'persons', 'clearance_s']));
+  for (const space of computeSpaceClearance(results)) {
+    lines.push(
+      csvRow([getName(space.spaceId), getName(space.storeyId), space.agents, formatSeconds(space.clearanceTime)])
+    );
+  }
+
+  lines.push('', csvRow(['agents']));
+  lines.push(
+    csvRow([
+      'agent',
+      'profile',
+      'source_space',
+      'pre_movement_s',
+      'exit_door',
+      'left_source_s',
+      'exit_s',
+      'refuge_s',
+      'trapped_s',
+    ])
+  );
+  for (const agent of results.agents) {
+    lines.push(
+      csvRow([
+        agent.agentId,
+        agent.profileId,
+        getName(agent.sourceSpaceId),
+        formatSeconds(agent.preMovementTime),
+        agent.exitDoorId ? getName(agent.exitDoorId) : '',
+        formatSeconds(agent.leftSourceAt),
+        formatSeconds(agent.exitTime),
+        formatSeconds(agent.refugeTime),
+        formatSeconds(agent.trappedTime),
+      ])
+    );
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Results as JSON: raw recording plus the derived analyses
+ */
+export function resultsToJson(results: EvacuationResults): string {
+  return JSON.stringify(
+    {
+      ...results,
+      exitCurve: computeExitCurve(results),
+      doors: computeDoorThroughput(results),
+      spaces: computeSpaceClearance(results),
+      profiles: computeProfileSummary(results),
+    },
+    null,
+    2
+  );
+}
+
+/**
+ * Trigger the browser download of the results
+ */
+export function downloadEvacuationResults(
+  results: EvacuationResults,
+  format: 'csv' | 'json',
+  fileName: string,
+  getName?: ResultsNameLookup
+): void {
+  if (format === 'csv') {
+    downloadBlob(resultsToCsv(results, getName), 'text/csv;charset=utf-8', `${fileName}.csv`);
+  } else {
+    downloadBlob(resultsToJson(results), 'application/json', `${fileName}.json`);
+  }
+}
@@ -0,0 +1,680 @@
+/**
+ * Evacuation Routes
+ *
+ * Exit detection, room graph and route calculation shared by the evacuation
+ * simulation and the egress checker. Pure functions without store access.
+ */
+
+import type { BimElement, StoreyInfo } from '@/types/bim';
+import {
+  calculateEvacuationPath,
+  calculatePathLength,
+  type CircleObstacle as VGCircleObstacle,
+  type WallSegment as VGWallSegment,
+} from '@/lib/geometry/visibilityGraph';
+
+/** Extra clearance around door openings when splitting walls into segments */
+const DOOR_GAP_MARGIN = 0.25;
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface Point2D {
+  x: number;
+  y: number;
+}
+
+export interface Point3D extends Point2D {
+  z: number;
+}
+
+export interface Waypoint {
+  position: Point3D;
+  doorId: string;
+  isExit: boolean;
+  isStair?: boolean;             // NEU: Markiert Treppen-Waypoints
+  targetStoreyId?: string;       // NEU: Ziel-Stockwerk bei Treppe
+}
+
+// NEU: Treppen-Verbindung
+export interface StairConnection {
+  stairId: string;
+  stairElement: BimElement;
+  footPosition: Point3D;         // Fußpunkt (unten)
+  headPosition: Point3D;         // Kopfpunkt (oben)
+  bottomStoreyId: string;
+  topStoreyId: string;
+  bottomSpaceId: string | null;  // Raum am Fuß
+  topSpaceId: string | null;     // Raum am Kopf
+}
+
+// NEU: Evakuierungsroute pro Raum
+export interface EvacuationRoute {
+  spaceId: string;
+  spaceName: string;
+  storeyId: string;
+  farthestCorner: Point2D;
+  pathPoints: Point2D[];         // Kompletter Pfad inkl. Säulenumgehung
+  totalDistance: number;
+  exitDoorId: string;
+}
+
+export interface ExitDoor {
+  id: string;
+  position: Point3D;
+  doorElement: BimElement;
+}
+
+export interface WallSegment {
+  start: Point2D;
+  end: Point2D;
+}
+
+export interface RoomNode {
+  spaceId: string;
+  storeyId: string;
+  elevation: number;
+  doors: Array<{
+    doorId: string;
+    position: Point3D;
+    connectsTo: string | null;
+    isExit: boolean;
+  }>;
+  stairs: Array<{
+    stairId: string;
+    position: Point3D;
+    connectsToStorey: string;
+    connectsToSpace: string | null;
+    isDescending: boolean;        // true = leads downward (toward exit)
+  }>;
+}
+
+// ============================================================================
+// Geometry Helpers
+// ============================================================================
+
+export function distance2D(a: Point2D, b: Point2D): number {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  return Math.sqrt(dx * dx + dy * dy);
+}
+
+export function normalize2D(dx: number, dy: number): Point2D {
+  const len = Math.sqrt(dx * dx + dy * dy);
+  return len > 0 ? { x: dx / len, y: dy / len } : { x: 0, y: 0 };
+}
+
+export function isPointInPolygon(point: Point2D, polygon: Point2D[]): boolean {
+  let inside = false;
+  const n = polygon.length;
+
+  for (let i = 0, j = n - 1; i < n; j = i++) {
+    const pi = polygon[i]!;
+    const pj = polygon[j]!;
+
+    if (
+      pi.y > point.y !== pj.y > point.y &&
+      point.x < ((pj.x - pi.x) * (point.y - pi.y)) / (pj.y - pi.y) + pi.x
+    ) {
+      inside = !inside;
+    }
+  }
+
+  return inside;
+}
+
+// ============================================================================
+// Door & Space Helpers
+// ============================================================================
+
+export function getDoorPosition(
+  door: BimElement,
+  walls: BimElement[],
+  storeys: StoreyInfo[] = []
+): Point3D | null {
+  if (!door.doorData) return null;
+
+  const hostWall = walls.find(w => w.id === door.doorData?.hostWallId);
+  if (!hostWall?.wallData) return null;
+
+  const { startPoint, endPoint } = hostWall.wallData;
+  const t = door.doorData.positionOnWall;
+
+  // Get storey elevation for correct Z position
+  const storey = storeys.find(s => s.id === hostWall.parentId);
+  const elevation = storey?.elevation ?? hostWall.placement.position.z;
+
+  return {
+    x: startPoint.x + (endPoint.x - startPoint.x) * t,
+    y: startPoint.y + (endPoint.y - startPoint.y) * t,
+    z: elevation,
+  };
+}
+
+export function findConnectedSpaces(
+  door: BimElement,
+  walls: BimElement[],
+  spaces: BimElement[]
+): { space1: string | null; space2: string | null } {
+  const nullResult = { space1: null, space2: null };
+
+  if (!door.doorData) return nullResult;
+
+  const hostWall = walls.find(w => w.id === door.doorData?.hostWallId);
+  if (!hostWall?.wallData) return nullResult;
+
+  const doorPos = getDoorPosition(door, walls);
+  if (!doorPos) return nullResult;
+
+  const { startPoint, endPoint } = hostWall.wallData;
+  const wallDir = normalize2D(endPoint.x - startPoint.x, endPoint.y - startPoint.y);
+  const normal = { x: -wallDir.y, y: wallDir.x };
+
+  const checkDistance = 0.5;
+  const side1 = { x: doorPos.x + normal.x * checkDistance, y: doorPos.y + normal.y * checkDistance };
+  const side2 = { x: doorPos.x - normal.x * checkDistance, y: doorPos.y - normal.y * checkDistance };
+
+  let space1Id: string | null = null;
+  let space2Id: string | null = null;
+
+  for (const space of spaces) {
+    if (!space.spaceData?.boundaryPolygon) continue;
+    if (isPointInPolygon(side1, space.spaceData.boundaryPolygon)) space1Id = space.id;
+    if (isPointInPolygon(side2, space.spaceData.boundaryPolygon)) space2Id = space.id;
+  }
+
+  return { space1: space1Id, space2: space2Id };
+}
+
+export function findExitDoors(
+  doors: BimElement[],
+  walls: BimElement[],
+  spaces: BimElement[],
+  storeys: StoreyInfo[] = []
+): ExitDoor[] {
+  const exits: ExitDoor[] = [];
+
+  for (const door of doors) {
+    if (!door.doorData) continue;
+
+    const isExternal = door.properties
+      .find(p => p.name === 'Pset_DoorCommon')
+      ?.properties?.IsExternal === true;
+
+    const { space1, space2 } = findConnectedSpaces(door, walls, spaces);
+    const isBoundaryDoor = (space1 !== null) !== (space2 !== null);
+
+    if (isExternal || isBoundaryDoor) {
+      const doorPos = getDoorPosition(door, walls, storeys);
+      if (doorPos) {
+        exits.push({ id: door.id, position: doorPos, doorElement: door });
+      }
+    }
+  }
+
+  return exits;
+}
+
+// ============================================================================
+// Room Graph & Pathfinding
+// ============================================================================
+
+/**
+ * Get the head (top) position of a stair based on its foot position and run length
+ */
+function getStairHeadPosition(stair: BimElement): Point3D {
+  if (!stair.stairData) {
+    return { x: stair.placement.position.x, y: stair.placement.position.y, z: stair.placement.position.z };
+  }
+
+  const { steps, rotation, totalRise } = stair.stairData;
+  const runLength = steps.runLength;
+  const footPos = stair.placement.position;
+
+  // Calculate head position based on rotation and run length
+  const cos = Math.cos(rotation);
+  const sin = Math.sin(rotation);
+
+  return {
+    x: footPos.x + runLength * cos,
+    y: footPos.y + runLength * sin,
+    z: footPos.z + totalRise,
+  };
+}
+
+/**
+ * Find which space contains a given point
+ */
+export function findSpaceAtPoint(point: Point2D, spaces: BimElement[]): BimElement | null {
+  for (const space of spaces) {
+    if (!space.spaceData?.boundaryPolygon) continue;
+    if (isPointInPolygon(point, space.spaceData.boundaryPolygon)) {
+      return space;
+    }
+  }
+  return null;
+}
+
+/**
+ * Find stair connections between spaces across storeys
+ */
+export function findStairConnections(
+  stairs: BimElement[],
+  spaces: BimElement[]
+): StairConnection[] {
+  const connections: StairConnection[] = [];
+
+  for (const stair of stairs) {
+    if (!stair.stairData) continue;
+
+    const footPos: Point3D = {
+      x: stair.placement.position.x,
+      y: stair.placement.position.y,
+      z: stair.placement.position.z,
+    };
+    const headPos = getStairHeadPosition(stair);
+
+    // Find spaces at foot and head of stair
+    const bottomSpace = findSpaceAtPoint({ x: footPos.x, y: footPos.y }, spaces);
+    const topSpace = findSpaceAtPoint({ x: headPos.x, y: headPos.y }, spaces);
+
+    connections.push({
+      stairId: stair.id,
+      stairElement: stair,
+      footPosition: footPos,
+      headPosition: headPos,
+      bottomStoreyId: stair.stairData.bottomStoreyId,
+      topStoreyId: stair.stairData.topStoreyId,
+      bottomSpaceId: bottomSpace?.id || null,
+      topSpaceId: topSpace?.id || null,
+    });
+  }
+
+  return connections;
+}
+
+export function buildRoomGraph(
+  spaces: BimElement[],
+  doors: BimElement[],
+  walls: BimElement[],
+  stairs: BimElement[],
+  exitDoors: ExitDoor[],
+  storeys: StoreyInfo[] = []
+): Map<string, RoomNode> {
+  const graph = new Map<string, RoomNode>();
+  const exitDoorIds = new Set(exitDoors.map(e => e.id));
+
+  // Initialize nodes for all spaces with correct storey elevation
+  for (const space of spaces) {
+    const storey = storeys.find(s => s.id === space.parentId);
+    const elevation = storey?.elevation ?? space.placement.position.z;
+
+    graph.set(space.id, {
+      spaceId: space.id,
+      storeyId: space.parentId || '',
+      elevation,
+      doors: [],
+      stairs: [],
+    });
+  }
+
+  // Add door connections
+  for (const door of doors) {
+    if (!door.doorData) continue;
+
+    const doorPos = getDoorPosition(door, walls, storeys);
+    if (!doorPos) continue;
+
+    const { space1, space2 } = findConnectedSpaces(door, walls, spaces);
+    const isExit = exitDoorIds.has(door.id);
+
+    const addDoorToSpace = (spaceId: string | null, connectsTo: string | null) => {
+      if (!spaceId) return;
+      const node = graph.get(spaceId);
+      if (node) {
+        node.doors.push({
+          doorId: door.id,
+          position: doorPos,
+          connectsTo: isExit ? null : connectsTo,
+          isExit,
+        });
+      }
+    };
+
+    addDoorToSpace(space1, space2);
+    if (space2 !== space1) {
+      addDoorToSpace(space2, space1);
+    }
+  }
+
+  // Add stair connections
+  const stairConnections = findStairConnections(stairs, spaces);
+
+  for (const conn of stairConnections) {
+    // Add stair to bottom space (leads up)
+    if (conn.bottomSpaceId) {
+      const bottomNode = graph.get(conn.bottomSpaceId);
+      if (bottomNode) {
+        bottomNode.stairs.push({
+          stairId: conn.stairId,
+          position: conn.footPosition,
+          connectsToStorey: conn.topStoreyId,
+          connectsToSpace: conn.topSpaceId,
+          isDescending: false, // Going up from bottom
+        });
+      }
+    }
+
+    // Add stair to top space (leads down - toward exit)
+    if (conn.topSpaceId) {
+      const topNode = graph.get(conn.topSpaceId);
+      if (topNode) {
+        topNode.stairs.push({
+          stairId: conn.stairId,
+          position: conn.headPosition,
+          connectsToStorey: conn.bottomStoreyId,
+          connectsToSpace: conn.bottomSpaceId,
+          isDescending: true, // Going down toward ground floor
+        });
+      }
+    }
+  }
+
+  return graph;
+}
+
+export function findPathToExit(startSpaceId: string, roomGraph: Map<string, RoomNode>): Waypoint[] {
+  const startNode = roomGraph.get(startSpaceId);
+  if (!startNode) return [];
+
+  // Direct exit check (only on ground floor)
+  for (const door of startNode.doors) {
+    if (door.isExit) {
+      return [{ position: door.position, doorId: door.doorId, isExit: true }];
+    }
+  }
+
+  // BFS for shortest path (considering doors AND stairs)
+  // Priority: descending stairs are preferred (lead toward ground floor exits)
+  const queue: Array<{ spaceId: string; path: Waypoint[]; priority: number }> = [
+    { spaceId: startSpaceId, path: [], priority: 0 }
+  ];
+  const visited = new Set<string>([startSpaceId]);
+
+  while (queue.length > 0) {
+    // Sort by priority (lower = better, descending stairs get priority)
+    queue.sort((a, b) => a.priority - b.priority);
+    const current = queue.shift()!;
+    const currentNode = roomGraph.get(current.spaceId);
+    if (!currentNode) continue;
+
+    // Check doors first
+    for (const door of currentNode.doors) {
+      const waypoint: Waypoint = {
+        position: door.position,
+        doorId: door.doorId,
+        isExit: door.isExit,
+      };
+      const newPath = [...current.path, waypoint];
+
+      if (door.isExit) return newPath;
+
+      if (door.connectsTo && !visited.has(door.connectsTo)) {
+        visited.add(door.connectsTo);
+        queue.push({ spaceId: door.connectsTo, path: newPath, priority: current.priority });
+      }
+    }
+
+    // Check stairs (for multi-storey evacuation)
+    for (const stair of currentNode.stairs) {
+      // Only use descending stairs for evacuation (toward ground floor)
+      if (!stair.isDescending) continue;
+
+      const waypoint: Waypoint = {
+        position: stair.position,
+        doorId: stair.stairId,
+        isExit: false,
+        isStair: true,
+        targetStoreyId: stair.connectsToStorey,
+      };
+      const newPath = [...current.path, waypoint];
+
+      // Stair connects to another space on a different storey
+      if (stair.connectsToSpace && !visited.has(stair.connectsToSpace)) {
+        visited.add(stair.connectsToSpace);
+        // Give descending stairs priority (lower number = higher priority)
+        queue.push({
+          spaceId: stair.connectsToSpace,
+          path: newPath,
+          priority: current.priority - 1  // Prefer descending
+        });
+      }
+    }
+  }
+
+  return [];
+}
+
+// ============================================================================
+// Wall Segments
+// ============================================================================
+
+export function createWallSegments(walls: BimElement[], doors: BimElement[]): WallSegment[] {
+  const segments: WallSegment[] = [];
+
+  for (const wall of walls) {
+    if (!wall.wallData) continue;
+
+    const { startPoint, endPoint } = wall.wallData;
+    const doorsOnWall = doors.filter(d => d.doorData?.hostWallId === wall.id);
+
+    if (doorsOnWall.length === 0) {
+      segments.push({ start: { x: startPoint.x, y: startPoint.y }, end: { x: endPoint.x, y: endPoint.y } });
+      continue;
+    }
+
+    const wallLength = distance2D(startPoint, endPoint);
+    const wallDx = endPoint.x - startPoint.x;
+    const wallDy = endPoint.y - startPoint.y;
+
+    const gaps = createDoorGaps(doorsOnWall, wallLength);
+    addSegmentsBetweenGaps(segments, startPoint, wallDx, wallDy, gaps, endPoint);
+  }
+
+  return segments;
+}
+
+function createDoorGaps(doors: BimElement[], wallLength: number): Array<{ start: number; end: number }> {
+  const sortedDoors = doors
+    .filter(d => d.doorData)
+    .map(d => {
+      const pos = d.doorData!.positionOnWall;
+      const halfWidth = (d.doorData!.width / 2 + DOOR_GAP_MARGIN) / wallLength;
+      return {
+        startFraction: Math.max(0, pos - halfWidth),
+        endFraction: Math.min(1, pos + halfWidth),
+      };
+    })
+    .sort((a, b) => a.startFraction - b.startFraction);
+
+  // Merge overlapping gaps
+  const mergedGaps: Array<{ start: number; end: number }> = [];
+  for (const gap of sortedDoors) {
+    const last = mergedGaps[mergedGaps.length - 1];
+    if (!last || gap.startFraction > last.end) {
+      mergedGaps.push({ start: gap.startFraction, end: gap.endFraction });
+    } else {
+      last.end = Math.max(last.end, gap.endFraction);
+    }
+  }
+
+  return mergedGaps;
+}
+
+function addSegmentsBetweenGaps(
+  segments: WallSegment[],
+  startPoint: Point2D,
+  wallDx: number,
+  wallDy: number,
+  gaps: Array<{ start: number; end: number }>,
+  endPoint: Point2D
+): void {
+  let currentPos = 0;
+
+  for (const gap of gaps) {
+    if (gap.start > currentPos) {
+      segments.push({
+        start: { x: startPoint.x + wallDx * currentPos, y: startPoint.y + wallDy * currentPos },
+        end: { x: startPoint.x + wallDx * gap.start, y: startPoint.y + wallDy * gap.start },
+      });
+    }
+    currentPos = gap.end;
+  }
+
+  if (currentPos < 1) {
+    segments.push({
+      start: { x: startPoint.x + wallDx * currentPos, y: startPoint.y + wallDy * currentPos },
+      end: { x: endPoint.x, y: endPoint.y },
+    });
+  }
+}
+
+export function createSegmentsFromCounters(counters: BimElement[], segments: WallSegment[]): void {
+  for (const counter of counters) {
+    if (!counter.counterData?.path || counter.counterData.path.length < 2) continue;
+
+    const path = counter.counterData.path;
+    const depth = counter.counterData.depth || 0.6;
+
+    for (let i = 0; i < path.length - 1; i++) {
+      const p1 = path[i]!;
+      const p2 = path[i + 1]!;
+
+      // Front line
+      segments.push({ start: { x: p1.x, y: p1.y }, end: { x: p2.x, y: p2.y } });
+
+      // Back line (offset by depth)
+      const dir = normalize2D(p2.x - p1.x, p2.y - p1.y);
+      const normal = { x: -dir.y, y: dir.x };
+
+      segments.push({
+        start: { x: p1.x + normal.x * depth, y: p1.y + normal.y * depth },
+        end: { x: p2.x + normal.x * depth, y: p2.y + normal.y * depth },
+      });
+    }
+  }
+}
+
+// ============================================================================
+// Evacuation Route Calculation
+// ============================================================================
+
+/**
+ * Find the polygon vertex that is farthest from the nearest exit point.
+ * This is where the first person should spawn (worst-case evacuation scenario).
+ */
+export function findFarthestCorner(polygon: Point2D[], exitPoints: Point2D[]): Point2D {
+  if (polygon.length === 0) return { x: 0, y: 0 };
+  if (exitPoints.length === 0) return polygon[0]!;
+
+  let farthestCorner = polygon[0]!;
+  let maxMinDistance = 0;
+
+  for (const vertex of polygon) {
+    // Find the minimum distance from this vertex to any exit point
+    const minDistToExit = Math.min(
+      ...exitPoints.map(exit => distance2D(vertex, exit))
+    );
+
+    // Keep track of the vertex with the maximum "minimum distance to exit"
+    if (minDistToExit > maxMinDistance) {
+      maxMinDistance = minDistToExit;
+      farthestCorner = vertex;
+    }
+  }
+
+  return farthestCorner;
+}
+
+/**
+ * Calculate evacuation routes for all spaces using visibility graph pathfinding.
+ * Each route goes from the farthest corner to the exit, avoiding columns with 45cm offset.
+ */
+export function calculateAllEvacuationRoutes(
+  spaces: BimElement[],
+  roomGraph: Map<string, RoomNode>,
+  columns: BimElement[],
+  wallSegments: WallSegment[]
+): Map<string, EvacuationRoute> {
+  const routes = new Map<string, EvacuationRoute>();
+
+  // Convert columns to visibility graph format
+  const vgColumns: VGCircleObstacle[] = columns
+    .filter(col => col.columnData)
+    .map(col => ({
+      id: col.id,
+      position: { x: col.placement.position.x, y: col.placement.position.y },
+      radius: Math.max(col.columnData!.width, col.columnData!.depth) / 2,
+    }));
+
+  // Convert wall segments to visibility graph format
+  const vgWalls: VGWallSegment[] = wallSegments.map(seg => ({
+    start: seg.start,
+    end: seg.end,
+  }));
+
+  for (const space of spaces) {
+    if (!space.spaceData?.boundaryPolygon) continue;
+
+    // Get path to exit for this space
+    const pathToExit = findPathToExit(space.id, roomGraph);
+    if (pathToExit.length === 0) continue;
+
+    // Get exit points (waypoints on the path)
+    const exitPoints = pathToExit.map(wp => ({
+      x: wp.position.x,
+      y: wp.position.y
+    }));
+
+    // Find farthest corner from exits
+    const farthestCorner = findFarthestCorner(space.spaceData.boundaryPolygon, exitPoints);
+
+    // First waypoint is the first door/stair to reach
+    const firstWaypoint = pathToExit[0];
+    if (!firstWaypoint) continue;
+
+    const firstTarget = { x: firstWaypoint.position.x, y: firstWaypoint.position.y };
+
+    // Calculate path from farthest corner to first waypoint, avoiding columns
+    const pathInRoom = calculateEvacuationPath(farthestCorner, firstTarget, vgColumns, vgWalls);
+
+    // Build complete path: path in room + remaining waypoints
+    const completePath: Point2D[] = [
+      ...pathInRoom,
+      ...pathToExit.slice(1).map(wp => ({ x: wp.position.x, y: wp.position.y }))
+    ];
+
+    // Remove duplicate consecutive points
+    const cleanedPath = completePath.filter((p, i) => {
+      if (i === 0) return true;
+      const prev = completePath[i - 1]!;
+      return distance2D(p, prev) > 0.01;
+    });
+
+    const totalDistance = calculatePathLength(cleanedPath);
+    const lastWaypoint = pathToExit[pathToExit.length - 1];
+
+    routes.set(space.id, {
+      spaceId: space.id,
+      spaceName: space.name || `Raum ${space.id.slice(0, 8)}`,
+      storeyId: space.parentId || '',
+      farthestCorner,
+      pathPoints: cleanedPath,
+      totalDistance,
+      exitDoorId: lastWaypoint?.doorId || '',
+    });
+  }
+
+  return routes;
+}
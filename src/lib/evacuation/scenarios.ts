@@ -0,0 +1,113 @@
+/**
+ * Evacuation Scenarios (Szenarien)
+ *
+ * Variations of the egress situation that run against the same model:
+ * blocked exits or doors, a fire origin that makes its space impassable
+ * after a delay, and the pre-movement (reaction) time of the occupants.
+ * Scenarios are stored with the project (see useProjectStore).
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import type { RandomSource } from './simulation';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Distribution of the pre-movement time (alarm until the person starts walking)
+ */
+export type PreMovementDistribution =
+  | { type: 'none' }
+  | { type: 'uniform'; min: number; max: number }
+  | { type: 'normal'; mean: number; stdDev: number }
+  | { type: 'lognormal'; mean: number; stdDev: number };
+
+export type PreMovementType = PreMovementDistribution['type'];
+
+export interface FireOrigin {
+  spaceId: string;
+  /** Time after the alarm until the space is impassable (s) */
+  delay: number;
+}
+
+export interface EvacuationScenario {
+  id: string;
+  name: string;
+  /** Doors that cannot be used (exits and interior doors) */
+  blockedDoorIds: string[];
+  fireOrigin: FireOrigin | null;
+  preMovement: PreMovementDistribution;
+}
+
+// ============================================================================
+// Defaults
+// ============================================================================
+
+export const PRE_MOVEMENT_TYPES: PreMovementType[] = ['none', 'uniform', 'normal', 'lognormal'];
+
+/** Default delay until the fire space becomes impassable (s) */
+export const DEFAULT_FIRE_DELAY = 60;
+
+/**
+ * Distribution with typical parameters for a guest room with alarm system
+ */
+export function getDefaultPreMovement(type: PreMovementType): PreMovementDistribution {
+  switch (type) {
+    case 'uniform':
+      return { type, min: 10, max: 60 };
+    case 'normal':
+      return { type, mean: 30, stdDev: 10 };
+    case 'lognormal':
+      return { type, mean: 30, stdDev: 20 };
+    default:
+      return { type: 'none' };
+  }
+}
+
+export function createEvacuationScenario(name: string): EvacuationScenario {
+  return {
+    id: uuidv4(),
+    name,
+    blockedDoorIds: [],
+    fireOrigin: null,
+    preMovement: { type: 'none' },
+  };
+}
+
+// ============================================================================
+// Sampling
+// ============================================================================
+
+/**
+ * Standard normal sample (Box-Muller)
+ */
+function sampleStandardNormal(random: RandomSource): number {
+  const u = 1 - random(); // (0, 1], avoids log(0)
+  const v = random();
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+}
+
+/**
+ * Pre-movement time of one person (s, never negative)
+ */
+export function samplePreMovementTime(distribution: PreMovementDistribution, random: RandomSource): number {
+  switch (distribution.type) {
+    case 'uniform': {
+      const min = Math.max(0, Math.min(distribution.min, distribution.max));
+      const max = Math.max(distribution.min, distribution.max);
+      return min + random() * (max - min);
+    }
+    case 'normal':
+      return Math.max(0, distribution.mean + distribution.stdDev * sampleStandardNormal(random));
+    case 'lognormal': {
+      // Parameters of the underlying normal distribution from mean and standard deviation
+      if (distribution.mean <= 0) return 0;
+      const variance = Math.log(1 + (distribution.stdDev / distribution.mean) ** 2);
+      const mu = Math.log(distribution.mean) - variance / 2;
+      return Math.exp(mu + Math.sqrt(variance) * sampleStandardNormal(random));
+    }
+    default:
+      return 0;
+  }
+}
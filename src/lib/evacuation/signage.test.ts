@@ -0,0 +1,146 @@
+import { describe, expect, it } from 'vitest';
+import type { BimElement, StoreyInfo } from '@/types/bim';
+import { createWall } from '@/bim/elements/Wall';
+import { createDoor } from '@/bim/elements/Door';
+import { createSpaceFromPolygon } from '@/bim/elements/Space';
+import { createSignage } from '@/bim/elements/Signage';
+import { checkSignageVisibility, planSignage } from './signage';
+
+const storey: StoreyInfo = { id: 'eg', name: 'EG', buildingId: 'b', elevation: 0, height: 3 };
+
+/**
+ * Guest room of width × 4 m with the exit door in the middle of the south
+ * wall. The space boundary lies 10 cm inside the wall lines like detected
+ * spaces, so the farthest corner is not on a wall.
+ */
+function createModel(width: number, withDoor = true): { elements: BimElement[]; door: BimElement } {
+  const space = createSpaceFromPolygon({
+    name: 'Gastraum',
+    boundaryPolygon: [
+      { x: 0.1, y: 0.1 },
+      { x: width - 0.1, y: 0.1 },
+      { x: width - 0.1, y: 3.9 },
+      { x: 0.1, y: 3.9 },
+    ],
+    storeyId: storey.id,
+    gastroCategory: 'GASTRAUM',
+  });
+  const walls = [
+    createWall({ startPoint: { x: 0, y: 0 }, endPoint: { x: width, y: 0 }, storeyId: storey.id }),
+    createWall({
+      startPoint: { x: width, y: 0 },
+      endPoint: { x: width, y: 4 },
+      storeyId: storey.id,
+    }),
+    createWall({ startPoint: { x: width, y: 4 }, endPoint: { x: 0, y: 4 }, storeyId: storey.id }),
+    createWall({ startPoint: { x: 0, y: 4 }, endPoint: { x: 0, y: 0 }, storeyId: storey.id }),
+  ];
+  const door = createDoor({
+    hostWallId: walls[0]!.id,
+    positionOnWall: 0.5,
+    wallLength: width,
+    storeyId: storey.id,
+  });
+  return { elements: withDoor ? [space, ...walls, door] : [space, ...walls], door };
+}
+
+describe('planSignage', () => {
+  it('places an exit sign and a luminaire at the exit door', () => {
+    const { elements, door } = createModel(4);
+
+    const plan = planSignage(elements, [storey]);
+
+    expect(plan?.proposals).toMatchObject([
+      {
+        kind: 'exitSign',
+        reason: 'exit',
+        arrow: 'none',
+        position: { x: 2, y: 0 },
+        hostDoorId: door.id,
+      },
+      { kind: 'emergencyLight', reason: 'exit', arrow: 'none', position: { x: 2, y: 0 } },
+    ]);
+    expect(plan?.visibility.gaps).toEqual([]);
+  });
+
+  it('adds a luminaire where the route leaves the range of the exit luminaire', () => {
+    // The far corner is 7.1 m from the exit, luminaires cover 5 m and exit signs 20 m
+    const plan = planSignage(createModel(12).elements, [storey]);
+
+    expect(plan?.proposals.filter((p) => p.reason === 'visibility')).toMatchObject([
+      { kind: 'emergencyLight', position: { x: 11.9, y: 3.9 } },
+    ]);
+    expect(plan?.visibility.gaps).toEqual([]);
+  });
+
+  it('keeps a manually placed exit sign and replaces auto-placed ones', () => {
+    const { elements, door } = createModel(4);
+    const sign = {
+      kind: 'exitSign' as const,
+      position: { x: 2, y: 0.1 },
+      storeyId: storey.id,
+      hostDoorId: door.id,
+    };
+
+    const withManual = planSignage([...elements, createSignage(sign)], [storey]);
+    const withAuto = planSignage(
+      [...elements, createSignage({ ...sign, autoPlaced: true })],
+      [storey]
+    );
+
+    expect(withManual?.proposals.map((p) => p.kind)).toEqual(['emergencyLight']);
+    expect(withAuto?.proposals.map((p) => p.kind)).toEqual(['exitSign', 'emergencyLight']);
+  });
+
+  it('proposes only the requested kinds', () => {
+    const plan = planSignage(createModel(12).elements, [storey], { kinds: ['exitSign'] });
+
+    expect(plan?.proposals.map((p) => p.kind)).toEqual(['exitSign']);
+    expect(plan?.visibility.covered.emergencyLight).toBe(0);
+  });
+
+  it('returns null without an exit', () => {
+    expect(planSignage(createModel(4, false).elements, [storey])).toBeNull();
+  });
+});
+
+describe('checkSignageVisibility', () => {
+  it('reports every route point as gap without signage', () => {
+    const visibility = checkSignageVisibility(createModel(4).elements, [storey]);
+
+    expect(visibility?.samples).toBeGreaterThan(0);
+    expect(visibility?.covered).toEqual({ exitSign: 0, emergencyLight: 0 });
+    expect(visibility?.gaps).toHaveLength(2 * visibility!.samples);
+    expect(visibility?.gaps[0]).toMatchObject({ storeyId: 'eg', spaceName: 'Gastraum' });
+  });
+
+  it('does not count a sign behind a wall', () => {
+    const { elements } = createModel(4);
+    const sign = (y: number) =>
+      createSignage({ kind: 'exitSign', position: { x: 2, y }, storeyId: storey.id });
+
+    const behindWall = checkSignageVisibility([...elements, sign(5)], [storey]);
+    const inRoom = checkSignageVisibility([...elements, sign(3)], [storey]);
+
+    expect(behindWall?.covered.exitSign).toBe(0);
+    expect(inRoom?.covered.exitSign).toBe(inRoom?.samples);
+  });
+
+  it('covers only route points within the luminaire range', () => {
+    const { elements } = createModel(12);
+    const light = createSignage({
+      kind: 'emergencyLight',
+      position: { x: 6, y: 0.5 },
+      storeyId: storey.id,
+    });
+
+    const visibility = checkSignageVisibility([...elements, light], [storey])!;
+    const lightGaps = visibility.gaps.filter((gap) => gap.kind === 'emergencyLight');
+
+    expect(lightGaps.length).toBeGreaterThan(0);
+    expect(lightGaps.every((gap) => Math.hypot(gap.position.x - 6, gap.position.y - 0.5) > 5)).toBe(
+      true
+    );
+    expect(visibility.covered.emergencyLight + lightGaps.length).toBe(visibility.samples);
+  });
+});
@@ -0,0 +1,400 @@
+/**
+ * Escape Route Signage Planner
+ *
+ * Proposes exit signs and emergency luminaires along the computed evacuation
+ * routes (exit doors, doors on the route, stair heads and changes of
+ * direction) and checks that every route point sees a sign and lies within
+ * the coverage of a luminaire, with walls blocking the line of sight.
+ * Pure functions without store access.
+ */
+
+import type { BimElement, StoreyInfo, SignageArrow, SignageKind } from '@/types/bim';
+import {
+  DEFAULT_EXIT_SIGN_RANGE,
+  DEFAULT_EMERGENCY_LIGHT_RANGE,
+} from '@/types/bim';
+import { isVisible } from '@/lib/geometry/visibilityGraph';
+import {
+  findExitDoors,
+  buildRoomGraph,
+  createWallSegments,
+  createSegmentsFromCounters,
+  calculateAllEvacuationRoutes,
+  findStairConnections,
+  getDoorPosition,
+  distance2D,
+  type EvacuationRoute,
+  type Point2D,
+  type WallSegment,
+} from './routes';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export const SIGNAGE_KINDS: SignageKind[] = ['exitSign', 'emergencyLight'];
+
+/**
+ * Why the planner placed a sign or luminaire
+ */
+export type SignageReason = 'exit' | 'door' | 'stair' | 'turn' | 'visibility';
+
+export interface SignageProposal {
+  kind: SignageKind;
+  reason: SignageReason;
+  position: Point2D;
+  storeyId: string;
+  arrow: SignageArrow;
+  /** Walking direction at the sign (radians) */
+  rotation: number;
+  hostDoorId?: string;
+}
+
+/**
+ * Sign or luminaire as seen by the visibility check
+ */
+export interface SignagePoint {
+  kind: SignageKind;
+  position: Point2D;
+  storeyId: string;
+  range: number;
+}
+
+/**
+ * Route point without a visible sign or outside every luminaire
+ */
+export interface VisibilityGap {
+  kind: SignageKind;
+  position: Point2D;
+  storeyId: string;
+  spaceId: string;
+  spaceName: string;
+}
+
+export interface SignageVisibility {
+  /** Number of sampled route points */
+  samples: number;
+  /** Covered route points per kind */
+  covered: Record<SignageKind, number>;
+  gaps: VisibilityGap[];
+}
+
+export interface SignagePlan {
+  proposals: SignageProposal[];
+  /** Visibility with the kept signage plus the proposals */
+  visibility: SignageVisibility;
+}
+
+export interface SignagePlanOptions {
+  kinds?: SignageKind[];
+  /** Change of direction that counts as a decision point (radians) */
+  decisionAngle?: number;
+  /** Minimum distance between two elements of the same kind (m) */
+  minSpacing?: number;
+  /** Distance between sampled route points (m) */
+  sampleInterval?: number;
+}
+
+/** 30° turn = decision point */
+const DEFAULT_DECISION_ANGLE = Math.PI / 6;
+const DEFAULT_MIN_SPACING = 1;
+const DEFAULT_SAMPLE_INTERVAL = 1;
+/** Tolerance for matching route points to doors and stairs */
+const POINT_TOLERANCE = 0.05;
+
+/**
+ * Part of a route on one storey
+ */
+interface RouteLeg {
+  route: EvacuationRoute;
+  storeyId: string;
+  points: Point2D[];
+}
+
+/**
+ * Special route points (doors and descending stairs)
+ */
+interface RouteMarker {
+  position: Point2D;
+  doorId?: string;
+  isExit?: boolean;
+  isStair?: boolean;
+}
+
+interface SignageContext {
+  legs: RouteLeg[];
+  markers: RouteMarker[];
+  /** Wall segments with door gaps per storey */
+  wallsByStorey: Map<string, WallSegment[]>;
+}
+
+// ============================================================================
+// Route Context
+// ============================================================================
+
+function buildSignageContext(elements: BimElement[], storeys: StoreyInfo[]): SignageContext | null {
+  const spaces = elements.filter((e) => e.type === 'space' && e.spaceData);
+  const doors = elements.filter((e) => e.type === 'door' && e.doorData);
+  const walls = elements.filter((e) => e.type === 'wall');
+  const columns = elements.filter((e) => e.type === 'column');
+  const counters = elements.filter((e) => e.type === 'counter');
+  const stairs = elements.filter((e) => e.type === 'stair');
+
+  const exitDoors = findExitDoors(doors, walls, spaces, storeys);
+  if (spaces.length === 0 || exitDoors.length === 0) return null;
+
+  const roomGraph = buildRoomGraph(spaces, doors, walls, stairs, exitDoors, storeys);
+  const routeSegments = createWallSegments(walls, doors);
+  createSegmentsFromCounters(counters, routeSegments);
+  const routes = calculateAllEvacuationRoutes(spaces, roomGraph, columns, routeSegments);
+
+  const exitDoorIds = new Set(exitDoors.map((exit) => exit.id));
+  const markers: RouteMarker[] = [];
+  for (const door of doors) {
+    const position = getDoorPosition(door, walls, storeys);
+    if (position) markers.push({ position, doorId: door.id, isExit: exitDoorIds.has(door.id) });
+  }
+  for (const connection of findStairConnections(stairs, spaces)) {
+    markers.push({ position: connection.headPosition, isStair: true });
+  }
+
+  // Routes continue on the storey below after a stair. That part is covered
+  // by the routes of the spaces down there, so each leg ends at the stair head.
+  const legs: RouteLeg[] = [];
+  for (const route of routes.values()) {
+    const stairIndex = route.pathPoints.findIndex((point) => findMarker(markers, point)?.isStair);
+    const points = stairIndex >= 0 ? route.pathPoints.slice(0, stairIndex + 1) : route.pathPoints;
+    if (points.length >= 2) legs.push({ route, storeyId: route.storeyId, points });
+  }
+
+  // Sight lines are blocked by walls only (counters and furniture are below sign height)
+  const wallsByStorey = new Map<string, WallSegment[]>();
+  for (const storey of storeys) {
+    const storeyWalls = walls.filter((wall) => wall.parentId === storey.id);
+    wallsByStorey.set(storey.id, createWallSegments(storeyWalls, doors));
+  }
+
+  return { legs, markers, wallsByStorey };
+}
+
+function findMarker(markers: RouteMarker[], point: Point2D): RouteMarker | undefined {
+  return markers.find((marker) => distance2D(marker.position, point) < POINT_TOLERANCE);
+}
+
+function heading(from: Point2D, to: Point2D): number {
+  return Math.atan2(to.y - from.y, to.x - from.x);
+}
+
+/**
+ * Signed angle between two headings in (-π, π], positive = left turn
+ */
+function turnAngle(from: number, to: number): number {
+  let angle = to - from;
+  while (angle <= -Math.PI) angle += 2 * Math.PI;
+  while (angle > Math.PI) angle -= 2 * Math.PI;
+  return angle;
+}
+
+/**
+ * Points along a leg at the sample interval (including both ends)
+ */
+function sampleLeg(points: Point2D[], interval: number): Array<{ position: Point2D; rotation: number }> {
+  const samples: Array<{ position: Point2D; rotation: number }> = [];
+
+  for (let i = 1; i < points.length; i++) {
+    const start = points[i - 1]!;
+    const end = points[i]!;
+    const length = distance2D(start, end);
+    const rotation = heading(start, end);
+    const steps = Math.max(1, Math.ceil(length / interval));
+    for (let step = i === 1 ? 0 : 1; step <= steps; step++) {
+      const t = step / steps;
+      samples.push({
+        position: { x: start.x + (end.x - start.x) * t, y: start.y + (end.y - start.y) * t },
+        rotation,
+      });
+    }
+  }
+
+  return samples;
+}
+
+function isCovered(
+  position: Point2D,
+  storeyId: string,
+  kind: SignageKind,
+  points: SignagePoint[],
+  walls: WallSegment[]
+): boolean {
+  return points.some(
+    (point) =>
+      point.kind === kind &&
+      point.storeyId === storeyId &&
+      distance2D(point.position, position) <= point.range &&
+      isVisible(position, point.position, [], walls)
+  );
+}
+
+// ============================================================================
+// Visibility Check
+// ============================================================================
+
+/**
+ * Signage elements of the model as visibility check input
+ */
+export function getSignagePoints(elements: BimElement[]): SignagePoint[] {
+  return elements
+    .filter((e) => e.type === 'signage' && e.signageData)
+    .map((e) => ({
+      kind: e.signageData!.kind,
+      position: { x: e.placement.position.x, y: e.placement.position.y },
+      storeyId: e.parentId ?? '',
+      range: e.signageData!.range,
+    }));
+}
+
+function checkVisibility(
+  context: SignageContext,
+  points: SignagePoint[],
+  sampleInterval: number
+): SignageVisibility {
+  const visibility: SignageVisibility = { samples: 0, covered: { exitSign: 0, emergencyLight: 0 }, gaps: [] };
+
+  for (const leg of context.legs) {
+    const walls = context.wallsByStorey.get(leg.storeyId) ?? [];
+    for (const sample of sampleLeg(leg.points, sampleInterval)) {
+      visibility.samples++;
+      for (const kind of SIGNAGE_KINDS) {
+        if (isCovered(sample.position, leg.storeyId, kind, points, walls)) {
+          visibility.covered[kind]++;
+        } else {
+          visibility.gaps.push({
+            kind,
+            position: sample.position,
+            storeyId: leg.storeyId,
+            spaceId: leg.route.spaceId,
+            spaceName: leg.route.spaceName,
+          });
+        }
+      }
+    }
+  }
+
+  return visibility;
+}
+
+/**
+ * Check the signage of the model against the evacuation routes
+ *
+ * @returns null if the model has no exit (no routes to check)
+ */
+export function checkSignageVisibility(
+  elements: BimElement[],
+  storeys: StoreyInfo[],
+  sampleInterval = DEFAULT_SAMPLE_INTERVAL
+): SignageVisibility | null {
+  const context = buildSignageContext(elements, storeys);
+  if (!context) return null;
+  return checkVisibility(context, getSignagePoints(elements), sampleInterval);
+}
+
+// ============================================================================
+// Auto-Placement
+// ============================================================================
+
+/**
+ * Propose signage along the evacuation routes
+ *
+ * Manually placed signage is kept and counts towards coverage, automatically
+ * placed signage is ignored (the proposals replace it).
+ *
+ * @returns null if the model has no exit
+ */
+export function planSignage(
+  elements: BimElement[],
+  storeys: StoreyInfo[],
+  options: SignagePlanOptions = {}
+): SignagePlan | null {
+  const {
+    kinds = SIGNAGE_KINDS,
+    decisionAngle = DEFAULT_DECISION_ANGLE,
+    minSpacing = DEFAULT_MIN_SPACING,
+    sampleInterval = DEFAULT_SAMPLE_INTERVAL,
+  } = options;
+
+  const context = buildSignageContext(elements, storeys);
+  if (!context) return null;
+
+  const kept = elements.filter((e) => e.type === 'signage' && !e.signageData?.autoPlaced);
+  const points = getSignagePoints(kept);
+  const hostDoorIds = new Set(kept.map((e) => e.signageData?.hostDoorId).filter(Boolean));
+  const proposals: SignageProposal[] = [];
+
+  const propose = (proposal: SignageProposal) => {
+    if (!kinds.includes(proposal.kind)) return;
+    if (proposal.kind === 'exitSign' && proposal.hostDoorId && hostDoorIds.has(proposal.hostDoorId)) return;
+    const tooClose = points.some(
+      (point) =>
+        point.kind === proposal.kind &&
+        point.storeyId === proposal.storeyId &&
+        distance2D(point.position, proposal.position) < minSpacing
+    );
+    if (tooClose) return;
+
+    proposals.push(proposal);
+    points.push({
+      kind: proposal.kind,
+      position: proposal.position,
+      storeyId: proposal.storeyId,
+      range: proposal.kind === 'exitSign' ? DEFAULT_EXIT_SIGN_RANGE : DEFAULT_EMERGENCY_LIGHT_RANGE,
+    });
+    if (proposal.kind === 'exitSign' && proposal.hostDoorId) hostDoorIds.add(proposal.hostDoorId);
+  };
+
+  // 1. Exit doors, doors on the route, stair heads and changes of direction
+  for (const { storeyId, points: legPoints } of context.legs) {
+    for (let i = 0; i < legPoints.length; i++) {
+      const position = legPoints[i]!;
+      const previous = legPoints[i - 1];
+      const next = legPoints[i + 1];
+      // The first point is the farthest corner, or the first door if the room path is trivial
+      const rotation = previous ? heading(previous, position) : next ? heading(position, next) : 0;
+      const turn = previous && next ? turnAngle(rotation, heading(position, next)) : 0;
+      const marker = findMarker(context.markers, position);
+
+      if (marker?.isExit) {
+        propose({ kind: 'exitSign', reason: 'exit', position, storeyId, arrow: 'none', rotation, hostDoorId: marker.doorId });
+        propose({ kind: 'emergencyLight', reason: 'exit', position, storeyId, arrow: 'none', rotation });
+      } else if (marker?.isStair) {
+        propose({ kind: 'exitSign', reason: 'stair', position, storeyId, arrow: 'down', rotation });
+        propose({ kind: 'emergencyLight', reason: 'stair', position, storeyId, arrow: 'none', rotation });
+      } else if (marker?.doorId) {
+        propose({ kind: 'exitSign', reason: 'door', position, storeyId, arrow: 'straight', rotation, hostDoorId: marker.doorId });
+      } else if (Math.abs(turn) > decisionAngle) {
+        const arrow = turn > 0 ? 'left' : 'right';
+        propose({ kind: 'exitSign', reason: 'turn', position, storeyId, arrow, rotation });
+        propose({ kind: 'emergencyLight', reason: 'turn', position, storeyId, arrow: 'none', rotation });
+      }
+    }
+  }
+
+  // 2. Fill visibility gaps in walking order: the new element covers the following points
+  for (const leg of context.legs) {
+    const walls = context.wallsByStorey.get(leg.storeyId) ?? [];
+    for (const sample of sampleLeg(leg.points, sampleInterval)) {
+      for (const kind of kinds) {
+        if (isCovered(sample.position, leg.storeyId, kind, points, walls)) continue;
+        propose({
+          kind,
+          reason: 'visibility',
+          position: sample.position,
+          storeyId: leg.storeyId,
+          arrow: kind === 'exitSign' ? 'straight' : 'none',
+          rotation: sample.rotation,
+        });
+      }
+    }
+  }
+
+  return { proposals, visibility: checkVisibility(context, points, sampleInterval) };
+}
@@ -0,0 +1,114 @@
+import { describe, expect, it } from 'vitest';
+import type { BimElement, StoreyInfo } from '@/types/bim';
+import { createWall } from '@/bim/elements/Wall';
+import { createDoor } from '@/bim/elements/Door';
+import { createSpaceFromPolygon } from '@/bim/elements/Space';
+import {
+  createSeededRandom,
+  getSimulationModel,
+  runSimulation,
+  type SimulationOptions,
+} from './simulation';
+import type { EvacuationResults } from './results';
+
+const storey: StoreyInfo = { id: 'eg', name: 'EG', buildingId: 'b', elevation: 0, height: 3 };
+
+/**
+ * 4 × 4 m guest room (16 persons) with one exit door in the south wall
+ */
+function createModel() {
+  const space = createSpaceFromPolygon({
+    name: 'Gastraum',
+    boundaryPolygon: [
+      { x: 0, y: 0 },
+      { x: 4, y: 0 },
+      { x: 4, y: 4 },
+      { x: 0, y: 4 },
+    ],
+    storeyId: storey.id,
+    gastroCategory: 'GASTRAUM',
+  });
+  const walls = [
+    createWall({ startPoint: { x: 0, y: 0 }, endPoint: { x: 4, y: 0 }, storeyId: storey.id }),
+    createWall({ startPoint: { x: 4, y: 0 }, endPoint: { x: 4, y: 4 }, storeyId: storey.id }),
+    createWall({ startPoint: { x: 4, y: 4 }, endPoint: { x: 0, y: 4 }, storeyId: storey.id }),
+    createWall({ startPoint: { x: 0, y: 4 }, endPoint: { x: 0, y: 0 }, storeyId: storey.id }),
+  ];
+  const door = createDoor({
+    hostWallId: walls[0]!.id,
+    positionOnWall: 0.5,
+    wallLength: 4,
+    storeyId: storey.id,
+  });
+  const elements: BimElement[] = [space, ...walls, door];
+  return getSimulationModel(elements, [storey]);
+}
+
+const options: SimulationOptions = { agentSpeed: 1.5, seed: 42 };
+
+function withoutStartTime(results: EvacuationResults | null) {
+  if (!results) return null;
+  const { startedAt: _startedAt, ...rest } = results;
+  return rest;
+}
+
+describe('createSeededRandom', () => {
+  it('repeats the sequence for the same seed', () => {
+    const a = createSeededRandom(7);
+    const b = createSeededRandom(7);
+    const values = Array.from({ length: 5 }, () => a());
+
+    expect(Array.from({ length: 5 }, () => b())).toEqual(values);
+    expect(values.every((value) => value >= 0 && value < 1)).toBe(true);
+  });
+});
+
+describe('runSimulation', () => {
+  it('yields identical results for the same seed', () => {
+    const model = createModel();
+
+    const first = runSimulation(model, options);
+    const second = runSimulation(model, options);
+
+    expect(first).not.toBeNull();
+    expect(withoutStartTime(second)).toEqual(withoutStartTime(first));
+  });
+
+  it('yields different results for different seeds', () => {
+    const model = createModel();
+
+    const first = runSimulation(model, options);
+    const second = runSimulation(model, { ...options, seed: 43 });
+
+    expect(second?.seed).toBe(43);
+    expect(withoutStartTime(second)).not.toEqual(withoutStartTime(first));
+  });
+
+  it('evacuates everyone through the exit within the recorded duration', () => {
+    const model = createModel();
+    const doorId = model.doors[0]!.id;
+
+    const results = runSimulation(model, options)!;
+
+    expect(results.agents).toHaveLength(16);
+    for (const agent of results.agents) {
+      expect(agent.exitDoorId).toBe(doorId);
+      expect(agent.exitTime).toBeGreaterThanOrEqual(agent.preMovementTime);
+      expect(agent.exitTime).toBeLessThanOrEqual(results.duration);
+    }
+  });
+
+  it('stops at the time limit', () => {
+    const results = runSimulation(createModel(), options, 1)!;
+
+    expect(results.duration).toBeGreaterThanOrEqual(1);
+    expect(results.duration).toBeLessThan(1 + 1 / 30);
+    expect(results.agents.some((agent) => agent.exitTime === null)).toBe(true);
+  });
+
+  it('returns null without exits', () => {
+    const model = createModel();
+
+    expect(runSimulation({ ...model, doors: [] }, options)).toBeNull();
+  });
+});
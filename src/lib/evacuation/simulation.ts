@@ -0,0 +1,1259 @@
+/**
+ * Evacuation Simulation Core
+ *
+ * Agent-based evacuation simulation independent of React and the store.
+ * Uses Yuka's FollowPathBehavior for pathfinding and SeparationBehavior for
+ * realistic crowd queuing at doors. Runs on a fixed timestep with a seeded
+ * random source, so the same model, scenario and seed always yield the
+ * same results.
+ */
+
+import * as YUKA from 'yuka';
+import type { BimElement, StoreyInfo } from '@/types/bim';
+import { findNearestPointOnPath } from '@/lib/geometry/visibilityGraph';
+import { calculateSpaceOccupancy } from '@/bim/spaces';
+import {
+  distance2D,
+  isPointInPolygon,
+  findExitDoors,
+  findSpaceAtPoint,
+  findStairConnections,
+  buildRoomGraph,
+  findPathToExit,
+  createWallSegments,
+  createSegmentsFromCounters,
+  findFarthestCorner,
+  calculateAllEvacuationRoutes,
+  type Point2D,
+  type Point3D,
+  type Waypoint,
+  type StairConnection,
+  type EvacuationRoute,
+  type ExitDoor,
+  type WallSegment,
+  type RoomNode,
+} from './routes';
+import { createEvacuationResults, type AgentResult, type EvacuationResults } from './results';
+import {
+  allocateProfiles,
+  DEFAULT_AGENT_PROFILES,
+  DEFAULT_AGENT_MIX,
+  DEFAULT_AGENT_RADIUS,
+  type AgentProfile,
+  type AgentProfileId,
+  type AgentMix,
+} from './profiles';
+import { samplePreMovementTime, type EvacuationScenario } from './scenarios';
+import { DEFAULT_GASTRO_CATEGORY, type GastroSpaceCategory } from '@/types/bim';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const COLLISION = {
+  WALL_PUSH_DISTANCE: 0.35,
+  WALL_PUSH_NEAR_DOOR: 0.15,
+  WALL_PUSH_COOLDOWN: 0.1,
+  OBSTACLE_MARGIN: 0.2,
+  DOOR_PROXIMITY_THRESHOLD: 1.0,
+} as const;
+
+const AGENT = {
+  NEIGHBORHOOD_RADIUS: 1.5,
+  SPEED_VARIATION: 0.2,
+  MAX_FORCE: 10,
+  MASS: 1,
+  PATH_ARRIVAL_RADIUS: 0.5,
+  SEPARATION_WEIGHT: 2.0,
+  PATH_FOLLOW_WEIGHT: 1.0,
+  MIN_SPAWN_DISTANCE: 0.5,
+  SPAWN_MARGIN: 0.4,
+} as const;
+
+const STUCK = {
+  MOVEMENT_THRESHOLD: 0.02,
+  FRAMES_LIMIT: 45,
+  PUSH_COOLDOWN_FRAMES: 30,
+  PUSH_SPEED_FACTOR: 0.7,
+  MIN_PUSH_DISTANCE: 0.3,
+  MAX_PUSH_DISTANCE: 3.0, // Don't push toward waypoints farther than this (likely through walls)
+} as const;
+
+const EXIT = {
+  DETECTION_RADIUS: 0.5,
+  WAYPOINT_REACH_DISTANCE: 0.6,
+} as const;
+
+const STAIR = {
+  TRIGGER_DISTANCE: 0.5,
+  LEVEL_TOLERANCE: 0.5,
+  MIN_SPEED_FACTOR: 0.1,
+} as const;
+
+// Constants for future phases (evacuation routes)
+// EVACUATION_ROUTE.COLUMN_OFFSET = 0.45 (45cm offset around columns)
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface EvacuationAgent {
+  id: string;
+  vehicle: YUKA.Vehicle;
+  waypoints: Waypoint[];
+  currentWaypointIndex: number;
+  hasExited: boolean;
+  position: Point3D;
+  rotation: number;
+  prevPosition: Point2D;
+  stuckFrames: number;
+  pushCooldown: number;
+  // NEU: Multi-Stockwerk Tracking
+  currentStoreyId: string;
+  currentSpaceId: string;
+  sourceSpaceId: string;         // Ursprünglicher Raum
+  profile: AgentProfile;
+  /** Walking a stair (null = on a floor) */
+  stairTraversal: StairTraversal | null;
+  /** Waiting at a refuge area for assisted rescue */
+  atRefuge: boolean;
+  /** Simulation time the agent starts walking (s) */
+  preMovementTime: number;
+  /** No route to an exit left (blocked doors, fire) */
+  trapped: boolean;
+}
+
+interface StairTraversal {
+  connection: StairConnection;
+  from: Point3D;
+  to: Point3D;
+  duration: number;
+  elapsed: number;
+  descending: boolean;
+}
+
+interface CircleObstacle {
+  position: Point2D;
+  radius: number;
+}
+
+export interface SimulationStats {
+  totalAgents: number;
+  exitedAgents: number;
+  /** Agents waiting at a refuge area */
+  refugeAgents: number;
+  /** Agents without a route to an exit */
+  trappedAgents: number;
+  elapsedTime: number;
+}
+
+// ============================================================================
+// Random Source
+// ============================================================================
+
+/** Returns a number in [0, 1) like Math.random */
+export type RandomSource = () => number;
+
+/**
+ * Seeded pseudo random number generator (mulberry32)
+ */
+export function createSeededRandom(seed: number): RandomSource {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Random 32-bit seed for interactive runs
+ */
+export function createRandomSeed(): number {
+  return Math.floor(Math.random() * 4294967296);
+}
+
+// ============================================================================
+// Geometry Helpers
+// ============================================================================
+
+function pointToSegmentDistance(
+  point: Point2D,
+  segStart: Point2D,
+  segEnd: Point2D
+): { distance: number; normal: Point2D } {
+  const dx = segEnd.x - segStart.x;
+  const dy = segEnd.y - segStart.y;
+  const lengthSq = dx * dx + dy * dy;
+
+  const t = lengthSq > 0
+    ? Math.max(0, Math.min(1, ((point.x - segStart.x) * dx + (point.y - segStart.y) * dy) / lengthSq))
+    : 0;
+
+  const closest = { x: segStart.x + t * dx, y: segStart.y + t * dy };
+  const distDx = point.x - closest.x;
+  const distDy = point.y - closest.y;
+  const dist = Math.sqrt(distDx * distDx + distDy * distDy);
+
+  const segLength = Math.sqrt(lengthSq);
+  let normal = segLength > 0 ? { x: -dy / segLength, y: dx / segLength } : { x: 0, y: 1 };
+
+  if (normal.x * distDx + normal.y * distDy < 0) {
+    normal = { x: -normal.x, y: -normal.y };
+  }
+
+  return { distance: dist, normal };
+}
+
+// ============================================================================
+// Obstacle Creation
+// ============================================================================
+
+function createObstaclesFromColumns(columns: BimElement[]): CircleObstacle[] {
+  return columns
+    .filter(col => col.columnData)
+    .map(col => ({
+      position: { x: col.placement.position.x, y: col.placement.position.y },
+      radius: Math.max(col.columnData!.width, col.columnData!.depth) / 2 + 0.1,
+    }));
+}
+
+function createObstaclesFromFurniture(furniture: BimElement[]): CircleObstacle[] {
+  return furniture
+    .filter(furn => furn.furnitureData)
+    .map(furn => {
+      const scale = furn.furnitureData!.scale || 1;
+      const w = furn.furnitureData!.width * scale;
+      const d = furn.furnitureData!.depth * scale;
+      return {
+        position: { x: furn.placement.position.x, y: furn.placement.position.y },
+        radius: Math.sqrt(w * w + d * d) / 2 + 0.1,
+      };
+    });
+}
+
+// ============================================================================
+// Agent Spawning
+// ============================================================================
+
+/**
+ * Offset a point slightly inward from a polygon corner to avoid spawning exactly on walls.
+ * Moves the point toward the polygon centroid by a small amount.
+ */
+function offsetFromCorner(corner: Point2D, polygon: Point2D[], offset: number): Point2D {
+  // Calculate centroid
+  let cx = 0, cy = 0;
+  for (const p of polygon) {
+    cx += p.x;
+    cy += p.y;
+  }
+  cx /= polygon.length;
+  cy /= polygon.length;
+
+  // Direction from corner to centroid
+  const dx = cx - corner.x;
+  const dy = cy - corner.y;
+  const dist = Math.sqrt(dx * dx + dy * dy);
+
+  if (dist < 0.01) return corner;
+
+  return {
+    x: corner.x + (dx / dist) * offset,
+    y: corner.y + (dy / dist) * offset,
+  };
+}
+
+/**
+ * Generate spawn points for agents in a room.
+ * FIRST person spawns at the farthest corner from exits (worst-case scenario).
+ * Additional persons spawn randomly within the room.
+ */
+function generateSpawnPoints(
+  polygon: Point2D[],
+  count: number,
+  elevation: number,
+  exitPoints: Point2D[],
+  random: RandomSource
+): Point3D[] {
+  const points: Point3D[] = [];
+  const bounds = getPolygonBounds(polygon);
+  const margin = AGENT.SPAWN_MARGIN;
+
+  const minX = bounds.minX + margin;
+  const minY = bounds.minY + margin;
+  const maxX = bounds.maxX - margin;
+  const maxY = bounds.maxY - margin;
+
+  // FIRST person: Spawn at farthest corner from exits
+  if (count > 0 && exitPoints.length > 0) {
+    const farthestCorner = findFarthestCorner(polygon, exitPoints);
+    const firstSpawn = offsetFromCorner(farthestCorner, polygon, 0.3); // 30cm offset from corner
+
+    // Verify the spawn point is inside the polygon
+    if (isPointInPolygon(firstSpawn, polygon)) {
+      points.push({ x: firstSpawn.x, y: firstSpawn.y, z: elevation });
+    } else {
+      // Fallback: use centroid if offset is outside polygon
+      const centroid = offsetFromCorner(farthestCorner, polygon, 0);
+      points.push({
+        x: (farthestCorner.x + centroid.x) / 2,
+        y: (farthestCorner.y + centroid.y) / 2,
+        z: elevation
+      });
+    }
+  }
+
+  // REMAINING persons: Random positions
+  let attempts = 0;
+  const maxAttempts = count * 100;
+
+  while (points.length < count && attempts < maxAttempts) {
+    const x = minX + random() * (maxX - minX);
+    const y = minY + random() * (maxY - minY);
+
+    if (isPointInPolygon({ x, y }, polygon) && !isTooCloseToExisting(points, x, y)) {
+      points.push({ x, y, z: elevation });
+    }
+    attempts++;
+  }
+
+  return points;
+}
+
+function getPolygonBounds(polygon: Point2D[]): { minX: number; minY: number; maxX: number; maxY: number } {
+  let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+  for (const p of polygon) {
+    minX = Math.min(minX, p.x);
+    minY = Math.min(minY, p.y);
+    maxX = Math.max(maxX, p.x);
+    maxY = Math.max(maxY, p.y);
+  }
+  return { minX, minY, maxX, maxY };
+}
+
+function isTooCloseToExisting(points: Point3D[], x: number, y: number): boolean {
+  return points.some(p => distance2D(p, { x, y }) < AGENT.MIN_SPAWN_DISTANCE);
+}
+
+function createAgent(
+  id: string,
+  spawnPoint: Point3D,
+  pathToExit: Waypoint[],
+  speed: number,
+  entityManager: YUKA.EntityManager,
+  storeyId: string,
+  spaceId: string,
+  profile: AgentProfile,
+  random: RandomSource
+): EvacuationAgent {
+  const vehicle = new YUKA.Vehicle();
+  vehicle.maxSpeed =
+    speed * profile.speedFactor * (1 - AGENT.SPEED_VARIATION / 2 + random() * AGENT.SPEED_VARIATION);
+  vehicle.boundingRadius = profile.radius;
+  vehicle.maxForce = AGENT.MAX_FORCE;
+  vehicle.mass = AGENT.MASS;
+  vehicle.position.set(spawnPoint.x, spawnPoint.y, spawnPoint.z);
+  vehicle.updateNeighborhood = true;
+  vehicle.neighborhoodRadius = AGENT.NEIGHBORHOOD_RADIUS;
+
+  const path = new YUKA.Path();
+  path.loop = false;
+  for (const wp of pathToExit) {
+    path.add(new YUKA.Vector3(wp.position.x, wp.position.y, wp.position.z));
+  }
+
+  const followPath = new YUKA.FollowPathBehavior(path, AGENT.PATH_ARRIVAL_RADIUS);
+  followPath.weight = AGENT.PATH_FOLLOW_WEIGHT;
+  vehicle.steering.add(followPath);
+
+  const separation = new YUKA.SeparationBehavior();
+  separation.weight = AGENT.SEPARATION_WEIGHT;
+  vehicle.steering.add(separation);
+
+  entityManager.add(vehicle);
+
+  return {
+    id,
+    vehicle,
+    waypoints: pathToExit,
+    currentWaypointIndex: 0,
+    hasExited: false,
+    position: { ...spawnPoint },
+    rotation: 0,
+    prevPosition: { x: spawnPoint.x, y: spawnPoint.y },
+    stuckFrames: 0,
+    pushCooldown: 0,
+    currentStoreyId: storeyId,
+    currentSpaceId: spaceId,
+    sourceSpaceId: spaceId,
+    profile,
+    stairTraversal: null,
+    atRefuge: false,
+    preMovementTime: 0,
+    trapped: false,
+  };
+}
+
+// ============================================================================
+// Collision & Movement Helpers
+// ============================================================================
+
+function handleWallCollision(
+  agent: EvacuationAgent,
+  segments: WallSegment[],
+  pushDistance: number,
+  nearDoor: boolean
+): void {
+  const pos = agent.vehicle.position;
+
+  for (const segment of segments) {
+    const { distance, normal } = pointToSegmentDistance({ x: pos.x, y: pos.y }, segment.start, segment.end);
+
+    if (distance < pushDistance) {
+      const pushAmount = pushDistance - distance + 0.02;
+      pos.x += normal.x * pushAmount;
+      pos.y += normal.y * pushAmount;
+
+      dampVelocityTowardNormal(agent.vehicle.velocity, normal, nearDoor ? 0.3 : 0.8);
+    }
+  }
+}
+
+function handleObstacleCollision(agent: EvacuationAgent, obstacles: CircleObstacle[]): void {
+  const pos = agent.vehicle.position;
+
+  for (const obstacle of obstacles) {
+    const dx = pos.x - obstacle.position.x;
+    const dy = pos.y - obstacle.position.y;
+    const dist = Math.sqrt(dx * dx + dy * dy);
+    const minDist = obstacle.radius + COLLISION.OBSTACLE_MARGIN + getExtraRadius(agent);
+
+    if (dist < minDist && dist > 0.01) {
+      const pushDist = minDist - dist + 0.02;
+      pos.x += (dx / dist) * pushDist;
+      pos.y += (dy / dist) * pushDist;
+
+      const vel = agent.vehicle.velocity;
+      const velDotDir = (vel.x * dx + vel.y * dy) / dist;
+      if (velDotDir < 0) {
+        vel.x -= (velDotDir * dx / dist) * 0.8;
+        vel.y -= (velDotDir * dy / dist) * 0.8;
+      }
+    }
+  }
+}
+
+/**
+ * Body radius beyond the default agent the collision margins were tuned for
+ */
+function getExtraRadius(agent: EvacuationAgent): number {
+  return Math.max(0, agent.profile.radius - DEFAULT_AGENT_RADIUS);
+}
+
+function dampVelocityTowardNormal(vel: YUKA.Vector3, normal: Point2D, factor: number): void {
+  const velDotNormal = vel.x * normal.x + vel.y * normal.y;
+  if (velDotNormal < 0) {
+    vel.x -= velDotNormal * normal.x * factor;
+    vel.y -= velDotNormal * normal.y * factor;
+  }
+}
+
+function handleStuckDetection(
+  agent: EvacuationAgent,
+  evacuationRoutes: Map<string, EvacuationRoute>
+): void {
+  const pos = agent.vehicle.position;
+  const moveDistance = distance2D(agent.prevPosition, { x: pos.x, y: pos.y });
+
+  if (moveDistance < STUCK.MOVEMENT_THRESHOLD) {
+    agent.stuckFrames++;
+
+    if (agent.stuckFrames > STUCK.FRAMES_LIMIT) {
+      // Try to push toward the green line first
+      if (!pushAgentToGreenLine(agent, evacuationRoutes)) {
+        // Fallback to waypoint if no green line available
+        pushAgentTowardWaypoint(agent);
+      }
+      agent.stuckFrames = 0;
+    }
+  } else {
+    agent.stuckFrames = 0;
+  }
+
+  agent.prevPosition = { x: pos.x, y: pos.y };
+}
+
+/**
+ * Push stuck agent toward the nearest point on their evacuation route (green line)
+ * Returns true if successfully found a point to push toward
+ */
+function pushAgentToGreenLine(
+  agent: EvacuationAgent,
+  evacuationRoutes: Map<string, EvacuationRoute>
+): boolean {
+  // Get the evacuation route for the agent's source space
+  const route = evacuationRoutes.get(agent.sourceSpaceId);
+  if (!route || route.pathPoints.length < 2) {
+    return false;
+  }
+
+  const pos = agent.vehicle.position;
+  const agentPos: Point2D = { x: pos.x, y: pos.y };
+
+  // Find nearest point on the green line
+  const nearestPoint = findNearestPointOnPath(agentPos, route.pathPoints);
+
+  const toLine = { x: nearestPoint.x - pos.x, y: nearestPoint.y - pos.y };
+  const dist = Math.sqrt(toLine.x * toLine.x + toLine.y * toLine.y);
+
+  // Only push if point is within reasonable distance
+  if (dist > STUCK.MIN_PUSH_DISTANCE && dist < STUCK.MAX_PUSH_DISTANCE * 2) {
+    const vel = agent.vehicle.velocity;
+    vel.x = (toLine.x / dist) * agent.vehicle.maxSpeed * STUCK.PUSH_SPEED_FACTOR;
+    vel.y = (toLine.y / dist) * agent.vehicle.maxSpeed * STUCK.PUSH_SPEED_FACTOR;
+    agent.pushCooldown = STUCK.PUSH_COOLDOWN_FRAMES;
+    return true;
+  }
+
+  return false;
+}
+
+function pushAgentTowardWaypoint(agent: EvacuationAgent): void {
+  const currentWp = agent.waypoints[agent.currentWaypointIndex];
+  if (!currentWp) return;
+
+  const pos = agent.vehicle.position;
+  const toWp = { x: currentWp.position.x - pos.x, y: currentWp.position.y - pos.y };
+  const dist = Math.sqrt(toWp.x * toWp.x + toWp.y * toWp.y);
+
+  // Only push if waypoint is within reasonable distance (same room)
+  // If waypoint is too far, agent is likely stuck at a wall and pushing would go through it
+  if (dist > STUCK.MIN_PUSH_DISTANCE && dist < STUCK.MAX_PUSH_DISTANCE) {
+    const vel = agent.vehicle.velocity;
+    vel.x = (toWp.x / dist) * agent.vehicle.maxSpeed * STUCK.PUSH_SPEED_FACTOR;
+    vel.y = (toWp.y / dist) * agent.vehicle.maxSpeed * STUCK.PUSH_SPEED_FACTOR;
+    agent.pushCooldown = STUCK.PUSH_COOLDOWN_FRAMES;
+  }
+}
+
+function updateAgentRotation(agent: EvacuationAgent): void {
+  const vel = agent.vehicle.velocity;
+  if (vel.length() > 0.01) {
+    agent.rotation = Math.atan2(vel.y, vel.x);
+  }
+}
+
+function advanceWaypointIfReached(agent: EvacuationAgent): void {
+  if (agent.currentWaypointIndex >= agent.waypoints.length - 1) return;
+
+  const currentWp = agent.waypoints[agent.currentWaypointIndex];
+  // Stair waypoints are passed by walking the stair (handleStairTraversal)
+  if (!currentWp || currentWp.isStair) return;
+
+  const pos = agent.vehicle.position;
+  const dist = distance2D({ x: pos.x, y: pos.y }, currentWp.position);
+
+  if (dist < EXIT.WAYPOINT_REACH_DISTANCE) {
+    agent.currentWaypointIndex++;
+  }
+}
+
+function checkExitReached(
+  agent: EvacuationAgent,
+  entityManager: YUKA.EntityManager
+): boolean {
+  const pos = agent.vehicle.position;
+
+  // Check last waypoint (primary exit) - only exit through the assigned exit
+  const lastWp = agent.waypoints[agent.waypoints.length - 1];
+  if (lastWp?.isExit) {
+    const dist = distance2D({ x: pos.x, y: pos.y }, lastWp.position);
+    if (dist < EXIT.DETECTION_RADIUS) {
+      markAgentAsExited(agent, entityManager);
+      return true;
+    }
+  }
+
+  // No backup check - agents must reach their assigned exit via the correct path
+  return false;
+}
+
+function markAgentAsExited(agent: EvacuationAgent, entityManager: YUKA.EntityManager): void {
+  agent.hasExited = true;
+  entityManager.remove(agent.vehicle);
+}
+
+/**
+ * Agents that refuse stairs stop at the stair their route ends at (refuge area)
+ */
+function checkRefugeReached(agent: EvacuationAgent, entityManager: YUKA.EntityManager): boolean {
+  const lastIndex = agent.waypoints.length - 1;
+  const lastWp = agent.waypoints[lastIndex];
+  if (!agent.profile.refusesStairs || !lastWp?.isStair || agent.currentWaypointIndex < lastIndex) return false;
+
+  const pos = agent.vehicle.position;
+  if (distance2D({ x: pos.x, y: pos.y }, lastWp.position) >= EXIT.WAYPOINT_REACH_DISTANCE) return false;
+
+  agent.atRefuge = true;
+  agent.vehicle.velocity.set(0, 0, 0);
+  // Leave the crowd so waiting persons do not block the stair
+  entityManager.remove(agent.vehicle);
+  return true;
+}
+
+function getFollowPathBehavior(agent: EvacuationAgent): YUKA.FollowPathBehavior | undefined {
+  return agent.vehicle.steering.behaviors.find(
+    (behavior): behavior is YUKA.FollowPathBehavior => behavior instanceof YUKA.FollowPathBehavior
+  );
+}
+
+/**
+ * Replace the remaining route of an agent (re-routing around a fire)
+ */
+function setAgentPath(agent: EvacuationAgent, waypoints: Waypoint[]): void {
+  const followPath = getFollowPathBehavior(agent);
+  if (followPath) {
+    followPath.path.clear();
+    for (const wp of waypoints) {
+      followPath.path.add(new YUKA.Vector3(wp.position.x, wp.position.y, wp.position.z));
+    }
+  }
+
+  agent.waypoints = waypoints;
+  agent.currentWaypointIndex = 0;
+  agent.stuckFrames = 0;
+}
+
+/**
+ * Agent without a route stays where it is
+ */
+function trapAgent(agent: EvacuationAgent, entityManager: YUKA.EntityManager): void {
+  agent.trapped = true;
+  agent.vehicle.velocity.set(0, 0, 0);
+  entityManager.remove(agent.vehicle);
+}
+
+/**
+ * Update agent's current space when they move into a new room
+ * Also updates the evacuation route reference for stuck recovery
+ */
+function updateAgentSpace(agent: EvacuationAgent, spaces: BimElement[]): void {
+  const pos = agent.vehicle.position;
+  const agentPos: Point2D = { x: pos.x, y: pos.y };
+
+  const newSpace = findSpaceAtPoint(agentPos, spaces);
+  if (newSpace && newSpace.id !== agent.currentSpaceId) {
+    agent.currentSpaceId = newSpace.id;
+
+    // Update storey if space is on different storey
+    if (newSpace.parentId && newSpace.parentId !== agent.currentStoreyId) {
+      agent.currentStoreyId = newSpace.parentId;
+    }
+  }
+}
+
+/**
+ * Start walking a stair when the agent reaches its foot or head
+ * Called when agent reaches a stair waypoint
+ */
+function handleStairTraversal(
+  agent: EvacuationAgent,
+  stairConnections: StairConnection[]
+): void {
+  if (agent.stairTraversal || agent.profile.refusesStairs) return;
+
+  const currentWp = agent.waypoints[agent.currentWaypointIndex];
+  if (!currentWp || !currentWp.isStair) return;
+
+  // Find the stair connection for this waypoint
+  const stairConnection = stairConnections.find(sc => sc.stairId === currentWp.doorId);
+  if (!stairConnection) return;
+
+  const pos = agent.vehicle.position;
+  const { footPosition, headPosition } = stairConnection;
+
+  // Check if close enough to stair entrance
+  const atFoot =
+    distance2D({ x: pos.x, y: pos.y }, footPosition) < STAIR.TRIGGER_DISTANCE &&
+    Math.abs(pos.z - footPosition.z) < STAIR.LEVEL_TOLERANCE;
+  const atHead =
+    distance2D({ x: pos.x, y: pos.y }, headPosition) < STAIR.TRIGGER_DISTANCE &&
+    Math.abs(pos.z - headPosition.z) < STAIR.LEVEL_TOLERANCE;
+  if (!atFoot && !atHead) return;
+
+  const from = atHead ? headPosition : footPosition;
+  const to = atHead ? footPosition : headPosition;
+  const length = Math.hypot(to.x - from.x, to.y - from.y, to.z - from.z);
+  const speed = agent.vehicle.maxSpeed * Math.max(STAIR.MIN_SPEED_FACTOR, agent.profile.stairSpeedFactor);
+
+  agent.stairTraversal = {
+    connection: stairConnection,
+    from,
+    to,
+    duration: length / speed,
+    elapsed: 0,
+    descending: atHead,
+  };
+}
+
+/**
+ * Move the agent along the stair at its stair speed, arrive on the other storey
+ *
+ * @returns true while the agent is on the stair
+ */
+function updateStairTraversal(agent: EvacuationAgent, delta: number): boolean {
+  const traversal = agent.stairTraversal;
+  if (!traversal) return false;
+
+  traversal.elapsed += delta;
+  const t = traversal.duration > 0 ? Math.min(1, traversal.elapsed / traversal.duration) : 1;
+
+  const pos = agent.vehicle.position;
+  pos.set(
+    traversal.from.x + (traversal.to.x - traversal.from.x) * t,
+    traversal.from.y + (traversal.to.y - traversal.from.y) * t,
+    traversal.from.z + (traversal.to.z - traversal.from.z) * t
+  );
+  agent.vehicle.velocity.set(0, 0, 0);
+  agent.position = { x: pos.x, y: pos.y, z: pos.z };
+  agent.prevPosition = { x: pos.x, y: pos.y };
+  agent.rotation = Math.atan2(traversal.to.y - traversal.from.y, traversal.to.x - traversal.from.x);
+
+  if (t < 1) return true;
+
+  const { connection, descending } = traversal;
+  agent.currentStoreyId = descending ? connection.bottomStoreyId : connection.topStoreyId;
+  const arrivalSpaceId = descending ? connection.bottomSpaceId : connection.topSpaceId;
+  if (arrivalSpaceId) {
+    agent.currentSpaceId = arrivalSpaceId;
+  }
+  agent.currentWaypointIndex++; // Move to next waypoint
+  agent.stairTraversal = null;
+  return true;
+}
+
+function getNearestWaypointDistance(agent: EvacuationAgent): number {
+  const pos = agent.vehicle.position;
+  let minDist = Infinity;
+
+  for (const wp of agent.waypoints) {
+    const dist = distance2D({ x: pos.x, y: pos.y }, wp.position);
+    if (dist < minDist) minDist = dist;
+  }
+
+  return minDist;
+}
+
+function calculateEffectivePushDistance(agent: EvacuationAgent): number {
+  const extraRadius = getExtraRadius(agent);
+  if (agent.pushCooldown > 0) {
+    agent.pushCooldown--;
+    return COLLISION.WALL_PUSH_COOLDOWN + extraRadius;
+  }
+
+  const nearDoor = getNearestWaypointDistance(agent) < COLLISION.DOOR_PROXIMITY_THRESHOLD;
+  return (nearDoor ? COLLISION.WALL_PUSH_NEAR_DOOR : COLLISION.WALL_PUSH_DISTANCE) + extraRadius;
+}
+
+// ============================================================================
+// Results Recording
+// ============================================================================
+
+function recordSamples(results: EvacuationResults, agents: Map<string, EvacuationAgent>, time: number): void {
+  for (const [, agent] of agents) {
+    if (agent.hasExited) continue;
+    results.samples.push({
+      agentId: agent.id,
+      time,
+      x: agent.vehicle.position.x,
+      y: agent.vehicle.position.y,
+      storeyId: agent.currentStoreyId,
+    });
+  }
+}
+
+/**
+ * Record the doors/stairs between the previous and the current waypoint index
+ */
+function recordWaypointPassages(
+  results: EvacuationResults,
+  agent: EvacuationAgent,
+  fromIndex: number,
+  time: number
+): void {
+  for (let i = fromIndex; i < agent.currentWaypointIndex; i++) {
+    const waypoint = agent.waypoints[i];
+    if (waypoint) results.doorPassages.push({ doorId: waypoint.doorId, agentId: agent.id, time });
+  }
+}
+
+function recordExit(results: EvacuationResults, agentResult: AgentResult, agent: EvacuationAgent, time: number): void {
+  const exitWaypoint = agent.waypoints[agent.waypoints.length - 1];
+  agentResult.exitTime = time;
+  agentResult.exitDoorId = exitWaypoint?.doorId ?? null;
+  agentResult.leftSourceAt ??= time;
+  if (exitWaypoint) results.doorPassages.push({ doorId: exitWaypoint.doorId, agentId: agent.id, time });
+}
+
+// ============================================================================
+// Simulation
+// ============================================================================
+
+/** Fixed simulation timestep (s); the frame-based stuck detection assumes 60 Hz */
+export const SIMULATION_TIME_STEP = 1 / 60;
+
+/** Max. fixed steps per advance call, avoids a spiral after long frames */
+const MAX_STEPS_PER_ADVANCE = 10;
+
+/** Default time limit of a headless run (s) */
+export const DEFAULT_MAX_DURATION = 600;
+
+/**
+ * Elements the simulation runs on
+ */
+export interface SimulationModel {
+  spaces: BimElement[];
+  doors: BimElement[];
+  walls: BimElement[];
+  columns: BimElement[];
+  furniture: BimElement[];
+  counters: BimElement[];
+  stairs: BimElement[];
+  storeys: StoreyInfo[];
+}
+
+export interface SimulationOptions {
+  /** Mean walking speed (m/s) */
+  agentSpeed: number;
+  seed: number;
+  profiles?: Record<AgentProfileId, AgentProfile>;
+  /** Profile mix per space category */
+  mix?: Record<GastroSpaceCategory, AgentMix>;
+  /** Blocked doors, fire origin and pre-movement times (null = all exits available) */
+  scenario?: EvacuationScenario | null;
+}
+
+/**
+ * State of one simulation run
+ */
+export interface SimulationRun {
+  seed: number;
+  agents: Map<string, EvacuationAgent>;
+  exitDoors: ExitDoor[];
+  wallSegments: WallSegment[];
+  obstacles: CircleObstacle[];
+  evacuationRoutes: Map<string, EvacuationRoute>;
+  spaces: BimElement[];
+  stairConnections: StairConnection[];
+  roomGraph: Map<string, RoomNode>;
+  entityManager: YUKA.EntityManager;
+  /** Fixed steps taken so far */
+  steps: number;
+  elapsedTime: number;
+  exitedAgents: number;
+  refugeAgents: number;
+  trappedAgents: number;
+  /** Fire origin of the scenario, `spreadAt` = null once the space is impassable */
+  fire: { spaceId: string; spreadAt: number | null } | null;
+  /** Time not yet simulated by a fixed step (s) */
+  accumulator: number;
+  results: EvacuationResults;
+  agentResults: Map<string, AgentResult>;
+  nextSampleTime: number;
+}
+
+/**
+ * Room graph without stairs, for persons who cannot use them
+ */
+function createStepFreeRoomGraph(roomGraph: Map<string, RoomNode>): Map<string, RoomNode> {
+  return new Map(Array.from(roomGraph, ([spaceId, node]) => [spaceId, { ...node, stairs: [] }]));
+}
+
+/**
+ * Route for persons refusing stairs: a step-free route to an exit if there
+ * is one, otherwise the regular route up to its first stair (refuge area)
+ */
+function getStepFreePath(
+  spaceId: string,
+  pathToExit: Waypoint[],
+  stepFreeGraph: Map<string, RoomNode>
+): Waypoint[] {
+  const firstStair = pathToExit.findIndex((waypoint) => waypoint.isStair);
+  if (firstStair === -1) return pathToExit;
+
+  const stepFreePath = findPathToExit(spaceId, stepFreeGraph);
+  return stepFreePath.length > 0 ? stepFreePath : pathToExit.slice(0, firstStair + 1);
+}
+
+/**
+ * Room graph without the fire space and all doors and stairs leading into it
+ */
+function createFireBlockedRoomGraph(roomGraph: Map<string, RoomNode>, fireSpaceId: string): Map<string, RoomNode> {
+  const graph = new Map<string, RoomNode>();
+  for (const [spaceId, node] of roomGraph) {
+    if (spaceId === fireSpaceId) continue;
+    graph.set(spaceId, {
+      ...node,
+      doors: node.doors.filter((door) => door.connectsTo !== fireSpaceId),
+      stairs: node.stairs.filter((stair) => stair.connectsToSpace !== fireSpaceId),
+    });
+  }
+  return graph;
+}
+
+/**
+ * The fire space becomes impassable: everybody outside of it takes a new
+ * route from the current space, persons without a route are trapped
+ */
+function spreadFire(run: SimulationRun, fireSpaceId: string, time: number): void {
+  run.roomGraph = createFireBlockedRoomGraph(run.roomGraph, fireSpaceId);
+  const stepFreeGraph = createStepFreeRoomGraph(run.roomGraph);
+
+  for (const [, agent] of run.agents) {
+    if (agent.hasExited || agent.atRefuge || agent.trapped || agent.stairTraversal) continue;
+    // Persons in the fire space keep fleeing on their route
+    if (agent.currentSpaceId === fireSpaceId) continue;
+
+    const pathToExit = findPathToExit(agent.currentSpaceId, run.roomGraph);
+    const route = agent.profile.refusesStairs
+      ? getStepFreePath(agent.currentSpaceId, pathToExit, stepFreeGraph)
+      : pathToExit;
+
+    if (route.length > 0) {
+      setAgentPath(agent, route);
+    } else {
+      trapAgent(agent, run.entityManager);
+      run.trappedAgents++;
+      const agentResult = run.agentResults.get(agent.id);
+      if (agentResult) agentResult.trappedTime = time;
+    }
+  }
+}
+
+/**
+ * Collect the simulation-relevant elements of a model
+ */
+export function getSimulationModel(elements: BimElement[], storeys: StoreyInfo[]): SimulationModel {
+  const byType = (type: BimElement['type']) => elements.filter((element) => element.type === type);
+  return {
+    spaces: byType('space'),
+    doors: byType('door'),
+    walls: byType('wall'),
+    columns: byType('column'),
+    furniture: byType('furniture'),
+    counters: byType('counter'),
+    stairs: byType('stair'),
+    storeys,
+  };
+}
+
+/**
+ * Set up routes, obstacles and agents of a run
+ *
+ * @returns null if the model has no exit
+ */
+export function createSimulation(model: SimulationModel, options: SimulationOptions): SimulationRun | null {
+  const { spaces, walls, columns, furniture, counters, stairs, storeys } = model;
+  const { profiles = DEFAULT_AGENT_PROFILES, mix = DEFAULT_AGENT_MIX, scenario = null } = options;
+  const random = createSeededRandom(options.seed);
+
+  // Blocked doors are closed: no exit, no connection and no wall opening
+  const blockedDoorIds = new Set(scenario?.blockedDoorIds ?? []);
+  const doors = model.doors.filter((door) => !blockedDoorIds.has(door.id));
+
+  const exitDoors = findExitDoors(doors, walls, spaces, storeys);
+  // A scenario blocking all exits still runs (everybody trapped)
+  if (exitDoors.length === 0 && blockedDoorIds.size === 0) {
+    console.warn('No exit doors found!');
+    return null;
+  }
+
+  const wallSegments = createWallSegments(walls, doors);
+  const stairConnections = findStairConnections(stairs, spaces);
+  const roomGraph = buildRoomGraph(spaces, doors, walls, stairs, exitDoors, storeys);
+  const stepFreeGraph = createStepFreeRoomGraph(roomGraph);
+
+  const obstacles = [
+    ...createObstaclesFromColumns(columns),
+    ...createObstaclesFromFurniture(furniture),
+  ];
+  createSegmentsFromCounters(counters, wallSegments);
+
+  // Calculate evacuation routes with 45cm column avoidance
+  const evacuationRoutes = calculateAllEvacuationRoutes(spaces, roomGraph, columns, wallSegments);
+
+  const entityManager = new YUKA.EntityManager();
+  const agents = new Map<string, EvacuationAgent>();
+  let agentIndex = 0;
+
+  for (const space of spaces) {
+    if (!space.spaceData?.boundaryPolygon) continue;
+
+    // Design occupancy (category density, seats or fixed override)
+    const { occupancy } = calculateSpaceOccupancy(space, furniture);
+    if (occupancy === 0) continue;
+
+    const pathToExit = findPathToExit(space.id, roomGraph);
+    // Without blocked doors a missing path is a modelling gap, with them the occupants are trapped
+    if (pathToExit.length === 0 && blockedDoorIds.size === 0) {
+      console.warn(`No path to exit from space ${space.name || space.id}`);
+      continue;
+    }
+
+    // Get storey elevation for correct spawn height
+    const storey = storeys.find(s => s.id === space.parentId);
+    const elevation = storey?.elevation ?? space.placement.position.z;
+
+    // Extract exit points (first waypoint positions) for farthest corner calculation
+    const exitPointsForSpace = pathToExit.map(wp => ({
+      x: wp.position.x,
+      y: wp.position.y
+    }));
+
+    const spawnPoints = generateSpawnPoints(
+      space.spaceData.boundaryPolygon,
+      occupancy,
+      elevation,
+      exitPointsForSpace,
+      random
+    );
+    if (spawnPoints.length < occupancy) {
+      console.warn(`Only ${spawnPoints.length} of ${occupancy} persons fit into space ${space.name || space.id}`);
+    }
+
+    const category = space.spaceData.gastroCategory ?? DEFAULT_GASTRO_CATEGORY;
+    const spaceProfiles = allocateProfiles(spawnPoints.length, mix[category] ?? {}, random);
+    const stepFreePath = getStepFreePath(space.id, pathToExit, stepFreeGraph);
+
+    for (const [i, spawnPoint] of spawnPoints.entries()) {
+      const agentId = `agent-${agentIndex++}`;
+      const profile = profiles[spaceProfiles[i] ?? 'guest'];
+      const agent = createAgent(
+        agentId,
+        spawnPoint,
+        profile.refusesStairs ? stepFreePath : pathToExit,
+        options.agentSpeed,
+        entityManager,
+        space.parentId || '',
+        space.id,
+        profile,
+        random
+      );
+      agents.set(agentId, agent);
+    }
+  }
+
+  const results = createEvacuationResults(options.seed, scenario);
+  const agentResults = new Map<string, AgentResult>();
+  let trappedAgents = 0;
+  for (const [, agent] of agents) {
+    if (scenario) {
+      agent.preMovementTime = samplePreMovementTime(scenario.preMovement, random);
+    }
+    if (agent.waypoints.length === 0) {
+      trapAgent(agent, entityManager);
+      trappedAgents++;
+    } else if (agent.preMovementTime > 0) {
+      const followPath = getFollowPathBehavior(agent);
+      if (followPath) followPath.active = false;
+    }
+
+    const agentResult: AgentResult = {
+      agentId: agent.id,
+      profileId: agent.profile.id,
+      sourceSpaceId: agent.sourceSpaceId,
+      sourceStoreyId: agent.currentStoreyId,
+      preMovementTime: agent.preMovementTime,
+      exitDoorId: null,
+      exitTime: null,
+      refugeTime: null,
+      trappedTime: agent.trapped ? 0 : null,
+      leftSourceAt: null,
+    };
+    results.agents.push(agentResult);
+    agentResults.set(agent.id, agentResult);
+  }
+  recordSamples(results, agents, 0);
+
+  return {
+    seed: options.seed,
+    agents,
+    exitDoors,
+    wallSegments,
+    obstacles,
+    evacuationRoutes,
+    spaces,
+    stairConnections,
+    roomGraph,
+    entityManager,
+    steps: 0,
+    elapsedTime: 0,
+    exitedAgents: 0,
+    refugeAgents: 0,
+    trappedAgents,
+    fire: scenario?.fireOrigin
+      ? { spaceId: scenario.fireOrigin.spaceId, spreadAt: Math.max(0, scenario.fireOrigin.delay) }
+      : null,
+    accumulator: 0,
+    results,
+    agentResults,
+    nextSampleTime: results.sampleInterval,
+  };
+}
+
+/**
+ * Advance the run by exactly one fixed timestep
+ */
+export function stepSimulation(run: SimulationRun): void {
+  const delta = SIMULATION_TIME_STEP;
+  // Multiply instead of summing up to keep sample times exact
+  const time = (run.steps + 1) * delta;
+  const { results } = run;
+
+  if (run.fire && run.fire.spreadAt !== null && time >= run.fire.spreadAt) {
+    spreadFire(run, run.fire.spaceId, time);
+    run.fire.spreadAt = null;
+  }
+
+  run.entityManager.update(delta);
+
+  for (const [, agent] of run.agents) {
+    if (agent.hasExited || agent.atRefuge || agent.trapped) continue;
+
+    // Pre-movement: the person has not reacted to the alarm yet
+    if (agent.preMovementTime > 0) {
+      if (time < agent.preMovementTime) {
+        // Stand still, the crowd steering must not shift waiting persons
+        agent.vehicle.position.set(agent.position.x, agent.position.y, agent.position.z);
+        agent.vehicle.velocity.set(0, 0, 0);
+        continue;
+      }
+      const followPath = getFollowPathBehavior(agent);
+      if (followPath && !followPath.active) followPath.active = true;
+    }
+
+    // On a stair: move along it at stair speed, no crowd steering
+    if (updateStairTraversal(agent, delta)) {
+      const agentResult = run.agentResults.get(agent.id);
+      if (!agent.stairTraversal && agentResult) {
+        recordWaypointPassages(results, agent, agent.currentWaypointIndex - 1, time);
+      }
+      continue;
+    }
+
+    const pushDistance = calculateEffectivePushDistance(agent);
+    const nearDoor = getNearestWaypointDistance(agent) < COLLISION.DOOR_PROXIMITY_THRESHOLD;
+
+    handleWallCollision(agent, run.wallSegments, pushDistance, nearDoor);
+    handleObstacleCollision(agent, run.obstacles);
+
+    agent.position = {
+      x: agent.vehicle.position.x,
+      y: agent.vehicle.position.y,
+      z: agent.vehicle.position.z,
+    };
+
+    handleStuckDetection(agent, run.evacuationRoutes);
+    updateAgentRotation(agent);
+    const previousWaypointIndex = agent.currentWaypointIndex;
+    advanceWaypointIfReached(agent);
+
+    // Multi-storey: Update current space and handle stair traversal
+    updateAgentSpace(agent, run.spaces);
+    handleStairTraversal(agent, run.stairConnections);
+
+    const agentResult = run.agentResults.get(agent.id);
+    if (agentResult) {
+      recordWaypointPassages(results, agent, previousWaypointIndex, time);
+      if (agentResult.leftSourceAt === null && agent.currentSpaceId !== agent.sourceSpaceId) {
+        agentResult.leftSourceAt = time;
+      }
+    }
+
+    if (checkExitReached(agent, run.entityManager)) {
+      run.exitedAgents++;
+      if (agentResult) recordExit(results, agentResult, agent, time);
+    } else if (checkRefugeReached(agent, run.entityManager)) {
+      run.refugeAgents++;
+      if (agentResult) {
+        agentResult.refugeTime = time;
+        agentResult.leftSourceAt ??= time;
+      }
+    }
+  }
+
+  run.steps++;
+  run.elapsedTime = time;
+  results.duration = time;
+  if (time >= run.nextSampleTime) {
+    recordSamples(results, run.agents, time);
+    run.nextSampleTime += results.sampleInterval;
+  }
+}
+
+/**
+ * Advance the run by a (variable) frame delta in fixed timesteps
+ *
+ * @returns Number of steps taken
+ */
+export function advanceSimulation(run: SimulationRun, delta: number): number {
+  run.accumulator = Math.min(run.accumulator + delta, SIMULATION_TIME_STEP * MAX_STEPS_PER_ADVANCE);
+
+  let steps = 0;
+  while (run.accumulator >= SIMULATION_TIME_STEP && !isSimulationComplete(run)) {
+    stepSimulation(run);
+    run.accumulator -= SIMULATION_TIME_STEP;
+    steps++;
+  }
+  return steps;
+}
+
+/**
+ * Whether all agents have left the building, reached a refuge area or are trapped
+ */
+export function isSimulationComplete(run: SimulationRun): boolean {
+  return run.exitedAgents + run.refugeAgents + run.trappedAgents >= run.agents.size;
+}
+
+export function getSimulationStats(run: SimulationRun): SimulationStats {
+  return {
+    totalAgents: run.agents.size,
+    exitedAgents: run.exitedAgents,
+    refugeAgents: run.refugeAgents,
+    trappedAgents: run.trappedAgents,
+    elapsedTime: run.elapsedTime,
+  };
+}
+
+/**
+ * Remove all agents of a run from its entity manager
+ */
+export function disposeSimulation(run: SimulationRun): void {
+  for (const [, agent] of run.agents) {
+    run.entityManager.remove(agent.vehicle);
+  }
+}
+
+/**
+ * Run a simulation headless (faster than real time) until all agents have
+ * left or the time limit is reached
+ *
+ * @returns The recorded results, null if the model has no exit
+ */
+export function runSimulation(
+  model: SimulationModel,
+  options: SimulationOptions,
+  maxDuration = DEFAULT_MAX_DURATION
+): EvacuationResults | null {
+  const run = createSimulation(model, options);
+  if (!run) return null;
+
+  while (!isSimulationComplete(run) && run.elapsedTime < maxDuration) {
+    stepSimulation(run);
+  }
+
+  disposeSimulation(run);
+  return run.results;
+}
@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+import type { BimElement, HygieneZone, StoreyInfo } from '@/types/bim';
+import type { Point2D } from '@/types/geometry';
+import { createWall } from '@/bim/elements/Wall';
+import { createDoor } from '@/bim/elements/Door';
+import { createSpaceFromPolygon } from '@/bim/elements/Space';
+import { checkHygiene } from './hygieneCheck';
+
+const storey: StoreyInfo = { id: 'eg', name: 'EG', buildingId: 'b', elevation: 0, height: 3 };
+
+function createRoom(
+  name: string,
+  x: number,
+  y: number,
+  width: number,
+  depth: number,
+  zone?: HygieneZone
+): BimElement {
+  const space = createSpaceFromPolygon({
+    name,
+    boundaryPolygon: [
+      { x, y },
+      { x: x + width, y },
+      { x: x + width, y: y + depth },
+      { x, y: y + depth },
+    ],
+    storeyId: storey.id,
+    gastroCategory: 'KUECHE',
+  });
+  return { ...space, spaceData: { ...space.spaceData!, hygieneZone: zone } };
+}
+
+function createWallWithDoor(start: Point2D, end: Point2D): BimElement[] {
+  const wall = createWall({ startPoint: start, endPoint: end, storeyId: storey.id });
+  const door = createDoor({
+    hostWallId: wall.id,
+    positionOnWall: 0.5,
+    wallLength: Math.hypot(end.x - start.x, end.y - start.y),
+    storeyId: storey.id,
+  });
+  return [wall, door];
+}
+
+/**
+ * Delivery -> prep -> cold storage in a row, doors between neighbours
+ */
+function createKitchen(): BimElement[] {
+  return [
+    createRoom('Anlieferung', 0, 0, 3, 3, 'delivery'),
+    createRoom('Vorbereitung', 3, 0, 3, 3, 'prep'),
+    createRoom('Kühlraum', 6, 0, 3, 3, 'coldStorage'),
+    ...createWallWithDoor({ x: 3, y: 0 }, { x: 3, y: 3 }),
+    ...createWallWithDoor({ x: 6, y: 0 }, { x: 6, y: 3 }),
+  ];
+}
+
+const deliveryRoutes = (findings: ReturnType<typeof checkHygiene>) =>
+  findings.filter((finding) => finding.rule === 'deliveryRoute');
+
+describe('checkHygiene', () => {
+  it('warns when the delivery route has to pass through a clean zone', () => {
+    const findings = checkHygiene(createKitchen(), [storey]);
+
+    expect(deliveryRoutes(findings)).toMatchObject([
+      { elementName: 'Anlieferung', severity: 'warning' },
+    ]);
+  });
+
+  it('accepts a delivery route via a corridor that avoids clean zones', () => {
+    const elements = [
+      ...createKitchen(),
+      createRoom('Korridor', 0, 3, 9, 2),
+      ...createWallWithDoor({ x: 0, y: 3 }, { x: 3, y: 3 }),
+      ...createWallWithDoor({ x: 6, y: 3 }, { x: 9, y: 3 }),
+    ];
+
+    expect(deliveryRoutes(checkHygiene(elements, [storey]))).toEqual([]);
+  });
+
+  it('reports doors between clean and unclean zones', () => {
+    const findings = checkHygiene(createKitchen(), [storey]);
+
+    // Delivery next to cold storage is the intended goods flow
+    expect(findings.filter((finding) => finding.rule === 'flowCrossing')).toHaveLength(1);
+  });
+});
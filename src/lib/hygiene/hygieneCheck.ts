@@ -0,0 +1,305 @@
+/**
+ * HACCP Hygiene Check (Hygienezonierung)
+ *
+ * Checks the zoned kitchen spaces for crossings of clean and unclean flows
+ * (direct doors and the routes of goods and waste through the room graph),
+ * handwash basins near food preparation and toilets opening directly into
+ * food areas. Rules follow the principles of Regulation (EC) 852/2004 and
+ * the HACCP guidelines; they do not replace the approval by the food
+ * inspectorate.
+ */
+
+import type { BimElement, HygieneZone, StoreyInfo } from '@/types/bim';
+import { findContainingSpace, getElementPlanPosition } from '@/bim/spaces';
+import { buildRoomGraph, distance2D, findConnectedSpaces, getDoorPosition, type RoomNode } from '@/lib/evacuation/routes';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** Clean (food) or unclean (packaging, dirty dishes, waste) flow */
+export type HygieneFlow = 'clean' | 'unclean';
+
+export type HygieneRuleId =
+  | 'flowCrossing'
+  | 'deliveryRoute'
+  | 'wasteRoute'
+  | 'handwashMissing'
+  | 'toiletOpensIntoFood'
+  | 'unzonedKitchen';
+
+export type HygieneSeverity = 'error' | 'warning';
+
+export interface HygieneFinding {
+  id: string;
+  rule: HygieneRuleId;
+  severity: HygieneSeverity;
+  /** Offending door or space */
+  elementId: string;
+  elementName: string;
+  storeyId: string | null;
+  /** Spaces involved (both sides of a door, start/crossed/target space of a route) */
+  spaceIds: string[];
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+export const HYGIENE_ZONE_FLOW: Record<HygieneZone, HygieneFlow> = {
+  delivery: 'unclean',
+  coldStorage: 'clean',
+  prep: 'clean',
+  cooking: 'clean',
+  dishwashing: 'unclean',
+  waste: 'unclean',
+};
+
+export const HYGIENE_ZONE_COLORS: Record<HygieneZone, string> = {
+  delivery: '#a1887f',
+  coldStorage: '#4fc3f7',
+  prep: '#81c784',
+  cooking: '#ffb74d',
+  dishwashing: '#9575cd',
+  waste: '#e57373',
+};
+
+/** Clean/unclean neighbours that belong to the intended goods flow */
+const PERMITTED_CROSSINGS: [HygieneZone, HygieneZone][] = [['delivery', 'coldStorage']];
+
+/** Zones that require a handwash basin nearby */
+const HANDWASH_ZONES: HygieneZone[] = ['prep', 'cooking'];
+
+/** Max. distance of a handwash basin in a neighbouring space to the connecting door (m) */
+export const HANDWASH_MAX_DISTANCE = 5;
+
+const HANDWASH_KEYWORDS = ['handwasch', 'waschbecken', 'lavabo', 'handwash', 'hand basin'];
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+export function getHygieneZone(space: BimElement): HygieneZone | undefined {
+  return space.spaceData?.hygieneZone;
+}
+
+/**
+ * Spaces where food is handled (zoned except waste, unzoned kitchens and bars)
+ */
+export function isFoodArea(space: BimElement): boolean {
+  const zone = getHygieneZone(space);
+  if (zone) return zone !== 'waste';
+  const category = space.spaceData?.gastroCategory;
+  return category === 'KUECHE' || category === 'BAR';
+}
+
+/**
+ * Handwash basin by furniture category or name
+ */
+export function isHandwashBasin(element: BimElement): boolean {
+  if (!element.furnitureData) return false;
+  if (element.furnitureData.category === 'handwash-basin') return true;
+  const text = element.name.toLowerCase();
+  return HANDWASH_KEYWORDS.some((keyword) => text.includes(keyword));
+}
+
+function isPermittedCrossing(a: HygieneZone, b: HygieneZone): boolean {
+  return PERMITTED_CROSSINGS.some(([x, y]) => (x === a && y === b) || (x === b && y === a));
+}
+
+/**
+ * Neighbouring spaces through doors and stairs
+ */
+function getNeighbours(node: RoomNode): string[] {
+  return [
+    ...node.doors.map((door) => door.connectsTo),
+    ...node.stairs.map((stair) => stair.connectsToSpace),
+  ].filter((id): id is string => id !== null);
+}
+
+/**
+ * Shortest route (fewest rooms) from the start space to one of the targets, null if unreachable
+ *
+ * @param blockedIds - Spaces the route must not pass through
+ */
+export function findRoomRoute(
+  startId: string,
+  targetIds: Set<string>,
+  graph: Map<string, RoomNode>,
+  blockedIds: Set<string> = new Set()
+): string[] | null {
+  const previous = new Map<string, string | null>([[startId, null]]);
+  const queue = [startId];
+
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    if (current !== startId && targetIds.has(current)) {
+      const route = [current];
+      let step = previous.get(current);
+      while (step) {
+        route.unshift(step);
+        step = previous.get(step);
+      }
+      return route;
+    }
+    const node = graph.get(current);
+    if (!node) continue;
+    for (const neighbour of getNeighbours(node)) {
+      if (previous.has(neighbour) || (blockedIds.has(neighbour) && !targetIds.has(neighbour))) continue;
+      previous.set(neighbour, current);
+      queue.push(neighbour);
+    }
+  }
+  return null;
+}
+
+// ============================================================================
+// Check
+// ============================================================================
+
+/**
+ * Run all hygiene rules over the model. Only checks kitchens once at least
+ * one space is zoned.
+ */
+export function checkHygiene(elements: BimElement[], storeys: StoreyInfo[]): HygieneFinding[] {
+  const spaces = elements.filter((e) => e.type === 'space' && e.spaceData);
+  const doors = elements.filter((e) => e.type === 'door' && e.doorData);
+  const walls = elements.filter((e) => e.type === 'wall');
+  const stairs = elements.filter((e) => e.type === 'stair');
+  const storeyIds = new Set(storeys.map((s) => s.id));
+
+  const findings: HygieneFinding[] = [];
+  const addFinding = (finding: Omit<HygieneFinding, 'id' | 'storeyId'>, element: BimElement) => {
+    findings.push({
+      ...finding,
+      id: `${finding.rule}-${finding.elementId}-${findings.length}`,
+      storeyId: element.parentId && storeyIds.has(element.parentId) ? element.parentId : null,
+    });
+  };
+
+  const zoned = spaces.filter((space) => getHygieneZone(space));
+  if (zoned.length === 0) return findings;
+  const spaceById = new Map(spaces.map((space) => [space.id, space]));
+
+  // Kitchens without zone are not covered by the flow rules
+  for (const space of spaces) {
+    if (space.spaceData?.gastroCategory === 'KUECHE' && !getHygieneZone(space)) {
+      addFinding(
+        { rule: 'unzonedKitchen', severity: 'warning', elementId: space.id, elementName: space.name, spaceIds: [space.id] },
+        space
+      );
+    }
+  }
+
+  // Doors: clean/unclean crossings and toilets opening into food areas
+  const doorSpaces = new Map<string, BimElement[]>();
+  for (const door of doors) {
+    const { space1, space2 } = findConnectedSpaces(door, walls, spaces);
+    const sides = [space1, space2]
+      .map((id) => (id ? spaceById.get(id) : undefined))
+      .filter((space): space is BimElement => space !== undefined);
+    doorSpaces.set(door.id, sides);
+    const [a, b] = sides;
+    if (!a || !b || a.id === b.id) continue;
+
+    const zoneA = getHygieneZone(a);
+    const zoneB = getHygieneZone(b);
+    if (
+      zoneA &&
+      zoneB &&
+      HYGIENE_ZONE_FLOW[zoneA] !== HYGIENE_ZONE_FLOW[zoneB] &&
+      !isPermittedCrossing(zoneA, zoneB)
+    ) {
+      addFinding(
+        {
+          rule: 'flowCrossing',
+          // Waste next to food is never acceptable, other crossings need a separation concept
+          severity: zoneA === 'waste' || zoneB === 'waste' ? 'error' : 'warning',
+          elementId: door.id,
+          elementName: door.name,
+          spaceIds: [a.id, b.id],
+        },
+        door
+      );
+    }
+
+    const toilet = [a, b].find((space) => space.spaceData?.gastroCategory === 'SANITAER');
+    const food = [a, b].find((space) => space !== toilet && isFoodArea(space));
+    if (toilet && food) {
+      addFinding(
+        {
+          rule: 'toiletOpensIntoFood',
+          severity: 'error',
+          elementId: door.id,
+          elementName: door.name,
+          spaceIds: [toilet.id, food.id],
+        },
+        door
+      );
+    }
+  }
+
+  // Routes of goods and waste must not pass through clean zones
+  const graph = buildRoomGraph(spaces, doors, walls, stairs, [], storeys);
+  const idsOfZones = (zones: HygieneZone[]) =>
+    new Set(zoned.filter((space) => zones.includes(getHygieneZone(space)!)).map((space) => space.id));
+  const checkRoute = (rule: 'deliveryRoute' | 'wasteRoute', start: BimElement, targets: Set<string>, avoid: HygieneZone[]) => {
+    // Fine as long as any route (e.g. via a corridor) avoids the clean zones
+    if (findRoomRoute(start.id, targets, graph, idsOfZones(avoid))) return;
+
+    const route = findRoomRoute(start.id, targets, graph);
+    const crossed = route
+      ?.slice(1, -1)
+      .map((id) => spaceById.get(id))
+      .find((space) => space && avoid.includes(getHygieneZone(space)!));
+    if (route && crossed) {
+      addFinding(
+        {
+          rule,
+          severity: 'warning',
+          elementId: start.id,
+          elementName: start.name,
+          spaceIds: [start.id, crossed.id, route[route.length - 1]!],
+        },
+        start
+      );
+    }
+  };
+
+  const storage = idsOfZones(['coldStorage']);
+  const wasteRooms = idsOfZones(['waste']);
+  for (const space of zoned) {
+    const zone = getHygieneZone(space)!;
+    if (zone === 'delivery' && storage.size > 0) {
+      checkRoute('deliveryRoute', space, storage, ['prep', 'cooking']);
+    }
+    if ((zone === 'dishwashing' || zone === 'prep' || zone === 'cooking') && wasteRooms.size > 0) {
+      checkRoute('wasteRoute', space, wasteRooms, ['coldStorage', 'prep', 'cooking']);
+    }
+  }
+
+  // Handwash basin in the space or close to the door of a neighbouring space
+  const basins = elements.filter(isHandwashBasin);
+  const basinSpace = new Map(basins.map((basin) => [basin.id, findContainingSpace(basin, spaces)?.id]));
+  for (const space of zoned) {
+    if (!HANDWASH_ZONES.includes(getHygieneZone(space)!)) continue;
+    const hasBasin = basins.some((basin) => {
+      const containing = basinSpace.get(basin.id);
+      if (containing === space.id) return true;
+      return doors.some((door) => {
+        const sides = doorSpaces.get(door.id) ?? [];
+        if (!sides.some((s) => s.id === space.id) || !sides.some((s) => s.id === containing)) return false;
+        const doorPosition = getDoorPosition(door, walls);
+        return doorPosition !== null && distance2D(doorPosition, getElementPlanPosition(basin)) <= HANDWASH_MAX_DISTANCE;
+      });
+    });
+    if (!hasBasin) {
+      addFinding(
+        { rule: 'handwashMissing', severity: 'error', elementId: space.id, elementName: space.name, spaceIds: [space.id] },
+        space
+      );
+    }
+  }
+
+  return findings;
+}
@@ -0,0 +1,20 @@
+/**
+ * Hygiene (PRO module)
+ *
+ * HACCP zoning of the kitchen spaces and checks of the clean/unclean flows.
+ */
+
+export {
+  checkHygiene,
+  findRoomRoute,
+  getHygieneZone,
+  isFoodArea,
+  isHandwashBasin,
+  HYGIENE_ZONE_FLOW,
+  HYGIENE_ZONE_COLORS,
+  HANDWASH_MAX_DISTANCE,
+  type HygieneFlow,
+  type HygieneRuleId,
+  type HygieneSeverity,
+  type HygieneFinding,
+} from './hygieneCheck';
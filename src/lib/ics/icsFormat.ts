@@ -0,0 +1,46 @@
+/**
+ * iCalendar Formatting (RFC 5545)
+ *
+ * Text escaping, line folding and UTC timestamps shared by the calendar
+ * exports of the PRO modules (maintenance, cleaning).
+ */
+
+/** Max. line length in octets before folding (RFC 5545 §3.1) */
+const ICS_LINE_LENGTH = 75;
+
+export function escapeIcsText(text: string): string {
+  return text.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+}
+
+/**
+ * Fold a content line into chunks of at most 75 octets (continuation lines start with a space)
+ */
+export function foldIcsLine(line: string): string {
+  const encoder = new TextEncoder();
+  const chunks: string[] = [];
+  let current = '';
+  let currentLength = 0;
+
+  for (const char of line) {
+    const length = encoder.encode(char).length;
+    // Continuation lines lose one octet to the leading space
+    const limit = chunks.length === 0 ? ICS_LINE_LENGTH : ICS_LINE_LENGTH - 1;
+    if (currentLength + length > limit) {
+      chunks.push(current);
+      current = '';
+      currentLength = 0;
+    }
+    current += char;
+    currentLength += length;
+  }
+  chunks.push(current);
+
+  return chunks.join('\r\n ');
+}
+
+/**
+ * UTC date-time (DTSTAMP), e.g. 20260102T080000Z
+ */
+export function formatIcsTimestamp(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
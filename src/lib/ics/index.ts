@@ -0,0 +1,5 @@
+/**
+ * iCalendar (RFC 5545) helpers for calendar exports
+ */
+
+export { escapeIcsText, foldIcsLine, formatIcsTimestamp } from './icsFormat';
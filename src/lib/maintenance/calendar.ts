@@ -0,0 +1,119 @@
+/**
+ * Maintenance Calendar Export
+ *
+ * Schedule entries as iCalendar (RFC 5545, all-day events) for calendar
+ * apps and as CSV for spreadsheets.
+ */
+
+import { escapeIcsText, foldIcsLine, formatIcsTimestamp } from '@/lib/ics';
+import { downloadBlob } from '@/lib/utils/download';
+import type { MaintenanceEntry } from './schedule';
+
+/**
+ * Display texts of an entry (task label, asset details), resolved by the caller
+ */
+export interface MaintenanceEntryText {
+  summary: string;
+  description: string;
+}
+
+export type MaintenanceTextLookup = (entry: MaintenanceEntry) => MaintenanceEntryText;
+
+// ============================================================================
+// iCalendar
+// ============================================================================
+
+function formatIcsDate(isoDate: string): string {
+  return isoDate.replace(/-/g, '');
+}
+
+function nextDay(isoDate: string): string {
+  const date = new Date(`${isoDate}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + 1);
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Schedule as iCalendar file content (one all-day event per entry)
+ */
+export function scheduleToIcs(entries: MaintenanceEntry[], getText: MaintenanceTextLookup, calendarName: string): string {
+  const stamp = formatIcsTimestamp(new Date());
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//CoffeeBIM//Maintenance Schedule//DE',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeIcsText(calendarName)}`,
+  ];
+
+  for (const entry of entries) {
+    const { summary, description } = getText(entry);
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:${entry.id}@coffeebim`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART;VALUE=DATE:${formatIcsDate(entry.dueDate)}`,
+      `DTEND;VALUE=DATE:${formatIcsDate(nextDay(entry.dueDate))}`,
+      `SUMMARY:${escapeIcsText(summary)}`,
+      `DESCRIPTION:${escapeIcsText(description)}`,
+      `CATEGORIES:${entry.kind === 'warrantyExpiry' ? 'Garantie' : 'Wartung'}`,
+      'TRANSP:TRANSPARENT',
+      'END:VEVENT'
+    );
+  }
+
+  lines.push('END:VCALENDAR');
+  return lines.map(foldIcsLine).join('\r\n') + '\r\n';
+}
+
+// ============================================================================
+// CSV
+// ============================================================================
+
+function csvRow(cells: (string | number | null | undefined)[]): string {
+  return cells.map((cell) => `"${String(cell ?? '').replace(/"/g, '""')}"`).join(';');
+}
+
+/**
+ * Schedule as CSV (semicolon separated)
+ */
+export function scheduleToCsv(
+  entries: MaintenanceEntry[],
+  getText: MaintenanceTextLookup,
+  getStoreyName: (id: string | null) => string = () => ''
+): string {
+  const lines = [
+    csvRow(['due_date', 'task', 'asset', 'storey', 'equipment_type', 'interval_months', 'overdue', 'assumed', 'details']),
+  ];
+  for (const entry of entries) {
+    const { summary, description } = getText(entry);
+    lines.push(
+      csvRow([
+        entry.dueDate,
+        summary,
+        entry.elementName,
+        getStoreyName(entry.storeyId),
+        entry.equipmentType,
+        entry.intervalMonths,
+        entry.overdue ? 1 : 0,
+        entry.assumed ? 1 : 0,
+        // One line per entry in spreadsheet apps
+        description.replace(/\n/g, ' · '),
+      ])
+    );
+  }
+  return lines.join('\n');
+}
+
+// ============================================================================
+// Download
+// ============================================================================
+
+/**
+ * Trigger the browser download of the schedule
+ */
+export function downloadMaintenanceSchedule(content: string, format: 'ics' | 'csv', fileName: string): void {
+  const type = format === 'ics' ? 'text/calendar;charset=utf-8' : 'text/csv;charset=utf-8';
+  downloadBlob(content, type, `${fileName}.${format}`);
+}
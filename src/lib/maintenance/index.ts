@@ -0,0 +1,33 @@
+/**
+ * Maintenance & Service (PRO module)
+ *
+ * Service intervals per equipment type, schedule generation and
+ * calendar/CSV export.
+ */
+
+export {
+  generateMaintenanceSchedule,
+  getMaintenanceAsset,
+  getMaintenanceAssets,
+  markMaintenanceDone,
+  addMonths,
+  toIsoDate,
+  MAINTENANCE_INTERVALS,
+  MAINTENANCE_TASK_TYPES,
+  MAINTENANCE_PSET,
+  DEFAULT_MAINTENANCE_HORIZON,
+  type MaintenanceTaskType,
+  type MaintenanceEntryKind,
+  type MaintenanceInterval,
+  type MaintenanceAsset,
+  type MaintenanceEntry,
+  type MaintenanceScheduleOptions,
+} from './schedule';
+
+export {
+  scheduleToIcs,
+  scheduleToCsv,
+  downloadMaintenanceSchedule,
+  type MaintenanceEntryText,
+  type MaintenanceTextLookup,
+} from './calendar';
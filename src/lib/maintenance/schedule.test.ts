@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import type { BimElement } from '@/types/bim';
+import { createFurniture } from '@/bim/elements/Furniture';
+import { generateMaintenanceSchedule } from './schedule';
+
+/** Filter coffee brewer (descaling every 3 months) bought on the given day */
+function createBrewer(purchaseDate: string): BimElement {
+  const element = createFurniture({
+    name: 'Filterkaffeemaschine',
+    category: 'equipment',
+    modelUrl: '',
+    modelFormat: 'glb',
+    originalFileName: '',
+    position: { x: 0, y: 0, z: 0 },
+    storeyId: 'eg',
+  });
+  return {
+    ...element,
+    properties: [
+      { name: 'Pset_Grunddaten', properties: { CoffeeEquipmentType: 'COFFEEBREWER' } },
+      { name: 'Pset_KaufdatenGarantie', properties: { Kaufdatum: purchaseDate } },
+    ],
+  };
+}
+
+describe('generateMaintenanceSchedule', () => {
+  it('keeps month-end due dates after a shorter month', () => {
+    const schedule = generateMaintenanceSchedule([createBrewer('2026-08-31')], {
+      from: new Date(2026, 8, 1),
+      horizonMonths: 12,
+    });
+
+    expect(schedule.map((entry) => entry.dueDate)).toEqual([
+      '2026-11-30',
+      '2027-02-28',
+      '2027-05-31',
+      '2027-08-31',
+    ]);
+  });
+});
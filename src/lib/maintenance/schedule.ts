@@ -0,0 +1,309 @@
+/**
+ * Maintenance Schedule (Wartungsplanung)
+ *
+ * Service intervals per coffee equipment type and the calendar of upcoming
+ * service tasks and warranty expiries of the placed assets. Intervals are
+ * manufacturer-typical guideline values; the last execution of each task is
+ * stored per asset in Pset_Wartung.
+ */
+
+import type { BimElement, CoffeeEquipmentType, PropertySet } from '@/types/bim';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type MaintenanceTaskType =
+  | 'descaling'
+  | 'burrChange'
+  | 'filterReplacement'
+  | 'gasketChange'
+  | 'condenserCleaning'
+  | 'service';
+
+/** Calendar entry kind: a service task or the end of the warranty */
+export type MaintenanceEntryKind = MaintenanceTaskType | 'warrantyExpiry';
+
+export interface MaintenanceInterval {
+  task: MaintenanceTaskType;
+  /** Interval between two executions (months) */
+  months: number;
+}
+
+/**
+ * Asset with a coffee equipment type (furniture or counter appliance)
+ */
+export interface MaintenanceAsset {
+  element: BimElement;
+  equipmentType: CoffeeEquipmentType;
+  manufacturer: string;
+  model: string;
+  serialNumber: string;
+  /** ISO dates (YYYY-MM-DD) */
+  purchaseDate: string | null;
+  warrantyUntil: string | null;
+  /** Last execution per task (ISO date) */
+  lastDone: Partial<Record<MaintenanceTaskType, string>>;
+}
+
+export interface MaintenanceEntry {
+  /** Stable key (asset, kind, due date) - used as calendar UID */
+  id: string;
+  kind: MaintenanceEntryKind;
+  elementId: string;
+  elementName: string;
+  storeyId: string | null;
+  equipmentType: CoffeeEquipmentType;
+  /** ISO date (YYYY-MM-DD) */
+  dueDate: string;
+  /** Due before the start of the schedule and not done yet */
+  overdue: boolean;
+  /** Neither a last execution nor a purchase date is known - due date is assumed */
+  assumed: boolean;
+  /** Interval of the task (months), undefined for warranty expiries */
+  intervalMonths?: number;
+}
+
+export interface MaintenanceScheduleOptions {
+  /** Start of the schedule (default: today) */
+  from?: Date;
+  /** Length of the schedule (months) */
+  horizonMonths?: number;
+}
+
+// ============================================================================
+// Intervals
+// ============================================================================
+
+/** Name of the pset with the last execution date per task */
+export const MAINTENANCE_PSET = 'Pset_Wartung';
+
+export const MAINTENANCE_TASK_TYPES: MaintenanceTaskType[] = [
+  'descaling',
+  'burrChange',
+  'filterReplacement',
+  'gasketChange',
+  'condenserCleaning',
+  'service',
+];
+
+export const DEFAULT_MAINTENANCE_HORIZON = 12;
+
+/**
+ * Service intervals per equipment type (guideline values, hard water assumed)
+ */
+export const MAINTENANCE_INTERVALS: Record<CoffeeEquipmentType, MaintenanceInterval[]> = {
+  ESPRESSOMACHINE: [
+    { task: 'descaling', months: 3 },
+    { task: 'gasketChange', months: 6 },
+    { task: 'service', months: 12 },
+  ],
+  COFFEEGRINDER: [
+    { task: 'burrChange', months: 12 },
+  ],
+  COFFEEBREWER: [
+    { task: 'descaling', months: 3 },
+  ],
+  MILKFROTHER: [
+    { task: 'descaling', months: 3 },
+  ],
+  COFFEEROASTER: [
+    { task: 'service', months: 12 },
+  ],
+  WATERFILTRATION: [
+    { task: 'filterReplacement', months: 6 },
+  ],
+  ICEMACHINE: [
+    { task: 'descaling', months: 6 },
+    { task: 'filterReplacement', months: 6 },
+  ],
+  BLENDER: [],
+  TOASTER: [],
+  CONTACTGRILL: [
+    { task: 'service', months: 12 },
+  ],
+  DISPLAYCASE: [
+    { task: 'condenserCleaning', months: 6 },
+    { task: 'service', months: 12 },
+  ],
+  CASHREGISTER: [],
+};
+
+// ============================================================================
+// Dates
+// ============================================================================
+
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+function parseIsoDate(value: unknown): Date | null {
+  if (typeof value !== 'string' || !ISO_DATE_PATTERN.test(value)) return null;
+  const date = new Date(`${value}T00:00:00Z`);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * Date as YYYY-MM-DD (UTC, so the day never shifts with the time zone)
+ */
+export function toIsoDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Add months, clamping to the last day of the target month (31.01. + 1 -> 28./29.02.)
+ */
+export function addMonths(date: Date, months: number): Date {
+  const year = date.getUTCFullYear();
+  const month = date.getUTCMonth() + months;
+  const lastDay = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+  return new Date(Date.UTC(year, month, Math.min(date.getUTCDate(), lastDay)));
+}
+
+/**
+ * Due dates every `months` after `base` up to `until`. Each date is computed
+ * from the base, so a clamped month end (31.08. -> 30.11.) does not carry over.
+ */
+function getDueDates(base: Date, months: number, until: Date): Date[] {
+  const dates: Date[] = [];
+  for (let n = 1; ; n++) {
+    const due = addMonths(base, n * months);
+    if (due > until) return dates;
+    dates.push(due);
+  }
+}
+
+/** Local calendar day as UTC midnight */
+function startOfDay(date: Date): Date {
+  return new Date(Date.UTC(date.getFullYear(), date.getMonth(), date.getDate()));
+}
+
+// ============================================================================
+// Assets
+// ============================================================================
+
+function findPset(element: BimElement, name: string): PropertySet | undefined {
+  return element.properties?.find((pset) => pset.name === name);
+}
+
+function isEquipmentType(value: unknown): value is CoffeeEquipmentType {
+  return typeof value === 'string' && value in MAINTENANCE_INTERVALS;
+}
+
+/**
+ * Asset data of an element, null if it has no coffee equipment type
+ */
+export function getMaintenanceAsset(element: BimElement): MaintenanceAsset | null {
+  const grunddaten = findPset(element, 'Pset_Grunddaten')?.properties;
+  const equipmentType = grunddaten?.CoffeeEquipmentType;
+  if (!isEquipmentType(equipmentType)) return null;
+
+  const kaufdaten = findPset(element, 'Pset_KaufdatenGarantie')?.properties;
+  const wartung = findPset(element, MAINTENANCE_PSET)?.properties ?? {};
+
+  const lastDone: Partial<Record<MaintenanceTaskType, string>> = {};
+  for (const task of MAINTENANCE_TASK_TYPES) {
+    const date = parseIsoDate(wartung[task]);
+    if (date) lastDone[task] = toIsoDate(date);
+  }
+
+  const purchaseDate = parseIsoDate(kaufdaten?.Kaufdatum);
+  const warrantyUntil = parseIsoDate(kaufdaten?.GarantieBis);
+
+  return {
+    element,
+    equipmentType,
+    manufacturer: String(grunddaten?.Hersteller ?? ''),
+    model: String(grunddaten?.Typ ?? ''),
+    serialNumber: String(grunddaten?.Seriennummer ?? ''),
+    purchaseDate: purchaseDate ? toIsoDate(purchaseDate) : null,
+    warrantyUntil: warrantyUntil ? toIsoDate(warrantyUntil) : null,
+    lastDone,
+  };
+}
+
+export function getMaintenanceAssets(elements: BimElement[]): MaintenanceAsset[] {
+  return elements
+    .map(getMaintenanceAsset)
+    .filter((asset): asset is MaintenanceAsset => asset !== null);
+}
+
+/**
+ * Properties with the task marked as done on the given date (Pset_Wartung is created if missing)
+ */
+export function markMaintenanceDone(element: BimElement, task: MaintenanceTaskType, date: Date): PropertySet[] {
+  const properties = element.properties ?? [];
+  const value = toIsoDate(date);
+
+  if (!findPset(element, MAINTENANCE_PSET)) {
+    return [...properties, { name: MAINTENANCE_PSET, properties: { [task]: value } }];
+  }
+  return properties.map((pset) =>
+    pset.name === MAINTENANCE_PSET ? { ...pset, properties: { ...pset.properties, [task]: value } } : pset
+  );
+}
+
+// ============================================================================
+// Schedule
+// ============================================================================
+
+/**
+ * Upcoming service tasks and warranty expiries, sorted by due date.
+ * A task that is overdue appears once; the following executions are
+ * planned from the start of the schedule.
+ */
+export function generateMaintenanceSchedule(
+  elements: BimElement[],
+  options: MaintenanceScheduleOptions = {}
+): MaintenanceEntry[] {
+  const from = startOfDay(options.from ?? new Date());
+  const until = addMonths(from, options.horizonMonths ?? DEFAULT_MAINTENANCE_HORIZON);
+  const entries: MaintenanceEntry[] = [];
+
+  for (const asset of getMaintenanceAssets(elements)) {
+    const { element, equipmentType } = asset;
+    const createEntry = (
+      kind: MaintenanceEntryKind,
+      due: Date,
+      extra: Partial<MaintenanceEntry> = {}
+    ): MaintenanceEntry => ({
+      id: `${element.id}-${kind}-${toIsoDate(due)}`,
+      kind,
+      elementId: element.id,
+      elementName: element.name,
+      storeyId: element.parentId ?? null,
+      equipmentType,
+      dueDate: toIsoDate(due),
+      overdue: due < from,
+      assumed: false,
+      ...extra,
+    });
+
+    for (const { task, months } of MAINTENANCE_INTERVALS[equipmentType]) {
+      if (months <= 0) continue;
+
+      const base = parseIsoDate(asset.lastDone[task] ?? asset.purchaseDate);
+      if (!base) {
+        // No history: due now, so the first execution gets recorded
+        entries.push(createEntry(task, from, { assumed: true, intervalMonths: months }));
+        for (const due of getDueDates(from, months, until)) {
+          entries.push(createEntry(task, due, { assumed: true, intervalMonths: months }));
+        }
+        continue;
+      }
+
+      const firstDue = addMonths(base, months);
+      if (firstDue < from) {
+        entries.push(createEntry(task, firstDue, { intervalMonths: months }));
+      }
+      for (const due of getDueDates(firstDue < from ? from : base, months, until)) {
+        entries.push(createEntry(task, due, { intervalMonths: months }));
+      }
+    }
+
+    const warrantyUntil = parseIsoDate(asset.warrantyUntil);
+    if (warrantyUntil && warrantyUntil >= from && warrantyUntil <= until) {
+      entries.push(createEntry('warrantyExpiry', warrantyUntil));
+    }
+  }
+
+  return entries.sort((a, b) => a.dueDate.localeCompare(b.dueDate) || a.elementName.localeCompare(b.elementName));
+}
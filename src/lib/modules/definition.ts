@@ -0,0 +1,369 @@
+/**
+ * Custom Module Definitions
+ *
+ * Factories, validation and JSON exchange of the user-defined PRO modules.
+ * A definition file (.json) can be shared between projects; the values of
+ * the elements stay in the project.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import type { ElementType } from '@/types/bim';
+import type {
+  CustomModuleDefinition,
+  CustomModuleId,
+  ModuleComputedField,
+  ModulePropertyDefinition,
+  ModulePropertyType,
+  ModuleTotal,
+} from '@/types/proMode';
+import { ExpressionError, getExpressionVariables, parseExpression, type ExpressionErrorCode } from './expression';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type ModuleDefinitionIssueCode =
+  | 'nameMissing'
+  | 'psetNameInvalid'
+  | 'noElementTypes'
+  | 'propertyNameInvalid'
+  | 'propertyNameDuplicate'
+  | 'propertyNameReserved'
+  | 'enumWithoutOptions'
+  | 'defaultInvalid'
+  | 'expressionInvalid'
+  | 'unknownVariable'
+  | 'nonNumericVariable';
+
+export interface ModuleDefinitionIssue {
+  code: ModuleDefinitionIssueCode;
+  /** Property or computed field the issue refers to */
+  field?: string;
+  /** Unknown variable or offending token */
+  detail?: string;
+  /** Parser error of expressionInvalid */
+  expressionError?: ExpressionErrorCode;
+}
+
+/**
+ * Error thrown when a module definition file cannot be read
+ */
+export class ModuleDefinitionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ModuleDefinitionError';
+  }
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Format identifier of exported module definition files */
+export const MODULE_DEFINITION_FORMAT = 'coffeebim-modules';
+
+export const MODULE_PROPERTY_TYPES: ModulePropertyType[] = ['text', 'number', 'boolean', 'enum', 'date'];
+
+/** Icons available for custom modules (Lucide names) */
+export const CUSTOM_MODULE_ICONS = [
+  'Puzzle',
+  'Volume2',
+  'Thermometer',
+  'Droplets',
+  'Wind',
+  'Sun',
+  'Lightbulb',
+  'Leaf',
+  'Accessibility',
+  'Ruler',
+] as const;
+
+export type CustomModuleIconName = (typeof CUSTOM_MODULE_ICONS)[number];
+
+export const MODULE_ELEMENT_TYPES: ElementType[] = [
+  'space',
+  'wall',
+  'slab',
+  'door',
+  'window',
+  'column',
+  'stair',
+  'counter',
+  'furniture',
+  'signage',
+];
+
+/**
+ * Element quantities available in computed fields (SI units: m, m², m³).
+ * Property names must not shadow them.
+ */
+export const ELEMENT_QUANTITIES = ['Length', 'Width', 'Depth', 'Height', 'Thickness', 'Area', 'Volume', 'Perimeter'] as const;
+
+export type ElementQuantity = (typeof ELEMENT_QUANTITIES)[number];
+
+/** IFC identifiers: letter first, then letters, digits and underscores */
+const NAME_PATTERN = /^[A-Za-z][A-Za-z0-9_]*$/;
+
+// ============================================================================
+// Factories
+// ============================================================================
+
+export function createCustomModule(name: string): CustomModuleDefinition {
+  return {
+    id: `custom:${uuidv4()}`,
+    name,
+    description: '',
+    icon: 'Puzzle',
+    elementTypes: ['space'],
+    psetName: `Pset_${name.replace(/[^A-Za-z0-9_]/g, '') || 'Custom'}`,
+    properties: [],
+    computedFields: [],
+  };
+}
+
+export function createModuleProperty(name: string, type: ModulePropertyType = 'number'): ModulePropertyDefinition {
+  return {
+    name,
+    label: name,
+    type,
+    defaultValue: getEmptyValue(type),
+    ...(type === 'enum' ? { options: [] } : {}),
+  };
+}
+
+export function createComputedField(name: string): ModuleComputedField {
+  return { name, label: name, expression: '', decimals: 2 };
+}
+
+/**
+ * Default value of a new property or after a type change
+ */
+export function getEmptyValue(type: ModulePropertyType): ModulePropertyDefinition['defaultValue'] {
+  switch (type) {
+    case 'boolean':
+      return false;
+    case 'number':
+      return null;
+    default:
+      return '';
+  }
+}
+
+/**
+ * Room acoustics after DIN 18041 as a ready-made example:
+ * target reverberation time per use and the Sabine reverberation time.
+ */
+export function createAcousticsModule(): CustomModuleDefinition {
+  return {
+    ...createCustomModule('Akustik'),
+    description: 'Raumakustik nach DIN 18041: Nutzungsart, Absorption, Nachhallzeit (Sabine)',
+    icon: 'Volume2',
+    elementTypes: ['space'],
+    psetName: 'Pset_RoomAcoustics',
+    properties: [
+      {
+        name: 'UsageGroup',
+        label: 'Nutzungsart (DIN 18041)',
+        type: 'enum',
+        options: ['A1 Musik', 'A2 Sprache', 'A3 Unterricht', 'B3 Gastronomie', 'B4 Verkehrsfläche'],
+        defaultValue: 'B3 Gastronomie',
+      },
+      { name: 'TargetReverberationTime', label: 'Soll-Nachhallzeit', type: 'number', unit: 's', defaultValue: 0.8, min: 0 },
+      {
+        name: 'AbsorptionCoefficient',
+        label: 'Mittlerer Absorptionsgrad',
+        type: 'number',
+        defaultValue: 0.15,
+        min: 0,
+        max: 1,
+        total: 'average',
+      },
+      { name: 'AbsorberInstalled', label: 'Absorber vorhanden', type: 'boolean', defaultValue: false },
+    ],
+    computedFields: [
+      // Floor, ceiling and walls of the room
+      {
+        name: 'SurfaceArea',
+        label: 'Raumoberfläche',
+        expression: '2 * Area + Perimeter * Height',
+        unit: 'm²',
+        decimals: 1,
+        total: 'sum',
+      },
+      {
+        name: 'EquivalentAbsorptionArea',
+        label: 'Äquivalente Absorptionsfläche',
+        expression: 'SurfaceArea * AbsorptionCoefficient',
+        unit: 'm²',
+        decimals: 1,
+        total: 'sum',
+      },
+      {
+        name: 'ReverberationTime',
+        label: 'Nachhallzeit (Sabine)',
+        expression: '0.161 * Volume / EquivalentAbsorptionArea',
+        unit: 's',
+        decimals: 2,
+      },
+    ],
+  };
+}
+
+// ============================================================================
+// Validation
+// ============================================================================
+
+/**
+ * Check names, enum options, default values and computed field expressions
+ */
+export function validateModuleDefinition(definition: CustomModuleDefinition): ModuleDefinitionIssue[] {
+  const issues: ModuleDefinitionIssue[] = [];
+  if (definition.name.trim() === '') issues.push({ code: 'nameMissing' });
+  if (!NAME_PATTERN.test(definition.psetName)) issues.push({ code: 'psetNameInvalid', detail: definition.psetName });
+  if (definition.elementTypes.length === 0) issues.push({ code: 'noElementTypes' });
+
+  const names = new Set<string>();
+  const checkName = (field: string) => {
+    if (!NAME_PATTERN.test(field)) issues.push({ code: 'propertyNameInvalid', field });
+    else if ((ELEMENT_QUANTITIES as readonly string[]).includes(field)) issues.push({ code: 'propertyNameReserved', field });
+    else if (names.has(field)) issues.push({ code: 'propertyNameDuplicate', field });
+    names.add(field);
+  };
+
+  // Variables usable in expressions: number/boolean properties, quantities, earlier computed fields
+  const numericVariables = new Set<string>(ELEMENT_QUANTITIES);
+  const textProperties = new Set<string>();
+  for (const property of definition.properties) {
+    checkName(property.name);
+    if (property.type === 'enum' && (property.options ?? []).length === 0) {
+      issues.push({ code: 'enumWithoutOptions', field: property.name });
+    }
+    if (!isValidDefault(property)) issues.push({ code: 'defaultInvalid', field: property.name });
+    if (property.type === 'number' || property.type === 'boolean') numericVariables.add(property.name);
+    else textProperties.add(property.name);
+  }
+
+  for (const field of definition.computedFields) {
+    checkName(field.name);
+    try {
+      for (const variable of getExpressionVariables(parseExpression(field.expression))) {
+        if (numericVariables.has(variable)) continue;
+        issues.push({
+          code: textProperties.has(variable) ? 'nonNumericVariable' : 'unknownVariable',
+          field: field.name,
+          detail: variable,
+        });
+      }
+    } catch (error) {
+      if (!(error instanceof ExpressionError)) throw error;
+      issues.push({ code: 'expressionInvalid', field: field.name, detail: error.token, expressionError: error.code });
+    }
+    numericVariables.add(field.name);
+  }
+
+  return issues;
+}
+
+function isValidDefault(property: ModulePropertyDefinition): boolean {
+  const value = property.defaultValue;
+  switch (property.type) {
+    case 'number':
+      return value === null || (typeof value === 'number' && Number.isFinite(value));
+    case 'boolean':
+      return typeof value === 'boolean';
+    case 'enum':
+      return value === '' || (typeof value === 'string' && (property.options ?? []).includes(value));
+    case 'date':
+      return value === '' || (typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value));
+    default:
+      return typeof value === 'string';
+  }
+}
+
+// ============================================================================
+// JSON Exchange
+// ============================================================================
+
+/**
+ * Definitions as shareable JSON file content
+ */
+export function moduleDefinitionsToJson(definitions: CustomModuleDefinition[]): string {
+  return JSON.stringify({ format: MODULE_DEFINITION_FORMAT, version: 1, modules: definitions }, null, 2);
+}
+
+/**
+ * Read a definition file. Modules get new ids unless they do not exist in
+ * the project yet, so importing the same file twice creates copies.
+ * @throws ModuleDefinitionError
+ */
+export function parseModuleDefinitions(text: string, existingIds: string[] = []): CustomModuleDefinition[] {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new ModuleDefinitionError('Ungültige Moduldatei: JSON konnte nicht gelesen werden');
+  }
+
+  const data = raw as { format?: unknown; modules?: unknown } | null;
+  if (!data || data.format !== MODULE_DEFINITION_FORMAT || !Array.isArray(data.modules)) {
+    throw new ModuleDefinitionError('Ungültige Moduldatei: keine CoffeeBIM-Moduldefinition');
+  }
+
+  return data.modules.map((module: unknown, index: number) => {
+    const definition = normalizeDefinition(module);
+    if (!definition) {
+      throw new ModuleDefinitionError(`Ungültige Moduldatei: Modul ${index + 1} ist unvollständig`);
+    }
+    return existingIds.includes(definition.id) ? { ...definition, id: `custom:${uuidv4()}` } : definition;
+  });
+}
+
+function isModuleTotal(value: unknown): value is ModuleTotal {
+  return value === 'sum' || value === 'average';
+}
+
+/**
+ * Fill optional fields and drop unknown ones; null if required fields are missing
+ */
+function normalizeDefinition(raw: unknown): CustomModuleDefinition | null {
+  if (!raw || typeof raw !== 'object') return null;
+  const module = raw as Partial<CustomModuleDefinition>;
+  if (typeof module.name !== 'string' || typeof module.psetName !== 'string') return null;
+  if (!Array.isArray(module.properties) || !Array.isArray(module.elementTypes)) return null;
+
+  const properties = module.properties.filter(
+    (property): property is ModulePropertyDefinition =>
+      typeof property?.name === 'string' && MODULE_PROPERTY_TYPES.includes(property.type)
+  );
+  const computedFields = (Array.isArray(module.computedFields) ? module.computedFields : []).filter(
+    (field): field is ModuleComputedField => typeof field?.name === 'string' && typeof field.expression === 'string'
+  );
+
+  return {
+    id: typeof module.id === 'string' && module.id.startsWith('custom:') ? (module.id as CustomModuleId) : `custom:${uuidv4()}`,
+    name: module.name,
+    description: typeof module.description === 'string' ? module.description : '',
+    icon: CUSTOM_MODULE_ICONS.includes(module.icon as CustomModuleIconName) ? module.icon! : 'Puzzle',
+    elementTypes: module.elementTypes.filter((type) => MODULE_ELEMENT_TYPES.includes(type)),
+    psetName: module.psetName,
+    properties: properties.map((property) => ({
+      name: property.name,
+      label: typeof property.label === 'string' ? property.label : property.name,
+      type: property.type,
+      ...(typeof property.unit === 'string' ? { unit: property.unit } : {}),
+      ...(property.type === 'enum' ? { options: (property.options ?? []).map(String) } : {}),
+      defaultValue: property.defaultValue ?? getEmptyValue(property.type),
+      ...(typeof property.min === 'number' ? { min: property.min } : {}),
+      ...(typeof property.max === 'number' ? { max: property.max } : {}),
+      ...(isModuleTotal(property.total) ? { total: property.total } : {}),
+    })),
+    computedFields: computedFields.map((field) => ({
+      name: field.name,
+      label: typeof field.label === 'string' ? field.label : field.name,
+      expression: field.expression,
+      ...(typeof field.unit === 'string' ? { unit: field.unit } : {}),
+      decimals: typeof field.decimals === 'number' ? Math.max(0, Math.min(6, Math.round(field.decimals))) : 2,
+      ...(isModuleTotal(field.total) ? { total: field.total } : {}),
+    })),
+  };
+}
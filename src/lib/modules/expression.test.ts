@@ -0,0 +1,98 @@
+import { describe, expect, it } from 'vitest';
+import {
+  ExpressionError,
+  evaluateExpression,
+  getExpressionVariables,
+  parseExpression,
+} from './expression';
+import {
+  createComputedField,
+  createCustomModule,
+  createModuleProperty,
+  validateModuleDefinition,
+} from './definition';
+
+function evaluate(text: string, variables: Record<string, number | null> = {}): number | null {
+  return evaluateExpression(parseExpression(text), variables);
+}
+
+function parseError(text: string): ExpressionError | null {
+  try {
+    parseExpression(text);
+    return null;
+  } catch (error) {
+    return error instanceof ExpressionError ? error : null;
+  }
+}
+
+describe('parseExpression', () => {
+  it('respects operator precedence and right-associative powers', () => {
+    expect(evaluate('1 + 2 * 3')).toBe(7);
+    expect(evaluate('(1 + 2) * 3')).toBe(9);
+    expect(evaluate('2 ^ 3 ^ 2')).toBe(512);
+    expect(evaluate('-2 ^ 2')).toBe(-4);
+  });
+
+  it('calls functions case-insensitively', () => {
+    expect(evaluate('MAX(1, 5, 3) + round(2.345, 2)')).toBeCloseTo(7.35, 10);
+  });
+
+  it('rejects unknown functions, including Object.prototype members', () => {
+    expect(parseError('foo(1)')).toMatchObject({ code: 'unknownFunction', token: 'foo' });
+    expect(parseError('constructor(1)')).toMatchObject({
+      code: 'unknownFunction',
+      token: 'constructor',
+    });
+    expect(parseError('toString()')).toMatchObject({ code: 'unknownFunction' });
+  });
+
+  it('reports syntax errors with their position', () => {
+    expect(parseError('')).toMatchObject({ code: 'empty' });
+    expect(parseError('1 +')).toMatchObject({ code: 'unexpectedEnd' });
+    expect(parseError('1 $ 2')).toMatchObject({ code: 'unexpectedToken', token: '$', position: 2 });
+    expect(parseError('sqrt(1, 2)')).toMatchObject({ code: 'argumentCount' });
+  });
+});
+
+describe('evaluateExpression', () => {
+  it('resolves variables and returns null for missing values', () => {
+    expect(evaluate('Area * Height', { Area: 20, Height: 3 })).toBe(60);
+    expect(evaluate('Area * Height', { Area: 20, Height: null })).toBeNull();
+    expect(evaluate('Area * Height', { Area: 20 })).toBeNull();
+  });
+
+  it('does not resolve variables to Object.prototype members', () => {
+    expect(evaluate('constructor + 1')).toBeNull();
+    expect(evaluate('hasOwnProperty * 2', { Area: 1 })).toBeNull();
+  });
+
+  it('returns null for non-finite results', () => {
+    expect(evaluate('1 / 0')).toBeNull();
+    expect(evaluate('sqrt(-1)')).toBeNull();
+  });
+});
+
+describe('getExpressionVariables', () => {
+  it('lists each variable once', () => {
+    expect(getExpressionVariables(parseExpression('a * b + max(a, c)'))).toEqual(['a', 'b', 'c']);
+  });
+});
+
+describe('validateModuleDefinition', () => {
+  it('reports an unknown function as invalid expression instead of throwing', () => {
+    const definition = {
+      ...createCustomModule('Akustik'),
+      properties: [createModuleProperty('Absorption')],
+      computedFields: [{ ...createComputedField('Result'), expression: 'constructor(1)' }],
+    };
+
+    expect(validateModuleDefinition(definition)).toEqual([
+      {
+        code: 'expressionInvalid',
+        field: 'Result',
+        detail: 'constructor',
+        expressionError: 'unknownFunction',
+      },
+    ]);
+  });
+});
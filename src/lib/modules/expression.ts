@@ -0,0 +1,286 @@
+/**
+ * Computed Field Expressions
+ *
+ * Small arithmetic language for the computed fields of custom modules:
+ * numbers, variables (properties, element quantities, earlier computed
+ * fields), + - * / ^, parentheses and a few functions. Parsed once into a
+ * syntax tree - no eval, so imported module definitions cannot run code.
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type ExpressionFunction = 'min' | 'max' | 'abs' | 'sqrt' | 'round' | 'ceil' | 'floor' | 'log10';
+
+export type ExpressionNode =
+  | { kind: 'number'; value: number }
+  | { kind: 'variable'; name: string }
+  | { kind: 'negate'; operand: ExpressionNode }
+  | { kind: 'binary'; operator: '+' | '-' | '*' | '/' | '^'; left: ExpressionNode; right: ExpressionNode }
+  | { kind: 'call'; name: ExpressionFunction; args: ExpressionNode[] };
+
+export type ExpressionErrorCode = 'empty' | 'unexpectedToken' | 'unexpectedEnd' | 'unknownFunction' | 'argumentCount';
+
+/** Variable values; null for unknown quantities or empty properties */
+export type ExpressionVariables = Record<string, number | null>;
+
+/**
+ * Error thrown when an expression cannot be parsed
+ */
+export class ExpressionError extends Error {
+  constructor(
+    public readonly code: ExpressionErrorCode,
+    /** Offending token or function name */
+    public readonly token: string,
+    public readonly position: number
+  ) {
+    super(`${code} at ${position}: ${token}`);
+    this.name = 'ExpressionError';
+  }
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Allowed functions with their number of arguments [min, max] */
+const FUNCTIONS: Record<ExpressionFunction, [number, number]> = {
+  min: [1, Infinity],
+  max: [1, Infinity],
+  abs: [1, 1],
+  sqrt: [1, 1],
+  round: [1, 2],
+  ceil: [1, 1],
+  floor: [1, 1],
+  log10: [1, 1],
+};
+
+export const EXPRESSION_FUNCTIONS = Object.keys(FUNCTIONS) as ExpressionFunction[];
+
+/** Own keys only, so names like `constructor` do not resolve to Object.prototype members */
+function hasOwnKey(object: object, key: string): boolean {
+  return Object.prototype.hasOwnProperty.call(object, key);
+}
+
+// ============================================================================
+// Parser
+// ============================================================================
+
+interface Token {
+  type: 'number' | 'identifier' | 'operator' | 'end';
+  text: string;
+  position: number;
+}
+
+/** Whitespace, then a number, an identifier or an operator */
+const TOKEN_PATTERN = /\s*(?:(\d+(?:\.\d*)?|\.\d+)|([A-Za-z_]\w*)|([-+*/^(),]))/y;
+
+function tokenize(text: string): Token[] {
+  const tokens: Token[] = [];
+  let position = 0;
+
+  while (text.slice(position).trim() !== '') {
+    TOKEN_PATTERN.lastIndex = position;
+    const match = TOKEN_PATTERN.exec(text);
+    if (!match) {
+      const offset = text.length - text.slice(position).trimStart().length;
+      throw new ExpressionError('unexpectedToken', text.charAt(offset), offset);
+    }
+    const [whole, number, identifier, operator] = match;
+    const tokenText = number ?? identifier ?? operator!;
+    tokens.push({
+      type: number !== undefined ? 'number' : identifier !== undefined ? 'identifier' : 'operator',
+      text: tokenText,
+      position: position + whole.length - tokenText.length,
+    });
+    position += whole.length;
+  }
+
+  tokens.push({ type: 'end', text: '', position: text.length });
+  return tokens;
+}
+
+/**
+ * Parse an expression into a syntax tree
+ * @throws ExpressionError
+ */
+export function parseExpression(text: string): ExpressionNode {
+  const tokens = tokenize(text);
+  if (tokens.length === 1) throw new ExpressionError('empty', '', 0);
+  let index = 0;
+
+  const peek = () => tokens[index]!;
+  const next = () => tokens[index++]!;
+  const fail = (token: Token): never => {
+    throw new ExpressionError(token.type === 'end' ? 'unexpectedEnd' : 'unexpectedToken', token.text, token.position);
+  };
+  const expect = (text: string) => {
+    const token = next();
+    if (token.text !== text || token.type !== 'operator') fail(token);
+  };
+
+  // additive := term (('+' | '-') term)*
+  const parseAdditive = (): ExpressionNode => {
+    let node = parseTerm();
+    while (peek().text === '+' || peek().text === '-') {
+      const operator = next().text as '+' | '-';
+      node = { kind: 'binary', operator, left: node, right: parseTerm() };
+    }
+    return node;
+  };
+
+  // term := unary (('*' | '/') unary)*
+  const parseTerm = (): ExpressionNode => {
+    let node = parseUnary();
+    while (peek().text === '*' || peek().text === '/') {
+      const operator = next().text as '*' | '/';
+      node = { kind: 'binary', operator, left: node, right: parseUnary() };
+    }
+    return node;
+  };
+
+  // unary := '-' unary | power
+  const parseUnary = (): ExpressionNode => {
+    if (peek().text === '-') {
+      next();
+      return { kind: 'negate', operand: parseUnary() };
+    }
+    return parsePower();
+  };
+
+  // power := primary ('^' unary)?  (right-associative, -2^2 = -4)
+  const parsePower = (): ExpressionNode => {
+    const base = parsePrimary();
+    if (peek().text !== '^') return base;
+    next();
+    return { kind: 'binary', operator: '^', left: base, right: parseUnary() };
+  };
+
+  const parsePrimary = (): ExpressionNode => {
+    const token = next();
+    if (token.type === 'number') return { kind: 'number', value: parseFloat(token.text) };
+    if (token.type === 'operator' && token.text === '(') {
+      const node = parseAdditive();
+      expect(')');
+      return node;
+    }
+    if (token.type !== 'identifier') return fail(token);
+    if (peek().text !== '(') return { kind: 'variable', name: token.text };
+
+    // Function call
+    const name = token.text.toLowerCase() as ExpressionFunction;
+    if (!hasOwnKey(FUNCTIONS, name)) throw new ExpressionError('unknownFunction', token.text, token.position);
+    next();
+    const args: ExpressionNode[] = [];
+    if (peek().text !== ')') {
+      args.push(parseAdditive());
+      while (peek().text === ',') {
+        next();
+        args.push(parseAdditive());
+      }
+    }
+    expect(')');
+    const [minArgs, maxArgs] = FUNCTIONS[name];
+    if (args.length < minArgs || args.length > maxArgs) {
+      throw new ExpressionError('argumentCount', token.text, token.position);
+    }
+    return { kind: 'call', name, args };
+  };
+
+  const root = parseAdditive();
+  if (peek().type !== 'end') fail(peek());
+  return root;
+}
+
+// ============================================================================
+// Evaluation
+// ============================================================================
+
+/**
+ * Names of all variables used in the expression
+ */
+export function getExpressionVariables(node: ExpressionNode): string[] {
+  switch (node.kind) {
+    case 'number':
+      return [];
+    case 'variable':
+      return [node.name];
+    case 'negate':
+      return getExpressionVariables(node.operand);
+    case 'binary':
+      return [...new Set([...getExpressionVariables(node.left), ...getExpressionVariables(node.right)])];
+    case 'call':
+      return [...new Set(node.args.flatMap(getExpressionVariables))];
+  }
+}
+
+function callFunction(name: ExpressionFunction, args: number[]): number {
+  switch (name) {
+    case 'min':
+      return Math.min(...args);
+    case 'max':
+      return Math.max(...args);
+    case 'abs':
+      return Math.abs(args[0]!);
+    case 'sqrt':
+      return Math.sqrt(args[0]!);
+    case 'round': {
+      const factor = 10 ** (args[1] ?? 0);
+      return Math.round(args[0]! * factor) / factor;
+    }
+    case 'ceil':
+      return Math.ceil(args[0]!);
+    case 'floor':
+      return Math.floor(args[0]!);
+    case 'log10':
+      return Math.log10(args[0]!);
+  }
+}
+
+function applyOperator(operator: '+' | '-' | '*' | '/' | '^', left: number, right: number): number {
+  switch (operator) {
+    case '+':
+      return left + right;
+    case '-':
+      return left - right;
+    case '*':
+      return left * right;
+    case '/':
+      return left / right;
+    case '^':
+      return left ** right;
+  }
+}
+
+/**
+ * Evaluate a syntax tree. Returns null if a variable has no value or the
+ * result is not a finite number (division by zero, sqrt of a negative value).
+ */
+export function evaluateExpression(node: ExpressionNode, variables: ExpressionVariables): number | null {
+  const evaluate = (current: ExpressionNode): number | null => {
+    switch (current.kind) {
+      case 'number':
+        return current.value;
+      case 'variable':
+        return hasOwnKey(variables, current.name) ? (variables[current.name] ?? null) : null;
+      case 'negate': {
+        const value = evaluate(current.operand);
+        return value === null ? null : -value;
+      }
+      case 'binary': {
+        const left = evaluate(current.left);
+        const right = evaluate(current.right);
+        return left === null || right === null ? null : applyOperator(current.operator, left, right);
+      }
+      case 'call': {
+        const args = current.args.map(evaluate);
+        if (args.some((arg) => arg === null)) return null;
+        return callFunction(current.name, args as number[]);
+      }
+    }
+  };
+
+  const result = evaluate(node);
+  return result !== null && Number.isFinite(result) ? result : null;
+}
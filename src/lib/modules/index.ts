@@ -0,0 +1,60 @@
+/**
+ * Custom Modules (PRO mode)
+ *
+ * Declarative property-set modules (e.g. Acoustics): definitions with typed
+ * properties and computed fields, from which the editor renders property
+ * panels, multi-edit, overview tables and the IFC property set.
+ */
+
+export {
+  createCustomModule,
+  createModuleProperty,
+  createComputedField,
+  createAcousticsModule,
+  getEmptyValue,
+  validateModuleDefinition,
+  moduleDefinitionsToJson,
+  parseModuleDefinitions,
+  ModuleDefinitionError,
+  MODULE_DEFINITION_FORMAT,
+  MODULE_PROPERTY_TYPES,
+  MODULE_ELEMENT_TYPES,
+  CUSTOM_MODULE_ICONS,
+  ELEMENT_QUANTITIES,
+  type ElementQuantity,
+  type CustomModuleIconName,
+  type ModuleDefinitionIssue,
+  type ModuleDefinitionIssueCode,
+} from './definition';
+
+export {
+  parseExpression,
+  evaluateExpression,
+  getExpressionVariables,
+  ExpressionError,
+  EXPRESSION_FUNCTIONS,
+  type ExpressionNode,
+  type ExpressionFunction,
+  type ExpressionErrorCode,
+  type ExpressionVariables,
+} from './expression';
+
+export {
+  getElementQuantities,
+  isModuleApplicable,
+  getModuleElements,
+  getModuleValues,
+  setModuleValues,
+  getComputedValues,
+  createModulePropertySet,
+  applyModulePropertySets,
+  type ElementQuantities,
+} from './values';
+
+export {
+  getModuleOverview,
+  moduleOverviewToCsv,
+  downloadModuleFile,
+  type ModuleOverview,
+  type ModuleOverviewRow,
+} from './overview';
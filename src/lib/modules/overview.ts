@@ -0,0 +1,123 @@
+/**
+ * Custom Module Overview
+ *
+ * One row per applicable element with its values and computed fields,
+ * sums or averages of the number columns, CSV export and file download.
+ */
+
+import type { BimElement } from '@/types/bim';
+import type { CustomModuleDefinition, ModulePropertyValue, ModuleTotal } from '@/types/proMode';
+import { downloadBlob } from '@/lib/utils/download';
+import { getComputedValues, getModuleElements, getModuleValues } from './values';
+
+export interface ModuleOverviewRow {
+  elementId: string;
+  elementName: string;
+  elementType: BimElement['type'];
+  storeyId: string | null;
+  values: Record<string, ModulePropertyValue>;
+  computed: Record<string, number | null>;
+}
+
+export interface ModuleOverview {
+  rows: ModuleOverviewRow[];
+  /** Sum or average of the number columns that define a total */
+  totals: Record<string, number>;
+}
+
+/**
+ * Overview of all elements the module applies to, sorted by storey order and name
+ */
+export function getModuleOverview(
+  definition: CustomModuleDefinition,
+  elements: BimElement[],
+  storeyIds: string[] = []
+): ModuleOverview {
+  const storeyIndex = (id: string | null) => (id ? storeyIds.indexOf(id) : -1);
+  const rows = getModuleElements(definition, elements)
+    .map((element) => {
+      const values = getModuleValues(element, definition);
+      return {
+        elementId: element.id,
+        elementName: element.name,
+        elementType: element.type,
+        storeyId: element.parentId,
+        values,
+        computed: getComputedValues(element, definition, elements, values),
+      };
+    })
+    .sort((a, b) => storeyIndex(a.storeyId) - storeyIndex(b.storeyId) || a.elementName.localeCompare(b.elementName));
+
+  const totals: Record<string, number> = {};
+  const addTotal = (name: string, total: ModuleTotal | undefined, values: (ModulePropertyValue | undefined)[]) => {
+    const numbers = values.filter((value): value is number => typeof value === 'number');
+    if (!total || numbers.length === 0) return;
+    const sum = numbers.reduce((a, b) => a + b, 0);
+    totals[name] = total === 'sum' ? sum : sum / numbers.length;
+  };
+  for (const property of definition.properties) {
+    if (property.type === 'number') addTotal(property.name, property.total, rows.map((row) => row.values[property.name]));
+  }
+  for (const field of definition.computedFields) {
+    addTotal(field.name, field.total, rows.map((row) => row.computed[field.name]));
+  }
+
+  return { rows, totals };
+}
+
+// ============================================================================
+// CSV
+// ============================================================================
+
+function csvRow(cells: (string | number | null | undefined)[]): string {
+  return cells.map((cell) => `"${String(cell ?? '').replace(/"/g, '""')}"`).join(';');
+}
+
+function formatCsvValue(value: ModulePropertyValue | undefined): string | number | null {
+  if (typeof value === 'boolean') return value ? 1 : 0;
+  return value ?? null;
+}
+
+/**
+ * Overview as CSV (semicolon separated), property names with unit as header
+ */
+export function moduleOverviewToCsv(
+  definition: CustomModuleDefinition,
+  overview: ModuleOverview,
+  getStoreyName: (id: string | null) => string = () => ''
+): string {
+  const header = (name: string, unit?: string) => (unit ? `${name} [${unit}]` : name);
+  const lines = [
+    csvRow([
+      'element',
+      'type',
+      'storey',
+      ...definition.properties.map((property) => header(property.name, property.unit)),
+      ...definition.computedFields.map((field) => header(field.name, field.unit)),
+    ]),
+  ];
+  for (const row of overview.rows) {
+    lines.push(
+      csvRow([
+        row.elementName,
+        row.elementType,
+        getStoreyName(row.storeyId),
+        ...definition.properties.map((property) => formatCsvValue(row.values[property.name])),
+        ...definition.computedFields.map((field) => row.computed[field.name]),
+      ])
+    );
+  }
+  return lines.join('\n');
+}
+
+// ============================================================================
+// Download
+// ============================================================================
+
+/**
+ * Trigger the browser download of the overview (CSV) or module definitions (JSON)
+ */
+export function downloadModuleFile(content: string, format: 'csv' | 'json', fileName: string): void {
+  const type = format === 'csv' ? 'text/csv;charset=utf-8' : 'application/json';
+  downloadBlob(content, type, `${fileName}.${format}`);
+}
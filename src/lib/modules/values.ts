@@ -0,0 +1,236 @@
+/**
+ * Custom Module Values
+ *
+ * The values of a custom module live in the element's property set named
+ * after the module (definition.psetName). Properties that were never edited
+ * fall back to their default; computed fields are always recalculated from
+ * the current model and never stored.
+ */
+
+import type { BimElement, PropertySet } from '@/types/bim';
+import type { CustomModuleDefinition, ModulePropertyDefinition, ModulePropertyValue } from '@/types/proMode';
+import { calculatePathLength } from '@/lib/geometry/pathOffset';
+import { getSlabQuantities, getWallQuantities } from '@/lib/quantities';
+import { ELEMENT_QUANTITIES, type ElementQuantity } from './definition';
+import { evaluateExpression, parseExpression, type ExpressionNode, type ExpressionVariables } from './expression';
+
+export type ElementQuantities = Partial<Record<ElementQuantity, number>>;
+
+// ============================================================================
+// Element Quantities
+// ============================================================================
+
+/**
+ * Quantities of an element for computed fields (m, m², m³).
+ * Walls are net of their openings, spaces use the net floor area.
+ */
+export function getElementQuantities(element: BimElement, elements: BimElement[]): ElementQuantities {
+  switch (element.type) {
+    case 'wall': {
+      const q = getWallQuantities(element, elements);
+      if (!q) return {};
+      return { Length: q.length, Height: q.height, Thickness: q.thickness, Area: q.netSideArea, Volume: q.netVolume };
+    }
+    case 'slab': {
+      const q = getSlabQuantities(element);
+      if (!q || !element.slabData) return {};
+      return { Thickness: element.slabData.thickness, Area: q.area, Volume: q.volume };
+    }
+    case 'space': {
+      if (!element.spaceData) return {};
+      const { area, netFloorArea, perimeter, netHeight } = element.spaceData;
+      const floorArea = netFloorArea ?? area;
+      const height = netHeight ?? element.geometry.height;
+      return { Area: floorArea, Perimeter: perimeter, Height: height, Volume: floorArea * height };
+    }
+    case 'door':
+    case 'window': {
+      const opening = element.doorData ?? element.windowData;
+      if (!opening) return {};
+      return { Width: opening.width, Height: opening.height, Area: opening.width * opening.height };
+    }
+    case 'column': {
+      if (!element.columnData) return {};
+      const { width, depth, height } = element.columnData;
+      return { Width: width, Depth: depth, Height: height, Area: width * depth, Volume: width * depth * height };
+    }
+    case 'counter': {
+      if (!element.counterData) return {};
+      const { path, depth, height } = element.counterData;
+      return { Length: calculatePathLength(path), Depth: depth, Height: height };
+    }
+    case 'furniture': {
+      if (!element.furnitureData) return {};
+      const { width, depth, height } = element.furnitureData;
+      return { Width: width, Depth: depth, Height: height, Area: width * depth, Volume: width * depth * height };
+    }
+    case 'stair':
+      if (!element.stairData) return {};
+      return { Height: element.stairData.totalRise, Length: element.stairData.steps.runLength };
+    default:
+      return {};
+  }
+}
+
+// ============================================================================
+// Stored Values
+// ============================================================================
+
+export function isModuleApplicable(definition: CustomModuleDefinition, element: BimElement): boolean {
+  return definition.elementTypes.includes(element.type);
+}
+
+/**
+ * Elements the module applies to
+ */
+export function getModuleElements(definition: CustomModuleDefinition, elements: BimElement[]): BimElement[] {
+  return elements.filter((element) => isModuleApplicable(definition, element));
+}
+
+function getModulePset(element: BimElement, definition: CustomModuleDefinition): PropertySet | undefined {
+  return element.properties.find((pset) => pset.name === definition.psetName);
+}
+
+/**
+ * Stored value if it matches the property type (the definition may have
+ * changed since), otherwise the default
+ */
+function coerceValue(property: ModulePropertyDefinition, value: ModulePropertyValue | undefined): ModulePropertyValue {
+  if (value === undefined) return property.defaultValue;
+  switch (property.type) {
+    case 'number':
+      return value === null || typeof value === 'number' ? value : property.defaultValue;
+    case 'boolean':
+      return typeof value === 'boolean' ? value : property.defaultValue;
+    case 'enum':
+      return typeof value === 'string' && (property.options ?? []).includes(value) ? value : property.defaultValue;
+    default:
+      return typeof value === 'string' ? value : property.defaultValue;
+  }
+}
+
+/**
+ * Values of all module properties, defaults for properties not edited yet
+ */
+export function getModuleValues(
+  element: BimElement,
+  definition: CustomModuleDefinition
+): Record<string, ModulePropertyValue> {
+  const stored = getModulePset(element, definition)?.properties ?? {};
+  return Object.fromEntries(
+    definition.properties.map((property) => [property.name, coerceValue(property, stored[property.name])])
+  );
+}
+
+/**
+ * Element update storing the given values in the module's property set
+ * (other property sets and properties of the set stay untouched)
+ */
+export function setModuleValues(
+  element: BimElement,
+  definition: CustomModuleDefinition,
+  values: Record<string, ModulePropertyValue>
+): Pick<BimElement, 'properties'> {
+  const existing = getModulePset(element, definition);
+  const pset: PropertySet = {
+    name: definition.psetName,
+    properties: { ...existing?.properties, ...values },
+  };
+  return {
+    properties: existing
+      ? element.properties.map((p) => (p === existing ? pset : p))
+      : [...element.properties, pset],
+  };
+}
+
+// ============================================================================
+// Computed Fields
+// ============================================================================
+
+const expressionCache = new Map<string, ExpressionNode | null>();
+
+/** Parsed expression, null if invalid (reported by validateModuleDefinition) */
+function getParsedExpression(expression: string): ExpressionNode | null {
+  if (!expressionCache.has(expression)) {
+    try {
+      expressionCache.set(expression, parseExpression(expression));
+    } catch {
+      expressionCache.set(expression, null);
+    }
+  }
+  return expressionCache.get(expression)!;
+}
+
+/**
+ * Computed fields of an element, rounded to their decimals; null where the
+ * expression is invalid or an input has no value
+ */
+export function getComputedValues(
+  element: BimElement,
+  definition: CustomModuleDefinition,
+  elements: BimElement[],
+  values: Record<string, ModulePropertyValue> = getModuleValues(element, definition)
+): Record<string, number | null> {
+  const quantities = getElementQuantities(element, elements);
+  const variables: ExpressionVariables = {};
+  for (const name of ELEMENT_QUANTITIES) variables[name] = quantities[name] ?? null;
+  for (const property of definition.properties) {
+    const value = values[property.name];
+    if (property.type === 'number') variables[property.name] = typeof value === 'number' ? value : null;
+    if (property.type === 'boolean') variables[property.name] = value ? 1 : 0;
+  }
+
+  const result: Record<string, number | null> = {};
+  for (const field of definition.computedFields) {
+    const node = getParsedExpression(field.expression);
+    const value = node ? evaluateExpression(node, variables) : null;
+    const factor = 10 ** field.decimals;
+    result[field.name] = value === null ? null : Math.round(value * factor) / factor;
+    // Later fields may use the exact value
+    variables[field.name] = value;
+  }
+  return result;
+}
+
+// ============================================================================
+// IFC
+// ============================================================================
+
+/**
+ * Complete property set of an element: all properties (defaults included)
+ * and the computed fields
+ */
+export function createModulePropertySet(
+  definition: CustomModuleDefinition,
+  element: BimElement,
+  elements: BimElement[]
+): PropertySet {
+  const values = getModuleValues(element, definition);
+  return {
+    name: definition.psetName,
+    properties: { ...values, ...getComputedValues(element, definition, elements, values) },
+  };
+}
+
+/**
+ * Elements with the module property sets rebuilt from the definitions,
+ * so the export carries defaults and up-to-date computed fields
+ */
+export function applyModulePropertySets(
+  elements: BimElement[],
+  definitions: CustomModuleDefinition[]
+): BimElement[] {
+  if (definitions.length === 0) return elements;
+  return elements.map((element) => {
+    const applicable = definitions.filter((definition) => isModuleApplicable(definition, element));
+    if (applicable.length === 0) return element;
+    const psetNames = new Set(applicable.map((definition) => definition.psetName));
+    return {
+      ...element,
+      properties: [
+        ...element.properties.filter((pset) => !psetNames.has(pset.name)),
+        ...applicable.map((definition) => createModulePropertySet(definition, element, elements)),
+      ],
+    };
+  });
+}
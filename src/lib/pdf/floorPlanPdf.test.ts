@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest';
+import type { StoreyInfo } from '@/types/bim';
+import { createWall } from '@/bim/elements/Wall';
+import {
+  calculatePlanFit,
+  createFloorPlanPdf,
+  type FloorPlanPdfInput,
+  type FloorPlanPdfOptions,
+} from './floorPlanPdf';
+
+const PT_PER_MM = 72 / 25.4;
+
+const storey: StoreyInfo = {
+  id: 'eg',
+  name: 'Erdgeschoss',
+  buildingId: 'b',
+  elevation: 0,
+  height: 3,
+};
+
+/** A single wall of 1 m length */
+const input: FloorPlanPdfInput = {
+  project: { id: 'p', name: 'Café Müller', description: '' },
+  site: { id: 's', name: 'Zürich', address: '' },
+  building: { id: 'b', name: 'Gebäude', siteId: 's' },
+  storeys: [storey],
+  elements: [
+    createWall({
+      startPoint: { x: 0, y: 0 },
+      endPoint: { x: 1, y: 0 },
+      thickness: 0.2,
+      storeyId: 'eg',
+    }),
+  ],
+};
+
+const options: FloorPlanPdfOptions = {
+  paperSize: 'A4',
+  orientation: 'portrait',
+  scale: 50,
+  storeyIds: ['eg'],
+  layers: { dimensions: false, furniture: false, fireSafety: false },
+  date: new Date(2026, 0, 2),
+};
+
+function render(overrides: Partial<FloorPlanPdfOptions> = {}): string {
+  return new TextDecoder().decode(createFloorPlanPdf(input, { ...options, ...overrides }));
+}
+
+function getMediaBox(pdf: string): number[] {
+  const match = /\/MediaBox \[0 0 ([\d.]+) ([\d.]+)\]/.exec(pdf);
+  return match ? [Number(match[1]), Number(match[2])] : [];
+}
+
+describe('createFloorPlanPdf', () => {
+  it('sizes the page in points for A4 and A3', () => {
+    const [a4Width, a4Height] = getMediaBox(render());
+    expect(a4Width).toBeCloseTo(210 * PT_PER_MM, 2);
+    expect(a4Height).toBeCloseTo(297 * PT_PER_MM, 2);
+
+    const [a3Width, a3Height] = getMediaBox(render({ paperSize: 'A3', orientation: 'landscape' }));
+    expect(a3Width).toBeCloseTo(420 * PT_PER_MM, 2);
+    expect(a3Height).toBeCloseTo(297 * PT_PER_MM, 2);
+  });
+
+  it('draws 1 m as 20 mm at 1:50', () => {
+    // Wall fill (#9e9e9e) followed by its outline path
+    const wallPath = /0\.62 0\.62 0\.62 rg .*? d (.*) h B/.exec(render())?.[1] ?? '';
+    const xs = [...wallPath.matchAll(/([\d.]+) [\d.]+ [ml]/g)].map((match) => Number(match[1]));
+
+    expect(xs).toHaveLength(4);
+    expect((Math.max(...xs) - Math.min(...xs)) / PT_PER_MM).toBeCloseTo(20, 2);
+    expect(calculatePlanFit(input.elements, options).planWidth).toBeCloseTo(20, 6);
+  });
+
+  it('escapes umlauts in the title block as WinAnsi octal codes', () => {
+    const pdf = render();
+
+    expect(pdf).toContain('(Caf\\351 M\\374ller) Tj');
+    expect(pdf).toContain('(Z\\374rich \\226 Geb\\344ude) Tj');
+    expect(pdf).toContain('(Ma\\337stab) Tj');
+    // The file itself stays ASCII
+    expect(/[^\x20-\x7e\n]/.test(pdf)).toBe(false);
+  });
+});
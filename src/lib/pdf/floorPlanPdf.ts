@@ -0,0 +1,698 @@
+/**
+ * Massstäblicher PDF-Planexport
+ *
+ * Rendert den Grundriss eines oder mehrerer Geschosse in echtem Maßstab
+ * (z.B. 1:50, 1:100) auf ein Papierformat, mit Rahmen, Schriftfeld aus den
+ * Projektdaten, Nordpfeil, Maßstabsleiste und Raumstempeln. Bemaßung,
+ * Möblierung und Brandschutz-Markierungen sind optionale Ebenen.
+ *
+ * Läuft ohne DOM (nur `downloadFloorPlanPdf` benötigt den Browser).
+ */
+
+import type { BimElement, BuildingInfo, ProjectInfo, SiteInfo, StoreyInfo } from '@/types/bim';
+import type { Point2D } from '@/types/geometry';
+import type { DimensionSettings } from '@/types/dimensions';
+import { GASTRO_SPACE_COLORS, GASTRO_SPACE_LABELS } from '@/types/bim';
+import { calculatePolygonCentroid } from '@/lib/geometry/dimensions';
+import { getEdgeOffsets } from '@/lib/geometry/wallCorners';
+import { createStoreyDxfEntities, DXF_LAYERS, type DxfEntity } from '@/lib/dxf';
+import { downloadBlob } from '@/lib/utils/download';
+import { PdfWriter, measurePdfText, type PdfPage, type PdfShapeStyle, type PdfStrokeStyle } from './pdfWriter';
+
+export type PaperSize = 'A4' | 'A3' | 'A2' | 'A1' | 'A0';
+
+export type PaperOrientation = 'portrait' | 'landscape';
+
+/**
+ * ISO 216 paper sizes (portrait, mm)
+ */
+export const PAPER_SIZES: Record<PaperSize, { width: number; height: number }> = {
+  A4: { width: 210, height: 297 },
+  A3: { width: 297, height: 420 },
+  A2: { width: 420, height: 594 },
+  A1: { width: 594, height: 841 },
+  A0: { width: 841, height: 1189 },
+};
+
+/**
+ * Available plan scales (1:n)
+ */
+export const PLAN_SCALES = [20, 50, 100, 200, 500] as const;
+
+export type PlanScale = (typeof PLAN_SCALES)[number];
+
+/**
+ * Optional plan layers
+ */
+export interface PlanPdfLayers {
+  dimensions: boolean;
+  furniture: boolean;
+  /** Fire-rated walls, fire exits and sprinkler notes */
+  fireSafety: boolean;
+}
+
+export interface FloorPlanPdfOptions {
+  paperSize: PaperSize;
+  orientation: PaperOrientation;
+  scale: PlanScale;
+  /** One page per storey, in this order */
+  storeyIds: string[];
+  layers: PlanPdfLayers;
+  dimensionSettings?: DimensionSettings;
+  /** Plan date in the title block (default: today) */
+  date?: Date;
+  /** Direction of north, counter-clockwise from the plan's +Y axis in degrees (default: 0) */
+  northAngle?: number;
+}
+
+/**
+ * Project data for the title block and the plan content
+ */
+export interface FloorPlanPdfInput {
+  project: ProjectInfo;
+  site: SiteInfo;
+  building: BuildingInfo;
+  storeys: StoreyInfo[];
+  elements: BimElement[];
+}
+
+/**
+ * Size of the plan on paper compared to the available drawing area (mm)
+ */
+export interface PlanFit {
+  planWidth: number;
+  planHeight: number;
+  areaWidth: number;
+  areaHeight: number;
+  fits: boolean;
+}
+
+interface Rect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+const FRAME_MARGIN = 10;
+const AREA_PADDING = 5;
+const TITLE_BLOCK_WIDTH = 180;
+const TITLE_BLOCK_HEIGHT = 32;
+
+const LINE_THIN = 0.13;
+const LINE_MEDIUM = 0.25;
+const LINE_BOLD = 0.5;
+
+const WALL_FILL = '#9e9e9e';
+const LABEL_COLOR = '#666666';
+const FIRE_COLOR = '#d32f2f';
+const EXIT_COLOR = '#2e7d32';
+
+/** Text sizes on paper (mm) */
+const DIM_TEXT_SIZE = 1.8;
+const STAMP_NAME_SIZE = 2.5;
+const STAMP_TEXT_SIZE = 2;
+
+/** Strokes per DXF layer (the DXF plan geometry is reused for the PDF) */
+const LAYER_STYLES: Record<string, PdfShapeStyle> = {
+  [DXF_LAYERS.walls.name]: { fill: WALL_FILL, stroke: { width: LINE_BOLD } },
+  [DXF_LAYERS.columns.name]: { fill: WALL_FILL, stroke: { width: LINE_BOLD } },
+  [DXF_LAYERS.doors.name]: { stroke: { width: LINE_MEDIUM } },
+  [DXF_LAYERS.windows.name]: { stroke: { width: LINE_MEDIUM } },
+  [DXF_LAYERS.spaces.name]: { stroke: { width: LINE_THIN, color: '#bdbdbd' } },
+  [DXF_LAYERS.counters.name]: { fill: '#f3e5d8', stroke: { width: 0.35, color: '#8b4513' } },
+  [DXF_LAYERS.stairs.name]: { stroke: { width: LINE_MEDIUM } },
+  [DXF_LAYERS.furniture.name]: { stroke: { width: LINE_THIN, color: '#666666' } },
+  [DXF_LAYERS.dimensions.name]: { stroke: { width: LINE_THIN } },
+};
+
+/** Drawing order (bottom to top) */
+const LAYER_ORDER: string[] = [
+  DXF_LAYERS.spaces.name,
+  DXF_LAYERS.furniture.name,
+  DXF_LAYERS.counters.name,
+  DXF_LAYERS.stairs.name,
+  DXF_LAYERS.walls.name,
+  DXF_LAYERS.columns.name,
+  DXF_LAYERS.doors.name,
+  DXF_LAYERS.windows.name,
+  DXF_LAYERS.dimensions.name,
+];
+
+/**
+ * Paper dimensions for size and orientation (mm)
+ */
+export function getPaperDimensions(size: PaperSize, orientation: PaperOrientation): { width: number; height: number } {
+  const { width, height } = PAPER_SIZES[size];
+  return orientation === 'landscape' ? { width: height, height: width } : { width, height };
+}
+
+/**
+ * Drawing area inside the frame, above the title block
+ */
+function getDrawingArea(paper: { width: number; height: number }): Rect {
+  const bottom = FRAME_MARGIN + TITLE_BLOCK_HEIGHT + AREA_PADDING;
+  return {
+    x: FRAME_MARGIN + AREA_PADDING,
+    y: bottom,
+    width: paper.width - 2 * (FRAME_MARGIN + AREA_PADDING),
+    height: paper.height - bottom - FRAME_MARGIN - AREA_PADDING,
+  };
+}
+
+/**
+ * Plan geometry of one storey (space labels are replaced by room stamps)
+ */
+function getPlanEntities(elements: BimElement[], options: FloorPlanPdfOptions): DxfEntity[] {
+  return createStoreyDxfEntities(elements, {
+    includeDimensions: options.layers.dimensions,
+    dimensionSettings: options.dimensionSettings,
+  }).filter(
+    (entity) =>
+      entity.layer !== DXF_LAYERS.spaceLabels.name &&
+      (options.layers.furniture || entity.layer !== DXF_LAYERS.furniture.name)
+  );
+}
+
+function getBounds(entities: DxfEntity[]): { min: Point2D; max: Point2D } | null {
+  const points: Point2D[] = [];
+  for (const entity of entities) {
+    switch (entity.type) {
+      case 'line':
+        points.push(entity.start, entity.end);
+        break;
+      case 'alignedDimension': {
+        // Include the dimension line, which lies beside the measured points
+        const dx = entity.end.x - entity.start.x;
+        const dy = entity.end.y - entity.start.y;
+        const length = Math.sqrt(dx * dx + dy * dy) || 1;
+        const shift = { x: (-dy / length) * entity.offset * 1.5, y: (dx / length) * entity.offset * 1.5 };
+        points.push(
+          entity.start,
+          entity.end,
+          { x: entity.start.x + shift.x, y: entity.start.y + shift.y },
+          { x: entity.end.x + shift.x, y: entity.end.y + shift.y }
+        );
+        break;
+      }
+      case 'polyline':
+        points.push(...entity.points);
+        break;
+      case 'circle':
+      case 'arc':
+        points.push(
+          { x: entity.center.x - entity.radius, y: entity.center.y - entity.radius },
+          { x: entity.center.x + entity.radius, y: entity.center.y + entity.radius }
+        );
+        break;
+      case 'text':
+        points.push(entity.position);
+        break;
+    }
+  }
+  if (points.length === 0) return null;
+
+  const min = { ...points[0]! };
+  const max = { ...points[0]! };
+  for (const p of points) {
+    min.x = Math.min(min.x, p.x);
+    min.y = Math.min(min.y, p.y);
+    max.x = Math.max(max.x, p.x);
+    max.y = Math.max(max.y, p.y);
+  }
+  return { min, max };
+}
+
+/**
+ * Check whether a storey fits on the paper at the chosen scale
+ */
+export function calculatePlanFit(
+  elements: BimElement[],
+  options: Pick<FloorPlanPdfOptions, 'paperSize' | 'orientation' | 'scale' | 'layers' | 'dimensionSettings'>
+): PlanFit {
+  const area = getDrawingArea(getPaperDimensions(options.paperSize, options.orientation));
+  const bounds = getBounds(getPlanEntities(elements, { ...options, storeyIds: [] }));
+  const factor = 1000 / options.scale;
+  const planWidth = bounds ? (bounds.max.x - bounds.min.x) * factor : 0;
+  const planHeight = bounds ? (bounds.max.y - bounds.min.y) * factor : 0;
+
+  return {
+    planWidth,
+    planHeight,
+    areaWidth: area.width,
+    areaHeight: area.height,
+    fits: planWidth <= area.width && planHeight <= area.height,
+  };
+}
+
+/**
+ * Largest standard scale at which the storey fits on the paper
+ */
+export function suggestPlanScale(
+  elements: BimElement[],
+  options: Pick<FloorPlanPdfOptions, 'paperSize' | 'orientation' | 'layers' | 'dimensionSettings'>
+): PlanScale {
+  return (
+    PLAN_SCALES.find((scale) => calculatePlanFit(elements, { ...options, scale }).fits) ??
+    PLAN_SCALES[PLAN_SCALES.length - 1]!
+  );
+}
+
+/**
+ * Lighten a hex color towards white (amount 0-1 of the original color)
+ */
+function tint(hex: string, amount: number): string {
+  const value = hex.replace('#', '');
+  const channel = (i: number) => {
+    const c = parseInt(value.slice(i, i + 2), 16);
+    return Math.round(255 - (255 - c) * amount)
+      .toString(16)
+      .padStart(2, '0');
+  };
+  return `#${channel(0)}${channel(2)}${channel(4)}`;
+}
+
+/**
+ * Text rotation that keeps text readable (never upside down)
+ */
+function readableAngle(degrees: number): number {
+  let angle = ((degrees % 360) + 360) % 360;
+  if (angle > 90 && angle <= 270) angle -= 180;
+  return angle;
+}
+
+function formatDate(date: Date): string {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${pad(date.getDate())}.${pad(date.getMonth() + 1)}.${date.getFullYear()}`;
+}
+
+function formatElevation(elevation: number): string {
+  if (Math.abs(elevation) < 0.005) return '±0.00 m';
+  return `${elevation > 0 ? '+' : ''}${elevation.toFixed(2)} m`;
+}
+
+/**
+ * Draws one storey onto a page
+ */
+class PlanRenderer {
+  private factor: number;
+  private origin: Point2D;
+  private center: Point2D;
+
+  constructor(
+    private page: PdfPage,
+    private area: Rect,
+    scale: number,
+    bounds: { min: Point2D; max: Point2D } | null
+  ) {
+    this.factor = 1000 / scale;
+    this.center = bounds
+      ? { x: (bounds.min.x + bounds.max.x) / 2, y: (bounds.min.y + bounds.max.y) / 2 }
+      : { x: 0, y: 0 };
+    this.origin = { x: area.x + area.width / 2, y: area.y + area.height / 2 };
+  }
+
+  /** World (m) to paper (mm) */
+  toPaper = (p: Point2D): Point2D => ({
+    x: this.origin.x + (p.x - this.center.x) * this.factor,
+    y: this.origin.y + (p.y - this.center.y) * this.factor,
+  });
+
+  drawEntities(entities: DxfEntity[], spaces: BimElement[]): void {
+    // Space fills by category (below everything else)
+    for (const space of spaces) {
+      const category = space.spaceData?.gastroCategory;
+      if (!space.spaceData || space.spaceData.boundaryPolygon.length < 3 || !category) continue;
+      this.page.polygon(space.spaceData.boundaryPolygon.map(this.toPaper), {
+        fill: tint(GASTRO_SPACE_COLORS[category], 0.35),
+        stroke: null,
+      });
+    }
+
+    const ordered = [...entities].sort((a, b) => LAYER_ORDER.indexOf(a.layer) - LAYER_ORDER.indexOf(b.layer));
+    for (const entity of ordered) {
+      this.drawEntity(entity, LAYER_STYLES[entity.layer] ?? { stroke: { width: LINE_THIN } });
+    }
+  }
+
+  private drawEntity(entity: DxfEntity, style: PdfShapeStyle): void {
+    const stroke: PdfStrokeStyle = style.stroke ?? {};
+
+    switch (entity.type) {
+      case 'line':
+        this.page.line(this.toPaper(entity.start), this.toPaper(entity.end), stroke);
+        break;
+      case 'polyline':
+        if (entity.closed) {
+          this.page.polygon(entity.points.map(this.toPaper), style);
+        } else {
+          this.page.polyline(entity.points.map(this.toPaper), false, stroke);
+        }
+        break;
+      case 'circle':
+        this.page.circle(this.toPaper(entity.center), entity.radius * this.factor, style);
+        break;
+      case 'arc':
+        this.page.arc(
+          this.toPaper(entity.center),
+          entity.radius * this.factor,
+          entity.startAngle,
+          entity.endAngle,
+          { ...stroke, width: LINE_THIN }
+        );
+        break;
+      case 'text':
+        this.page.text(this.toPaper(entity.position), entity.text, {
+          size: entity.height * this.factor,
+          align: entity.align ?? 'center',
+          baseline: 'middle',
+          rotation: entity.rotation,
+        });
+        break;
+      case 'alignedDimension':
+        this.drawDimension(entity);
+        break;
+    }
+  }
+
+  /**
+   * Dimension with fixed paper sizes: line, extension lines, 45° ticks, text
+   */
+  private drawDimension(dimension: Extract<DxfEntity, { type: 'alignedDimension' }>): void {
+    const start = this.toPaper(dimension.start);
+    const end = this.toPaper(dimension.end);
+    const dx = end.x - start.x;
+    const dy = end.y - start.y;
+    const length = Math.sqrt(dx * dx + dy * dy);
+    if (length === 0) return;
+
+    const dir = { x: dx / length, y: dy / length };
+    const normal = { x: -dir.y, y: dir.x };
+    const offset = dimension.offset * this.factor;
+    const side = offset < 0 ? -1 : 1;
+    const shift = (p: Point2D, d: number) => ({ x: p.x + normal.x * d, y: p.y + normal.y * d });
+    const stroke = { width: LINE_THIN };
+
+    const lineStart = shift(start, offset);
+    const lineEnd = shift(end, offset);
+    this.page.line(lineStart, lineEnd, stroke);
+    this.page.line(shift(start, side * 0.5), shift(lineStart, side * 1), stroke);
+    this.page.line(shift(end, side * 0.5), shift(lineEnd, side * 1), stroke);
+
+    const tick = { x: (dir.x - dir.y) * 0.75, y: (dir.y + dir.x) * 0.75 };
+    for (const p of [lineStart, lineEnd]) {
+      this.page.line({ x: p.x - tick.x, y: p.y - tick.y }, { x: p.x + tick.x, y: p.y + tick.y }, { width: LINE_MEDIUM });
+    }
+
+    const middle = shift({ x: (lineStart.x + lineEnd.x) / 2, y: (lineStart.y + lineEnd.y) / 2 }, side * 0.6);
+    this.page.text(middle, dimension.text ?? (length / this.factor).toFixed(2), {
+      size: DIM_TEXT_SIZE,
+      align: 'center',
+      baseline: side > 0 ? 'baseline' : 'top',
+      rotation: readableAngle((Math.atan2(dy, dx) * 180) / Math.PI),
+    });
+  }
+
+  /**
+   * Room stamp: name, gastro category and area in a white box
+   */
+  drawRoomStamps(spaces: BimElement[], showFireSafety: boolean): void {
+    for (const space of spaces) {
+      if (!space.spaceData || space.spaceData.boundaryPolygon.length < 3) continue;
+      const { boundaryPolygon, area, gastroCategory, fireSafetyData } = space.spaceData;
+
+      const lines: { text: string; size: number; bold?: boolean; color?: string }[] = [
+        { text: space.name, size: STAMP_NAME_SIZE, bold: true },
+      ];
+      if (gastroCategory && gastroCategory !== 'SONSTIGES') {
+        lines.push({ text: GASTRO_SPACE_LABELS[gastroCategory], size: STAMP_TEXT_SIZE });
+      }
+      lines.push({ text: `${area.toFixed(2)} m²`, size: STAMP_TEXT_SIZE });
+      if (showFireSafety && fireSafetyData?.hasSprinklers) {
+        lines.push({ text: 'Sprinkler', size: STAMP_TEXT_SIZE, color: FIRE_COLOR });
+      }
+
+      const center = this.toPaper(calculatePolygonCentroid(boundaryPolygon));
+      const width = Math.max(...lines.map((line) => measurePdfText(line.text, line.size, line.bold))) + 3;
+      const height = lines.reduce((sum, line) => sum + line.size * 1.35, 0) + 1.5;
+
+      this.page.rect(center.x - width / 2, center.y - height / 2, width, height, {
+        fill: '#ffffff',
+        stroke: { width: LINE_THIN },
+      });
+
+      let y = center.y + height / 2 - 0.75;
+      for (const line of lines) {
+        y -= line.size * 1.35;
+        this.page.text({ x: center.x, y: y + line.size * 0.3 }, line.text, {
+          size: line.size,
+          bold: line.bold,
+          align: 'center',
+          color: line.color,
+        });
+      }
+    }
+  }
+
+  /**
+   * Fire-rated walls (dashed red axis with rating) and fire exits
+   */
+  drawFireSafety(elements: BimElement[]): void {
+    const walls = new Map(elements.filter((e) => e.type === 'wall').map((wall) => [wall.id, wall]));
+
+    for (const wall of walls.values()) {
+      if (!wall.wallData?.fireRating) continue;
+      const { startPoint, endPoint, thickness, alignmentSide, fireRating } = wall.wallData;
+      const offsets = getEdgeOffsets(alignmentSide || 'center', thickness);
+      const axis = this.wallAxis(startPoint, endPoint, (offsets.left + offsets.right) / 2);
+      if (!axis) continue;
+
+      const start = this.toPaper(axis.start);
+      const end = this.toPaper(axis.end);
+      this.page.line(start, end, { color: FIRE_COLOR, width: LINE_BOLD, dash: [3, 1.5] });
+
+      const angle = (Math.atan2(end.y - start.y, end.x - start.x) * 180) / Math.PI;
+      const middle = { x: (start.x + end.x) / 2, y: (start.y + end.y) / 2 };
+      const labelOffset = (thickness * this.factor) / 2 + 1;
+      const rad = ((readableAngle(angle) + 90) * Math.PI) / 180;
+      this.page.text(
+        { x: middle.x + Math.cos(rad) * labelOffset, y: middle.y + Math.sin(rad) * labelOffset },
+        fireRating,
+        { size: STAMP_TEXT_SIZE, bold: true, align: 'center', rotation: readableAngle(angle), color: FIRE_COLOR }
+      );
+    }
+
+    for (const door of elements) {
+      if (door.type !== 'door' || !door.doorData?.isFireExit) continue;
+      const wall = walls.get(door.doorData.hostWallId);
+      if (!wall?.wallData) continue;
+
+      const { startPoint, endPoint, thickness, alignmentSide } = wall.wallData;
+      const offsets = getEdgeOffsets(alignmentSide || 'center', thickness);
+      const axis = this.wallAxis(startPoint, endPoint, (offsets.left + offsets.right) / 2);
+      if (!axis) continue;
+
+      const t = door.doorData.positionOnWall;
+      const center = this.toPaper({
+        x: axis.start.x + (axis.end.x - axis.start.x) * t,
+        y: axis.start.y + (axis.end.y - axis.start.y) * t,
+      });
+      const label = 'Notausgang';
+      const width = measurePdfText(label, STAMP_TEXT_SIZE, true) + 2;
+      this.page.rect(center.x - width / 2, center.y - 1.75, width, 3.5, { fill: EXIT_COLOR, stroke: null });
+      this.page.text(center, label, {
+        size: STAMP_TEXT_SIZE,
+        bold: true,
+        align: 'center',
+        baseline: 'middle',
+        color: '#ffffff',
+      });
+    }
+  }
+
+  /**
+   * Wall reference line shifted to the wall axis
+   */
+  private wallAxis(start: Point2D, end: Point2D, offset: number): { start: Point2D; end: Point2D } | null {
+    const dx = end.x - start.x;
+    const dy = end.y - start.y;
+    const length = Math.sqrt(dx * dx + dy * dy);
+    if (length === 0) return null;
+    const nx = (-dy / length) * offset;
+    const ny = (dx / length) * offset;
+    return { start: { x: start.x + nx, y: start.y + ny }, end: { x: end.x + nx, y: end.y + ny } };
+  }
+
+  drawNorthArrow(northAngle: number): void {
+    const radius = 6;
+    const center = { x: this.area.x + this.area.width - radius - 2, y: this.area.y + this.area.height - radius - 5 };
+    const rad = ((northAngle + 90) * Math.PI) / 180;
+    const at = (angle: number, distance: number) => ({
+      x: center.x + Math.cos(angle) * distance,
+      y: center.y + Math.sin(angle) * distance,
+    });
+
+    const tip = at(rad, radius);
+    const tail = at(rad + Math.PI, radius);
+    const left = at(rad + Math.PI * 0.8, radius * 0.7);
+    const right = at(rad - Math.PI * 0.8, radius * 0.7);
+
+    this.page.circle(center, radius, { stroke: { width: LINE_THIN } });
+    this.page.polygon([tip, left, tail], { fill: '#000000', stroke: { width: LINE_THIN } });
+    this.page.polygon([tip, tail, right], { fill: '#ffffff', stroke: { width: LINE_THIN } });
+    this.page.text(at(rad, radius + 1.5), 'N', { size: 3.5, bold: true, align: 'center', baseline: 'middle' });
+  }
+
+  /**
+   * Scale bar with five alternating segments and the scale ratio
+   */
+  drawScaleBar(scale: number): void {
+    // Segment length in meters: about 10-25 mm on paper
+    const segment = [0.1, 0.2, 0.5, 1, 2, 5, 10, 20].find((m) => m * this.factor >= 10) ?? 20;
+    const segmentLength = segment * this.factor;
+    const origin = { x: this.area.x + 2, y: this.area.y + 2 };
+    const barHeight = 1.5;
+
+    for (let i = 0; i < 5; i++) {
+      this.page.rect(origin.x + i * segmentLength, origin.y, segmentLength, barHeight, {
+        fill: i % 2 === 0 ? '#000000' : '#ffffff',
+        stroke: { width: LINE_THIN },
+      });
+    }
+
+    const labelY = origin.y + barHeight + 1;
+    this.page.text({ x: origin.x, y: labelY }, '0', { size: STAMP_TEXT_SIZE, align: 'center' });
+    this.page.text({ x: origin.x + 5 * segmentLength, y: labelY }, `${segment * 5} m`, {
+      size: STAMP_TEXT_SIZE,
+      align: 'center',
+    });
+    this.page.text({ x: origin.x + 2.5 * segmentLength, y: labelY }, `1:${scale}`, {
+      size: STAMP_TEXT_SIZE,
+      bold: true,
+      align: 'center',
+    });
+  }
+}
+
+interface TitleBlockData {
+  project: ProjectInfo;
+  site: SiteInfo;
+  building: BuildingInfo;
+  storey: StoreyInfo;
+  scale: number;
+  paper: string;
+  date: Date;
+  sheet: number;
+  sheetCount: number;
+}
+
+/**
+ * Title block in the lower right corner of the frame
+ */
+function drawTitleBlock(page: PdfPage, data: TitleBlockData): void {
+  const width = Math.min(TITLE_BLOCK_WIDTH, page.width - 2 * FRAME_MARGIN);
+  const x = page.width - FRAME_MARGIN - width;
+  const y = FRAME_MARGIN;
+  const splitX = x + width * 0.62;
+  const thin = { stroke: { width: LINE_THIN } };
+
+  page.rect(x, y, width, TITLE_BLOCK_HEIGHT, { fill: '#ffffff', stroke: { width: LINE_BOLD } });
+  page.line({ x: splitX, y }, { x: splitX, y: y + TITLE_BLOCK_HEIGHT }, thin.stroke);
+
+  const cell = (cx: number, cy: number, label: string, value: string, size: number, bold = false) => {
+    page.text({ x: cx + 1.5, y: cy - 1.5 }, label, { size: 1.6, baseline: 'top', color: LABEL_COLOR });
+    page.text({ x: cx + 1.5, y: cy - 3.8 }, value, { size, bold, baseline: 'top' });
+  };
+
+  // Left column: project, location, plan
+  const leftRows = [12, 10, 10];
+  let rowTop = y + TITLE_BLOCK_HEIGHT;
+  const siteText = [data.site.name, data.site.address].filter(Boolean).join(', ');
+  const leftCells: [string, string, number, boolean][] = [
+    ['Projekt', data.project.name, 4, true],
+    ['Standort / Gebäude', [siteText, data.building.name].filter(Boolean).join(' – '), 2.5, false],
+    ['Plan', `Grundriss ${data.storey.name}`, 3, true],
+  ];
+  leftCells.forEach(([label, value, size, bold], i) => {
+    cell(x, rowTop, label, value, size, bold);
+    if (i === 0 && data.project.description) {
+      page.text({ x: x + 1.5, y: rowTop - 10.5 }, data.project.description, { size: 1.8, color: LABEL_COLOR });
+    }
+    rowTop -= leftRows[i]!;
+    if (i < leftRows.length - 1) page.line({ x, y: rowTop }, { x: splitX, y: rowTop }, thin.stroke);
+  });
+
+  // Right column: scale, storey elevation, date, paper / sheet
+  const rightCells: [string, string][] = [
+    ['Maßstab', `1:${data.scale}`],
+    ['Geschoss / Kote', `${data.storey.name}  ${formatElevation(data.storey.elevation)}`],
+    ['Datum', formatDate(data.date)],
+    ['Format / Blatt', `${data.paper}  ${data.sheet}/${data.sheetCount}`],
+  ];
+  const rowHeight = TITLE_BLOCK_HEIGHT / rightCells.length;
+  rightCells.forEach(([label, value], i) => {
+    const top = y + TITLE_BLOCK_HEIGHT - i * rowHeight;
+    cell(splitX, top, label, value, 2.5, i === 0);
+    if (i > 0) page.line({ x: splitX, y: top }, { x: x + width, y: top }, thin.stroke);
+  });
+}
+
+/**
+ * Create the plan PDF (one page per storey)
+ */
+export function createFloorPlanPdf(input: FloorPlanPdfInput, options: FloorPlanPdfOptions): Uint8Array {
+  const paper = getPaperDimensions(options.paperSize, options.orientation);
+  const area = getDrawingArea(paper);
+  const storeys = options.storeyIds
+    .map((id) => input.storeys.find((storey) => storey.id === id))
+    .filter((storey): storey is StoreyInfo => storey !== undefined);
+
+  const pdf = new PdfWriter({ title: input.project.name, subject: 'Grundriss' });
+
+  storeys.forEach((storey, index) => {
+    const page = pdf.addPage(paper.width, paper.height);
+    const elements = input.elements.filter((e) => e.parentId === storey.id);
+    const spaces = elements.filter((e) => e.type === 'space');
+    const entities = getPlanEntities(elements, options);
+
+    page.rect(FRAME_MARGIN, FRAME_MARGIN, paper.width - 2 * FRAME_MARGIN, paper.height - 2 * FRAME_MARGIN, {
+      stroke: { width: LINE_BOLD },
+    });
+
+    const renderer = new PlanRenderer(page, area, options.scale, getBounds(entities));
+    page.clip(area.x, area.y, area.width, area.height, () => {
+      renderer.drawEntities(entities, spaces);
+      if (options.layers.fireSafety) renderer.drawFireSafety(elements);
+      renderer.drawRoomStamps(spaces, options.layers.fireSafety);
+    });
+    renderer.drawNorthArrow(options.northAngle ?? 0);
+    renderer.drawScaleBar(options.scale);
+
+    drawTitleBlock(page, {
+      project: input.project,
+      site: input.site,
+      building: input.building,
+      storey,
+      scale: options.scale,
+      paper: `${options.paperSize} ${options.orientation === 'landscape' ? 'quer' : 'hoch'}`,
+      date: options.date ?? new Date(),
+      sheet: index + 1,
+      sheetCount: storeys.length,
+    });
+  });
+
+  return pdf.toBytes();
+}
+
+/**
+ * Export the plan and trigger the download
+ */
+export function downloadFloorPlanPdf(input: FloorPlanPdfInput, options: FloorPlanPdfOptions): void {
+  const data = createFloorPlanPdf(input, options);
+
+  const storeyName =
+    options.storeyIds.length === 1 ? input.storeys.find((s) => s.id === options.storeyIds[0])?.name : undefined;
+  const suffix = storeyName ? `_${storeyName}` : '';
+
+  downloadBlob(data, 'application/pdf', `${input.project.name}${suffix}_1-${options.scale}.pdf`);
+}
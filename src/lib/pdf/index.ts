@@ -1 +1,21 @@
 export { loadPdfFile, loadPdfPage } from './pdfLoader';
+export { PdfWriter, PdfPage, measurePdfText } from './pdfWriter';
+export type { PdfStrokeStyle, PdfShapeStyle, PdfTextOptions, PdfInfo } from './pdfWriter';
+export {
+  PAPER_SIZES,
+  PLAN_SCALES,
+  getPaperDimensions,
+  calculatePlanFit,
+  suggestPlanScale,
+  createFloorPlanPdf,
+  downloadFloorPlanPdf,
+} from './floorPlanPdf';
+export type {
+  PaperSize,
+  PaperOrientation,
+  PlanScale,
+  PlanPdfLayers,
+  FloorPlanPdfOptions,
+  FloorPlanPdfInput,
+  PlanFit,
+} from './floorPlanPdf';
@@ -0,0 +1,330 @@
+/**
+ * Minimaler PDF-Writer für Vektorpläne
+ *
+ * Erzeugt PDF 1.4 ohne DOM und ohne Abhängigkeiten: Linien, Polygone,
+ * Kreise, Bögen und Text in den Standardschriften Helvetica / Helvetica-Bold
+ * (WinAnsiEncoding). Alle Masse in Millimetern, Ursprung unten links.
+ */
+
+import type { Point2D } from '@/types/geometry';
+
+/** Points per millimeter */
+const PT_PER_MM = 72 / 25.4;
+
+export interface PdfStrokeStyle {
+  /** Hex color (default black) */
+  color?: string;
+  /** Line width in mm (default 0.25) */
+  width?: number;
+  /** Dash pattern in mm */
+  dash?: number[];
+}
+
+export interface PdfShapeStyle {
+  /** Hex fill color (no fill if omitted) */
+  fill?: string;
+  /** Outline (no outline if null) */
+  stroke?: PdfStrokeStyle | null;
+}
+
+export interface PdfTextOptions {
+  /** Font size in mm */
+  size: number;
+  bold?: boolean;
+  /** Horizontal alignment relative to position (default left) */
+  align?: 'left' | 'center' | 'right';
+  /** Vertical alignment relative to position (default baseline) */
+  baseline?: 'baseline' | 'middle' | 'top';
+  /** Counter-clockwise rotation in degrees */
+  rotation?: number;
+  /** Hex color (default black) */
+  color?: string;
+}
+
+export interface PdfInfo {
+  title?: string;
+  subject?: string;
+  creator?: string;
+}
+
+/**
+ * Helvetica glyph widths (1/1000 em) for ASCII 32-126
+ */
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278, 556, 556, 556, 556, 556, 556,
+  556, 556, 556, 556, 278, 278, 584, 584, 584, 556, 1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667,
+  556, 833, 722, 778, 667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556, 333, 556,
+  556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556, 556, 556, 333, 500, 278, 556, 500, 722,
+  500, 500, 500, 334, 260, 334, 584,
+];
+
+/** Widths of the Latin-1 characters used in plans */
+const LATIN1_WIDTHS: Record<string, number> = {
+  'Ä': 667,
+  'Ö': 778,
+  'Ü': 722,
+  'ß': 611,
+  '²': 333,
+  '³': 333,
+  '°': 400,
+  '±': 584,
+  '×': 584,
+};
+
+/** WinAnsi codes outside Latin-1 */
+const WIN_ANSI_EXTRA: Record<string, number> = {
+  '€': 0x80,
+  '…': 0x85,
+  '‘': 0x91,
+  '’': 0x92,
+  '“': 0x93,
+  '”': 0x94,
+  '•': 0x95,
+  '–': 0x96,
+  '—': 0x97,
+};
+
+/** Helvetica-Bold is about this much wider than the regular cut */
+const BOLD_WIDTH_FACTOR = 1.06;
+
+/**
+ * Approximate width of a text in mm (Helvetica metrics)
+ */
+export function measurePdfText(text: string, size: number, bold = false): number {
+  let units = 0;
+  for (const char of text) {
+    const code = char.charCodeAt(0);
+    units += code >= 32 && code <= 126 ? HELVETICA_WIDTHS[code - 32]! : (LATIN1_WIDTHS[char] ?? 556);
+  }
+  return (units / 1000) * size * (bold ? BOLD_WIDTH_FACTOR : 1);
+}
+
+function num(value: number): string {
+  const rounded = Math.round(value * 1000) / 1000;
+  return Object.is(rounded, -0) ? '0' : String(rounded);
+}
+
+function pt(mm: number): string {
+  return num(mm * PT_PER_MM);
+}
+
+function rgb(hex: string): string {
+  const value = hex.replace('#', '');
+  const channel = (i: number) => num(parseInt(value.slice(i, i + 2), 16) / 255);
+  return `${channel(0)} ${channel(2)} ${channel(4)}`;
+}
+
+/**
+ * PDF literal string in WinAnsi encoding (non-ASCII as octal escapes)
+ */
+function pdfString(text: string): string {
+  let result = '(';
+  for (const char of text) {
+    const code = char.charCodeAt(0);
+    if (char === '(' || char === ')' || char === '\\') {
+      result += `\\${char}`;
+    } else if (code >= 32 && code <= 126) {
+      result += char;
+    } else {
+      const ansi = code >= 0xa0 && code <= 0xff ? code : (WIN_ANSI_EXTRA[char] ?? 0x3f);
+      result += `\\${ansi.toString(8).padStart(3, '0')}`;
+    }
+  }
+  return `${result})`;
+}
+
+/**
+ * One page; drawing operations are collected as a content stream
+ */
+export class PdfPage {
+  private ops: string[] = [];
+
+  constructor(
+    /** Page width in mm */
+    readonly width: number,
+    /** Page height in mm */
+    readonly height: number
+  ) {}
+
+  /**
+   * Draw inside a rectangular clip region
+   */
+  clip(x: number, y: number, width: number, height: number, draw: () => void): void {
+    this.ops.push('q', `${pt(x)} ${pt(y)} ${pt(width)} ${pt(height)} re W n`);
+    draw();
+    this.ops.push('Q');
+  }
+
+  line(start: Point2D, end: Point2D, stroke: PdfStrokeStyle = {}): void {
+    this.path([start, end], false, { stroke });
+  }
+
+  polyline(points: Point2D[], closed: boolean, stroke: PdfStrokeStyle = {}): void {
+    this.path(points, closed, { stroke });
+  }
+
+  polygon(points: Point2D[], style: PdfShapeStyle): void {
+    this.path(points, true, style);
+  }
+
+  rect(x: number, y: number, width: number, height: number, style: PdfShapeStyle): void {
+    this.drawShape(`${pt(x)} ${pt(y)} ${pt(width)} ${pt(height)} re`, style);
+  }
+
+  circle(center: Point2D, radius: number, style: PdfShapeStyle): void {
+    this.drawShape(this.arcPath(center, radius, 0, 360) + ' h', style);
+  }
+
+  /**
+   * Arc from startAngle to endAngle (degrees, counter-clockwise)
+   */
+  arc(center: Point2D, radius: number, startAngle: number, endAngle: number, stroke: PdfStrokeStyle = {}): void {
+    let sweep = endAngle - startAngle;
+    if (sweep <= 0) sweep += 360;
+    this.drawShape(this.arcPath(center, radius, startAngle, startAngle + sweep), { stroke });
+  }
+
+  text(position: Point2D, text: string, options: PdfTextOptions): void {
+    if (!text) return;
+    const { size, bold = false, align = 'left', baseline = 'baseline', rotation = 0, color = '#000000' } = options;
+
+    const width = measurePdfText(text, size, bold);
+    const dx = align === 'center' ? -width / 2 : align === 'right' ? -width : 0;
+    // Cap height of Helvetica is about 0.72 em
+    const dy = baseline === 'middle' ? -size * 0.36 : baseline === 'top' ? -size * 0.72 : 0;
+
+    const rad = (rotation * Math.PI) / 180;
+    const cos = Math.cos(rad);
+    const sin = Math.sin(rad);
+    const x = position.x + dx * cos - dy * sin;
+    const y = position.y + dx * sin + dy * cos;
+
+    this.ops.push(
+      'BT',
+      `${rgb(color)} rg`,
+      `/${bold ? 'F2' : 'F1'} ${pt(size)} Tf`,
+      `${num(cos)} ${num(sin)} ${num(-sin)} ${num(cos)} ${pt(x)} ${pt(y)} Tm`,
+      `${pdfString(text)} Tj`,
+      'ET'
+    );
+  }
+
+  /** Content stream of the page */
+  getContent(): string {
+    return this.ops.join('\n');
+  }
+
+  private path(points: Point2D[], closed: boolean, style: PdfShapeStyle): void {
+    if (points.length < 2) return;
+    const [first, ...rest] = points;
+    const segments = [`${pt(first!.x)} ${pt(first!.y)} m`, ...rest.map((p) => `${pt(p.x)} ${pt(p.y)} l`)];
+    if (closed) segments.push('h');
+    this.drawShape(segments.join(' '), closed ? style : { stroke: style.stroke });
+  }
+
+  /**
+   * Bezier approximation of an arc, split into segments of at most 90°
+   */
+  private arcPath(center: Point2D, radius: number, startAngle: number, endAngle: number): string {
+    const count = Math.max(1, Math.ceil((endAngle - startAngle) / 90));
+    const step = ((endAngle - startAngle) / count) * (Math.PI / 180);
+    const handle = (4 / 3) * Math.tan(step / 4);
+    const at = (angle: number) => ({
+      x: center.x + Math.cos(angle) * radius,
+      y: center.y + Math.sin(angle) * radius,
+    });
+
+    let angle = (startAngle * Math.PI) / 180;
+    const start = at(angle);
+    const parts = [`${pt(start.x)} ${pt(start.y)} m`];
+    for (let i = 0; i < count; i++) {
+      const p0 = at(angle);
+      const p3 = at(angle + step);
+      const c1 = { x: p0.x - Math.sin(angle) * radius * handle, y: p0.y + Math.cos(angle) * radius * handle };
+      const c2 = {
+        x: p3.x + Math.sin(angle + step) * radius * handle,
+        y: p3.y - Math.cos(angle + step) * radius * handle,
+      };
+      parts.push(`${pt(c1.x)} ${pt(c1.y)} ${pt(c2.x)} ${pt(c2.y)} ${pt(p3.x)} ${pt(p3.y)} c`);
+      angle += step;
+    }
+    return parts.join(' ');
+  }
+
+  private drawShape(path: string, style: PdfShapeStyle): void {
+    const stroke = style.stroke === undefined ? {} : style.stroke;
+    const ops: string[] = [];
+
+    if (style.fill) ops.push(`${rgb(style.fill)} rg`);
+    if (stroke) {
+      ops.push(`${rgb(stroke.color ?? '#000000')} RG`, `${pt(stroke.width ?? 0.25)} w`);
+      ops.push(stroke.dash ? `[${stroke.dash.map(pt).join(' ')}] 0 d` : '[] 0 d');
+    }
+    ops.push(path, style.fill && stroke ? 'B' : style.fill ? 'f' : stroke ? 'S' : 'n');
+
+    this.ops.push(ops.join(' '));
+  }
+}
+
+/**
+ * PDF document with one or more pages
+ */
+export class PdfWriter {
+  private pages: PdfPage[] = [];
+
+  constructor(private info: PdfInfo = {}) {}
+
+  /**
+   * Add a page (size in mm)
+   */
+  addPage(width: number, height: number): PdfPage {
+    const page = new PdfPage(width, height);
+    this.pages.push(page);
+    return page;
+  }
+
+  /**
+   * Serialize the document
+   */
+  toBytes(): Uint8Array {
+    // Object numbers: 1 catalog, 2 pages, 3-4 fonts, 5 info, then page + content per page
+    const objects: string[] = [];
+    const pageRefs = this.pages.map((_page, i) => `${6 + i * 2} 0 R`);
+
+    objects.push('<< /Type /Catalog /Pages 2 0 R >>');
+    objects.push(`<< /Type /Pages /Kids [${pageRefs.join(' ')}] /Count ${this.pages.length} >>`);
+    objects.push('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>');
+    objects.push('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>');
+
+    const infoEntries = [
+      this.info.title && `/Title ${pdfString(this.info.title)}`,
+      this.info.subject && `/Subject ${pdfString(this.info.subject)}`,
+      `/Creator ${pdfString(this.info.creator ?? 'CoffeeBIM Editor')}`,
+    ].filter(Boolean);
+    objects.push(`<< ${infoEntries.join(' ')} >>`);
+
+    this.pages.forEach((page, i) => {
+      const content = page.getContent();
+      objects.push(
+        `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${pt(page.width)} ${pt(page.height)}] ` +
+          `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${7 + i * 2} 0 R >>`
+      );
+      objects.push(`<< /Length ${content.length} >>\nstream\n${content}\nendstream`);
+    });
+
+    // All content is ASCII, so string offsets equal byte offsets
+    let output = '%PDF-1.4\n';
+    const offsets: number[] = [];
+    objects.forEach((object, i) => {
+      offsets.push(output.length);
+      output += `${i + 1} 0 obj\n${object}\nendobj\n`;
+    });
+
+    const xrefOffset = output.length;
+    output += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+    output += offsets.map((offset) => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+    output += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R /Info 5 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+    return new TextEncoder().encode(output);
+  }
+}
@@ -0,0 +1,24 @@
+export {
+  PROJECT_FILE_EXTENSION,
+  PROJECT_FILE_FORMAT,
+  PROJECT_FILE_VERSION,
+  ProjectFileError,
+  serializeProject,
+  migrateProjectFile,
+  parseProjectFile,
+  applyProjectFile,
+  downloadProjectFile,
+  openProjectFile,
+} from './projectFile';
+export type { CoffeeBimProjectFile, EmbeddedModel, ProjectFilePdfUnderlay } from './projectFile';
+export {
+  loadProjectLibrary,
+  syncActiveProject,
+  captureProjectThumbnail,
+  switchProject,
+  createProject,
+  duplicateProject,
+  renameProject,
+  deleteProject,
+} from './projectLibrary';
+export type { ProjectLibrary, ProjectLibraryEntry } from './projectLibrary';
@@ -0,0 +1,365 @@
+/**
+ * Native CoffeeBIM Projektdatei (.coffeebim)
+ *
+ * Verlustfreies JSON-Format, das den kompletten Editor-State enthält:
+ * Projekt-Hierarchie, alle Elemente (inkl. Theken-Pfade, Treppen-Parameter,
+ * PRO-Mode Daten), Messungen, PDF-Unterlage mit Kalibrierung,
+ * Evakuierungs-Szenarien, Brandabschnitte, Stromkreise, Einheitspreise,
+ * Reinigungsschichten, eigene PRO-Module sowie eingebettete Möbel-Modelle.
+ *
+ * Jede Datei trägt eine Schema-Version. Beim Öffnen werden ältere Dateien
+ * über die Migrationskette schrittweise auf die aktuelle Version gebracht.
+ */
+
+import type { BimElement, ProjectInfo, SiteInfo, BuildingInfo, StoreyInfo } from '@/types/bim';
+import type { PdfDocument, PdfCalibration } from '@/types/pdf';
+import type { Measurement } from '@/store/useMeasurementStore';
+import type { EvacuationScenario } from '@/lib/evacuation/scenarios';
+import type { FireCompartment } from '@/bim/spaces/compartments';
+import type { ElectricalCircuit, ElectricalSettings } from '@/lib/electrical';
+import { DEFAULT_ELECTRICAL_SETTINGS } from '@/lib/electrical';
+import type { UnitPriceCatalogue } from '@/lib/quantities';
+import { DEFAULT_UNIT_PRICES } from '@/lib/quantities';
+import type { CleaningShift } from '@/lib/cleaning';
+import type { CustomModuleDefinition } from '@/types/proMode';
+import { downloadBlob } from '@/lib/utils/download';
+import { useProjectStore } from '@/store/useProjectStore';
+import { useElementStore } from '@/store/useElementStore';
+import { useHistoryStore } from '@/store/useHistoryStore';
+import { useMeasurementStore } from '@/store/useMeasurementStore';
+import { usePdfUnderlayStore } from '@/store/usePdfUnderlayStore';
+
+/** File extension for native project files */
+export const PROJECT_FILE_EXTENSION = '.coffeebim';
+
+/** Format identifier written into every project file */
+export const PROJECT_FILE_FORMAT = 'coffeebim-project';
+
+/** Current schema version - bump and add a migration when the format changes */
+export const PROJECT_FILE_VERSION = 2;
+
+/** Prefix for furniture model references into the embedded model table */
+const MODEL_REF_PREFIX = 'coffeebim-model:';
+
+/**
+ * Embedded 3D model (stored once, referenced by furniture elements)
+ */
+export interface EmbeddedModel {
+  /** Model file as data URL */
+  dataUrl: string;
+  /** Original file name for display */
+  fileName?: string;
+}
+
+/**
+ * PDF underlay snapshot (rendered page + calibration)
+ */
+export interface ProjectFilePdfUnderlay {
+  document: PdfDocument;
+  calibration: PdfCalibration;
+  isVisible: boolean;
+  opacity: number;
+}
+
+/**
+ * Contents of a .coffeebim file (current schema version)
+ */
+export interface CoffeeBimProjectFile {
+  format: typeof PROJECT_FILE_FORMAT;
+  version: number;
+  /** ISO timestamp of when the file was written */
+  savedAt: string;
+  /** Application that wrote the file */
+  generator: string;
+  project: ProjectInfo;
+  site: SiteInfo;
+  building: BuildingInfo;
+  storeys: StoreyInfo[];
+  activeStoreyId: string | null;
+  elements: BimElement[];
+  measurements: Measurement[];
+  pdfUnderlay: ProjectFilePdfUnderlay | null;
+  evacuationScenarios: EvacuationScenario[];
+  fireCompartments: FireCompartment[];
+  electricalCircuits: ElectricalCircuit[];
+  electricalSettings: ElectricalSettings;
+  unitPrices: UnitPriceCatalogue;
+  cleaningShifts: CleaningShift[];
+  customModules: CustomModuleDefinition[];
+  /** Embedded furniture models, keyed by reference id */
+  models: Record<string, EmbeddedModel>;
+}
+
+/**
+ * Migration from version N to N+1.
+ * Operates on the raw JSON object, since older files do not match the current types.
+ */
+type ProjectFileMigration = (data: Record<string, unknown>) => Record<string, unknown>;
+
+/**
+ * Migration chain: key is the source version.
+ */
+const MIGRATIONS: Record<number, ProjectFileMigration> = {
+  // v2: evacuation scenarios, fire compartments, electrical circuits, unit
+  // prices, cleaning shifts and user-defined PRO modules
+  1: (data) => ({
+    ...data,
+    version: 2,
+    evacuationScenarios: [],
+    fireCompartments: [],
+    electricalCircuits: [],
+    electricalSettings: DEFAULT_ELECTRICAL_SETTINGS,
+    unitPrices: DEFAULT_UNIT_PRICES,
+    cleaningShifts: [],
+    customModules: [],
+  }),
+};
+
+/**
+ * Error thrown when a project file cannot be read
+ */
+export class ProjectFileError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ProjectFileError';
+  }
+}
+
+/**
+ * Convert a blob or object URL to a data URL so it survives outside this browser session
+ */
+async function urlToDataUrl(url: string): Promise<string> {
+  const response = await fetch(url);
+  const blob = await response.blob();
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+}
+
+/**
+ * Move furniture models out of the elements into a shared model table.
+ * Identical models (e.g. 10 chairs of the same import) are stored only once.
+ * Catalog assets (relative paths) stay as plain references.
+ */
+async function embedModels(
+  elements: BimElement[]
+): Promise<{ elements: BimElement[]; models: Record<string, EmbeddedModel> }> {
+  const models: Record<string, EmbeddedModel> = {};
+  const refByUrl = new Map<string, string>();
+
+  const result: BimElement[] = [];
+  for (const element of elements) {
+    const modelUrl = element.furnitureData?.modelUrl;
+    if (!element.furnitureData || !modelUrl || !/^(blob:|data:)/.test(modelUrl)) {
+      result.push(element);
+      continue;
+    }
+
+    let ref = refByUrl.get(modelUrl);
+    if (!ref) {
+      ref = `model-${refByUrl.size + 1}`;
+      const dataUrl = modelUrl.startsWith('blob:') ? await urlToDataUrl(modelUrl) : modelUrl;
+      models[ref] = { dataUrl, fileName: element.furnitureData.originalFileName };
+      refByUrl.set(modelUrl, ref);
+    }
+
+    result.push({
+      ...element,
+      furnitureData: { ...element.furnitureData, modelUrl: `${MODEL_REF_PREFIX}${ref}` },
+    });
+  }
+
+  return { elements: result, models };
+}
+
+/**
+ * Resolve model references back to data URLs
+ */
+function resolveModels(
+  elements: BimElement[],
+  models: Record<string, EmbeddedModel>
+): BimElement[] {
+  return elements.map((element) => {
+    const modelUrl = element.furnitureData?.modelUrl;
+    if (!element.furnitureData || !modelUrl?.startsWith(MODEL_REF_PREFIX)) {
+      return element;
+    }
+
+    const model = models[modelUrl.slice(MODEL_REF_PREFIX.length)];
+    return {
+      ...element,
+      furnitureData: { ...element.furnitureData, modelUrl: model?.dataUrl },
+    };
+  });
+}
+
+/**
+ * Collect the current editor state into a project file object
+ */
+export async function serializeProject(): Promise<CoffeeBimProjectFile> {
+  const {
+    project,
+    site,
+    building,
+    storeys,
+    activeStoreyId,
+    evacuationScenarios,
+    fireCompartments,
+    electricalCircuits,
+    electricalSettings,
+    unitPrices,
+    cleaningShifts,
+    customModules,
+  } = useProjectStore.getState();
+  const { measurements } = useMeasurementStore.getState();
+  const pdf = usePdfUnderlayStore.getState();
+
+  const { elements, models } = await embedModels(useElementStore.getState().getAllElements());
+
+  return {
+    format: PROJECT_FILE_FORMAT,
+    version: PROJECT_FILE_VERSION,
+    savedAt: new Date().toISOString(),
+    generator: 'CoffeeBIM Editor',
+    project,
+    site,
+    building,
+    storeys,
+    activeStoreyId,
+    elements,
+    measurements,
+    pdfUnderlay: pdf.document
+      ? {
+          document: pdf.document,
+          calibration: pdf.calibration,
+          isVisible: pdf.isVisible,
+          opacity: pdf.opacity,
+        }
+      : null,
+    evacuationScenarios,
+    fireCompartments,
+    electricalCircuits,
+    electricalSettings,
+    unitPrices,
+    cleaningShifts,
+    customModules,
+    models,
+  };
+}
+
+/**
+ * Bring a raw project file object up to the current schema version
+ */
+export function migrateProjectFile(raw: unknown): CoffeeBimProjectFile {
+  if (!raw || typeof raw !== 'object') {
+    throw new ProjectFileError('Ungültige Projektdatei: kein JSON-Objekt');
+  }
+
+  let data = raw as Record<string, unknown>;
+  if (data.format !== PROJECT_FILE_FORMAT) {
+    throw new ProjectFileError('Ungültige Projektdatei: keine CoffeeBIM-Datei');
+  }
+
+  let version = typeof data.version === 'number' ? data.version : 0;
+  if (version > PROJECT_FILE_VERSION) {
+    throw new ProjectFileError(
+      `Projektdatei wurde mit einer neueren Version erstellt (Schema ${version}, unterstützt: ${PROJECT_FILE_VERSION})`
+    );
+  }
+
+  while (version < PROJECT_FILE_VERSION) {
+    const migrate = MIGRATIONS[version];
+    if (!migrate) {
+      throw new ProjectFileError(`Keine Migration für Schema-Version ${version} vorhanden`);
+    }
+    data = migrate(data);
+    version = data.version as number;
+  }
+
+  if (!data.project || !data.site || !data.building || !Array.isArray(data.storeys)) {
+    throw new ProjectFileError('Ungültige Projektdatei: Projektstruktur fehlt');
+  }
+  if (!Array.isArray(data.elements)) {
+    throw new ProjectFileError('Ungültige Projektdatei: Elementliste fehlt');
+  }
+
+  const defaults: Partial<CoffeeBimProjectFile> = {
+    measurements: [],
+    pdfUnderlay: null,
+    evacuationScenarios: [],
+    fireCompartments: [],
+    electricalCircuits: [],
+    electricalSettings: DEFAULT_ELECTRICAL_SETTINGS,
+    unitPrices: DEFAULT_UNIT_PRICES,
+    cleaningShifts: [],
+    customModules: [],
+    models: {},
+    activeStoreyId: null,
+  };
+  return { ...defaults, ...data } as unknown as CoffeeBimProjectFile;
+}
+
+/**
+ * Parse the text content of a .coffeebim file
+ */
+export function parseProjectFile(text: string): CoffeeBimProjectFile {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new ProjectFileError('Ungültige Projektdatei: JSON konnte nicht gelesen werden');
+  }
+  return migrateProjectFile(raw);
+}
+
+/**
+ * Replace the current editor state with the contents of a project file
+ */
+export function applyProjectFile(file: CoffeeBimProjectFile): void {
+  const projectStore = useProjectStore.getState();
+  projectStore.importProject(file.project, file.site, file.building, file.storeys);
+  if (file.activeStoreyId && file.storeys.some((s) => s.id === file.activeStoreyId)) {
+    projectStore.setActiveStorey(file.activeStoreyId);
+  }
+  projectStore.importEvacuationScenarios(file.evacuationScenarios);
+  projectStore.importFireCompartments(file.fireCompartments);
+  projectStore.importElectrical(file.electricalCircuits, file.electricalSettings);
+  projectStore.importUnitPrices(file.unitPrices);
+  projectStore.importCleaningShifts(file.cleaningShifts);
+  projectStore.importCustomModules(file.customModules);
+
+  useElementStore.getState().importElements(resolveModels(file.elements, file.models), true);
+  // Undo-Historie gehört zum vorherigen Projekt
+  useHistoryStore.getState().clear();
+
+  useMeasurementStore.getState().importMeasurements(file.measurements);
+
+  const pdfStore = usePdfUnderlayStore.getState();
+  if (file.pdfUnderlay) {
+    pdfStore.restoreDocument(file.pdfUnderlay.document, file.pdfUnderlay.calibration);
+    pdfStore.setVisible(file.pdfUnderlay.isVisible);
+    pdfStore.setOpacity(file.pdfUnderlay.opacity);
+  } else {
+    pdfStore.clearDocument();
+  }
+}
+
+/**
+ * Save the current project as .coffeebim file (browser download)
+ */
+export async function downloadProjectFile(): Promise<void> {
+  const file = await serializeProject();
+  downloadBlob(JSON.stringify(file, null, 2), 'application/json', `${file.project.name}${PROJECT_FILE_EXTENSION}`);
+}
+
+/**
+ * Open a .coffeebim file and load it into the editor
+ */
+export async function openProjectFile(file: File): Promise<CoffeeBimProjectFile> {
+  const projectFile = parseProjectFile(await file.text());
+  applyProjectFile(projectFile);
+  return projectFile;
+}
@@ -0,0 +1,324 @@
+/**
+ * Projekt-Bibliothek
+ *
+ * Verwaltet mehrere Projekte in IndexedDB. Jedes Projekt hat eigene,
+ * gescopte Keys für die persistierten Stores (Projekt, Elemente, Messungen,
+ * PDF-Unterlage - siehe getScopedKey).
+ * Der Index mit Namen, Zeitstempeln und Thumbnails liegt unter PROJECT_LIBRARY_KEY.
+ *
+ * Beim Wechsel werden Schreibzugriffe ausgesetzt, alle Stores auf Default
+ * zurückgesetzt und anschliessend aus dem neuen Scope rehydriert.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import type { StorageValue } from 'zustand/middleware';
+import {
+  PROJECT_LIBRARY_KEY,
+  DEFAULT_PROJECT_ID,
+  getScopedKey,
+  setStorageScope,
+  getStorageScope,
+  setStorageWritesSuspended,
+  readStorageItem,
+  writeStorageItem,
+  deleteStorageItem,
+} from '@/lib/storage';
+import { onAllHydrated, resetHydrationState } from '@/lib/storage/hydrationTracker';
+import { captureCanvasElement } from '@/lib/visualization/screenshotService';
+import { useProjectStore } from '@/store/useProjectStore';
+import { useElementStore } from '@/store/useElementStore';
+import { useHistoryStore } from '@/store/useHistoryStore';
+import { useMeasurementStore } from '@/store/useMeasurementStore';
+import { usePdfUnderlayStore } from '@/store/usePdfUnderlayStore';
+import { useSelectionStore } from '@/store/useSelectionStore';
+import { useEvacuationStore } from '@/store/useEvacuationStore';
+
+/** Thumbnail width in pixels */
+const THUMBNAIL_WIDTH = 240;
+
+/**
+ * Entry in the project library index
+ */
+export interface ProjectLibraryEntry {
+  id: string;
+  name: string;
+  /** Creation timestamp (ms) */
+  createdAt: number;
+  /** Last modification timestamp (ms) */
+  updatedAt: number;
+  /** Number of elements at last sync */
+  elementCount: number;
+  /** JPEG data URL of the 3D view */
+  thumbnail?: string;
+}
+
+/**
+ * Project library index stored in IndexedDB
+ */
+export interface ProjectLibrary {
+  activeProjectId: string;
+  projects: ProjectLibraryEntry[];
+}
+
+/** Persisted state of the project store (for renaming inactive projects) */
+interface PersistedProjectState {
+  project: { id: string; name: string };
+}
+
+/**
+ * Persist-Keys aller projektbezogenen Stores
+ */
+function getProjectStoreNames(): string[] {
+  return [
+    useProjectStore.persist.getOptions().name,
+    useElementStore.persist.getOptions().name,
+    useMeasurementStore.persist.getOptions().name,
+    usePdfUnderlayStore.persist.getOptions().name,
+  ].filter((name): name is string => !!name);
+}
+
+async function writeLibrary(library: ProjectLibrary): Promise<void> {
+  await writeStorageItem(PROJECT_LIBRARY_KEY, library);
+}
+
+/**
+ * Load the library index. Creates it from the current (legacy) project on first use.
+ */
+export async function loadProjectLibrary(): Promise<ProjectLibrary> {
+  const existing = await readStorageItem<ProjectLibrary>(PROJECT_LIBRARY_KEY);
+  if (existing) return existing;
+
+  const now = Date.now();
+  const library: ProjectLibrary = {
+    activeProjectId: await getStorageScope(),
+    projects: [
+      {
+        id: DEFAULT_PROJECT_ID,
+        name: useProjectStore.getState().project.name,
+        createdAt: now,
+        updatedAt: now,
+        elementCount: useElementStore.getState().elements.size,
+      },
+    ],
+  };
+  await writeLibrary(library);
+  return library;
+}
+
+/**
+ * Create a small thumbnail of the 3D view (null if no 3D canvas is mounted)
+ */
+export async function captureProjectThumbnail(): Promise<string | null> {
+  const canvas = document.querySelector('canvas[data-engine]') as HTMLCanvasElement | null;
+  if (!canvas || canvas.width === 0 || canvas.height === 0) return null;
+
+  try {
+    const screenshot = await captureCanvasElement(canvas, { format: 'jpeg', quality: 0.8 });
+    const image = new Image();
+    await new Promise<void>((resolve, reject) => {
+      image.onload = () => resolve();
+      image.onerror = () => reject(new Error('Thumbnail konnte nicht geladen werden'));
+      image.src = screenshot.dataUrl;
+    });
+
+    const scaled = document.createElement('canvas');
+    scaled.width = THUMBNAIL_WIDTH;
+    scaled.height = Math.round((THUMBNAIL_WIDTH * canvas.height) / canvas.width);
+    const ctx = scaled.getContext('2d');
+    if (!ctx) return null;
+    ctx.drawImage(image, 0, 0, scaled.width, scaled.height);
+    return scaled.toDataURL('image/jpeg', 0.8);
+  } catch (error) {
+    console.warn('[CoffeeBIM] Thumbnail fehlgeschlagen:', error);
+    return null;
+  }
+}
+
+/**
+ * Write name, element count and (optionally) a fresh thumbnail of the active project into the index
+ */
+export async function syncActiveProject(withThumbnail = false): Promise<ProjectLibrary> {
+  const library = await loadProjectLibrary();
+  const thumbnail = withThumbnail ? await captureProjectThumbnail() : null;
+
+  const updated: ProjectLibrary = {
+    ...library,
+    projects: library.projects.map((entry) =>
+      entry.id === library.activeProjectId
+        ? {
+            ...entry,
+            name: useProjectStore.getState().project.name,
+            elementCount: useElementStore.getState().elements.size,
+            updatedAt: Date.now(),
+            thumbnail: thumbnail ?? entry.thumbnail,
+          }
+        : entry
+    ),
+  };
+  await writeLibrary(updated);
+  return updated;
+}
+
+/**
+ * Reset all project-related stores and rehydrate them from the given project scope
+ */
+async function activateProjectScope(projectId: string): Promise<void> {
+  setStorageWritesSuspended(true);
+  try {
+    setStorageScope(projectId);
+
+    // Laufzeit-State des alten Projekts verwerfen
+    useEvacuationStore.getState().reset();
+    useSelectionStore.getState().clearSelection();
+
+    // Defaults setzen, damit ein leeres Projekt nichts vom alten übernimmt
+    useProjectStore.getState().resetProject();
+    useElementStore.getState().clearAll();
+    useMeasurementStore.getState().clearMeasurements();
+    usePdfUnderlayStore.getState().clearDocument();
+
+    resetHydrationState();
+    const hydrated = new Promise<void>((resolve) => onAllHydrated(resolve));
+    await Promise.all([
+      useProjectStore.persist.rehydrate(),
+      useElementStore.persist.rehydrate(),
+      useMeasurementStore.persist.rehydrate(),
+      usePdfUnderlayStore.persist.rehydrate(),
+    ]);
+    await hydrated;
+
+    useHistoryStore.getState().clear();
+  } finally {
+    setStorageWritesSuspended(false);
+  }
+}
+
+/**
+ * Switch to another project of the library
+ */
+export async function switchProject(projectId: string): Promise<ProjectLibrary> {
+  const library = await syncActiveProject(true);
+  if (library.activeProjectId === projectId) return library;
+  if (!library.projects.some((entry) => entry.id === projectId)) {
+    throw new Error(`Projekt ${projectId} nicht in der Bibliothek`);
+  }
+
+  const updated: ProjectLibrary = { ...library, activeProjectId: projectId };
+  await writeLibrary(updated);
+  await activateProjectScope(projectId);
+  return updated;
+}
+
+/**
+ * Create a new empty project and switch to it
+ */
+export async function createProject(name: string): Promise<ProjectLibrary> {
+  const library = await syncActiveProject(true);
+  const now = Date.now();
+  const entry: ProjectLibraryEntry = {
+    id: uuidv4(),
+    name,
+    createdAt: now,
+    updatedAt: now,
+    elementCount: 0,
+  };
+
+  const updated: ProjectLibrary = {
+    activeProjectId: entry.id,
+    projects: [...library.projects, entry],
+  };
+  await writeLibrary(updated);
+  await activateProjectScope(entry.id);
+
+  // Schreibt den Default-State in den neuen Scope
+  useProjectStore.getState().setProjectName(name);
+  useHistoryStore.getState().clear();
+  return updated;
+}
+
+/**
+ * Copy a project (including all stored elements) under a new name
+ */
+export async function duplicateProject(projectId: string, name: string): Promise<ProjectLibrary> {
+  const library = await syncActiveProject(true);
+  const source = library.projects.find((entry) => entry.id === projectId);
+  if (!source) {
+    throw new Error(`Projekt ${projectId} nicht in der Bibliothek`);
+  }
+
+  const copyId = uuidv4();
+  for (const storeName of getProjectStoreNames()) {
+    const value = await readStorageItem<StorageValue<unknown>>(getScopedKey(storeName, projectId));
+    if (value) {
+      await writeStorageItem(getScopedKey(storeName, copyId), value);
+    }
+  }
+
+  // Kopie bekommt eigene Projekt-ID und neuen Namen
+  const projectKey = getScopedKey(useProjectStore.persist.getOptions().name ?? '', copyId);
+  const projectValue = await readStorageItem<StorageValue<PersistedProjectState>>(projectKey);
+  if (projectValue) {
+    await writeStorageItem(projectKey, {
+      ...projectValue,
+      state: { ...projectValue.state, project: { ...projectValue.state.project, id: uuidv4(), name } },
+    });
+  }
+
+  const now = Date.now();
+  const updated: ProjectLibrary = {
+    ...library,
+    projects: [...library.projects, { ...source, id: copyId, name, createdAt: now, updatedAt: now }],
+  };
+  await writeLibrary(updated);
+  return updated;
+}
+
+/**
+ * Rename a project (also updates the stored project name)
+ */
+export async function renameProject(projectId: string, name: string): Promise<ProjectLibrary> {
+  const library = await loadProjectLibrary();
+
+  if (projectId === library.activeProjectId) {
+    useProjectStore.getState().setProjectName(name);
+  } else {
+    const projectKey = getScopedKey(useProjectStore.persist.getOptions().name ?? '', projectId);
+    const projectValue = await readStorageItem<StorageValue<PersistedProjectState>>(projectKey);
+    if (projectValue) {
+      await writeStorageItem(projectKey, {
+        ...projectValue,
+        state: { ...projectValue.state, project: { ...projectValue.state.project, name } },
+      });
+    }
+  }
+
+  const updated: ProjectLibrary = {
+    ...library,
+    projects: library.projects.map((entry) =>
+      entry.id === projectId ? { ...entry, name, updatedAt: Date.now() } : entry
+    ),
+  };
+  await writeLibrary(updated);
+  return updated;
+}
+
+/**
+ * Delete a project and all its stored data. The active project cannot be deleted.
+ */
+export async function deleteProject(projectId: string): Promise<ProjectLibrary> {
+  const library = await loadProjectLibrary();
+  if (projectId === library.activeProjectId) {
+    throw new Error('Das aktive Projekt kann nicht gelöscht werden');
+  }
+
+  for (const storeName of getProjectStoreNames()) {
+    await deleteStorageItem(getScopedKey(storeName, projectId));
+  }
+
+  const updated: ProjectLibrary = {
+    ...library,
+    projects: library.projects.filter((entry) => entry.id !== projectId),
+  };
+  await writeLibrary(updated);
+  return updated;
+}
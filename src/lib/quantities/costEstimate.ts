@@ -0,0 +1,118 @@
+/**
+ * Cost Estimate (Kostenschätzung)
+ *
+ * Take-off quantities × unit prices (CHF, excl. VAT), grouped per storey
+ * and trade. The default catalogue holds rough guideline prices for a
+ * café fit-out; the project keeps its own edited catalogue.
+ */
+
+import type { TakeoffItemKey, TakeoffRow, TakeoffUnit, Trade } from './takeoff';
+import { getTakeoffItem, TAKEOFF_ITEMS } from './takeoff';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** Unit price per take-off item (CHF per unit) */
+export type UnitPriceCatalogue = Record<TakeoffItemKey, number>;
+
+/**
+ * Cost of one item on one storey
+ */
+export interface CostLine {
+  item: TakeoffItemKey;
+  trade: Trade;
+  unit: TakeoffUnit;
+  storeyId: string | null;
+  elementCount: number;
+  quantity: number;
+  unitPrice: number;
+  /** CHF */
+  total: number;
+}
+
+export interface CostEstimate {
+  lines: CostLine[];
+  /** CHF per storey (key '' = without storey) */
+  byStorey: Map<string, number>;
+  /** CHF per trade */
+  byTrade: Map<Trade, number>;
+  total: number;
+}
+
+// ============================================================================
+// Catalogue
+// ============================================================================
+
+/**
+ * Guideline unit prices in CHF (excl. VAT, incl. installation)
+ */
+export const DEFAULT_UNIT_PRICES: UnitPriceCatalogue = {
+  wallArea: 180,
+  slabVolume: 650,
+  stairFlight: 9000,
+  windowSingle: 1400,
+  windowDouble: 2400,
+  windowFixed: 1100,
+  doorSingle: 1600,
+  doorDouble: 2800,
+  doorSliding: 3200,
+  counterLength: 2500,
+  floorFinish: 120,
+  wallFinish: 35,
+  ceilingFinish: 40,
+};
+
+// ============================================================================
+// Estimate
+// ============================================================================
+
+/**
+ * Price the take-off rows; lines are sorted by trade, item and storey
+ */
+export function calculateCostEstimate(rows: TakeoffRow[], prices: UnitPriceCatalogue): CostEstimate {
+  const lineByKey = new Map<string, CostLine>();
+
+  for (const row of rows) {
+    const key = `${row.item}|${row.storeyId ?? ''}`;
+    let line = lineByKey.get(key);
+    if (!line) {
+      const { trade, unit } = getTakeoffItem(row.item);
+      line = {
+        item: row.item,
+        trade,
+        unit,
+        storeyId: row.storeyId,
+        elementCount: 0,
+        quantity: 0,
+        unitPrice: prices[row.item] ?? 0,
+        total: 0,
+      };
+      lineByKey.set(key, line);
+    }
+    line.elementCount++;
+    line.quantity += row.quantity;
+  }
+
+  const itemOrder = TAKEOFF_ITEMS.map((item) => item.key);
+  const lines = Array.from(lineByKey.values())
+    .map((line) => ({ ...line, total: line.quantity * line.unitPrice }))
+    .sort(
+      (a, b) =>
+        itemOrder.indexOf(a.item) - itemOrder.indexOf(b.item) || (a.storeyId ?? '').localeCompare(b.storeyId ?? '')
+    );
+
+  const byStorey = new Map<string, number>();
+  const byTrade = new Map<Trade, number>();
+  for (const line of lines) {
+    byStorey.set(line.storeyId ?? '', (byStorey.get(line.storeyId ?? '') ?? 0) + line.total);
+    byTrade.set(line.trade, (byTrade.get(line.trade) ?? 0) + line.total);
+  }
+
+  return {
+    lines,
+    byStorey,
+    byTrade,
+    total: lines.reduce((sum, line) => sum + line.total, 0),
+  };
+}
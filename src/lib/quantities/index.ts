@@ -0,0 +1,32 @@
+/**
+ * Quantities & Costs (PRO module)
+ *
+ * Quantity take-off of the model, unit price catalogue, cost estimate per
+ * storey and trade and CSV/XLSX export.
+ */
+
+export {
+  calculateTakeoff,
+  getWallQuantities,
+  getSlabQuantities,
+  getTakeoffItem,
+  TAKEOFF_ITEMS,
+  TRADES,
+  type TakeoffUnit,
+  type Trade,
+  type TakeoffItemKey,
+  type TakeoffItemDefinition,
+  type TakeoffRow,
+  type TakeoffDetailKey,
+  type WallQuantities,
+} from './takeoff';
+
+export {
+  calculateCostEstimate,
+  DEFAULT_UNIT_PRICES,
+  type UnitPriceCatalogue,
+  type CostLine,
+  type CostEstimate,
+} from './costEstimate';
+
+export { takeoffToXlsx, costEstimateToCsv, downloadTakeoff, type TakeoffLabels } from './takeoffExport';
@@ -0,0 +1,115 @@
+import { describe, expect, it } from 'vitest';
+import type { BimElement } from '@/types/bim';
+import { createWall } from '@/bim/elements/Wall';
+import { createDoor } from '@/bim/elements/Door';
+import { createWindow } from '@/bim/elements/Window';
+import { createSpaceFromPolygon } from '@/bim/elements/Space';
+import { calculateTakeoff, getWallQuantities } from './takeoff';
+import { DEFAULT_UNIT_PRICES, calculateCostEstimate } from './costEstimate';
+
+/** 5 m wall, 3 m high, 0.2 m thick */
+const wall = createWall({
+  startPoint: { x: 0, y: 0 },
+  endPoint: { x: 5, y: 0 },
+  thickness: 0.2,
+  height: 3,
+  storeyId: 'eg',
+});
+
+function createOpenings(): BimElement[] {
+  return [
+    createDoor({
+      hostWallId: wall.id,
+      positionOnWall: 0.2,
+      wallLength: 5,
+      storeyId: 'eg',
+      width: 1,
+      height: 2.1,
+    }),
+    createWindow({
+      hostWallId: wall.id,
+      positionOnWall: 0.7,
+      wallLength: 5,
+      storeyId: 'eg',
+      windowType: 'double',
+      width: 1.2,
+      height: 1.2,
+      sillHeight: 0.9,
+    }),
+  ];
+}
+
+describe('getWallQuantities', () => {
+  it('deducts hosted doors and windows from the side area', () => {
+    const q = getWallQuantities(wall, [wall, ...createOpenings()])!;
+
+    expect(q.grossSideArea).toBeCloseTo(15, 6);
+    // 1.0 × 2.1 + 1.2 × 1.2
+    expect(q.openingArea).toBeCloseTo(3.54, 6);
+    expect(q.netSideArea).toBeCloseTo(11.46, 6);
+    expect(q.netVolume).toBeCloseTo(2.292, 6);
+  });
+
+  it('cuts openings off at the wall top', () => {
+    const window = createWindow({
+      hostWallId: wall.id,
+      positionOnWall: 0.5,
+      wallLength: 5,
+      storeyId: 'eg',
+      width: 1,
+      height: 1.2,
+      sillHeight: 2.5,
+    });
+
+    expect(getWallQuantities(wall, [window])!.openingArea).toBeCloseTo(0.5, 6);
+  });
+});
+
+describe('calculateTakeoff', () => {
+  it('yields one row per element and three finish rows per space', () => {
+    const space = createSpaceFromPolygon({
+      name: 'Gastraum',
+      boundaryPolygon: [
+        { x: 0, y: 0 },
+        { x: 4, y: 0 },
+        { x: 4, y: 5 },
+        { x: 0, y: 5 },
+      ],
+      storeyId: 'eg',
+      height: 3,
+    });
+
+    const rows = calculateTakeoff([wall, ...createOpenings(), space]);
+
+    expect(rows.map((row) => [row.item, row.quantity])).toEqual([
+      ['wallArea', expect.closeTo(11.46, 6)],
+      ['doorSingle', 1],
+      ['windowDouble', 1],
+      ['floorFinish', 20],
+      ['wallFinish', 54],
+      ['ceilingFinish', 20],
+    ]);
+  });
+});
+
+describe('calculateCostEstimate', () => {
+  it('prices quantities per item and storey', () => {
+    const otherWall = { ...wall, id: 'og-wall', parentId: 'og' };
+    const rows = calculateTakeoff([wall, otherWall, ...createOpenings()]);
+
+    const estimate = calculateCostEstimate(rows, { ...DEFAULT_UNIT_PRICES, wallArea: 100 });
+
+    expect(estimate.lines.map((line) => [line.item, line.storeyId, line.elementCount])).toEqual([
+      ['wallArea', 'eg', 1],
+      ['wallArea', 'og', 1],
+      ['windowDouble', 'eg', 1],
+      ['doorSingle', 'eg', 1],
+    ]);
+    expect(estimate.byStorey.get('og')).toBeCloseTo(1500, 6);
+    expect(estimate.byTrade.get('doors')).toBe(DEFAULT_UNIT_PRICES.doorSingle);
+    expect(estimate.total).toBeCloseTo(
+      1146 + 1500 + DEFAULT_UNIT_PRICES.windowDouble + DEFAULT_UNIT_PRICES.doorSingle,
+      6
+    );
+  });
+});
@@ -0,0 +1,246 @@
+/**
+ * Quantity Take-off (Mengenermittlung)
+ *
+ * Quantities per element for the cost estimate: wall areas net of openings,
+ * slab areas and volumes, counter running metres, door/window counts by
+ * type and finish areas per space. The wall quantities are shared with the
+ * IFC export (Qto_WallBaseQuantities).
+ */
+
+import type { BimElement, DoorType, WindowType } from '@/types/bim';
+import { calculatePolygonArea } from '@/bim/spaces';
+import { calculatePathLength } from '@/lib/geometry/pathOffset';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type TakeoffUnit = 'm²' | 'm³' | 'm' | 'Stk';
+
+/** Trades (Arbeitsgattungen) the cost estimate is grouped by */
+export type Trade = 'masonry' | 'windows' | 'doors' | 'joinery' | 'flooring' | 'painting';
+
+export type TakeoffItemKey =
+  | 'wallArea'
+  | 'slabVolume'
+  | 'stairFlight'
+  | 'counterLength'
+  | 'doorSingle'
+  | 'doorDouble'
+  | 'doorSliding'
+  | 'windowSingle'
+  | 'windowDouble'
+  | 'windowFixed'
+  | 'floorFinish'
+  | 'wallFinish'
+  | 'ceilingFinish';
+
+export interface TakeoffItemDefinition {
+  key: TakeoffItemKey;
+  unit: TakeoffUnit;
+  trade: Trade;
+}
+
+/**
+ * Quantity of one element for one item (a space yields three finish rows)
+ */
+export interface TakeoffRow {
+  item: TakeoffItemKey;
+  elementId: string;
+  elementName: string;
+  storeyId: string | null;
+  quantity: number;
+  /** Secondary quantities shown with the row (gross area, deductions, dimensions) */
+  details: Partial<Record<TakeoffDetailKey, number>>;
+}
+
+export type TakeoffDetailKey = 'length' | 'height' | 'thickness' | 'grossArea' | 'openingArea' | 'area' | 'volume';
+
+export interface WallQuantities {
+  length: number;
+  height: number;
+  thickness: number;
+  grossSideArea: number;
+  /** Area of the hosted doors and windows (one side) */
+  openingArea: number;
+  netSideArea: number;
+  grossVolume: number;
+  netVolume: number;
+}
+
+// ============================================================================
+// Items
+// ============================================================================
+
+export const TAKEOFF_ITEMS: TakeoffItemDefinition[] = [
+  { key: 'wallArea', unit: 'm²', trade: 'masonry' },
+  { key: 'slabVolume', unit: 'm³', trade: 'masonry' },
+  { key: 'stairFlight', unit: 'Stk', trade: 'masonry' },
+  { key: 'windowSingle', unit: 'Stk', trade: 'windows' },
+  { key: 'windowDouble', unit: 'Stk', trade: 'windows' },
+  { key: 'windowFixed', unit: 'Stk', trade: 'windows' },
+  { key: 'doorSingle', unit: 'Stk', trade: 'doors' },
+  { key: 'doorDouble', unit: 'Stk', trade: 'doors' },
+  { key: 'doorSliding', unit: 'Stk', trade: 'doors' },
+  { key: 'counterLength', unit: 'm', trade: 'joinery' },
+  { key: 'floorFinish', unit: 'm²', trade: 'flooring' },
+  { key: 'wallFinish', unit: 'm²', trade: 'painting' },
+  { key: 'ceilingFinish', unit: 'm²', trade: 'painting' },
+];
+
+export const TRADES: Trade[] = ['masonry', 'windows', 'doors', 'joinery', 'flooring', 'painting'];
+
+const DOOR_ITEMS: Record<DoorType, TakeoffItemKey> = {
+  single: 'doorSingle',
+  double: 'doorDouble',
+  sliding: 'doorSliding',
+};
+
+const WINDOW_ITEMS: Record<WindowType, TakeoffItemKey> = {
+  single: 'windowSingle',
+  double: 'windowDouble',
+  fixed: 'windowFixed',
+};
+
+export function getTakeoffItem(key: TakeoffItemKey): TakeoffItemDefinition {
+  return TAKEOFF_ITEMS.find((item) => item.key === key)!;
+}
+
+// ============================================================================
+// Quantities
+// ============================================================================
+
+/**
+ * Wall quantities with the hosted doors and windows deducted
+ */
+export function getWallQuantities(wall: BimElement, elements: BimElement[]): WallQuantities | null {
+  if (!wall.wallData) return null;
+
+  const { startPoint, endPoint, thickness, height } = wall.wallData;
+  const length = Math.hypot(endPoint.x - startPoint.x, endPoint.y - startPoint.y);
+  const grossSideArea = length * height;
+
+  let openingArea = 0;
+  for (const element of elements) {
+    const opening = element.doorData ?? element.windowData;
+    if (!opening || opening.hostWallId !== wall.id) continue;
+    // Openings above the wall top are cut off
+    const openingHeight = Math.max(0, Math.min(opening.height, height - (opening.sillHeight ?? 0)));
+    openingArea += Math.min(opening.width, length) * openingHeight;
+  }
+  openingArea = Math.min(openingArea, grossSideArea);
+
+  const netSideArea = grossSideArea - openingArea;
+  return {
+    length,
+    height,
+    thickness,
+    grossSideArea,
+    openingArea,
+    netSideArea,
+    grossVolume: grossSideArea * thickness,
+    netVolume: netSideArea * thickness,
+  };
+}
+
+/**
+ * Slab area and volume with the openings (stairs, shafts) deducted
+ */
+export function getSlabQuantities(slab: BimElement): { area: number; volume: number } | null {
+  if (!slab.slabData) return null;
+  const openingArea = (slab.slabData.openings ?? []).reduce(
+    (sum, opening) => sum + calculatePolygonArea(opening.outline),
+    0
+  );
+  const area = Math.max(0, calculatePolygonArea(slab.slabData.outline) - openingArea);
+  return { area, volume: area * slab.slabData.thickness };
+}
+
+/**
+ * Take-off rows of all elements
+ */
+export function calculateTakeoff(elements: BimElement[]): TakeoffRow[] {
+  const rows: TakeoffRow[] = [];
+  const push = (
+    item: TakeoffItemKey,
+    element: BimElement,
+    quantity: number,
+    details: TakeoffRow['details'] = {}
+  ) => {
+    rows.push({
+      item,
+      elementId: element.id,
+      elementName: element.name,
+      storeyId: element.parentId ?? null,
+      quantity,
+      details,
+    });
+  };
+
+  for (const element of elements) {
+    switch (element.type) {
+      case 'wall': {
+        const q = getWallQuantities(element, elements);
+        if (!q) break;
+        push('wallArea', element, q.netSideArea, {
+          length: q.length,
+          height: q.height,
+          thickness: q.thickness,
+          grossArea: q.grossSideArea,
+          openingArea: q.openingArea,
+          volume: q.netVolume,
+        });
+        break;
+      }
+      case 'slab': {
+        const q = getSlabQuantities(element);
+        if (!q) break;
+        push('slabVolume', element, q.volume, { area: q.area, thickness: element.slabData!.thickness });
+        break;
+      }
+      case 'stair':
+        if (element.stairData) {
+          push('stairFlight', element, 1, {
+            height: element.stairData.totalRise,
+            length: element.stairData.steps.runLength,
+          });
+        }
+        break;
+      case 'counter':
+        if (element.counterData) {
+          push('counterLength', element, calculatePathLength(element.counterData.path), {
+            height: element.counterData.height,
+          });
+        }
+        break;
+      case 'door':
+        if (element.doorData) {
+          push(DOOR_ITEMS[element.doorData.doorType], element, 1, {
+            length: element.doorData.width,
+            height: element.doorData.height,
+          });
+        }
+        break;
+      case 'window':
+        if (element.windowData) {
+          push(WINDOW_ITEMS[element.windowData.windowType], element, 1, {
+            length: element.windowData.width,
+            height: element.windowData.height,
+          });
+        }
+        break;
+      case 'space': {
+        if (!element.spaceData) break;
+        const { area, netFloorArea, perimeter, netHeight } = element.spaceData;
+        const height = netHeight ?? element.geometry.height;
+        push('floorFinish', element, netFloorArea ?? area, { area });
+        // Wall finish without deduction of openings (flat rate for the reveals)
+        push('wallFinish', element, perimeter * height, { length: perimeter, height });
+        push('ceilingFinish', element, area);
+        break;
+      }
+    }
+  }
+
+  return rows;
+}
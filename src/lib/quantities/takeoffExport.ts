@@ -0,0 +1,141 @@
+/**
+ * Take-off Export
+ *
+ * Quantities and cost estimate as XLSX workbook (quantities, costs,
+ * summary) or as CSV (cost lines). Labels are resolved by the caller.
+ */
+
+import { createXlsx, XLSX_MIME_TYPE, type XlsxCell } from '@/lib/cobie';
+import { downloadBlob } from '@/lib/utils/download';
+import type { TakeoffDetailKey, TakeoffItemKey, TakeoffRow, Trade } from './takeoff';
+import { getTakeoffItem, TRADES } from './takeoff';
+import type { CostEstimate } from './costEstimate';
+
+export interface TakeoffLabels {
+  item: (key: TakeoffItemKey) => string;
+  trade: (trade: Trade) => string;
+  storey: (id: string | null) => string;
+  detail: (key: TakeoffDetailKey) => string;
+  /** Column headings */
+  columns: {
+    trade: string;
+    item: string;
+    element: string;
+    storey: string;
+    count: string;
+    quantity: string;
+    unit: string;
+    unitPrice: string;
+    total: string;
+    details: string;
+  };
+  sheets: { quantities: string; costs: string; summary: string };
+  totalLabel: string;
+}
+
+const round = (value: number, digits = 2) => Math.round(value * 10 ** digits) / 10 ** digits;
+
+function quantityRows(rows: TakeoffRow[], labels: TakeoffLabels): XlsxCell[][] {
+  const { columns } = labels;
+  return [
+    [columns.trade, columns.item, columns.element, columns.storey, columns.quantity, columns.unit, columns.details],
+    ...rows.map((row) => {
+      const { trade, unit } = getTakeoffItem(row.item);
+      const details = (Object.entries(row.details) as [TakeoffDetailKey, number][])
+        .map(([key, value]) => `${labels.detail(key)}: ${round(value)}`)
+        .join(', ');
+      return [
+        labels.trade(trade),
+        labels.item(row.item),
+        row.elementName,
+        labels.storey(row.storeyId),
+        round(row.quantity),
+        unit,
+        details,
+      ];
+    }),
+  ];
+}
+
+function costRows(estimate: CostEstimate, labels: TakeoffLabels): XlsxCell[][] {
+  const { columns } = labels;
+  return [
+    [
+      columns.trade,
+      columns.item,
+      columns.storey,
+      columns.count,
+      columns.quantity,
+      columns.unit,
+      columns.unitPrice,
+      columns.total,
+    ],
+    ...estimate.lines.map((line) => [
+      labels.trade(line.trade),
+      labels.item(line.item),
+      labels.storey(line.storeyId),
+      line.elementCount,
+      round(line.quantity),
+      line.unit,
+      line.unitPrice,
+      round(line.total),
+    ]),
+    [labels.totalLabel, '', '', '', '', '', '', round(estimate.total)],
+  ];
+}
+
+/**
+ * Trade × storey matrix of the totals
+ */
+function summaryRows(estimate: CostEstimate, labels: TakeoffLabels): XlsxCell[][] {
+  const storeyIds = Array.from(estimate.byStorey.keys());
+  const trades = TRADES.filter((trade) => estimate.byTrade.has(trade));
+  const totalOf = (trade: Trade, storeyId: string) =>
+    estimate.lines
+      .filter((line) => line.trade === trade && (line.storeyId ?? '') === storeyId)
+      .reduce((sum, line) => sum + line.total, 0);
+
+  return [
+    [labels.columns.trade, ...storeyIds.map((id) => labels.storey(id || null)), labels.totalLabel],
+    ...trades.map((trade) => [
+      labels.trade(trade),
+      ...storeyIds.map((id) => round(totalOf(trade, id))),
+      round(estimate.byTrade.get(trade) ?? 0),
+    ]),
+    [labels.totalLabel, ...storeyIds.map((id) => round(estimate.byStorey.get(id) ?? 0)), round(estimate.total)],
+  ];
+}
+
+export function takeoffToXlsx(rows: TakeoffRow[], estimate: CostEstimate, labels: TakeoffLabels): Uint8Array {
+  const sheet = (name: string, data: XlsxCell[][]) => ({
+    name,
+    rows: data,
+    header: true,
+    columnWidths: (data[0] ?? []).map((_, i) => (i < 3 ? 24 : 14)),
+  });
+  return createXlsx([
+    sheet(labels.sheets.summary, summaryRows(estimate, labels)),
+    sheet(labels.sheets.costs, costRows(estimate, labels)),
+    sheet(labels.sheets.quantities, quantityRows(rows, labels)),
+  ]);
+}
+
+/**
+ * Cost lines as CSV (semicolon separated)
+ */
+export function costEstimateToCsv(estimate: CostEstimate, labels: TakeoffLabels): string {
+  return costRows(estimate, labels)
+    .map((cells) => cells.map((cell) => `"${String(cell ?? '').replace(/"/g, '""')}"`).join(';'))
+    .join('\n');
+}
+
+/**
+ * Trigger the browser download of the workbook or CSV
+ */
+export function downloadTakeoff(content: Uint8Array | string, fileName: string): void {
+  if (typeof content === 'string') {
+    downloadBlob(content, 'text/csv;charset=utf-8', `${fileName}.csv`);
+  } else {
+    downloadBlob(content, XLSX_MIME_TYPE, `${fileName}.xlsx`);
+  }
+}
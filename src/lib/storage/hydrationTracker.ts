@@ -12,17 +12,19 @@ type HydrationCallback = () => void;
 interface HydrationState {
   project: boolean;
   elements: boolean;
+  measurements: boolean;
 }
 
 const state: HydrationState = {
   project: false,
   elements: false,
+  measurements: false,
 };
 
 const callbacks: HydrationCallback[] = [];
 
 function checkAllHydrated() {
-  if (state.project && state.elements) {
+  if (isAllHydrated()) {
     console.log('[CoffeeBIM] Alle Stores hydriert');
     callbacks.forEach((cb) => cb());
     // Clear callbacks after executing
@@ -42,8 +44,14 @@ export function setElementsHydrated() {
   checkAllHydrated();
 }
 
+export function setMeasurementsHydrated() {
+  state.measurements = true;
+  console.log('[CoffeeBIM] Measurement Store hydriert');
+  checkAllHydrated();
+}
+
 export function isAllHydrated(): boolean {
-  return state.project && state.elements;
+  return state.project && state.elements && state.measurements;
 }
 
 export function onAllHydrated(callback: HydrationCallback) {
@@ -60,5 +68,6 @@ export function onAllHydrated(callback: HydrationCallback) {
 export function resetHydrationState() {
   state.project = false;
   state.elements = false;
+  state.measurements = false;
   callbacks.length = 0;
 }
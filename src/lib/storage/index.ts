@@ -1 +1,14 @@
-export { createIndexedDBStorage, requestPersistentStorage, getStorageEstimate } from './indexedDBStorage';
+export {
+  createIndexedDBStorage,
+  requestPersistentStorage,
+  getStorageEstimate,
+  PROJECT_LIBRARY_KEY,
+  DEFAULT_PROJECT_ID,
+  getScopedKey,
+  setStorageScope,
+  getStorageScope,
+  setStorageWritesSuspended,
+  readStorageItem,
+  writeStorageItem,
+  deleteStorageItem,
+} from './indexedDBStorage';
@@ -12,15 +12,92 @@ import { storageLogger as logger } from '@/lib/utils/logger';
 // Eigener Store für CoffeeBIM (separiert von anderen Apps)
 const coffeeBimStore = createStore('coffeebim-db', 'coffeebim-store');
 
+/** Key des Projekt-Bibliothek-Index */
+export const PROJECT_LIBRARY_KEY = 'coffeebim-library';
+
+/**
+ * ID des ursprünglichen Einzelprojekts.
+ * Dessen Daten liegen aus Kompatibilitätsgründen unter den unscoped Keys.
+ */
+export const DEFAULT_PROJECT_ID = 'default';
+
+// Aktives Projekt - bestimmt unter welchen Keys die Stores lesen/schreiben
+let activeProjectScope: string = DEFAULT_PROJECT_ID;
+// Während eines Projektwechsels keine Schreibzugriffe (verhindert State-Vermischung)
+let writesSuspended = false;
+
+// Aktives Projekt aus dem Bibliothek-Index lesen, bevor die erste Hydration läuft
+const scopeReady = get<{ activeProjectId?: string }>(PROJECT_LIBRARY_KEY, coffeeBimStore)
+  .then((library) => {
+    activeProjectScope = library?.activeProjectId ?? DEFAULT_PROJECT_ID;
+  })
+  .catch((error) => {
+    logger.error('Bibliothek-Index konnte nicht gelesen werden:', error);
+  });
+
+/**
+ * Key eines Stores für ein bestimmtes Projekt
+ */
+export function getScopedKey(name: string, projectId: string = activeProjectScope): string {
+  return projectId === DEFAULT_PROJECT_ID ? name : `${name}@${projectId}`;
+}
+
+/**
+ * Aktives Projekt für alle persistierten Stores setzen
+ */
+export function setStorageScope(projectId: string): void {
+  activeProjectScope = projectId;
+}
+
+/**
+ * Aktives Projekt (wartet auf das initiale Lesen des Bibliothek-Index)
+ */
+export async function getStorageScope(): Promise<string> {
+  await scopeReady;
+  return activeProjectScope;
+}
+
+/**
+ * Schreibzugriffe der Stores aussetzen/fortsetzen
+ */
+export function setStorageWritesSuspended(suspended: boolean): void {
+  writesSuspended = suspended;
+}
+
+/**
+ * Direkter Lesezugriff auf einen Key (ohne Scope)
+ */
+export async function readStorageItem<T>(key: string): Promise<T | undefined> {
+  return get<T>(key, coffeeBimStore);
+}
+
+/**
+ * Direkter Schreibzugriff auf einen Key (ohne Scope)
+ */
+export async function writeStorageItem<T>(key: string, value: T): Promise<void> {
+  await set(key, value, coffeeBimStore);
+}
+
+/**
+ * Direktes Löschen eines Keys (ohne Scope)
+ */
+export async function deleteStorageItem(key: string): Promise<void> {
+  await del(key, coffeeBimStore);
+}
+
 /**
  * Erstellt einen Zustand-kompatiblen Storage Adapter für IndexedDB
+ *
+ * Die Keys werden auf das aktive Projekt der Projekt-Bibliothek gescoped.
  */
 export function createIndexedDBStorage<T>(): PersistStorage<T> {
   return {
     getItem: async (name: string): Promise<StorageValue<T> | null> => {
       try {
-        const value = await get<StorageValue<T>>(name, coffeeBimStore);
-        logger.log(`getItem(${name}):`, value ? 'Daten gefunden' : 'Keine Daten');
+        await scopeReady;
+        const key = getScopedKey(name);
+        const value = await get<StorageValue<T>>(key, coffeeBimStore);
+        logger.log(`getItem(${key}):`, value ? 'Daten gefunden' : 'Keine Daten');
         return value ?? null;
       } catch (error) {
         logger.error(`getItem Fehler:`, error);
@@ -29,16 +106,21 @@ export function createIndexedDBStorage<T>(): PersistStorage<T> {
     },
 
     setItem: async (name: string, value: StorageValue<T>): Promise<void> => {
+      if (writesSuspended) return;
       try {
-        await set(name, value, coffeeBimStore);
-        logger.log(`setItem(${name}): Gespeichert`);
+        await scopeReady;
+        if (writesSuspended) return;
+        const key = getScopedKey(name);
+        await set(key, value, coffeeBimStore);
+        logger.log(`setItem(${key}): Gespeichert`);
       } catch (error) {
         logger.error(`setItem Fehler:`, error);
       }
     },
 
     removeItem: async (name: string): Promise<void> => {
-      await del(name, coffeeBimStore);
+      await scopeReady;
+      await del(getScopedKey(name), coffeeBimStore);
     },
   };
 }
@@ -0,0 +1,42 @@
+/**
+ * Browser download of generated files (exports, reports, project file)
+ */
+
+/** Characters replaced in file names (umlauts, spaces, path separators) */
+const UNSAFE_FILE_NAME_CHARS = /[^a-zA-Z0-9-]/g;
+
+/**
+ * Replace unsafe characters of the base name, keeps the extension
+ *
+ * @example sanitizeFileName('Café Müller.ifc') // 'Caf__M_ller.ifc'
+ */
+export function sanitizeFileName(fileName: string): string {
+  const dot = fileName.lastIndexOf('.');
+  if (dot <= 0) return fileName.replace(UNSAFE_FILE_NAME_CHARS, '_');
+  return fileName.slice(0, dot).replace(UNSAFE_FILE_NAME_CHARS, '_') + fileName.slice(dot);
+}
+
+/**
+ * Trigger the browser download of a file
+ * CSV text gets a BOM so spreadsheet apps detect UTF-8 (umlauts, m²).
+ *
+ * @param content - Text or binary file content
+ * @param mimeType - MIME type of the file
+ * @param fileName - File name including extension, sanitized before download
+ */
+export function downloadBlob(content: string | Uint8Array, mimeType: string, fileName: string): void {
+  const part = typeof content === 'string' ? content : new Uint8Array(content);
+  const bom = typeof content === 'string' && mimeType.startsWith('text/csv') ? '\uFEFF' : '';
+
+  const blob = new Blob(bom ? [bom, part] : [part], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = sanitizeFileName(fileName);
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+
+  URL.revokeObjectURL(url);
+}
@@ -5,10 +5,15 @@ export { useSelectionStore } from './useSelectionStore';
 export { useToolStore } from './useToolStore';
 export { useViewStore } from './useViewStore';
 export { usePdfUnderlayStore, pdfToWorld } from './usePdfUnderlayStore';
+export { useDxfUnderlayStore } from './useDxfUnderlayStore';
 export { useMeasurementStore } from './useMeasurementStore';
 export type { Measurement, MeasurementPlacementState } from './useMeasurementStore';
 export { useEvacuationStore } from './useEvacuationStore';
 export type { EvacuationAgent, ExitDoor } from './useEvacuationStore';
+export { useEgressCheckStore } from './useEgressCheckStore';
 export { useSettingsStore } from './useSettingsStore';
 export type { VisualizationStyle, ImageResolution } from './useSettingsStore';
 export { useProModeStore } from './useProModeStore';
+export { useProjectLibraryStore } from './useProjectLibraryStore';
+export { useHistoryStore, describeElements } from './useHistoryStore';
+export type { HistoryEntry, HistorySnapshot } from './useHistoryStore';
@@ -0,0 +1,105 @@
+import { create } from 'zustand';
+import type { DxfUnderlayDocument } from '@/types/dxf';
+
+interface DxfUnderlayState {
+  document: DxfUnderlayDocument | null;
+
+  // Display
+  isVisible: boolean;
+  opacity: number;
+  hiddenLayers: Set<string>;
+
+  // Entities picked for wall conversion
+  selectedEntityIds: Set<string>;
+}
+
+interface DxfUnderlayActions {
+  loadDocument: (doc: DxfUnderlayDocument) => void;
+  clearDocument: () => void;
+
+  // Display actions
+  setVisible: (visible: boolean) => void;
+  toggleVisible: () => void;
+  setOpacity: (opacity: number) => void;
+  toggleLayer: (layer: string) => void;
+  setAllLayersVisible: (visible: boolean) => void;
+
+  // Selection actions
+  selectEntities: (ids: string[], addToSelection?: boolean) => void;
+  toggleEntity: (id: string) => void;
+  clearSelection: () => void;
+}
+
+export const useDxfUnderlayStore = create<DxfUnderlayState & DxfUnderlayActions>((set) => ({
+  // Initial state
+  document: null,
+  isVisible: true,
+  opacity: 0.6,
+  hiddenLayers: new Set(),
+  selectedEntityIds: new Set(),
+
+  loadDocument: (doc) =>
+    set({
+      document: doc,
+      isVisible: true,
+      hiddenLayers: new Set(),
+      selectedEntityIds: new Set(),
+    }),
+
+  clearDocument: () =>
+    set({
+      document: null,
+      hiddenLayers: new Set(),
+      selectedEntityIds: new Set(),
+    }),
+
+  // Display actions
+  setVisible: (visible) => set({ isVisible: visible }),
+
+  toggleVisible: () => set((state) => ({ isVisible: !state.isVisible })),
+
+  setOpacity: (opacity) => set({ opacity: Math.max(0, Math.min(1, opacity)) }),
+
+  toggleLayer: (layer) =>
+    set((state) => {
+      const hiddenLayers = new Set(state.hiddenLayers);
+      if (hiddenLayers.has(layer)) {
+        hiddenLayers.delete(layer);
+        return { hiddenLayers };
+      }
+      hiddenLayers.add(layer);
+
+      // Hidden entities cannot stay selected
+      const hiddenIds = new Set(
+        state.document?.entities.filter((e) => e.layer === layer).map((e) => e.id) ?? []
+      );
+      const selectedEntityIds = new Set([...state.selectedEntityIds].filter((id) => !hiddenIds.has(id)));
+      return { hiddenLayers, selectedEntityIds };
+    }),
+
+  setAllLayersVisible: (visible) =>
+    set((state) => ({
+      hiddenLayers: visible ? new Set() : new Set(state.document?.layers.map((l) => l.name) ?? []),
+      selectedEntityIds: visible ? state.selectedEntityIds : new Set(),
+    })),
+
+  // Selection actions
+  selectEntities: (ids, addToSelection = false) =>
+    set((state) => ({
+      selectedEntityIds: new Set(addToSelection ? [...state.selectedEntityIds, ...ids] : ids),
+    })),
+
+  toggleEntity: (id) =>
+    set((state) => {
+      const selectedEntityIds = new Set(state.selectedEntityIds);
+      if (selectedEntityIds.has(id)) {
+        selectedEntityIds.delete(id);
+      } else {
+        selectedEntityIds.add(id);
+      }
+      return { selectedEntityIds };
+    }),
+
+  clearSelection: () =>
+    set((state) => (state.selectedEntityIds.size === 0 ? state : { selectedEntityIds: new Set() })),
+}));
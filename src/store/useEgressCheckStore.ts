@@ -0,0 +1,60 @@
+/**
+ * Egress Check Store
+ *
+ * Selected rule profile, per-value overrides and the findings of the last check.
+ */
+
+import { create } from 'zustand';
+import type { BimElement, StoreyInfo } from '@/types/bim';
+import {
+  checkEgress,
+  EGRESS_RULE_PROFILES,
+  DEFAULT_EGRESS_PROFILE,
+  type EgressProfileId,
+  type EgressRuleValues,
+  type EgressFinding,
+} from '@/lib/evacuation/egressRules';
+
+interface EgressCheckState {
+  profileId: EgressProfileId;
+  /** Values changed by the user on top of the profile */
+  overrides: Partial<EgressRuleValues>;
+  findings: EgressFinding[];
+  /** Timestamp of the last check (null = not checked yet) */
+  checkedAt: number | null;
+}
+
+interface EgressCheckActions {
+  setProfile: (profileId: EgressProfileId) => void;
+  setRuleValue: (key: keyof EgressRuleValues, value: number) => void;
+  resetOverrides: () => void;
+  getRules: () => EgressRuleValues;
+  runCheck: (elements: BimElement[], storeys: StoreyInfo[]) => void;
+  clearFindings: () => void;
+}
+
+export const useEgressCheckStore = create<EgressCheckState & EgressCheckActions>((set, get) => ({
+  profileId: DEFAULT_EGRESS_PROFILE,
+  overrides: {},
+  findings: [],
+  checkedAt: null,
+
+  setProfile: (profileId) => set({ profileId, overrides: {} }),
+
+  setRuleValue: (key, value) =>
+    set((state) => ({ overrides: { ...state.overrides, [key]: Math.max(0, value) } })),
+
+  resetOverrides: () => set({ overrides: {} }),
+
+  getRules: () => {
+    const { profileId, overrides } = get();
+    return { ...EGRESS_RULE_PROFILES[profileId], ...overrides };
+  },
+
+  runCheck: (elements, storeys) => {
+    const findings = checkEgress(elements, storeys, get().getRules());
+    set({ findings, checkedAt: Date.now() });
+  },
+
+  clearFindings: () => set({ findings: [], checkedAt: null }),
+}));
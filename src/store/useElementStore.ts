@@ -1,6 +1,5 @@
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
-import { temporal } from 'zundo';
 import type { BimElement, ElementType } from '@/types/bim';
 import { updateOpeningFromElement, getHostWallId } from '@/bim/elements';
 import { createIndexedDBStorage } from '@/lib/storage';
@@ -53,9 +52,8 @@ interface SerializedElementState {
 }
 
 export const useElementStore = create<ElementState & ElementActions>()(
-  temporal(
-    persist(
-      (set, get) => ({
+  persist(
+    (set, get) => ({
       elements: new Map(),
 
       // CRUD operations
@@ -270,21 +268,5 @@ export const useElementStore = create<ElementState & ElementActions>()(
         };
       },
     }
-    ),
-    {
-      // Temporal middleware options
-      limit: 100, // Max history entries
-      equality: (pastState, currentState) => {
-        // Compare elements Maps by size and content
-        if (pastState.elements.size !== currentState.elements.size) return false;
-        for (const [key, value] of pastState.elements) {
-          const current = currentState.elements.get(key);
-          if (!current || JSON.stringify(value) !== JSON.stringify(current)) {
-            return false;
-          }
-        }
-        return true;
-      },
-    }
   )
 );
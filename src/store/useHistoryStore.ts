@@ -0,0 +1,320 @@
+/**
+ * History Store - Undo/Redo über alle Projekt-Stores
+ *
+ * Hält eine lineare Liste von Snapshots (Projekt-Hierarchie und -Daten aus
+ * PROJECT_SLICES, Elemente, Messungen).
+ * Da alle Stores immutable aktualisiert werden, teilen sich Snapshots
+ * unveränderte Objekte - ein Eintrag kostet nur die geänderten Referenzen.
+ *
+ * Änderungen werden automatisch erfasst und kurz gebündelt (COMMIT_DELAY_MS).
+ * Für zusammengehörige Operationen mit eigenem Namen gibt es `transaction()`:
+ *
+ *   useHistoryStore.getState().transaction('Geschoss löschen', () => {
+ *     clearStorey(id);
+ *     removeStorey(id);
+ *   });
+ */
+
+import { create } from 'zustand';
+import i18n from 'i18next';
+import type { BimElement } from '@/types/bim';
+import { useProjectStore } from './useProjectStore';
+import { useElementStore } from './useElementStore';
+import { useMeasurementStore, type Measurement } from './useMeasurementStore';
+import { onAllHydrated } from '@/lib/storage/hydrationTracker';
+
+/** Max number of history entries (incl. the initial state) */
+const HISTORY_LIMIT = 100;
+
+/** Changes within this window are merged into one entry (e.g. dragging) */
+const COMMIT_DELAY_MS = 300;
+
+type ProjectStoreState = ReturnType<typeof useProjectStore.getState>;
+
+/**
+ * Undoable slices of the project store. Every slice holding project data
+ * belongs here, otherwise its edits bypass undo/redo.
+ */
+const PROJECT_SLICES = [
+  'project',
+  'site',
+  'building',
+  'storeys',
+  'evacuationScenarios',
+  'fireCompartments',
+  'electricalCircuits',
+  'electricalSettings',
+  'unitPrices',
+  'cleaningShifts',
+  'customModules',
+] as const;
+
+type ProjectSlice = (typeof PROJECT_SLICES)[number];
+
+/**
+ * Labels of project slices that have no specific description in describeChange
+ */
+const SLICE_LABELS: Partial<Record<ProjectSlice, () => string>> = {
+  evacuationScenarios: () => i18n.t('history.editEvacuationScenarios'),
+  fireCompartments: () => i18n.t('history.editFireCompartments'),
+  electricalCircuits: () => i18n.t('history.editElectrical'),
+  electricalSettings: () => i18n.t('history.editElectricalSettings'),
+  unitPrices: () => i18n.t('history.editUnitPrices'),
+  cleaningShifts: () => i18n.t('history.editCleaningShifts'),
+  customModules: () => i18n.t('history.editCustomModules'),
+};
+
+/**
+ * Snapshot of all undoable state
+ */
+export interface HistorySnapshot extends Pick<ProjectStoreState, ProjectSlice> {
+  elements: Map<string, BimElement>;
+  measurements: Measurement[];
+}
+
+/**
+ * A single named point in the history
+ */
+export interface HistoryEntry {
+  id: number;
+  /** Human readable label, e.g. "3 Wände verschoben" */
+  label: string;
+  timestamp: number;
+  /** State after this step */
+  snapshot: HistorySnapshot;
+}
+
+interface HistoryState {
+  entries: HistoryEntry[];
+  /** Index of the entry that matches the current state */
+  currentIndex: number;
+}
+
+interface HistoryActions {
+  undo: () => void;
+  redo: () => void;
+  /** Restore the state of any entry */
+  jumpTo: (index: number) => void;
+  /** Run several store changes as one named history entry */
+  transaction: <T>(label: string, fn: () => T) => T;
+  /** Drop all entries and start from the current state */
+  clear: () => void;
+}
+
+let nextEntryId = 1;
+let commitTimer: ReturnType<typeof setTimeout> | null = null;
+let transactionDepth = 0;
+let isRestoring = false;
+
+function pickProjectSlices(state: Pick<ProjectStoreState, ProjectSlice>): Pick<ProjectStoreState, ProjectSlice> {
+  return Object.fromEntries(PROJECT_SLICES.map((key) => [key, state[key]])) as Pick<ProjectStoreState, ProjectSlice>;
+}
+
+function takeSnapshot(): HistorySnapshot {
+  return {
+    ...pickProjectSlices(useProjectStore.getState()),
+    elements: useElementStore.getState().elements,
+    measurements: useMeasurementStore.getState().measurements,
+  };
+}
+
+function isSameSnapshot(a: HistorySnapshot, b: HistorySnapshot): boolean {
+  return (
+    PROJECT_SLICES.every((key) => a[key] === b[key]) &&
+    a.elements === b.elements &&
+    a.measurements === b.measurements
+  );
+}
+
+/**
+ * Label for a group of elements, e.g. "Wand" or "3 Wände"
+ */
+export function describeElements(elements: BimElement[]): string {
+  const types = new Set(elements.map((e) => e.type));
+  const type = types.size === 1 ? elements[0]?.type : undefined;
+  return i18n.t(`history.elements.${type ?? 'element'}`, {
+    count: elements.length,
+    defaultValue: i18n.t('history.elements.element', { count: elements.length }),
+  });
+}
+
+/**
+ * Derive a label from the difference between two snapshots
+ */
+function describeChange(before: HistorySnapshot, after: HistorySnapshot): string {
+  const parts: string[] = [];
+
+  // Storeys
+  if (before.storeys !== after.storeys) {
+    const beforeIds = new Set(before.storeys.map((s) => s.id));
+    const afterIds = new Set(after.storeys.map((s) => s.id));
+    const added = after.storeys.find((s) => !beforeIds.has(s.id));
+    const removed = before.storeys.find((s) => !afterIds.has(s.id));
+    const changed = after.storeys.find((s) => beforeIds.has(s.id) && !before.storeys.includes(s));
+    if (added) parts.push(i18n.t('history.addStorey', { name: added.name }));
+    else if (removed) parts.push(i18n.t('history.removeStorey', { name: removed.name }));
+    else if (changed) parts.push(i18n.t('history.updateStorey', { name: changed.name }));
+  }
+
+  if (before.project !== after.project || before.site !== after.site || before.building !== after.building) {
+    parts.push(i18n.t('history.editProject'));
+  }
+
+  for (const key of PROJECT_SLICES) {
+    const label = SLICE_LABELS[key];
+    if (label && before[key] !== after[key]) parts.push(label());
+  }
+
+  // Elements
+  if (before.elements !== after.elements) {
+    const added: BimElement[] = [];
+    const changed: BimElement[] = [];
+    const removed: BimElement[] = [];
+    for (const [id, element] of after.elements) {
+      const previous = before.elements.get(id);
+      if (!previous) added.push(element);
+      else if (previous !== element) changed.push(element);
+    }
+    for (const [id, element] of before.elements) {
+      if (!after.elements.has(id)) removed.push(element);
+    }
+
+    if (added.length > 0) parts.push(i18n.t('history.added', { what: describeElements(added) }));
+    if (removed.length > 0) parts.push(i18n.t('history.removed', { what: describeElements(removed) }));
+    if (changed.length > 0) parts.push(i18n.t('history.changed', { what: describeElements(changed) }));
+  }
+
+  // Measurements
+  if (before.measurements !== after.measurements) {
+    const diff = after.measurements.length - before.measurements.length;
+    if (diff > 0) parts.push(i18n.t('history.addMeasurement', { count: diff }));
+    else if (diff < 0) parts.push(i18n.t('history.removeMeasurement', { count: -diff }));
+  }
+
+  return parts.length > 0 ? parts.join(', ') : i18n.t('history.change');
+}
+
+export const useHistoryStore = create<HistoryState & HistoryActions>((set, get) => {
+  /**
+   * Append the current state as new entry (drops redo entries)
+   */
+  const commit = (label?: string) => {
+    if (commitTimer) {
+      clearTimeout(commitTimer);
+      commitTimer = null;
+    }
+
+    const { entries, currentIndex } = get();
+    const current = entries[currentIndex];
+    const snapshot = takeSnapshot();
+    if (!current) {
+      get().clear();
+      return;
+    }
+    if (isSameSnapshot(current.snapshot, snapshot)) return;
+
+    const entry: HistoryEntry = {
+      id: nextEntryId++,
+      label: label ?? describeChange(current.snapshot, snapshot),
+      timestamp: Date.now(),
+      snapshot,
+    };
+
+    const newEntries = [...entries.slice(0, currentIndex + 1), entry].slice(-HISTORY_LIMIT);
+    set({ entries: newEntries, currentIndex: newEntries.length - 1 });
+  };
+
+  /**
+   * Called on every change of a tracked store
+   */
+  const handleStoreChange = () => {
+    if (isRestoring || transactionDepth > 0) return;
+    if (commitTimer) clearTimeout(commitTimer);
+    commitTimer = setTimeout(() => commit(), COMMIT_DELAY_MS);
+  };
+
+  const restore = (snapshot: HistorySnapshot) => {
+    isRestoring = true;
+    try {
+      const { activeStoreyId } = useProjectStore.getState();
+      useProjectStore.setState({
+        ...pickProjectSlices(snapshot),
+        activeStoreyId: snapshot.storeys.some((s) => s.id === activeStoreyId)
+          ? activeStoreyId
+          : (snapshot.storeys[0]?.id ?? null),
+      });
+      useElementStore.setState({ elements: snapshot.elements });
+      useMeasurementStore.setState({ measurements: snapshot.measurements, selectedMeasurementId: null });
+    } finally {
+      isRestoring = false;
+    }
+  };
+
+  // Track changes of all undoable slices
+  useProjectStore.subscribe((state, prev) => {
+    if (PROJECT_SLICES.some((key) => state[key] !== prev[key])) handleStoreChange();
+  });
+  useElementStore.subscribe((state, prev) => {
+    if (state.elements !== prev.elements) handleStoreChange();
+  });
+  useMeasurementStore.subscribe((state, prev) => {
+    if (state.measurements !== prev.measurements) handleStoreChange();
+  });
+
+  // Persisted state is the starting point of the history
+  // (deferred: the callback runs synchronously if the stores are already hydrated)
+  onAllHydrated(() => queueMicrotask(() => get().clear()));
+
+  return {
+    entries: [],
+    currentIndex: -1,
+
+    undo: () => {
+      // Pending changes first become their own entry, so undo reverts them
+      if (commitTimer) commit();
+      get().jumpTo(get().currentIndex - 1);
+    },
+
+    redo: () => {
+      if (commitTimer) commit();
+      get().jumpTo(get().currentIndex + 1);
+    },
+
+    jumpTo: (index) => {
+      if (commitTimer) commit();
+      const entry = get().entries[index];
+      if (!entry || index === get().currentIndex) return;
+      restore(entry.snapshot);
+      set({ currentIndex: index });
+    },
+
+    transaction: (label, fn) => {
+      if (transactionDepth === 0 && commitTimer) commit();
+      transactionDepth++;
+      try {
+        return fn();
+      } finally {
+        transactionDepth--;
+        if (transactionDepth === 0) commit(label);
+      }
+    },
+
+    clear: () => {
+      if (commitTimer) {
+        clearTimeout(commitTimer);
+        commitTimer = null;
+      }
+      set({
+        entries: [
+          {
+            id: nextEntryId++,
+            label: i18n.t('history.initial'),
+            timestamp: Date.now(),
+            snapshot: takeSnapshot(),
+          },
+        ],
+        currentIndex: 0,
+      });
+    },
+  };
+});
@@ -1,5 +1,8 @@
 import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
 import type { Point3D } from '@/types/geometry';
+import { createIndexedDBStorage } from '@/lib/storage';
+import { setMeasurementsHydrated } from '@/lib/storage/hydrationTracker';
 
 /**
  * A single measurement between two points
@@ -50,6 +53,8 @@ interface MeasurementActions {
   removeSelectedMeasurement: () => void;
   /** Clear all measurements */
   clearMeasurements: () => void;
+  /** Replace all measurements (e.g. when opening a project file) */
+  importMeasurements: (measurements: Measurement[]) => void;
   /** Select a measurement */
   selectMeasurement: (id: string | null) => void;
   /** Start placing a new measurement */
@@ -94,102 +99,126 @@ const initialPlacementState: MeasurementPlacementState = {
   isPlacing: false,
 };
 
-export const useMeasurementStore = create<MeasurementState & MeasurementActions>((set, get) => ({
-  measurements: [],
-  placementState: initialPlacementState,
-  selectedMeasurementId: null,
-
-  addMeasurement: (startPoint, endPoint) => {
-    const id = generateId();
-    const measurement: Measurement = {
-      id,
-      ...calculateMeasurement(startPoint, endPoint),
-      createdAt: Date.now(),
-    };
-
-    set((state) => ({
-      measurements: [...state.measurements, measurement],
-    }));
-
-    return id;
-  },
-
-  removeMeasurement: (id) => {
-    set((state) => ({
-      measurements: state.measurements.filter((m) => m.id !== id),
-      selectedMeasurementId: state.selectedMeasurementId === id ? null : state.selectedMeasurementId,
-    }));
-  },
-
-  removeSelectedMeasurement: () => {
-    const { selectedMeasurementId } = get();
-    if (selectedMeasurementId) {
-      get().removeMeasurement(selectedMeasurementId);
-    }
-  },
+/** Persisted part of the measurement store (per project scope) */
+type PersistedMeasurementState = Pick<MeasurementState, 'measurements'>;
 
-  clearMeasurements: () => {
-    set({
+export const useMeasurementStore = create<MeasurementState & MeasurementActions>()(
+  persist(
+    (set, get) => ({
       measurements: [],
+      placementState: initialPlacementState,
       selectedMeasurementId: null,
-    });
-  },
-
-  selectMeasurement: (id) => {
-    set({ selectedMeasurementId: id });
-  },
-
-  startPlacement: (startPoint) => {
-    set({
-      placementState: {
-        startPoint,
-        previewEndPoint: startPoint,
-        isPlacing: true,
+
+      addMeasurement: (startPoint, endPoint) => {
+        const id = generateId();
+        const measurement: Measurement = {
+          id,
+          ...calculateMeasurement(startPoint, endPoint),
+          createdAt: Date.now(),
+        };
+
+        set((state) => ({
+          measurements: [...state.measurements, measurement],
+        }));
+
+        return id;
       },
-      selectedMeasurementId: null,
-    });
-  },
-
-  updatePreview: (endPoint) => {
-    set((state) => ({
-      placementState: {
-        ...state.placementState,
-        previewEndPoint: endPoint,
+
+      removeMeasurement: (id) => {
+        set((state) => ({
+          measurements: state.measurements.filter((m) => m.id !== id),
+          selectedMeasurementId: state.selectedMeasurementId === id ? null : state.selectedMeasurementId,
+        }));
       },
-    }));
-  },
 
-  completePlacement: (endPoint) => {
-    const { placementState } = get();
-    if (!placementState.isPlacing || !placementState.startPoint) {
-      return null;
-    }
+      removeSelectedMeasurement: () => {
+        const { selectedMeasurementId } = get();
+        if (selectedMeasurementId) {
+          get().removeMeasurement(selectedMeasurementId);
+        }
+      },
 
-    // Don't create measurement if points are the same
-    const start = placementState.startPoint;
-    const dx = endPoint.x - start.x;
-    const dy = endPoint.y - start.y;
-    const dz = endPoint.z - start.z;
-    const distance = Math.sqrt(dx * dx + dy * dy + dz * dz);
-
-    if (distance < 0.001) {
-      // Less than 1mm, cancel
-      get().cancelPlacement();
-      return null;
-    }
+      clearMeasurements: () => {
+        set({
+          measurements: [],
+          selectedMeasurementId: null,
+        });
+      },
 
-    const id = get().addMeasurement(start, endPoint);
+      importMeasurements: (measurements) => {
+        set({
+          measurements,
+          placementState: initialPlacementState,
+          selectedMeasurementId: null,
+        });
+      },
 
-    set({
-      placementState: initialPlacementState,
-    });
+      selectMeasurement: (id) => {
+        set({ selectedMeasurementId: id });
+      },
 
-    return id;
-  },
+      startPlacement: (startPoint) => {
+        set({
+          placementState: {
+            startPoint,
+            previewEndPoint: startPoint,
+            isPlacing: true,
+          },
+          selectedMeasurementId: null,
+        });
+      },
 
-  cancelPlacement: () => {
-    set({
-      placementState: initialPlacementState,
-    });
-  },
-}));
+      updatePreview: (endPoint) => {
+        set((state) => ({
+          placementState: {
+            ...state.placementState,
+            previewEndPoint: endPoint,
+          },
+        }));
+      },
+
+      completePlacement: (endPoint) => {
+        const { placementState } = get();
+        if (!placementState.isPlacing || !placementState.startPoint) {
+          return null;
+        }
+
+        // Don't create measurement if points are the same
+        const start = placementState.startPoint;
+        const dx = endPoint.x - start.x;
+        const dy = endPoint.y - start.y;
+        const dz = endPoint.z - start.z;
+        const distance = Math.sqrt(dx * dx + dy * dy + dz * dz);
+
+        if (distance < 0.001) {
+          // Less than 1mm, cancel
+          get().cancelPlacement();
+          return null;
+        }
+
+        const id = get().addMeasurement(start, endPoint);
+
+        set({
+          placementState: initialPlacementState,
+        });
+
+        return id;
+      },
+
+      cancelPlacement: () => {
+        set({
+          placementState: initialPlacementState,
+        });
+      },
+    }),
+    {
+      name: 'coffeebim-measurements',
+      storage: createIndexedDBStorage<PersistedMeasurementState>(),
+      partialize: (state) => ({ measurements: state.measurements }),
+      onRehydrateStorage: () => () => {
+        // Auch bei Fehler als hydriert markieren, um nicht zu blockieren
+        setMeasurementsHydrated();
+      },
+    }
+  )
+);
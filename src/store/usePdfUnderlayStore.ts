@@ -1,4 +1,5 @@
 import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
 import type {
   PdfDocument,
   PdfCalibration,
@@ -6,6 +7,7 @@ import type {
   PdfPoint,
 } from '@/types/pdf';
 import { DEFAULT_CALIBRATION } from '@/types/pdf';
+import { createIndexedDBStorage } from '@/lib/storage';
 
 interface PdfUnderlayState {
   // Document state
@@ -25,6 +27,7 @@ interface PdfUnderlayActions {
   // Document actions
   loadDocument: (doc: PdfDocument) => void;
   clearDocument: () => void;
+  restoreDocument: (doc: PdfDocument, calibration: PdfCalibration) => void;
   setPage: (pageNumber: number) => void;
 
   // Calibration actions
@@ -61,128 +64,166 @@ const calculateAngle = (origin: PdfPoint, rotationPoint: PdfPoint): number => {
   return Math.atan2(dy, dx);
 };
 
-export const usePdfUnderlayStore = create<PdfUnderlayState & PdfUnderlayActions>(
-  (set, get) => ({
-    // Initial state
-    isLoaded: false,
-    document: null,
-    calibration: { ...DEFAULT_CALIBRATION },
-    calibrationStep: 'upload',
-    isVisible: true,
-    opacity: 0.5,
-
-    // Document actions
-    loadDocument: (doc) =>
-      set({
-        isLoaded: true,
-        document: doc,
-        calibrationStep: 'origin',
-        calibration: { ...DEFAULT_CALIBRATION },
-      }),
-
-    clearDocument: () =>
-      set({
-        isLoaded: false,
-        document: null,
-        calibration: { ...DEFAULT_CALIBRATION },
-        calibrationStep: 'upload',
-      }),
-
-    setPage: (pageNumber) =>
-      set((state) => ({
-        document: state.document
-          ? { ...state.document, pageNumber }
-          : null,
-      })),
-
-    // Calibration actions
-    setCalibrationStep: (step) => set({ calibrationStep: step }),
-
-    setOriginPoint: (point) =>
-      set((state) => ({
-        calibration: { ...state.calibration, originPdfPoint: point },
-        calibrationStep: 'rotation',
-      })),
-
-    setRotationPoint: (point) =>
-      set((state) => {
-        const { originPdfPoint } = state.calibration;
-        // Calculate angle immediately when rotation point is set
-        const rotationAngle = originPdfPoint
-          ? calculateAngle(originPdfPoint, point)
-          : 0;
-        return {
+/** Persisted part of the underlay store (per project scope) */
+type PersistedPdfUnderlayState = Pick<
+  PdfUnderlayState,
+  'document' | 'calibration' | 'calibrationStep' | 'isVisible' | 'opacity'
+>;
+
+export const usePdfUnderlayStore = create<PdfUnderlayState & PdfUnderlayActions>()(
+  persist(
+    (set, get) => ({
+      // Initial state
+      isLoaded: false,
+      document: null,
+      calibration: { ...DEFAULT_CALIBRATION },
+      calibrationStep: 'upload',
+      isVisible: true,
+      opacity: 0.5,
+
+      // Document actions
+      loadDocument: (doc) =>
+        set({
+          isLoaded: true,
+          document: doc,
+          calibrationStep: 'origin',
+          calibration: { ...DEFAULT_CALIBRATION },
+        }),
+
+      clearDocument: () =>
+        set({
+          isLoaded: false,
+          document: null,
+          calibration: { ...DEFAULT_CALIBRATION },
+          calibrationStep: 'upload',
+        }),
+
+      // Restore a document with an existing calibration (e.g. from a project file)
+      restoreDocument: (doc, calibration) =>
+        set({
+          isLoaded: true,
+          document: doc,
+          calibration: { ...DEFAULT_CALIBRATION, ...calibration },
+          calibrationStep: calibration.originPdfPoint ? 'complete' : 'origin',
+        }),
+
+      setPage: (pageNumber) =>
+        set((state) => ({
+          document: state.document
+            ? { ...state.document, pageNumber }
+            : null,
+        })),
+
+      // Calibration actions
+      setCalibrationStep: (step) => set({ calibrationStep: step }),
+
+      setOriginPoint: (point) =>
+        set((state) => ({
+          calibration: { ...state.calibration, originPdfPoint: point },
+          calibrationStep: 'rotation',
+        })),
+
+      setRotationPoint: (point) =>
+        set((state) => {
+          const { originPdfPoint } = state.calibration;
+          // Calculate angle immediately when rotation point is set
+          const rotationAngle = originPdfPoint
+            ? calculateAngle(originPdfPoint, point)
+            : 0;
+          return {
+            calibration: {
+              ...state.calibration,
+              rotationPdfPoint: point,
+              rotationAngle,
+            },
+            calibrationStep: 'scale',
+          };
+        }),
+
+      setRotationAngle: (angleDegrees) =>
+        set((state) => ({
           calibration: {
             ...state.calibration,
-            rotationPdfPoint: point,
-            rotationAngle,
+            rotationAngle: (angleDegrees * Math.PI) / 180,
           },
-          calibrationStep: 'scale',
-        };
-      }),
+        })),
 
-    setRotationAngle: (angleDegrees) =>
-      set((state) => ({
-        calibration: {
-          ...state.calibration,
-          rotationAngle: (angleDegrees * Math.PI) / 180,
-        },
-      })),
-
-    setScalePoint1: (point) =>
-      set((state) => ({
-        calibration: { ...state.calibration, scalePoint1: point },
-      })),
-
-    setScalePoint2: (point) =>
-      set((state) => ({
-        calibration: { ...state.calibration, scalePoint2: point },
-      })),
-
-    setRealWorldDistance: (distance) =>
-      set((state) => ({
-        calibration: { ...state.calibration, realWorldDistance: distance },
-      })),
-
-    calculateCalibration: () => {
-      const { calibration } = get();
-      const { originPdfPoint, rotationPdfPoint, scalePoint1, scalePoint2, realWorldDistance } =
-        calibration;
-
-      if (!originPdfPoint || !rotationPdfPoint || !scalePoint1 || !scalePoint2) {
-        return;
-      }
-
-      // Calculate rotation angle
-      const rotationAngle = calculateAngle(originPdfPoint, rotationPdfPoint);
-
-      // Calculate scale (meters per pixel)
-      const pixelDistance = pdfDistance(scalePoint1, scalePoint2);
-      const metersPerPixel = pixelDistance > 0 ? realWorldDistance / pixelDistance : 0.01;
-
-      set({
-        calibration: {
-          ...calibration,
-          rotationAngle,
-          metersPerPixel,
-        },
-        calibrationStep: 'complete',
-      });
-    },
-
-    resetCalibration: () =>
-      set({
-        calibration: { ...DEFAULT_CALIBRATION },
-        calibrationStep: 'origin',
-      }),
+      setScalePoint1: (point) =>
+        set((state) => ({
+          calibration: { ...state.calibration, scalePoint1: point },
+        })),
+
+      setScalePoint2: (point) =>
+        set((state) => ({
+          calibration: { ...state.calibration, scalePoint2: point },
+        })),
 
-    // Display actions
-    setVisible: (visible) => set({ isVisible: visible }),
+      setRealWorldDistance: (distance) =>
+        set((state) => ({
+          calibration: { ...state.calibration, realWorldDistance: distance },
+        })),
 
-    toggleVisible: () => set((state) => ({ isVisible: !state.isVisible })),
+      calculateCalibration: () => {
+        const { calibration } = get();
+        const { originPdfPoint, rotationPdfPoint, scalePoint1, scalePoint2, realWorldDistance } =
+          calibration;
 
-    setOpacity: (opacity) => set({ opacity: Math.max(0, Math.min(1, opacity)) }),
-  })
+        if (!originPdfPoint || !rotationPdfPoint || !scalePoint1 || !scalePoint2) {
+          return;
+        }
+
+        // Calculate rotation angle
+        const rotationAngle = calculateAngle(originPdfPoint, rotationPdfPoint);
+
+        // Calculate scale (meters per pixel)
+        const pixelDistance = pdfDistance(scalePoint1, scalePoint2);
+        const metersPerPixel = pixelDistance > 0 ? realWorldDistance / pixelDistance : 0.01;
+
+        set({
+          calibration: {
+            ...calibration,
+            rotationAngle,
+            metersPerPixel,
+          },
+          calibrationStep: 'complete',
+        });
+      },
+
+      resetCalibration: () =>
+        set({
+          calibration: { ...DEFAULT_CALIBRATION },
+          calibrationStep: 'origin',
+        }),
+
+      // Display actions
+      setVisible: (visible) => set({ isVisible: visible }),
+
+      toggleVisible: () => set((state) => ({ isVisible: !state.isVisible })),
+
+      setOpacity: (opacity) => set({ opacity: Math.max(0, Math.min(1, opacity)) }),
+    }),
+    {
+      name: 'coffeebim-pdf-underlay',
+      storage: createIndexedDBStorage<PersistedPdfUnderlayState>(),
+      partialize: (state) => ({
+        document: state.document,
+        calibration: state.calibration,
+        calibrationStep: state.calibrationStep,
+        isVisible: state.isVisible,
+        opacity: state.opacity,
+      }),
+      merge: (persistedState, currentState) => {
+        const persisted = persistedState as PersistedPdfUnderlayState | undefined;
+        if (!persisted?.document) return currentState;
+        return {
+          ...currentState,
+          ...persisted,
+          isLoaded: true,
+          calibration: { ...DEFAULT_CALIBRATION, ...persisted.calibration },
+        };
+      },
+    }
+  )
 );
 
 /**
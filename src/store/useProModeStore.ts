@@ -1,11 +1,12 @@
 /**
  * PRO Mode Store
  *
- * Manages PRO mode activation and module state (Fire Safety, Cleaning/FM)
+ * Manages PRO mode activation and module state (Fire Safety, Cleaning/FM, Maintenance)
+ * and registers the user-defined modules of the project next to the built-in ones
  */
 
 import { create } from 'zustand';
-import type { ProModule, ModuleId } from '@/types/proMode';
+import type { CustomModuleDefinition, ProModule, ModuleId } from '@/types/proMode';
 
 interface ProModeState {
   isProMode: boolean;
@@ -19,6 +20,8 @@ interface ProModeActions {
   toggleModule: (moduleId: ModuleId) => void;
   setActiveModule: (moduleId: ModuleId | null) => void;
   isModuleEnabled: (moduleId: ModuleId) => boolean;
+  /** Replace the custom modules with the project's definitions (enabled state is kept) */
+  syncCustomModules: (definitions: CustomModuleDefinition[]) => void;
 }
 
 const initialModules: ProModule[] = [
@@ -36,6 +39,34 @@ const initialModules: ProModule[] = [
     enabled: false,
     icon: 'Brush',
   },
+  {
+    id: 'maintenance',
+    name: 'Wartung & Service',
+    description: 'Wartungsintervalle der Geräte, Servicekalender, Garantieablauf',
+    enabled: false,
+    icon: 'Wrench',
+  },
+  {
+    id: 'electrical',
+    name: 'Elektro & Energie',
+    description: 'Leistungsbilanz je Raum und Stromkreis, Absicherung, Jahresenergie',
+    enabled: false,
+    icon: 'Zap',
+  },
+  {
+    id: 'quantities',
+    name: 'Mengen & Kosten',
+    description: 'Mengenermittlung, Einheitspreise, Kostenschätzung je Geschoss und Gewerk',
+    enabled: false,
+    icon: 'Calculator',
+  },
+  {
+    id: 'hygiene',
+    name: 'Hygiene (HACCP)',
+    description: 'Hygienezonen der Küche, rein/unrein-Wege, Handwaschbecken, WC-Zugänge',
+    enabled: false,
+    icon: 'ShieldPlus',
+  },
 ];
 
 export const useProModeStore = create<ProModeState & ProModeActions>((set, get) => ({
@@ -54,7 +85,7 @@ export const useProModeStore = create<ProModeState & ProModeActions>((set, get)
     set({
       isProMode: false,
       activeModule: null,
-      modules: initialModules.map((m) => ({ ...m, enabled: false })),
+      modules: get().modules.map((m) => ({ ...m, enabled: false })),
     });
     console.log('PRO Mode disabled');
   },
@@ -83,4 +114,23 @@ export const useProModeStore = create<ProModeState & ProModeActions>((set, get)
     const module = get().modules.find((m) => m.id === moduleId);
     return module?.enabled ?? false;
   },
+
+  syncCustomModules: (definitions) => {
+    set((state) => {
+      const customModules: ProModule[] = definitions.map((definition) => ({
+        id: definition.id,
+        name: definition.name,
+        description: definition.description,
+        icon: definition.icon,
+        enabled: state.modules.find((m) => m.id === definition.id)?.enabled ?? false,
+      }));
+      const isActiveRemoved =
+        state.activeModule?.startsWith('custom:') && !definitions.some((d) => d.id === state.activeModule);
+
+      return {
+        modules: [...state.modules.filter((m) => !m.id.startsWith('custom:')), ...customModules],
+        activeModule: isActiveRemoved ? null : state.activeModule,
+      };
+    });
+  },
 }));
@@ -0,0 +1,76 @@
+/**
+ * Project Library Store
+ *
+ * UI state for the project browser. The library index itself lives in
+ * IndexedDB and is managed by '@/lib/project/projectLibrary'.
+ */
+
+import { create } from 'zustand';
+import {
+  loadProjectLibrary,
+  syncActiveProject,
+  switchProject,
+  createProject,
+  duplicateProject,
+  renameProject,
+  deleteProject,
+  type ProjectLibrary,
+  type ProjectLibraryEntry,
+} from '@/lib/project/projectLibrary';
+
+interface ProjectLibraryState {
+  projects: ProjectLibraryEntry[];
+  activeProjectId: string | null;
+  /** True while a library operation (switch, duplicate, ...) is running */
+  isBusy: boolean;
+  error: string | null;
+}
+
+interface ProjectLibraryActions {
+  /** Load the index and refresh the active project's entry (incl. thumbnail) */
+  refresh: () => Promise<void>;
+  switchTo: (projectId: string) => Promise<void>;
+  create: (name: string) => Promise<void>;
+  duplicate: (projectId: string, name: string) => Promise<void>;
+  rename: (projectId: string, name: string) => Promise<void>;
+  remove: (projectId: string) => Promise<void>;
+}
+
+export const useProjectLibraryStore = create<ProjectLibraryState & ProjectLibraryActions>(
+  (set, get) => {
+    /**
+     * Run a library operation and apply the resulting index
+     */
+    const run = async (operation: () => Promise<ProjectLibrary>) => {
+      if (get().isBusy) return;
+      set({ isBusy: true, error: null });
+      try {
+        const library = await operation();
+        set({ projects: library.projects, activeProjectId: library.activeProjectId });
+      } catch (error) {
+        console.error('[CoffeeBIM] Projekt-Bibliothek Fehler:', error);
+        set({ error: error instanceof Error ? error.message : String(error) });
+      } finally {
+        set({ isBusy: false });
+      }
+    };
+
+    return {
+      projects: [],
+      activeProjectId: null,
+      isBusy: false,
+      error: null,
+
+      refresh: () =>
+        run(async () => {
+          await loadProjectLibrary();
+          return syncActiveProject(true);
+        }),
+      switchTo: (projectId) => run(() => switchProject(projectId)),
+      create: (name) => run(() => createProject(name)),
+      duplicate: (projectId, name) => run(() => duplicateProject(projectId, name)),
+      rename: (projectId, name) => run(() => renameProject(projectId, name)),
+      remove: (projectId) => run(() => deleteProject(projectId)),
+    };
+  }
+);
@@ -2,6 +2,14 @@ import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
 import { v4 as uuidv4 } from 'uuid';
 import type { ProjectInfo, SiteInfo, BuildingInfo, StoreyInfo } from '@/types/bim';
+import type { EvacuationScenario } from '@/lib/evacuation/scenarios';
+import type { FireCompartment } from '@/bim/spaces/compartments';
+import type { ElectricalCircuit, ElectricalSettings } from '@/lib/electrical';
+import { DEFAULT_ELECTRICAL_SETTINGS } from '@/lib/electrical';
+import type { TakeoffItemKey, UnitPriceCatalogue } from '@/lib/quantities';
+import { DEFAULT_UNIT_PRICES } from '@/lib/quantities';
+import type { CleaningShift } from '@/lib/cleaning';
+import type { CustomModuleDefinition } from '@/types/proMode';
 import { DEFAULT_STOREY_HEIGHT } from '@/types/bim';
 import { createIndexedDBStorage } from '@/lib/storage';
 import { setProjectHydrated } from '@/lib/storage/hydrationTracker';
@@ -12,6 +20,20 @@ interface ProjectState {
   building: BuildingInfo;
   storeys: StoreyInfo[];
   activeStoreyId: string | null;
+  /** Evacuation scenarios (blocked exits, fire origin, pre-movement) */
+  evacuationScenarios: EvacuationScenario[];
+  /** Fire compartments (groups of spaces with a required fire rating) */
+  fireCompartments: FireCompartment[];
+  /** Electrical circuits (appliances grouped behind one fuse) */
+  electricalCircuits: ElectricalCircuit[];
+  /** Opening hours, energy price and simultaneity factors of the load budget */
+  electricalSettings: ElectricalSettings;
+  /** Unit prices of the cost estimate (CHF) */
+  unitPrices: UnitPriceCatalogue;
+  /** Cleaning staff shifts with their assigned cleaning zones */
+  cleaningShifts: CleaningShift[];
+  /** User-defined PRO modules (property-set definitions) */
+  customModules: CustomModuleDefinition[];
 }
 
 interface ProjectActions {
@@ -32,6 +54,49 @@ interface ProjectActions {
   removeStorey: (id: string) => void;
   setActiveStorey: (id: string | null) => void;
 
+  // Evacuation scenario actions
+  addEvacuationScenario: (scenario: EvacuationScenario) => void;
+  updateEvacuationScenario: (id: string, updates: Partial<Omit<EvacuationScenario, 'id'>>) => void;
+  removeEvacuationScenario: (id: string) => void;
+  /** Replace all scenarios (e.g. when opening a project file) */
+  importEvacuationScenarios: (scenarios: EvacuationScenario[]) => void;
+
+  // Fire compartment actions
+  addFireCompartment: (compartment: FireCompartment) => void;
+  updateFireCompartment: (id: string, updates: Partial<Omit<FireCompartment, 'id'>>) => void;
+  removeFireCompartment: (id: string) => void;
+  /** Move a space into a compartment (null = unassigned), removing it from any other */
+  assignSpaceToCompartment: (spaceId: string, compartmentId: string | null) => void;
+  /** Replace all compartments (e.g. when opening a project file) */
+  importFireCompartments: (compartments: FireCompartment[]) => void;
+
+  // Electrical actions
+  addElectricalCircuit: (circuit: ElectricalCircuit) => void;
+  updateElectricalCircuit: (id: string, updates: Partial<Omit<ElectricalCircuit, 'id'>>) => void;
+  removeElectricalCircuit: (id: string) => void;
+  /** Move an appliance onto a circuit (null = unassigned), removing it from any other */
+  assignApplianceToCircuit: (applianceId: string, circuitId: string | null) => void;
+  updateElectricalSettings: (updates: Partial<ElectricalSettings>) => void;
+  /** Replace circuits and settings (e.g. when opening a project file) */
+  importElectrical: (circuits: ElectricalCircuit[], settings: ElectricalSettings) => void;
+
+  // Cost estimate actions
+  updateUnitPrice: (item: TakeoffItemKey, price: number) => void;
+  resetUnitPrices: () => void;
+  importUnitPrices: (prices: UnitPriceCatalogue) => void;
+
+  // Cleaning schedule actions
+  addCleaningShift: (shift: CleaningShift) => void;
+  updateCleaningShift: (id: string, updates: Partial<Omit<CleaningShift, 'id'>>) => void;
+  removeCleaningShift: (id: string) => void;
+  importCleaningShifts: (shifts: CleaningShift[]) => void;
+
+  // Custom module actions
+  addCustomModule: (module: CustomModuleDefinition) => void;
+  updateCustomModule: (id: string, updates: Partial<Omit<CustomModuleDefinition, 'id'>>) => void;
+  removeCustomModule: (id: string) => void;
+  importCustomModules: (modules: CustomModuleDefinition[]) => void;
+
   // Import
   importProject: (
     project: ProjectInfo,
@@ -39,6 +104,8 @@ interface ProjectActions {
     building: BuildingInfo,
     storeys: StoreyInfo[]
   ) => void;
+  /** Append storeys from an IFC update import (existing storeys stay untouched) */
+  importStoreys: (storeys: StoreyInfo[]) => void;
 
   // Utility
   resetProject: () => void;
@@ -76,6 +143,13 @@ function createDefaultProject(): ProjectState {
       },
     ],
     activeStoreyId: storeyId,
+    evacuationScenarios: [],
+    fireCompartments: [],
+    electricalCircuits: [],
+    electricalSettings: DEFAULT_ELECTRICAL_SETTINGS,
+    unitPrices: DEFAULT_UNIT_PRICES,
+    cleaningShifts: [],
+    customModules: [],
   };
 }
 
@@ -158,6 +232,142 @@ export const useProjectStore = create<ProjectState & ProjectActions>()(
 
       setActiveStorey: (id) => set({ activeStoreyId: id }),
 
+      // Evacuation scenario actions
+      addEvacuationScenario: (scenario) =>
+        set((state) => ({
+          evacuationScenarios: [...state.evacuationScenarios, scenario],
+        })),
+
+      updateEvacuationScenario: (id, updates) =>
+        set((state) => ({
+          evacuationScenarios: state.evacuationScenarios.map((scenario) =>
+            scenario.id === id ? { ...scenario, ...updates } : scenario
+          ),
+        })),
+
+      removeEvacuationScenario: (id) =>
+        set((state) => ({
+          evacuationScenarios: state.evacuationScenarios.filter((scenario) => scenario.id !== id),
+        })),
+
+      importEvacuationScenarios: (scenarios) => set({ evacuationScenarios: scenarios }),
+
+      // Fire compartment actions
+      addFireCompartment: (compartment) =>
+        set((state) => ({
+          fireCompartments: [...state.fireCompartments, compartment],
+        })),
+
+      updateFireCompartment: (id, updates) =>
+        set((state) => ({
+          fireCompartments: state.fireCompartments.map((compartment) =>
+            compartment.id === id ? { ...compartment, ...updates } : compartment
+          ),
+        })),
+
+      removeFireCompartment: (id) =>
+        set((state) => ({
+          fireCompartments: state.fireCompartments.filter((compartment) => compartment.id !== id),
+        })),
+
+      assignSpaceToCompartment: (spaceId, compartmentId) =>
+        set((state) => ({
+          fireCompartments: state.fireCompartments.map((compartment) => {
+            const spaceIds = compartment.spaceIds.filter((id) => id !== spaceId);
+            if (compartment.id === compartmentId) spaceIds.push(spaceId);
+            return { ...compartment, spaceIds };
+          }),
+        })),
+
+      importFireCompartments: (compartments) => set({ fireCompartments: compartments }),
+
+      // Electrical actions
+      addElectricalCircuit: (circuit) =>
+        set((state) => ({
+          electricalCircuits: [...state.electricalCircuits, circuit],
+        })),
+
+      updateElectricalCircuit: (id, updates) =>
+        set((state) => ({
+          electricalCircuits: state.electricalCircuits.map((circuit) =>
+            circuit.id === id ? { ...circuit, ...updates } : circuit
+          ),
+        })),
+
+      removeElectricalCircuit: (id) =>
+        set((state) => ({
+          electricalCircuits: state.electricalCircuits.filter((circuit) => circuit.id !== id),
+        })),
+
+      assignApplianceToCircuit: (applianceId, circuitId) =>
+        set((state) => ({
+          electricalCircuits: state.electricalCircuits.map((circuit) => {
+            const applianceIds = circuit.applianceIds.filter((id) => id !== applianceId);
+            if (circuit.id === circuitId) applianceIds.push(applianceId);
+            return { ...circuit, applianceIds };
+          }),
+        })),
+
+      updateElectricalSettings: (updates) =>
+        set((state) => ({
+          electricalSettings: { ...state.electricalSettings, ...updates },
+        })),
+
+      importElectrical: (circuits, settings) =>
+        set({ electricalCircuits: circuits, electricalSettings: settings }),
+
+      // Cost estimate actions
+      updateUnitPrice: (item, price) =>
+        set((state) => ({
+          unitPrices: { ...state.unitPrices, [item]: price },
+        })),
+
+      resetUnitPrices: () => set({ unitPrices: DEFAULT_UNIT_PRICES }),
+
+      // Items added after the catalogue was saved get their default price
+      importUnitPrices: (prices) => set({ unitPrices: { ...DEFAULT_UNIT_PRICES, ...prices } }),
+
+      // Cleaning schedule actions
+      addCleaningShift: (shift) =>
+        set((state) => ({
+          cleaningShifts: [...state.cleaningShifts, shift],
+        })),
+
+      updateCleaningShift: (id, updates) =>
+        set((state) => ({
+          cleaningShifts: state.cleaningShifts.map((shift) =>
+            shift.id === id ? { ...shift, ...updates } : shift
+          ),
+        })),
+
+      removeCleaningShift: (id) =>
+        set((state) => ({
+          cleaningShifts: state.cleaningShifts.filter((shift) => shift.id !== id),
+        })),
+
+      importCleaningShifts: (shifts) => set({ cleaningShifts: shifts }),
+
+      // Custom module actions
+      addCustomModule: (module) =>
+        set((state) => ({
+          customModules: [...state.customModules, module],
+        })),
+
+      updateCustomModule: (id, updates) =>
+        set((state) => ({
+          customModules: state.customModules.map((module) =>
+            module.id === id ? { ...module, ...updates } : module
+          ),
+        })),
+
+      // Values stay in the element property sets (and are still exported as stored)
+      removeCustomModule: (id) =>
+        set((state) => ({
+          customModules: state.customModules.filter((module) => module.id !== id),
+        })),
+
+      importCustomModules: (modules) => set({ customModules: modules }),
+
       // Import
       importProject: (project, site, building, storeys) =>
         set({
@@ -168,6 +378,14 @@ export const useProjectStore = create<ProjectState & ProjectActions>()(
           activeStoreyId: storeys[0]?.id ?? null,
         }),
 
+      importStoreys: (storeys) =>
+        set((state) => ({
+          storeys: [
+            ...state.storeys,
+            ...storeys.map((storey) => ({ ...storey, buildingId: state.building.id })),
+          ].sort((a, b) => a.elevation - b.elevation),
+        })),
+
       // Utility
       resetProject: () => set(createDefaultProject()),
     }),
@@ -195,6 +413,13 @@ export const useProjectStore = create<ProjectState & ProjectActions>()(
           building: persisted.building ?? currentState.building,
           storeys: persisted.storeys ?? currentState.storeys,
           activeStoreyId: persisted.activeStoreyId ?? currentState.activeStoreyId,
+          evacuationScenarios: persisted.evacuationScenarios ?? currentState.evacuationScenarios,
+          fireCompartments: persisted.fireCompartments ?? currentState.fireCompartments,
+          electricalCircuits: persisted.electricalCircuits ?? currentState.electricalCircuits,
+          electricalSettings: persisted.electricalSettings ?? currentState.electricalSettings,
+          unitPrices: { ...currentState.unitPrices, ...persisted.unitPrices },
+          cleaningShifts: persisted.cleaningShifts ?? currentState.cleaningShifts,
+          customModules: persisted.customModules ?? currentState.customModules,
         };
       },
       onRehydrateStorage: () => {
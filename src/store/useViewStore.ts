@@ -33,6 +33,8 @@ interface ViewState {
   // Spaces visibility
   showSpaces: boolean;
   showSpaceLabels: boolean;
+  // Fire compartment zones (PRO fire safety)
+  showFireCompartments: boolean;
 }
 
 interface ViewActions {
@@ -81,6 +83,7 @@ interface ViewActions {
   toggleSpaces: () => void;
   setShowSpaceLabels: (show: boolean) => void;
   toggleSpaceLabels: () => void;
+  setShowFireCompartments: (show: boolean) => void;
 }
 
 const defaultSnapSettings: SnapSettings = {
@@ -120,6 +123,7 @@ export const useViewStore = create<ViewState & ViewActions>((set) => ({
   // Spaces visibility defaults
   showSpaces: true, // Show spaces by default
   showSpaceLabels: true, // Show space labels by default
+  showFireCompartments: true,
 
   setViewMode: (mode) => set({ viewMode: mode }),
 
@@ -242,4 +246,5 @@ export const useViewStore = create<ViewState & ViewActions>((set) => ({
   toggleSpaces: () => set((state) => ({ showSpaces: !state.showSpaces })),
   setShowSpaceLabels: (show) => set({ showSpaceLabels: show }),
   toggleSpaceLabels: () => set((state) => ({ showSpaceLabels: !state.showSpaceLabels })),
+  setShowFireCompartments: (show) => set({ showFireCompartments: show }),
 }));
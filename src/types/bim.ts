@@ -1,23 +1,32 @@
 import type { Point2D, Vector3, Quaternion } from './geometry';
-import type { FireSafetyData, CleaningData, CleaningClassification, CleaningFrequency } from './proMode';
+import type {
+  FireSafetyData,
+  FireRating,
+  CleaningData,
+  CleaningClassification,
+  CleaningFrequency,
+  HygieneZone,
+} from './proMode';
 
 // Re-export PRO mode types for external use
-export type { FireSafetyData, CleaningData, CleaningClassification, CleaningFrequency };
+export type { FireSafetyData, FireRating, CleaningData, CleaningClassification, CleaningFrequency, HygieneZone };
 
 // Re-export cleaning calculation functions
 export {
+  FIRE_RATINGS,
   calculateCleaningDuration,
   calculateMonthlyCost,
   calculateMonthlyTime,
   CLEANING_PERFORMANCE_RATES,
   CLEANING_FREQUENCY_PER_MONTH,
   DEFAULT_CLEANING_HOURLY_RATE,
+  HYGIENE_ZONES,
 } from './proMode';
 
 /**
  * Element types supported by the editor
  */
-export type ElementType = 'wall' | 'door' | 'window' | 'column' | 'slab' | 'furniture' | 'counter' | 'space' | 'stair';
+export type ElementType = 'wall' | 'door' | 'window' | 'column' | 'slab' | 'furniture' | 'counter' | 'space' | 'stair' | 'signage';
 
 /**
  * IFC-compatible property set
@@ -324,7 +333,7 @@ export interface WallData {
 
   // PRO Mode: Fire Safety
   /** Fire resistance rating (e.g., REI30, REI60, REI90) */
-  fireRating?: 'REI30' | 'REI60' | 'REI90' | 'REI120' | 'REI180' | 'REI240';
+  fireRating?: FireRating;
   /** Whether the wall is combustible */
   combustible?: boolean;
 }
@@ -360,7 +369,7 @@ export interface DoorData {
 
   // PRO Mode: Fire Safety
   /** Fire resistance rating (e.g., REI30, REI60, REI90) */
-  fireRating?: 'REI30' | 'REI60' | 'REI90' | 'REI120' | 'REI180' | 'REI240';
+  fireRating?: FireRating;
   /** Whether this door is a fire exit / emergency exit */
   isFireExit?: boolean;
 }
@@ -545,6 +554,44 @@ export interface StairData {
   openingId?: string;
 }
 
+/**
+ * Kind of escape route signage element
+ */
+export type SignageKind = 'exitSign' | 'emergencyLight';
+
+/**
+ * Direction arrow on an exit sign (ISO 7010 E001/E002 with supplementary arrow)
+ */
+export type SignageArrow = 'none' | 'straight' | 'left' | 'right' | 'down';
+
+/**
+ * Signage-specific data (exit signs and emergency luminaires)
+ */
+export interface SignageData {
+  kind: SignageKind;
+
+  /** Arrow direction (exit signs only) */
+  arrow: SignageArrow;
+
+  /** Mounting height above the storey floor in meters */
+  mountingHeight: number;
+
+  /** Recognition distance of the sign or coverage radius of the luminaire in meters */
+  range: number;
+
+  /** Rotation angle in radians (walking direction the sign faces) */
+  rotation: number;
+
+  /** Rated duration of the emergency power supply in minutes */
+  duration: number;
+
+  /** Placed by the signage planner (replaced when the planner runs again) */
+  autoPlaced: boolean;
+
+  /** Door the sign is mounted above (if any) */
+  hostDoorId?: string;
+}
+
 /**
  * IFC Space type enumeration
  */
@@ -598,6 +645,38 @@ export const GASTRO_SPACE_COLORS: Record<GastroSpaceCategory, string> = {
   SONSTIGES: '#D3D3D3', // Hellgrau - Sonstiges
 };
 
+/**
+ * Default occupant load per Gastro Space Category (persons/m²)
+ * Orientierung an VKF-Brandschutzrichtlinie "Flucht- und Rettungswege";
+ * Nebenräume ohne eigene Belegung (WC, Technik) zählen 0, da deren Nutzer
+ * bereits im Gastraum erfasst sind.
+ */
+export const OCCUPANT_LOAD_FACTORS: Record<GastroSpaceCategory, number> = {
+  GASTRAUM: 1.0,   // Restaurant, bestuhlt
+  BAR: 2.0,        // Stehplätze
+  KUECHE: 0.1,     // Personal, 1 Person / 10 m²
+  LAGER: 0.02,     // gelegentlich begangen
+  SANITAER: 0,
+  PERSONAL: 0.1,
+  EINGANG: 0.3,
+  TERRASSE: 1.0,
+  TECHNIK: 0,
+  SONSTIGES: 0.1,
+};
+
+/**
+ * Occupant-load overrides for a space (Belegung)
+ * Without overrides the design occupancy is area × OCCUPANT_LOAD_FACTORS[category]
+ */
+export interface OccupancyData {
+  /** Persons per m² instead of the category default */
+  personsPerM2?: number;
+  /** Derive occupancy from the seats (chairs, stools, sofas) placed in the space */
+  useSeatCount?: boolean;
+  /** Fixed design occupancy, takes precedence over seats and area */
+  fixedOccupancy?: number;
+}
+
 /**
  * Space-specific data (IfcSpace)
  * Represents a bounded area within a building storey
@@ -636,6 +715,9 @@ export interface SpaceData {
   /** Gastro-specific room category (stored in IfcSpace.ObjectType) */
   gastroCategory?: GastroSpaceCategory;
 
+  /** Occupant-load overrides (exported as Pset_SpaceOccupancyRequirements) */
+  occupancyData?: OccupancyData;
+
   // PRO Mode: Fire Safety
   /** Fire safety requirements and compliance data */
   fireSafetyData?: FireSafetyData;
@@ -643,6 +725,10 @@ export interface SpaceData {
   // PRO Mode: Cleaning & FM
   /** Cleaning and facility management data */
   cleaningData?: CleaningData;
+
+  // PRO Mode: Hygiene
+  /** HACCP hygiene zone (kitchen workflow) */
+  hygieneZone?: HygieneZone;
 }
 
 /**
@@ -681,6 +767,9 @@ export interface BimElement {
   /** Reference to parent storey */
   parentId: string | null;
 
+  /** IFC GlobalId of the source element (set on IFC import, reused on export) */
+  ifcGlobalId?: string;
+
   /** Type-specific data */
   wallData?: WallData;
   doorData?: DoorData;
@@ -691,6 +780,7 @@ export interface BimElement {
   counterData?: CounterData;
   spaceData?: SpaceData;
   stairData?: StairData;
+  signageData?: SignageData;
 }
 
 // ============================================
@@ -736,6 +826,7 @@ export interface StoreyInfo {
   buildingId: string;
   elevation: number; // Height from ground (meters)
   height: number; // Storey height (meters)
+  ifcGlobalId?: string; // IFC GlobalId of the source storey (IFC import)
 }
 
 // ============================================
@@ -750,6 +841,8 @@ export const DEFAULT_DOOR_WIDTH = 0.9; // meters (single door)
 export const DEFAULT_DOUBLE_DOOR_WIDTH = 1.8; // meters (double door)
 export const DEFAULT_SLIDING_DOOR_WIDTH = 1.2; // meters (sliding door)
 export const DEFAULT_DOOR_HEIGHT = 2.1; // meters
+export const DOOR_FRAME_WIDTH = 0.05; // meters (each jamb)
+export const DOOR_LEAF_THICKNESS = 0.04; // meters
 
 export const DEFAULT_WINDOW_WIDTH = 1.2; // meters (single window)
 export const DEFAULT_DOUBLE_WINDOW_WIDTH = 2.0; // meters (double window)
@@ -778,6 +871,13 @@ export const DEFAULT_GASTRO_CATEGORY: GastroSpaceCategory = 'SONSTIGES';
 /** Tolerance for connecting wall endpoints (in meters) */
 export const SPACE_DETECTION_TOLERANCE = 0.05; // 5cm
 
+// Signage defaults (SN EN 1838 / ISO 7010)
+export const DEFAULT_EXIT_SIGN_HEIGHT = 2.2; // above door head
+export const DEFAULT_EXIT_SIGN_RANGE = 20; // 10cm pictogram, internally lit: 200 × h
+export const DEFAULT_EMERGENCY_LIGHT_HEIGHT = 2.5;
+export const DEFAULT_EMERGENCY_LIGHT_RANGE = 5; // coverage radius for 1 lx on the route
+export const DEFAULT_EMERGENCY_DURATION = 60; // minutes
+
 // Stair defaults (DIN 18065 compliant)
 export const DEFAULT_STAIR_WIDTH = 1.0; // 1m standard width
 export const DEFAULT_STAIR_RISER_HEIGHT = 0.175; // 17.5cm ideal riser
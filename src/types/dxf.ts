@@ -0,0 +1,72 @@
+/**
+ * DXF Underlay types for tracing vector floor plans
+ */
+
+import type { Point2D } from './geometry';
+
+/**
+ * Drawing units supported for DXF import
+ */
+export type DxfUnit = 'mm' | 'cm' | 'm' | 'in' | 'ft';
+
+/**
+ * Meters per drawing unit
+ */
+export const DXF_UNIT_SCALE: Record<DxfUnit, number> = {
+  mm: 0.001,
+  cm: 0.01,
+  m: 1,
+  in: 0.0254,
+  ft: 0.3048,
+};
+
+/**
+ * Geometry of an underlay entity (arcs counter-clockwise, angles in degrees)
+ */
+export type DxfUnderlayEntity =
+  | { id: string; type: 'line'; layer: string; start: Point2D; end: Point2D }
+  | { id: string; type: 'polyline'; layer: string; points: Point2D[]; closed: boolean }
+  | { id: string; type: 'arc'; layer: string; center: Point2D; radius: number; startAngle: number; endAngle: number }
+  | { id: string; type: 'circle'; layer: string; center: Point2D; radius: number }
+  | {
+      id: string;
+      type: 'text';
+      layer: string;
+      /** Baseline start point */
+      position: Point2D;
+      height: number;
+      text: string;
+      /** Rotation in degrees */
+      rotation: number;
+    };
+
+/**
+ * Layer of the DXF drawing
+ */
+export interface DxfUnderlayLayer {
+  name: string;
+  /** Display color (hex) derived from the AutoCAD color index */
+  color: string;
+  entityCount: number;
+}
+
+/**
+ * Parsed DXF drawing in its own units
+ */
+export interface DxfDrawing {
+  /** Unit from $INSUNITS (null if unitless) */
+  unit: DxfUnit | null;
+  layers: DxfUnderlayLayer[];
+  entities: DxfUnderlayEntity[];
+}
+
+/**
+ * DXF underlay placed in world coordinates (meters)
+ */
+export interface DxfUnderlayDocument {
+  /** Original file name */
+  fileName: string;
+  unit: DxfUnit;
+  layers: DxfUnderlayLayer[];
+  entities: DxfUnderlayEntity[];
+}
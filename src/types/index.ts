@@ -3,4 +3,5 @@ export * from './bim';
 export * from './geometry';
 export * from './tools';
 export * from './pdf';
+export * from './dxf';
 export * from './dimensions';
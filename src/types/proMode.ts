@@ -1,10 +1,18 @@
 /**
  * PRO Mode Types
  *
- * Type definitions for advanced PRO mode modules (Fire Safety, Cleaning/FM)
+ * Type definitions for advanced PRO mode modules (Fire Safety, Cleaning/FM, Maintenance, Hygiene)
+ * and the user-defined property-set modules (e.g. Acoustics)
  */
 
-export type ModuleId = 'fire-safety' | 'cleaning';
+import type { ElementType } from './bim';
+
+export type BuiltInModuleId = 'fire-safety' | 'cleaning' | 'maintenance' | 'electrical' | 'quantities' | 'hygiene';
+
+/** Id of a user-defined module (see CustomModuleDefinition) */
+export type CustomModuleId = `custom:${string}`;
+
+export type ModuleId = BuiltInModuleId | CustomModuleId;
 
 export interface ProModule {
   id: ModuleId;
@@ -14,6 +22,13 @@ export interface ProModule {
   icon: string; // Lucide icon name
 }
 
+/**
+ * Fire resistance classes (EN 13501-2), ascending
+ */
+export const FIRE_RATINGS = ['REI30', 'REI60', 'REI90', 'REI120', 'REI180', 'REI240'] as const;
+
+export type FireRating = (typeof FIRE_RATINGS)[number];
+
 /**
  * Fire Safety Data (IFC Property Sets)
  *
@@ -32,7 +47,7 @@ export interface FireSafetyData {
   airPressurized?: boolean;
 
   // Pset_WallCommon / Pset_DoorCommon
-  fireRating?: 'REI30' | 'REI60' | 'REI90' | 'REI120' | 'REI180' | 'REI240';
+  fireRating?: FireRating;
   combustible?: boolean;
 }
 
@@ -126,3 +141,80 @@ export function calculateMonthlyTime(
 ): number {
   return durationMinutes * CLEANING_FREQUENCY_PER_MONTH[frequency];
 }
+
+/**
+ * HACCP hygiene zone of a kitchen space (Hygienezonierung)
+ * Goods flow: delivery -> storage -> prep -> cooking; dishwashing and
+ * waste are unclean zones.
+ */
+export type HygieneZone = 'delivery' | 'coldStorage' | 'prep' | 'cooking' | 'dishwashing' | 'waste';
+
+export const HYGIENE_ZONES: HygieneZone[] = ['delivery', 'coldStorage', 'prep', 'cooking', 'dishwashing', 'waste'];
+
+// ============================================================================
+// Custom Modules (user-defined property sets)
+// ============================================================================
+
+export type ModulePropertyType = 'text' | 'number' | 'boolean' | 'enum' | 'date';
+
+export type ModulePropertyValue = string | number | boolean | null;
+
+/** Aggregation of a number column in the overview table */
+export type ModuleTotal = 'sum' | 'average';
+
+/**
+ * Property of a custom module, stored in the module's IFC property set
+ */
+export interface ModulePropertyDefinition {
+  /** Property name in the IFC property set (e.g. "ReverberationTimeTarget") */
+  name: string;
+  /** Display label in the editor */
+  label: string;
+  type: ModulePropertyType;
+  /** Unit shown next to number fields and in the overview (e.g. "dB", "s") */
+  unit?: string;
+  /** Allowed values of enum properties */
+  options?: string[];
+  /** Value of elements that have not been edited yet */
+  defaultValue: ModulePropertyValue;
+  /** Bounds of number properties */
+  min?: number;
+  max?: number;
+  /** Total of number properties in the overview, none if unset */
+  total?: ModuleTotal;
+}
+
+/**
+ * Read-only field calculated from the properties and the element quantities
+ */
+export interface ModuleComputedField {
+  /** Property name in the IFC property set */
+  name: string;
+  label: string;
+  /** Arithmetic expression, e.g. "0.161 * Volume / (Area * AbsorptionCoefficient)" */
+  expression: string;
+  unit?: string;
+  /** Decimal places of the result */
+  decimals: number;
+  /** Total in the overview, none if unset */
+  total?: ModuleTotal;
+}
+
+/**
+ * Declarative PRO module: the editor renders the property panel, multi-edit,
+ * overview table and IFC property set from this definition.
+ */
+export interface CustomModuleDefinition {
+  id: CustomModuleId;
+  name: string;
+  description: string;
+  /** Lucide icon name (one of CUSTOM_MODULE_ICONS) */
+  icon: string;
+  /** Element types the module applies to */
+  elementTypes: ElementType[];
+  /** Name of the IFC property set the values are stored in and exported as */
+  psetName: string;
+  properties: ModulePropertyDefinition[];
+  /** Evaluated in order, later fields may use earlier ones */
+  computedFields: ModuleComputedField[];
+}